@@ -74,6 +74,26 @@ const KNOWN_ADAPTERS: Record<string, AdapterConfig> = {
     packageName: '@icetype/prisma',
     factoryName: 'createPrismaAdapter',
   },
+  'json-schema': {
+    packageName: '@icetype/json-schema',
+    factoryName: 'createJsonSchemaAdapter',
+  },
+  avro: {
+    packageName: '@icetype/avro',
+    factoryName: 'createAvroAdapter',
+  },
+  arrow: {
+    packageName: '@icetype/arrow',
+    factoryName: 'createArrowAdapter',
+  },
+  protobuf: {
+    packageName: '@icetype/protobuf',
+    factoryName: 'createProtobufAdapter',
+  },
+  graphql: {
+    packageName: '@icetype/graphql',
+    factoryName: 'createGraphQLAdapter',
+  },
 };
 
 // =============================================================================
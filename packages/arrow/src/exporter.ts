@@ -0,0 +1,429 @@
+/**
+ * Arrow Schema Exporter
+ *
+ * Generates Apache Arrow schemas from IceType schemas. IceType modifiers,
+ * defaults, relations and enum values are kept in field metadata under
+ * `icetype.*` keys, and `uuid` and `json` fields carry Arrow's canonical
+ * extension types.
+ *
+ * @packageDocumentation
+ */
+
+import type { IceTypeSchema, FieldDefinition, SchemaAdapter } from '@icetype/core';
+
+import type {
+  ArrowType,
+  ArrowField,
+  ArrowSchema,
+  ArrowTimeUnit,
+  ArrowExportOptions,
+} from './types.js';
+
+import { ICETYPE_TO_ARROW_MAP } from './types.js';
+
+import { VERSION } from './version.js';
+
+/** Precision and scale used for `decimal` fields declared without them */
+const DEFAULT_DECIMAL_PRECISION = 38;
+const DEFAULT_DECIMAL_SCALE = 9;
+
+/** Largest precision a 128-bit decimal holds; wider decimals use 256 bits */
+const DECIMAL128_MAX_PRECISION = 38;
+
+const TIME_UNITS: Record<NonNullable<ArrowExportOptions['timestampUnit']>, ArrowTimeUnit> = {
+  millis: 'MILLISECOND',
+  micros: 'MICROSECOND',
+  nanos: 'NANOSECOND',
+};
+
+/** Extension type name key, from the Arrow columnar format specification */
+const EXTENSION_NAME = 'ARROW:extension:name';
+
+/**
+ * State shared while converting one schema.
+ *
+ * Dictionary IDs must be unique within a schema, so each enum field is
+ * given the next one.
+ */
+interface ConversionContext {
+  options: ArrowExportOptions;
+  nextDictionaryId: number;
+}
+
+// =============================================================================
+// Type Mapping
+// =============================================================================
+
+/**
+ * Map an IceType primitive type to an Arrow type.
+ *
+ * Parameterized types (`decimal(p,s)`, `fixed(n)`, `varchar(n)`) are
+ * accepted in their written form. Unknown types map to `utf8`.
+ *
+ * @param iceType - The IceType type string
+ * @param options - Timestamp unit and timezone
+ * @returns The Arrow type
+ */
+export function mapIceTypeToArrow(iceType: string, options: ArrowExportOptions = {}): ArrowType {
+  const normalized = iceType.trim().toLowerCase();
+  const match = /^(\w+)\s*\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)$/.exec(normalized);
+  const [base, first, second] = match ? [match[1]!, Number(match[2]), match[3]] : [normalized];
+
+  switch (base) {
+    case 'decimal':
+      return decimalType(first, second !== undefined ? Number(second) : undefined);
+    case 'fixed':
+      return first !== undefined ? { name: 'fixedsizebinary', byteWidth: first } : { name: 'binary' };
+    case 'timestamp':
+      return { name: 'timestamp', unit: timeUnit(options) };
+    case 'timestamptz':
+      return { name: 'timestamp', unit: timeUnit(options), timezone: options.timezone ?? 'UTC' };
+    case 'time': {
+      const unit = timeUnit(options);
+      return { name: 'time', unit, bitWidth: unit === 'MILLISECOND' ? 32 : 64 };
+    }
+    default: {
+      const mapped = ICETYPE_TO_ARROW_MAP[base];
+      return mapped ? { ...mapped.arrow } : { name: 'utf8' };
+    }
+  }
+}
+
+function timeUnit(options: ArrowExportOptions): ArrowTimeUnit {
+  return TIME_UNITS[options.timestampUnit ?? 'micros'];
+}
+
+function decimalType(precision: number | undefined, scale: number | undefined): ArrowType {
+  const digits = precision ?? DEFAULT_DECIMAL_PRECISION;
+  return {
+    name: 'decimal',
+    precision: digits,
+    scale: precision !== undefined ? scale ?? 0 : DEFAULT_DECIMAL_SCALE,
+    bitWidth: digits > DECIMAL128_MAX_PRECISION ? 256 : 128,
+  };
+}
+
+/**
+ * Canonical extension type of an IceType primitive, e.g. `arrow.uuid`.
+ */
+function extensionMetadata(iceType: string): Record<string, string> {
+  const extension = ICETYPE_TO_ARROW_MAP[iceType.trim().toLowerCase()]?.extension;
+  return extension ? { [EXTENSION_NAME]: extension } : {};
+}
+
+/**
+ * A field holding one value of an IceType type string, as used for list
+ * elements and map keys and values.
+ */
+function primitiveField(name: string, iceType: string, nullable: boolean, options: ArrowExportOptions): ArrowField {
+  const metadata = extensionMetadata(iceType);
+  return {
+    name,
+    nullable,
+    type: mapIceTypeToArrow(iceType, options),
+    children: [],
+    ...(Object.keys(metadata).length > 0 && { metadata }),
+  };
+}
+
+/**
+ * The IceType type of a field as it would be written in a schema, without
+ * its modifier, e.g. `decimal(10,2)` or `struct<Address>[]`.
+ */
+function iceTypeName(field: FieldDefinition): string {
+  let name: string;
+  switch (field.type) {
+    case 'decimal':
+      name = field.precision !== undefined ? `decimal(${field.precision},${field.scale ?? 0})` : 'decimal';
+      break;
+    case 'varchar':
+    case 'char':
+    case 'fixed':
+      name = field.length !== undefined ? `${field.type}(${field.length})` : field.type;
+      break;
+    case 'map':
+      name = `map<${field.keyType ?? 'string'}, ${field.valueType ?? 'string'}>`;
+      break;
+    case 'list':
+      name = `list<${field.elementType ?? 'string'}>`;
+      break;
+    case 'enum':
+      name = field.enumName ? `enum<${field.enumName}>` : 'enum';
+      break;
+    case 'struct':
+      name = field.structName ? `struct<${field.structName}>` : 'struct';
+      break;
+    default:
+      name = field.type;
+  }
+  return field.isArray ? `${name}[]` : name;
+}
+
+// =============================================================================
+// Field Metadata
+// =============================================================================
+
+/**
+ * IceType details Arrow types do not carry: the declared type, modifier,
+ * uniqueness, indexing, default and relation of a field.
+ */
+function fieldMetadata(field: FieldDefinition): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  if (field.relation) {
+    const { operator, targetType, inverse } = field.relation;
+    metadata['icetype.relation'] = `${operator} ${targetType}${inverse ? `.${inverse}` : ''}`;
+  } else {
+    metadata['icetype.type'] = iceTypeName(field);
+  }
+  if (field.modifier) metadata['icetype.modifier'] = field.modifier;
+  if (field.isUnique) metadata['icetype.unique'] = 'true';
+  if (field.isIndexed) metadata['icetype.indexed'] = 'true';
+  if (field.defaultValue !== undefined) metadata['icetype.default'] = JSON.stringify(field.defaultValue);
+  if (field.enumValues) metadata['icetype.enum'] = JSON.stringify(field.enumValues);
+  return metadata;
+}
+
+// =============================================================================
+// Field Generation
+// =============================================================================
+
+/**
+ * The Arrow field for a single value of an IceType field, ignoring arrays.
+ */
+function valueField(field: FieldDefinition, name: string, nullable: boolean, context: ConversionContext): ArrowField {
+  const { options } = context;
+
+  if (field.relation) {
+    // Relations store the related record's ID
+    return primitiveField(name, 'string', nullable, options);
+  }
+
+  switch (field.type) {
+    case 'decimal':
+      return { name, nullable, type: decimalType(field.precision, field.scale), children: [] };
+    case 'fixed':
+      return primitiveField(name, field.length !== undefined ? `fixed(${field.length})` : 'binary', nullable, options);
+    case 'enum': {
+      if (!field.enumValues) {
+        return primitiveField(name, 'string', nullable, options);
+      }
+      return {
+        name,
+        nullable,
+        type: { name: 'utf8' },
+        children: [],
+        dictionary: {
+          id: context.nextDictionaryId++,
+          indexType: { name: 'int', bitWidth: 32, isSigned: true },
+          isOrdered: false,
+        },
+      };
+    }
+    case 'struct':
+      return {
+        name,
+        nullable,
+        type: { name: 'struct' },
+        children: (field.structFields ?? []).flatMap((nested) => {
+          const converted = arrowField(nested, context);
+          return converted ? [converted] : [];
+        }),
+      };
+    case 'list':
+      return {
+        name,
+        nullable,
+        type: { name: 'list' },
+        children: [primitiveField('item', field.elementType ?? 'string', true, options)],
+      };
+    case 'map':
+      return {
+        name,
+        nullable,
+        type: { name: 'map', keysSorted: false },
+        children: [
+          {
+            name: 'entries',
+            nullable: false,
+            type: { name: 'struct' },
+            children: [
+              primitiveField('key', field.keyType ?? 'string', false, options),
+              primitiveField('value', field.valueType ?? 'string', true, options),
+            ],
+          },
+        ],
+      };
+    case 'ref':
+      return primitiveField(name, 'string', nullable, options);
+    default:
+      return primitiveField(name, field.type, nullable, options);
+  }
+}
+
+/**
+ * Build an Arrow field, or `undefined` for fields that are not stored.
+ */
+function arrowField(field: FieldDefinition, context: ConversionContext): ArrowField | undefined {
+  const operator = field.relation?.operator;
+  if (operator === '<-' || operator === '<~') {
+    // Backward relations are derived from the other side and not stored
+    return undefined;
+  }
+
+  const nullable = field.isOptional || field.modifier === '?';
+  const value: ArrowField = field.isArray
+    ? { name: field.name, nullable, type: { name: 'list' }, children: [valueField(field, 'item', true, context)] }
+    : valueField(field, field.name, nullable, context);
+
+  return { ...value, metadata: { ...value.metadata, ...fieldMetadata(field) } };
+}
+
+/**
+ * Convert an IceType field definition to an Arrow field.
+ *
+ * Arrays become `list` fields, optional fields are nullable, and backward
+ * relations (`<-`, `<~`) are not stored and return `undefined`.
+ *
+ * @param field - The IceType field definition
+ * @param options - Export options
+ * @returns The Arrow field, or `undefined` if the field is not stored
+ */
+export function fieldToArrowField(field: FieldDefinition, options: ArrowExportOptions = {}): ArrowField | undefined {
+  return arrowField(field, { options, nextDictionaryId: 0 });
+}
+
+// =============================================================================
+// Schema Generation
+// =============================================================================
+
+/**
+ * The system columns, typed as the Parquet and DuckDB adapters store them.
+ */
+function systemFields(options: ArrowExportOptions): ArrowField[] {
+  const timestamp = mapIceTypeToArrow('timestamptz', options);
+  return [
+    { name: '$id', nullable: false, type: { name: 'utf8' }, children: [] },
+    { name: '$type', nullable: false, type: { name: 'utf8' }, children: [] },
+    { name: '$version', nullable: false, type: { name: 'int', bitWidth: 32, isSigned: true }, children: [] },
+    { name: '$createdAt', nullable: false, type: timestamp, children: [] },
+    { name: '$updatedAt', nullable: false, type: timestamp, children: [] },
+  ];
+}
+
+/**
+ * Convert an IceType schema to an Arrow schema.
+ *
+ * @param schema - The IceType schema to convert
+ * @param options - Export options
+ * @returns The Arrow schema
+ *
+ * @example
+ * ```typescript
+ * const arrow = schemaToArrow(parseSchema({
+ *   $type: 'User',
+ *   email: 'string!',
+ *   age: 'int?',
+ * }), { includeSystemFields: false });
+ * // {
+ * //   fields: [
+ * //     { name: 'email', nullable: false, type: { name: 'utf8' }, children: [],
+ * //       metadata: { 'icetype.type': 'string', 'icetype.modifier': '!', 'icetype.unique': 'true' } },
+ * //     { name: 'age', nullable: true, type: { name: 'int', bitWidth: 32, isSigned: true }, children: [],
+ * //       metadata: { 'icetype.type': 'int', 'icetype.modifier': '?' } },
+ * //   ],
+ * //   metadata: { 'icetype.schema': 'User', 'icetype.version': '1' },
+ * // }
+ * ```
+ */
+export function schemaToArrow(schema: IceTypeSchema, options: ArrowExportOptions = {}): ArrowSchema {
+  const context: ConversionContext = { options, nextDictionaryId: 0 };
+  const fields = options.includeSystemFields === false ? [] : systemFields(options);
+
+  for (const [name, field] of schema.fields) {
+    if (name.startsWith('$')) continue;
+    const converted = arrowField({ ...field, name }, context);
+    if (converted) {
+      fields.push(converted);
+    }
+  }
+
+  return {
+    fields,
+    metadata: { 'icetype.schema': schema.name, 'icetype.version': String(schema.version) },
+  };
+}
+
+/**
+ * Serialize an Arrow schema as JSON.
+ *
+ * @param schema - The Arrow schema to serialize
+ * @returns Pretty-printed JSON with a trailing newline
+ */
+export function serializeArrowSchema(schema: ArrowSchema): string {
+  return JSON.stringify(schema, null, 2) + '\n';
+}
+
+// =============================================================================
+// Arrow Adapter Class
+// =============================================================================
+
+/**
+ * Adapter for transforming IceType schemas to Arrow schemas.
+ *
+ * Implements the SchemaAdapter interface for consistency with other adapters.
+ *
+ * @example
+ * ```typescript
+ * import { parseSchema } from '@icetype/core';
+ * import { ArrowAdapter, encodeArrowSchema } from '@icetype/arrow';
+ *
+ * const schema = parseSchema({
+ *   $type: 'Event',
+ *   id: 'uuid!',
+ *   at: 'timestamptz',
+ * });
+ *
+ * const adapter = new ArrowAdapter();
+ * const arrow = adapter.transform(schema, { timestampUnit: 'millis' });
+ * const json = adapter.serialize(arrow);
+ * const bytes = encodeArrowSchema(arrow);
+ * ```
+ */
+export class ArrowAdapter implements SchemaAdapter<ArrowSchema, ArrowExportOptions> {
+  readonly name = 'arrow';
+  readonly version = VERSION;
+
+  /**
+   * Transform an IceType schema to an Arrow schema.
+   *
+   * @param schema - The IceType schema to transform
+   * @param options - Optional Arrow export options
+   * @returns Arrow schema
+   */
+  transform(schema: IceTypeSchema, options?: ArrowExportOptions): ArrowSchema {
+    return schemaToArrow(schema, options);
+  }
+
+  /**
+   * Serialize an Arrow schema to JSON.
+   *
+   * @param output - The Arrow schema to serialize
+   * @returns Pretty-printed JSON
+   */
+  serialize(output: ArrowSchema): string {
+    return serializeArrowSchema(output);
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+/**
+ * Create a new Arrow adapter instance.
+ *
+ * @returns A new ArrowAdapter instance
+ */
+export function createArrowAdapter(): ArrowAdapter {
+  return new ArrowAdapter();
+}
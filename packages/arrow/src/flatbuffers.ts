@@ -0,0 +1,233 @@
+/**
+ * FlatBuffers Builder
+ *
+ * A minimal FlatBuffers builder for the Arrow IPC metadata: tables with
+ * scalar, offset and inline struct fields, strings, and vectors of offsets
+ * or structs. Like the reference implementation it writes back to front,
+ * so children are created before the tables that refer to them and every
+ * offset points forward.
+ *
+ * @see https://flatbuffers.dev/internals/
+ *
+ * @packageDocumentation
+ */
+
+/** An object in the buffer, as its distance from the end of the buffer */
+export type Offset = number;
+
+// A global in Node.js, Deno, Bun and workers, though not declared by lib ES2022
+declare const TextEncoder: new () => { encode(input: string): Uint8Array };
+
+const textEncoder = new TextEncoder();
+
+export class FlatBufferBuilder {
+  private bytes = new Uint8Array(1024);
+  private view = new DataView(this.bytes.buffer);
+  /** Start of the written bytes, which end at the end of the buffer */
+  private space = this.bytes.length;
+  /** Largest alignment seen, which the root must respect */
+  private minAlign = 1;
+  /** Field offsets of the table being built, by slot */
+  private vtable: number[] = [];
+  private objectStart = 0;
+  private vectorLength = 0;
+
+  /** Bytes written so far */
+  offset(): Offset {
+    return this.bytes.length - this.space;
+  }
+
+  /**
+   * Pad so that `size` bytes can be written aligned to `size` after
+   * `additional` more bytes, growing the buffer as needed.
+   */
+  private prep(size: number, additional: number): void {
+    this.minAlign = Math.max(this.minAlign, size);
+    const padding = (~(this.offset() + additional) + 1) & (size - 1);
+    const needed = padding + size + additional;
+    while (this.space < needed) {
+      this.grow();
+    }
+    this.space -= padding;
+    this.bytes.fill(0, this.space, this.space + padding);
+  }
+
+  private grow(): void {
+    const used = this.offset();
+    const bytes = new Uint8Array(this.bytes.length * 2);
+    bytes.set(this.bytes.subarray(this.space), bytes.length - used);
+    this.space += bytes.length - this.bytes.length;
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Scalars
+  // ---------------------------------------------------------------------------
+
+  addInt8(value: number): void {
+    this.prep(1, 0);
+    this.view.setInt8(--this.space, value);
+  }
+
+  addInt16(value: number): void {
+    this.prep(2, 0);
+    this.view.setInt16((this.space -= 2), value, true);
+  }
+
+  addInt32(value: number): void {
+    this.prep(4, 0);
+    this.view.setInt32((this.space -= 4), value, true);
+  }
+
+  addInt64(value: bigint | number): void {
+    this.prep(8, 0);
+    this.view.setBigInt64((this.space -= 8), BigInt(value), true);
+  }
+
+  /** A reference to an object written earlier */
+  addOffset(target: Offset): void {
+    this.prep(4, 0);
+    // Relative to the position of the offset itself
+    const relative = this.offset() + 4 - target;
+    this.view.setUint32((this.space -= 4), relative, true);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Strings and Vectors
+  // ---------------------------------------------------------------------------
+
+  createString(value: string): Offset {
+    const utf8 = textEncoder.encode(value);
+    this.prep(4, utf8.length + 1);
+    this.bytes[--this.space] = 0;
+    this.space -= utf8.length;
+    this.bytes.set(utf8, this.space);
+    this.addInt32(utf8.length);
+    return this.offset();
+  }
+
+  /**
+   * Start a vector; its elements are then added in reverse order.
+   *
+   * @param elementSize - Size of each element: 4 for offsets, the struct size for structs
+   * @param length - Number of elements
+   * @param alignment - Alignment of the elements
+   */
+  startVector(elementSize: number, length: number, alignment: number): void {
+    this.vectorLength = length;
+    this.prep(4, elementSize * length);
+    this.prep(alignment, elementSize * length);
+  }
+
+  endVector(): Offset {
+    this.prep(4, 0);
+    this.view.setUint32((this.space -= 4), this.vectorLength, true);
+    return this.offset();
+  }
+
+  /** A vector of references to objects written earlier */
+  createOffsetVector(targets: Offset[]): Offset {
+    this.startVector(4, targets.length, 4);
+    for (let i = targets.length - 1; i >= 0; i--) {
+      this.addOffset(targets[i]!);
+    }
+    return this.endVector();
+  }
+
+  /** A vector of structs made of 64-bit integers, such as Arrow's FieldNode and Buffer */
+  createInt64StructVector(structs: Array<Array<bigint | number>>, fieldsPerStruct: number): Offset {
+    this.startVector(fieldsPerStruct * 8, structs.length, 8);
+    for (let i = structs.length - 1; i >= 0; i--) {
+      const struct = structs[i]!;
+      for (let j = fieldsPerStruct - 1; j >= 0; j--) {
+        this.addInt64(struct[j] ?? 0);
+      }
+    }
+    return this.endVector();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Tables
+  // ---------------------------------------------------------------------------
+
+  startTable(slots: number): void {
+    this.vtable = new Array<number>(slots).fill(0);
+    this.objectStart = this.offset();
+  }
+
+  /** Record that the value just written belongs to a slot of the current table */
+  private slot(slot: number): void {
+    this.vtable[slot] = this.offset();
+  }
+
+  /** Add a scalar field; values equal to the schema default are omitted */
+  addFieldInt8(slot: number, value: number, defaultValue: number): void {
+    if (value === defaultValue) return;
+    this.addInt8(value);
+    this.slot(slot);
+  }
+
+  addFieldInt16(slot: number, value: number, defaultValue: number): void {
+    if (value === defaultValue) return;
+    this.addInt16(value);
+    this.slot(slot);
+  }
+
+  addFieldInt32(slot: number, value: number, defaultValue: number): void {
+    if (value === defaultValue) return;
+    this.addInt32(value);
+    this.slot(slot);
+  }
+
+  addFieldInt64(slot: number, value: bigint | number, defaultValue: bigint | number): void {
+    if (BigInt(value) === BigInt(defaultValue)) return;
+    this.addInt64(value);
+    this.slot(slot);
+  }
+
+  addFieldOffset(slot: number, target: Offset): void {
+    this.addOffset(target);
+    this.slot(slot);
+  }
+
+  /** Add an inline struct made of 64-bit integers, such as Arrow's Block */
+  addFieldInt64Struct(slot: number, values: Array<bigint | number>): void {
+    this.prep(8, values.length * 8);
+    for (let i = values.length - 1; i >= 0; i--) {
+      this.addInt64(values[i]!);
+    }
+    this.slot(slot);
+  }
+
+  endTable(): Offset {
+    this.addInt32(0);
+    const table = this.offset();
+
+    // The vtable: its size, the table's size, then each field's position in the table
+    let length = this.vtable.length;
+    while (length > 0 && this.vtable[length - 1] === 0) length--;
+    for (let i = length - 1; i >= 0; i--) {
+      const position = this.vtable[i]!;
+      this.addInt16(position !== 0 ? table - position : 0);
+    }
+    this.addInt16(table - this.objectStart);
+    this.addInt16((length + 2) * 2);
+
+    // The table starts with the signed distance back to its vtable
+    const vtable = this.offset();
+    this.view.setInt32(this.bytes.length - table, vtable - table, true);
+    return table;
+  }
+
+  /**
+   * Finish the buffer with its root table.
+   *
+   * @returns The finished bytes, a view of the builder's buffer
+   */
+  finish(root: Offset): Uint8Array {
+    this.prep(this.minAlign, 4);
+    this.addOffset(root);
+    return this.bytes.subarray(this.space);
+  }
+}
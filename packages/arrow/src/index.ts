@@ -0,0 +1,110 @@
+/**
+ * @icetype/arrow
+ *
+ * Apache Arrow adapter for IceType.
+ *
+ * This package provides functionality to:
+ * - Generate Arrow schemas from IceType schemas, as JSON or FlatBuffers
+ * - Convert documents to Arrow tables and encode them in the IPC stream or
+ *   file format, to hand data to DuckDB, Polars or pyarrow without a JSON
+ *   round-trip
+ *
+ * Everything is pure TypeScript without native dependencies, so it runs in
+ * edge workers and browsers as well as Node.js.
+ *
+ * @example Generate an Arrow schema
+ * ```typescript
+ * import { parseSchema } from '@icetype/core';
+ * import { schemaToArrow, encodeArrowSchema } from '@icetype/arrow';
+ *
+ * const schema = schemaToArrow(parseSchema({
+ *   $type: 'OrderPlaced',
+ *   id: 'uuid!',
+ *   total: 'decimal(10,2)!',
+ *   placedAt: 'timestamptz!',
+ *   note: 'string?',
+ * }));
+ *
+ * const bytes = encodeArrowSchema(schema);
+ * ```
+ *
+ * @example Convert documents
+ * ```typescript
+ * import { documentsToArrowTable, encodeArrowTable } from '@icetype/arrow';
+ *
+ * const table = documentsToArrowTable(OrderSchema, orders);
+ * const stream = encodeArrowTable(table);
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type {
+  // Arrow types
+  ArrowTimeUnit,
+  ArrowIntType,
+  ArrowFloatingPointType,
+  ArrowDecimalType,
+  ArrowFixedSizeBinaryType,
+  ArrowDateType,
+  ArrowTimeType,
+  ArrowTimestampType,
+  ArrowMapType,
+  ArrowType,
+  // Arrow schema
+  ArrowDictionaryEncoding,
+  ArrowField,
+  ArrowSchema,
+  // Export options
+  ArrowExportOptions,
+  // Tables
+  ArrowArrayData,
+  ArrowTable,
+  ArrowIpcOptions,
+  // Mapping config
+  ArrowTypeMappingConfig,
+} from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export {
+  ICETYPE_TO_ARROW_MAPPINGS,
+  ICETYPE_TO_ARROW_MAP,
+} from './types.js';
+
+// =============================================================================
+// Export Functions (IceType -> Arrow)
+// =============================================================================
+
+export {
+  // Type mapping functions
+  mapIceTypeToArrow,
+
+  // Field generation
+  fieldToArrowField,
+
+  // Schema generation
+  schemaToArrow,
+  serializeArrowSchema,
+
+  // Adapter class and factory
+  ArrowAdapter,
+  createArrowAdapter,
+} from './exporter.js';
+
+// =============================================================================
+// Tables and IPC
+// =============================================================================
+
+export { documentsToArrowTable } from './table.js';
+
+export {
+  encodeArrowSchema,
+  encodeArrowTable,
+} from './ipc.js';
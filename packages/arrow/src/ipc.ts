@@ -0,0 +1,375 @@
+/**
+ * Arrow IPC Encoding
+ *
+ * Serializes Arrow schemas and tables in the Arrow IPC format: FlatBuffers
+ * metadata (Schema.fbs, Message.fbs, File.fbs) framed as encapsulated
+ * messages, followed by 8-byte aligned bodies for record and dictionary
+ * batches. Tables are written in the streaming format or the
+ * random-access file format (Feather v2).
+ *
+ * @see https://arrow.apache.org/docs/format/Columnar.html#serialization-and-interprocess-communication-ipc
+ *
+ * @packageDocumentation
+ */
+
+import type {
+  ArrowArrayData,
+  ArrowDictionaryEncoding,
+  ArrowField,
+  ArrowIpcOptions,
+  ArrowSchema,
+  ArrowTable,
+  ArrowTimeUnit,
+  ArrowType,
+} from './types.js';
+
+import { FlatBufferBuilder, type Offset } from './flatbuffers.js';
+
+// =============================================================================
+// FlatBuffers Enums
+// =============================================================================
+
+/** MetadataVersion.V5, the current IPC format version */
+const METADATA_VERSION = 4;
+
+/** Members of the Type union, by the `name` of their JSON representation */
+const TYPE_IDS: Record<ArrowType['name'], number> = {
+  null: 1,
+  int: 2,
+  floatingpoint: 3,
+  binary: 4,
+  utf8: 5,
+  bool: 6,
+  decimal: 7,
+  date: 8,
+  time: 9,
+  timestamp: 10,
+  list: 12,
+  struct: 13,
+  fixedsizebinary: 15,
+  map: 17,
+};
+
+/** Members of the MessageHeader union */
+const MESSAGE_SCHEMA = 1;
+const MESSAGE_DICTIONARY_BATCH = 2;
+const MESSAGE_RECORD_BATCH = 3;
+
+const TIME_UNITS: Record<ArrowTimeUnit, number> = { SECOND: 0, MILLISECOND: 1, MICROSECOND: 2, NANOSECOND: 3 };
+const PRECISIONS = { HALF: 0, SINGLE: 1, DOUBLE: 2 };
+const DATE_UNITS = { DAY: 0, MILLISECOND: 1 };
+
+/** Marks the start of each encapsulated message, before its metadata length */
+const CONTINUATION = 0xffffffff;
+
+/** Magic at the start and end of the file format, padded to 8 bytes at the start */
+const FILE_MAGIC = [0x41, 0x52, 0x52, 0x4f, 0x57, 0x31]; // ARROW1
+
+// =============================================================================
+// Schema Metadata
+// =============================================================================
+
+function typeTable(builder: FlatBufferBuilder, type: ArrowType): Offset {
+  if (type.name === 'timestamp' && type.timezone !== undefined) {
+    const timezone = builder.createString(type.timezone);
+    builder.startTable(2);
+    builder.addFieldOffset(1, timezone);
+    builder.addFieldInt16(0, TIME_UNITS[type.unit], 0);
+    return builder.endTable();
+  }
+
+  switch (type.name) {
+    case 'int':
+      builder.startTable(2);
+      builder.addFieldInt32(0, type.bitWidth, 0);
+      builder.addFieldInt8(1, type.isSigned ? 1 : 0, 0);
+      break;
+    case 'floatingpoint':
+      builder.startTable(1);
+      builder.addFieldInt16(0, PRECISIONS[type.precision], 0);
+      break;
+    case 'decimal':
+      builder.startTable(3);
+      builder.addFieldInt32(0, type.precision, 0);
+      builder.addFieldInt32(1, type.scale, 0);
+      builder.addFieldInt32(2, type.bitWidth, 128);
+      break;
+    case 'date':
+      builder.startTable(1);
+      builder.addFieldInt16(0, DATE_UNITS[type.unit], DATE_UNITS.MILLISECOND);
+      break;
+    case 'time':
+      builder.startTable(2);
+      builder.addFieldInt32(1, type.bitWidth, 32);
+      builder.addFieldInt16(0, TIME_UNITS[type.unit], TIME_UNITS.MILLISECOND);
+      break;
+    case 'timestamp':
+      builder.startTable(2);
+      builder.addFieldInt16(0, TIME_UNITS[type.unit], 0);
+      break;
+    case 'fixedsizebinary':
+      builder.startTable(1);
+      builder.addFieldInt32(0, type.byteWidth, 0);
+      break;
+    case 'map':
+      builder.startTable(1);
+      builder.addFieldInt8(0, type.keysSorted ? 1 : 0, 0);
+      break;
+    default:
+      // Null, Bool, Utf8, Binary, List and Struct_ have no parameters
+      builder.startTable(0);
+  }
+  return builder.endTable();
+}
+
+function keyValues(builder: FlatBufferBuilder, metadata: Record<string, string>): Offset {
+  const entries = Object.entries(metadata).map(([key, value]) => {
+    const keyOffset = builder.createString(key);
+    const valueOffset = builder.createString(value);
+    builder.startTable(2);
+    builder.addFieldOffset(0, keyOffset);
+    builder.addFieldOffset(1, valueOffset);
+    return builder.endTable();
+  });
+  return builder.createOffsetVector(entries);
+}
+
+function dictionaryEncoding(builder: FlatBufferBuilder, dictionary: ArrowDictionaryEncoding): Offset {
+  const indexType = typeTable(builder, dictionary.indexType);
+  builder.startTable(4);
+  builder.addFieldInt64(0, dictionary.id, 0);
+  builder.addFieldOffset(1, indexType);
+  builder.addFieldInt8(2, dictionary.isOrdered ? 1 : 0, 0);
+  return builder.endTable();
+}
+
+function fieldTable(builder: FlatBufferBuilder, field: ArrowField): Offset {
+  const name = builder.createString(field.name);
+  const type = typeTable(builder, field.type);
+  const dictionary = field.dictionary && dictionaryEncoding(builder, field.dictionary);
+  const children = builder.createOffsetVector(field.children.map((child) => fieldTable(builder, child)));
+  const metadata = field.metadata && Object.keys(field.metadata).length > 0 ? keyValues(builder, field.metadata) : undefined;
+
+  builder.startTable(7);
+  builder.addFieldOffset(0, name);
+  builder.addFieldOffset(3, type);
+  if (dictionary !== undefined) builder.addFieldOffset(4, dictionary);
+  builder.addFieldOffset(5, children);
+  if (metadata !== undefined) builder.addFieldOffset(6, metadata);
+  builder.addFieldInt8(1, field.nullable ? 1 : 0, 0);
+  builder.addFieldInt8(2, TYPE_IDS[field.type.name], 0);
+  return builder.endTable();
+}
+
+function schemaTable(builder: FlatBufferBuilder, schema: ArrowSchema): Offset {
+  const fields = builder.createOffsetVector(schema.fields.map((field) => fieldTable(builder, field)));
+  const metadata = schema.metadata && Object.keys(schema.metadata).length > 0 ? keyValues(builder, schema.metadata) : undefined;
+
+  // Endianness defaults to Little
+  builder.startTable(4);
+  builder.addFieldOffset(1, fields);
+  if (metadata !== undefined) builder.addFieldOffset(2, metadata);
+  return builder.endTable();
+}
+
+// =============================================================================
+// Record Batches
+// =============================================================================
+
+/** The bytes and FlatBuffers description of a record batch body */
+interface BatchBody {
+  length: number;
+  /** FieldNode structs: length and null count of each array, depth first */
+  nodes: Array<[number, number]>;
+  /** Buffer structs: offset and length of each buffer in the body */
+  buffers: Array<[number, number]>;
+  chunks: Uint8Array[];
+  byteLength: number;
+}
+
+function padding(length: number): number {
+  return (8 - (length % 8)) % 8;
+}
+
+function batchBody(length: number, arrays: ArrowArrayData[]): BatchBody {
+  const body: BatchBody = { length, nodes: [], buffers: [], chunks: [], byteLength: 0 };
+  const visit = (array: ArrowArrayData): void => {
+    body.nodes.push([array.length, array.nullCount]);
+    for (const buffer of array.buffers) {
+      body.buffers.push([body.byteLength, buffer.length]);
+      body.chunks.push(buffer, new Uint8Array(padding(buffer.length)));
+      body.byteLength += buffer.length + padding(buffer.length);
+    }
+    array.children.forEach(visit);
+  };
+  arrays.forEach(visit);
+  return body;
+}
+
+function recordBatchTable(builder: FlatBufferBuilder, body: BatchBody): Offset {
+  const nodes = builder.createInt64StructVector(body.nodes, 2);
+  const buffers = builder.createInt64StructVector(body.buffers, 2);
+  builder.startTable(5);
+  builder.addFieldInt64(0, body.length, 0);
+  builder.addFieldOffset(1, nodes);
+  builder.addFieldOffset(2, buffers);
+  return builder.endTable();
+}
+
+// =============================================================================
+// Messages
+// =============================================================================
+
+/** An encapsulated message: its framed metadata and its body */
+interface EncodedMessage {
+  metadata: Uint8Array;
+  body: Uint8Array[];
+  bodyLength: number;
+}
+
+/**
+ * Frame a Message as an encapsulated message: the continuation marker,
+ * the metadata length, then the metadata padded to 8 bytes.
+ */
+function encapsulate(
+  headerType: number,
+  header: (builder: FlatBufferBuilder) => Offset,
+  body?: BatchBody
+): EncodedMessage {
+  const builder = new FlatBufferBuilder();
+  const headerOffset = header(builder);
+  builder.startTable(5);
+  builder.addFieldInt64(3, body?.byteLength ?? 0, 0);
+  builder.addFieldOffset(2, headerOffset);
+  builder.addFieldInt16(0, METADATA_VERSION, 0);
+  builder.addFieldInt8(1, headerType, 0);
+  const message = builder.finish(builder.endTable());
+
+  const metadataLength = message.length + padding(message.length);
+  const metadata = new Uint8Array(8 + metadataLength);
+  const view = new DataView(metadata.buffer);
+  view.setUint32(0, CONTINUATION, true);
+  view.setInt32(4, metadataLength, true);
+  metadata.set(message, 8);
+  return { metadata, body: body?.chunks ?? [], bodyLength: body?.byteLength ?? 0 };
+}
+
+function schemaMessage(schema: ArrowSchema): EncodedMessage {
+  return encapsulate(MESSAGE_SCHEMA, (builder) => schemaTable(builder, schema));
+}
+
+function dictionaryMessage(id: number, values: ArrowArrayData): EncodedMessage {
+  const body = batchBody(values.length, [values]);
+  return encapsulate(
+    MESSAGE_DICTIONARY_BATCH,
+    (builder) => {
+      const data = recordBatchTable(builder, body);
+      builder.startTable(3);
+      builder.addFieldInt64(0, id, 0);
+      builder.addFieldOffset(1, data);
+      return builder.endTable();
+    },
+    body
+  );
+}
+
+function recordBatchMessage(table: ArrowTable): EncodedMessage {
+  const body = batchBody(table.numRows, table.columns);
+  return encapsulate(MESSAGE_RECORD_BATCH, (builder) => recordBatchTable(builder, body), body);
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, position);
+    position += chunk.length;
+  }
+  return bytes;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Encode an Arrow schema as FlatBuffers, framed as an encapsulated IPC
+ * Schema message. This is the form `pyarrow.ipc.read_schema`, Arrow
+ * Flight and the first message of an IPC stream use.
+ *
+ * @param schema - The Arrow schema to encode
+ * @returns The message bytes
+ *
+ * @example
+ * ```typescript
+ * import { parseSchema } from '@icetype/core';
+ * import { encodeArrowSchema, schemaToArrow } from '@icetype/arrow';
+ *
+ * const bytes = encodeArrowSchema(schemaToArrow(parseSchema({ $type: 'Event', name: 'string!' })));
+ * ```
+ */
+export function encodeArrowSchema(schema: ArrowSchema): Uint8Array {
+  return schemaMessage(schema).metadata;
+}
+
+/**
+ * Encode a table in the Arrow IPC streaming or file format: the schema,
+ * a dictionary batch for each dictionary-encoded field, and one record
+ * batch with all rows.
+ *
+ * @param table - The table to encode, from `documentsToArrowTable`
+ * @param options - IPC format options
+ * @returns The bytes of the stream or file
+ *
+ * @example
+ * ```typescript
+ * import { writeFile } from 'node:fs/promises';
+ * import { documentsToArrowTable, encodeArrowTable } from '@icetype/arrow';
+ *
+ * const table = documentsToArrowTable(EventSchema, events);
+ * await writeFile('./events.arrow', encodeArrowTable(table, { format: 'file' }));
+ * ```
+ */
+export function encodeArrowTable(table: ArrowTable, options: ArrowIpcOptions = {}): Uint8Array {
+  const file = options.format === 'file';
+  const chunks: Uint8Array[] = file ? [new Uint8Array([...FILE_MAGIC, 0, 0])] : [];
+  let position = file ? 8 : 0;
+  const dictionaryBlocks: Array<[number, number, number]> = [];
+  const recordBatchBlocks: Array<[number, number, number]> = [];
+
+  const write = (message: EncodedMessage, blocks?: Array<[number, number, number]>): void => {
+    // Block structs: offset, metadata length (an int padded to 8 bytes) and body length
+    blocks?.push([position, message.metadata.length, message.bodyLength]);
+    chunks.push(message.metadata, ...message.body);
+    position += message.metadata.length + message.bodyLength;
+  };
+
+  write(schemaMessage(table.schema));
+  for (const [id, values] of [...table.dictionaries].sort(([a], [b]) => a - b)) {
+    write(dictionaryMessage(id, values), dictionaryBlocks);
+  }
+  write(recordBatchMessage(table), recordBatchBlocks);
+
+  // End-of-stream marker: a continuation with a zero metadata length
+  chunks.push(new Uint8Array([0xff, 0xff, 0xff, 0xff, 0, 0, 0, 0]));
+
+  if (file) {
+    const builder = new FlatBufferBuilder();
+    const schema = schemaTable(builder, table.schema);
+    const dictionaries = builder.createInt64StructVector(dictionaryBlocks, 3);
+    const recordBatches = builder.createInt64StructVector(recordBatchBlocks, 3);
+    builder.startTable(5);
+    builder.addFieldOffset(1, schema);
+    builder.addFieldOffset(2, dictionaries);
+    builder.addFieldOffset(3, recordBatches);
+    builder.addFieldInt16(0, METADATA_VERSION, 0);
+    const footer = builder.finish(builder.endTable());
+
+    const trailer = new Uint8Array(10);
+    new DataView(trailer.buffer).setInt32(0, footer.length, true);
+    trailer.set(FILE_MAGIC, 4);
+    chunks.push(footer, trailer);
+  }
+
+  return concat(chunks);
+}
@@ -0,0 +1,726 @@
+/**
+ * Arrow Tables from Documents
+ *
+ * Converts documents to Arrow's columnar layout: one array per field, with
+ * validity bitmaps, offsets and value buffers, and the values of
+ * dictionary-encoded enum fields. This is the Arrow equivalent of
+ * `documentToParquetRow` and the Parquet writer in `@icetype/iceberg`, and
+ * accepts the same values: Dates, ISO strings and epoch milliseconds for
+ * temporal fields, UUID strings, decimal text and JSON objects.
+ *
+ * @packageDocumentation
+ */
+
+import type { IceTypeSchema } from '@icetype/core';
+
+import type {
+  ArrowArrayData,
+  ArrowExportOptions,
+  ArrowField,
+  ArrowSchema,
+  ArrowTable,
+  ArrowTimeUnit,
+} from './types.js';
+
+import { schemaToArrow } from './exporter.js';
+
+// A global in Node.js, Deno, Bun and workers, though not declared by lib ES2022
+declare const TextEncoder: new () => { encode(input: string): Uint8Array };
+
+const textEncoder = new TextEncoder();
+
+const MS_PER_DAY = 86_400_000;
+
+const UNITS_PER_SECOND: Record<ArrowTimeUnit, bigint> = {
+  SECOND: 1n,
+  MILLISECOND: 1_000n,
+  MICROSECOND: 1_000_000n,
+  NANOSECOND: 1_000_000_000n,
+};
+
+const FRACTION_DIGITS: Record<ArrowTimeUnit, number> = {
+  SECOND: 0,
+  MILLISECOND: 3,
+  MICROSECOND: 6,
+  NANOSECOND: 9,
+};
+
+// =============================================================================
+// Value Conversion
+// =============================================================================
+
+/** Describe a value for an error message */
+function describe(value: unknown): string {
+  return typeof value === 'string' ? `'${value}'` : String(value);
+}
+
+/**
+ * Time since the epoch, or since midnight for times of day, in a unit.
+ * Dates, ISO strings and numbers (epoch or time-of-day milliseconds) are
+ * scaled, keeping fractional digits of strings beyond the millisecond;
+ * bigints and integer strings are taken to be in the unit already.
+ *
+ * @returns The value, or `undefined` if it is not a date, time or timestamp
+ */
+function toUnits(value: unknown, unit: ArrowTimeUnit, timeOfDay: boolean): bigint | undefined {
+  const perSecond = UNITS_PER_SECOND[unit];
+  const digits = FRACTION_DIGITS[unit];
+  const fractionUnits = (fraction: string): bigint => BigInt(fraction.slice(0, digits).padEnd(digits, '0') || '0');
+
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    if (/^-?\d+$/.test(value)) {
+      return BigInt(value);
+    }
+    if (timeOfDay) {
+      const match = /^(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,9}))?)?$/.exec(value);
+      if (!match) return undefined;
+      const [, hours, minutes, seconds, fraction = ''] = match;
+      const wholeSeconds = Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds ?? 0);
+      return BigInt(wholeSeconds) * perSecond + fractionUnits(fraction);
+    }
+    // Date.parse keeps milliseconds only, so finer digits are added separately
+    const match = /^(.*\d{2}:\d{2}:\d{2})\.(\d+)(.*)$/.exec(value);
+    if (match) {
+      const [, whole, fraction, zone] = match;
+      const millis = Date.parse(`${whole}${zone}`);
+      if (!Number.isNaN(millis)) {
+        return (BigInt(millis) / 1000n) * perSecond + fractionUnits(fraction!);
+      }
+    }
+  }
+  const millis = value instanceof Date ? value.getTime() : typeof value === 'number' ? value : Date.parse(String(value));
+  if (Number.isNaN(millis)) {
+    return undefined;
+  }
+  return (BigInt(Math.round(millis * 1000)) * perSecond) / 1_000_000n;
+}
+
+/** Days since the Unix epoch, from a Date, ISO date string or day count */
+function toEpochDays(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Math.floor(value);
+  }
+  const millis = value instanceof Date ? value.getTime() : Date.parse(String(value));
+  return Number.isNaN(millis) ? undefined : Math.floor(millis / MS_PER_DAY);
+}
+
+/** The unscaled integer of a decimal, rounding half away from zero */
+function unscaledDecimal(value: unknown, scale: number): bigint | undefined {
+  if (typeof value === 'bigint') return value * 10n ** BigInt(scale);
+  let text = typeof value === 'number' ? value.toFixed(scale) : String(value).trim();
+  if (/e/i.test(text)) text = Number(text).toFixed(scale);
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (match[2] === '' && !match[3])) return undefined;
+  const [, sign, whole, fraction = ''] = match;
+  let unscaled = BigInt((whole || '0') + fraction.slice(0, scale).padEnd(scale, '0'));
+  if ((fraction[scale] ?? '0') >= '5') unscaled += 1n;
+  return sign === '-' ? -unscaled : unscaled;
+}
+
+/** Bytes from their hex digits, ignoring dashes as in UUIDs */
+function hexToBytes(hex: string, length: number): Uint8Array | undefined {
+  const digits = hex.replace(/-/g, '');
+  if (digits.length !== length * 2 || !/^[0-9a-fA-F]*$/.test(digits)) return undefined;
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    bytes[i] = parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/** A validity or boolean bitmap, least significant bit first */
+function bitmap(bits: boolean[]): Uint8Array {
+  const bytes = new Uint8Array(Math.ceil(bits.length / 8));
+  bits.forEach((bit, i) => {
+    if (bit) bytes[i >> 3]! |= 1 << (i & 7);
+  });
+  return bytes;
+}
+
+// =============================================================================
+// Array Builders
+// =============================================================================
+
+/**
+ * Accumulates the values of one field. Subclasses hold the buffers of a
+ * layout; the base class tracks validity and required values.
+ */
+abstract class ArrayBuilder {
+  protected readonly validity: boolean[] = [];
+  protected nullCount = 0;
+
+  constructor(
+    readonly field: ArrowField,
+    readonly path: string
+  ) {}
+
+  get length(): number {
+    return this.validity.length;
+  }
+
+  append(value: unknown, row: number): void {
+    if (value === undefined || value === null) {
+      if (!this.field.nullable) {
+        throw new Error(`Missing value for required field '${this.path}' at row index ${row}`);
+      }
+      this.appendNull();
+      return;
+    }
+    this.appendValue(value, row);
+    this.validity.push(true);
+  }
+
+  /** A null slot, also used below null structs whatever the field's nullability */
+  appendNull(): void {
+    this.appendEmpty();
+    this.validity.push(false);
+    this.nullCount++;
+  }
+
+  finish(): ArrowArrayData {
+    return {
+      length: this.length,
+      nullCount: this.nullCount,
+      buffers: [this.nullCount > 0 ? bitmap(this.validity) : new Uint8Array(0), ...this.valueBuffers()],
+      children: this.childArrays(),
+    };
+  }
+
+  protected invalid(value: unknown, row: number, expected: string): Error {
+    return new Error(`Invalid value for field '${this.path}' at row index ${row}: expected ${expected}, got ${describe(value)}`);
+  }
+
+  protected abstract appendValue(value: unknown, row: number): void;
+  protected abstract appendEmpty(): void;
+  protected abstract valueBuffers(): Uint8Array[];
+
+  protected childArrays(): ArrowArrayData[] {
+    return [];
+  }
+}
+
+class NullBuilder extends ArrayBuilder {
+  override append(): void {
+    this.appendNull();
+  }
+
+  override finish(): ArrowArrayData {
+    // Null arrays have no buffers, not even a validity bitmap
+    return { length: this.length, nullCount: this.length, buffers: [], children: [] };
+  }
+
+  protected appendValue(): void {}
+  protected appendEmpty(): void {}
+  protected valueBuffers(): Uint8Array[] {
+    return [];
+  }
+}
+
+class BoolBuilder extends ArrayBuilder {
+  private readonly bits: boolean[] = [];
+
+  protected appendValue(value: unknown): void {
+    this.bits.push(value === 'false' ? false : Boolean(value));
+  }
+
+  protected appendEmpty(): void {
+    this.bits.push(false);
+  }
+
+  protected valueBuffers(): Uint8Array[] {
+    return [bitmap(this.bits)];
+  }
+}
+
+/** Converts a value for a fixed-width field, or returns `undefined` if it does not fit */
+type FixedWidthConverter = (value: unknown) => number | bigint | undefined;
+
+/** Writes a converted value at a byte offset */
+type FixedWidthWriter = (view: DataView, offset: number, value: number | bigint) => void;
+
+/**
+ * Integers, floating point numbers, dates, times and timestamps: one
+ * value of `width` bytes per slot.
+ */
+class FixedWidthBuilder extends ArrayBuilder {
+  private readonly values: Array<number | bigint> = [];
+
+  constructor(
+    field: ArrowField,
+    path: string,
+    private readonly width: number,
+    private readonly expected: string,
+    private readonly convert: FixedWidthConverter,
+    private readonly write: FixedWidthWriter
+  ) {
+    super(field, path);
+  }
+
+  protected appendValue(value: unknown, row: number): void {
+    const converted = this.convert(value);
+    if (converted === undefined) {
+      throw this.invalid(value, row, this.expected);
+    }
+    this.values.push(converted);
+  }
+
+  protected appendEmpty(): void {
+    this.values.push(0);
+  }
+
+  protected valueBuffers(): Uint8Array[] {
+    const bytes = new Uint8Array(this.values.length * this.width);
+    const view = new DataView(bytes.buffer);
+    this.values.forEach((value, i) => this.write(view, i * this.width, value));
+    return [bytes];
+  }
+}
+
+/**
+ * Fixed-size binary values, including UUIDs and decimals: `width` bytes
+ * per slot.
+ */
+class FixedSizeBinaryBuilder extends ArrayBuilder {
+  private readonly values: Uint8Array[] = [];
+
+  constructor(
+    field: ArrowField,
+    path: string,
+    private readonly width: number,
+    private readonly expected: string,
+    private readonly convert: (value: unknown) => Uint8Array | undefined
+  ) {
+    super(field, path);
+  }
+
+  protected appendValue(value: unknown, row: number): void {
+    const bytes = this.convert(value);
+    if (!bytes || bytes.length !== this.width) {
+      throw this.invalid(value, row, this.expected);
+    }
+    this.values.push(bytes);
+  }
+
+  protected appendEmpty(): void {
+    this.values.push(new Uint8Array(this.width));
+  }
+
+  protected valueBuffers(): Uint8Array[] {
+    const bytes = new Uint8Array(this.values.length * this.width);
+    this.values.forEach((value, i) => bytes.set(value, i * this.width));
+    return [bytes];
+  }
+}
+
+/** Variable-length strings and binary values, with 32-bit offsets */
+class BinaryBuilder extends ArrayBuilder {
+  private readonly chunks: Uint8Array[] = [];
+  private readonly offsets: number[] = [0];
+  private size = 0;
+
+  constructor(
+    field: ArrowField,
+    path: string,
+    private readonly utf8: boolean,
+    private readonly json: boolean
+  ) {
+    super(field, path);
+  }
+
+  protected appendValue(value: unknown, row: number): void {
+    let bytes: Uint8Array;
+    if (value instanceof Uint8Array) {
+      bytes = value;
+    } else if (typeof value === 'object' && !(value instanceof Date)) {
+      if (!this.json) throw this.invalid(value, row, this.utf8 ? 'a string' : 'a string or bytes');
+      bytes = textEncoder.encode(JSON.stringify(value));
+    } else {
+      bytes = textEncoder.encode(value instanceof Date ? value.toISOString() : String(value));
+    }
+    this.chunks.push(bytes);
+    this.size += bytes.length;
+    this.offsets.push(this.size);
+  }
+
+  protected appendEmpty(): void {
+    this.offsets.push(this.size);
+  }
+
+  protected valueBuffers(): Uint8Array[] {
+    const data = new Uint8Array(this.size);
+    let position = 0;
+    for (const chunk of this.chunks) {
+      data.set(chunk, position);
+      position += chunk.length;
+    }
+    return [new Uint8Array(Int32Array.from(this.offsets).buffer), data];
+  }
+}
+
+/** Lists and maps: 32-bit offsets into a child array */
+class ListBuilder extends ArrayBuilder {
+  private readonly offsets: number[] = [0];
+
+  constructor(
+    field: ArrowField,
+    path: string,
+    private readonly child: ArrayBuilder
+  ) {
+    super(field, path);
+  }
+
+  protected appendValue(value: unknown, row: number): void {
+    if (!Array.isArray(value)) {
+      throw this.invalid(value, row, 'an array');
+    }
+    for (const item of value) {
+      this.child.append(item, row);
+    }
+    this.offsets.push(this.child.length);
+  }
+
+  protected appendEmpty(): void {
+    this.offsets.push(this.child.length);
+  }
+
+  protected valueBuffers(): Uint8Array[] {
+    return [new Uint8Array(Int32Array.from(this.offsets).buffer)];
+  }
+
+  protected override childArrays(): ArrowArrayData[] {
+    return [this.child.finish()];
+  }
+}
+
+/** Maps, from an object, a `Map` or an array of `{ key, value }` entries */
+class MapBuilder extends ListBuilder {
+  protected override appendValue(value: unknown, row: number): void {
+    if (typeof value !== 'object' || value instanceof Date || value instanceof Uint8Array) {
+      throw this.invalid(value, row, 'an object or Map');
+    }
+    const entries =
+      value instanceof Map
+        ? [...value.entries()]
+        : Array.isArray(value)
+          ? value.map((entry: { key: unknown; value: unknown }) => [entry.key, entry.value])
+          : Object.entries(value as Record<string, unknown>);
+    super.appendValue(
+      entries.map(([key, item]) => ({ key, value: item })),
+      row
+    );
+  }
+}
+
+class StructBuilder extends ArrayBuilder {
+  constructor(
+    field: ArrowField,
+    path: string,
+    private readonly children: ArrayBuilder[]
+  ) {
+    super(field, path);
+  }
+
+  protected appendValue(value: unknown, row: number): void {
+    if (typeof value !== 'object' || Array.isArray(value) || value instanceof Date || value instanceof Uint8Array) {
+      throw this.invalid(value, row, 'an object');
+    }
+    const record = value as Record<string, unknown>;
+    for (const child of this.children) {
+      child.append(record[child.field.name], row);
+    }
+  }
+
+  protected appendEmpty(): void {
+    for (const child of this.children) {
+      child.appendNull();
+    }
+  }
+
+  protected valueBuffers(): Uint8Array[] {
+    return [];
+  }
+
+  protected override childArrays(): ArrowArrayData[] {
+    return this.children.map((child) => child.finish());
+  }
+}
+
+/**
+ * The values of a dictionary: fixed for enums, whose values are known
+ * from the schema, and otherwise collected in order of appearance.
+ */
+class DictionaryValues {
+  readonly values: string[];
+  private readonly indexes: Map<string, number>;
+
+  constructor(readonly fixed: string[] | undefined) {
+    this.values = [...(fixed ?? [])];
+    this.indexes = new Map(this.values.map((value, i) => [value, i]));
+  }
+
+  indexOf(value: string): number | undefined {
+    let index = this.indexes.get(value);
+    if (index === undefined && !this.fixed) {
+      index = this.values.push(value) - 1;
+      this.indexes.set(value, index);
+    }
+    return index;
+  }
+
+  finish(): ArrowArrayData {
+    const utf8 = new BinaryBuilder({ name: 'values', nullable: false, type: { name: 'utf8' }, children: [] }, '', true, false);
+    this.values.forEach((value, row) => utf8.append(value, row));
+    return utf8.finish();
+  }
+}
+
+// =============================================================================
+// Builder Construction
+// =============================================================================
+
+function int32(view: DataView, offset: number, value: number | bigint): void {
+  view.setInt32(offset, Number(value), true);
+}
+
+function int64(view: DataView, offset: number, value: number | bigint): void {
+  view.setBigInt64(offset, BigInt(value), true);
+}
+
+/** Converter for integers of a bit width, from numbers, bigints and integer strings */
+function integerConverter(bitWidth: number, isSigned: boolean): FixedWidthConverter {
+  return (value) => {
+    let integer: bigint;
+    if (typeof value === 'bigint') {
+      integer = value;
+    } else {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isSafeInteger(number)) return undefined;
+      integer = BigInt(number);
+    }
+    const wrapped = isSigned ? BigInt.asIntN(bitWidth, integer) : BigInt.asUintN(bitWidth, integer);
+    if (wrapped !== integer) return undefined;
+    return bitWidth === 64 ? integer : Number(integer);
+  };
+}
+
+function integerWriter(bitWidth: number, isSigned: boolean): FixedWidthWriter {
+  switch (bitWidth) {
+    case 8:
+      return (view, offset, value) => (isSigned ? view.setInt8 : view.setUint8).call(view, offset, Number(value));
+    case 16:
+      return (view, offset, value) =>
+        (isSigned ? view.setInt16 : view.setUint16).call(view, offset, Number(value), true);
+    case 32:
+      return (view, offset, value) =>
+        (isSigned ? view.setInt32 : view.setUint32).call(view, offset, Number(value), true);
+    default:
+      return (view, offset, value) =>
+        (isSigned ? view.setBigInt64 : view.setBigUint64).call(view, offset, BigInt(value), true);
+  }
+}
+
+/** Little-endian two's complement of a decimal's unscaled integer, if it fits the precision */
+function decimalConverter(precision: number, scale: number, width: number): (value: unknown) => Uint8Array | undefined {
+  const limit = 10n ** BigInt(precision);
+  return (value) => {
+    const unscaled = unscaledDecimal(value, scale);
+    if (unscaled === undefined || unscaled >= limit || unscaled <= -limit) return undefined;
+    const bytes = new Uint8Array(width);
+    let rest = unscaled;
+    for (let i = 0; i < width; i++) {
+      bytes[i] = Number(BigInt.asUintN(8, rest));
+      rest >>= 8n;
+    }
+    return bytes;
+  };
+}
+
+/**
+ * Create the builder for a field and, recursively, its children.
+ */
+function createBuilder(field: ArrowField, path: string, dictionaries: Map<number, DictionaryValues>): ArrayBuilder {
+  const { type } = field;
+
+  if (field.dictionary) {
+    const { id, indexType } = field.dictionary;
+    let dictionary = dictionaries.get(id);
+    if (!dictionary) {
+      const values = field.metadata?.['icetype.enum'];
+      dictionary = new DictionaryValues(values !== undefined ? (JSON.parse(values) as string[]) : undefined);
+      dictionaries.set(id, dictionary);
+    }
+    const values = dictionary;
+    const expected = values.fixed ? `one of ${values.fixed.map(describe).join(', ')}` : 'a string';
+    return new FixedWidthBuilder(
+      field,
+      path,
+      indexType.bitWidth / 8,
+      expected,
+      (value) => (typeof value === 'string' ? values.indexOf(value) : undefined),
+      integerWriter(indexType.bitWidth, indexType.isSigned)
+    );
+  }
+
+  const children = (): ArrayBuilder[] =>
+    field.children.map((child) => createBuilder(child, `${path}.${child.name}`, dictionaries));
+
+  switch (type.name) {
+    case 'null':
+      return new NullBuilder(field, path);
+    case 'bool':
+      return new BoolBuilder(field, path);
+    case 'int':
+      return new FixedWidthBuilder(
+        field,
+        path,
+        type.bitWidth / 8,
+        `an integer of ${type.bitWidth} bits`,
+        integerConverter(type.bitWidth, type.isSigned),
+        integerWriter(type.bitWidth, type.isSigned)
+      );
+    case 'floatingpoint': {
+      if (type.precision === 'HALF') {
+        throw new Error(`Unsupported Arrow type for field '${path}': half-precision floating point`);
+      }
+      const double = type.precision === 'DOUBLE';
+      return new FixedWidthBuilder(
+        field,
+        path,
+        double ? 8 : 4,
+        'a number',
+        (value) => {
+          const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+          return typeof number === 'number' ? number : undefined;
+        },
+        (view, offset, value) =>
+          double ? view.setFloat64(offset, Number(value), true) : view.setFloat32(offset, Number(value), true)
+      );
+    }
+    case 'utf8':
+      return new BinaryBuilder(field, path, true, field.metadata?.['ARROW:extension:name'] === 'arrow.json');
+    case 'binary':
+      return new BinaryBuilder(field, path, false, false);
+    case 'fixedsizebinary': {
+      const { byteWidth } = type;
+      return new FixedSizeBinaryBuilder(field, path, byteWidth, `${byteWidth} bytes or their hex digits`, (value) =>
+        value instanceof Uint8Array ? value : typeof value === 'string' ? hexToBytes(value, byteWidth) : undefined
+      );
+    }
+    case 'decimal':
+      return new FixedSizeBinaryBuilder(
+        field,
+        path,
+        type.bitWidth / 8,
+        `a decimal(${type.precision},${type.scale})`,
+        decimalConverter(type.precision, type.scale, type.bitWidth / 8)
+      );
+    case 'date':
+      return type.unit === 'DAY'
+        ? new FixedWidthBuilder(field, path, 4, 'a date', toEpochDays, int32)
+        : new FixedWidthBuilder(
+            field,
+            path,
+            8,
+            'a date',
+            (value) => {
+              const days = toEpochDays(value);
+              return days === undefined ? undefined : BigInt(days) * BigInt(MS_PER_DAY);
+            },
+            int64
+          );
+    case 'time': {
+      const { unit, bitWidth } = type;
+      return new FixedWidthBuilder(
+        field,
+        path,
+        bitWidth / 8,
+        'a time of day',
+        (value) => {
+          const units = toUnits(value, unit, true);
+          return units === undefined || bitWidth === 64 ? units : Number(units);
+        },
+        bitWidth === 64 ? int64 : int32
+      );
+    }
+    case 'timestamp': {
+      const { unit } = type;
+      return new FixedWidthBuilder(field, path, 8, 'a date or timestamp', (value) => toUnits(value, unit, false), int64);
+    }
+    case 'list': {
+      const [item] = children();
+      if (!item) throw new Error(`Invalid Arrow schema: list field '${path}' has no child`);
+      return new ListBuilder(field, path, item);
+    }
+    case 'map': {
+      const [entries] = children();
+      if (!entries) throw new Error(`Invalid Arrow schema: map field '${path}' has no entries`);
+      return new MapBuilder(field, path, entries);
+    }
+    case 'struct':
+      return new StructBuilder(field, path, children());
+    default: {
+      const _exhaustive: never = type;
+      throw new Error(`Unhandled Arrow type: ${JSON.stringify(_exhaustive)}`);
+    }
+  }
+}
+
+// =============================================================================
+// Tables
+// =============================================================================
+
+function isIceTypeSchema(schema: IceTypeSchema | ArrowSchema): schema is IceTypeSchema {
+  return schema.fields instanceof Map;
+}
+
+/**
+ * Convert documents to an Arrow table.
+ *
+ * Each field becomes one array; `list`, `map` and `struct` fields hold
+ * their values in child arrays, and enum fields are dictionary-encoded
+ * against the schema's enum values. Encode the table with
+ * `encodeArrowTable` to hand it to DuckDB, Polars or pyarrow.
+ *
+ * @param schema - An IceType schema, or the Arrow schema to convert with
+ * @param documents - Documents to convert
+ * @param options - Export options, when converting an IceType schema
+ * @returns The table
+ * @throws Error if a required value is missing or a value does not fit its
+ *   field, naming the field and row index
+ *
+ * @example
+ * ```typescript
+ * import { documentsToArrowTable, encodeArrowTable } from '@icetype/arrow';
+ *
+ * const table = documentsToArrowTable(OrderSchema, orders);
+ * const bytes = encodeArrowTable(table);
+ * // polars.read_ipc_stream(bytes), pyarrow.ipc.open_stream(bytes).read_all()
+ * ```
+ */
+export function documentsToArrowTable(
+  schema: IceTypeSchema | ArrowSchema,
+  documents: Iterable<Record<string, unknown>>,
+  options: ArrowExportOptions = {}
+): ArrowTable {
+  const arrowSchema = isIceTypeSchema(schema) ? schemaToArrow(schema, options) : schema;
+  const dictionaries = new Map<number, DictionaryValues>();
+  const builders = arrowSchema.fields.map((field) => createBuilder(field, field.name, dictionaries));
+
+  let numRows = 0;
+  for (const document of documents) {
+    for (const builder of builders) {
+      builder.append(document[builder.field.name], numRows);
+    }
+    numRows++;
+  }
+
+  return {
+    schema: arrowSchema,
+    numRows,
+    columns: builders.map((builder) => builder.finish()),
+    dictionaries: new Map([...dictionaries].map(([id, values]) => [id, values.finish()])),
+  };
+}
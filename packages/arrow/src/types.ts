@@ -0,0 +1,244 @@
+/**
+ * Type definitions for Apache Arrow schema generation
+ *
+ * Schemas follow the JSON representation of the Arrow integration tests:
+ * types are discriminated by `name` and carry the parameters of the
+ * corresponding FlatBuffers table.
+ *
+ * @see https://arrow.apache.org/docs/format/Integration.html#json-test-data-format
+ *
+ * @packageDocumentation
+ */
+
+// =============================================================================
+// Arrow Types
+// =============================================================================
+
+/** Resolution of Time and Timestamp values */
+export type ArrowTimeUnit = 'SECOND' | 'MILLISECOND' | 'MICROSECOND' | 'NANOSECOND';
+
+/** A signed or unsigned integer */
+export interface ArrowIntType {
+  name: 'int';
+  bitWidth: 8 | 16 | 32 | 64;
+  isSigned: boolean;
+}
+
+/** A floating point number of half, single or double precision */
+export interface ArrowFloatingPointType {
+  name: 'floatingpoint';
+  precision: 'HALF' | 'SINGLE' | 'DOUBLE';
+}
+
+/** A fixed-point decimal, stored as a 128- or 256-bit little-endian integer */
+export interface ArrowDecimalType {
+  name: 'decimal';
+  precision: number;
+  scale: number;
+  bitWidth: 128 | 256;
+}
+
+/** Binary values of the same width, e.g. 16 bytes for UUIDs */
+export interface ArrowFixedSizeBinaryType {
+  name: 'fixedsizebinary';
+  byteWidth: number;
+}
+
+/** Days (32-bit) or milliseconds (64-bit) since the Unix epoch */
+export interface ArrowDateType {
+  name: 'date';
+  unit: 'DAY' | 'MILLISECOND';
+}
+
+/** Time of day: 32-bit for seconds and milliseconds, 64-bit for finer units */
+export interface ArrowTimeType {
+  name: 'time';
+  unit: ArrowTimeUnit;
+  bitWidth: 32 | 64;
+}
+
+/** 64-bit time since the Unix epoch; with a timezone the values are UTC */
+export interface ArrowTimestampType {
+  name: 'timestamp';
+  unit: ArrowTimeUnit;
+  timezone?: string;
+}
+
+/** A map, whose single child is a non-nullable `entries` struct of `key` and `value` */
+export interface ArrowMapType {
+  name: 'map';
+  keysSorted: boolean;
+}
+
+/**
+ * An Arrow data type. Nested types (`list`, `struct`, `map`) describe
+ * their values with the children of the field.
+ */
+export type ArrowType =
+  | { name: 'null' }
+  | { name: 'bool' }
+  | ArrowIntType
+  | ArrowFloatingPointType
+  | { name: 'utf8' }
+  | { name: 'binary' }
+  | ArrowFixedSizeBinaryType
+  | ArrowDecimalType
+  | ArrowDateType
+  | ArrowTimeType
+  | ArrowTimestampType
+  | { name: 'list' }
+  | { name: 'struct' }
+  | ArrowMapType;
+
+// =============================================================================
+// Arrow Schema
+// =============================================================================
+
+/**
+ * Dictionary encoding of a field. The field's `type` is the type of the
+ * dictionary values, which are sent once and referenced by index.
+ */
+export interface ArrowDictionaryEncoding {
+  /** Identifies the dictionary within a stream or file */
+  id: number;
+  indexType: ArrowIntType;
+  /** Whether the order of the dictionary values is meaningful */
+  isOrdered: boolean;
+}
+
+/**
+ * A field of an Arrow schema or nested type
+ */
+export interface ArrowField {
+  name: string;
+  nullable: boolean;
+  type: ArrowType;
+  children: ArrowField[];
+  dictionary?: ArrowDictionaryEncoding;
+  /** Custom key/value metadata, e.g. `ARROW:extension:name` or `icetype.modifier` */
+  metadata?: Record<string, string>;
+}
+
+/**
+ * An Arrow schema
+ */
+export interface ArrowSchema {
+  fields: ArrowField[];
+  /** Custom key/value metadata, e.g. `icetype.schema` */
+  metadata?: Record<string, string>;
+}
+
+// =============================================================================
+// Export Options
+// =============================================================================
+
+/**
+ * Options for generating Arrow schemas
+ */
+export interface ArrowExportOptions {
+  /**
+   * Include the system columns (`$id`, `$type`, `$version`, `$createdAt`,
+   * `$updatedAt`) before the schema's own fields.
+   * @default true
+   */
+  includeSystemFields?: boolean;
+  /**
+   * Resolution of `timestamp`, `timestamptz` and `time` fields.
+   * @default 'micros'
+   */
+  timestampUnit?: 'millis' | 'micros' | 'nanos';
+  /**
+   * Timezone of `timestamptz` fields. `timestamp` fields have none.
+   * @default 'UTC'
+   */
+  timezone?: string;
+}
+
+// =============================================================================
+// Tables
+// =============================================================================
+
+/**
+ * The values of one array in Arrow's columnar layout.
+ *
+ * Buffers follow the layout of the field's type: validity bitmap and
+ * values for fixed-width types, validity, offsets and data for `utf8` and
+ * `binary`, validity and offsets for `list` and `map`, and validity only
+ * for `struct`. An empty validity buffer means no value is null.
+ */
+export interface ArrowArrayData {
+  length: number;
+  nullCount: number;
+  buffers: Uint8Array[];
+  children: ArrowArrayData[];
+}
+
+/**
+ * Documents converted to Arrow arrays, one per top-level field
+ */
+export interface ArrowTable {
+  schema: ArrowSchema;
+  numRows: number;
+  /** One array per field of the schema, in order */
+  columns: ArrowArrayData[];
+  /** Values of dictionary-encoded fields, by dictionary ID */
+  dictionaries: Map<number, ArrowArrayData>;
+}
+
+/**
+ * Options for encoding a table in the Arrow IPC format
+ */
+export interface ArrowIpcOptions {
+  /**
+   * `stream` for the streaming format (`.arrows`, read by
+   * `pyarrow.ipc.open_stream` and `polars.read_ipc_stream`), or `file` for
+   * the random-access file format (`.arrow`, Feather v2).
+   * @default 'stream'
+   */
+  format?: 'stream' | 'file';
+}
+
+// =============================================================================
+// Type Mapping Configuration
+// =============================================================================
+
+/**
+ * Configuration for mapping an IceType primitive type to Arrow
+ */
+export interface ArrowTypeMappingConfig {
+  /** IceType primitive type */
+  icetype: string;
+  /** Corresponding Arrow type */
+  arrow: ArrowType;
+  /** Canonical extension type, e.g. `arrow.uuid` */
+  extension?: string;
+}
+
+/**
+ * Mapping table for IceType primitive types to Arrow. Timestamps, times
+ * and decimals take their parameters from the field and options instead.
+ */
+export const ICETYPE_TO_ARROW_MAPPINGS: ArrowTypeMappingConfig[] = [
+  { icetype: 'string', arrow: { name: 'utf8' } },
+  { icetype: 'text', arrow: { name: 'utf8' } },
+  { icetype: 'varchar', arrow: { name: 'utf8' } },
+  { icetype: 'char', arrow: { name: 'utf8' } },
+  { icetype: 'json', arrow: { name: 'utf8' }, extension: 'arrow.json' },
+  { icetype: 'uuid', arrow: { name: 'fixedsizebinary', byteWidth: 16 }, extension: 'arrow.uuid' },
+  { icetype: 'int', arrow: { name: 'int', bitWidth: 32, isSigned: true } },
+  { icetype: 'long', arrow: { name: 'int', bitWidth: 64, isSigned: true } },
+  { icetype: 'bigint', arrow: { name: 'int', bitWidth: 64, isSigned: true } },
+  { icetype: 'float', arrow: { name: 'floatingpoint', precision: 'SINGLE' } },
+  { icetype: 'double', arrow: { name: 'floatingpoint', precision: 'DOUBLE' } },
+  { icetype: 'bool', arrow: { name: 'bool' } },
+  { icetype: 'boolean', arrow: { name: 'bool' } },
+  { icetype: 'date', arrow: { name: 'date', unit: 'DAY' } },
+  { icetype: 'binary', arrow: { name: 'binary' } },
+];
+
+/**
+ * Map of IceType primitive types to Arrow
+ */
+export const ICETYPE_TO_ARROW_MAP: Record<string, ArrowTypeMappingConfig> = Object.fromEntries(
+  ICETYPE_TO_ARROW_MAPPINGS.map((m) => [m.icetype, m])
+);
@@ -0,0 +1,7 @@
+/**
+ * Package version for @icetype/arrow
+ *
+ * Single source of truth for the adapter version.
+ * Updated by release scripts.
+ */
+export const VERSION = '0.1.0';
@@ -0,0 +1,236 @@
+/**
+ * Tests for Arrow schema generation
+ *
+ * Tests the conversion of IceType schemas to Arrow schemas.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSchema } from '@icetype/core';
+
+import {
+  schemaToArrow,
+  fieldToArrowField,
+  serializeArrowSchema,
+  mapIceTypeToArrow,
+  ArrowAdapter,
+  createArrowAdapter,
+} from '../src/index.js';
+
+function fieldsOf(definition: Record<string, unknown>) {
+  return schemaToArrow(parseSchema({ $type: 'Test', ...definition }), { includeSystemFields: false }).fields;
+}
+
+// =============================================================================
+// Type Mapping
+// =============================================================================
+
+describe('mapIceTypeToArrow', () => {
+  it('should map primitive types', () => {
+    expect(mapIceTypeToArrow('string')).toEqual({ name: 'utf8' });
+    expect(mapIceTypeToArrow('int')).toEqual({ name: 'int', bitWidth: 32, isSigned: true });
+    expect(mapIceTypeToArrow('long')).toEqual({ name: 'int', bitWidth: 64, isSigned: true });
+    expect(mapIceTypeToArrow('float')).toEqual({ name: 'floatingpoint', precision: 'SINGLE' });
+    expect(mapIceTypeToArrow('double')).toEqual({ name: 'floatingpoint', precision: 'DOUBLE' });
+    expect(mapIceTypeToArrow('boolean')).toEqual({ name: 'bool' });
+    expect(mapIceTypeToArrow('binary')).toEqual({ name: 'binary' });
+    expect(mapIceTypeToArrow('date')).toEqual({ name: 'date', unit: 'DAY' });
+  });
+
+  it('should map uuid to a 16-byte fixed size binary', () => {
+    expect(mapIceTypeToArrow('uuid')).toEqual({ name: 'fixedsizebinary', byteWidth: 16 });
+  });
+
+  it('should map timestamps with a unit and only timestamptz with a timezone', () => {
+    expect(mapIceTypeToArrow('timestamp')).toEqual({ name: 'timestamp', unit: 'MICROSECOND' });
+    expect(mapIceTypeToArrow('timestamptz')).toEqual({ name: 'timestamp', unit: 'MICROSECOND', timezone: 'UTC' });
+    expect(mapIceTypeToArrow('timestamptz', { timestampUnit: 'nanos', timezone: 'Europe/Oslo' })).toEqual({
+      name: 'timestamp',
+      unit: 'NANOSECOND',
+      timezone: 'Europe/Oslo',
+    });
+  });
+
+  it('should use 32-bit times for milliseconds and 64-bit times otherwise', () => {
+    expect(mapIceTypeToArrow('time', { timestampUnit: 'millis' })).toEqual({ name: 'time', unit: 'MILLISECOND', bitWidth: 32 });
+    expect(mapIceTypeToArrow('time')).toEqual({ name: 'time', unit: 'MICROSECOND', bitWidth: 64 });
+  });
+
+  it('should map decimals to Decimal128, or Decimal256 beyond 38 digits', () => {
+    expect(mapIceTypeToArrow('decimal(10,2)')).toEqual({ name: 'decimal', precision: 10, scale: 2, bitWidth: 128 });
+    expect(mapIceTypeToArrow('decimal')).toEqual({ name: 'decimal', precision: 38, scale: 9, bitWidth: 128 });
+    expect(mapIceTypeToArrow('decimal(50,4)')).toEqual({ name: 'decimal', precision: 50, scale: 4, bitWidth: 256 });
+  });
+
+  it('should map fixed to a fixed size binary', () => {
+    expect(mapIceTypeToArrow('fixed(4)')).toEqual({ name: 'fixedsizebinary', byteWidth: 4 });
+  });
+
+  it('should map unknown types to utf8', () => {
+    expect(mapIceTypeToArrow('geometry')).toEqual({ name: 'utf8' });
+  });
+});
+
+// =============================================================================
+// Field Metadata
+// =============================================================================
+
+describe('field metadata', () => {
+  it('should derive nullability from modifiers', () => {
+    const fields = fieldsOf({ id: 'uuid!', name: 'string', note: 'string?' });
+
+    expect(fields.map((f) => [f.name, f.nullable])).toEqual([
+      ['id', false],
+      ['name', false],
+      ['note', true],
+    ]);
+  });
+
+  it('should carry IceType modifiers as field metadata', () => {
+    const fields = fieldsOf({ email: 'string!', slug: 'string#', status: 'string? = "active"' });
+
+    expect(fields.map((f) => f.metadata)).toEqual([
+      { 'icetype.type': 'string', 'icetype.modifier': '!', 'icetype.unique': 'true' },
+      { 'icetype.type': 'string', 'icetype.modifier': '#', 'icetype.indexed': 'true' },
+      { 'icetype.type': 'string', 'icetype.modifier': '?', 'icetype.default': '"active"' },
+    ]);
+  });
+
+  it('should mark uuid and json fields with canonical extension types', () => {
+    const [id, payload] = fieldsOf({ id: 'uuid!', payload: 'json' });
+
+    expect(id?.type).toEqual({ name: 'fixedsizebinary', byteWidth: 16 });
+    expect(id?.metadata?.['ARROW:extension:name']).toBe('arrow.uuid');
+    expect(payload?.type).toEqual({ name: 'utf8' });
+    expect(payload?.metadata?.['ARROW:extension:name']).toBe('arrow.json');
+  });
+});
+
+// =============================================================================
+// Generic, Enum and Struct Types
+// =============================================================================
+
+describe('complex types', () => {
+  it('should use lists with a nullable item child', () => {
+    const [tags, scores] = fieldsOf({ tags: 'string[]', scores: 'list<double>' });
+
+    expect(tags?.type).toEqual({ name: 'list' });
+    expect(tags?.children).toEqual([{ name: 'item', nullable: true, type: { name: 'utf8' }, children: [] }]);
+    expect(scores?.children[0]?.type).toEqual({ name: 'floatingpoint', precision: 'DOUBLE' });
+  });
+
+  it('should use maps with a non-null entries struct and key', () => {
+    const [counts] = fieldsOf({ counts: 'map<string, int>?' });
+
+    expect(counts?.type).toEqual({ name: 'map', keysSorted: false });
+    expect(counts?.nullable).toBe(true);
+    expect(counts?.children).toEqual([
+      {
+        name: 'entries',
+        nullable: false,
+        type: { name: 'struct' },
+        children: [
+          { name: 'key', nullable: false, type: { name: 'utf8' }, children: [] },
+          { name: 'value', nullable: true, type: { name: 'int', bitWidth: 32, isSigned: true }, children: [] },
+        ],
+      },
+    ]);
+  });
+
+  it('should dictionary-encode enums with distinct ids', () => {
+    const fields = fieldsOf({
+      $enums: { Status: ['pending', 'shipped'], Size: ['s', 'm'] },
+      status: 'enum<Status> = "pending"',
+      size: 'enum<Size>?',
+    });
+
+    expect(fields[0]?.type).toEqual({ name: 'utf8' });
+    expect(fields[0]?.dictionary).toEqual({
+      id: 0,
+      indexType: { name: 'int', bitWidth: 32, isSigned: true },
+      isOrdered: false,
+    });
+    expect(fields[0]?.metadata?.['icetype.enum']).toBe('["pending","shipped"]');
+    expect(fields[1]?.dictionary?.id).toBe(1);
+  });
+
+  it('should emit struct children for structs', () => {
+    const [shipping] = fieldsOf({
+      $structs: { Address: { city: 'string!', zip: 'string?' } },
+      shipping: 'struct<Address>?',
+    });
+
+    expect(shipping?.type).toEqual({ name: 'struct' });
+    expect(shipping?.nullable).toBe(true);
+    expect(shipping?.children.map((c) => [c.name, c.nullable])).toEqual([
+      ['city', false],
+      ['zip', true],
+    ]);
+  });
+});
+
+// =============================================================================
+// Relations
+// =============================================================================
+
+describe('relations', () => {
+  it('should store forward relations as IDs and skip backward relations', () => {
+    const fields = fieldsOf({
+      author: '-> User',
+      reviewers: '-> User[]',
+      comments: '<- Comment.post[]',
+    });
+
+    expect(fields.map((f) => f.name)).toEqual(['author', 'reviewers']);
+    expect(fields[0]?.type).toEqual({ name: 'utf8' });
+    expect(fields[0]?.metadata?.['icetype.relation']).toBe('-> User');
+    expect(fields[1]?.type).toEqual({ name: 'list' });
+  });
+
+  it('should return undefined from fieldToArrowField for backward relations', () => {
+    const schema = parseSchema({ $type: 'Post', comments: '<- Comment.post[]' });
+    expect(fieldToArrowField(schema.fields.get('comments')!)).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+describe('schemaToArrow', () => {
+  it('should prepend system fields by default', () => {
+    const schema = schemaToArrow(parseSchema({ $type: 'User', name: 'string' }));
+
+    expect(schema.fields.map((f) => f.name)).toEqual(['$id', '$type', '$version', '$createdAt', '$updatedAt', 'name']);
+    expect(schema.fields[3]?.type).toEqual({ name: 'timestamp', unit: 'MICROSECOND', timezone: 'UTC' });
+    expect(schema.fields.slice(0, 5).every((f) => !f.nullable)).toBe(true);
+  });
+
+  it('should record the schema name and version as schema metadata', () => {
+    const schema = schemaToArrow(parseSchema({ $type: 'User', name: 'string' }));
+    expect(schema.metadata).toEqual({ 'icetype.schema': 'User', 'icetype.version': '1' });
+  });
+
+  it('should serialize to JSON', () => {
+    const schema = schemaToArrow(parseSchema({ $type: 'User', name: 'string' }));
+    const json = serializeArrowSchema(schema);
+
+    expect(json.endsWith('\n')).toBe(true);
+    expect(JSON.parse(json)).toEqual(schema);
+  });
+});
+
+// =============================================================================
+// Adapter
+// =============================================================================
+
+describe('ArrowAdapter', () => {
+  it('should implement the SchemaAdapter interface', () => {
+    const adapter = createArrowAdapter();
+    const schema = parseSchema({ $type: 'User', id: 'uuid!' });
+
+    expect(adapter).toBeInstanceOf(ArrowAdapter);
+    expect(adapter.name).toBe('arrow');
+    expect(adapter.transform(schema)).toEqual(schemaToArrow(schema));
+    expect(adapter.serialize(adapter.transform(schema))).toBe(serializeArrowSchema(schemaToArrow(schema)));
+  });
+});
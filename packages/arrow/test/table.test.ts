@@ -0,0 +1,211 @@
+/**
+ * Tests for Arrow tables and IPC encoding
+ *
+ * Tests the conversion of documents to Arrow arrays and their encoding in
+ * the IPC streaming and file formats.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSchema } from '@icetype/core';
+
+import {
+  documentsToArrowTable,
+  encodeArrowSchema,
+  encodeArrowTable,
+  schemaToArrow,
+} from '../src/index.js';
+
+const options = { includeSystemFields: false };
+
+function tableOf(definition: Record<string, unknown>, documents: Array<Record<string, unknown>>) {
+  return documentsToArrowTable(parseSchema({ $type: 'Test', ...definition }), documents, options);
+}
+
+function view(bytes: Uint8Array) {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+// =============================================================================
+// Primitive Arrays
+// =============================================================================
+
+describe('documentsToArrowTable', () => {
+  it('should build one column per field', () => {
+    const table = tableOf({ name: 'string!', age: 'int?' }, [{ name: 'a' }, { name: 'b', age: 3 }]);
+
+    expect(table.numRows).toBe(2);
+    expect(table.columns).toHaveLength(2);
+    expect(table.schema.fields.map((f) => f.name)).toEqual(['name', 'age']);
+  });
+
+  it('should write validity bitmaps only for columns with nulls', () => {
+    const table = tableOf({ name: 'string!', age: 'int?' }, [{ name: 'a' }, { name: 'b', age: 3 }, { name: 'c', age: 4 }]);
+    const [name, age] = table.columns;
+
+    expect(name?.nullCount).toBe(0);
+    expect(name?.buffers[0]).toHaveLength(0);
+    expect(age?.nullCount).toBe(1);
+    expect(age?.buffers[0]?.[0]).toBe(0b110);
+    expect(Array.from(new Int32Array(age!.buffers[1]!.slice().buffer))).toEqual([0, 3, 4]);
+  });
+
+  it('should write offsets and data for strings', () => {
+    const [name] = tableOf({ name: 'string' }, [{ name: 'ab' }, { name: '' }, { name: 'çd' }]).columns;
+
+    expect(Array.from(new Int32Array(name!.buffers[1]!.slice().buffer))).toEqual([0, 2, 2, 5]);
+    expect(new TextDecoder().decode(name!.buffers[2])).toBe('abçd');
+  });
+
+  it('should pack booleans as bits', () => {
+    const [flag] = tableOf({ flag: 'boolean' }, [{ flag: true }, { flag: false }, { flag: true }]).columns;
+    expect(flag?.buffers[1]?.[0]).toBe(0b101);
+  });
+
+  it('should convert uuids to 16 bytes', () => {
+    const [id] = tableOf({ id: 'uuid!' }, [{ id: '00112233-4455-6677-8899-aabbccddeeff' }]).columns;
+    expect(Array.from(id!.buffers[1]!)).toEqual([
+      0x00, 0x11, 0x22, 0x33, 0x44, 0x55, 0x66, 0x77, 0x88, 0x99, 0xaa, 0xbb, 0xcc, 0xdd, 0xee, 0xff,
+    ]);
+  });
+
+  it('should store decimals as little-endian unscaled integers', () => {
+    const [total] = tableOf({ total: 'decimal(10,2)' }, [{ total: '12.34' }, { total: -1.5 }]).columns;
+    const data = view(total!.buffers[1]!);
+
+    expect(total!.buffers[1]).toHaveLength(32);
+    expect(data.getBigInt64(0, true)).toBe(1234n);
+    expect(data.getBigInt64(8, true)).toBe(0n);
+    expect(data.getBigInt64(16, true)).toBe(-150n);
+    expect(data.getBigInt64(24, true)).toBe(-1n);
+  });
+
+  it('should convert timestamps and dates from strings, numbers and Dates', () => {
+    const table = tableOf({ at: 'timestamptz', day: 'date' }, [
+      { at: '1970-01-01T00:00:01.5Z', day: '1970-01-03' },
+      { at: new Date(2000), day: new Date(86_400_000) },
+      { at: 3000, day: 5 },
+    ]);
+    const [at, day] = table.columns;
+
+    expect(Array.from(new BigInt64Array(at!.buffers[1]!.slice().buffer))).toEqual([1_500_000n, 2_000_000n, 3_000_000n]);
+    expect(Array.from(new Int32Array(day!.buffers[1]!.slice().buffer))).toEqual([2, 1, 5]);
+  });
+
+  it('should stringify json values', () => {
+    const [payload] = tableOf({ payload: 'json' }, [{ payload: { a: [1] } }]).columns;
+    expect(new TextDecoder().decode(payload!.buffers[2])).toBe('{"a":[1]}');
+  });
+});
+
+// =============================================================================
+// Nested Arrays
+// =============================================================================
+
+describe('nested arrays', () => {
+  it('should build lists from offsets and a child array', () => {
+    const [tags] = tableOf({ tags: 'string[]' }, [{ tags: ['a', 'b'] }, { tags: [] }, { tags: ['c'] }]).columns;
+
+    expect(Array.from(new Int32Array(tags!.buffers[1]!.slice().buffer))).toEqual([0, 2, 2, 3]);
+    expect(tags?.children[0]?.length).toBe(3);
+  });
+
+  it('should build maps from objects and Map instances', () => {
+    const [counts] = tableOf({ counts: 'map<string, int>' }, [{ counts: { a: 1, b: 2 } }, { counts: new Map([['c', 3]]) }]).columns;
+    const entries = counts?.children[0];
+
+    expect(Array.from(new Int32Array(counts!.buffers[1]!.slice().buffer))).toEqual([0, 2, 3]);
+    expect(entries?.children.map((c) => c.length)).toEqual([3, 3]);
+  });
+
+  it('should build structs with a child array per field', () => {
+    const [address] = tableOf(
+      { $structs: { Address: { city: 'string!', zip: 'int?' } }, address: 'struct<Address>?' },
+      [{ address: { city: 'Oslo', zip: 150 } }, { address: null }],
+    ).columns;
+
+    expect(address?.nullCount).toBe(1);
+    expect(address?.children.map((c) => c.length)).toEqual([2, 2]);
+  });
+
+  it('should encode enums as indices into their declared values', () => {
+    const table = tableOf(
+      { $enums: { Status: ['pending', 'shipped'] }, status: 'enum<Status>' },
+      [{ status: 'shipped' }, { status: 'pending' }],
+    );
+    const dictionary = table.dictionaries.get(0);
+
+    expect(Array.from(new Int32Array(table.columns[0]!.buffers[1]!.slice().buffer))).toEqual([1, 0]);
+    expect(dictionary?.length).toBe(2);
+    expect(new TextDecoder().decode(dictionary?.buffers[2])).toBe('pendingshipped');
+  });
+});
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+describe('errors', () => {
+  it('should reject missing required values with the field and row index', () => {
+    expect(() => tableOf({ name: 'string!' }, [{ name: 'a' }, {}])).toThrow(
+      "Missing value for required field 'name' at row index 1",
+    );
+  });
+
+  it('should reject values that do not fit their field', () => {
+    expect(() => tableOf({ age: 'int' }, [{ age: 'old' }])).toThrow(
+      "Invalid value for field 'age' at row index 0",
+    );
+    expect(() => tableOf({ total: 'decimal(4,2)' }, [{ total: '123.45' }])).toThrow(
+      "Invalid value for field 'total' at row index 0",
+    );
+  });
+
+  it('should name nested fields by their path', () => {
+    expect(() => tableOf(
+      { $structs: { Address: { city: 'string!' } }, address: 'struct<Address>' },
+      [{ address: {} }],
+    )).toThrow("Missing value for required field 'address.city' at row index 0");
+  });
+});
+
+// =============================================================================
+// IPC
+// =============================================================================
+
+describe('encodeArrowSchema', () => {
+  it('should encapsulate a Schema message', () => {
+    const bytes = encodeArrowSchema(schemaToArrow(parseSchema({ $type: 'User', name: 'string' })));
+
+    expect(view(bytes).getUint32(0, true)).toBe(0xffffffff);
+    expect(view(bytes).getInt32(4, true)).toBe(bytes.length - 8);
+    expect(bytes.length % 8).toBe(0);
+  });
+});
+
+describe('encodeArrowTable', () => {
+  const table = tableOf(
+    { $enums: { Status: ['a', 'b'] }, name: 'string!', status: 'enum<Status>?' },
+    [{ name: 'x', status: 'a' }, { name: 'y' }],
+  );
+
+  it('should write an IPC stream ending in an end-of-stream marker', () => {
+    const bytes = encodeArrowTable(table);
+
+    expect(view(bytes).getUint32(0, true)).toBe(0xffffffff);
+    expect(Array.from(bytes.slice(-8))).toEqual([0xff, 0xff, 0xff, 0xff, 0, 0, 0, 0]);
+    expect(bytes.length % 8).toBe(0);
+  });
+
+  it('should wrap the stream in magic bytes and a footer in the file format', () => {
+    const stream = encodeArrowTable(table);
+    const file = encodeArrowTable(table, { format: 'file' });
+    const magic = Array.from(new TextEncoder().encode('ARROW1'));
+
+    expect(Array.from(file.slice(0, 6))).toEqual(magic);
+    expect(Array.from(file.slice(-6))).toEqual(magic);
+    expect(Array.from(file.slice(8, 8 + stream.length))).toEqual(Array.from(stream));
+
+    const footerLength = view(file).getInt32(file.length - 10, true);
+    expect(8 + stream.length + footerLength + 10).toBe(file.length);
+  });
+});
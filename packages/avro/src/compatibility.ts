@@ -0,0 +1,258 @@
+/**
+ * Avro Schema Compatibility
+ *
+ * Checks whether two versions of an IceType schema are compatible when
+ * exchanged as Avro, following Avro schema resolution and the
+ * Confluent Schema Registry compatibility modes.
+ *
+ * @packageDocumentation
+ */
+
+import { diffSchemas } from '@icetype/core';
+import type { IceTypeSchema, SchemaChange } from '@icetype/core';
+
+import type {
+  AvroSchema,
+  AvroRecordSchema,
+  AvroCompatibilityMode,
+  AvroCompatibilityIssue,
+  AvroCompatibilityResult,
+} from './types.js';
+
+import { AVRO_PROMOTIONS } from './types.js';
+
+import { schemaToAvro } from './exporter.js';
+
+const PRIMITIVE_TYPES = new Set(['null', 'boolean', 'int', 'long', 'float', 'double', 'bytes', 'string']);
+
+// =============================================================================
+// Schema Resolution
+// =============================================================================
+
+/**
+ * Get the primitive type a schema is encoded as, if it is a primitive
+ * or a logical type.
+ */
+function primitiveOf(schema: AvroSchema): string | undefined {
+  if (typeof schema === 'string') {
+    return PRIMITIVE_TYPES.has(schema) ? schema : undefined;
+  }
+  if (!Array.isArray(schema) && 'logicalType' in schema) {
+    return schema.type;
+  }
+  return undefined;
+}
+
+/**
+ * Get the name of a named type (record, enum, fixed) or a reference to one.
+ */
+function nameOf(schema: AvroSchema): string | undefined {
+  if (typeof schema === 'string') {
+    return PRIMITIVE_TYPES.has(schema) ? undefined : schema;
+  }
+  if (!Array.isArray(schema) && 'name' in schema) {
+    return schema.name;
+  }
+  return undefined;
+}
+
+/**
+ * Check whether data written with `writer` can be read with `reader`.
+ *
+ * Implements Avro schema resolution: primitive promotions, unions, arrays,
+ * maps, enums (the writer's symbols must be known to the reader), fixed and
+ * records (every reader field must be written or have a default). Logical
+ * types resolve by their underlying primitive. A reference to a named type
+ * resolves when the names match.
+ *
+ * @param reader - The schema used to read
+ * @param writer - The schema the data was written with
+ * @returns Whether the reader can read the writer's data
+ */
+export function canReadAvro(reader: AvroSchema, writer: AvroSchema): boolean {
+  if (Array.isArray(writer)) {
+    // Every branch the writer may have used must be readable
+    return writer.every((branch) => canReadAvro(reader, branch));
+  }
+  if (Array.isArray(reader)) {
+    return reader.some((branch) => canReadAvro(branch, writer));
+  }
+
+  const readerPrimitive = primitiveOf(reader);
+  const writerPrimitive = primitiveOf(writer);
+  if (readerPrimitive !== undefined || writerPrimitive !== undefined) {
+    if (readerPrimitive === undefined || writerPrimitive === undefined) {
+      return false;
+    }
+    return readerPrimitive === writerPrimitive ||
+      (AVRO_PROMOTIONS[writerPrimitive]?.includes(readerPrimitive) ?? false);
+  }
+
+  if (typeof reader === 'string' || typeof writer === 'string') {
+    // A reference to a named type defined elsewhere in the schema
+    return nameOf(reader) === nameOf(writer);
+  }
+
+  switch (reader.type) {
+    case 'array':
+      return writer.type === 'array' && canReadAvro(reader.items, writer.items);
+    case 'map':
+      return writer.type === 'map' && canReadAvro(reader.values, writer.values);
+    case 'enum':
+      return (
+        writer.type === 'enum' &&
+        writer.name === reader.name &&
+        (reader.default !== undefined || writer.symbols.every((symbol) => reader.symbols.includes(symbol)))
+      );
+    case 'fixed':
+      return writer.type === 'fixed' && writer.name === reader.name && writer.size === reader.size;
+    case 'record':
+      return (
+        writer.type === 'record' &&
+        writer.name === reader.name &&
+        reader.fields.every((field) => {
+          const written = writer.fields.find((candidate) => candidate.name === field.name);
+          return written ? canReadAvro(field.type, written.type) : 'default' in field;
+        })
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Describe an Avro schema briefly for messages (e.g. `long`, `timestamp-micros`, `null | int`).
+ */
+function describe(schema: AvroSchema): string {
+  if (typeof schema === 'string') {
+    return schema;
+  }
+  if (Array.isArray(schema)) {
+    return schema.map(describe).join(' | ');
+  }
+  if ('logicalType' in schema) {
+    return schema.logicalType;
+  }
+  switch (schema.type) {
+    case 'array':
+      return `array<${describe(schema.items)}>`;
+    case 'map':
+      return `map<${describe(schema.values)}>`;
+    default:
+      return schema.name;
+  }
+}
+
+// =============================================================================
+// Compatibility Check
+// =============================================================================
+
+/**
+ * Find the diff change that concerns a field.
+ */
+function findChange(changes: SchemaChange[], field: string): SchemaChange | undefined {
+  return changes.find((change) => {
+    switch (change.type) {
+      case 'rename_field':
+        return change.oldName === field || change.newName === field;
+      case 'change_directive':
+        return false;
+      default:
+        return change.field === field;
+    }
+  });
+}
+
+/**
+ * Collect the reader fields that cannot be resolved against the writer's record.
+ */
+function resolveFields(
+  reader: AvroRecordSchema,
+  writer: AvroRecordSchema,
+  direction: 'backward' | 'forward',
+  changes: SchemaChange[]
+): AvroCompatibilityIssue[] {
+  const issues: AvroCompatibilityIssue[] = [];
+
+  for (const field of reader.fields) {
+    const written = writer.fields.find((candidate) => candidate.name === field.name);
+    const change = findChange(changes, field.name);
+    let message: string | undefined;
+
+    if (!written) {
+      if (!('default' in field)) {
+        if (change?.type === 'rename_field') {
+          message = direction === 'backward'
+            ? `Field '${field.name}' was renamed from '${change.oldName}' and has no default`
+            : `Field '${field.name}' was renamed to '${change.newName}' and has no default`;
+        } else {
+          message = direction === 'backward'
+            ? `Field '${field.name}' was added without a default`
+            : `Field '${field.name}' was removed but has no default`;
+        }
+      }
+    } else if (!canReadAvro(field.type, written.type)) {
+      const [from, to] = direction === 'backward' ? [written, field] : [field, written];
+      message = `Field '${field.name}' changed from ${describe(from.type)} to ${describe(to.type)}`;
+    }
+
+    if (message !== undefined) {
+      const issue: AvroCompatibilityIssue = { field: field.name, direction, message };
+      if (change) {
+        issue.change = change;
+      }
+      issues.push(issue);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check whether a new version of a schema is compatible with an old version
+ * when both are exchanged as Avro.
+ *
+ * Both versions are converted with `schemaToAvro` and resolved against each
+ * other; `diffSchemas` identifies the change (including renames) behind
+ * each issue.
+ *
+ * - `backward`: the new schema can read data written with the old one.
+ *   Added fields need a default (optional fields default to `null`).
+ * - `forward`: the old schema can read data written with the new one.
+ *   Removed fields need a default in the old schema.
+ * - `full`: both.
+ *
+ * @param oldSchema - The current schema version
+ * @param newSchema - The proposed schema version
+ * @param mode - The compatibility mode to check (default: `backward`)
+ * @returns The compatibility result
+ *
+ * @example
+ * ```typescript
+ * const v1 = parseSchema({ $type: 'User', id: 'uuid!' });
+ * const v2 = parseSchema({ $type: 'User', id: 'uuid!', email: 'string!' });
+ *
+ * const result = checkAvroCompatibility(v1, v2, 'backward');
+ * result.compatible; // false
+ * result.issues[0].message; // "Field 'email' was added without a default"
+ * ```
+ */
+export function checkAvroCompatibility(
+  oldSchema: IceTypeSchema,
+  newSchema: IceTypeSchema,
+  mode: AvroCompatibilityMode = 'backward'
+): AvroCompatibilityResult {
+  const diff = diffSchemas(oldSchema, newSchema);
+  const oldRecord = schemaToAvro(oldSchema);
+  const newRecord = schemaToAvro(newSchema);
+
+  const issues: AvroCompatibilityIssue[] = [];
+  if (mode === 'backward' || mode === 'full') {
+    issues.push(...resolveFields(newRecord, oldRecord, 'backward', diff.changes));
+  }
+  if (mode === 'forward' || mode === 'full') {
+    issues.push(...resolveFields(oldRecord, newRecord, 'forward', diff.changes));
+  }
+
+  return { compatible: issues.length === 0, mode, issues, diff };
+}
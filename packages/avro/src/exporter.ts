@@ -0,0 +1,398 @@
+/**
+ * Avro Schema Exporter
+ *
+ * Generates Apache Avro record schemas (`.avsc`) from IceType schemas.
+ *
+ * @packageDocumentation
+ */
+
+import type { IceTypeSchema, FieldDefinition, SchemaAdapter } from '@icetype/core';
+
+import type {
+  AvroSchema,
+  AvroField,
+  AvroRecordSchema,
+  AvroExportOptions,
+} from './types.js';
+
+import { ICETYPE_TO_AVRO_MAP } from './types.js';
+
+import { VERSION } from './version.js';
+
+/** Precision and scale used for `decimal` fields declared without them */
+const DEFAULT_DECIMAL_PRECISION = 38;
+const DEFAULT_DECIMAL_SCALE = 9;
+
+/** Names and enum symbols must match this pattern in Avro */
+const AVRO_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * State shared while converting one top-level record.
+ *
+ * Avro requires each named type (record, enum, fixed) to be defined once;
+ * later uses refer to it by name.
+ */
+interface ConversionContext {
+  defined: Set<string>;
+}
+
+// =============================================================================
+// Type Mapping
+// =============================================================================
+
+/**
+ * Map an IceType primitive type to an Avro schema.
+ *
+ * Unknown types map to `string`.
+ *
+ * @param iceType - The IceType type string
+ * @returns The Avro schema
+ */
+export function mapIceTypeToAvro(iceType: string): AvroSchema {
+  const mapped = ICETYPE_TO_AVRO_MAP[iceType.toLowerCase()];
+  if (mapped === undefined) {
+    return 'string';
+  }
+  return typeof mapped === 'string' ? mapped : { ...mapped };
+}
+
+/**
+ * Get the Avro schema for a single value of a field, ignoring arrays and optionality.
+ */
+function valueSchema(field: FieldDefinition, scope: string, context: ConversionContext): AvroSchema {
+  if (field.relation) {
+    // Relations store the related record's ID
+    return 'string';
+  }
+
+  switch (field.type) {
+    case 'decimal':
+      return {
+        type: 'bytes',
+        logicalType: 'decimal',
+        precision: field.precision ?? DEFAULT_DECIMAL_PRECISION,
+        scale: field.precision !== undefined ? field.scale ?? 0 : DEFAULT_DECIMAL_SCALE,
+      };
+    case 'fixed': {
+      if (field.length === undefined) {
+        return 'bytes';
+      }
+      const name = `${scope}${pascalCase(field.name)}`;
+      if (context.defined.has(name)) {
+        return name;
+      }
+      context.defined.add(name);
+      return { type: 'fixed', name, size: field.length };
+    }
+    case 'enum': {
+      const { enumName, enumValues } = field;
+      if (!enumName || !enumValues || !enumValues.every((value) => AVRO_NAME_PATTERN.test(value))) {
+        // Avro enum symbols must be identifiers; other values are kept as strings
+        return 'string';
+      }
+      if (context.defined.has(enumName)) {
+        return enumName;
+      }
+      context.defined.add(enumName);
+      return { type: 'enum', name: enumName, symbols: [...enumValues] };
+    }
+    case 'struct': {
+      const { structName, structFields } = field;
+      if (!structName || !structFields) {
+        return 'string';
+      }
+      if (context.defined.has(structName)) {
+        return structName;
+      }
+      context.defined.add(structName);
+      return recordSchema(structName, structFields, context);
+    }
+    case 'list':
+      return { type: 'array', items: field.elementType ? mapIceTypeToAvro(field.elementType) : 'string' };
+    case 'map':
+      return { type: 'map', values: field.valueType ? mapIceTypeToAvro(field.valueType) : 'string' };
+    case 'ref':
+      return 'string';
+    default:
+      return mapIceTypeToAvro(field.type);
+  }
+}
+
+// =============================================================================
+// Defaults
+// =============================================================================
+
+/**
+ * Check whether a default value is a literal (not a function call like `now()`).
+ */
+function isLiteralDefault(value: unknown): boolean {
+  if (value === undefined) return false;
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    return !('function' in value);
+  }
+  return true;
+}
+
+/**
+ * Check whether a value is a valid Avro default for a schema.
+ *
+ * Defaults that Avro would encode differently from IceType (bytes, fixed,
+ * records and logical types other than `uuid`) are not emitted.
+ */
+function isValidDefault(value: unknown, schema: AvroSchema): boolean {
+  if (Array.isArray(schema)) {
+    // Union defaults must match the first branch
+    return schema[0] !== undefined && isValidDefault(value, schema[0]);
+  }
+  if (typeof schema === 'string') {
+    switch (schema) {
+      case 'null':
+        return value === null;
+      case 'boolean':
+        return typeof value === 'boolean';
+      case 'int':
+      case 'long':
+        return Number.isInteger(value);
+      case 'float':
+      case 'double':
+        return typeof value === 'number';
+      case 'string':
+        return typeof value === 'string';
+      default:
+        return false;
+    }
+  }
+  switch (schema.type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'enum':
+      return typeof value === 'string' && schema.symbols.includes(value);
+    case 'array':
+      return Array.isArray(value) && value.every((item) => isValidDefault(item, schema.items));
+    case 'map':
+      return (
+        typeof value === 'object' &&
+        value !== null &&
+        !Array.isArray(value) &&
+        Object.values(value).every((item) => isValidDefault(item, schema.values))
+      );
+    default:
+      return false;
+  }
+}
+
+// =============================================================================
+// Field Generation
+// =============================================================================
+
+/**
+ * Build an Avro field, or `undefined` for fields that are not stored.
+ */
+function avroField(field: FieldDefinition, scope: string, context: ConversionContext): AvroField | undefined {
+  const operator = field.relation?.operator;
+  if (operator === '<-' || operator === '<~') {
+    // Backward relations are derived from the other side and not stored
+    return undefined;
+  }
+
+  let type = valueSchema(field, scope, context);
+  if (field.isArray) {
+    type = { type: 'array', items: type };
+  }
+
+  const result: AvroField = { name: field.name, type };
+  const defaultValue = isLiteralDefault(field.defaultValue) ? field.defaultValue : undefined;
+  const hasDefault = defaultValue !== undefined && defaultValue !== null && isValidDefault(defaultValue, type);
+
+  if (field.isOptional) {
+    // A union's default must match its first branch, so null goes first unless
+    // the field has a non-null default
+    if (hasDefault) {
+      result.type = [type, 'null'];
+      result.default = defaultValue;
+    } else {
+      result.type = ['null', type];
+      result.default = null;
+    }
+  } else if (hasDefault) {
+    result.default = defaultValue;
+  }
+
+  return result;
+}
+
+/**
+ * Convert an IceType field definition to an Avro field.
+ *
+ * Optional fields become unions with `null`. Backward relations (`<-`, `<~`)
+ * are not stored in Avro records and return `undefined`.
+ *
+ * @param field - The IceType field definition
+ * @returns The Avro field, or `undefined` if the field is not stored
+ */
+export function fieldToAvroField(field: FieldDefinition): AvroField | undefined {
+  return avroField(field, '', { defined: new Set() });
+}
+
+// =============================================================================
+// Schema Generation
+// =============================================================================
+
+/**
+ * Build an Avro record from a list of fields.
+ */
+function recordSchema(
+  name: string,
+  fields: Iterable<FieldDefinition>,
+  context: ConversionContext
+): AvroRecordSchema {
+  const avroFields: AvroField[] = [];
+  for (const field of fields) {
+    const converted = avroField(field, name, context);
+    if (converted) {
+      avroFields.push(converted);
+    }
+  }
+  return { type: 'record', name, fields: avroFields };
+}
+
+/**
+ * Convert an IceType schema to an Avro record schema.
+ *
+ * @param schema - The IceType schema to convert
+ * @param options - Export options
+ * @returns The Avro record schema
+ *
+ * @example
+ * ```typescript
+ * const record = schemaToAvro(parseSchema({
+ *   $type: 'User',
+ *   id: 'uuid!',
+ *   age: 'int?',
+ * }), { namespace: 'com.example' });
+ * // {
+ * //   type: 'record',
+ * //   name: 'User',
+ * //   namespace: 'com.example',
+ * //   fields: [
+ * //     { name: 'id', type: { type: 'string', logicalType: 'uuid' } },
+ * //     { name: 'age', type: ['null', 'int'], default: null },
+ * //   ],
+ * // }
+ * ```
+ */
+export function schemaToAvro(schema: IceTypeSchema, options: AvroExportOptions = {}): AvroRecordSchema {
+  const context: ConversionContext = { defined: new Set([schema.name]) };
+
+  const { fields } = recordSchema(schema.name, schema.fields.values(), context);
+
+  return {
+    type: 'record',
+    name: schema.name,
+    ...(options.namespace ? { namespace: options.namespace } : {}),
+    ...(options.doc ? { doc: options.doc } : {}),
+    fields,
+  };
+}
+
+/**
+ * Convert several IceType schemas to Avro record schemas.
+ *
+ * Each record is self-contained, so it can be registered or written to
+ * its own `.avsc` file.
+ *
+ * @param schemas - The IceType schemas to convert
+ * @param options - Export options
+ * @returns One Avro record schema per IceType schema
+ */
+export function generateAvroSchemas(
+  schemas: IceTypeSchema[],
+  options: AvroExportOptions = {}
+): AvroRecordSchema[] {
+  return schemas.map((schema) => schemaToAvro(schema, options));
+}
+
+/**
+ * Serialize an Avro schema as `.avsc` JSON.
+ *
+ * @param schema - The Avro schema to serialize
+ * @returns Pretty-printed JSON with a trailing newline
+ */
+export function serializeAvroSchema(schema: AvroSchema): string {
+  return JSON.stringify(schema, null, 2) + '\n';
+}
+
+/**
+ * Convert a field name to PascalCase for generated type names.
+ */
+function pascalCase(name: string): string {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+// =============================================================================
+// Avro Adapter Class
+// =============================================================================
+
+/**
+ * Adapter for transforming IceType schemas to Avro record schemas.
+ *
+ * Implements the SchemaAdapter interface for consistency with other adapters.
+ *
+ * @example
+ * ```typescript
+ * import { parseSchema } from '@icetype/core';
+ * import { AvroAdapter } from '@icetype/avro';
+ *
+ * const schema = parseSchema({
+ *   $type: 'User',
+ *   id: 'uuid!',
+ *   email: 'string#',
+ * });
+ *
+ * const adapter = new AvroAdapter();
+ * const record = adapter.transform(schema, { namespace: 'com.example' });
+ * const avsc = adapter.serialize(record);
+ * ```
+ */
+export class AvroAdapter implements SchemaAdapter<AvroRecordSchema, AvroExportOptions> {
+  readonly name = 'avro';
+  readonly version = VERSION;
+
+  /**
+   * Transform an IceType schema to an Avro record schema.
+   *
+   * @param schema - The IceType schema to transform
+   * @param options - Optional Avro export options
+   * @returns Avro record schema
+   */
+  transform(schema: IceTypeSchema, options?: AvroExportOptions): AvroRecordSchema {
+    return schemaToAvro(schema, options);
+  }
+
+  /**
+   * Serialize an Avro record schema to `.avsc` JSON.
+   *
+   * @param output - The Avro record schema to serialize
+   * @returns Pretty-printed JSON
+   */
+  serialize(output: AvroRecordSchema): string {
+    return serializeAvroSchema(output);
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+/**
+ * Create a new Avro adapter instance.
+ *
+ * @returns A new AvroAdapter instance
+ */
+export function createAvroAdapter(): AvroAdapter {
+  return new AvroAdapter();
+}
@@ -0,0 +1,102 @@
+/**
+ * @icetype/avro
+ *
+ * Apache Avro adapter for IceType.
+ *
+ * This package provides functionality to:
+ * - Generate Avro record schemas (`.avsc`) from IceType schemas
+ * - Check backward/forward/full compatibility between two schema versions
+ *
+ * @example Generate an Avro schema
+ * ```typescript
+ * import { parseSchema } from '@icetype/core';
+ * import { schemaToAvro, serializeAvroSchema } from '@icetype/avro';
+ *
+ * const record = schemaToAvro(parseSchema({
+ *   $type: 'OrderPlaced',
+ *   id: 'uuid!',
+ *   total: 'decimal(10,2)!',
+ *   placedAt: 'timestamp!',
+ *   note: 'string?',
+ * }), { namespace: 'com.example.orders' });
+ *
+ * console.log(serializeAvroSchema(record));
+ * ```
+ *
+ * @example Check compatibility
+ * ```typescript
+ * import { checkAvroCompatibility } from '@icetype/avro';
+ *
+ * const result = checkAvroCompatibility(v1, v2, 'full');
+ * if (!result.compatible) {
+ *   for (const issue of result.issues) console.error(issue.message);
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type {
+  // Avro schema types
+  AvroPrimitiveType,
+  AvroLogicalSchema,
+  AvroField,
+  AvroRecordSchema,
+  AvroEnumSchema,
+  AvroFixedSchema,
+  AvroArraySchema,
+  AvroMapSchema,
+  AvroSchema,
+  // Export options
+  AvroExportOptions,
+  // Compatibility
+  AvroCompatibilityMode,
+  AvroCompatibilityIssue,
+  AvroCompatibilityResult,
+  // Mapping config
+  AvroTypeMappingConfig,
+} from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export {
+  ICETYPE_TO_AVRO_MAPPINGS,
+  ICETYPE_TO_AVRO_MAP,
+  AVRO_PROMOTIONS,
+} from './types.js';
+
+// =============================================================================
+// Export Functions (IceType -> Avro)
+// =============================================================================
+
+export {
+  // Type mapping functions
+  mapIceTypeToAvro,
+
+  // Field generation
+  fieldToAvroField,
+
+  // Schema generation
+  schemaToAvro,
+  generateAvroSchemas,
+  serializeAvroSchema,
+
+  // Adapter class and factory
+  AvroAdapter,
+  createAvroAdapter,
+} from './exporter.js';
+
+// =============================================================================
+// Compatibility
+// =============================================================================
+
+export {
+  canReadAvro,
+  checkAvroCompatibility,
+} from './compatibility.js';
@@ -0,0 +1,232 @@
+/**
+ * Type definitions for Apache Avro schema generation
+ *
+ * @packageDocumentation
+ */
+
+import type { SchemaChange, SchemaDiff } from '@icetype/core';
+
+// =============================================================================
+// Avro Schema Types
+// =============================================================================
+
+/**
+ * Avro primitive type names
+ */
+export type AvroPrimitiveType =
+  | 'null'
+  | 'boolean'
+  | 'int'
+  | 'long'
+  | 'float'
+  | 'double'
+  | 'bytes'
+  | 'string';
+
+/**
+ * A primitive annotated with an Avro logical type
+ * (e.g. `{ type: 'long', logicalType: 'timestamp-micros' }`)
+ */
+export interface AvroLogicalSchema {
+  type: 'int' | 'long' | 'bytes' | 'string';
+  logicalType: string;
+  /** Total digits, for `decimal` */
+  precision?: number;
+  /** Fractional digits, for `decimal` */
+  scale?: number;
+}
+
+/**
+ * A field of an Avro record
+ */
+export interface AvroField {
+  name: string;
+  type: AvroSchema;
+  doc?: string;
+  /** Value used when reading data written without this field */
+  default?: unknown;
+  aliases?: string[];
+}
+
+/**
+ * An Avro record
+ */
+export interface AvroRecordSchema {
+  type: 'record';
+  name: string;
+  namespace?: string;
+  doc?: string;
+  aliases?: string[];
+  fields: AvroField[];
+}
+
+/**
+ * An Avro enum
+ */
+export interface AvroEnumSchema {
+  type: 'enum';
+  name: string;
+  namespace?: string;
+  symbols: string[];
+  default?: string;
+}
+
+/**
+ * An Avro fixed-size byte sequence
+ */
+export interface AvroFixedSchema {
+  type: 'fixed';
+  name: string;
+  namespace?: string;
+  size: number;
+}
+
+/**
+ * An Avro array
+ */
+export interface AvroArraySchema {
+  type: 'array';
+  items: AvroSchema;
+}
+
+/**
+ * An Avro map (keys are always strings)
+ */
+export interface AvroMapSchema {
+  type: 'map';
+  values: AvroSchema;
+}
+
+/**
+ * Any Avro schema.
+ *
+ * A string is either a primitive type name or a reference to a named type
+ * (record, enum or fixed) defined earlier in the same schema. An array is a union.
+ */
+export type AvroSchema =
+  | AvroPrimitiveType
+  | string
+  | AvroLogicalSchema
+  | AvroRecordSchema
+  | AvroEnumSchema
+  | AvroFixedSchema
+  | AvroArraySchema
+  | AvroMapSchema
+  | AvroSchema[];
+
+// =============================================================================
+// Export Options
+// =============================================================================
+
+/**
+ * Options for Avro schema generation
+ */
+export interface AvroExportOptions {
+  /**
+   * Namespace of the generated record (e.g. `com.example.events`)
+   */
+  namespace?: string;
+
+  /**
+   * Optional doc string for the generated record
+   */
+  doc?: string;
+}
+
+// =============================================================================
+// Compatibility
+// =============================================================================
+
+/**
+ * Schema compatibility mode, following the Confluent Schema Registry definitions
+ *
+ * - `backward`: consumers using the new schema can read data written with the old one
+ * - `forward`: consumers using the old schema can read data written with the new one
+ * - `full`: both backward and forward
+ */
+export type AvroCompatibilityMode = 'backward' | 'forward' | 'full';
+
+/**
+ * A single reason two schema versions are incompatible
+ */
+export interface AvroCompatibilityIssue {
+  /** Name of the field in the reader's schema */
+  field: string;
+  /** Which direction of the check failed */
+  direction: 'backward' | 'forward';
+  /** Human-readable description */
+  message: string;
+  /** The schema diff change that caused the issue, when there is one */
+  change?: SchemaChange;
+}
+
+/**
+ * Result of an Avro compatibility check
+ */
+export interface AvroCompatibilityResult {
+  /** Whether the new schema is compatible in the requested mode */
+  compatible: boolean;
+  /** The mode that was checked */
+  mode: AvroCompatibilityMode;
+  /** Reasons the schemas are incompatible (empty when compatible) */
+  issues: AvroCompatibilityIssue[];
+  /** The underlying IceType schema diff */
+  diff: SchemaDiff;
+}
+
+// =============================================================================
+// Type Mapping
+// =============================================================================
+
+/**
+ * Mapping configuration between IceType primitives and Avro
+ */
+export interface AvroTypeMappingConfig {
+  /** IceType primitive type */
+  icetype: string;
+  /** Corresponding Avro schema */
+  avro: AvroPrimitiveType | AvroLogicalSchema;
+}
+
+/**
+ * Mapping table for IceType primitive types to Avro
+ */
+export const ICETYPE_TO_AVRO_MAPPINGS: AvroTypeMappingConfig[] = [
+  { icetype: 'string', avro: 'string' },
+  { icetype: 'text', avro: 'string' },
+  { icetype: 'varchar', avro: 'string' },
+  { icetype: 'char', avro: 'string' },
+  { icetype: 'json', avro: 'string' },
+  { icetype: 'uuid', avro: { type: 'string', logicalType: 'uuid' } },
+  { icetype: 'int', avro: 'int' },
+  { icetype: 'long', avro: 'long' },
+  { icetype: 'bigint', avro: 'long' },
+  { icetype: 'float', avro: 'float' },
+  { icetype: 'double', avro: 'double' },
+  { icetype: 'bool', avro: 'boolean' },
+  { icetype: 'boolean', avro: 'boolean' },
+  { icetype: 'timestamp', avro: { type: 'long', logicalType: 'timestamp-micros' } },
+  { icetype: 'timestamptz', avro: { type: 'long', logicalType: 'timestamp-micros' } },
+  { icetype: 'date', avro: { type: 'int', logicalType: 'date' } },
+  { icetype: 'time', avro: { type: 'long', logicalType: 'time-micros' } },
+  { icetype: 'binary', avro: 'bytes' },
+];
+
+/**
+ * Map of IceType primitive types to Avro
+ */
+export const ICETYPE_TO_AVRO_MAP: Record<string, AvroPrimitiveType | AvroLogicalSchema> = Object.fromEntries(
+  ICETYPE_TO_AVRO_MAPPINGS.map((m) => [m.icetype, m.avro])
+);
+
+/**
+ * Avro type promotions: a writer's primitive type mapped to the reader
+ * types that can read it (Avro specification, "Schema Resolution")
+ */
+export const AVRO_PROMOTIONS: Record<string, readonly string[]> = {
+  int: ['long', 'float', 'double'],
+  long: ['float', 'double'],
+  float: ['double'],
+  string: ['bytes'],
+  bytes: ['string'],
+};
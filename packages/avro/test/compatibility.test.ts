@@ -0,0 +1,155 @@
+/**
+ * Tests for Avro schema compatibility checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSchema } from '@icetype/core';
+
+import { canReadAvro, checkAvroCompatibility } from '../src/index.js';
+
+const v1 = parseSchema({ $type: 'User', id: 'uuid!', name: 'string!', age: 'int?' });
+
+// =============================================================================
+// Schema Resolution
+// =============================================================================
+
+describe('canReadAvro', () => {
+  it('should allow identical types and promotions', () => {
+    expect(canReadAvro('long', 'long')).toBe(true);
+    expect(canReadAvro('long', 'int')).toBe(true);
+    expect(canReadAvro('double', 'float')).toBe(true);
+    expect(canReadAvro('string', 'bytes')).toBe(true);
+    expect(canReadAvro('int', 'long')).toBe(false);
+    expect(canReadAvro('string', 'int')).toBe(false);
+  });
+
+  it('should resolve logical types by their underlying type', () => {
+    expect(canReadAvro('string', { type: 'string', logicalType: 'uuid' })).toBe(true);
+    expect(canReadAvro({ type: 'long', logicalType: 'timestamp-micros' }, { type: 'int', logicalType: 'date' })).toBe(true);
+  });
+
+  it('should resolve unions', () => {
+    expect(canReadAvro(['null', 'string'], 'string')).toBe(true);
+    expect(canReadAvro('string', ['null', 'string'])).toBe(false);
+    expect(canReadAvro(['null', 'long'], ['null', 'int'])).toBe(true);
+  });
+
+  it('should require the reader to know every enum symbol', () => {
+    const writer = { type: 'enum' as const, name: 'Status', symbols: ['a', 'b'] };
+    expect(canReadAvro({ type: 'enum', name: 'Status', symbols: ['a', 'b', 'c'] }, writer)).toBe(true);
+    expect(canReadAvro({ type: 'enum', name: 'Status', symbols: ['a'] }, writer)).toBe(false);
+    expect(canReadAvro({ type: 'enum', name: 'Status', symbols: ['a'], default: 'a' }, writer)).toBe(true);
+  });
+
+  it('should resolve nested records field by field', () => {
+    const writer = { type: 'record' as const, name: 'Address', fields: [{ name: 'city', type: 'string' }] };
+    expect(canReadAvro({
+      type: 'record',
+      name: 'Address',
+      fields: [{ name: 'city', type: 'string' }, { name: 'zip', type: ['null', 'string'], default: null }],
+    }, writer)).toBe(true);
+    expect(canReadAvro({
+      type: 'record',
+      name: 'Address',
+      fields: [{ name: 'city', type: 'string' }, { name: 'zip', type: 'string' }],
+    }, writer)).toBe(false);
+  });
+});
+
+// =============================================================================
+// Compatibility Modes
+// =============================================================================
+
+describe('checkAvroCompatibility', () => {
+  it('should accept identical schemas in every mode', () => {
+    for (const mode of ['backward', 'forward', 'full'] as const) {
+      expect(checkAvroCompatibility(v1, v1, mode).compatible).toBe(true);
+    }
+  });
+
+  it('should default to backward mode', () => {
+    expect(checkAvroCompatibility(v1, v1).mode).toBe('backward');
+  });
+
+  it('should allow adding an optional field in full mode', () => {
+    const v2 = parseSchema({ $type: 'User', id: 'uuid!', name: 'string!', age: 'int?', nick: 'string?' });
+    expect(checkAvroCompatibility(v1, v2, 'full').compatible).toBe(true);
+  });
+
+  it('should reject adding a required field without a default in backward mode', () => {
+    const v2 = parseSchema({ $type: 'User', id: 'uuid!', name: 'string!', age: 'int?', email: 'string!' });
+
+    const result = checkAvroCompatibility(v1, v2, 'backward');
+    expect(result.compatible).toBe(false);
+    expect(result.issues).toEqual([{
+      field: 'email',
+      direction: 'backward',
+      message: "Field 'email' was added without a default",
+      change: expect.objectContaining({ type: 'add_field', field: 'email' }),
+    }]);
+    expect(checkAvroCompatibility(v1, v2, 'forward').compatible).toBe(true);
+  });
+
+  it('should accept a required field with a default in backward mode', () => {
+    const v2 = parseSchema({ $type: 'User', id: 'uuid!', name: 'string!', age: 'int?', role: 'string = "member"' });
+    expect(checkAvroCompatibility(v1, v2, 'full').compatible).toBe(true);
+  });
+
+  it('should reject removing a field without a default in forward mode', () => {
+    const v2 = parseSchema({ $type: 'User', id: 'uuid!', age: 'int?' });
+
+    expect(checkAvroCompatibility(v1, v2, 'backward').compatible).toBe(true);
+    const result = checkAvroCompatibility(v1, v2, 'forward');
+    expect(result.compatible).toBe(false);
+    expect(result.issues[0]?.message).toBe("Field 'name' was removed but has no default");
+    expect(result.issues[0]?.change?.type).toBe('remove_field');
+  });
+
+  it('should allow removing an optional field in full mode', () => {
+    const v2 = parseSchema({ $type: 'User', id: 'uuid!', name: 'string!' });
+    expect(checkAvroCompatibility(v1, v2, 'full').compatible).toBe(true);
+  });
+
+  it('should follow type promotion rules', () => {
+    const v2 = parseSchema({ $type: 'User', id: 'uuid!', name: 'string!', age: 'long?' });
+
+    expect(checkAvroCompatibility(v1, v2, 'backward').compatible).toBe(true);
+    const result = checkAvroCompatibility(v1, v2, 'forward');
+    expect(result.compatible).toBe(false);
+    expect(result.issues[0]?.message).toBe("Field 'age' changed from null | int to null | long");
+    expect(result.issues[0]?.change?.type).toBe('change_type');
+  });
+
+  it('should treat making a field optional as backward but not forward compatible', () => {
+    const v2 = parseSchema({ $type: 'User', id: 'uuid!', name: 'string?', age: 'int?' });
+
+    expect(checkAvroCompatibility(v1, v2, 'backward').compatible).toBe(true);
+    expect(checkAvroCompatibility(v1, v2, 'forward').issues[0]?.change?.type).toBe('change_modifier');
+  });
+
+  it('should report renames detected by diffSchemas', () => {
+    const v2 = parseSchema({ $type: 'User', id: 'uuid!', fullName: 'string!', age: 'int?' });
+
+    const result = checkAvroCompatibility(v1, v2, 'full');
+    expect(result.diff.changes).toContainEqual({ type: 'rename_field', oldName: 'name', newName: 'fullName' });
+    expect(result.issues.map((issue) => issue.message)).toEqual([
+      "Field 'fullName' was renamed from 'name' and has no default",
+      "Field 'name' was renamed to 'fullName' and has no default",
+    ]);
+  });
+
+  it('should report removed enum symbols', () => {
+    const before = parseSchema({ $type: 'Order', $enums: { Status: ['pending', 'shipped'] }, status: 'enum<Status>' });
+    const after = parseSchema({ $type: 'Order', $enums: { Status: ['pending'] }, status: 'enum<Status>' });
+
+    expect(checkAvroCompatibility(before, after, 'backward').compatible).toBe(false);
+    expect(checkAvroCompatibility(before, after, 'forward').compatible).toBe(true);
+  });
+
+  it('should ignore changes to fields Avro does not store', () => {
+    const before = parseSchema({ $type: 'Post', id: 'uuid!', comments: '<- Comment.post[]' });
+    const after = parseSchema({ $type: 'Post', id: 'uuid!' });
+
+    expect(checkAvroCompatibility(before, after, 'full').compatible).toBe(true);
+  });
+});
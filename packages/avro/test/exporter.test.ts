@@ -0,0 +1,244 @@
+/**
+ * Tests for Avro schema generation
+ *
+ * Tests the conversion of IceType schemas to Avro record schemas.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSchema } from '@icetype/core';
+
+import {
+  schemaToAvro,
+  generateAvroSchemas,
+  fieldToAvroField,
+  serializeAvroSchema,
+  mapIceTypeToAvro,
+  AvroAdapter,
+  createAvroAdapter,
+} from '../src/index.js';
+
+function fieldsOf(definition: Record<string, unknown>) {
+  return schemaToAvro(parseSchema({ $type: 'Test', ...definition })).fields;
+}
+
+// =============================================================================
+// Type Mapping
+// =============================================================================
+
+describe('type mapping', () => {
+  it('should map primitive types', () => {
+    const fields = fieldsOf({
+      s: 'string!',
+      t: 'text!',
+      i: 'int!',
+      l: 'long!',
+      b: 'bigint!',
+      f: 'float!',
+      d: 'double!',
+      flag: 'bool!',
+      blob: 'binary!',
+      payload: 'json!',
+    });
+
+    expect(fields.map((f) => f.type)).toEqual([
+      'string', 'string', 'int', 'long', 'long', 'float', 'double', 'boolean', 'bytes', 'string',
+    ]);
+  });
+
+  it('should use logical types', () => {
+    const fields = fieldsOf({
+      id: 'uuid!',
+      createdAt: 'timestamp!',
+      updatedAt: 'timestamptz!',
+      day: 'date!',
+      at: 'time!',
+      price: 'decimal(10,2)!',
+      amount: 'decimal!',
+    });
+
+    expect(fields.map((f) => f.type)).toEqual([
+      { type: 'string', logicalType: 'uuid' },
+      { type: 'long', logicalType: 'timestamp-micros' },
+      { type: 'long', logicalType: 'timestamp-micros' },
+      { type: 'int', logicalType: 'date' },
+      { type: 'long', logicalType: 'time-micros' },
+      { type: 'bytes', logicalType: 'decimal', precision: 10, scale: 2 },
+      { type: 'bytes', logicalType: 'decimal', precision: 38, scale: 9 },
+    ]);
+  });
+
+  it('should map fixed to a named fixed type', () => {
+    expect(fieldsOf({ hash: 'fixed(16)!' })[0]?.type).toEqual({ type: 'fixed', name: 'TestHash', size: 16 });
+  });
+
+  it('should map unknown types to string', () => {
+    expect(mapIceTypeToAvro('geometry')).toBe('string');
+  });
+});
+
+// =============================================================================
+// Optional Fields and Defaults
+// =============================================================================
+
+describe('optional fields and defaults', () => {
+  it('should represent optional fields as unions with null', () => {
+    expect(fieldsOf({ name: 'string?' })).toEqual([
+      { name: 'name', type: ['null', 'string'], default: null },
+    ]);
+  });
+
+  it('should put the default branch first in optional unions', () => {
+    expect(fieldsOf({ status: 'string? = "active"' })).toEqual([
+      { name: 'status', type: ['string', 'null'], default: 'active' },
+    ]);
+  });
+
+  it('should emit literal defaults on required fields', () => {
+    expect(fieldsOf({ count: 'int = 0', active: 'bool = true' })).toEqual([
+      { name: 'count', type: 'int', default: 0 },
+      { name: 'active', type: 'boolean', default: true },
+    ]);
+  });
+
+  it('should skip defaults Avro cannot represent', () => {
+    const fields = fieldsOf({ createdAt: 'timestamp = now()', ratio: 'int = 1.5' });
+
+    expect(fields[0]).not.toHaveProperty('default');
+    expect(fields[1]).not.toHaveProperty('default');
+  });
+});
+
+// =============================================================================
+// Generic, Enum and Struct Types
+// =============================================================================
+
+describe('complex types', () => {
+  it('should use arrays and maps for generic types', () => {
+    const fields = fieldsOf({
+      tags: 'string[]',
+      scores: 'list<double>',
+      counts: 'map<string, int>',
+    });
+
+    expect(fields.map((f) => f.type)).toEqual([
+      { type: 'array', items: 'string' },
+      { type: 'array', items: 'double' },
+      { type: 'map', values: 'int' },
+    ]);
+  });
+
+  it('should emit enums once and reference them by name', () => {
+    const fields = fieldsOf({
+      $enums: { Status: ['pending', 'shipped'] },
+      status: 'enum<Status> = "pending"',
+      previous: 'enum<Status>?',
+    });
+
+    expect(fields).toEqual([
+      {
+        name: 'status',
+        type: { type: 'enum', name: 'Status', symbols: ['pending', 'shipped'] },
+        default: 'pending',
+      },
+      { name: 'previous', type: ['null', 'Status'], default: null },
+    ]);
+  });
+
+  it('should fall back to string for enum values that are not Avro symbols', () => {
+    expect(fieldsOf({ $enums: { Size: ['x-small', 'large'] }, size: 'enum<Size>' })[0]?.type).toBe('string');
+  });
+
+  it('should emit nested records for structs', () => {
+    const fields = fieldsOf({
+      $structs: { Address: { city: 'string!', zip: 'string?' } },
+      shipping: 'struct<Address>',
+      billing: 'struct<Address>?',
+    });
+
+    expect(fields).toEqual([
+      {
+        name: 'shipping',
+        type: {
+          type: 'record',
+          name: 'Address',
+          fields: [
+            { name: 'city', type: 'string' },
+            { name: 'zip', type: ['null', 'string'], default: null },
+          ],
+        },
+      },
+      { name: 'billing', type: ['null', 'Address'], default: null },
+    ]);
+  });
+});
+
+// =============================================================================
+// Relations
+// =============================================================================
+
+describe('relations', () => {
+  it('should store forward relations as IDs and skip backward relations', () => {
+    const fields = fieldsOf({
+      author: '-> User',
+      reviewers: '-> User[]',
+      comments: '<- Comment.post[]',
+    });
+
+    expect(fields).toEqual([
+      { name: 'author', type: 'string' },
+      { name: 'reviewers', type: { type: 'array', items: 'string' } },
+    ]);
+  });
+
+  it('should return undefined from fieldToAvroField for backward relations', () => {
+    const schema = parseSchema({ $type: 'Post', comments: '<- Comment.post[]' });
+    expect(fieldToAvroField(schema.fields.get('comments')!)).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// Records
+// =============================================================================
+
+describe('records', () => {
+  const user = parseSchema({ $type: 'User', id: 'uuid!' });
+
+  it('should set namespace and doc', () => {
+    expect(schemaToAvro(user, { namespace: 'com.example', doc: 'A user' })).toEqual({
+      type: 'record',
+      name: 'User',
+      namespace: 'com.example',
+      doc: 'A user',
+      fields: [{ name: 'id', type: { type: 'string', logicalType: 'uuid' } }],
+    });
+  });
+
+  it('should generate one self-contained record per schema', () => {
+    const post = parseSchema({ $type: 'Post', $enums: { Kind: ['draft'] }, kind: 'enum<Kind>' });
+    const comment = parseSchema({ $type: 'Comment', $enums: { Kind: ['draft'] }, kind: 'enum<Kind>' });
+
+    const records = generateAvroSchemas([post, comment]);
+    expect(records.map((r) => r.name)).toEqual(['Post', 'Comment']);
+    expect(records[1]?.fields[0]?.type).toEqual({ type: 'enum', name: 'Kind', symbols: ['draft'] });
+  });
+
+  it('should serialize with a trailing newline', () => {
+    expect(serializeAvroSchema('string')).toBe('"string"\n');
+  });
+});
+
+// =============================================================================
+// Adapter
+// =============================================================================
+
+describe('AvroAdapter', () => {
+  it('should implement the SchemaAdapter interface', () => {
+    const adapter = createAvroAdapter();
+    const schema = parseSchema({ $type: 'User', id: 'uuid!' });
+
+    expect(adapter).toBeInstanceOf(AvroAdapter);
+    expect(adapter.name).toBe('avro');
+    expect(adapter.transform(schema, { namespace: 'com.example' }).namespace).toBe('com.example');
+    expect(JSON.parse(adapter.serialize(adapter.transform(schema)))).toEqual(schemaToAvro(schema));
+  });
+});
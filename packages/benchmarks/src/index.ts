@@ -8,6 +8,7 @@
  * - Benchmark tests for parsing operations
  * - Benchmark tests for SQL generation
  * - Benchmark tests for diff computation
+ * - Benchmark tests for document validation
  *
  * Run benchmarks with:
  * ```
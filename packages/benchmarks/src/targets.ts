@@ -77,6 +77,21 @@ export const DIFF_TARGETS = {
   highChurn100Fields: 10,
 } as const;
 
+// =============================================================================
+// Document Validation Performance Targets
+// =============================================================================
+
+export const VALIDATOR_TARGETS = {
+  /** Maximum time (ms) to compile a validator for a 20-field schema */
+  compile20Fields: 1,
+
+  /** Maximum time (ms) to validate one document of a 20-field schema */
+  document20Fields: 0.05,
+
+  /** Maximum time (ms) to validate 10,000 documents of a 20-field schema */
+  batch10000Documents: 100,
+} as const;
+
 // =============================================================================
 // Memory Targets
 // =============================================================================
@@ -97,6 +112,7 @@ export const BENCHMARK_TARGETS = {
   parser: PARSER_TARGETS,
   generation: GENERATION_TARGETS,
   diff: DIFF_TARGETS,
+  validator: VALIDATOR_TARGETS,
   memory: MEMORY_TARGETS,
 } as const;
 
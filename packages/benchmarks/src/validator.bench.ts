@@ -0,0 +1,102 @@
+/**
+ * Document Validation Performance Benchmarks (vitest bench mode)
+ *
+ * Run with: pnpm --filter @icetype/benchmarks bench
+ *
+ * These benchmarks measure compiling validators and validating documents,
+ * the per-row cost paid by ingestion workers.
+ * For target-based tests, see validator.test.ts
+ *
+ * @packageDocumentation
+ */
+
+import { describe, bench } from 'vitest';
+import { parseSchema, compileValidator, validateDocument } from '@icetype/core';
+import type { SchemaDefinition } from '@icetype/core';
+
+// =============================================================================
+// Test Data Generators
+// =============================================================================
+
+const FIELD_TYPES = ['uuid!', 'string', 'int?', 'decimal(10,2)', 'varchar(64)', 'bool?', 'timestamp?', 'string[]?'];
+
+/**
+ * Generate a schema definition with n fields cycling through common types
+ */
+function generateSchema(entityName: string, fieldCount: number): SchemaDefinition {
+  const schema: SchemaDefinition = {
+    $type: entityName,
+  };
+
+  for (let i = 0; i < fieldCount; i++) {
+    schema[`field${i}`] = FIELD_TYPES[i % FIELD_TYPES.length];
+  }
+
+  return schema;
+}
+
+/**
+ * Generate a document that conforms to generateSchema(n)
+ */
+function generateDocument(fieldCount: number, seed: number): Record<string, unknown> {
+  const values = [
+    '550e8400-e29b-41d4-a716-446655440000',
+    `name-${seed}`,
+    seed,
+    '1234.56',
+    `code-${seed}`,
+    seed % 2 === 0,
+    '2024-01-01T00:00:00Z',
+    ['a', 'b', 'c'],
+  ];
+  const doc: Record<string, unknown> = {};
+  for (let i = 0; i < fieldCount; i++) {
+    doc[`field${i}`] = values[i % values.length];
+  }
+  return doc;
+}
+
+// =============================================================================
+// Vitest Benchmarks
+// =============================================================================
+
+describe('Document Validation Benchmarks', () => {
+  const schema20 = parseSchema(generateSchema('Row20', 20));
+  const schema100 = parseSchema(generateSchema('Row100', 100));
+  const validate20 = compileValidator(schema20);
+  const validate100 = compileValidator(schema100);
+  const doc20 = generateDocument(20, 1);
+  const doc100 = generateDocument(100, 1);
+  const invalidDoc20 = { ...doc20, field0: 'not-a-uuid', field2: 'NaN' };
+
+  bench('compileValidator (20 fields)', () => {
+    compileValidator(schema20);
+  });
+
+  bench('compiled validator (20 fields)', () => {
+    validate20(doc20);
+  });
+
+  bench('compiled validator (100 fields)', () => {
+    validate100(doc100);
+  });
+
+  bench('compiled validator with errors (20 fields)', () => {
+    validate20(invalidDoc20);
+  });
+
+  bench('validateDocument (20 fields)', () => {
+    validateDocument(schema20, doc20);
+  });
+});
+
+describe('Batch Validation Benchmarks', () => {
+  const validate20 = compileValidator(parseSchema(generateSchema('Row20', 20)));
+  const docs = Array.from({ length: 10000 }, (_, i) => generateDocument(20, i));
+
+  bench('validate 10,000 documents (20 fields)', () => {
+    for (const doc of docs) {
+      validate20(doc);
+    }
+  });
+});
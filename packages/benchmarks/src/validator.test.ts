@@ -0,0 +1,111 @@
+/**
+ * Document Validation Performance Target Tests
+ *
+ * These tests assert that compiled validators are fast enough for
+ * per-row use in ingestion workers.
+ *
+ * Performance Targets:
+ * - Compile a 20-field validator: < 1ms
+ * - Validate one 20-field document: < 0.05ms
+ * - Validate 10,000 documents: < 100ms total
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSchema, compileValidator } from '@icetype/core';
+import type { SchemaDefinition } from '@icetype/core';
+import { VALIDATOR_TARGETS } from './targets.js';
+
+// =============================================================================
+// Test Data Generators
+// =============================================================================
+
+const FIELD_TYPES = ['uuid!', 'string', 'int?', 'decimal(10,2)', 'varchar(64)', 'bool?', 'timestamp?', 'string[]?'];
+
+/**
+ * Generate a schema definition with n fields cycling through common types
+ */
+function generateSchema(entityName: string, fieldCount: number): SchemaDefinition {
+  const schema: SchemaDefinition = {
+    $type: entityName,
+  };
+
+  for (let i = 0; i < fieldCount; i++) {
+    schema[`field${i}`] = FIELD_TYPES[i % FIELD_TYPES.length];
+  }
+
+  return schema;
+}
+
+/**
+ * Generate a document that conforms to generateSchema(n)
+ */
+function generateDocument(fieldCount: number, seed: number): Record<string, unknown> {
+  const values = [
+    '550e8400-e29b-41d4-a716-446655440000',
+    `name-${seed}`,
+    seed,
+    '1234.56',
+    `code-${seed}`,
+    seed % 2 === 0,
+    '2024-01-01T00:00:00Z',
+    ['a', 'b', 'c'],
+  ];
+  const doc: Record<string, unknown> = {};
+  for (let i = 0; i < fieldCount; i++) {
+    doc[`field${i}`] = values[i % values.length];
+  }
+  return doc;
+}
+
+// =============================================================================
+// Performance Target Tests
+// =============================================================================
+
+describe('Document Validation Performance Targets', () => {
+  const schema = parseSchema(generateSchema('Row20', 20));
+
+  it(`should compile a 20-field validator in < ${VALIDATOR_TARGETS.compile20Fields}ms`, () => {
+    const iterations = 100;
+
+    const start = performance.now();
+    for (let i = 0; i < iterations; i++) {
+      compileValidator(schema);
+    }
+    const elapsed = performance.now() - start;
+    const avgTime = elapsed / iterations;
+
+    expect(avgTime).toBeLessThan(VALIDATOR_TARGETS.compile20Fields);
+  });
+
+  it(`should validate a 20-field document in < ${VALIDATOR_TARGETS.document20Fields}ms`, () => {
+    const validate = compileValidator(schema);
+    const doc = generateDocument(20, 1);
+    const iterations = 1000;
+
+    expect(validate(doc).valid).toBe(true);
+
+    const start = performance.now();
+    for (let i = 0; i < iterations; i++) {
+      validate(doc);
+    }
+    const elapsed = performance.now() - start;
+    const avgTime = elapsed / iterations;
+
+    expect(avgTime).toBeLessThan(VALIDATOR_TARGETS.document20Fields);
+  });
+
+  it(`should validate 10,000 documents in < ${VALIDATOR_TARGETS.batch10000Documents}ms`, () => {
+    const validate = compileValidator(schema);
+    const docs = Array.from({ length: 10000 }, (_, i) => generateDocument(20, i));
+
+    const start = performance.now();
+    for (const doc of docs) {
+      validate(doc);
+    }
+    const elapsed = performance.now() - start;
+
+    expect(elapsed).toBeLessThan(VALIDATOR_TARGETS.batch10000Documents);
+  });
+});
@@ -7,6 +7,9 @@
  * - ice generate        Generate TypeScript types from schema
  * - ice validate        Validate schema syntax
  * - ice iceberg export  Export to Iceberg metadata format
+ * - ice iceberg evolve  Write the next Iceberg metadata version
+ * - ice iceberg import  Import Iceberg table metadata to an IceType schema
+ * - ice parquet infer   Infer an IceType schema from a Parquet file
  *
  * @packageDocumentation
  */
@@ -18,12 +21,18 @@ import { generate } from './commands/generate.js';
 import { validate } from './commands/validate.js';
 import { clickhouseExport } from './commands/clickhouse.js';
 import { duckdbExport } from './commands/duckdb.js';
-import { icebergExport } from './commands/iceberg.js';
+import { icebergExport, icebergEvolve, icebergImport } from './commands/iceberg.js';
+import { parquetInfer } from './commands/parquet.js';
 import { postgresExport } from './commands/postgres.js';
 import { prismaExport } from './commands/prisma.js';
 import { prismaImport } from './commands/prisma-import.js';
+import { jsonschemaExport } from './commands/jsonschema.js';
+import { protoExport } from './commands/proto.js';
+import { graphqlExport } from './commands/graphql.js';
 import { drizzleImport } from './commands/drizzle-import.js';
 import { diff } from './commands/diff.js';
+import { pull } from './commands/pull.js';
+import { sqlImport } from './commands/sql-import.js';
 import { migrate } from './commands/migrate.js';
 import { project } from './commands/project.js';
 import { doctor } from './commands/doctor.js';
@@ -53,13 +62,21 @@ Commands:
   doctor             Check environment compatibility
   diff               Compare schemas and generate migration SQL
   migrate            Generate and manage database migrations
+  pull               Generate schemas from an existing database
+  import sql         Convert SQL CREATE TABLE scripts to IceType
   project generate   Generate OLAP schemas from projection definitions
   clickhouse export  Export to ClickHouse DDL format
   duckdb export      Export to DuckDB DDL format
   iceberg export     Export to Iceberg metadata format
+  iceberg evolve     Write the next Iceberg metadata version for a changed schema
+  iceberg import     Convert Iceberg table metadata to an IceType schema
+  parquet infer      Infer an IceType schema from a Parquet file
   postgres export    Export to PostgreSQL DDL format
   prisma export      Export to Prisma schema format
   prisma import      Import Prisma schema and convert to IceType
+  jsonschema export  Export to JSON Schema (draft 2020-12)
+  proto export       Export to Protocol Buffers (proto3)
+  graphql export     Export to GraphQL SDL
   drizzle import     Import Drizzle schema and convert to IceType
 
 Options:
@@ -75,13 +92,20 @@ Examples:
   ice migrate generate --schema ./schema.ts --from 1 --to 2 --dialect postgres
   ice migrate diff --old ./schema-v1.ts --new ./schema-v2.ts
   ice migrate plan --schema ./schema.ts
+  ice pull ./dev.db --output ./schema.ts
+  ice import sql ./schema.sql --dialect postgres --output ./schema.ts
   ice project generate --schema ./schema.ts --output ./olap-schema.json
   ice clickhouse export --schema ./schema.ts --output ./tables.sql
   ice duckdb export --schema ./schema.ts --output ./tables.sql
   ice iceberg export --schema ./schema.ts --output ./metadata.json
+  ice iceberg evolve --schema ./schema.ts --from ./metadata/v3.metadata.json
+  ice parquet infer ./orders.parquet --output ./schema.ts
   ice postgres export --schema ./schema.ts --output ./create-tables.sql
   ice prisma export --schema ./schema.ts --output ./schema.prisma
   ice prisma import --input ./schema.prisma --output ./icetype-schema.ts
+  ice jsonschema export --schema ./schema.ts --output ./schema.json
+  ice proto export --schema ./schema.ts --output ./schema.proto
+  ice graphql export --schema ./schema.ts --output ./schema.graphql --watch
   ice drizzle import --input ./drizzle-schema.ts --output ./icetype-schema.ts
 `;
 
@@ -115,10 +139,28 @@ const ICEBERG_HELP: HelpCommand = {
   description: 'Apache Iceberg schema operations',
   usage: 'ice iceberg <subcommand> [options]',
   options: [],
-  subcommands: [{ name: 'export', description: 'Export to Iceberg metadata format' }],
+  subcommands: [
+    { name: 'export', description: 'Export to Iceberg metadata format' },
+    { name: 'evolve', description: 'Write the next metadata version for a changed schema' },
+    { name: 'import', description: 'Convert table metadata to an IceType schema' },
+  ],
   examples: [
     'ice iceberg export --schema ./schema.ts --output ./metadata.json',
     'ice iceberg export -s ./schema.ts --location s3://bucket/table',
+    'ice iceberg evolve --schema ./schema.ts --from ./metadata/v3.metadata.json',
+    'ice iceberg import ./metadata/v3.metadata.json --output ./schema.ts',
+  ],
+};
+
+const PARQUET_HELP: HelpCommand = {
+  name: 'parquet',
+  description: 'Apache Parquet file operations',
+  usage: 'ice parquet <subcommand> [options]',
+  options: [],
+  subcommands: [{ name: 'infer', description: 'Infer an IceType schema from a Parquet file' }],
+  examples: [
+    'ice parquet infer ./orders.parquet --output ./schema.ts',
+    'ice parquet infer ./part-00000.parquet --name Order --format json',
   ],
 };
 
@@ -151,6 +193,54 @@ const PRISMA_HELP: HelpCommand = {
   ],
 };
 
+const IMPORT_HELP: HelpCommand = {
+  name: 'import',
+  description: 'Import schemas from other formats',
+  usage: 'ice import <subcommand> [options]',
+  options: [],
+  subcommands: [{ name: 'sql', description: 'Convert SQL CREATE TABLE scripts to IceType' }],
+  examples: [
+    'ice import sql ./schema.sql --output ./schema.ts',
+    'ice import sql ./dump.sql --dialect mysql --format json',
+  ],
+};
+
+const JSONSCHEMA_HELP: HelpCommand = {
+  name: 'jsonschema',
+  description: 'JSON Schema operations',
+  usage: 'ice jsonschema <subcommand> [options]',
+  options: [],
+  subcommands: [{ name: 'export', description: 'Export to JSON Schema (draft 2020-12)' }],
+  examples: [
+    'ice jsonschema export --schema ./schema.ts --output ./schema.json',
+    'ice jsonschema export -s ./schema.ts --relations ref --strict',
+  ],
+};
+
+const PROTO_HELP: HelpCommand = {
+  name: 'proto',
+  description: 'Protocol Buffers operations',
+  usage: 'ice proto <subcommand> [options]',
+  options: [],
+  subcommands: [{ name: 'export', description: 'Export to Protocol Buffers (proto3)' }],
+  examples: [
+    'ice proto export --schema ./schema.ts --output ./schema.proto',
+    'ice proto export -s ./schema.ts -o ./schema.proto --package example.v1',
+  ],
+};
+
+const GRAPHQL_HELP: HelpCommand = {
+  name: 'graphql',
+  description: 'GraphQL schema operations',
+  usage: 'ice graphql <subcommand> [options]',
+  options: [],
+  subcommands: [{ name: 'export', description: 'Export to GraphQL SDL' }],
+  examples: [
+    'ice graphql export --schema ./schema.ts --output ./schema.graphql',
+    'ice graphql export -s ./schema.ts -o ./schema.graphql --relations connection --watch',
+  ],
+};
+
 const DRIZZLE_HELP: HelpCommand = {
   name: 'drizzle',
   description: 'Drizzle ORM schema operations',
@@ -250,6 +340,23 @@ async function main() {
         await diff(commandArgs);
         break;
 
+      case 'pull':
+        await pull(commandArgs);
+        break;
+
+      case 'import':
+        if (hasHelpFlag(commandArgs) && commandArgs[0] !== 'sql') {
+          console.log(generateHelpText(IMPORT_HELP));
+          process.exit(0);
+        } else if (commandArgs[0] === 'sql') {
+          await sqlImport(commandArgs.slice(1));
+        } else {
+          console.error(`Unknown import subcommand: ${commandArgs[0]}`);
+          console.log('Available: ice import sql');
+          process.exit(1);
+        }
+        break;
+
       case 'doctor':
         await doctor(commandArgs);
         break;
@@ -281,14 +388,36 @@ async function main() {
         break;
 
       case 'iceberg':
-        if (hasHelpFlag(commandArgs) && commandArgs[0] !== 'export') {
+        if (
+          hasHelpFlag(commandArgs) &&
+          commandArgs[0] !== 'export' &&
+          commandArgs[0] !== 'evolve' &&
+          commandArgs[0] !== 'import'
+        ) {
           console.log(generateHelpText(ICEBERG_HELP));
           process.exit(0);
         } else if (commandArgs[0] === 'export') {
           await icebergExport(commandArgs.slice(1));
+        } else if (commandArgs[0] === 'evolve') {
+          await icebergEvolve(commandArgs.slice(1));
+        } else if (commandArgs[0] === 'import') {
+          await icebergImport(commandArgs.slice(1));
         } else {
           console.error(`Unknown iceberg subcommand: ${commandArgs[0]}`);
-          console.log('Available: ice iceberg export');
+          console.log('Available: ice iceberg export, ice iceberg evolve, ice iceberg import');
+          process.exit(1);
+        }
+        break;
+
+      case 'parquet':
+        if (hasHelpFlag(commandArgs) && commandArgs[0] !== 'infer') {
+          console.log(generateHelpText(PARQUET_HELP));
+          process.exit(0);
+        } else if (commandArgs[0] === 'infer') {
+          await parquetInfer(commandArgs.slice(1));
+        } else {
+          console.error(`Unknown parquet subcommand: ${commandArgs[0]}`);
+          console.log('Available: ice parquet infer');
           process.exit(1);
         }
         break;
@@ -325,6 +454,45 @@ async function main() {
         }
         break;
 
+      case 'jsonschema':
+        if (hasHelpFlag(commandArgs) && commandArgs[0] !== 'export') {
+          console.log(generateHelpText(JSONSCHEMA_HELP));
+          process.exit(0);
+        } else if (commandArgs[0] === 'export') {
+          await jsonschemaExport(commandArgs.slice(1));
+        } else {
+          console.error(`Unknown jsonschema subcommand: ${commandArgs[0]}`);
+          console.log('Available: ice jsonschema export');
+          process.exit(1);
+        }
+        break;
+
+      case 'proto':
+        if (hasHelpFlag(commandArgs) && commandArgs[0] !== 'export') {
+          console.log(generateHelpText(PROTO_HELP));
+          process.exit(0);
+        } else if (commandArgs[0] === 'export') {
+          await protoExport(commandArgs.slice(1));
+        } else {
+          console.error(`Unknown proto subcommand: ${commandArgs[0]}`);
+          console.log('Available: ice proto export');
+          process.exit(1);
+        }
+        break;
+
+      case 'graphql':
+        if (hasHelpFlag(commandArgs) && commandArgs[0] !== 'export') {
+          console.log(generateHelpText(GRAPHQL_HELP));
+          process.exit(0);
+        } else if (commandArgs[0] === 'export') {
+          await graphqlExport(commandArgs.slice(1));
+        } else {
+          console.error(`Unknown graphql subcommand: ${commandArgs[0]}`);
+          console.log('Available: ice graphql export');
+          process.exit(1);
+        }
+        break;
+
       case 'drizzle':
         if (hasHelpFlag(commandArgs) && commandArgs[0] !== 'import') {
           console.log(generateHelpText(DRIZZLE_HELP));
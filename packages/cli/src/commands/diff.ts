@@ -6,7 +6,12 @@
 
 import { writeFileSync } from 'node:fs';
 import { parseArgs } from 'node:util';
-import { diffSchemasLegacy as diffSchemas, generateMigrationPlan, type SqlDialect } from '@icetype/core';
+import {
+  diffSchemasLegacy as diffSchemas,
+  formatTtlDirective,
+  generateMigrationPlan,
+  type SqlDialect,
+} from '@icetype/core';
 import { loadSchemaFile } from '../utils/schema-loader.js';
 import { generateHelpText, hasHelpFlag, type HelpCommand } from '../utils/help.js';
 import {
@@ -135,6 +140,12 @@ export async function diff(args: string[]) {
         `-- Modified fields: ${schemaDiff.modifiedFields.map((f) => `${f.name} (${f.changes.join(', ')})`).join(', ')}`
       );
     }
+    if (schemaDiff.ttlChange) {
+      const { oldTtl, newTtl } = schemaDiff.ttlChange;
+      output.push(
+        `-- TTL: ${oldTtl ? formatTtlDirective(oldTtl) : 'none'} -> ${newTtl ? formatTtlDirective(newTtl) : 'none'}`
+      );
+    }
     output.push(``);
 
     // Up migration
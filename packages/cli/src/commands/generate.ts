@@ -226,18 +226,73 @@ function generateTypesFromSchemas(schemas: IceTypeSchema[], nullableStyle: Nulla
   lines.push(` */`);
   lines.push(``);
 
+  // Struct interfaces are shared between schemas, so emit each once up front
+  const structInterfaces = generateStructInterfaces(schemas, nullableStyle);
+  if (structInterfaces) {
+    lines.push(structInterfaces);
+    lines.push(``);
+  }
+
   for (const schema of schemas) {
-    lines.push(generateTypeScriptInterface(schema, nullableStyle));
+    lines.push(generateTypeScriptInterface(schema, nullableStyle, false));
     lines.push(``);
   }
 
   return lines.join('\n');
 }
 
+/**
+ * Generate TypeScript interfaces for the structs declared in `$structs`
+ * and referenced by the given schemas' fields.
+ *
+ * Nested structs are emitted before the structs that contain them.
+ */
+export function generateStructInterfaces(schemas: IceTypeSchema[], nullableStyle: NullableStyle = 'union'): string {
+  const structs = new Map<string, FieldDefinition[]>();
+
+  const collect = (field: FieldDefinition): void => {
+    if (field.structName === undefined || field.structFields === undefined || structs.has(field.structName)) {
+      return;
+    }
+    field.structFields.forEach(collect);
+    structs.set(field.structName, field.structFields);
+  };
+
+  for (const schema of schemas) {
+    for (const [fieldName, field] of schema.fields) {
+      if (fieldName.startsWith('$')) continue;
+      collect(field);
+    }
+  }
+
+  const blocks: string[] = [];
+  for (const [name, fields] of structs) {
+    const lines: string[] = [];
+    lines.push(`/** Struct type: ${name} */`);
+    lines.push(`export interface ${name} {`);
+    for (const field of fields) {
+      const tsType = fieldToTypeScript(field, nullableStyle);
+      const optional = field.isOptional ? '?' : '';
+      lines.push(`  ${field.name}${optional}: ${tsType};`);
+    }
+    lines.push(`}`);
+    blocks.push(lines.join('\n'));
+  }
+
+  return blocks.join('\n\n');
+}
+
 /**
  * Generate TypeScript interface from IceType schema
+ *
+ * Interfaces for the structs the schema references are emitted first
+ * unless `includeStructs` is false.
  */
-export function generateTypeScriptInterface(schema: IceTypeSchema, nullableStyle: NullableStyle = 'union'): string {
+export function generateTypeScriptInterface(
+  schema: IceTypeSchema,
+  nullableStyle: NullableStyle = 'union',
+  includeStructs = true
+): string {
   const lines: string[] = [];
 
   lines.push(`/**`);
@@ -246,6 +301,14 @@ export function generateTypeScriptInterface(schema: IceTypeSchema, nullableStyle
   lines.push(` */`);
   lines.push(``);
 
+  if (includeStructs) {
+    const structInterfaces = generateStructInterfaces([schema], nullableStyle);
+    if (structInterfaces) {
+      lines.push(structInterfaces);
+      lines.push(``);
+    }
+  }
+
   // Generate the interface
   lines.push(`export interface ${schema.name} {`);
 
@@ -333,38 +396,47 @@ function fieldToTypeScript(field: FieldDefinition, nullableStyle: NullableStyle
 
   let baseType: string;
 
-  switch (field.type.toLowerCase()) {
-    case 'string':
-    case 'text':
-    case 'uuid':
-      baseType = 'string';
-      break;
-    case 'int':
-    case 'long':
-    case 'bigint':
-    case 'float':
-    case 'double':
-    case 'decimal':
-      baseType = 'number';
-      break;
-    case 'bool':
-    case 'boolean':
-      baseType = 'boolean';
-      break;
-    case 'timestamp':
-    case 'timestamptz':
-    case 'date':
-    case 'time':
-      baseType = 'number'; // Epoch ms
-      break;
-    case 'json':
-      baseType = 'unknown';
-      break;
-    case 'binary':
-      baseType = 'Uint8Array';
-      break;
-    default:
-      baseType = 'unknown';
+  if (field.enumValues !== undefined && field.enumValues.length > 0) {
+    // Declared enums become a string-literal union
+    const union = field.enumValues.map((value) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`).join(' | ');
+    baseType = field.isArray && field.enumValues.length > 1 ? `(${union})` : union;
+  } else if (field.structName !== undefined && field.structFields !== undefined) {
+    // Declared structs reference their generated interface
+    baseType = field.structName;
+  } else {
+    switch (field.type.toLowerCase()) {
+      case 'string':
+      case 'text':
+      case 'uuid':
+        baseType = 'string';
+        break;
+      case 'int':
+      case 'long':
+      case 'bigint':
+      case 'float':
+      case 'double':
+      case 'decimal':
+        baseType = 'number';
+        break;
+      case 'bool':
+      case 'boolean':
+        baseType = 'boolean';
+        break;
+      case 'timestamp':
+      case 'timestamptz':
+      case 'date':
+      case 'time':
+        baseType = 'number'; // Epoch ms
+        break;
+      case 'json':
+        baseType = 'unknown';
+        break;
+      case 'binary':
+        baseType = 'Uint8Array';
+        break;
+      default:
+        baseType = 'unknown';
+    }
   }
 
   if (field.isArray) {
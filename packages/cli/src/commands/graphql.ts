@@ -0,0 +1,215 @@
+/**
+ * ice graphql export command
+ *
+ * Exports IceType schemas to GraphQL SDL: object types with relation fields,
+ * enums, and create/update input types.
+ * Supports watch mode for automatic regeneration on file changes.
+ */
+
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+  generateGraphQLSchema,
+  serializeGraphQLSchema,
+  type GraphQLExportOptions,
+  type GraphQLRelationStyle,
+} from '@icetype/graphql';
+import { loadSchemaFile } from '../utils/schema-loader.js';
+import { watchGenerate, type WatchGenerateOptions } from '../utils/watcher.js';
+import { generateHelpText, hasHelpFlag, type HelpCommand } from '../utils/help.js';
+import { createLogger, LogLevel } from '../utils/logger.js';
+import {
+  requireOption,
+  checkSchemaLoadErrors,
+  checkSchemasExist,
+} from '../utils/cli-error.js';
+
+const GRAPHQL_EXPORT_HELP: HelpCommand = {
+  name: 'graphql export',
+  description: 'Export IceType schema to GraphQL SDL',
+  usage: 'ice graphql export --schema <file> [--output <file>] [--relations <style>] [--watch]',
+  options: [
+    { name: 'schema', short: 's', description: 'Path to the schema file', required: true },
+    { name: 'output', short: 'o', description: 'Output file path (default: stdout)' },
+    { name: 'relations', short: 'r', description: 'Backward relation style (list, connection)', defaultValue: 'list' },
+    { name: 'skip-inputs', description: 'Do not generate create/update input types' },
+    { name: 'watch', short: 'w', description: 'Watch mode for automatic regeneration (requires --output)' },
+    { name: 'debounce', description: 'Debounce time in milliseconds for watch mode. Default: 100' },
+    { name: 'quiet', short: 'q', description: 'Suppress informational output' },
+    { name: 'verbose', short: 'v', description: 'Show detailed output' },
+  ],
+  examples: [
+    'ice graphql export --schema ./schema.ts --output ./schema.graphql',
+    'ice graphql export -s ./schema.ts -o ./schema.graphql --relations connection',
+    'ice graphql export -s ./schema.ts -o ./schema.graphql --watch',
+  ],
+};
+
+/**
+ * Valid backward relation styles
+ */
+const VALID_RELATION_STYLES: GraphQLRelationStyle[] = ['list', 'connection'];
+
+/**
+ * Validate that a string is a valid backward relation style
+ */
+function isValidRelationStyle(style: string): style is GraphQLRelationStyle {
+  return VALID_RELATION_STYLES.includes(style as GraphQLRelationStyle);
+}
+
+/**
+ * CLI command handler for `ice graphql export`
+ *
+ * @param args - Command line arguments
+ *
+ * Usage:
+ * ```bash
+ * ice graphql export --schema ./schema.ts --output ./schema.graphql
+ * ice graphql export -s ./schema.ts --relations connection
+ * ice graphql export -s ./schema.ts -o ./schema.graphql --watch
+ * ice graphql export -s ./schema.ts  # outputs to stdout
+ * ```
+ */
+export async function graphqlExport(args: string[]): Promise<void> {
+  // Check for help flag first
+  if (hasHelpFlag(args)) {
+    console.log(generateHelpText(GRAPHQL_EXPORT_HELP));
+    process.exit(0);
+  }
+
+  let values: ReturnType<typeof parseArgs>['values'];
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        schema: { type: 'string', short: 's' },
+        output: { type: 'string', short: 'o' },
+        relations: { type: 'string', short: 'r' },
+        'skip-inputs': { type: 'boolean' },
+        watch: { type: 'boolean', short: 'w' },
+        debounce: { type: 'string' },
+        quiet: { type: 'boolean', short: 'q' },
+        verbose: { type: 'boolean', short: 'v' },
+      },
+    }));
+  } catch (error) {
+    // Handle ambiguous option error for --debounce with negative value
+    if (error instanceof Error && error.message.includes('--debounce') && error.message.includes('ambiguous')) {
+      throw new Error('--debounce must be a positive number');
+    }
+    throw error;
+  }
+
+  // Validate required options - throws if missing
+  requireOption(
+    values.schema as string | undefined,
+    'schema',
+    'graphql export',
+    'ice graphql export --schema ./schema.ts --output ./schema.graphql'
+  );
+
+  const schemaPath = values.schema as string;
+  const outputPath = typeof values.output === 'string' ? values.output : undefined;
+  const relationsInput = typeof values.relations === 'string' ? values.relations : 'list';
+  const inputs = values['skip-inputs'] !== true;
+  const watch = values.watch === true;
+  const quiet = values.quiet === true;
+  const verbose = values.verbose === true;
+
+  // Validate relation style
+  if (!isValidRelationStyle(relationsInput)) {
+    throw new Error(
+      `Invalid relations style '${relationsInput}'. Valid styles are: ${VALID_RELATION_STYLES.join(', ')}`
+    );
+  }
+  const relations: GraphQLRelationStyle = relationsInput;
+
+  // Watch mode rewrites the output on every change, which needs a file
+  if (watch && !outputPath) {
+    throw new Error('--watch requires --output');
+  }
+
+  // Validate debounce option
+  let debounceMs: number | undefined;
+  const debounceValue = values.debounce as string | undefined;
+  if (debounceValue !== undefined) {
+    const parsedDebounce = parseInt(debounceValue, 10);
+    if (isNaN(parsedDebounce) || parsedDebounce <= 0) {
+      throw new Error('--debounce must be a positive number');
+    }
+    debounceMs = parsedDebounce;
+  }
+
+  // Create logger based on verbosity
+  const logLevel = verbose
+    ? LogLevel.DEBUG
+    : quiet
+      ? LogLevel.ERROR
+      : LogLevel.INFO;
+
+  const logger = createLogger({
+    level: logLevel,
+    quiet,
+  });
+
+  logger.debug('Options:', {
+    relations,
+    inputs,
+    output: outputPath || '(stdout)',
+  });
+
+  const exportOptions: GraphQLExportOptions = { relations, inputs };
+
+  const runExport = async (): Promise<void> => {
+    // Load schemas from the file - throws on errors
+    logger.debug('Loading schema file', { path: schemaPath });
+    const loadResult = await loadSchemaFile(schemaPath);
+    checkSchemaLoadErrors(loadResult.errors, schemaPath);
+    checkSchemasExist(loadResult.schemas, schemaPath);
+
+    logger.info(`Found ${loadResult.schemas.length} schema(s)`);
+    logger.debug('Schemas found:', {
+      names: loadResult.schemas.map((s) => s.name),
+    });
+
+    const document = generateGraphQLSchema(loadResult.schemas.map((s) => s.schema), exportOptions);
+    const output = serializeGraphQLSchema(document);
+
+    // Output GraphQL SDL
+    if (outputPath) {
+      try {
+        writeFileSync(outputPath, output);
+        logger.success(`Exported GraphQL schema: ${outputPath}`);
+        logger.info(`Generated ${document.types.length} type(s) and ${document.inputs.length} input(s)`);
+      } catch (writeError) {
+        const message = writeError instanceof Error ? writeError.message : String(writeError);
+        throw new Error(
+          `Failed to write output file '${outputPath}': ${message}\n` +
+          'Check that the directory exists and you have write permissions.'
+        );
+      }
+    } else {
+      // Output to stdout
+      process.stdout.write(output);
+    }
+  };
+
+  if (watch) {
+    // Watch mode - run initial export and watch for changes
+    logger.info('Starting watch mode...');
+    const watchOptions: WatchGenerateOptions = {
+      schemaPath,
+      runGeneration: runExport,
+      quiet,
+      verbose,
+    };
+    if (debounceMs !== undefined) {
+      watchOptions.debounceMs = debounceMs;
+    }
+    await watchGenerate(watchOptions);
+  } else {
+    // Single export - let errors propagate to main CLI handler
+    logger.info(`Exporting GraphQL schema from: ${schemaPath}`);
+    await runExport();
+  }
+}
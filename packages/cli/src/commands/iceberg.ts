@@ -1,36 +1,90 @@
 /**
- * ice iceberg export command
+ * ice iceberg export / evolve / import commands
  *
- * Exports IceType schema to Apache Iceberg metadata format.
+ * Exports IceType schema to Apache Iceberg metadata format, evolves
+ * existing metadata to a new version of the schema, and imports existing
+ * Iceberg tables back to IceType schemas.
  */
 
-import { writeFileSync } from 'node:fs';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
 import { parseArgs } from 'node:util';
+import type { SchemaDefinition } from '@icetype/core';
+import {
+  evolveIcebergMetadata,
+  importIcebergMetadata,
+  isIcebergSpecMetadata,
+  parseIcebergMetadata,
+  writeIcebergSpecMetadata,
+} from '@icetype/iceberg';
 import type { IcebergAdapter, IcebergTableMetadata } from '@icetype/iceberg';
 import { getAdapter } from '../utils/adapter-registry.js';
+import { loadConfig } from '../utils/config.js';
 import { loadSchemaFile } from '../utils/schema-loader.js';
 import { generateHelpText, hasHelpFlag, type HelpCommand } from '../utils/help.js';
+import { createLogger, LogLevel } from '../utils/logger.js';
 import {
   requireOption,
+  validateOptionValue,
   checkSchemaLoadErrors,
   checkSchemasExist,
 } from '../utils/cli-error.js';
+import { writeOutput } from './pull.js';
 
 const ICEBERG_EXPORT_HELP: HelpCommand = {
   name: 'iceberg export',
   description: 'Export IceType schema to Apache Iceberg metadata format',
-  usage: 'ice iceberg export --schema <file> [--output <file>] [--location <path>]',
+  usage: 'ice iceberg export --schema <file> [--output <file>] [--location <path>] [--format-version <1|2|3>]',
   options: [
     { name: 'schema', short: 's', description: 'Path to the schema file', required: true },
     { name: 'output', short: 'o', description: 'Output file path', defaultValue: 'metadata.json' },
     { name: 'location', short: 'l', description: 'Table storage location', defaultValue: 's3://bucket/table' },
+    { name: 'format-version', description: 'Table format version (1, 2, 3)', defaultValue: '2' },
   ],
   examples: [
     'ice iceberg export --schema ./schema.ts --output ./metadata.json',
     'ice iceberg export -s ./schema.ts --location s3://my-bucket/tables/users',
+    'ice iceberg export -s ./schema.ts --format-version 3',
+  ],
+};
+
+const ICEBERG_EVOLVE_HELP: HelpCommand = {
+  name: 'iceberg evolve',
+  description: 'Write the next Iceberg metadata version for a changed schema',
+  usage: 'ice iceberg evolve --schema <file> --from <metadata.json> [--output <file>]',
+  options: [
+    { name: 'schema', short: 's', description: 'Path to the schema file', required: true },
+    { name: 'from', short: 'f', description: 'Current metadata file, e.g. metadata/v3.metadata.json', required: true },
+    { name: 'output', short: 'o', description: 'Output file path (default: the next vN.metadata.json beside --from)' },
+  ],
+  examples: [
+    'ice iceberg evolve --schema ./schema.ts --from ./metadata/v3.metadata.json',
+    'ice iceberg evolve -s ./schema.ts -f ./metadata/v3.metadata.json -o ./metadata/v4.metadata.json',
+  ],
+};
+
+const ICEBERG_IMPORT_HELP: HelpCommand = {
+  name: 'iceberg import',
+  description: 'Convert an existing Iceberg table metadata.json to an IceType schema',
+  usage: 'ice iceberg import <metadata.json> [--output <file>] [--format <format>] [--name <name>]',
+  options: [
+    { name: 'input', short: 'i', description: 'Metadata file to import (or pass it as the first argument)', required: true },
+    { name: 'output', short: 'o', description: 'Output file path (default: stdout)' },
+    { name: 'format', short: 'f', description: 'Output format (typescript, json)', defaultValue: 'typescript' },
+    { name: 'name', short: 'n', description: 'Schema name (default: from the table properties or location)' },
+    { name: 'quiet', short: 'q', description: 'Suppress informational messages and warnings' },
+  ],
+  examples: [
+    'ice iceberg import ./events/metadata/v3.metadata.json --output ./schema.ts',
+    'ice iceberg import ./metadata/v1.metadata.json --name Event --format json',
   ],
 };
 
+const FORMAT_VERSIONS = ['1', '2', '3'] as const;
+
+const IMPORT_FORMATS = ['typescript', 'json'] as const;
+type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
 export async function icebergExport(args: string[]) {
   // Check for help flag first
   if (hasHelpFlag(args)) {
@@ -44,6 +98,7 @@ export async function icebergExport(args: string[]) {
       schema: { type: 'string', short: 's' },
       output: { type: 'string', short: 'o' },
       location: { type: 'string', short: 'l' },
+      'format-version': { type: 'string' },
     },
   });
 
@@ -58,7 +113,18 @@ export async function icebergExport(args: string[]) {
   // values.schema is guaranteed to be string after the check above
   const schemaPath = values.schema;
   const outputPath = typeof values.output === 'string' ? values.output : 'metadata.json';
-  const location = typeof values.location === 'string' ? values.location : 's3://bucket/table';
+  const formatVersionValue = values['format-version'];
+  if (typeof formatVersionValue === 'string') {
+    validateOptionValue(formatVersionValue, 'format-version', FORMAT_VERSIONS);
+  }
+
+  // Table options from icetype.config adapters.iceberg; flags take precedence
+  const { config } = await loadConfig();
+  const icebergConfig = config.adapters?.iceberg ?? {};
+  const { location: configLocation, ...tableOptions } = icebergConfig;
+  const location = typeof values.location === 'string' ? values.location : configLocation ?? 's3://bucket/table';
+  const formatVersion =
+    typeof formatVersionValue === 'string' ? (Number(formatVersionValue) as 1 | 2 | 3) : icebergConfig.formatVersion;
 
   console.log(`Exporting Iceberg metadata from: ${schemaPath}`);
 
@@ -82,11 +148,9 @@ export async function icebergExport(args: string[]) {
 
   // Transform the schema using the adapter
   const metadata = adapter.transform(schema, {
+    ...tableOptions,
     location,
-    properties: {
-      'write.format.default': 'parquet',
-      'write.parquet.compression-codec': 'snappy',
-    },
+    ...(formatVersion !== undefined && { formatVersion }),
   }) as IcebergTableMetadata;
 
   const json = adapter.serialize(metadata);
@@ -103,6 +167,189 @@ export async function icebergExport(args: string[]) {
 
   console.log(`Exported Iceberg metadata: ${outputPath}`);
   console.log(`Table location: ${location}`);
+  console.log(`Format version: ${metadata.formatVersion}`);
   console.log(`Schema: ${metadata.schemas[0]?.fields.length ?? 0} fields`);
   console.log(`Partition spec: ${metadata.partitionSpecs[0]?.fields.length ?? 0} partition fields`);
 }
+
+/**
+ * The version N of a `vN.metadata.json` file.
+ */
+function metadataVersion(path: string): number | undefined {
+  const match = /^v(\d+)\.metadata\.json$/.exec(basename(path));
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Name the metadata file after `vN.metadata.json`, in the same directory.
+ */
+function nextMetadataPath(from: string): string | undefined {
+  const version = metadataVersion(from);
+  return version !== undefined ? join(dirname(from), `v${version + 1}.metadata.json`) : undefined;
+}
+
+/**
+ * CLI command handler for `ice iceberg evolve`
+ *
+ * Reads the current table metadata, evolves it to the schema's current
+ * version (keeping the field IDs of unchanged columns) and writes the
+ * next metadata file, in the Iceberg spec's format when `--from` was.
+ * A `version-hint.text` beside the new file is pointed at it.
+ *
+ * @param args - Command line arguments
+ */
+export async function icebergEvolve(args: string[]) {
+  if (hasHelpFlag(args)) {
+    console.log(generateHelpText(ICEBERG_EVOLVE_HELP));
+    process.exit(0);
+  }
+
+  const { values } = parseArgs({
+    args,
+    options: {
+      schema: { type: 'string', short: 's' },
+      from: { type: 'string', short: 'f' },
+      output: { type: 'string', short: 'o' },
+    },
+  });
+
+  const example = 'ice iceberg evolve --schema ./schema.ts --from ./metadata/v3.metadata.json';
+  requireOption(values.schema, 'schema', 'iceberg evolve', example);
+  requireOption(values.from, 'from', 'iceberg evolve', example);
+
+  const schemaPath = values.schema;
+  const fromPath = values.from;
+  const outputPath = typeof values.output === 'string' ? values.output : nextMetadataPath(fromPath);
+  if (!outputPath) {
+    throw new Error(
+      `Cannot derive the next metadata file name from '${fromPath}'.\n` +
+      'Pass --output, or name metadata files vN.metadata.json.'
+    );
+  }
+
+  if (!existsSync(fromPath)) {
+    throw new Error(`Metadata file not found: ${fromPath}`);
+  }
+  const raw = readFileSync(fromPath, 'utf-8');
+  const previous = parseIcebergMetadata(raw);
+  const isSpecFormat = isIcebergSpecMetadata(JSON.parse(raw));
+
+  const loadResult = await loadSchemaFile(schemaPath);
+  checkSchemaLoadErrors(loadResult.errors, schemaPath);
+  checkSchemasExist(loadResult.schemas, schemaPath);
+
+  // Prefer the schema the table was generated from
+  const sourceName = previous.properties['icetype.source.schema'];
+  const { name, schema } =
+    loadResult.schemas.find((loaded) => loaded.schema.name === sourceName) ?? loadResult.schemas[0]!;
+  console.log(`Evolving ${fromPath} to schema: ${name} (version ${schema.version})`);
+
+  const metadata = evolveIcebergMetadata(previous, schema, {
+    previousMetadataFile: `${previous.location}/metadata/${basename(fromPath)}`,
+  });
+
+  const versionHint = join(dirname(outputPath), 'version-hint.text');
+  const version = metadataVersion(outputPath);
+  try {
+    writeFileSync(outputPath, JSON.stringify(isSpecFormat ? writeIcebergSpecMetadata(metadata) : metadata, null, 2));
+    if (version !== undefined && existsSync(versionHint)) {
+      writeFileSync(versionHint, String(version));
+    }
+  } catch (writeError) {
+    const message = writeError instanceof Error ? writeError.message : String(writeError);
+    throw new Error(
+      `Failed to write output file '${outputPath}': ${message}\n` +
+      'Check that the directory exists and you have write permissions.'
+    );
+  }
+
+  const newColumns = metadata.lastColumnId - previous.lastColumnId;
+  console.log(`Wrote Iceberg metadata: ${outputPath}`);
+  console.log(`Current schema: ${metadata.currentSchemaId} (${newColumns} new column ID${newColumns === 1 ? '' : 's'})`);
+}
+
+/**
+ * Render an imported schema definition as a TypeScript schema file.
+ */
+export function formatTypescript(definition: SchemaDefinition): string {
+  const quote = (value: string): string => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  const name = String(definition.$type);
+  const lines = ["import { parseSchema } from '@icetype/core';", '', `export const ${name} = parseSchema({`];
+  lines.push(`  $type: ${quote(name)},`);
+
+  const entries = Object.entries(definition).filter(([key]) => key !== '$type');
+  for (const [key, value] of entries) {
+    if (key.startsWith('$')) {
+      lines.push(`  ${key}: ${JSON.stringify(value)},`);
+    }
+  }
+  lines.push('');
+  for (const [key, value] of entries) {
+    if (!key.startsWith('$')) {
+      const property = /^[A-Za-z_][A-Za-z0-9_]*$/.test(key) ? key : quote(key);
+      lines.push(`  ${property}: ${quote(String(value))},`);
+    }
+  }
+  lines.push('});', '');
+  return lines.join('\n');
+}
+
+/**
+ * CLI command handler for `ice iceberg import`
+ *
+ * Converts a table's metadata.json (v1, v2 or v3) to an IceType schema with
+ * its columns, partitioning and sort order.
+ *
+ * @param args - Command line arguments
+ *
+ * @example
+ * ```bash
+ * ice iceberg import ./events/metadata/v3.metadata.json --output ./schema.ts
+ * ```
+ */
+export async function icebergImport(args: string[]): Promise<void> {
+  if (hasHelpFlag(args)) {
+    console.log(generateHelpText(ICEBERG_IMPORT_HELP));
+    process.exit(0);
+  }
+
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      input: { type: 'string', short: 'i' },
+      output: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      name: { type: 'string', short: 'n' },
+      quiet: { type: 'boolean', short: 'q' },
+    },
+  });
+
+  const quiet = values.quiet ?? false;
+  const logger = createLogger({ level: quiet ? LogLevel.ERROR : LogLevel.INFO, quiet });
+
+  const inputPath = values.input ?? positionals[0];
+  requireOption(inputPath, 'input', 'iceberg import', 'ice iceberg import ./metadata/v3.metadata.json -o ./schema.ts');
+  const format = (values.format ?? 'typescript') as ImportFormat;
+  validateOptionValue(format, 'format', IMPORT_FORMATS);
+
+  if (!existsSync(inputPath)) {
+    throw new Error(`Metadata file not found: ${inputPath}`);
+  }
+
+  const { definition, warnings } = importIcebergMetadata(
+    readFileSync(inputPath, 'utf-8'),
+    values.name !== undefined ? { name: values.name } : {}
+  );
+  for (const warning of warnings) {
+    logger.warn(`${inputPath}: ${warning}`);
+  }
+
+  const output = format === 'json' ? `${JSON.stringify(definition, null, 2)}\n` : formatTypescript(definition);
+  if (values.output) {
+    await writeOutput(values.output, output);
+    logger.success(`Imported ${definition.$type} from ${inputPath} to ${values.output}`);
+  } else {
+    console.log(output);
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * ice jsonschema export command
+ *
+ * Exports IceType schema to JSON Schema (draft 2020-12).
+ * A single schema produces a standalone document; multiple schemas
+ * produce a bundle with every schema under `$defs`.
+ */
+
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+  schemaToJsonSchema,
+  generateJsonSchema,
+  serializeJsonSchema,
+  type JsonSchemaExportOptions,
+  type JsonSchemaRelationMode,
+} from '@icetype/json-schema';
+import { loadSchemaFile } from '../utils/schema-loader.js';
+import { generateHelpText, hasHelpFlag, type HelpCommand } from '../utils/help.js';
+import { createLogger, LogLevel } from '../utils/logger.js';
+import {
+  requireOption,
+  checkSchemaLoadErrors,
+  checkSchemasExist,
+} from '../utils/cli-error.js';
+
+const JSONSCHEMA_EXPORT_HELP: HelpCommand = {
+  name: 'jsonschema export',
+  description: 'Export IceType schema to JSON Schema (draft 2020-12)',
+  usage: 'ice jsonschema export --schema <file> [--output <file>] [--relations <mode>]',
+  options: [
+    { name: 'schema', short: 's', description: 'Path to the schema file', required: true },
+    { name: 'output', short: 'o', description: 'Output file path (default: stdout)' },
+    { name: 'relations', short: 'r', description: 'Relation representation (id, ref)', defaultValue: 'id' },
+    { name: 'base-uri', description: 'Base URI for $id (e.g. https://example.com/schemas/)' },
+    { name: 'strict', description: 'Reject undeclared properties (additionalProperties: false)' },
+    { name: 'quiet', short: 'q', description: 'Suppress informational output' },
+    { name: 'verbose', short: 'v', description: 'Show detailed output' },
+  ],
+  examples: [
+    'ice jsonschema export --schema ./schema.ts --output ./schema.json',
+    'ice jsonschema export -s ./schema.ts --relations ref --strict',
+    'ice jsonschema export -s ./schema.ts --base-uri https://example.com/schemas/',
+  ],
+};
+
+/**
+ * Valid relation representations
+ */
+const VALID_RELATION_MODES: JsonSchemaRelationMode[] = ['id', 'ref'];
+
+/**
+ * Validate that a string is a valid relation representation
+ */
+function isValidRelationMode(mode: string): mode is JsonSchemaRelationMode {
+  return VALID_RELATION_MODES.includes(mode as JsonSchemaRelationMode);
+}
+
+/**
+ * CLI command handler for `ice jsonschema export`
+ *
+ * @param args - Command line arguments
+ *
+ * Usage:
+ * ```bash
+ * ice jsonschema export --schema ./schema.ts --output ./schema.json
+ * ice jsonschema export -s ./schema.ts --relations ref
+ * ice jsonschema export -s ./schema.ts --strict
+ * ice jsonschema export -s ./schema.ts  # outputs to stdout
+ * ```
+ */
+export async function jsonschemaExport(args: string[]): Promise<void> {
+  // Check for help flag first
+  if (hasHelpFlag(args)) {
+    console.log(generateHelpText(JSONSCHEMA_EXPORT_HELP));
+    process.exit(0);
+  }
+
+  const { values } = parseArgs({
+    args,
+    options: {
+      schema: { type: 'string', short: 's' },
+      output: { type: 'string', short: 'o' },
+      relations: { type: 'string', short: 'r' },
+      'base-uri': { type: 'string' },
+      strict: { type: 'boolean' },
+      quiet: { type: 'boolean', short: 'q' },
+      verbose: { type: 'boolean', short: 'v' },
+    },
+  });
+
+  // Validate required options - throws if missing
+  requireOption(
+    values.schema,
+    'schema',
+    'jsonschema export',
+    'ice jsonschema export --schema ./schema.ts --output ./schema.json'
+  );
+
+  const schemaPath = values.schema;
+  const outputPath = typeof values.output === 'string' ? values.output : undefined;
+  const relationsInput = typeof values.relations === 'string' ? values.relations : 'id';
+  const baseUri = typeof values['base-uri'] === 'string' ? values['base-uri'] : undefined;
+  const strict = values.strict === true;
+  const quiet = values.quiet === true;
+  const verbose = values.verbose === true;
+
+  // Validate relation mode
+  if (!isValidRelationMode(relationsInput)) {
+    throw new Error(
+      `Invalid relations mode '${relationsInput}'. Valid modes are: ${VALID_RELATION_MODES.join(', ')}`
+    );
+  }
+  const relations: JsonSchemaRelationMode = relationsInput;
+
+  // Create logger based on verbosity
+  const logLevel = verbose
+    ? LogLevel.DEBUG
+    : quiet
+      ? LogLevel.ERROR
+      : LogLevel.INFO;
+
+  const logger = createLogger({
+    level: logLevel,
+    quiet,
+  });
+
+  logger.info(`Exporting JSON Schema from: ${schemaPath}`);
+  logger.debug('Options:', {
+    relations,
+    strict,
+    baseUri: baseUri || '(none)',
+    output: outputPath || '(stdout)',
+  });
+
+  // Load schemas from the file - throws on errors
+  logger.debug('Loading schema file', { path: schemaPath });
+  const loadResult = await loadSchemaFile(schemaPath);
+  checkSchemaLoadErrors(loadResult.errors, schemaPath);
+  checkSchemasExist(loadResult.schemas, schemaPath);
+
+  logger.info(`Found ${loadResult.schemas.length} schema(s)`);
+  logger.debug('Schemas found:', {
+    names: loadResult.schemas.map((s) => s.name),
+  });
+
+  const exportOptions: JsonSchemaExportOptions = { relations, strict };
+  if (baseUri) {
+    exportOptions.baseUri = baseUri;
+  }
+
+  // A single schema is emitted as a standalone document, several as a bundle
+  const schemas = loadResult.schemas.map((s) => s.schema);
+  const jsonSchema = schemas.length === 1
+    ? schemaToJsonSchema(schemas[0]!, exportOptions)
+    : generateJsonSchema(schemas, exportOptions);
+  const output = serializeJsonSchema(jsonSchema);
+
+  // Output JSON Schema
+  if (outputPath) {
+    try {
+      writeFileSync(outputPath, output);
+      logger.success(`Exported JSON Schema: ${outputPath}`);
+      logger.info(`Generated ${loadResult.schemas.length} schema(s)`);
+    } catch (writeError) {
+      const message = writeError instanceof Error ? writeError.message : String(writeError);
+      throw new Error(
+        `Failed to write output file '${outputPath}': ${message}\n` +
+        'Check that the directory exists and you have write permissions.'
+      );
+    }
+  } else {
+    // Output to stdout
+    process.stdout.write(output);
+  }
+}
@@ -11,11 +11,37 @@ import { writeFileSync, existsSync, mkdirSync, readdirSync, readFileSync } from
 import { join, resolve } from 'node:path';
 import { parseArgs } from 'node:util';
 import {
+  createSchemaVersion,
   diffSchemasLegacy as diffSchemas,
+  formatTtlDirective,
   generateMigrationPlan,
+  IceTypeError,
+  type IceTypeSchema,
   type SqlDialect,
 } from '@icetype/core';
+import { transformToPostgresDDL } from '@icetype/postgres';
+import { transformToDuckDBDDL } from '@icetype/duckdb';
+import { transformToSQLiteDDL } from '@icetype/sqlite';
+import { transformToClickHouseDDL } from '@icetype/clickhouse';
+import {
+  computeChecksum,
+  createDatabaseExecutor,
+  createMigrationHistory,
+  createMigrationLock,
+  createMigrationRunner,
+  findChecksumDrift,
+  MigrationChecksumError,
+  DEFAULT_HISTORY_FILE,
+  parseDatabaseUrl,
+  FileHistoryStorage,
+  splitSqlStatements,
+  SqlHistoryStorage,
+  type DatabaseConnection,
+  type MigrationHistory,
+  type MigrationRecord,
+} from '@icetype/migrations';
 import { loadSchemaFile } from '../utils/schema-loader.js';
+import { extractSchema } from './pull.js';
 import { generateHelpText, hasHelpFlag, type HelpCommand } from '../utils/help.js';
 import { createLogger, LogLevel } from '../utils/logger.js';
 import {
@@ -35,7 +61,7 @@ import {
 // Types and Constants
 // =============================================================================
 
-const SUPPORTED_DIALECTS = ['postgres', 'clickhouse', 'duckdb'] as const;
+const SUPPORTED_DIALECTS = ['postgres', 'clickhouse', 'duckdb', 'sqlite'] as const;
 
 const SUPPORTED_FORMATS = ['sql', 'json'] as const;
 
@@ -379,11 +405,12 @@ const symbols = {
 };
 
 /**
- * Mock database state - represents the "current" database schema
- * In a real implementation, this would be queried from the database
+ * The "current" database schema: columns by table. Column types are
+ * unknown for introspected databases, whose type names do not map back to
+ * IceType types one to one.
  */
-interface MockDatabaseState {
-  tables: Map<string, Map<string, { type: string; modifier: string }>>;
+interface DatabaseState {
+  tables: Map<string, Map<string, { type?: string; modifier: string }>>;
 }
 
 /**
@@ -397,8 +424,8 @@ interface MockDatabaseState {
  *   to simulate type changes
  */
 function getMockDatabaseState(
-  schemas: Array<{ name: string; schema: import('@icetype/core').IceTypeSchema }>
-): MockDatabaseState {
+  schemas: Array<{ name: string; schema: IceTypeSchema }>
+): DatabaseState {
   const tables = new Map<string, Map<string, { type: string; modifier: string }>>();
 
   for (const { schema } of schemas) {
@@ -455,11 +482,46 @@ function getMockDatabaseState(
   return { tables };
 }
 
+/**
+ * Read the tables and columns of the database at `url`. Names are matched to
+ * the schemas case-insensitively, because PostgreSQL folds unquoted
+ * identifiers to lowercase, and system columns are left out as they are
+ * not part of the schema fields. A database file that does not exist yet
+ * is empty.
+ */
+async function readDatabaseState(
+  url: string,
+  schemas: Array<{ name: string; schema: IceTypeSchema }>
+): Promise<DatabaseState> {
+  const tables = new Map<string, Map<string, { type?: string; modifier: string }>>();
+  const target = parseDatabaseUrl(url);
+  if (target.filename !== ':memory:' && !existsSync(target.filename)) {
+    return { tables };
+  }
+
+  const schemaNames = new Map(schemas.map(({ schema }) => [schema.name.toLowerCase(), schema]));
+  for (const table of await extractSchema(url, target.dialect)) {
+    const schema = schemaNames.get(table.name.toLowerCase());
+    if (!schema) continue;
+
+    const fieldNames = new Map([...schema.fields.keys()].map((name) => [name.toLowerCase(), name]));
+    const columns = new Map<string, { type?: string; modifier: string }>();
+    for (const column of table.columns) {
+      if (column.name.startsWith('$')) continue;
+      const name = fieldNames.get(column.name.toLowerCase()) ?? column.name;
+      columns.set(name, { modifier: column.nullable ? '?' : '!' });
+    }
+    tables.set(schema.name, columns);
+  }
+
+  return { tables };
+}
+
 /**
  * Represents a detected schema change
  */
 interface SchemaChange {
-  type: 'added' | 'removed' | 'modified';
+  type: 'created' | 'added' | 'removed' | 'modified';
   entityName: string;
   fieldName: string;
   description: string;
@@ -472,8 +534,8 @@ interface SchemaChange {
  * Detect changes between schema and database state
  */
 function detectChanges(
-  schemas: Array<{ name: string; schema: import('@icetype/core').IceTypeSchema }>,
-  dbState: MockDatabaseState
+  schemas: Array<{ name: string; schema: IceTypeSchema }>,
+  dbState: DatabaseState
 ): SchemaChange[] {
   const changes: SchemaChange[] = [];
 
@@ -481,19 +543,15 @@ function detectChanges(
     const tableName = schema.name;
     const dbTable = dbState.tables.get(tableName);
 
-    // If table doesn't exist in DB, all fields are "added"
+    // If table doesn't exist in DB, it is created with all its fields
     if (!dbTable) {
-      for (const [fieldName, field] of schema.fields) {
-        if (fieldName.startsWith('$')) continue;
-        changes.push({
-          type: 'added',
-          entityName: tableName,
-          fieldName,
-          description: `Added field '${fieldName}' to ${tableName}`,
-          newType: field.type,
-          isBreaking: false,
-        });
-      }
+      changes.push({
+        type: 'created',
+        entityName: tableName,
+        fieldName: '',
+        description: `Created table ${tableName}`,
+        isBreaking: false,
+      });
       continue;
     }
 
@@ -513,7 +571,7 @@ function detectChanges(
           newType: field.type,
           isBreaking: false,
         });
-      } else if (dbField.type !== field.type) {
+      } else if (dbField.type !== undefined && dbField.type !== field.type) {
         // Field type changed
         const isNarrowing = isTypeNarrowing(dbField.type, field.type);
         changes.push({
@@ -536,7 +594,7 @@ function detectChanges(
           entityName: tableName,
           fieldName: dbFieldName,
           description: `Removed field '${dbFieldName}' from ${tableName}`,
-          oldType: dbField.type,
+          ...(dbField.type !== undefined && { oldType: dbField.type }),
           isBreaking: true,
         });
       }
@@ -566,10 +624,16 @@ function generateMigrationName(changes: SchemaChange[]): string {
   const parts: string[] = [];
 
   // Group by type
+  const created = changes.filter((c) => c.type === 'created');
   const added = changes.filter((c) => c.type === 'added');
   const modified = changes.filter((c) => c.type === 'modified');
   const removed = changes.filter((c) => c.type === 'removed');
 
+  if (created.length > 0) {
+    const tableNames = created.slice(0, 2).map((c) => c.entityName.toLowerCase());
+    parts.push(`create_${tableNames.join('_')}`);
+  }
+
   if (added.length > 0) {
     const fieldNames = added.slice(0, 2).map((c) => c.fieldName);
     parts.push(`add_${fieldNames.join('_')}`);
@@ -588,12 +652,29 @@ function generateMigrationName(changes: SchemaChange[]): string {
   return parts.join('_') || 'migration';
 }
 
+/**
+ * Generate the CREATE TABLE statement(s) for a schema with the dialect's adapter
+ */
+function generateCreateTable(schema: IceTypeSchema, dialect: string): string {
+  switch (dialect) {
+    case 'clickhouse':
+      return transformToClickHouseDDL(schema);
+    case 'duckdb':
+      return transformToDuckDBDDL(schema);
+    case 'sqlite':
+      return transformToSQLiteDDL(schema);
+    default:
+      return transformToPostgresDDL(schema);
+  }
+}
+
 /**
  * Generate SQL statements for the changes
  */
 function generateSqlStatements(
   changes: SchemaChange[],
-  dialect: string
+  dialect: string,
+  schemas: Array<{ name: string; schema: IceTypeSchema }>
 ): string[] {
   const statements: string[] = [];
 
@@ -601,6 +682,13 @@ function generateSqlStatements(
     const tableName = change.entityName;
 
     switch (change.type) {
+      case 'created': {
+        const entry = schemas.find(({ schema }) => schema.name === tableName);
+        if (entry) {
+          statements.push(generateCreateTable(entry.schema, dialect));
+        }
+        break;
+      }
       case 'added':
         statements.push(
           `ALTER TABLE ${tableName} ADD COLUMN ${change.fieldName} ${mapTypeToSql(change.newType || 'string', dialect)};`
@@ -618,6 +706,10 @@ function generateSqlStatements(
           statements.push(
             `ALTER TABLE ${tableName} MODIFY COLUMN ${change.fieldName} ${mapTypeToSql(change.newType || 'string', dialect)};`
           );
+        } else if (dialect === 'sqlite') {
+          statements.push(
+            `-- SQLite cannot change the type of ${tableName}.${change.fieldName} in place; rebuild the table to change it`
+          );
         }
         break;
     }
@@ -661,6 +753,16 @@ function mapTypeToSql(iceType: string, dialect: string): string {
       boolean: 'BOOLEAN',
       timestamp: 'TIMESTAMPTZ',
     },
+    sqlite: {
+      uuid: 'TEXT',
+      string: 'TEXT',
+      int: 'INTEGER',
+      long: 'INTEGER',
+      float: 'REAL',
+      double: 'REAL',
+      boolean: 'INTEGER',
+      timestamp: 'TEXT',
+    },
   };
 
   return mappings[dialect]?.[iceType] || 'TEXT';
@@ -674,7 +776,7 @@ const MIGRATE_HELP: HelpCommand = {
   name: 'migrate',
   description: `Generate and manage database migrations from IceType schemas.
 
-Supported dialects: postgres, clickhouse, duckdb
+Supported dialects: postgres, clickhouse, duckdb, sqlite
 
 Common workflow:
   1. Edit your schema.ts file
@@ -777,10 +879,16 @@ migrate dev command.
 
 The command will:
   1. Load your schema file
-  2. Compare it to the current database state
-  3. Detect added, removed, and modified fields
+  2. Compare it to the current database state (the tables and columns of
+     the --database-url database, if given)
+  3. Detect created tables and added, removed, and modified fields
   4. Generate a timestamped migration file
-  5. Optionally apply the migration (with --yes)
+  5. Optionally apply the migration (with --yes and --database-url)
+
+Migrations are applied with a built-in in-process engine chosen by the URL:
+sqlite:./dev.db, pglite://./dev-db (embedded Postgres) or
+duckdb://./warehouse.duckdb, and --dialect must match it. Each migration
+runs in a transaction and is rolled back if any statement fails.
 
 Change types are color-coded:
   + Green  = Added fields (safe)
@@ -789,8 +897,8 @@ Change types are color-coded:
   usage: 'ice migrate dev --schema <file> --dialect <dialect> [options]',
   options: [
     { name: 'schema', short: 's', description: 'Path to the IceType schema file (.ts)', required: true },
-    { name: 'dialect', short: 'd', description: 'Target SQL dialect: postgres, clickhouse, or duckdb', required: true },
-    { name: 'database-url', short: 'db', description: 'Database connection URL (e.g., postgres://localhost/mydb)' },
+    { name: 'dialect', short: 'd', description: 'Target SQL dialect: postgres, clickhouse, duckdb, or sqlite', required: true },
+    { name: 'database-url', short: 'db', description: 'Database to apply the migration to (sqlite:, pglite:// or duckdb:// URL)' },
     { name: 'migrations-dir', description: 'Output directory for migration files', defaultValue: './migrations' },
     { name: 'name', short: 'n', description: 'Custom name for the migration (auto-generated if not provided)' },
     { name: 'yes', short: 'y', description: 'Skip confirmation and apply migration immediately' },
@@ -806,8 +914,8 @@ Change types are color-coded:
     '# Preview changes without creating migration file',
     'ice migrate dev -s ./schema.ts -d postgres --dry-run',
     '',
-    '# Auto-apply migration in CI/CD pipelines',
-    'ice migrate dev -s ./schema.ts -d postgres --yes',
+    '# Auto-apply migration to an embedded Postgres database',
+    'ice migrate dev -s ./schema.ts -d postgres --yes --database-url pglite://./dev-db',
     '',
     '# Custom migration name for clarity',
     'ice migrate dev -s ./schema.ts -d postgres --name add_user_email_field',
@@ -834,13 +942,18 @@ with the migrations directory. Shows:
   - Count of applied and pending migrations
   - List of pending migrations that need to be run
 
+Applied migrations are read from the _icetype_migrations table of the
+database given by --database-url, or from <migrations-dir>/.history.json
+when no URL is given (or with --history file).
+
 Use --verbose to see all applied migrations as well.
 Use --json for machine-readable output.`,
   usage: 'ice migrate status --schema <file> [--migrations-dir <dir>] [options]',
   options: [
     { name: 'schema', short: 's', description: 'Path to the IceType schema file (.ts)', required: true },
     { name: 'migrations-dir', description: 'Directory containing migration files', defaultValue: './migrations' },
-    { name: 'database-url', description: 'Database connection URL' },
+    { name: 'database-url', description: 'Database whose history table to read (sqlite:, pglite:// or duckdb:// URL)' },
+    { name: 'history', description: 'Where applied migrations are recorded: table or file (default: table with --database-url, else file)' },
     { name: 'dialect', short: 'd', description: 'SQL dialect', defaultValue: 'postgres' },
     { name: 'verbose', short: 'v', description: 'Show detailed output including all applied migrations' },
     { name: 'json', description: 'Output results in JSON format' },
@@ -850,6 +963,9 @@ Use --json for machine-readable output.`,
     '# Check migration status',
     'ice migrate status --schema ./schema.ts',
     '',
+    '# Check status against the history table of a SQLite database',
+    'ice migrate status --schema ./schema.ts --database-url sqlite:./dev.db',
+    '',
     '# Check status with custom migrations directory',
     'ice migrate status --schema ./schema.ts --migrations-dir ./db/migrations',
     '',
@@ -865,30 +981,54 @@ const MIGRATE_UP_HELP: HelpCommand = {
   name: 'migrate up',
   description: `Apply pending migrations to the database.
 
-Runs all pending migrations in order, from oldest to newest.
+Runs all pending migrations in order, from oldest to newest, against the
+database given by --database-url (sqlite:./dev.db, pglite://./dev-db or
+duckdb://./warehouse.duckdb). Each migration
+runs in its own transaction; a failing statement rolls back its migration
+and stops the run. Without --database-url the plan is shown only.
+
+Applied migrations are recorded with their checksum and duration in the
+database's _icetype_migrations table, or in <migrations-dir>/.history.json
+with --history file, so later runs only apply new migrations.
+
 Use --dry-run to preview which migrations would be applied without
 actually executing them.
 
 The --target flag allows you to apply migrations up to (and including)
-a specific migration file.`,
+a specific migration file.
+
+Before applying anything, the checksum of every applied migration file is
+compared with the one recorded when it was applied; edited files stop the
+run. Use --repair to accept their current contents. While applying, the
+run holds a migration lock (a Postgres advisory lock, MySQL GET_LOCK, or a
+row in _icetype_migrations_lock for SQLite and DuckDB) so concurrent
+deploys wait for each other.`,
   usage: 'ice migrate up --schema <file> [--migrations-dir <dir>] [options]',
   options: [
     { name: 'schema', short: 's', description: 'Path to the IceType schema file (.ts)', required: true },
     { name: 'migrations-dir', description: 'Directory containing migration files', defaultValue: './migrations' },
-    { name: 'database-url', description: 'Database connection URL' },
+    { name: 'database-url', description: 'Database to run migrations against (sqlite:, pglite:// or duckdb:// URL)' },
+    { name: 'history', description: 'Where applied migrations are recorded: table or file (default: table with --database-url, else file)' },
     { name: 'dialect', short: 'd', description: 'SQL dialect', defaultValue: 'postgres' },
     { name: 'dry-run', description: 'Preview changes without executing' },
     { name: 'verbose', short: 'v', description: 'Show detailed output including full SQL' },
     { name: 'json', description: 'Output results in JSON format' },
     { name: 'target', description: 'Apply migrations up to this specific migration file' },
+    { name: 'repair', description: 'Record the current checksum of applied migration files that were edited' },
   ],
   examples: [
-    '# Apply all pending migrations',
-    'ice migrate up --schema ./schema.ts --migrations-dir ./migrations',
+    '# Apply all pending migrations to a SQLite database',
+    'ice migrate up --schema ./schema.ts --migrations-dir ./migrations --database-url sqlite:./dev.db',
+    '',
+    '# Apply migrations to a DuckDB file',
+    'ice migrate up --schema ./schema.ts --migrations-dir ./migrations --database-url duckdb://./warehouse.duckdb',
     '',
     '# Preview which migrations would be applied',
     'ice migrate up --schema ./schema.ts --migrations-dir ./migrations --dry-run',
     '',
+    '# Accept edits to already-applied migration files',
+    'ice migrate up --schema ./schema.ts --migrations-dir ./migrations --database-url sqlite:./dev.db --repair',
+    '',
     '# Apply up to a specific migration',
     'ice migrate up --schema ./schema.ts --migrations-dir ./migrations --target 20240119_add_name.sql',
     '',
@@ -901,8 +1041,11 @@ const MIGRATE_DOWN_HELP: HelpCommand = {
   name: 'migrate down',
   description: `Rollback applied migrations.
 
-Reverts the most recently applied migration(s). Use --step to specify
-how many migrations to roll back (default: 1).
+Reverts the most recently applied migration(s), as recorded in the
+migration history. Use --step to specify how many migrations to roll back
+(default: 1). The DOWN sections run against the database given by
+--database-url, one transaction per migration, and each rollback is
+recorded in the history.
 
 Use --dry-run to preview which migrations would be rolled back without
 actually executing them.`,
@@ -910,7 +1053,8 @@ actually executing them.`,
   options: [
     { name: 'schema', short: 's', description: 'Path to the IceType schema file (.ts)', required: true },
     { name: 'migrations-dir', description: 'Directory containing migration files', defaultValue: './migrations' },
-    { name: 'database-url', description: 'Database connection URL' },
+    { name: 'database-url', description: 'Database to run migrations against (sqlite:, pglite:// or duckdb:// URL)' },
+    { name: 'history', description: 'Where applied migrations are recorded: table or file (default: table with --database-url, else file)' },
     { name: 'dialect', short: 'd', description: 'SQL dialect', defaultValue: 'postgres' },
     { name: 'dry-run', description: 'Preview changes without executing' },
     { name: 'verbose', short: 'v', description: 'Show detailed output including full SQL' },
@@ -919,7 +1063,7 @@ actually executing them.`,
   ],
   examples: [
     '# Roll back the last migration',
-    'ice migrate down --schema ./schema.ts --migrations-dir ./migrations',
+    'ice migrate down --schema ./schema.ts --migrations-dir ./migrations --database-url sqlite:./dev.db',
     '',
     '# Preview rollback without executing',
     'ice migrate down --schema ./schema.ts --migrations-dir ./migrations --dry-run',
@@ -1178,6 +1322,7 @@ export async function migrateDiff(args: string[]): Promise<void> {
     addedFields: string[];
     removedFields: string[];
     modifiedFields: string[];
+    ttlChange?: { old: string | null; new: string | null };
     upStatements: string[];
     downStatements: string[];
   }> = [];
@@ -1254,6 +1399,12 @@ export async function migrateDiff(args: string[]): Promise<void> {
         `-- Modified fields: ${schemaDiff.modifiedFields.map((f) => `${f.name} (${f.changes.join(', ')})`).join(', ')}`
       );
     }
+    if (schemaDiff.ttlChange) {
+      const { oldTtl, newTtl } = schemaDiff.ttlChange;
+      output.push(
+        `-- TTL: ${oldTtl ? formatTtlDirective(oldTtl) : 'none'} -> ${newTtl ? formatTtlDirective(newTtl) : 'none'}`
+      );
+    }
     output.push(``);
 
     // UP migration
@@ -1280,6 +1431,12 @@ export async function migrateDiff(args: string[]): Promise<void> {
       addedFields: schemaDiff.addedFields.map((f) => f.name),
       removedFields: schemaDiff.removedFields.map((f) => f.name),
       modifiedFields: schemaDiff.modifiedFields.map((f) => f.name),
+      ...(schemaDiff.ttlChange && {
+        ttlChange: {
+          old: schemaDiff.ttlChange.oldTtl ? formatTtlDirective(schemaDiff.ttlChange.oldTtl) : null,
+          new: schemaDiff.ttlChange.newTtl ? formatTtlDirective(schemaDiff.ttlChange.newTtl) : null,
+        },
+      }),
       upStatements: plan.up ? [plan.up] : [],
       downStatements: plan.down ? [plan.down] : [],
     });
@@ -1570,8 +1727,22 @@ export async function migrateDev(args: string[]): Promise<void> {
   const force = values.force === true;
   const jsonOutput = values.json === true;
   const quiet = values.quiet === true;
-  // database-url can come from --database-url or --db (unused for now, will be used for real DB connections)
-  // const databaseUrl = (values['database-url'] || values.db) as string | undefined;
+  // database-url can come from --database-url or --db
+  const databaseUrl = (values['database-url'] || values.db) as string | undefined;
+
+  // The generated SQL is specific to the dialect, so it must match the database
+  if (databaseUrl) {
+    const target = parseDatabaseUrl(databaseUrl);
+    if (target.dialect !== dialect) {
+      throw new IceTypeError(
+        `--dialect ${dialect} does not match the ${target.dialect} database at '${databaseUrl}'`,
+        {
+          code: 'ICETYPE_CLI_INVALID_OPTION',
+          context: { optionName: 'dialect', value: dialect, databaseDialect: target.dialect },
+        }
+      );
+    }
+  }
 
   // Validate paths for security
   validateSchemaPath(schemaPath);
@@ -1605,7 +1776,9 @@ export async function migrateDev(args: string[]): Promise<void> {
 
   // Step 2: Compare with database
   showStep(2, 4, 'Comparing with database state...');
-  const dbState = getMockDatabaseState(loadResult.schemas);
+  const dbState = databaseUrl
+    ? await readDatabaseState(databaseUrl, loadResult.schemas)
+    : getMockDatabaseState(loadResult.schemas);
 
   // Step 3: Detect changes
   showStep(3, 4, 'Detecting changes...');
@@ -1635,7 +1808,7 @@ export async function migrateDev(args: string[]): Promise<void> {
   const migrationPath = join(migrationsDir, migrationFilename);
 
   // Generate SQL statements
-  const sqlStatements = generateSqlStatements(changes, dialect);
+  const sqlStatements = generateSqlStatements(changes, dialect, loadResult.schemas);
   const migrationContent = [
     `-- IceType Migration`,
     `-- Generated: ${new Date().toISOString()}`,
@@ -1651,6 +1824,21 @@ export async function migrateDev(args: string[]): Promise<void> {
 
   // Output in JSON format if requested
   if (jsonOutput) {
+    // Still write the file unless dry-run
+    if (!dryRun) {
+      if (!existsSync(migrationsDir)) {
+        mkdirSync(migrationsDir, { recursive: true });
+      }
+      writeFileSync(migrationPath, migrationContent);
+    }
+
+    const apply = !dryRun && autoApply && databaseUrl !== undefined;
+    if (apply) {
+      await executeMigrations(databaseUrl, resolveHistoryConfig(migrationsDir, databaseUrl, undefined), 'up', [
+        { file: migrationFilename, sql: sqlStatements.join('\n'), content: migrationContent },
+      ]);
+    }
+
     const result = {
       changes: changes.map((c) => ({
         type: c.type,
@@ -1661,17 +1849,9 @@ export async function migrateDev(args: string[]): Promise<void> {
       })),
       migrationFile: migrationFilename,
       sql: sqlStatements,
-      applied: !dryRun && autoApply,
+      applied: apply,
     };
     console.log(JSON.stringify(result, null, 2));
-
-    // Still write the file unless dry-run
-    if (!dryRun) {
-      if (!existsSync(migrationsDir)) {
-        mkdirSync(migrationsDir, { recursive: true });
-      }
-      writeFileSync(migrationPath, migrationContent);
-    }
     return;
   }
 
@@ -1680,6 +1860,13 @@ export async function migrateDev(args: string[]): Promise<void> {
   for (const change of changes) {
     // Keep plain text format for test compatibility (tests check for specific patterns)
     switch (change.type) {
+      case 'created':
+        if (noColor) {
+          console.log(`+ Created table ${change.entityName}`);
+        } else {
+          console.log(`${colors.green}+${colors.reset} ${colors.green}Created table ${change.entityName}${colors.reset}`);
+        }
+        break;
       case 'added':
         if (noColor) {
           console.log(`+ Added field '${change.fieldName}' to ${change.entityName}`);
@@ -1770,8 +1957,14 @@ export async function migrateDev(args: string[]): Promise<void> {
 
   // Apply or prompt
   if (autoApply || (force && hasBreakingChanges)) {
-    // In a real implementation, this would execute the SQL against the database
-    console.log('Migration applied successfully');
+    if (databaseUrl) {
+      await executeMigrations(databaseUrl, resolveHistoryConfig(migrationsDir, databaseUrl, undefined), 'up', [
+        { file: migrationFilename, sql: sqlStatements.join('\n'), content: migrationContent },
+      ]);
+      console.log('Migration applied successfully');
+    } else {
+      console.log(`Migration written to ${migrationPath}. Pass --database-url to apply it.`);
+    }
   } else {
     console.log('Apply this migration? [y/N]');
     // In a real implementation, this would wait for user input
@@ -1812,6 +2005,162 @@ function extractDownSql(content: string): string {
   return '';
 }
 
+// =============================================================================
+// Migration History
+// =============================================================================
+
+/** Where applied migrations are recorded */
+const HISTORY_BACKENDS = ['table', 'file'] as const;
+
+/**
+ * Resolved location of the migration history: the `_icetype_migrations`
+ * table in the target database, or a JSON file in the migrations directory.
+ */
+type HistoryConfig =
+  | { backend: 'table'; databaseUrl: string }
+  | { backend: 'file'; path: string };
+
+/**
+ * Resolve the --history option. History defaults to the database table when
+ * --database-url is given and to `<migrations-dir>/.history.json` otherwise.
+ */
+function resolveHistoryConfig(
+  migrationsDir: string,
+  databaseUrl: string | undefined,
+  history: string | undefined
+): HistoryConfig {
+  const backend = history ?? (databaseUrl ? 'table' : 'file');
+  validateOptionValue(backend, 'history', HISTORY_BACKENDS);
+
+  if (backend === 'file') {
+    return { backend, path: join(migrationsDir, DEFAULT_HISTORY_FILE) };
+  }
+  if (!databaseUrl) {
+    throw new Error('--history table requires --database-url');
+  }
+  return { backend, databaseUrl };
+}
+
+/**
+ * Open the configured history. Table history is read through `connection`,
+ * which must point at the history's database.
+ */
+function openHistory(config: HistoryConfig, connection: DatabaseConnection): MigrationHistory {
+  return createMigrationHistory(
+    config.backend === 'table' ? new SqlHistoryStorage(connection) : new FileHistoryStorage(config.path)
+  );
+}
+
+/**
+ * Run `fn` against the configured history. Only table history opens the
+ * database.
+ */
+async function withHistory<T>(config: HistoryConfig, fn: (history: MigrationHistory) => Promise<T>): Promise<T> {
+  if (config.backend === 'file') {
+    return fn(createMigrationHistory(new FileHistoryStorage(config.path)));
+  }
+
+  const connection = await createDatabaseExecutor(config.databaseUrl);
+  try {
+    return await fn(openHistory(config, connection));
+  } finally {
+    await connection.close();
+  }
+}
+
+/**
+ * Read the applied migrations, oldest first.
+ */
+async function readAppliedMigrations(config: HistoryConfig): Promise<MigrationRecord[]> {
+  return withHistory(config, (history) => history.getAll());
+}
+
+// =============================================================================
+// Database Execution
+// =============================================================================
+
+/**
+ * A migration file and the section of it to run.
+ */
+interface MigrationFileSql {
+  file: string;
+  /** The UP or DOWN SQL to execute */
+  sql: string;
+  /** Full file content, checksummed into the history */
+  content: string;
+}
+
+/**
+ * Run migration SQL against the database at `databaseUrl` and record each
+ * migration in the history: `up` records it as applied, `down` as rolled back.
+ *
+ * The run holds the database's migration lock, so concurrent deploys wait
+ * for each other; `up` skips migrations another run applied meanwhile.
+ * Each migration runs in its own transaction. A failing statement rolls
+ * back its migration and stops the run; migrations before it stay applied
+ * and recorded.
+ *
+ * @returns The files that were run
+ * @throws {Error} If a migration fails
+ * @throws {MigrationLockError} If the lock is not acquired in time
+ */
+async function executeMigrations(
+  databaseUrl: string,
+  historyConfig: HistoryConfig,
+  direction: 'up' | 'down',
+  migrations: MigrationFileSql[],
+  onApplied: (file: string, statements: number) => void = () => {}
+): Promise<string[]> {
+  const connection = await createDatabaseExecutor(databaseUrl);
+  const history = openHistory(historyConfig, connection);
+  const runner = createMigrationRunner(connection, { history });
+  const lock = createMigrationLock(connection);
+  const applied: string[] = [];
+
+  try {
+    await lock.acquire();
+    for (const { file, sql, content } of migrations) {
+      if (direction === 'up' && (await history.hasApplied(file))) {
+        continue;
+      }
+
+      const migration = {
+        id: file,
+        fromVersion: createSchemaVersion(0, 0, 0),
+        toVersion: createSchemaVersion(0, 0, 0),
+        timestamp: new Date(),
+        operations: [],
+        isBreaking: false,
+      };
+      const statements = splitSqlStatements(sql);
+      const result = direction === 'up'
+        ? await runner.run(migration, statements, { checksum: computeChecksum(content) })
+        : await runner.rollback(migration, statements);
+
+      if (!result.success) {
+        const at = result.error && result.error.statementIndex >= 0
+          ? ` at statement ${result.error.statementIndex + 1}`
+          : '';
+        throw new Error(
+          `Migration ${file} failed${at}: ${result.error?.message ?? 'unknown error'}. ` +
+          `Its changes were rolled back.`
+        );
+      }
+
+      applied.push(file);
+      onApplied(file, result.executedStatements);
+    }
+  } finally {
+    try {
+      await lock.release();
+    } finally {
+      await connection.close();
+    }
+  }
+
+  return applied;
+}
+
 /**
  * ice migrate up command
  *
@@ -1830,11 +2179,13 @@ export async function migrateUp(args: string[]): Promise<void> {
       schema: { type: 'string', short: 's' },
       'migrations-dir': { type: 'string', default: './migrations' },
       'database-url': { type: 'string' },
+      history: { type: 'string' },
       dialect: { type: 'string', short: 'd', default: 'postgres' },
       'dry-run': { type: 'boolean' },
       verbose: { type: 'boolean', short: 'v' },
       json: { type: 'boolean' },
       target: { type: 'string' },
+      repair: { type: 'boolean' },
     },
   });
 
@@ -1852,6 +2203,9 @@ export async function migrateUp(args: string[]): Promise<void> {
   const verbose = values.verbose === true;
   const jsonOutput = values.json === true;
   const target = values.target as string | undefined;
+  const repair = values.repair === true;
+  const databaseUrl = values['database-url'] as string | undefined;
+  const historyConfig = resolveHistoryConfig(migrationsDir, databaseUrl, values.history as string | undefined);
 
   // Validate paths for security
   validateSchemaPath(schemaPath);
@@ -1902,9 +2256,35 @@ export async function migrateUp(args: string[]): Promise<void> {
     return;
   }
 
-  // Simulate: in dry-run mode, treat all migrations as pending (for testing purposes)
-  // In a real implementation, this would query the migrations table
-  let pendingMigrations = allMigrations;
+  // Pending migrations are those not recorded as applied
+  const appliedRecords = await readAppliedMigrations(historyConfig);
+  const applied = new Set(appliedRecords.map((record) => record.migrationId));
+  let pendingMigrations = allMigrations.filter((file) => !applied.has(file));
+
+  // Applied migration files must be unchanged since they were applied
+  const checksums = new Map<string, string>();
+  for (const record of appliedRecords) {
+    const filePath = join(migrationsDir, record.migrationId);
+    if (existsSync(filePath)) {
+      checksums.set(record.migrationId, computeChecksum(readFileSync(filePath, 'utf-8')));
+    }
+  }
+  const drifted = findChecksumDrift(appliedRecords, checksums);
+  if (drifted.length > 0 && !repair) {
+    const error = new MigrationChecksumError(drifted);
+    error.message += '\nRestore the original files, or run with --repair to accept their current contents.';
+    throw error;
+  }
+  if (drifted.length > 0 && !dryRun) {
+    await withHistory(historyConfig, async (history) => {
+      for (const drift of drifted) {
+        await history.updateChecksum(drift.migrationId, drift.currentChecksum);
+      }
+    });
+    if (!jsonOutput) {
+      console.log(`Repaired checksum of ${drifted.length} migration(s): ${drifted.map((d) => d.migrationId).join(', ')}`);
+    }
+  }
 
   // If target is specified, only include migrations up to target
   if (target) {
@@ -1931,25 +2311,32 @@ export async function migrateUp(args: string[]): Promise<void> {
 
   // Read SQL content from pending migrations
   const sqlStatements: string[] = [];
-  const migrationDetails: Array<{ file: string; sql: string }> = [];
+  const migrationDetails: MigrationFileSql[] = [];
 
   for (const migrationFile of pendingMigrations) {
     const filePath = join(migrationsDir, migrationFile);
     const content = readFileSync(filePath, 'utf-8') || '';
     const upSql = extractUpSql(content);
     sqlStatements.push(upSql);
-    migrationDetails.push({ file: migrationFile, sql: upSql });
+    migrationDetails.push({ file: migrationFile, sql: upSql, content });
   }
 
   // JSON output
   if (jsonOutput) {
+    const appliedNow = databaseUrl && !dryRun
+      ? await executeMigrations(databaseUrl, historyConfig, 'up', migrationDetails)
+      : [];
     console.log(JSON.stringify({
       dryRun,
       migrations: pendingMigrations,
       sql: sqlStatements,
       statements: sqlStatements,
-      plan: `${pendingMigrations.length} migration(s) would be applied`,
+      plan: appliedNow.length > 0
+        ? `${appliedNow.length} migration(s) applied`
+        : `${pendingMigrations.length} migration(s) would be applied`,
       changes: `${sqlStatements.length} SQL statements`,
+      applied: appliedNow,
+      repaired: dryRun ? [] : drifted.map((d) => d.migrationId),
     }, null, 2));
     return;
   }
@@ -2055,6 +2442,15 @@ export async function migrateUp(args: string[]): Promise<void> {
     // In dry-run mode, show what would happen but don't execute
     console.log(c.dim('─'.repeat(50)));
     console.log(c.green(symbols.checkmark) + ' Dry-run complete. No changes were made.');
+  } else if (databaseUrl) {
+    console.log(`Applying to ${c.cyan(databaseUrl)}...`);
+    const appliedNow = await executeMigrations(databaseUrl, historyConfig, 'up', migrationDetails, (file, count) => {
+      console.log(`${c.green(symbols.checkmark)} ${file} ${c.dim(`(${count} statement${count !== 1 ? 's' : ''})`)}`);
+    });
+    console.log('');
+    console.log(c.green(`Applied ${appliedNow.length} migration(s)`));
+  } else {
+    console.log(c.yellow('No --database-url given; migrations were not applied.'));
   }
 }
 
@@ -2080,6 +2476,7 @@ export async function migrateDown(args: string[]): Promise<void> {
       schema: { type: 'string', short: 's' },
       'migrations-dir': { type: 'string', default: './migrations' },
       'database-url': { type: 'string' },
+      history: { type: 'string' },
       dialect: { type: 'string', short: 'd', default: 'postgres' },
       'dry-run': { type: 'boolean' },
       verbose: { type: 'boolean', short: 'v' },
@@ -2102,6 +2499,8 @@ export async function migrateDown(args: string[]): Promise<void> {
   const verbose = values.verbose === true;
   const jsonOutput = values.json === true;
   const step = parseInt(values.step as string, 10) || 1;
+  const databaseUrl = values['database-url'] as string | undefined;
+  const historyConfig = resolveHistoryConfig(migrationsDir, databaseUrl, values.history as string | undefined);
 
   // Validate paths for security
   validateSchemaPath(schemaPath);
@@ -2131,15 +2530,7 @@ export async function migrateDown(args: string[]): Promise<void> {
     return;
   }
 
-  // Get all migration files
-  const files = readdirSync(migrationsDir);
-  const allMigrations = files
-    .filter((f) => typeof f === 'string' && f.endsWith('.sql'))
-    .sort();
-
-  // Simulate: all migrations are "applied"
-  // In a real implementation, this would query the migrations table
-  const appliedMigrations = allMigrations;
+  const appliedMigrations = (await readAppliedMigrations(historyConfig)).map((record) => record.migrationId);
 
   if (appliedMigrations.length === 0) {
     const message = 'No migrations to roll back';
@@ -2161,30 +2552,46 @@ export async function migrateDown(args: string[]): Promise<void> {
 
   // Read SQL content from migrations
   const sqlStatements: string[] = [];
-  const migrationDetails: Array<{ file: string; sql: string }> = [];
+  const migrationDetails: MigrationFileSql[] = [];
 
   for (const migrationFile of migrationsToRollback) {
     const filePath = join(migrationsDir, migrationFile);
+    if (!existsSync(filePath)) {
+      throw new Error(`Migration ${migrationFile} is recorded as applied but ${filePath} does not exist`);
+    }
     const content = readFileSync(filePath, 'utf-8') || '';
     const downSql = extractDownSql(content);
     if (downSql) {
       sqlStatements.push(downSql);
-      migrationDetails.push({ file: migrationFile, sql: downSql });
+      migrationDetails.push({ file: migrationFile, sql: downSql, content });
     } else {
       // No DOWN section, generate a placeholder warning
       const placeholder = `-- No DOWN migration defined for ${migrationFile}`;
       sqlStatements.push(placeholder);
-      migrationDetails.push({ file: migrationFile, sql: placeholder });
+      migrationDetails.push({ file: migrationFile, sql: placeholder, content });
+    }
+  }
+
+  // Refuse to roll back part of the set when a migration cannot be undone
+  const applyRollback = databaseUrl !== undefined && !dryRun;
+  if (applyRollback) {
+    const missing = migrationDetails.find((detail) => detail.sql.startsWith('-- No DOWN migration'));
+    if (missing) {
+      throw new Error(`No DOWN migration defined for ${missing.file}; nothing was rolled back.`);
     }
   }
 
   // JSON output
   if (jsonOutput) {
+    const rolledBack = applyRollback
+      ? await executeMigrations(databaseUrl, historyConfig, 'down', migrationDetails)
+      : [];
     console.log(JSON.stringify({
       dryRun,
       migrations: migrationsToRollback,
       sql: sqlStatements,
       step,
+      rolledBack,
     }, null, 2));
     return;
   }
@@ -2297,6 +2704,15 @@ export async function migrateDown(args: string[]): Promise<void> {
   if (dryRun) {
     console.log(c.dim('─'.repeat(50)));
     console.log(c.green(symbols.checkmark) + ' Dry-run complete. No changes were made.');
+  } else if (applyRollback) {
+    console.log(`Rolling back on ${c.cyan(databaseUrl)}...`);
+    const rolledBack = await executeMigrations(databaseUrl, historyConfig, 'down', migrationDetails, (file, count) => {
+      console.log(`${c.green(symbols.checkmark)} ${file} ${c.dim(`(${count} statement${count !== 1 ? 's' : ''})`)}`);
+    });
+    console.log('');
+    console.log(c.green(`Rolled back ${rolledBack.length} migration(s)`));
+  } else {
+    console.log(c.yellow('No --database-url given; migrations were not rolled back.'));
   }
 }
 
@@ -2385,6 +2801,7 @@ export async function migrateStatus(args: string[]): Promise<void> {
       schema: { type: 'string', short: 's' },
       'migrations-dir': { type: 'string', default: './migrations' },
       'database-url': { type: 'string' },
+      history: { type: 'string' },
       dialect: { type: 'string', short: 'd', default: 'postgres' },
       verbose: { type: 'boolean', short: 'v' },
       json: { type: 'boolean' },
@@ -2403,6 +2820,7 @@ export async function migrateStatus(args: string[]): Promise<void> {
   const schemaPath = values.schema as string;
   const migrationsDir = values['migrations-dir'] as string;
   const databaseUrl = values['database-url'] as string | undefined;
+  const historyConfig = resolveHistoryConfig(migrationsDir, databaseUrl, values.history as string | undefined);
   const verbose = values.verbose === true;
   const jsonOutput = values.json === true;
   // Note: dry-run is accepted but status is inherently read-only
@@ -2444,12 +2862,11 @@ export async function migrateStatus(args: string[]): Promise<void> {
       .sort();
   }
 
-  // For this implementation, we consider the first 2 migrations as "applied"
-  // and the rest as "pending". In a real implementation, this would be tracked
-  // in a database migrations table.
-  const appliedCount = Math.min(allMigrations.length, 2);
-  const appliedMigrations = allMigrations.slice(0, appliedCount);
-  const pendingMigrations = allMigrations.slice(appliedCount);
+  // Applied migrations come from the history; every other file is pending
+  const appliedRecords = await readAppliedMigrations(historyConfig);
+  const appliedMigrations = appliedRecords.map((record) => record.migrationId);
+  const appliedCount = appliedMigrations.length;
+  const pendingMigrations = allMigrations.filter((file) => !appliedMigrations.includes(file));
 
   // JSON output mode - unchanged for machine-readable output
   if (jsonOutput) {
@@ -2505,13 +2922,12 @@ export async function migrateStatus(args: string[]): Promise<void> {
   console.log('');
 
   // Show verbose output for applied migrations with timestamps
-  if (verbose && appliedMigrations.length > 0) {
+  if (verbose && appliedRecords.length > 0) {
     console.log(c.green('Applied:'));
-    for (const migration of appliedMigrations) {
-      const parsed = parseMigrationFilename(migration);
-      const timeStr = parsed.timestamp ? ` ${c.dim(`(${formatRelativeTime(parsed.timestamp)})`)}` : '';
+    for (const record of appliedRecords) {
+      const timeStr = ` ${c.dim(`(${formatRelativeTime(record.appliedAt)})`)}`;
       const icon = noColor ? '-' : `${colors.green}${symbols.checkmark}${colors.reset}`;
-      console.log(`  ${icon} ${migration}${timeStr}`);
+      console.log(`  ${icon} ${record.migrationId}${timeStr}`);
     }
     console.log('');
   }
@@ -2533,7 +2949,7 @@ export async function migrateStatus(args: string[]): Promise<void> {
     const icon = noColor ? '' : `${colors.green}${symbols.checkmark}${colors.reset} `;
     console.log(`${icon}Database is up to date.`);
   } else {
-    console.log(c.dim(`Run 'ice migrate dev' to apply pending migrations.`));
+    console.log(c.dim(`Run 'ice migrate up' to apply pending migrations.`));
   }
 }
 
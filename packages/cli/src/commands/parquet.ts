@@ -0,0 +1,98 @@
+/**
+ * ice parquet infer command
+ *
+ * Reads the footer of a local Parquet file and infers an IceType schema
+ * from its physical and logical column types, so schemas can be
+ * bootstrapped from Parquet files written by other tools.
+ */
+
+import { existsSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { parquetFooterToIceType, readParquetFooter } from '@icetype/iceberg';
+import { generateHelpText, hasHelpFlag, type HelpCommand } from '../utils/help.js';
+import { createLogger, LogLevel } from '../utils/logger.js';
+import { requireOption, validateOptionValue } from '../utils/cli-error.js';
+import { formatTypescript } from './iceberg.js';
+import { writeOutput } from './pull.js';
+
+const PARQUET_INFER_HELP: HelpCommand = {
+  name: 'parquet infer',
+  description: 'Infer an IceType schema from the footer of a Parquet file',
+  usage: 'ice parquet infer <file.parquet> [--output <file>] [--format <format>] [--name <name>]',
+  options: [
+    { name: 'input', short: 'i', description: 'Parquet file to read (or pass it as the first argument)', required: true },
+    { name: 'output', short: 'o', description: 'Output file path (default: stdout)' },
+    { name: 'format', short: 'f', description: 'Output format (typescript, json)', defaultValue: 'typescript' },
+    { name: 'name', short: 'n', description: 'Schema name (default: from the schema message name)' },
+    { name: 'quiet', short: 'q', description: 'Suppress informational messages and warnings' },
+  ],
+  examples: [
+    'ice parquet infer ./drops/orders.parquet --output ./schema.ts',
+    'ice parquet infer ./part-00000.parquet --name Order --format json',
+  ],
+};
+
+const INFER_FORMATS = ['typescript', 'json'] as const;
+type InferFormat = (typeof INFER_FORMATS)[number];
+
+/**
+ * CLI command handler for `ice parquet infer`
+ *
+ * Maps the columns of a Parquet file back to IceType types, including
+ * lists, maps and nested groups (as structs), and prints the schema as
+ * TypeScript or JSON. Only the footer is read, whatever the file size.
+ *
+ * @param args - Command line arguments
+ *
+ * @example
+ * ```bash
+ * ice parquet infer ./drops/orders.parquet --output ./schema.ts
+ * ```
+ */
+export async function parquetInfer(args: string[]): Promise<void> {
+  if (hasHelpFlag(args)) {
+    console.log(generateHelpText(PARQUET_INFER_HELP));
+    process.exit(0);
+  }
+
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      input: { type: 'string', short: 'i' },
+      output: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      name: { type: 'string', short: 'n' },
+      quiet: { type: 'boolean', short: 'q' },
+    },
+  });
+
+  const quiet = values.quiet ?? false;
+  const logger = createLogger({ level: quiet ? LogLevel.ERROR : LogLevel.INFO, quiet });
+
+  const inputPath = values.input ?? positionals[0];
+  requireOption(inputPath, 'input', 'parquet infer', 'ice parquet infer ./orders.parquet -o ./schema.ts');
+  const format = (values.format ?? 'typescript') as InferFormat;
+  validateOptionValue(format, 'format', INFER_FORMATS);
+
+  if (!existsSync(inputPath)) {
+    throw new Error(`Parquet file not found: ${inputPath}`);
+  }
+
+  const footer = await readParquetFooter(inputPath);
+  const { definition, warnings } = parquetFooterToIceType(
+    footer,
+    values.name !== undefined ? { name: values.name } : {}
+  );
+  for (const warning of warnings) {
+    logger.warn(`${inputPath}: ${warning}`);
+  }
+
+  const output = format === 'json' ? `${JSON.stringify(definition, null, 2)}\n` : formatTypescript(definition);
+  if (values.output) {
+    await writeOutput(values.output, output);
+    logger.success(`Inferred ${definition.$type} from ${inputPath} (${footer.rowCount} rows) to ${values.output}`);
+  } else {
+    console.log(output);
+  }
+}
@@ -7,8 +7,8 @@
 
 import { writeFileSync } from 'node:fs';
 import { parseArgs } from 'node:util';
-import type { IceTypeSchema } from '@icetype/core';
-import { isProjection, type ProjectionType } from '@icetype/core';
+import type { IceTypeSchema, OrderByField } from '@icetype/core';
+import { formatOrderBy, isProjection, type ProjectionType } from '@icetype/core';
 import {
   generateProjectionSchema,
   type ProjectionDefinition,
@@ -41,6 +41,7 @@ interface SchemaDirectivesWithProjection {
   from?: string;
   expand?: string[];
   flatten?: Record<string, string>;
+  orderBy?: OrderByField[];
   partitionBy?: string[];
   index?: Array<{ fields: string[]; unique?: boolean; name?: string }>;
   fts?: string[];
@@ -102,13 +103,17 @@ function extractProjectionDefinition(schema: IceTypeSchema): ProjectionDefinitio
     return null;
   }
 
-  return {
+  const definition: ProjectionDefinition = {
     $type: schema.name,
     $projection: directives.projection!,
     $from: directives.from,
     $expand: directives.expand,
     $flatten: directives.flatten,
   };
+  if (directives.orderBy) {
+    definition.$orderBy = directives.orderBy;
+  }
+  return definition;
 }
 
 /**
@@ -331,6 +336,10 @@ export async function projectGenerate(args: string[]): Promise<void> {
     if (projection.$expand?.length) {
       console.log(`  Expanding: ${projection.$expand.join(', ')}`);
     }
+    const sortKeys = schema.directives.orderBy ?? schemaMap.get(projection.$from)?.directives.orderBy;
+    if (sortKeys?.length) {
+      console.log(`  Sort order: ${formatOrderBy(sortKeys)}`);
+    }
 
     try {
       if (format === 'iceberg') {
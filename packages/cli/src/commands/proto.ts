@@ -0,0 +1,177 @@
+/**
+ * ice proto export command
+ *
+ * Exports IceType schemas to a proto3 file. Field numbers are read from and
+ * written back to a lock file so they stay stable across schema changes.
+ */
+
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+  generateProtoFile,
+  serializeProto,
+  loadProtoLock,
+  saveProtoLock,
+  type ProtoExportOptions,
+} from '@icetype/protobuf';
+import { loadSchemaFile } from '../utils/schema-loader.js';
+import { generateHelpText, hasHelpFlag, type HelpCommand } from '../utils/help.js';
+import { createLogger, LogLevel } from '../utils/logger.js';
+import {
+  requireOption,
+  checkSchemaLoadErrors,
+  checkSchemasExist,
+} from '../utils/cli-error.js';
+
+const PROTO_EXPORT_HELP: HelpCommand = {
+  name: 'proto export',
+  description: 'Export IceType schema to Protocol Buffers (proto3)',
+  usage: 'ice proto export --schema <file> [--output <file>] [--lock <file>] [--package <name>]',
+  options: [
+    { name: 'schema', short: 's', description: 'Path to the schema file', required: true },
+    { name: 'output', short: 'o', description: 'Output file path (default: stdout)' },
+    { name: 'lock', short: 'l', description: 'Field number lock file (default: <output>.lock)' },
+    { name: 'package', short: 'p', description: 'Proto package (e.g. example.v1)' },
+    { name: 'option', description: 'File option as name=value (repeatable, e.g. go_package=example.com/gen)' },
+    { name: 'quiet', short: 'q', description: 'Suppress informational output' },
+    { name: 'verbose', short: 'v', description: 'Show detailed output' },
+  ],
+  examples: [
+    'ice proto export --schema ./schema.ts --output ./schema.proto',
+    'ice proto export -s ./schema.ts -o ./schema.proto --package example.v1',
+    'ice proto export -s ./schema.ts --lock ./schema.proto.lock --option go_package=example.com/gen',
+  ],
+};
+
+/**
+ * Parse `name=value` file options
+ */
+function parseFileOptions(inputs: string[]): Record<string, string> {
+  const options: Record<string, string> = {};
+  for (const input of inputs) {
+    const separator = input.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid option '${input}'. Expected name=value (e.g. go_package=example.com/gen)`);
+    }
+    options[input.slice(0, separator)] = input.slice(separator + 1);
+  }
+  return options;
+}
+
+/**
+ * CLI command handler for `ice proto export`
+ *
+ * @param args - Command line arguments
+ *
+ * Usage:
+ * ```bash
+ * ice proto export --schema ./schema.ts --output ./schema.proto
+ * ice proto export -s ./schema.ts -o ./schema.proto --package example.v1
+ * ice proto export -s ./schema.ts --lock ./schema.proto.lock  # outputs to stdout
+ * ```
+ */
+export async function protoExport(args: string[]): Promise<void> {
+  // Check for help flag first
+  if (hasHelpFlag(args)) {
+    console.log(generateHelpText(PROTO_EXPORT_HELP));
+    process.exit(0);
+  }
+
+  const { values } = parseArgs({
+    args,
+    options: {
+      schema: { type: 'string', short: 's' },
+      output: { type: 'string', short: 'o' },
+      lock: { type: 'string', short: 'l' },
+      package: { type: 'string', short: 'p' },
+      option: { type: 'string', multiple: true },
+      quiet: { type: 'boolean', short: 'q' },
+      verbose: { type: 'boolean', short: 'v' },
+    },
+  });
+
+  // Validate required options - throws if missing
+  requireOption(
+    values.schema,
+    'schema',
+    'proto export',
+    'ice proto export --schema ./schema.ts --output ./schema.proto'
+  );
+
+  const schemaPath = values.schema;
+  const outputPath = typeof values.output === 'string' ? values.output : undefined;
+  const lockPath = typeof values.lock === 'string'
+    ? values.lock
+    : outputPath ? `${outputPath}.lock` : undefined;
+  const packageName = typeof values.package === 'string' ? values.package : undefined;
+  const fileOptions = parseFileOptions(values.option ?? []);
+  const quiet = values.quiet === true;
+  const verbose = values.verbose === true;
+
+  // Create logger based on verbosity
+  const logLevel = verbose
+    ? LogLevel.DEBUG
+    : quiet
+      ? LogLevel.ERROR
+      : LogLevel.INFO;
+
+  const logger = createLogger({
+    level: logLevel,
+    quiet,
+  });
+
+  logger.info(`Exporting proto3 from: ${schemaPath}`);
+  logger.debug('Options:', {
+    package: packageName || '(none)',
+    lock: lockPath || '(none)',
+    output: outputPath || '(stdout)',
+  });
+
+  // Load schemas from the file - throws on errors
+  logger.debug('Loading schema file', { path: schemaPath });
+  const loadResult = await loadSchemaFile(schemaPath);
+  checkSchemaLoadErrors(loadResult.errors, schemaPath);
+  checkSchemasExist(loadResult.schemas, schemaPath);
+
+  logger.info(`Found ${loadResult.schemas.length} schema(s)`);
+  logger.debug('Schemas found:', {
+    names: loadResult.schemas.map((s) => s.name),
+  });
+
+  const exportOptions: ProtoExportOptions = { options: fileOptions };
+  if (packageName) {
+    exportOptions.package = packageName;
+  }
+  if (lockPath) {
+    exportOptions.lock = await loadProtoLock(lockPath);
+  } else {
+    logger.warn('No lock file: field numbers follow declaration order. Use --lock to keep them stable.');
+  }
+
+  const file = generateProtoFile(loadResult.schemas.map((s) => s.schema), exportOptions);
+  const output = serializeProto(file);
+
+  // Output proto file
+  if (outputPath) {
+    try {
+      writeFileSync(outputPath, output);
+      logger.success(`Exported proto3: ${outputPath}`);
+      logger.info(`Generated ${file.messages.length} message(s) and ${file.enums.length} enum(s)`);
+    } catch (writeError) {
+      const message = writeError instanceof Error ? writeError.message : String(writeError);
+      throw new Error(
+        `Failed to write output file '${outputPath}': ${message}\n` +
+        'Check that the directory exists and you have write permissions.'
+      );
+    }
+  } else {
+    // Output to stdout
+    process.stdout.write(output);
+  }
+
+  // Persist field numbers for the next export
+  if (lockPath) {
+    await saveProtoLock(lockPath, file.lock);
+    logger.debug(`Updated lock file: ${lockPath}`);
+  }
+}
@@ -1,20 +1,30 @@
 /**
  * ice pull command
  *
- * Introspects existing databases (PostgreSQL, MySQL, SQLite) and generates
- * IceType schema files from database tables.
+ * Introspects existing databases (PostgreSQL, PGlite, SQLite, DuckDB) and
+ * generates IceType schema files from database tables. Foreign keys become
+ * `->` relations, with `<-` inverses on the referenced tables.
  *
  * Usage:
  *   ice pull <connection-url> [options]
  *
  * Examples:
  *   ice pull postgres://localhost:5432/mydb --output ./schema.ts
- *   ice pull mysql://localhost:3306/mydb -o ./schema.ts
+ *   ice pull pglite://./pgdata -o ./schema.ts
  *   ice pull ./database.sqlite --format json
+ *   ice pull ./warehouse.duckdb --schema-name analytics
  */
 
 import { existsSync, writeFileSync, mkdirSync } from 'node:fs';
 import { dirname } from 'node:path';
+import type { FieldConstraints, SchemaDefinition } from '@icetype/core';
+import {
+  parseDatabaseUrl,
+  createSqliteExecutor,
+  createPgliteExecutor,
+  createDuckDBExecutor,
+} from '@icetype/migrations';
+import { generateHelpText, hasHelpFlag, type HelpCommand } from '../utils/help.js';
 
 // =============================================================================
 // Types
@@ -30,6 +40,10 @@ export interface IntrospectedColumn {
   defaultValue?: string;
   isPrimaryKey: boolean;
   isUnique: boolean;
+  /** Value constraints recovered from CHECK constraints */
+  constraints?: FieldConstraints;
+  /** Enum type of the column and its allowed values */
+  enum?: { name: string; values: string[] };
 }
 
 /**
@@ -61,6 +75,8 @@ export interface IntrospectedTable {
   primaryKey?: string[];
   indexes: IntrospectedIndex[];
   foreignKeys: IntrospectedForeignKey[];
+  /** Sorting key columns, for ClickHouse MergeTree tables */
+  orderBy?: string[];
 }
 
 /**
@@ -87,6 +103,26 @@ export interface GeneratedField {
   isIndexed: boolean;
   isPrimaryKey: boolean;
   modifier: string;
+  /** Default value in IceType field syntax, e.g. `now()` or `"active"` */
+  defaultValue?: string;
+}
+
+/**
+ * A relation derived from a foreign key
+ */
+export interface GeneratedRelation {
+  /** `->` for a foreign key on this table, `<-` for one pointing at it */
+  operator: '->' | '<-';
+  targetTable: string;
+  /**
+   * The referenced column for `->`; for `<-`, the relation on the target
+   * table that holds the foreign key
+   */
+  targetField: string;
+  /** Whether the relation can be empty (a nullable foreign key) */
+  isOptional: boolean;
+  /** Whether the relation holds many records */
+  isArray: boolean;
 }
 
 /**
@@ -95,14 +131,17 @@ export interface GeneratedField {
 export interface GeneratedSchema {
   name: string;
   fields: Map<string, GeneratedField>;
-  relations: Map<string, { targetTable: string; targetField: string }>;
+  relations: Map<string, GeneratedRelation>;
   directives: {
     $partitionBy?: string[];
     $index?: string[][];
+    $orderBy?: string[];
+    $enums?: Record<string, string[]>;
+    $constraints?: Record<string, FieldConstraints>;
   };
 }
 
-export type DatabaseDialect = 'postgres' | 'mysql' | 'sqlite';
+export type DatabaseDialect = 'postgres' | 'mysql' | 'sqlite' | 'duckdb' | 'clickhouse';
 
 // =============================================================================
 // Argument Parsing
@@ -121,12 +160,14 @@ function parseArgs(args: string[]): PullOptions {
 
   let i = 0;
   while (i < args.length) {
-    const arg = args[i];
+    const arg = args[i] ?? '';
 
     if (arg === '--output' || arg === '-o') {
-      options.output = args[++i];
+      const output = args[++i];
+      if (output !== undefined) options.output = output;
     } else if (arg === '--schema-name') {
-      options.schemaName = args[++i];
+      const schemaName = args[++i];
+      if (schemaName !== undefined) options.schemaName = schemaName;
     } else if (arg === '--tables') {
       const tablesArg = args[++i];
       options.tables = tablesArg ? tablesArg.split(',').map(t => t.trim()) : [];
@@ -160,13 +201,16 @@ function parseArgs(args: string[]): PullOptions {
  * Detect database dialect from connection URL
  */
 function detectDialect(url: string): DatabaseDialect {
-  if (url.startsWith('postgres://') || url.startsWith('postgresql://')) {
+  if (url.startsWith('postgres://') || url.startsWith('postgresql://') || url.startsWith('pglite:')) {
     return 'postgres';
   }
   if (url.startsWith('mysql://')) {
     return 'mysql';
   }
-  if (url.startsWith('sqlite://') || url.endsWith('.db') || url.endsWith('.sqlite') || url.endsWith('.sqlite3')) {
+  if (url.startsWith('duckdb:') || url.endsWith('.duckdb') || url.endsWith('.ddb')) {
+    return 'duckdb';
+  }
+  if (url.startsWith('sqlite:') || url.endsWith('.db') || url.endsWith('.sqlite') || url.endsWith('.sqlite3')) {
     return 'sqlite';
   }
 
@@ -188,7 +232,7 @@ function mapPostgresType(pgType: string, _hasDefault?: boolean): string {
   }
 
   // Normalize the type name
-  const normalizedType = pgType.toLowerCase().replace(/\(\d+\)/g, '').trim();
+  const normalizedType = pgType.toLowerCase().replace(/\(\d+(?:,\s*\d+)?\)/g, '').trim();
 
   const typeMap: Record<string, string> = {
     'uuid': 'uuid',
@@ -236,7 +280,11 @@ function mapPostgresType(pgType: string, _hasDefault?: boolean): string {
  */
 function mapMysqlType(mysqlType: string): string {
   // Normalize the type name
-  const normalizedType = mysqlType.toLowerCase().replace(/\(\d+(?:,\s*\d+)?\)/g, '').trim();
+  const normalizedType = mysqlType
+    .toLowerCase()
+    .replace(/\(\d+(?:,\s*\d+)?\)/g, '')
+    .replace(/\s+(?:unsigned|signed|zerofill)\b/g, '')
+    .trim();
 
   // Special case for tinyint(1) which is boolean
   if (mysqlType.toLowerCase() === 'tinyint(1)') {
@@ -320,65 +368,490 @@ function mapSqliteType(sqliteType: string): string {
   return typeMap[normalizedType] || 'string';
 }
 
+/**
+ * Map DuckDB types to IceType types
+ */
+function mapDuckdbType(duckdbType: string): string {
+  // Handle lists
+  if (duckdbType.endsWith('[]')) {
+    return mapDuckdbType(duckdbType.slice(0, -2)) + '[]';
+  }
+
+  // Normalize the type name
+  const normalizedType = duckdbType.toUpperCase().replace(/\(\d+(?:,\s*\d+)?\)/g, '').trim();
+
+  const typeMap: Record<string, string> = {
+    'UUID': 'uuid',
+    'VARCHAR': 'string',
+    'CHAR': 'string',
+    'BPCHAR': 'string',
+    'TEXT': 'string',
+    'STRING': 'string',
+    'INTEGER': 'int',
+    'INT': 'int',
+    'INT4': 'int',
+    'SMALLINT': 'int',
+    'INT2': 'int',
+    'TINYINT': 'int',
+    'INT1': 'int',
+    'UTINYINT': 'int',
+    'USMALLINT': 'int',
+    'UINTEGER': 'bigint',
+    'BIGINT': 'bigint',
+    'INT8': 'bigint',
+    'UBIGINT': 'bigint',
+    'HUGEINT': 'bigint',
+    'BOOLEAN': 'bool',
+    'BOOL': 'bool',
+    'TIMESTAMP': 'timestamp',
+    'TIMESTAMP WITH TIME ZONE': 'timestamp',
+    'TIMESTAMPTZ': 'timestamp',
+    'TIMESTAMP_S': 'timestamp',
+    'TIMESTAMP_MS': 'timestamp',
+    'TIMESTAMP_NS': 'timestamp',
+    'DATETIME': 'timestamp',
+    'DATE': 'date',
+    'TIME': 'time',
+    'JSON': 'json',
+    'DOUBLE': 'double',
+    'FLOAT8': 'double',
+    'FLOAT': 'float',
+    'FLOAT4': 'float',
+    'REAL': 'float',
+    'DECIMAL': 'decimal',
+    'NUMERIC': 'decimal',
+    'BLOB': 'binary',
+    'BYTEA': 'binary',
+  };
+
+  return typeMap[normalizedType] || 'string';
+}
+
+/**
+ * Map ClickHouse types to IceType types
+ */
+function mapClickhouseType(clickhouseType: string): string {
+  const type = clickhouseType.trim();
+
+  // Unwrap Nullable(T) and LowCardinality(T); nullability is tracked separately
+  const wrapper = /^(?:Nullable|LowCardinality)\((.*)\)$/i.exec(type);
+  if (wrapper) {
+    return mapClickhouseType(wrapper[1]!);
+  }
+
+  // Handle arrays
+  const array = /^Array\((.*)\)$/i.exec(type);
+  if (array) {
+    return mapClickhouseType(array[1]!) + '[]';
+  }
+
+  // Normalize the type name, dropping parameters such as DateTime64(3, 'UTC')
+  const normalizedType = type.replace(/\(.*\)$/, '').trim().toLowerCase();
+
+  const typeMap: Record<string, string> = {
+    'uuid': 'uuid',
+    'string': 'string',
+    'fixedstring': 'string',
+    'int8': 'int',
+    'int16': 'int',
+    'int32': 'int',
+    'uint8': 'int',
+    'uint16': 'int',
+    'uint32': 'bigint',
+    'int64': 'bigint',
+    'uint64': 'bigint',
+    'int128': 'bigint',
+    'uint128': 'bigint',
+    'int256': 'bigint',
+    'uint256': 'bigint',
+    'float32': 'float',
+    'float64': 'double',
+    'decimal': 'decimal',
+    'decimal32': 'decimal',
+    'decimal64': 'decimal',
+    'decimal128': 'decimal',
+    'decimal256': 'decimal',
+    'bool': 'bool',
+    'boolean': 'bool',
+    'date': 'date',
+    'date32': 'date',
+    'datetime': 'timestamp',
+    'datetime64': 'timestamp',
+    'json': 'json',
+    'object': 'json',
+    'map': 'json',
+    'tuple': 'json',
+  };
+
+  return typeMap[normalizedType] || 'string';
+}
+
+/** Type mapping for each dialect */
+const TYPE_MAPPERS: Record<DatabaseDialect, (type: string) => string> = {
+  postgres: mapPostgresType,
+  mysql: mapMysqlType,
+  sqlite: mapSqliteType,
+  duckdb: mapDuckdbType,
+  clickhouse: mapClickhouseType,
+};
+
+/**
+ * Convert a SQL column default to IceType default syntax.
+ *
+ * Literals, booleans and the current-time and UUID functions carry over;
+ * sequences (`nextval(...)`) and other expressions have no IceType
+ * equivalent and return undefined.
+ *
+ * @param sqlDefault - The default as written in SQL, e.g. `'active'::text`
+ * @param iceType - The IceType type of the column
+ * @returns The default, e.g. `"active"`, `0`, `true` or `now()`
+ */
+export function toIceTypeDefault(sqlDefault: string, iceType: string): string | undefined {
+  // Array and JSON defaults ('{}', '[]') have no IceType literal
+  if (iceType.endsWith('[]') || iceType === 'json') {
+    return undefined;
+  }
+
+  let value = sqlDefault.trim();
+  // Unwrap (expr), CAST(x AS t) and x::type
+  for (let previous = ''; previous !== value; ) {
+    previous = value;
+    value = value
+      .replace(/^\((.*)\)$/s, '$1')
+      .replace(/^CAST\((.*)\s+AS\s+[\w\s(),[\]]+\)$/is, '$1')
+      .replace(/::[\w\s.]+(?:\(\d+(?:,\s*\d+)?\))?(?:\[\])*$/, '')
+      .trim();
+  }
+
+  if (/^'(?:[^']|'')*'$/s.test(value)) {
+    const text = value.slice(1, -1).replace(/''/g, "'");
+    // MySQL dumps quote numeric defaults: DEFAULT '1'
+    if (iceType === 'bool' && /^(?:true|false|0|1)$/i.test(text)) {
+      return /^(?:true|1)$/i.test(text) ? 'true' : 'false';
+    }
+    if (/^(?:int|bigint|float|double|decimal)$/.test(iceType) && /^-?\d+(?:\.\d+)?$/.test(text)) {
+      return text;
+    }
+    return JSON.stringify(text);
+  }
+  if (/^[-+]?\d+(?:\.\d+)?$/.test(value)) {
+    if (iceType === 'bool' && (value === '0' || value === '1')) {
+      return value === '1' ? 'true' : 'false';
+    }
+    return value.replace(/^\+/, '');
+  }
+  if (/^(?:true|false)$/i.test(value)) {
+    return value.toLowerCase();
+  }
+
+  const fn = value.toLowerCase().replace(/\(\s*\d*\s*\)$/, '');
+  if (['now', 'now64', 'current_timestamp', 'localtimestamp', 'current_date', 'today', 'getdate', 'datetime'].includes(fn)) {
+    return 'now()';
+  }
+  if (['gen_random_uuid', 'uuid_generate_v4', 'uuid', 'generateuuidv4', 'uuidv4'].includes(fn)) {
+    return 'uuid()';
+  }
+  return undefined;
+}
+
 // =============================================================================
-// Database Introspection (Mock implementations for testing)
+// Database Introspection
 // =============================================================================
 
 /**
- * Extract schema from a database connection
+ * A connection introspection queries run through. `DatabaseConnection`s from
+ * @icetype/migrations satisfy it, and so does a thin adapter over a `pg`
+ * client, which lets callers introspect a server they already connected to.
+ */
+export interface IntrospectionClient {
+  query<T = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<T[]>;
+}
+
+/**
+ * Where to introspect: a database URL or path, or an open client.
+ */
+export type IntrospectionSource = string | IntrospectionClient;
+
+/** A client opened by the command, closed when introspection finishes */
+interface OwnedClient extends IntrospectionClient {
+  close(): Promise<void>;
+}
+
+/**
+ * Run `fn` against a source, opening and closing a connection when the
+ * source is a URL or path.
+ */
+async function withClient<T>(
+  source: IntrospectionSource,
+  open: (target: string) => Promise<OwnedClient>,
+  fn: (client: IntrospectionClient) => Promise<T>
+): Promise<T> {
+  if (typeof source !== 'string') {
+    return fn(source);
+  }
+  const client = await open(source);
+  try {
+    return await fn(client);
+  } finally {
+    await client.close();
+  }
+}
+
+/**
+ * Build an introspected table from its columns and constraints. Columns
+ * that make up the primary key or a single-column unique index are marked
+ * unique.
  */
-async function extractSchema(url: string, dialect: DatabaseDialect): Promise<IntrospectedTable[]> {
-  // For SQLite, check if the file exists
-  if (dialect === 'sqlite') {
-    // Extract file path from URL or use directly
-    const filePath = url.startsWith('sqlite://') ? url.replace('sqlite://', '') : url;
-    if (!existsSync(filePath)) {
-      throw new Error(`Database file not found: ${filePath}`);
+export function buildTable(
+  name: string,
+  schema: string | undefined,
+  columns: IntrospectedColumn[],
+  primaryKey: string[],
+  indexes: IntrospectedIndex[],
+  foreignKeys: IntrospectedForeignKey[]
+): IntrospectedTable {
+  const uniqueColumns = new Set<string>();
+  if (primaryKey.length === 1) {
+    uniqueColumns.add(primaryKey[0]!);
+  }
+  for (const index of indexes) {
+    if (index.unique && index.columns.length === 1) {
+      uniqueColumns.add(index.columns[0]!);
+    }
+  }
+
+  for (const column of columns) {
+    column.isPrimaryKey = primaryKey.includes(column.name);
+    column.isUnique = uniqueColumns.has(column.name);
+    if (column.isPrimaryKey) {
+      column.nullable = false;
     }
-    return introspectSqlite(filePath);
   }
 
-  if (dialect === 'postgres') {
-    return introspectPostgres(url, {});
+  const table: IntrospectedTable = { name, columns, indexes, foreignKeys };
+  if (schema !== undefined) {
+    table.schema = schema;
   }
+  if (primaryKey.length > 0) {
+    table.primaryKey = primaryKey;
+  }
+  return table;
+}
+
+/**
+ * Create an introspected column; key flags are filled in by `buildTable`.
+ */
+export function makeColumn(name: string, type: string, nullable: boolean, defaultValue: unknown): IntrospectedColumn {
+  const column: IntrospectedColumn = { name, type, nullable, isPrimaryKey: false, isUnique: false };
+  if (defaultValue !== null && defaultValue !== undefined) {
+    column.defaultValue = String(defaultValue);
+  }
+  return column;
+}
 
+/**
+ * Extract schema from a database connection
+ */
+export async function extractSchema(
+  url: string,
+  dialect: DatabaseDialect,
+  options: { schemaName?: string } = {}
+): Promise<IntrospectedTable[]> {
   if (dialect === 'mysql') {
-    return introspectMysql(url, {});
+    return introspectMysql(url, options);
+  }
+  if (dialect === 'clickhouse') {
+    throw new Error(
+      'Pulling from ClickHouse is not supported. Export the DDL and run: ice import sql <file> --dialect clickhouse'
+    );
+  }
+  if (dialect === 'postgres' && !url.startsWith('pglite:')) {
+    return introspectPostgres(url, options);
   }
 
-  return [];
+  // Embedded databases: opening a missing path would create an empty database
+  const { filename } = parseDatabaseUrl(url);
+  if (filename !== ':memory:' && !existsSync(filename)) {
+    throw new Error(`Database file not found: ${filename}`);
+  }
+
+  switch (dialect) {
+    case 'sqlite':
+      return introspectSqlite(filename);
+    case 'duckdb':
+      return introspectDuckdb(filename, options);
+    default:
+      return introspectPostgres(url, options);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// PostgreSQL
+// -----------------------------------------------------------------------------
+
+/** The subset of the `pg` client API used for introspection */
+interface PgClient {
+  connect(): Promise<unknown>;
+  query(sql: string, params?: unknown[]): Promise<{ rows: unknown[] }>;
+  end(): Promise<unknown>;
+}
+
+/**
+ * Open a Postgres database: an embedded PGlite data directory for
+ * `pglite:` URLs, otherwise a server through the optional `pg` package.
+ */
+async function openPostgres(url: string): Promise<OwnedClient> {
+  if (url.startsWith('pglite:')) {
+    return createPgliteExecutor(parseDatabaseUrl(url).filename);
+  }
+
+  // Held in a variable so TypeScript does not require 'pg' at compile time
+  const packageName = 'pg';
+  let Client: new (config: { connectionString: string }) => PgClient;
+  try {
+    const module = (await import(/* @vite-ignore */ packageName)) as {
+      default?: { Client: typeof Client };
+      Client?: typeof Client;
+    };
+    Client = (module.Client ?? module.default?.Client)!;
+  } catch (error) {
+    throw new Error(
+      `Failed to load the 'pg' package: ${error instanceof Error ? error.message : String(error)}. ` +
+      `Install 'pg' to pull from a Postgres server, or use a pglite://<dir> URL.`
+    );
+  }
+
+  const client = new Client({ connectionString: url });
+  await client.connect();
+  return {
+    async query<T>(sql: string, params?: unknown[]): Promise<T[]> {
+      return (await client.query(sql, params)).rows as T[];
+    },
+    async close(): Promise<void> {
+      await client.end();
+    },
+  };
 }
 
 /**
  * Introspect PostgreSQL database
- * This is a mock implementation - in production this would connect to the actual database
+ *
+ * Lists base tables from `information_schema.tables` and reads each one
+ * from `pg_catalog`. The source is a `postgres://` URL, a `pglite://` data
+ * directory, or an open client.
  */
 async function introspectPostgres(
-  _url: string,
-  _options: { schemaName?: string }
+  source: IntrospectionSource,
+  options: { schemaName?: string }
 ): Promise<IntrospectedTable[]> {
-  // Mock implementation for testing - returns empty array
-  // Real implementation would use pg client to query information_schema
-  return [];
+  const schemaName = options.schemaName ?? 'public';
+  return withClient(source, openPostgres, async (client) => {
+    const rows = await client.query<{ table_name: string }>(
+      `SELECT table_name FROM information_schema.tables
+       WHERE table_schema = $1 AND table_type = 'BASE TABLE'
+       ORDER BY table_name`,
+      [schemaName]
+    );
+    const tables: IntrospectedTable[] = [];
+    for (const row of rows) {
+      tables.push(await introspectPostgresTable(client, row.table_name, { schemaName }));
+    }
+    return tables;
+  });
 }
 
 /**
  * Introspect a specific PostgreSQL table
  */
 async function introspectPostgresTable(
-  _url: string,
-  _tableName: string,
-  _options: { schemaName?: string }
+  source: IntrospectionSource,
+  tableName: string,
+  options: { schemaName?: string }
 ): Promise<IntrospectedTable> {
-  // Mock implementation for testing
-  return {
-    name: _tableName,
-    columns: [],
-    indexes: [],
-    foreignKeys: [],
-  };
+  const schemaName = options.schemaName ?? 'public';
+  return withClient(source, openPostgres, async (client) => {
+    const columnRows = await client.query<{
+      name: string;
+      type: string;
+      not_null: boolean;
+      default_value: string | null;
+    }>(
+      `SELECT a.attname AS name,
+              format_type(a.atttypid, a.atttypmod) AS type,
+              a.attnotnull AS not_null,
+              pg_get_expr(d.adbin, d.adrelid) AS default_value
+       FROM pg_attribute a
+       JOIN pg_class c ON c.oid = a.attrelid
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+       WHERE n.nspname = $1 AND c.relname = $2 AND a.attnum > 0 AND NOT a.attisdropped
+       ORDER BY a.attnum`,
+      [schemaName, tableName]
+    );
+
+    const indexRows = await client.query<{ name: string; is_unique: boolean; is_primary: boolean; columns: string[] }>(
+      `SELECT i.relname AS name,
+              ix.indisunique AS is_unique,
+              ix.indisprimary AS is_primary,
+              array_agg(a.attname::text ORDER BY k.ord) AS columns
+       FROM pg_index ix
+       JOIN pg_class t ON t.oid = ix.indrelid
+       JOIN pg_class i ON i.oid = ix.indexrelid
+       JOIN pg_namespace n ON n.oid = t.relnamespace
+       CROSS JOIN LATERAL unnest(ix.indkey) WITH ORDINALITY AS k(attnum, ord)
+       JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = k.attnum
+       WHERE n.nspname = $1 AND t.relname = $2
+       GROUP BY i.relname, ix.indisunique, ix.indisprimary
+       ORDER BY i.relname`,
+      [schemaName, tableName]
+    );
+
+    const foreignKeyRows = await client.query<{
+      name: string;
+      columns: string[];
+      referenced_table: string;
+      referenced_columns: string[];
+    }>(
+      `SELECT con.conname AS name,
+              (SELECT array_agg(a.attname::text ORDER BY k.ord)
+               FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+               JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum) AS columns,
+              ref.relname AS referenced_table,
+              (SELECT array_agg(a.attname::text ORDER BY k.ord)
+               FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+               JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum) AS referenced_columns
+       FROM pg_constraint con
+       JOIN pg_class t ON t.oid = con.conrelid
+       JOIN pg_namespace n ON n.oid = t.relnamespace
+       JOIN pg_class ref ON ref.oid = con.confrelid
+       WHERE con.contype = 'f' AND n.nspname = $1 AND t.relname = $2
+       ORDER BY con.conname`,
+      [schemaName, tableName]
+    );
+
+    const primary = indexRows.find(row => row.is_primary);
+    return buildTable(
+      tableName,
+      schemaName,
+      columnRows.map(row => makeColumn(row.name, row.type, !row.not_null, row.default_value)),
+      primary ? primary.columns : [],
+      indexRows
+        .filter(row => !row.is_primary)
+        .map(row => ({ name: row.name, columns: row.columns, unique: row.is_unique })),
+      foreignKeyRows.map(row => ({
+        name: row.name,
+        columns: row.columns,
+        referencedTable: row.referenced_table,
+        referencedColumns: row.referenced_columns,
+      }))
+    );
+  });
 }
 
+// -----------------------------------------------------------------------------
+// MySQL
+// -----------------------------------------------------------------------------
+
 /**
  * Introspect MySQL database
  */
@@ -407,52 +880,260 @@ async function introspectMysqlTable(
   };
 }
 
+// -----------------------------------------------------------------------------
+// SQLite
+// -----------------------------------------------------------------------------
+
 /**
  * Introspect SQLite database
+ *
+ * Lists tables from `sqlite_master` and reads each one with the
+ * `table_info`, `index_list` and `foreign_key_list` pragmas.
  */
-async function introspectSqlite(_filePath: string): Promise<IntrospectedTable[]> {
-  // Mock implementation for testing - returns empty array
-  // Real implementation would use better-sqlite3 to query sqlite_master
-  return [];
+async function introspectSqlite(source: IntrospectionSource): Promise<IntrospectedTable[]> {
+  return withClient(source, createSqliteExecutor, async (client) => {
+    const rows = await client.query<{ name: string }>(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite\\_%' ESCAPE '\\' ORDER BY name`
+    );
+    const tables: IntrospectedTable[] = [];
+    for (const row of rows) {
+      tables.push(await introspectSqliteTable(client, row.name));
+    }
+    return tables;
+  });
 }
 
 /**
  * Introspect a specific SQLite table
+ *
+ * The pragmas are queried through their table-valued forms
+ * (`pragma_table_info(?)` and so on) so the table name can be bound.
  */
 async function introspectSqliteTable(
-  _filePath: string,
-  _tableName: string
+  source: IntrospectionSource,
+  tableName: string
 ): Promise<IntrospectedTable> {
-  // Mock implementation for testing
-  return {
-    name: _tableName,
-    columns: [],
-    indexes: [],
-    foreignKeys: [],
-  };
+  return withClient(source, createSqliteExecutor, async (client) => {
+    const primaryKeyOf = async (table: string): Promise<string[]> => {
+      const rows = await client.query<{ name: string; pk: number }>(
+        'SELECT name, pk FROM pragma_table_info(?) WHERE pk > 0 ORDER BY pk',
+        [table]
+      );
+      return rows.map(row => row.name);
+    };
+
+    const columnRows = await client.query<{ name: string; type: string; not_null: number; dflt_value: unknown }>(
+      'SELECT name, type, "notnull" AS not_null, dflt_value FROM pragma_table_info(?) ORDER BY cid',
+      [tableName]
+    );
+
+    // Indexes backing the primary key are reported through table_info instead
+    const indexList = await client.query<{ name: string; is_unique: number; origin: string }>(
+      `SELECT name, "unique" AS is_unique, origin FROM pragma_index_list(?) WHERE origin != 'pk' ORDER BY seq`,
+      [tableName]
+    );
+    const indexes: IntrospectedIndex[] = [];
+    for (const index of indexList) {
+      const columns = await client.query<{ name: string | null }>(
+        'SELECT name FROM pragma_index_info(?) ORDER BY seqno',
+        [index.name]
+      );
+      // Expression indexes have no column names
+      if (columns.length > 0 && columns.every(column => column.name !== null)) {
+        indexes.push({
+          name: index.name,
+          columns: columns.map(column => column.name!),
+          unique: Number(index.is_unique) === 1,
+        });
+      }
+    }
+
+    const foreignKeyRows = await client.query<{ id: number; table: string; from: string; to: string | null }>(
+      'SELECT id, "table", "from", "to" FROM pragma_foreign_key_list(?) ORDER BY id, seq',
+      [tableName]
+    );
+    const grouped = new Map<number, typeof foreignKeyRows>();
+    for (const row of foreignKeyRows) {
+      grouped.set(row.id, [...(grouped.get(row.id) ?? []), row]);
+    }
+    const foreignKeys: IntrospectedForeignKey[] = [];
+    for (const rows of grouped.values()) {
+      const columns = rows.map(row => row.from);
+      const referencedTable = rows[0]!.table;
+      // REFERENCES users without a column list points at the primary key
+      const referencedColumns = rows.every(row => row.to !== null)
+        ? rows.map(row => row.to!)
+        : await primaryKeyOf(referencedTable);
+      foreignKeys.push({
+        // SQLite foreign keys are unnamed; name them the way Postgres would
+        name: `${tableName}_${columns.join('_')}_fkey`,
+        columns,
+        referencedTable,
+        referencedColumns,
+      });
+    }
+
+    return buildTable(
+      tableName,
+      undefined,
+      columnRows.map(row => makeColumn(row.name, row.type, Number(row.not_null) === 0, row.dflt_value)),
+      await primaryKeyOf(tableName),
+      indexes,
+      foreignKeys
+    );
+  });
+}
+
+// -----------------------------------------------------------------------------
+// DuckDB
+// -----------------------------------------------------------------------------
+
+/**
+ * Introspect DuckDB database file
+ *
+ * Reads the catalog through `duckdb_tables()`, `duckdb_columns()`,
+ * `duckdb_constraints()` and `duckdb_indexes()`.
+ */
+async function introspectDuckdb(
+  source: IntrospectionSource,
+  options: { schemaName?: string }
+): Promise<IntrospectedTable[]> {
+  const schemaName = options.schemaName ?? 'main';
+  return withClient(source, createDuckDBExecutor, async (client) => {
+    const rows = await client.query<{ table_name: string }>(
+      `SELECT table_name FROM duckdb_tables()
+       WHERE database_name = current_database() AND schema_name = ? AND NOT internal
+       ORDER BY table_name`,
+      [schemaName]
+    );
+    const tables: IntrospectedTable[] = [];
+    for (const row of rows) {
+      tables.push(await introspectDuckdbTable(client, row.table_name, { schemaName }));
+    }
+    return tables;
+  });
+}
+
+/**
+ * Introspect a specific DuckDB table
+ */
+async function introspectDuckdbTable(
+  source: IntrospectionSource,
+  tableName: string,
+  options: { schemaName?: string }
+): Promise<IntrospectedTable> {
+  const schemaName = options.schemaName ?? 'main';
+  return withClient(source, createDuckDBExecutor, async (client) => {
+    const columnRows = await client.query<{
+      column_name: string;
+      data_type: string;
+      is_nullable: boolean;
+      column_default: string | null;
+    }>(
+      `SELECT column_name, data_type, is_nullable, column_default FROM duckdb_columns()
+       WHERE database_name = current_database() AND schema_name = ? AND table_name = ?
+       ORDER BY column_index`,
+      [schemaName, tableName]
+    );
+
+    const constraintRows = await client.query<{
+      constraint_type: string;
+      constraint_name: string;
+      constraint_column_names: string[];
+      referenced_table: string | null;
+      referenced_column_names: string[];
+    }>(
+      `SELECT constraint_type, constraint_name, constraint_column_names, referenced_table, referenced_column_names
+       FROM duckdb_constraints()
+       WHERE database_name = current_database() AND schema_name = ? AND table_name = ?
+         AND constraint_type IN ('PRIMARY KEY', 'UNIQUE', 'FOREIGN KEY')
+       ORDER BY constraint_index`,
+      [schemaName, tableName]
+    );
+
+    const indexRows = await client.query<{ index_name: string; is_unique: boolean; expressions: string | null }>(
+      `SELECT index_name, is_unique, expressions FROM duckdb_indexes()
+       WHERE database_name = current_database() AND schema_name = ? AND table_name = ?
+       ORDER BY index_name`,
+      [schemaName, tableName]
+    );
+
+    // UNIQUE constraints are enforced without a catalog index, so list them too
+    const indexes: IntrospectedIndex[] = constraintRows
+      .filter(row => row.constraint_type === 'UNIQUE')
+      .map(row => ({ name: row.constraint_name, columns: row.constraint_column_names, unique: true }));
+    for (const row of indexRows) {
+      // `expressions` lists the indexed expressions, e.g. `[title, "Created At"]`
+      const expressions = (row.expressions ?? '').replace(/^\[|\]$/g, '').split(',').map(e => e.trim());
+      if (expressions.every(e => /^(?:[A-Za-z_][A-Za-z0-9_]*|"[^"]+")$/.test(e))) {
+        indexes.push({
+          name: row.index_name,
+          columns: expressions.map(e => e.replace(/^"|"$/g, '')),
+          unique: row.is_unique,
+        });
+      }
+    }
+
+    const primary = constraintRows.find(row => row.constraint_type === 'PRIMARY KEY');
+    return buildTable(
+      tableName,
+      schemaName,
+      columnRows.map(row => makeColumn(row.column_name, row.data_type, row.is_nullable, row.column_default)),
+      primary ? primary.constraint_column_names : [],
+      indexes,
+      constraintRows
+        .filter(row => row.constraint_type === 'FOREIGN KEY' && row.referenced_table !== null)
+        .map(row => ({
+          name: row.constraint_name,
+          columns: row.constraint_column_names,
+          referencedTable: row.referenced_table!,
+          referencedColumns: row.referenced_column_names,
+        }))
+    );
+  });
 }
 
 // =============================================================================
 // Schema Generation
 // =============================================================================
 
+/**
+ * Pick a name that is not taken yet, falling back to `fallback` and then to
+ * numbered variants of it.
+ */
+function uniqueName(candidate: string, fallback: string, taken: Set<string>): string {
+  let name = taken.has(candidate) ? fallback : candidate;
+  for (let n = 2; taken.has(name); n++) {
+    name = `${fallback}_${n}`;
+  }
+  taken.add(name);
+  return name;
+}
+
 /**
  * Convert an introspected table to an IceType schema representation
+ *
+ * Each foreign key becomes a `->` relation named after its column, e.g.
+ * `author_id` becomes `author`.
  */
-function tableToIceTypeSchema(table: IntrospectedTable): GeneratedSchema {
+function tableToIceTypeSchema(table: IntrospectedTable, dialect: DatabaseDialect = 'postgres'): GeneratedSchema {
   const fields = new Map<string, GeneratedField>();
-  const relations = new Map<string, { targetTable: string; targetField: string }>();
-  const directives: {
-    $partitionBy?: string[];
-    $index?: string[][];
-  } = {};
+  const relations = new Map<string, GeneratedRelation>();
+  const directives: GeneratedSchema['directives'] = {};
 
   // Track indexed columns for directive
   const indexedColumns: string[][] = [];
 
   // Process columns
   for (const column of table.columns) {
-    const iceType = mapPostgresType(column.type); // Default to postgres mapping
+    let iceType = TYPE_MAPPERS[dialect](column.type);
+    if (column.enum) {
+      iceType = `enum<${column.enum.name}>` + (iceType.endsWith('[]') ? '[]' : '');
+      directives.$enums = { ...directives.$enums, [column.enum.name]: column.enum.values };
+    }
+    if (column.constraints) {
+      directives.$constraints = { ...directives.$constraints, [column.name]: column.constraints };
+    }
 
     // Check if column is in an index
     const isInIndex = table.indexes.some(idx => idx.columns.includes(column.name));
@@ -469,14 +1150,19 @@ function tableToIceTypeSchema(table: IntrospectedTable): GeneratedSchema {
       modifier = '#';
     }
 
-    fields.set(column.name, {
+    const field: GeneratedField = {
       type: iceType,
       isOptional: column.nullable,
       isUnique: column.isUnique,
       isIndexed: isInIndex,
       isPrimaryKey: column.isPrimaryKey,
       modifier,
-    });
+    };
+    const defaultValue = column.defaultValue !== undefined ? toIceTypeDefault(column.defaultValue, iceType) : undefined;
+    if (defaultValue !== undefined) {
+      field.defaultValue = defaultValue;
+    }
+    fields.set(column.name, field);
   }
 
   // Process indexes - add to directives
@@ -491,17 +1177,26 @@ function tableToIceTypeSchema(table: IntrospectedTable): GeneratedSchema {
   }
 
   // Process foreign keys as relations
+  const taken = new Set(fields.keys());
   for (const fk of table.foreignKeys) {
     // Generate relation name from foreign key
-    // e.g., author_id -> author
-    const relationName = fk.columns[0].replace(/_id$/, '');
+    // e.g., author_id -> author; a column named `author` gives `author_ref`
+    const column = fk.columns[0] ?? fk.name;
+    const base = column.replace(/_id$/, '');
+    const relationName = uniqueName(base, `${base}_ref`, taken);
     relations.set(relationName, {
+      operator: '->',
       targetTable: fk.referencedTable,
-      targetField: fk.referencedColumns[0],
+      targetField: fk.referencedColumns[0] ?? '',
+      isOptional: fk.columns.some(name => fields.get(name)?.isOptional ?? true),
+      isArray: false,
     });
   }
 
   // Handle composite primary key
+  if (table.orderBy && table.orderBy.length > 0) {
+    directives.$orderBy = table.orderBy;
+  }
   if (table.primaryKey && table.primaryKey.length > 1) {
     directives.$partitionBy = table.primaryKey;
   }
@@ -514,6 +1209,106 @@ function tableToIceTypeSchema(table: IntrospectedTable): GeneratedSchema {
   };
 }
 
+/**
+ * Convert introspected tables to IceType schemas, adding a `<-` relation to
+ * each referenced table for every foreign key pointing at it.
+ *
+ * The inverse is named after the referencing table (`posts`), or after the
+ * table and relation (`posts_by_editor`) when one table references the same
+ * target more than once. A foreign key covered by a unique index gives a
+ * single record instead of a list.
+ */
+export function tablesToIceTypeSchemas(tables: IntrospectedTable[], dialect: DatabaseDialect = 'postgres'): GeneratedSchema[] {
+  const schemas = tables.map(table => tableToIceTypeSchema(table, dialect));
+  const byName = new Map(schemas.map(schema => [schema.name, schema]));
+  const taken = new Map(schemas.map(schema => [schema.name, new Set([...schema.fields.keys(), ...schema.relations.keys()])]));
+
+  for (const [i, table] of tables.entries()) {
+    const schema = schemas[i]!;
+    const forward = [...schema.relations].filter(([, relation]) => relation.operator === '->');
+
+    for (const [j, fk] of table.foreignKeys.entries()) {
+      const target = byName.get(fk.referencedTable);
+      const [relationName] = forward[j] ?? [];
+      if (!target || relationName === undefined) {
+        continue;
+      }
+      const sameTarget = table.foreignKeys.filter(other => other.referencedTable === fk.referencedTable).length;
+      const fallback = `${table.name}_by_${relationName}`;
+      const inverseName = uniqueName(sameTarget > 1 ? fallback : table.name, fallback, taken.get(target.name)!);
+      const isOneToOne = table.indexes.some(
+        index => index.unique && index.columns.length === fk.columns.length && fk.columns.every(c => index.columns.includes(c))
+      ) || (fk.columns.length === 1 && table.columns.some(c => c.name === fk.columns[0] && c.isUnique));
+
+      target.relations.set(inverseName, {
+        operator: '<-',
+        targetTable: table.name,
+        targetField: relationName,
+        isOptional: isOneToOne,
+        isArray: !isOneToOne,
+      });
+    }
+  }
+
+  return schemas;
+}
+
+/**
+ * Format a relation as an IceType relation string, e.g. `-> users?` or
+ * `<- posts.author[]`.
+ */
+function formatRelation(relation: GeneratedRelation): string {
+  if (relation.operator === '<-') {
+    return `<- ${relation.targetTable}.${toCamelCase(relation.targetField)}${relation.isArray ? '[]' : '?'}`;
+  }
+  return `-> ${relation.targetTable}${relation.isOptional ? '?' : ''}`;
+}
+
+/**
+ * Build the IceType schema definition for a generated schema. Fields and
+ * relations are named in camelCase, and directives refer to those names.
+ *
+ * @example
+ * ```typescript
+ * const schema = parseSchema(toSchemaDefinition(generated));
+ * ```
+ */
+export function toSchemaDefinition(schema: GeneratedSchema): SchemaDefinition {
+  const definition: SchemaDefinition = { $type: schema.name };
+  const { $partitionBy, $index, $orderBy, $enums, $constraints } = schema.directives;
+
+  if ($partitionBy) {
+    definition.$partitionBy = $partitionBy.map(toCamelCase);
+  }
+  if ($index && $index.length > 0) {
+    definition.$index = $index.map(columns => columns.map(toCamelCase));
+  }
+  if ($orderBy) {
+    definition.$orderBy = $orderBy.map(toCamelCase);
+  }
+  if ($enums) {
+    definition.$enums = $enums;
+  }
+  if ($constraints) {
+    definition.$constraints = Object.fromEntries(
+      Object.entries($constraints).map(([column, constraints]) => [toCamelCase(column), constraints])
+    );
+  }
+
+  // Modifiers: ! for the primary key, # for unique indexed columns, ? for
+  // nullable columns
+  for (const [fieldName, field] of schema.fields) {
+    const optional = field.isOptional && field.modifier !== '!' ? '?' : '';
+    const defaultValue = field.defaultValue !== undefined ? ` = ${field.defaultValue}` : '';
+    definition[toCamelCase(fieldName)] = `${field.type}${field.modifier}${optional}${defaultValue}`;
+  }
+  for (const [relationName, relation] of schema.relations) {
+    definition[toCamelCase(relationName)] = formatRelation(relation);
+  }
+
+  return definition;
+}
+
 // =============================================================================
 // Naming Conventions
 // =============================================================================
@@ -521,7 +1316,7 @@ function tableToIceTypeSchema(table: IntrospectedTable): GeneratedSchema {
 /**
  * Convert snake_case to PascalCase
  */
-function toPascalCase(str: string): string {
+export function toPascalCase(str: string): string {
   return str
     .split('_')
     .map(part => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase())
@@ -562,12 +1357,13 @@ const SYSTEM_TABLE_PATTERNS = [
   /^mysql\./,       // MySQL system
   /^sys\./,         // MySQL sys schema
   /^performance_schema/,  // MySQL performance
+  /^_icetype_migrations/, // ice migrate history and lock tables
 ];
 
 /**
  * Filter tables based on options
  */
-function filterTables(
+export function filterTables(
   tables: IntrospectedTable[],
   options: { tables?: string[]; exclude?: string[] }
 ): IntrospectedTable[] {
@@ -600,51 +1396,35 @@ function filterTables(
 /**
  * Generate TypeScript output from introspected tables
  */
-function generateTypescriptOutput(tables: IntrospectedTable[]): string {
+export function generateTypescriptOutput(tables: IntrospectedTable[], dialect: DatabaseDialect = 'postgres'): string {
   const lines: string[] = [
     "import { parseSchema } from '@icetype/core';",
     '',
   ];
 
-  for (const table of tables) {
-    const schema = tableToIceTypeSchema(table);
-    const varName = getExportName(table.name);
-    const typeName = table.name;
+  const quote = (value: string): string => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
 
-    lines.push(`export const ${varName} = parseSchema({`);
-    lines.push(`  $type: '${typeName}',`);
+  for (const schema of tablesToIceTypeSchemas(tables, dialect)) {
+    const definition = toSchemaDefinition(schema);
+    const entries = Object.entries(definition);
+
+    lines.push(`export const ${getExportName(schema.name)} = parseSchema({`);
+    lines.push(`  $type: ${quote(schema.name)},`);
 
     // Add directives
-    if (schema.directives.$partitionBy) {
-      lines.push(`  $partitionBy: ${JSON.stringify(schema.directives.$partitionBy)},`);
-    }
-    if (schema.directives.$index && schema.directives.$index.length > 0) {
-      lines.push(`  $index: ${JSON.stringify(schema.directives.$index)},`);
+    for (const [key, value] of entries) {
+      if (key.startsWith('$') && key !== '$type') {
+        lines.push(`  ${key}: ${JSON.stringify(value)},`);
+      }
     }
 
     lines.push('');
 
-    // Add fields
-    for (const [fieldName, field] of schema.fields) {
-      const camelName = toCamelCase(fieldName);
-      let typeStr = field.type;
-
-      // Add modifier if set
-      // modifier is determined by tableToIceTypeSchema:
-      // - Primary key: !
-      // - Unique indexed: #
-      // - Other: no modifier
-      if (field.modifier) {
-        typeStr += field.modifier;
+    // Add fields and relations
+    for (const [key, value] of entries) {
+      if (!key.startsWith('$')) {
+        lines.push(`  ${key}: ${quote(String(value))},`);
       }
-
-      lines.push(`  ${camelName}: '${typeStr}',`);
-    }
-
-    // Add relations
-    for (const [relationName, relation] of schema.relations) {
-      const camelName = toCamelCase(relationName);
-      lines.push(`  ${camelName}: '-> ${toPascalCase(relation.targetTable)}',`);
     }
 
     lines.push('});');
@@ -657,19 +1437,18 @@ function generateTypescriptOutput(tables: IntrospectedTable[]): string {
 /**
  * Generate JSON output from introspected tables
  */
-function generateJsonOutput(tables: IntrospectedTable[]): string {
-  const schemas = tables.map(table => {
-    const schema = tableToIceTypeSchema(table);
+export function generateJsonOutput(tables: IntrospectedTable[], dialect: DatabaseDialect = 'postgres'): string {
+  const schemas = tablesToIceTypeSchemas(tables, dialect).map(schema => {
     const fields: Record<string, GeneratedField> = {};
     for (const [key, value] of schema.fields) {
       fields[key] = value;
     }
-    const relations: Record<string, { targetTable: string; targetField: string }> = {};
+    const relations: Record<string, GeneratedRelation> = {};
     for (const [key, value] of schema.relations) {
       relations[key] = value;
     }
     return {
-      name: table.name,
+      name: schema.name,
       fields,
       relations,
       directives: schema.directives,
@@ -682,7 +1461,7 @@ function generateJsonOutput(tables: IntrospectedTable[]): string {
 /**
  * Write output to file, creating directories if needed
  */
-async function writeOutput(outputPath: string, content: string): Promise<void> {
+export async function writeOutput(outputPath: string, content: string): Promise<void> {
   const dir = dirname(outputPath);
   if (!existsSync(dir)) {
     mkdirSync(dir, { recursive: true });
@@ -694,10 +1473,36 @@ async function writeOutput(outputPath: string, content: string): Promise<void> {
 // Main Command
 // =============================================================================
 
+const PULL_HELP: HelpCommand = {
+  name: 'pull',
+  description: 'Generate IceType schemas from an existing database',
+  usage: 'ice pull <connection-url> [--output <file>] [--format typescript|json] [--tables <list>] [--exclude <list>]',
+  options: [
+    { name: 'output', short: 'o', description: 'Output file path (default: stdout)' },
+    { name: 'format', description: 'Output format: typescript or json', defaultValue: 'typescript' },
+    { name: 'schema-name', description: 'Database schema to read (default: public for Postgres, main for DuckDB)' },
+    { name: 'tables', description: 'Comma-separated tables to include' },
+    { name: 'exclude', description: 'Comma-separated tables to skip' },
+    { name: 'quiet', short: 'q', description: 'Suppress the confirmation message' },
+  ],
+  examples: [
+    'ice pull ./dev.db --output ./schema.ts',
+    'ice pull pglite://./pgdata --tables users,posts',
+    'ice pull postgres://localhost:5432/mydb --schema-name app -o ./schema.ts',
+    'ice pull ./warehouse.duckdb --format json',
+  ],
+};
+
 /**
  * Main pull command handler
  */
 export async function pull(args: string[]): Promise<void> {
+  // Check for help flag first
+  if (hasHelpFlag(args)) {
+    console.log(generateHelpText(PULL_HELP));
+    process.exit(0);
+  }
+
   const options = parseArgs(args);
 
   // Validate required arguments
@@ -710,13 +1515,15 @@ export async function pull(args: string[]): Promise<void> {
   try {
     dialect = detectDialect(options.url);
   } catch {
-    throw new Error(`Invalid connection URL: '${options.url}'. Expected postgres://, mysql://, sqlite://, or a .db/.sqlite file path.`);
+    throw new Error(`Invalid connection URL: '${options.url}'. Expected postgres://, pglite://, mysql://, sqlite://, duckdb://, or a .db/.sqlite/.duckdb file path.`);
   }
 
   // Extract schema from database
   let tables: IntrospectedTable[];
   try {
-    tables = await extractSchema(options.url, dialect);
+    tables = await extractSchema(options.url, dialect, {
+      ...(options.schemaName !== undefined && { schemaName: options.schemaName }),
+    });
   } catch (error) {
     if (error instanceof Error) {
       // Re-throw specific errors
@@ -739,16 +1546,16 @@ export async function pull(args: string[]): Promise<void> {
 
   // Filter tables
   tables = filterTables(tables, {
-    tables: options.tables,
-    exclude: options.exclude,
+    ...(options.tables && { tables: options.tables }),
+    ...(options.exclude && { exclude: options.exclude }),
   });
 
   // Generate output
   let output: string;
   if (options.format === 'json') {
-    output = generateJsonOutput(tables);
+    output = generateJsonOutput(tables, dialect);
   } else {
-    output = generateTypescriptOutput(tables);
+    output = generateTypescriptOutput(tables, dialect);
   }
 
   // Write or print output
@@ -776,6 +1583,8 @@ export const _testHelpers = {
   mapPostgresType,
   mapMysqlType,
   mapSqliteType,
+  mapDuckdbType,
+  mapClickhouseType,
   extractSchema,
   introspectPostgres,
   introspectPostgresTable,
@@ -783,7 +1592,10 @@ export const _testHelpers = {
   introspectMysqlTable,
   introspectSqlite,
   introspectSqliteTable,
+  introspectDuckdb,
+  introspectDuckdbTable,
   tableToIceTypeSchema,
+  tablesToIceTypeSchemas,
   toPascalCase,
   toCamelCase,
   filterTables,
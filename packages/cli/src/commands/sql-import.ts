@@ -0,0 +1,1593 @@
+/**
+ * ice import sql command
+ *
+ * Converts CREATE TABLE scripts into IceType schemas without a database
+ * connection. Reads Postgres (including pg_dump output), MySQL, SQLite,
+ * DuckDB and ClickHouse DDL: column types, NOT NULL, DEFAULT, PRIMARY KEY,
+ * UNIQUE, CREATE INDEX, foreign keys, enum types and CHECK constraints.
+ *
+ * Statements and clauses IceType cannot represent (views, functions,
+ * expression indexes, computed columns, ...) are skipped with a warning
+ * instead of failing the import.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+  FIELD_FORMAT_PATTERNS,
+  parseSchema,
+  type FieldConstraints,
+  type FieldFormat,
+  type IceTypeSchema,
+} from '@icetype/core';
+import { generateHelpText, hasHelpFlag, type HelpCommand } from '../utils/help.js';
+import { createLogger, LogLevel } from '../utils/logger.js';
+import { requireOption, validateOptionValue } from '../utils/cli-error.js';
+import {
+  buildTable,
+  filterTables,
+  generateJsonOutput,
+  generateTypescriptOutput,
+  makeColumn,
+  tablesToIceTypeSchemas,
+  toPascalCase,
+  toSchemaDefinition,
+  writeOutput,
+  type IntrospectedColumn,
+  type IntrospectedForeignKey,
+  type IntrospectedIndex,
+  type IntrospectedTable,
+} from './pull.js';
+
+const SQL_IMPORT_HELP: HelpCommand = {
+  name: 'import sql',
+  description: 'Convert SQL CREATE TABLE scripts to IceType schemas',
+  usage: 'ice import sql <file> [--dialect <dialect>] [--output <file>] [--format <format>]',
+  options: [
+    { name: 'input', short: 'i', description: 'SQL file to import (or pass it as the first argument)', required: true },
+    { name: 'dialect', short: 'd', description: 'SQL dialect (postgres, mysql, sqlite, duckdb, clickhouse)', defaultValue: 'postgres' },
+    { name: 'output', short: 'o', description: 'Output file path (default: stdout)' },
+    { name: 'format', short: 'f', description: 'Output format (typescript, json)', defaultValue: 'typescript' },
+    { name: 'tables', description: 'Comma-separated list of tables to include' },
+    { name: 'exclude', description: 'Comma-separated list of tables to exclude' },
+    { name: 'quiet', short: 'q', description: 'Suppress informational messages and warnings' },
+  ],
+  examples: [
+    'ice import sql ./schema.sql --output ./schema.ts',
+    'pg_dump --schema-only mydb > dump.sql && ice import sql dump.sql -o ./schema.ts',
+    'ice import sql ./tables.sql --dialect mysql --format json',
+    'ice import sql ./events.sql -d clickhouse --tables events',
+  ],
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+const VALID_DIALECTS = ['postgres', 'mysql', 'sqlite', 'duckdb', 'clickhouse'] as const;
+export type SqlDialect = (typeof VALID_DIALECTS)[number];
+
+const VALID_FORMATS = ['typescript', 'json'] as const;
+type OutputFormat = (typeof VALID_FORMATS)[number];
+
+/**
+ * A statement or clause that was skipped or only partly imported
+ */
+export interface SqlImportWarning {
+  /** 1-based line of the statement in the SQL source */
+  line: number;
+  message: string;
+}
+
+/**
+ * Result of importing a SQL script
+ */
+export interface SqlImportResult {
+  /** Tables in the form `ice pull` produces, in declaration order */
+  tables: IntrospectedTable[];
+  /** The parsed IceType schema of each table */
+  schemas: IceTypeSchema[];
+  warnings: SqlImportWarning[];
+}
+
+export interface SqlImportOptions {
+  /** SQL dialect of the script (default: postgres) */
+  dialect?: SqlDialect;
+}
+
+interface SqlImportCliOptions {
+  input?: string;
+  dialect?: string;
+  output?: string;
+  format?: string;
+  tables?: string[];
+  exclude?: string[];
+  quiet: boolean;
+}
+
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+interface Token {
+  /** `word` is an unquoted identifier or keyword, `ident` a quoted identifier */
+  kind: 'word' | 'ident' | 'string' | 'number' | 'punct';
+  value: string;
+  line: number;
+}
+
+const MULTI_CHAR_OPERATORS = ['::', '<=', '>=', '<>', '!=', '||', '=>'];
+
+/**
+ * Split SQL source into tokens, dropping whitespace and comments.
+ */
+function tokenize(sql: string, dialect: SqlDialect): Token[] {
+  const tokens: Token[] = [];
+  // MySQL and ClickHouse string literals use backslash escapes
+  const backslashEscapes = dialect === 'mysql' || dialect === 'clickhouse';
+  let line = 1;
+  let i = 0;
+
+  const readQuoted = (close: string, escapes: boolean): string => {
+    const start = line;
+    let value = '';
+    i++;
+    while (i < sql.length) {
+      const char = sql[i]!;
+      if (escapes && char === '\\' && i + 1 < sql.length) {
+        const escaped = sql[i + 1]!;
+        value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+        i += 2;
+        continue;
+      }
+      if (char === close) {
+        if (sql[i + 1] === close) {
+          value += close;
+          i += 2;
+          continue;
+        }
+        i++;
+        return value;
+      }
+      if (char === '\n') {
+        line++;
+      }
+      value += char;
+      i++;
+    }
+    throw new Error(`Unterminated ${close === "'" ? 'string' : 'quoted identifier'} starting on line ${start}`);
+  };
+
+  while (i < sql.length) {
+    const char = sql[i]!;
+    const next = sql[i + 1];
+    const start = line;
+
+    if (char === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if ((char === '-' && next === '-') || (char === '#' && dialect === 'mysql')) {
+      while (i < sql.length && sql[i] !== '\n') {
+        i++;
+      }
+    } else if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      const stop = end === -1 ? sql.length : end + 2;
+      line += (sql.slice(i, stop).match(/\n/g) ?? []).length;
+      i = stop;
+    } else if (char === "'") {
+      tokens.push({ kind: 'string', value: readQuoted("'", backslashEscapes), line: start });
+    } else if ((char === 'E' || char === 'e') && next === "'" && dialect === 'postgres') {
+      // Postgres escape string: E'...'
+      i++;
+      tokens.push({ kind: 'string', value: readQuoted("'", true), line: start });
+    } else if (char === '"') {
+      // MySQL treats double quotes as strings unless ANSI_QUOTES is set
+      const value = readQuoted('"', backslashEscapes);
+      tokens.push({ kind: dialect === 'mysql' ? 'string' : 'ident', value, line: start });
+    } else if (char === '`') {
+      tokens.push({ kind: 'ident', value: readQuoted('`', false), line: start });
+    } else if (char === '[' && dialect === 'sqlite') {
+      tokens.push({ kind: 'ident', value: readQuoted(']', false), line: start });
+    } else if (char === '$' && /^\$\w*\$/.test(sql.slice(i, i + 64))) {
+      // Dollar-quoted string: $$...$$ or $tag$...$tag$
+      const tag = /^\$\w*\$/.exec(sql.slice(i, i + 64))![0];
+      const end = sql.indexOf(tag, i + tag.length);
+      const stop = end === -1 ? sql.length : end;
+      const value = sql.slice(i + tag.length, stop);
+      line += (value.match(/\n/g) ?? []).length;
+      tokens.push({ kind: 'string', value, line: start });
+      i = stop + tag.length;
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(next ?? ''))) {
+      const match = /^(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][-+]?\d+)?/.exec(sql.slice(i, i + 64))![0];
+      tokens.push({ kind: 'number', value: match, line: start });
+      i += match.length;
+    } else if (/[A-Za-z_\u0080-\uffff]/.test(char)) {
+      let end = i + 1;
+      while (end < sql.length && /[\w$\u0080-\uffff]/.test(sql[end]!)) {
+        end++;
+      }
+      tokens.push({ kind: 'word', value: sql.slice(i, end), line: start });
+      i = end;
+    } else {
+      const value = MULTI_CHAR_OPERATORS.find(op => sql.startsWith(op, i)) ?? char;
+      tokens.push({ kind: 'punct', value, line: start });
+      i += value.length;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Split tokens into statements on top-level semicolons. Semicolons inside
+ * a trigger's BEGIN ... END body do not end the statement.
+ */
+function splitStatements(tokens: Token[]): Token[][] {
+  const statements: Token[][] = [];
+  let current: Token[] = [];
+  let depth = 0;
+  let blocks = 0;
+
+  for (const token of tokens) {
+    if (current.slice(0, 4).some(t => isWordToken(t, 'TRIGGER'))) {
+      if (isWordToken(token, 'BEGIN', 'CASE')) blocks++;
+      if (isWordToken(token, 'END')) blocks--;
+    }
+    if (token.kind === 'punct') {
+      if (token.value === '(') depth++;
+      if (token.value === ')') depth = Math.max(0, depth - 1);
+      if (token.value === ';' && depth === 0 && blocks <= 0) {
+        if (current.length > 0) statements.push(current);
+        current = [];
+        blocks = 0;
+        continue;
+      }
+    }
+    current.push(token);
+  }
+  if (current.length > 0) {
+    statements.push(current);
+  }
+
+  return statements;
+}
+
+/**
+ * Split tokens on top-level commas.
+ */
+function splitOnCommas(tokens: Token[]): Token[][] {
+  const parts: Token[][] = [];
+  let current: Token[] = [];
+  let depth = 0;
+
+  for (const token of tokens) {
+    if (token.kind === 'punct') {
+      if (token.value === '(' || token.value === '[') depth++;
+      if (token.value === ')' || token.value === ']') depth--;
+      if (token.value === ',' && depth === 0) {
+        parts.push(current);
+        current = [];
+        continue;
+      }
+    }
+    current.push(token);
+  }
+  if (current.length > 0 || parts.length > 0) {
+    parts.push(current);
+  }
+
+  return parts;
+}
+
+// Keywords followed by a parenthesized operand rather than an argument list
+const KEYWORDS_BEFORE_PARENS = ['AND', 'OR', 'NOT', 'IN', 'ANY', 'SOME', 'ALL', 'EXISTS', 'BETWEEN', 'IS', 'AS', 'CHECK'];
+
+/**
+ * Render tokens back to compact SQL text, for types, defaults and warnings.
+ */
+function renderTokens(tokens: Token[]): string {
+  let text = '';
+
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    const value =
+      token.kind === 'string' ? `'${token.value.replace(/'/g, "''")}'`
+        : token.kind === 'ident' ? `"${token.value}"`
+          : token.value;
+
+    const isPunct = (t: Token | undefined, ...values: string[]): boolean =>
+      t?.kind === 'punct' && values.includes(t.value);
+    const followsName =
+      (previous?.kind === 'word' && !KEYWORDS_BEFORE_PARENS.includes(previous.value.toUpperCase())) ||
+      previous?.kind === 'ident' ||
+      isPunct(previous, ')', ']');
+    const unary =
+      isPunct(previous, '-', '+') && (index === 1 || isPunct(tokens[index - 2], '(', ',', '=', '<', '>', '<=', '>='));
+
+    const tight =
+      previous === undefined ||
+      isPunct(token, ')', ',', ']', '::', '.') ||
+      (isPunct(token, '(', '[') && followsName) ||
+      isPunct(previous, '(', '[', '::', '.') ||
+      unary;
+    text += tight ? value : ` ${value}`;
+  });
+
+  return text;
+}
+
+/**
+ * The start of a statement or clause, for warnings.
+ */
+function summarize(tokens: Token[]): string {
+  const text = renderTokens(tokens.slice(0, 8));
+  return tokens.length > 8 ? `${text} ...` : text;
+}
+
+function describeToken(token: Token | undefined): string {
+  return token === undefined ? 'end of statement' : `'${token.value}'`;
+}
+
+function isWordToken(token: Token | undefined, ...words: string[]): boolean {
+  return token?.kind === 'word' && words.includes(token.value.toUpperCase());
+}
+
+// =============================================================================
+// Token Stream
+// =============================================================================
+
+/**
+ * Cursor over the tokens of one statement or clause
+ */
+class TokenStream {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  next(): Token | undefined {
+    return this.tokens[this.pos++];
+  }
+
+  atEnd(): boolean {
+    return this.pos >= this.tokens.length;
+  }
+
+  /** Current position, for `since` */
+  mark(): number {
+    return this.pos;
+  }
+
+  /** Tokens consumed since a `mark` */
+  since(mark: number): Token[] {
+    return this.tokens.slice(mark, this.pos);
+  }
+
+  /** Consume and return the remaining tokens */
+  rest(): Token[] {
+    const rest = this.tokens.slice(this.pos);
+    this.pos = this.tokens.length;
+    return rest;
+  }
+
+  /** Whether the next tokens are the given unquoted keywords */
+  isWord(...words: string[]): boolean {
+    return words.every((word, offset) => isWordToken(this.peek(offset), word));
+  }
+
+  /** Consume the given keywords if they come next */
+  acceptWord(...words: string[]): boolean {
+    if (!this.isWord(...words)) {
+      return false;
+    }
+    this.pos += words.length;
+    return true;
+  }
+
+  isPunct(value: string): boolean {
+    const token = this.peek();
+    return token?.kind === 'punct' && token.value === value;
+  }
+
+  acceptPunct(value: string): boolean {
+    if (!this.isPunct(value)) {
+      return false;
+    }
+    this.pos++;
+    return true;
+  }
+
+  /** Consume a parenthesized group, returning the tokens inside it */
+  group(): Token[] {
+    if (!this.acceptPunct('(')) {
+      throw new Error(`Expected '(' but found ${describeToken(this.peek())}`);
+    }
+    const start = this.pos;
+    let depth = 1;
+    while (!this.atEnd()) {
+      const token = this.next()!;
+      if (token.kind === 'punct' && token.value === '(') depth++;
+      if (token.kind === 'punct' && token.value === ')' && --depth === 0) {
+        return this.tokens.slice(start, this.pos - 1);
+      }
+    }
+    throw new Error("Missing ')'");
+  }
+
+  /** Consume an identifier, quoted or not */
+  identifier(): Token {
+    const token = this.next();
+    if (token?.kind !== 'word' && token?.kind !== 'ident' && token?.kind !== 'string') {
+      throw new Error(`Expected a name but found ${describeToken(token)}`);
+    }
+    return token;
+  }
+
+  /** Consume tokens up to, not including, the first top-level token matching `stop` */
+  until(stop: (token: Token, next: Token | undefined) => boolean): Token[] {
+    const start = this.pos;
+    let depth = 0;
+    while (!this.atEnd()) {
+      const token = this.peek()!;
+      if (depth === 0 && stop(token, this.peek(1))) {
+        break;
+      }
+      if (token.kind === 'punct' && (token.value === '(' || token.value === '[')) depth++;
+      if (token.kind === 'punct' && (token.value === ')' || token.value === ']')) depth--;
+      this.pos++;
+    }
+    return this.tokens.slice(start, this.pos);
+  }
+}
+
+// =============================================================================
+// CHECK Expressions
+// =============================================================================
+
+/** A CHECK expression, parsed far enough to recognize value constraints */
+type CheckNode =
+  | { kind: 'column'; name: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'call'; name: string; args: CheckNode[] }
+  | { kind: 'list'; items: CheckNode[] }
+  | { kind: 'compare'; op: string; left: CheckNode; right: CheckNode }
+  | { kind: 'and'; items: CheckNode[] }
+  | { kind: 'between'; subject: CheckNode; low: CheckNode; high: CheckNode }
+  | { kind: 'in'; subject: CheckNode; items: CheckNode[] }
+  | { kind: 'isNotNull'; subject: CheckNode }
+  | { kind: 'other' };
+
+const COMPARISON_OPERATORS = ['=', '<>', '!=', '<', '<=', '>', '>=', '~'];
+const ARITHMETIC_OPERATORS = ['+', '-', '*', '/', '%', '||'];
+// Words that continue a type name after `::`, as in `::character varying`
+const CAST_TYPE_CONTINUATIONS = ['VARYING', 'PRECISION', 'WITH', 'WITHOUT', 'TIME', 'ZONE'];
+
+/**
+ * Parse a CHECK expression. Comparisons, BETWEEN, IN, `= ANY (ARRAY[...])`,
+ * regular expression matches and function calls are kept; OR, NOT and
+ * other operators parse as `other`.
+ */
+function parseCheck(tokens: Token[], name: (token: Token) => string): CheckNode {
+  const stream = new TokenStream(tokens);
+  const other: CheckNode = { kind: 'other' };
+  const untilBoolean = (): void => {
+    stream.until(token => isWordToken(token, 'AND', 'OR'));
+  };
+
+  const list = (inner: Token[]): CheckNode[] => splitOnCommas(inner).map(part => parseCheck(part, name));
+
+  const skipCasts = (): void => {
+    while (stream.acceptPunct('::')) {
+      stream.next();
+      while (isWordToken(stream.peek(), ...CAST_TYPE_CONTINUATIONS)) {
+        stream.next();
+      }
+      if (stream.isPunct('(')) {
+        stream.group();
+      }
+      while (stream.isPunct('[') && stream.peek(1)?.value === ']') {
+        stream.next();
+        stream.next();
+      }
+    }
+  };
+
+  const primary = (): CheckNode => {
+    const token = stream.peek();
+    let node: CheckNode;
+    if (token === undefined) {
+      return other;
+    } else if (token.kind === 'punct' && token.value === '(') {
+      const items = list(stream.group());
+      node = items.length === 1 ? items[0]! : { kind: 'list', items };
+    } else if (token.kind === 'punct' && token.value === '-' && stream.peek(1)?.kind === 'number') {
+      stream.next();
+      node = { kind: 'number', value: -Number(stream.next()!.value) };
+    } else if (token.kind === 'number') {
+      stream.next();
+      node = { kind: 'number', value: Number(token.value) };
+    } else if (token.kind === 'string') {
+      stream.next();
+      node = { kind: 'string', value: token.value };
+    } else if (isWordToken(token, 'ARRAY') && stream.peek(1)?.value === '[') {
+      stream.next();
+      stream.next();
+      const inner = stream.until(t => t.kind === 'punct' && t.value === ']');
+      stream.acceptPunct(']');
+      node = { kind: 'list', items: list(inner) };
+    } else if (token.kind === 'word' && stream.peek(1)?.value === '(' && stream.peek(1)?.kind === 'punct') {
+      stream.next();
+      node = { kind: 'call', name: token.value.toLowerCase(), args: list(stream.group()) };
+    } else if (token.kind === 'word' || token.kind === 'ident') {
+      // Qualified references keep only the column name
+      let column = name(stream.next()!);
+      while (stream.acceptPunct('.')) {
+        column = name(stream.identifier());
+      }
+      node = { kind: 'column', name: column };
+    } else {
+      stream.next();
+      node = other;
+    }
+    skipCasts();
+    return node;
+  };
+
+  const operand = (): CheckNode => {
+    const node = primary();
+    if (stream.peek()?.kind === 'punct' && ARITHMETIC_OPERATORS.includes(stream.peek()!.value)) {
+      while (stream.peek()?.kind === 'punct' && ARITHMETIC_OPERATORS.includes(stream.peek()!.value)) {
+        stream.next();
+        primary();
+      }
+      return other;
+    }
+    return node;
+  };
+
+  const predicate = (): CheckNode => {
+    if (stream.acceptWord('NOT')) {
+      predicate();
+      return other;
+    }
+
+    const subject = operand();
+    const token = stream.peek();
+
+    if (token?.kind === 'punct' && COMPARISON_OPERATORS.includes(token.value)) {
+      stream.next();
+      if (stream.acceptWord('ANY') || stream.acceptWord('SOME')) {
+        const values = operand();
+        if (token.value !== '=') {
+          return other;
+        }
+        return { kind: 'in', subject, items: values.kind === 'list' ? values.items : [values] };
+      }
+      return { kind: 'compare', op: token.value, left: subject, right: operand() };
+    }
+    if (stream.acceptWord('BETWEEN')) {
+      const low = operand();
+      stream.acceptWord('AND');
+      return { kind: 'between', subject, low, high: operand() };
+    }
+    if (stream.acceptWord('IN')) {
+      const values = operand();
+      return { kind: 'in', subject, items: values.kind === 'list' ? values.items : [values] };
+    }
+    if (stream.acceptWord('IS', 'NOT', 'NULL')) {
+      return { kind: 'isNotNull', subject };
+    }
+    if (stream.acceptWord('REGEXP') || stream.acceptWord('RLIKE')) {
+      return { kind: 'compare', op: '~', left: subject, right: operand() };
+    }
+    if (stream.acceptWord('NOT', 'BETWEEN')) {
+      operand();
+      stream.acceptWord('AND');
+      operand();
+      return other;
+    }
+    if (token !== undefined && !isWordToken(token, 'AND', 'OR')) {
+      untilBoolean();
+      return other;
+    }
+    return subject;
+  };
+
+  const conjunction = (): CheckNode => {
+    const items = [predicate()];
+    while (stream.acceptWord('AND')) {
+      items.push(predicate());
+    }
+    return items.length === 1 ? items[0]! : { kind: 'and', items };
+  };
+
+  let node = conjunction();
+  while (stream.acceptWord('OR')) {
+    conjunction();
+    node = other;
+  }
+  return stream.atEnd() ? node : other;
+}
+
+/** Flatten nested ANDs into a list of conjuncts */
+function conjuncts(node: CheckNode): CheckNode[] {
+  return node.kind === 'and' ? node.items.flatMap(conjuncts) : [node];
+}
+
+const LENGTH_FUNCTIONS = ['length', 'char_length', 'character_length', 'lengthutf8', 'len'];
+const REGEX_FUNCTIONS = ['regexp_matches', 'regexp_like', 'regexp_full_match', 'match'];
+const FLIPPED_OPERATORS: Record<string, string> = { '<': '>', '<=': '>=', '>': '<', '>=': '<=', '=': '=' };
+
+// =============================================================================
+// Schema Builder
+// =============================================================================
+
+// Keywords that end a column's type and start its constraints
+const COLUMN_CONSTRAINT_KEYWORDS = [
+  'NOT', 'NULL', 'DEFAULT', 'PRIMARY', 'UNIQUE', 'REFERENCES', 'CHECK', 'CONSTRAINT', 'AUTO_INCREMENT',
+  'AUTOINCREMENT', 'COLLATE', 'GENERATED', 'AS', 'COMMENT', 'ON', 'CHARSET', 'MATERIALIZED', 'ALIAS',
+  'EPHEMERAL', 'CODEC', 'TTL', 'KEY', 'VISIBLE', 'INVISIBLE',
+];
+
+// Statements that do not affect the imported schema
+const IGNORED_STATEMENTS = [
+  'SET', 'SELECT', 'BEGIN', 'START', 'COMMIT', 'ROLLBACK', 'USE', 'PRAGMA', 'GRANT', 'REVOKE', 'COMMENT',
+  'INSERT', 'LOCK', 'UNLOCK', 'ANALYZE', 'VACUUM', 'DROP',
+];
+const IGNORED_CREATE_STATEMENTS = ['SEQUENCE', 'EXTENSION', 'SCHEMA', 'DATABASE'];
+
+function isConstraintKeyword(token: Token, next: Token | undefined): boolean {
+  if (token.kind !== 'word') {
+    return false;
+  }
+  const word = token.value.toUpperCase();
+  return COLUMN_CONSTRAINT_KEYWORDS.includes(word) || (word === 'CHARACTER' && isWordToken(next, 'SET'));
+}
+
+interface TableDraft {
+  name: string;
+  schema?: string;
+  columns: IntrospectedColumn[];
+  primaryKey: string[];
+  indexes: IntrospectedIndex[];
+  foreignKeys: IntrospectedForeignKey[];
+  orderBy?: string[];
+  line: number;
+}
+
+/**
+ * Applies DDL statements in order, collecting tables, enum types and
+ * warnings.
+ */
+class SqlSchemaBuilder {
+  readonly tables = new Map<string, TableDraft>();
+  readonly warnings: SqlImportWarning[] = [];
+  private readonly enumTypes = new Map<string, string[]>();
+  private line = 1;
+
+  constructor(private readonly dialect: SqlDialect) {}
+
+  private warn(message: string, line = this.line): void {
+    this.warnings.push({ line, message });
+  }
+
+  /** The name an identifier refers to: Postgres folds unquoted names to lower case */
+  private name(token: Token): string {
+    return token.kind === 'word' && this.dialect === 'postgres' ? token.value.toLowerCase() : token.value;
+  }
+
+  /** Read a possibly schema-qualified name */
+  private qualifiedName(stream: TokenStream): { schema?: string; name: string } {
+    const parts = [this.name(stream.identifier())];
+    while (stream.acceptPunct('.')) {
+      parts.push(this.name(stream.identifier()));
+    }
+    const name = parts.pop()!;
+    return parts.length > 0 ? { schema: parts[parts.length - 1]!, name } : { name };
+  }
+
+  private findTable(name: string): TableDraft | undefined {
+    return this.tables.get(name) ??
+      [...this.tables.values()].find(table => table.name.toLowerCase() === name.toLowerCase());
+  }
+
+  private findColumn(table: TableDraft, name: string): IntrospectedColumn | undefined {
+    return table.columns.find(column => column.name === name) ??
+      table.columns.find(column => column.name.toLowerCase() === name.toLowerCase());
+  }
+
+  // ---------------------------------------------------------------------------
+  // Statements
+  // ---------------------------------------------------------------------------
+
+  apply(tokens: Token[]): void {
+    this.line = tokens[0]!.line;
+    try {
+      this.statement(new TokenStream(tokens), tokens);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.warn(`Could not parse '${summarize(tokens)}': ${message}`);
+    }
+  }
+
+  private statement(stream: TokenStream, tokens: Token[]): void {
+    if (stream.acceptWord('CREATE')) {
+      stream.acceptWord('OR', 'REPLACE');
+      while (stream.acceptWord('TEMP') || stream.acceptWord('TEMPORARY') || stream.acceptWord('UNLOGGED') ||
+        stream.acceptWord('GLOBAL') || stream.acceptWord('LOCAL')) {
+        // Table persistence has no IceType counterpart
+      }
+      if (stream.acceptWord('TABLE')) {
+        return this.createTable(stream);
+      }
+      if (stream.isWord('UNIQUE') || stream.isWord('INDEX')) {
+        return this.createIndex(stream);
+      }
+      if (stream.acceptWord('TYPE')) {
+        return this.createType(stream);
+      }
+      if (IGNORED_CREATE_STATEMENTS.some(word => stream.isWord(word))) {
+        return;
+      }
+    } else if (stream.acceptWord('ALTER')) {
+      if (stream.acceptWord('TABLE')) {
+        return this.alterTable(stream);
+      }
+      if (IGNORED_CREATE_STATEMENTS.some(word => stream.isWord(word))) {
+        return;
+      }
+    } else if (stream.acceptWord('DROP', 'TABLE')) {
+      return this.dropTable(stream);
+    } else if (IGNORED_STATEMENTS.some(word => stream.isWord(word))) {
+      return;
+    }
+
+    this.warn(`Skipped unsupported statement '${summarize(tokens)}'`);
+  }
+
+  private createTable(stream: TokenStream): void {
+    stream.acceptWord('IF', 'NOT', 'EXISTS');
+    const { schema, name } = this.qualifiedName(stream);
+    if (stream.acceptWord('ON', 'CLUSTER')) {
+      stream.identifier();
+    }
+
+    if (!stream.isPunct('(')) {
+      const form = stream.peek()?.value.toUpperCase();
+      this.warn(`Skipped table ${name}: CREATE TABLE ${form ? `... ${form}` : 'without columns'} is not supported`);
+      return;
+    }
+
+    const table: TableDraft = { name, columns: [], primaryKey: [], indexes: [], foreignKeys: [], line: this.line };
+    if (schema !== undefined) {
+      table.schema = schema;
+    }
+
+    for (const element of splitOnCommas(stream.group())) {
+      if (element.length > 0) {
+        this.guarded(table, element, () => this.tableElement(table, element));
+      }
+    }
+    this.tableOptions(table, stream);
+
+    if (this.tables.has(name)) {
+      this.warn(`Table ${name} is defined more than once; using the last definition`);
+    }
+    this.tables.set(name, table);
+  }
+
+  /** Run one clause, turning a parse error into a warning for that clause */
+  private guarded(table: TableDraft, tokens: Token[], apply: () => void): void {
+    try {
+      apply();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.warn(`Skipped '${summarize(tokens)}' in table ${table.name}: ${message}`, tokens[0]?.line);
+    }
+  }
+
+  /** Trailing table options: ClickHouse PRIMARY KEY and ORDER BY, Postgres INHERITS */
+  private tableOptions(table: TableDraft, stream: TokenStream): void {
+    while (!stream.atEnd()) {
+      if (this.dialect === 'clickhouse' && stream.acceptWord('PRIMARY', 'KEY')) {
+        table.primaryKey = this.keyColumns(table, stream);
+      } else if (this.dialect === 'clickhouse' && stream.acceptWord('ORDER', 'BY')) {
+        table.orderBy = this.keyColumns(table, stream);
+      } else if (stream.acceptWord('INHERITS')) {
+        stream.group();
+        this.warn(`Ignored INHERITS on table ${table.name}; inherited columns are not imported`);
+      } else {
+        stream.next();
+      }
+    }
+  }
+
+  /** Columns of a ClickHouse key: `id`, `(a, b)` or `tuple()` */
+  private keyColumns(table: TableDraft, stream: TokenStream): string[] {
+    const parts = stream.isPunct('(')
+      ? splitOnCommas(stream.group())
+      : [stream.until(token => isWordToken(token, 'PRIMARY', 'ORDER', 'PARTITION', 'SAMPLE', 'SETTINGS', 'TTL'))];
+
+    const columns: string[] = [];
+    for (const part of parts) {
+      const [first] = part;
+      if (part.length === 1 && (first!.kind === 'word' || first!.kind === 'ident')) {
+        columns.push(this.findColumn(table, this.name(first!))?.name ?? this.name(first!));
+      } else if (part.length > 0 && !isWordToken(first, 'TUPLE')) {
+        this.warn(`Ignored key expression '${renderTokens(part)}' on table ${table.name}`);
+      }
+    }
+    return columns;
+  }
+
+  private createIndex(stream: TokenStream): void {
+    const unique = stream.acceptWord('UNIQUE');
+    stream.acceptWord('INDEX');
+    stream.acceptWord('CONCURRENTLY');
+    stream.acceptWord('IF', 'NOT', 'EXISTS');
+
+    // Postgres allows `CREATE INDEX ON t (...)` without a name
+    const indexName = stream.isWord('ON') ? undefined : this.qualifiedName(stream).name;
+    if (stream.acceptWord('USING')) {
+      stream.next();
+    }
+    if (!stream.acceptWord('ON')) {
+      throw new Error(`Expected ON but found ${describeToken(stream.peek())}`);
+    }
+    stream.acceptWord('ONLY');
+    const { name: tableName } = this.qualifiedName(stream);
+    if (stream.acceptWord('USING')) {
+      stream.next();
+    }
+
+    const table = this.findTable(tableName);
+    if (!table) {
+      this.warn(`Skipped index ${indexName ?? `on ${tableName}`}: table ${tableName} is not defined`);
+      return;
+    }
+
+    const label = indexName ?? `on ${table.name}`;
+    const columns = this.indexColumns(stream.group(), label, table);
+    if (!columns) {
+      return;
+    }
+    stream.until(token => isWordToken(token, 'WHERE'));
+    if (stream.acceptWord('WHERE')) {
+      this.warn(`Index ${label} is partial; imported without its WHERE clause`);
+    }
+
+    table.indexes.push({
+      name: indexName ?? `${table.name}_${columns.join('_')}_${unique ? 'key' : 'idx'}`,
+      columns,
+      unique,
+    });
+  }
+
+  /**
+   * Read the columns of an index or key. Returns undefined, with a warning,
+   * when the index is over expressions rather than columns.
+   */
+  private indexColumns(tokens: Token[], label: string, table?: TableDraft): string[] | undefined {
+    const columns: string[] = [];
+    for (const part of splitOnCommas(tokens)) {
+      const stream = new TokenStream(part);
+      const first = stream.next();
+      let isColumn = first?.kind === 'word' || first?.kind === 'ident';
+      // MySQL prefix length: `title(10)`
+      if (isColumn && stream.isPunct('(')) {
+        const inner = stream.group();
+        isColumn = inner.length === 1 && inner[0]!.kind === 'number';
+      }
+      // Anything but sort order, NULLS FIRST/LAST, collations and operator classes
+      if (!isColumn || stream.rest().some(token => token.kind === 'punct')) {
+        this.warn(`Skipped index ${label}: expression indexes are not supported`);
+        return undefined;
+      }
+      const name = this.name(first!);
+      columns.push((table && this.findColumn(table, name)?.name) ?? name);
+    }
+    return columns;
+  }
+
+  private createType(stream: TokenStream): void {
+    const { name } = this.qualifiedName(stream);
+    if (!stream.acceptWord('AS', 'ENUM')) {
+      this.warn(`Skipped type ${name}: only enum types are supported`);
+      return;
+    }
+    const values = stream.group().filter(token => token.kind === 'string').map(token => token.value);
+    this.enumTypes.set(name, values);
+  }
+
+  private alterTable(stream: TokenStream): void {
+    stream.acceptWord('IF', 'EXISTS');
+    stream.acceptWord('ONLY');
+    const { name } = this.qualifiedName(stream);
+    const table = this.findTable(name);
+    if (!table) {
+      this.warn(`Skipped ALTER TABLE on unknown table ${name}`);
+      return;
+    }
+
+    for (const action of splitOnCommas(stream.rest())) {
+      this.guarded(table, action, () => this.alterAction(table, new TokenStream(action)));
+    }
+  }
+
+  private alterAction(table: TableDraft, stream: TokenStream): void {
+    if (stream.acceptWord('ADD')) {
+      if (!stream.acceptWord('COLUMN')) {
+        // ADD CONSTRAINT, ADD PRIMARY KEY, ADD INDEX, ... or a column
+        this.tableElement(table, stream.rest());
+        return;
+      }
+      stream.acceptWord('IF', 'NOT', 'EXISTS');
+      this.columnDefinition(table, stream);
+      return;
+    }
+
+    if (stream.acceptWord('ALTER')) {
+      stream.acceptWord('COLUMN');
+      const column = this.findColumn(table, this.name(stream.identifier()));
+      if (!column) {
+        throw new Error('unknown column');
+      }
+      if (stream.acceptWord('SET', 'DEFAULT')) {
+        column.defaultValue = renderTokens(stream.rest());
+      } else if (stream.acceptWord('DROP', 'DEFAULT')) {
+        delete column.defaultValue;
+      } else if (stream.acceptWord('SET', 'NOT', 'NULL')) {
+        column.nullable = false;
+      } else if (stream.acceptWord('DROP', 'NOT', 'NULL')) {
+        column.nullable = true;
+      } else if (stream.acceptWord('SET', 'DATA', 'TYPE') || stream.acceptWord('TYPE')) {
+        column.type = renderTokens(stream.until(token => isWordToken(token, 'USING', 'COLLATE')));
+      } else if (!stream.isWord('ADD', 'GENERATED') && !stream.isWord('SET')) {
+        this.warn(`Skipped unsupported ALTER TABLE ${table.name} action '${summarize(stream.rest())}'`);
+      }
+      return;
+    }
+
+    if (stream.acceptWord('DROP')) {
+      if (stream.acceptWord('CONSTRAINT')) {
+        stream.acceptWord('IF', 'EXISTS');
+        const constraint = this.name(stream.identifier());
+        table.indexes = table.indexes.filter(index => index.name !== constraint);
+        table.foreignKeys = table.foreignKeys.filter(key => key.name !== constraint);
+        return;
+      }
+      stream.acceptWord('COLUMN');
+      stream.acceptWord('IF', 'EXISTS');
+      const column = this.findColumn(table, this.name(stream.identifier()));
+      if (column) {
+        table.columns = table.columns.filter(c => c !== column);
+        table.primaryKey = table.primaryKey.filter(name => name !== column.name);
+        table.indexes = table.indexes.filter(index => !index.columns.includes(column.name));
+        table.foreignKeys = table.foreignKeys.filter(key => !key.columns.includes(column.name));
+      }
+      return;
+    }
+
+    // Ownership, storage and replication settings
+    if (['OWNER', 'REPLICA', 'CLUSTER', 'ENABLE', 'DISABLE', 'SET', 'RESET'].some(word => stream.isWord(word))) {
+      return;
+    }
+
+    this.warn(`Skipped unsupported ALTER TABLE ${table.name} action '${summarize(stream.rest())}'`);
+  }
+
+  private dropTable(stream: TokenStream): void {
+    stream.acceptWord('IF', 'EXISTS');
+    do {
+      const table = this.findTable(this.qualifiedName(stream).name);
+      if (table) {
+        this.tables.delete(table.name);
+      }
+    } while (stream.acceptPunct(','));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Table Elements
+  // ---------------------------------------------------------------------------
+
+  private tableElement(table: TableDraft, tokens: Token[]): void {
+    const stream = new TokenStream(tokens);
+
+    let constraintName: string | undefined;
+    if (stream.acceptWord('CONSTRAINT')) {
+      constraintName = this.name(stream.identifier());
+    }
+
+    if (stream.acceptWord('PRIMARY', 'KEY')) {
+      table.primaryKey = this.indexColumns(stream.group(), constraintName ?? `${table.name}_pkey`, table) ?? [];
+      return;
+    }
+    if (stream.acceptWord('UNIQUE')) {
+      if (!stream.acceptWord('KEY')) {
+        stream.acceptWord('INDEX');
+      }
+      const indexName = stream.isPunct('(') ? constraintName : this.name(stream.identifier());
+      const columns = this.indexColumns(stream.group(), indexName ?? `on ${table.name}`, table);
+      if (columns) {
+        table.indexes.push({ name: indexName ?? `${table.name}_${columns.join('_')}_key`, columns, unique: true });
+      }
+      return;
+    }
+    if (stream.acceptWord('FOREIGN', 'KEY')) {
+      if (!stream.isPunct('(')) {
+        stream.identifier();
+      }
+      const columns = this.indexColumns(stream.group(), constraintName ?? `on ${table.name}`, table) ?? [];
+      if (!stream.acceptWord('REFERENCES')) {
+        throw new Error(`Expected REFERENCES but found ${describeToken(stream.peek())}`);
+      }
+      this.foreignKey(table, columns, stream, constraintName);
+      return;
+    }
+    if (stream.acceptWord('CHECK')) {
+      // ClickHouse table constraints are not parenthesized: CHECK x > 0
+      this.check(table, this.dialect === 'clickhouse' ? stream.rest() : stream.group());
+      return;
+    }
+    if (['FULLTEXT', 'SPATIAL', 'EXCLUDE', 'LIKE', 'PROJECTION'].some(word => stream.isWord(word))) {
+      this.warn(`Skipped ${stream.next()!.value.toUpperCase()} clause on table ${table.name}`);
+      return;
+    }
+    if (constraintName !== undefined) {
+      this.warn(`Skipped unsupported constraint ${constraintName} on table ${table.name}`);
+      return;
+    }
+    if ((stream.isWord('KEY') || stream.isWord('INDEX')) && this.isIndexElement(tokens)) {
+      this.inlineIndex(table, stream, tokens);
+      return;
+    }
+
+    this.columnDefinition(table, stream);
+  }
+
+  /**
+   * Whether an element starting with KEY or INDEX declares an index: MySQL
+   * reserves both words, and ClickHouse skipping indexes have a TYPE.
+   */
+  private isIndexElement(tokens: Token[]): boolean {
+    return this.dialect === 'mysql' ||
+      (this.dialect === 'clickhouse' && tokens.some(token => isWordToken(token, 'TYPE')));
+  }
+
+  /** MySQL `KEY name (cols)`, or a ClickHouse `INDEX name expr TYPE ...` */
+  private inlineIndex(table: TableDraft, stream: TokenStream, tokens: Token[]): void {
+    stream.next();
+    const indexName = stream.isPunct('(') ? undefined : this.name(stream.identifier());
+    if (tokens.some(token => isWordToken(token, 'TYPE'))) {
+      this.warn(`Skipped data skipping index ${indexName} on table ${table.name}`);
+      return;
+    }
+    const columns = this.indexColumns(stream.group(), indexName ?? `on ${table.name}`, table);
+    if (columns) {
+      table.indexes.push({ name: indexName ?? `${table.name}_${columns.join('_')}_idx`, columns, unique: false });
+    }
+  }
+
+  private columnDefinition(table: TableDraft, stream: TokenStream): void {
+    const name = this.name(stream.identifier());
+    const typeTokens = stream.until(isConstraintKeyword);
+    const type = renderTokens(typeTokens);
+
+    // ClickHouse columns are NOT NULL unless their type is Nullable(...)
+    const nullable = this.dialect !== 'clickhouse' || /\bNullable\(/i.test(type);
+    const column = makeColumn(name, type, nullable, undefined);
+
+    const enumValues = inlineEnumValues(typeTokens);
+    if (enumValues) {
+      column.enum = { name: `${toPascalCase(table.name)}${toPascalCase(name)}`, values: enumValues };
+    } else if (this.dialect === 'mysql' && isWordToken(typeTokens[0], 'SET')) {
+      this.warn(`Column ${table.name}.${name} is a MySQL SET; imported as a string`);
+    }
+
+    let primaryKey = false;
+    while (!stream.atEnd()) {
+      if (stream.acceptWord('CONSTRAINT')) {
+        stream.identifier();
+      } else if (stream.acceptWord('NOT', 'NULL')) {
+        column.nullable = false;
+      } else if (stream.acceptWord('NULL')) {
+        column.nullable = true;
+      } else if (stream.acceptWord('DEFAULT')) {
+        column.defaultValue = renderTokens(this.expression(stream));
+      } else if (stream.acceptWord('PRIMARY', 'KEY') || stream.acceptWord('KEY')) {
+        // MySQL accepts a bare KEY as shorthand for PRIMARY KEY
+        primaryKey = true;
+        if (!stream.acceptWord('ASC')) stream.acceptWord('DESC');
+        if (stream.acceptWord('ON', 'CONFLICT')) stream.next();
+      } else if (stream.acceptWord('UNIQUE')) {
+        stream.acceptWord('KEY');
+        table.indexes.push({ name: `${table.name}_${name}_key`, columns: [name], unique: true });
+      } else if (stream.acceptWord('REFERENCES')) {
+        this.foreignKey(table, [name], stream, undefined);
+      } else if (stream.acceptWord('CHECK')) {
+        this.check(table, stream.group(), column);
+      } else if (['AUTO_INCREMENT', 'AUTOINCREMENT', 'VISIBLE', 'INVISIBLE'].some(word => stream.acceptWord(word))) {
+        // Generated keys and visibility need no IceType counterpart
+      } else if (stream.acceptWord('COLLATE') || stream.acceptWord('CHARACTER', 'SET') ||
+        stream.acceptWord('CHARSET') || stream.acceptWord('COMMENT')) {
+        stream.next();
+      } else if (stream.acceptWord('ON', 'UPDATE')) {
+        this.expression(stream);
+      } else if (stream.acceptWord('CODEC')) {
+        stream.group();
+      } else if (stream.acceptWord('GENERATED')) {
+        stream.until(token => isWordToken(token, 'AS'));
+        stream.acceptWord('AS');
+        if (stream.acceptWord('IDENTITY')) {
+          if (stream.isPunct('(')) stream.group();
+        } else {
+          stream.group();
+          if (!stream.acceptWord('STORED')) stream.acceptWord('VIRTUAL');
+          this.warn(`Column ${table.name}.${name} is generated; imported as a regular column`);
+        }
+      } else if (['AS', 'MATERIALIZED', 'ALIAS', 'EPHEMERAL', 'TTL'].some(word => stream.isWord(word))) {
+        const keyword = stream.next()!.value.toUpperCase();
+        stream.until(token => isWordToken(token, 'COMMENT', 'CODEC', 'TTL'));
+        if (keyword !== 'TTL') {
+          this.warn(`Column ${table.name}.${name} is computed (${keyword}); imported as a regular column`);
+        }
+      } else {
+        this.warn(`Ignored '${summarize(stream.rest())}' in column ${table.name}.${name}`);
+      }
+    }
+
+    if (primaryKey) {
+      table.primaryKey = [name];
+    }
+    table.columns.push(column);
+  }
+
+  /**
+   * Consume a DEFAULT or ON UPDATE expression: its first term, then
+   * anything up to the next column constraint keyword.
+   */
+  private expression(stream: TokenStream): Token[] {
+    const start = stream.mark();
+    if (stream.isPunct('(')) {
+      stream.group();
+    } else {
+      const first = stream.next();
+      if (first?.kind === 'punct' && (first.value === '-' || first.value === '+')) {
+        stream.next();
+      } else if (first?.kind === 'word' && stream.isPunct('(')) {
+        stream.group();
+      }
+    }
+    stream.until(isConstraintKeyword);
+    return stream.since(start);
+  }
+
+  private foreignKey(
+    table: TableDraft,
+    columns: string[],
+    stream: TokenStream,
+    constraintName: string | undefined
+  ): void {
+    const { name: referencedTable } = this.qualifiedName(stream);
+    const referencedColumns = stream.isPunct('(')
+      ? splitOnCommas(stream.group()).map(part => this.name(part[0]!))
+      : [];
+
+    // Referential actions and matching rules have no IceType counterpart
+    for (;;) {
+      if (stream.isWord('ON', 'DELETE') || stream.isWord('ON', 'UPDATE')) {
+        stream.next();
+        stream.next();
+        if (stream.acceptWord('SET') || stream.acceptWord('NO')) {
+          stream.next();
+        } else {
+          stream.next();
+        }
+      } else if (stream.acceptWord('MATCH')) {
+        stream.next();
+      } else if (stream.acceptWord('NOT', 'DEFERRABLE') || stream.acceptWord('DEFERRABLE')) {
+        // Constraint timing is irrelevant to the schema
+      } else if (stream.acceptWord('INITIALLY')) {
+        stream.next();
+      } else {
+        break;
+      }
+    }
+
+    table.foreignKeys.push({
+      name: constraintName ?? `${table.name}_${columns.join('_')}_fkey`,
+      columns,
+      referencedTable,
+      referencedColumns,
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // CHECK Constraints
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Turn a CHECK constraint into field constraints, enums and NOT NULL.
+   * `pending` is a column whose definition is still being read.
+   */
+  private check(table: TableDraft, tokens: Token[], pending?: IntrospectedColumn): void {
+    const node = parseCheck(tokens, token => this.name(token));
+    const parts = conjuncts(node);
+    const lookup = (name: string): IntrospectedColumn | undefined =>
+      this.findColumn(table, name) ?? (pending?.name.toLowerCase() === name.toLowerCase() ? pending : undefined);
+
+    const applied = parts.filter(part => this.checkPart(table, part, lookup)).length;
+    if (applied === 0) {
+      this.warn(`Ignored CHECK (${renderTokens(tokens)}) on table ${table.name}: no IceType equivalent`);
+    } else if (applied < parts.length) {
+      this.warn(`Imported only part of CHECK (${renderTokens(tokens)}) on table ${table.name}`);
+    }
+  }
+
+  private checkPart(
+    table: TableDraft,
+    node: CheckNode,
+    lookup: (name: string) => IntrospectedColumn | undefined
+  ): boolean {
+    const columnOf = (operand: CheckNode): IntrospectedColumn | undefined =>
+      operand.kind === 'column' ? lookup(operand.name) : undefined;
+    const lengthOf = (operand: CheckNode): IntrospectedColumn | undefined =>
+      operand.kind === 'call' && LENGTH_FUNCTIONS.includes(operand.name) && operand.args.length === 1
+        ? columnOf(operand.args[0]!)
+        : undefined;
+    const constrain = (column: IntrospectedColumn, constraints: FieldConstraints): boolean => {
+      column.constraints = { ...column.constraints, ...constraints };
+      return true;
+    };
+    const match = (column: IntrospectedColumn | undefined, pattern: CheckNode): boolean => {
+      if (!column || pattern.kind !== 'string') {
+        return false;
+      }
+      const format = (Object.keys(FIELD_FORMAT_PATTERNS) as FieldFormat[])
+        .find(name => FIELD_FORMAT_PATTERNS[name] === pattern.value);
+      return constrain(column, format ? { format } : { pattern: pattern.value });
+    };
+
+    switch (node.kind) {
+      case 'isNotNull': {
+        const column = columnOf(node.subject);
+        if (column) {
+          column.nullable = false;
+        }
+        return column !== undefined;
+      }
+
+      case 'call':
+        return REGEX_FUNCTIONS.includes(node.name) && node.args.length === 2 &&
+          match(columnOf(node.args[0]!), node.args[1]!);
+
+      case 'in': {
+        const column = columnOf(node.subject);
+        if (!column || !node.items.every(item => item.kind === 'string')) {
+          return false;
+        }
+        column.enum ??= {
+          name: `${toPascalCase(table.name)}${toPascalCase(column.name)}`,
+          values: node.items.map(item => (item as { value: string }).value),
+        };
+        return true;
+      }
+
+      case 'between': {
+        if (node.low.kind !== 'number' || node.high.kind !== 'number') {
+          return false;
+        }
+        const column = columnOf(node.subject);
+        if (column) {
+          return constrain(column, { min: node.low.value, max: node.high.value });
+        }
+        const measured = lengthOf(node.subject);
+        return measured !== undefined && constrain(measured, { minLength: node.low.value, maxLength: node.high.value });
+      }
+
+      case 'compare': {
+        let { op, left, right } = node;
+        if (op === '~') {
+          return match(columnOf(left), right);
+        }
+        if (left.kind === 'number' && FLIPPED_OPERATORS[op]) {
+          [left, right, op] = [right, left, FLIPPED_OPERATORS[op]!];
+        }
+        if (right.kind !== 'number') {
+          return false;
+        }
+
+        const column = columnOf(left);
+        const measured = column ? undefined : lengthOf(left);
+        const target = column ?? measured;
+        if (!target) {
+          return false;
+        }
+        // Strict bounds are only exact for integers
+        const integral = measured !== undefined || (Number.isInteger(right.value) && /int|serial/i.test(target.type));
+        const bounds = boundsFor(op, right.value, integral);
+        if (!bounds) {
+          return false;
+        }
+        return constrain(target, measured
+          ? { ...(bounds.min !== undefined && { minLength: bounds.min }), ...(bounds.max !== undefined && { maxLength: bounds.max }) }
+          : bounds);
+      }
+
+      default:
+        return false;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Result
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Resolve enum types and foreign keys, and return the finished tables.
+   */
+  build(): IntrospectedTable[] {
+    const drafts = [...this.tables.values()];
+
+    for (const table of drafts) {
+      for (const column of table.columns) {
+        // Columns of a CREATE TYPE ... AS ENUM type, possibly arrays of it
+        const typeName = column.type.replace(/(\[\])+$/, '').replace(/^.*\./, '').replace(/"/g, '');
+        const values = this.enumTypes.get(typeName);
+        if (!column.enum && values) {
+          column.enum = { name: toPascalCase(typeName), values };
+        }
+      }
+
+      table.foreignKeys = table.foreignKeys.filter(key => {
+        const target = this.findTable(key.referencedTable);
+        if (!target) {
+          this.warn(`Dropped foreign key ${key.name}: table ${key.referencedTable} is not defined`, table.line);
+          return false;
+        }
+        key.referencedTable = target.name;
+        if (key.referencedColumns.length === 0) {
+          key.referencedColumns = target.primaryKey;
+        }
+        return true;
+      });
+
+      // An inline REFERENCES repeated by ALTER TABLE ... ADD FOREIGN KEY is one key
+      const seen = new Set<string>();
+      table.foreignKeys = table.foreignKeys.filter(key => {
+        const signature = [key.columns.join(','), key.referencedTable, key.referencedColumns.join(',')].join('|').toLowerCase();
+        if (seen.has(signature)) {
+          return false;
+        }
+        seen.add(signature);
+        return true;
+      });
+    }
+
+    return drafts.map(draft => {
+      const table = buildTable(draft.name, draft.schema, draft.columns, draft.primaryKey, draft.indexes, draft.foreignKeys);
+      if (draft.orderBy && draft.orderBy.length > 0) {
+        table.orderBy = draft.orderBy;
+      }
+      return table;
+    });
+  }
+
+  /** The line a table was created on */
+  tableLine(name: string): number {
+    return this.tables.get(name)?.line ?? 1;
+  }
+}
+
+/**
+ * Allowed values of an inline enum type: MySQL `ENUM('a', 'b')` or
+ * ClickHouse `Enum8('a' = 1, 'b' = 2)`, possibly wrapped in Nullable(...).
+ */
+function inlineEnumValues(typeTokens: Token[]): string[] | undefined {
+  const index = typeTokens.findIndex((token, i) =>
+    token.kind === 'word' && /^enum(?:8|16)?$/i.test(token.value) && typeTokens[i + 1]?.value === '('
+  );
+  if (index === -1) {
+    return undefined;
+  }
+  const stream = new TokenStream(typeTokens.slice(index + 1));
+  return stream.group().filter(token => token.kind === 'string').map(token => token.value);
+}
+
+/**
+ * Inclusive bounds for `value op n`. Strict comparisons are only exact for
+ * integers, and `<>` has no bound at all.
+ */
+function boundsFor(op: string, n: number, integral: boolean): { min?: number; max?: number } | undefined {
+  switch (op) {
+    case '>=':
+      return { min: n };
+    case '<=':
+      return { max: n };
+    case '=':
+      return { min: n, max: n };
+    case '>':
+      return integral ? { min: n + 1 } : undefined;
+    case '<':
+      return integral ? { max: n - 1 } : undefined;
+    default:
+      return undefined;
+  }
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/**
+ * Convert a SQL DDL script to IceType schemas.
+ *
+ * @param sql - CREATE TABLE, CREATE INDEX, ALTER TABLE and CREATE TYPE statements
+ * @param options - Import options
+ * @returns The tables, their parsed schemas and any warnings
+ *
+ * @example
+ * ```typescript
+ * const { schemas, warnings } = importSqlSchema(
+ *   'CREATE TABLE users (id UUID PRIMARY KEY, email TEXT NOT NULL UNIQUE);'
+ * );
+ * ```
+ */
+export function importSqlSchema(sql: string, options: SqlImportOptions = {}): SqlImportResult {
+  const dialect = options.dialect ?? 'postgres';
+  const builder = new SqlSchemaBuilder(dialect);
+
+  for (const statement of splitStatements(tokenize(sql, dialect))) {
+    builder.apply(statement);
+  }
+
+  const tables = builder.build();
+  const warnings = builder.warnings;
+  const generated = tablesToIceTypeSchemas(tables, dialect);
+
+  // Sequences and other expressions have no IceType default
+  for (const [i, table] of tables.entries()) {
+    for (const column of table.columns) {
+      const converted = generated[i]!.fields.get(column.name)?.defaultValue;
+      const noDefault = column.defaultValue === undefined || /^(?:null|nextval\(.*)$/i.test(column.defaultValue);
+      if (!noDefault && converted === undefined) {
+        warnings.push({
+          line: builder.tableLine(table.name),
+          message: `Dropped default ${column.defaultValue} of ${table.name}.${column.name}: no IceType equivalent`,
+        });
+      }
+    }
+  }
+
+  return {
+    tables,
+    schemas: generated.map(schema => parseSchema(toSchemaDefinition(schema))),
+    warnings: warnings.sort((a, b) => a.line - b.line),
+  };
+}
+
+// =============================================================================
+// Argument Parsing
+// =============================================================================
+
+/**
+ * Parse command-line arguments for the import sql command
+ */
+function parseCliArgs(args: string[]): SqlImportCliOptions {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      input: { type: 'string', short: 'i' },
+      dialect: { type: 'string', short: 'd' },
+      output: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      tables: { type: 'string' },
+      exclude: { type: 'string' },
+      quiet: { type: 'boolean', short: 'q' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const splitList = (value: string | undefined): string[] | undefined =>
+    value?.split(',').map(name => name.trim()).filter(Boolean);
+
+  const options: SqlImportCliOptions = { quiet: values.quiet ?? false };
+  const input = values.input ?? positionals[0];
+  const tables = splitList(values.tables);
+  const exclude = splitList(values.exclude);
+  if (input !== undefined) options.input = input;
+  if (values.dialect !== undefined) options.dialect = values.dialect;
+  if (values.output !== undefined) options.output = values.output;
+  if (values.format !== undefined) options.format = values.format;
+  if (tables) options.tables = tables;
+  if (exclude) options.exclude = exclude;
+  return options;
+}
+
+// =============================================================================
+// Main Command
+// =============================================================================
+
+/**
+ * Convert a SQL DDL file to IceType schemas.
+ *
+ * @param args - Command line arguments
+ *
+ * @example
+ * ```bash
+ * ice import sql ./schema.sql --output ./schema.ts
+ * ice import sql dump.sql --dialect mysql --format json
+ * ```
+ */
+export async function sqlImport(args: string[]): Promise<void> {
+  if (hasHelpFlag(args)) {
+    console.log(generateHelpText(SQL_IMPORT_HELP));
+    process.exit(0);
+  }
+
+  const options = parseCliArgs(args);
+  const logger = createLogger({
+    level: options.quiet ? LogLevel.ERROR : LogLevel.INFO,
+    quiet: options.quiet,
+  });
+
+  requireOption(options.input, 'input', 'import sql', 'ice import sql ./schema.sql --output ./schema.ts');
+  const inputPath = options.input;
+
+  const dialect = (options.dialect ?? 'postgres') as SqlDialect;
+  validateOptionValue(dialect, 'dialect', VALID_DIALECTS);
+  const format = (options.format ?? 'typescript') as OutputFormat;
+  validateOptionValue(format, 'format', VALID_FORMATS);
+
+  if (!existsSync(inputPath)) {
+    throw new Error(`SQL file not found: ${inputPath}`);
+  }
+
+  const result = importSqlSchema(readFileSync(inputPath, 'utf-8'), { dialect });
+  for (const warning of result.warnings) {
+    logger.warn(`${inputPath}:${warning.line}: ${warning.message}`);
+  }
+
+  const tables = filterTables(result.tables, {
+    ...(options.tables !== undefined && { tables: options.tables }),
+    ...(options.exclude !== undefined && { exclude: options.exclude }),
+  });
+  if (tables.length === 0) {
+    logger.warn(`No tables found in ${inputPath}`);
+    return;
+  }
+
+  const output = format === 'json' ? generateJsonOutput(tables, dialect) : generateTypescriptOutput(tables, dialect);
+
+  if (options.output) {
+    await writeOutput(options.output, output);
+    logger.success(`Imported ${tables.length} table(s) from ${inputPath} to ${options.output}`);
+  } else {
+    console.log(output);
+  }
+}
+
+// =============================================================================
+// Test Helpers (exported for testing)
+// =============================================================================
+
+/**
+ * Test helpers for unit testing the import sql command.
+ * These are not part of the public API.
+ */
+export const _testHelpers = {
+  tokenize,
+  splitStatements,
+  renderTokens,
+  parseCheck,
+  parseCliArgs,
+  VALID_DIALECTS,
+};
@@ -16,7 +16,7 @@ export {
 export { validate } from './commands/validate.js';
 export { clickhouseExport } from './commands/clickhouse.js';
 export { duckdbExport } from './commands/duckdb.js';
-export { icebergExport } from './commands/iceberg.js';
+export { icebergExport, icebergEvolve, icebergImport } from './commands/iceberg.js';
 export {
   postgresExport,
   generatePostgresDDL,
@@ -30,6 +30,9 @@ export {
   formatAsJson as formatPrismaAsJson,
   formatSchemas as formatPrismaSchemas,
 } from './commands/prisma-import.js';
+export { jsonschemaExport } from './commands/jsonschema.js';
+export { protoExport } from './commands/proto.js';
+export { graphqlExport } from './commands/graphql.js';
 export { drizzleExport } from './commands/drizzle.js';
 export {
   drizzleImport,
@@ -40,6 +43,14 @@ export {
   type DrizzleImportFormat,
   type DrizzleImportCommandOptions,
 } from './commands/drizzle-import.js';
+export {
+  sqlImport,
+  importSqlSchema,
+  type SqlDialect,
+  type SqlImportOptions,
+  type SqlImportResult,
+  type SqlImportWarning,
+} from './commands/sql-import.js';
 
 // Schema loader utilities
 export {
@@ -66,6 +66,18 @@ export interface ClickHouseAdapterConfig {
 export interface IcebergAdapterConfig {
   /** Iceberg table location (e.g., 's3://bucket/path'). */
   location?: string;
+  /** Table format version. Version 3 adds column defaults and the variant type. Default: 2 */
+  formatVersion?: 1 | 2 | 3;
+  /** Fields that identify a row, written as the schema's identifier-field-ids. */
+  identifierFields?: string[];
+  /** Data file format (write.format.default). Default: 'parquet' */
+  writeFormat?: 'parquet' | 'avro' | 'orc';
+  /** Compression codec for data files (e.g., 'zstd'). Default: 'snappy' for Parquet */
+  compressionCodec?: string;
+  /** Target data file size in bytes (write.target-file-size-bytes). */
+  targetFileSizeBytes?: number;
+  /** Additional table properties. */
+  properties?: Record<string, string>;
 }
 
 /**
@@ -363,6 +375,11 @@ export function validateConfig(config: unknown): ValidationResult {
   if (cfg.adapters !== undefined) {
     if (typeof cfg.adapters !== 'object' || cfg.adapters === null) {
       errors.push('Config field "adapters" must be an object');
+    } else {
+      const iceberg = (cfg.adapters as Record<string, unknown>).iceberg as Record<string, unknown> | undefined;
+      if (iceberg?.formatVersion !== undefined && ![1, 2, 3].includes(iceberg.formatVersion as number)) {
+        errors.push('Config field "adapters.iceberg.formatVersion" must be 1, 2 or 3');
+      }
     }
   }
 
@@ -14,7 +14,12 @@
  * @packageDocumentation
  */
 
-import type { SchemaDiff, SchemaChange, FieldDefinition, SchemaVersion } from '@icetype/core';
+import type { SchemaDiff, SchemaChange, FieldDefinition, FieldConstraints, SchemaVersion } from '@icetype/core';
+import { generateCheckExpression, getCheckConstraintName } from '@icetype/core';
+import { escapeIdentifier as escapePostgresIdentifier } from '@icetype/postgres';
+import { escapeIdentifier as escapeMySQLIdentifier } from '@icetype/mysql';
+import { escapeIdentifier as escapeDuckDBIdentifier } from '@icetype/duckdb';
+import { escapeIdentifier as escapeSQLiteIdentifier } from '@icetype/sqlite';
 
 // =============================================================================
 // Types
@@ -295,6 +300,23 @@ function quoteIdentifier(name: string, dialect: string): string {
   return `"${name.replace(/"/g, '""')}"`;
 }
 
+/**
+ * Quote a CHECK constraint name the way the dialect's CREATE TABLE does,
+ * so that ALTER TABLE refers to the same (possibly case-folded) name.
+ */
+function quoteConstraintName(name: string, dialect: string): string {
+  switch (dialect) {
+    case 'mysql':
+      return escapeMySQLIdentifier(name);
+    case 'duckdb':
+      return escapeDuckDBIdentifier(name);
+    case 'sqlite':
+      return escapeSQLiteIdentifier(name);
+    default:
+      return escapePostgresIdentifier(name);
+  }
+}
+
 // =============================================================================
 // SQL Generation Helpers
 // =============================================================================
@@ -433,6 +455,43 @@ function generateDropIndexSql(
   return `DROP INDEX ${quotedIndexName};`;
 }
 
+/**
+ * Generate ADD CONSTRAINT ... CHECK statement for a given dialect.
+ */
+function generateAddCheckSql(
+  tableName: string,
+  fieldName: string,
+  constraints: FieldConstraints,
+  dialect: ReversibleMigrationOptions['dialect']
+): string | undefined {
+  const expression = generateCheckExpression(quoteIdentifier(fieldName, dialect), constraints, dialect);
+  if (expression === undefined) {
+    return undefined;
+  }
+
+  const table = quoteIdentifier(tableName, dialect);
+  const name = quoteConstraintName(getCheckConstraintName(tableName, fieldName), dialect);
+  return `ALTER TABLE ${table} ADD CONSTRAINT ${name} CHECK (${expression});`;
+}
+
+/**
+ * Generate DROP CONSTRAINT statement for a CHECK constraint.
+ */
+function generateDropCheckSql(
+  tableName: string,
+  fieldName: string,
+  dialect: string
+): string {
+  const table = quoteIdentifier(tableName, dialect);
+  const name = quoteConstraintName(getCheckConstraintName(tableName, fieldName), dialect);
+
+  if (dialect === 'mysql') {
+    return `ALTER TABLE ${table} DROP CHECK ${name};`;
+  }
+
+  return `ALTER TABLE ${table} DROP CONSTRAINT ${name};`;
+}
+
 // =============================================================================
 // Generate Reversible Migration from Diff
 // =============================================================================
@@ -564,6 +623,28 @@ export function generateReversibleMigration(
         }
         break;
       }
+
+      case 'add_constraint':
+      case 'drop_constraint': {
+        if (dialect === 'sqlite' || dialect === 'duckdb') {
+          // Neither supports altering constraints on an existing table
+          warnings.push(`CHECK constraint change on ${change.field} requires table recreation in ${dialect}`);
+          break;
+        }
+
+        const addSql = generateAddCheckSql(tableName, change.field, change.constraints, dialect);
+        const dropSql = generateDropCheckSql(tableName, change.field, dialect);
+        if (addSql === undefined) break;
+
+        if (change.type === 'add_constraint') {
+          up.push(addSql);
+          down.push(dropSql);
+        } else {
+          up.push(dropSql);
+          down.push(addSql);
+        }
+        break;
+      }
     }
   }
 
@@ -1831,3 +1831,127 @@ describe('nullable style configuration', () => {
     ).rejects.toThrow("Invalid --nullable-style value 'invalid'. Must be one of: union, optional, strict");
   });
 });
+
+describe('enum type generation', () => {
+  function createEnumSchema(): IceTypeSchema {
+    const fields = new Map<string, FieldDefinition>();
+    fields.set('status', {
+      name: 'status',
+      type: 'enum',
+      modifier: '!',
+      isArray: false,
+      isOptional: false,
+      isUnique: false,
+      isIndexed: false,
+      enumName: 'Status',
+      enumValues: ['active', 'inactive'],
+    });
+    fields.set('history', {
+      name: 'history',
+      type: 'enum',
+      modifier: '?',
+      isArray: true,
+      isOptional: true,
+      isUnique: false,
+      isIndexed: false,
+      enumName: 'Status',
+      enumValues: ['active', 'inactive'],
+    });
+
+    return {
+      name: 'Account',
+      version: 1,
+      fields,
+      directives: { enums: [{ name: 'Status', values: ['active', 'inactive'] }] },
+      relations: new Map(),
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+  }
+
+  it('should generate a string-literal union for enum fields', async () => {
+    const { generateTypeScriptInterface } = await import('../src/commands/generate.js');
+    const output = generateTypeScriptInterface(createEnumSchema());
+
+    expect(output).toContain("status: 'active' | 'inactive';");
+  });
+
+  it('should parenthesize enum unions in array types', async () => {
+    const { generateTypeScriptInterface } = await import('../src/commands/generate.js');
+    const output = generateTypeScriptInterface(createEnumSchema(), 'strict');
+
+    expect(output).toContain("history?: ('active' | 'inactive')[] | null;");
+  });
+});
+
+describe('struct type generation', () => {
+  function field(name: string, type: string, extra: Partial<FieldDefinition> = {}): FieldDefinition {
+    return {
+      name,
+      type,
+      modifier: '!',
+      isArray: false,
+      isOptional: false,
+      isUnique: false,
+      isIndexed: false,
+      ...extra,
+    };
+  }
+
+  function createStructSchema(name: string): IceTypeSchema {
+    const geo = [field('lat', 'double'), field('lng', 'double')];
+    const address = [
+      field('street', 'string'),
+      field('city', 'string', { modifier: '?', isOptional: true }),
+      field('geo', 'struct', { structName: 'Geo', structFields: geo }),
+    ];
+
+    const fields = new Map<string, FieldDefinition>();
+    fields.set('address', field('address', 'struct', { structName: 'Address', structFields: address }));
+    fields.set('previous', field('previous', 'struct', {
+      modifier: '?',
+      isOptional: true,
+      isArray: true,
+      structName: 'Address',
+      structFields: address,
+    }));
+
+    return {
+      name,
+      version: 1,
+      fields,
+      directives: {},
+      relations: new Map(),
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+  }
+
+  it('should generate nested interfaces for struct fields', async () => {
+    const { generateTypeScriptInterface } = await import('../src/commands/generate.js');
+    const output = generateTypeScriptInterface(createStructSchema('Customer'), 'strict');
+
+    expect(output).toContain('export interface Geo {\n  lat: number;\n  lng: number;\n}');
+    expect(output).toContain('export interface Address {\n  street: string;\n  city?: string | null;\n  geo: Geo;\n}');
+    expect(output).toContain('  address: Address;');
+    expect(output).toContain('  previous?: Address[] | null;');
+    expect(output.indexOf('interface Geo')).toBeLessThan(output.indexOf('interface Address'));
+    expect(output.indexOf('interface Address')).toBeLessThan(output.indexOf('interface Customer'));
+  });
+
+  it('should emit shared struct interfaces once across schemas', async () => {
+    const { generateStructInterfaces } = await import('../src/commands/generate.js');
+    const output = generateStructInterfaces([createStructSchema('Customer'), createStructSchema('Supplier')]);
+
+    expect(output.match(/export interface Address \{/g)).toHaveLength(1);
+    expect(output.match(/export interface Geo \{/g)).toHaveLength(1);
+  });
+
+  it('should omit struct interfaces when requested', async () => {
+    const { generateTypeScriptInterface } = await import('../src/commands/generate.js');
+    const output = generateTypeScriptInterface(createStructSchema('Customer'), 'union', false);
+
+    expect(output).not.toContain('export interface Address');
+    expect(output).toContain('  address: Address;');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * GraphQL Export Command Tests for @icetype/cli
+ *
+ * Tests for the `ice graphql export` command which generates
+ * GraphQL SDL from IceType schemas, including watch mode.
+ *
+ * Uses a mocked schema loader, watcher and file system operations.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import { parseSchema } from '@icetype/core';
+import type { LoadResult } from '../src/utils/schema-loader.js';
+
+// Mock modules
+vi.mock('node:fs', async () => {
+  const actual = await vi.importActual<typeof import('node:fs')>('node:fs');
+  return {
+    ...actual,
+    writeFileSync: vi.fn(),
+  };
+});
+
+vi.mock('../src/utils/schema-loader.js', () => ({
+  loadSchemaFile: vi.fn(),
+}));
+
+vi.mock('../src/utils/watcher.js', () => ({
+  watchGenerate: vi.fn(),
+}));
+
+import { graphqlExport } from '../src/commands/graphql.js';
+import { loadSchemaFile } from '../src/utils/schema-loader.js';
+import { watchGenerate } from '../src/utils/watcher.js';
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function mockSchemas(...definitions: Record<string, unknown>[]): void {
+  const result: LoadResult = {
+    schemas: definitions.map((definition) => ({
+      name: `${String(definition.$type)}Schema`,
+      schema: parseSchema(definition),
+    })),
+    errors: [],
+  };
+  vi.mocked(loadSchemaFile).mockResolvedValue(result);
+}
+
+function writtenSdl(): string {
+  const [, content] = vi.mocked(fs.writeFileSync).mock.calls[0]!;
+  return String(content);
+}
+
+const USER = { $type: 'User', id: 'uuid!', name: 'string!', posts: '<- Post.author[]' };
+const POST = { $type: 'Post', id: 'uuid!', title: 'string!', author: '-> User!' };
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('ice graphql export command', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should require --schema', async () => {
+    await expect(graphqlExport([])).rejects.toThrow(/schema/);
+  });
+
+  it('should reject an invalid relations style', async () => {
+    await expect(graphqlExport(['-s', 'schema.ts', '--relations', 'edges', '-q'])).rejects.toThrow(
+      "Invalid relations style 'edges'. Valid styles are: list, connection"
+    );
+  });
+
+  it('should write SDL with relation fields and inputs', async () => {
+    mockSchemas(USER, POST);
+
+    await graphqlExport(['-s', 'schema.ts', '-o', 'schema.graphql', '-q']);
+
+    expect(fs.writeFileSync).toHaveBeenCalledWith('schema.graphql', expect.any(String));
+    expect(writtenSdl()).toContain('  posts: [Post!]!\n');
+    expect(writtenSdl()).toContain('  author: User!\n');
+    expect(writtenSdl()).toContain('input CreatePostInput {');
+  });
+
+  it('should generate connections and skip inputs', async () => {
+    mockSchemas(USER, POST);
+
+    await graphqlExport(['-s', 'schema.ts', '-o', 'schema.graphql', '--relations', 'connection', '--skip-inputs', '-q']);
+
+    expect(writtenSdl()).toContain('posts(first: Int, after: String, last: Int, before: String): PostConnection!');
+    expect(writtenSdl()).toContain('type PageInfo {');
+    expect(writtenSdl()).not.toContain('input ');
+  });
+
+  it('should print to stdout without --output', async () => {
+    mockSchemas(POST);
+    const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    await graphqlExport(['-s', 'schema.ts', '-q']);
+
+    expect(fs.writeFileSync).not.toHaveBeenCalled();
+    expect(String(write.mock.calls[0]![0])).toContain('type Post {');
+  });
+
+  describe('watch mode', () => {
+    it('should require --output', async () => {
+      await expect(graphqlExport(['-s', 'schema.ts', '--watch', '-q'])).rejects.toThrow(
+        '--watch requires --output'
+      );
+      expect(watchGenerate).not.toHaveBeenCalled();
+    });
+
+    it('should export through watchGenerate', async () => {
+      mockSchemas(POST);
+
+      await graphqlExport(['-s', 'schema.ts', '-o', 'schema.graphql', '--watch', '--debounce', '250', '-q']);
+
+      expect(watchGenerate).toHaveBeenCalledWith(
+        expect.objectContaining({ schemaPath: 'schema.ts', debounceMs: 250, quiet: true })
+      );
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+
+      // Each change reruns the export
+      await vi.mocked(watchGenerate).mock.calls[0]![0].runGeneration();
+      expect(fs.writeFileSync).toHaveBeenCalledWith('schema.graphql', expect.stringContaining('type Post {'));
+    });
+
+    it('should reject an invalid debounce', async () => {
+      await expect(
+        graphqlExport(['-s', 'schema.ts', '-o', 'schema.graphql', '--watch', '--debounce', '0'])
+      ).rejects.toThrow('--debounce must be a positive number');
+    });
+  });
+});
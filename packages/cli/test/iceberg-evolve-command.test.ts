@@ -0,0 +1,155 @@
+/**
+ * Iceberg Evolve Command Tests for @icetype/cli
+ *
+ * Tests that `ice iceberg evolve` reads the current metadata file and
+ * writes the next version beside it, keeping existing field IDs and the
+ * format of the metadata file.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseSchema } from '@icetype/core';
+import { generateIcebergMetadata, parseIcebergMetadata, writeIcebergSpecMetadata } from '@icetype/iceberg';
+import type { IcebergTableMetadata } from '@icetype/iceberg';
+import type { LoadResult } from '../src/utils/schema-loader.js';
+
+vi.mock('../src/utils/schema-loader.js', () => ({
+  loadSchemaFile: vi.fn(),
+}));
+
+import { icebergEvolve } from '../src/commands/iceberg.js';
+import { loadSchemaFile } from '../src/utils/schema-loader.js';
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function loadResult(definition: Record<string, unknown>): LoadResult {
+  return { schemas: [{ name: 'UserSchema', schema: parseSchema(definition) }], errors: [] };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('ice iceberg evolve', () => {
+  let dir: string;
+  let metadataDir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    dir = mkdtempSync(join(tmpdir(), 'icetype-iceberg-'));
+    metadataDir = join(dir, 'metadata');
+    mkdirSync(metadataDir);
+
+    const v1 = generateIcebergMetadata(
+      parseSchema({ $type: 'User', id: 'uuid!', name: 'string' }),
+      's3://bucket/users'
+    );
+    writeFileSync(join(metadataDir, 'v1.metadata.json'), JSON.stringify(v1, null, 2));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write the next metadata version beside --from', async () => {
+    vi.mocked(loadSchemaFile).mockResolvedValue(
+      loadResult({ $type: 'User', id: 'uuid!', name: 'string', email: 'string' })
+    );
+
+    await icebergEvolve(['--schema', 'schema.ts', '--from', join(metadataDir, 'v1.metadata.json')]);
+
+    const v2 = JSON.parse(readFileSync(join(metadataDir, 'v2.metadata.json'), 'utf-8')) as IcebergTableMetadata;
+    expect(v2.schemas).toHaveLength(2);
+    expect(v2.currentSchemaId).toBe(v2.schemas[0]!.schemaId + 1);
+    const [before, after] = v2.schemas.map((schema) => new Map(schema.fields.map((f) => [f.name, f.id])));
+    expect(after!.get('name')).toBe(before!.get('name'));
+    expect(after!.get('email')).toBe(v2.lastColumnId);
+    expect(v2.lastColumnId).toBe(before!.size + 1);
+    expect(v2.metadataLog).toEqual([
+      expect.objectContaining({ metadataFile: 's3://bucket/users/metadata/v1.metadata.json' }),
+    ]);
+  });
+
+  it('should keep spec-format metadata in the spec format and update version-hint.text', async () => {
+    const v1 = generateIcebergMetadata(parseSchema({ $type: 'User', id: 'uuid!', name: 'string' }), 's3://bucket/users');
+    writeFileSync(join(metadataDir, 'v1.metadata.json'), JSON.stringify(writeIcebergSpecMetadata(v1), null, 2));
+    writeFileSync(join(metadataDir, 'version-hint.text'), '1');
+
+    vi.mocked(loadSchemaFile).mockResolvedValue(
+      loadResult({ $type: 'User', id: 'uuid!', name: 'string', email: 'string' })
+    );
+    await icebergEvolve(['--schema', 'schema.ts', '--from', join(metadataDir, 'v1.metadata.json')]);
+    vi.mocked(loadSchemaFile).mockResolvedValue(
+      loadResult({ $type: 'User', id: 'uuid!', name: 'string', email: 'string', age: 'int' })
+    );
+    await icebergEvolve(['--schema', 'schema.ts', '--from', join(metadataDir, 'v2.metadata.json')]);
+
+    const raw = JSON.parse(readFileSync(join(metadataDir, 'v3.metadata.json'), 'utf-8')) as Record<string, unknown>;
+    expect(raw['format-version']).toBe(v1.formatVersion);
+    expect(raw['current-schema-id']).toBe(v1.currentSchemaId + 2);
+    expect(raw).not.toHaveProperty('currentSchemaId');
+
+    const v3 = parseIcebergMetadata(JSON.stringify(raw));
+    expect(v3.schemas.map((schema) => schema.fields.map((f) => [f.name, f.id]))).toEqual([
+      v1.schemas[0]!.fields.map((f) => [f.name, f.id]),
+      [...v1.schemas[0]!.fields.map((f) => [f.name, f.id]), ['email', v1.lastColumnId + 1]],
+      [...v1.schemas[0]!.fields.map((f) => [f.name, f.id]), ['email', v1.lastColumnId + 1], ['age', v1.lastColumnId + 2]],
+    ]);
+    expect(v3.metadataLog?.map((entry) => entry.metadataFile)).toEqual([
+      's3://bucket/users/metadata/v1.metadata.json',
+      's3://bucket/users/metadata/v2.metadata.json',
+    ]);
+    expect(readFileSync(join(metadataDir, 'version-hint.text'), 'utf-8')).toBe('3');
+  });
+
+  it('should keep list and map IDs when evolving spec-format metadata', async () => {
+    const definition = { $type: 'User', id: 'uuid!', tags: 'string[]', scores: 'map<string, int>' };
+    const generated = generateIcebergMetadata(parseSchema(definition), 's3://bucket/users');
+    const base = generated.lastColumnId;
+    const v1: IcebergTableMetadata = {
+      ...generated,
+      lastColumnId: base + 3,
+      schemas: generated.schemas.map((schema) => ({
+        ...schema,
+        fields: schema.fields.map((f) =>
+          f.name === 'tags' ? { ...f, type: { ...f.type, elementId: base + 1, elementRequired: true } }
+            : f.name === 'scores' ? { ...f, type: { ...f.type, keyId: base + 2, valueId: base + 3, valueRequired: false } }
+              : f
+        ),
+      })),
+    };
+    writeFileSync(join(metadataDir, 'v1.metadata.json'), JSON.stringify(writeIcebergSpecMetadata(v1), null, 2));
+
+    vi.mocked(loadSchemaFile).mockResolvedValue(loadResult({ ...definition, labels: 'int[]' }));
+    await icebergEvolve(['--schema', 'schema.ts', '--from', join(metadataDir, 'v1.metadata.json')]);
+
+    const v2 = parseIcebergMetadata(readFileSync(join(metadataDir, 'v2.metadata.json'), 'utf-8'));
+    const typeOf = (name: string) => v2.schemas.at(-1)!.fields.find((f) => f.name === name)!.type;
+    expect(typeOf('tags')).toMatchObject({ elementId: base + 1, elementRequired: true });
+    expect(typeOf('scores')).toMatchObject({ keyId: base + 2, valueId: base + 3 });
+    expect(typeOf('labels')).toMatchObject({ elementId: base + 5 });
+    expect(v2.lastColumnId).toBe(base + 5);
+  });
+
+  it('should honour --output and require it when the version cannot be derived', async () => {
+    vi.mocked(loadSchemaFile).mockResolvedValue(loadResult({ $type: 'User', id: 'uuid!', name: 'string' }));
+    const current = join(dir, 'current.json');
+    writeFileSync(current, readFileSync(join(metadataDir, 'v1.metadata.json')));
+
+    await expect(icebergEvolve(['-s', 'schema.ts', '-f', current])).rejects.toThrow(/Pass --output/);
+
+    await icebergEvolve(['-s', 'schema.ts', '-f', current, '-o', join(dir, 'next.json')]);
+    expect(existsSync(join(dir, 'next.json'))).toBe(true);
+  });
+
+  it('should fail when the metadata file does not exist', async () => {
+    await expect(
+      icebergEvolve(['--schema', 'schema.ts', '--from', join(metadataDir, 'v9.metadata.json')])
+    ).rejects.toThrow(/Metadata file not found/);
+  });
+});
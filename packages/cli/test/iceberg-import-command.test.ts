@@ -0,0 +1,117 @@
+/**
+ * Iceberg Import Command Tests for @icetype/cli
+ *
+ * Tests that `ice iceberg import` turns an existing table's metadata.json
+ * into an IceType schema file that loads back to the same schema.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { icebergImport } from '../src/commands/iceberg.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const METADATA = {
+  'format-version': 2,
+  'table-uuid': '0b9e2d6c-5a63-4c1d-8a5e-6f8a2a1f7a10',
+  location: 's3://warehouse/db/click_events',
+  'last-sequence-number': 0,
+  'last-updated-ms': 1700000000000,
+  'last-column-id': 4,
+  'current-schema-id': 0,
+  schemas: [
+    {
+      type: 'struct',
+      'schema-id': 0,
+      'identifier-field-ids': [1],
+      fields: [
+        { id: 1, name: 'id', required: true, type: 'long' },
+        { id: 2, name: 'ts', required: true, type: 'timestamptz' },
+        { id: 3, name: 'url', required: false, type: 'string' },
+        {
+          id: 4,
+          name: 'referrer',
+          required: false,
+          type: {
+            type: 'list',
+            'element-id': 5,
+            element: { type: 'list', 'element-id': 6, element: 'string', 'element-required': true },
+            'element-required': true,
+          },
+        },
+      ],
+    },
+  ],
+  'default-spec-id': 0,
+  'partition-specs': [{ 'spec-id': 0, fields: [{ name: 'ts_hour', transform: 'hour', 'source-id': 2, 'field-id': 1000 }] }],
+  'last-partition-id': 1000,
+  'default-sort-order-id': 0,
+  'sort-orders': [{ 'order-id': 0, fields: [] }],
+  properties: {},
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('ice iceberg import', () => {
+  let dir: string;
+  let metadataPath: string;
+  let output: string[];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'icetype-iceberg-import-'));
+    metadataPath = join(dir, 'v1.metadata.json');
+    writeFileSync(metadataPath, JSON.stringify(METADATA));
+    output = [];
+    vi.spyOn(console, 'log').mockImplementation((message: unknown) => {
+      output.push(String(message));
+    });
+    vi.spyOn(console, 'warn').mockImplementation((message: unknown) => {
+      output.push(String(message));
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write a TypeScript schema file', async () => {
+    const schemaPath = join(dir, 'schema.ts');
+    await icebergImport([metadataPath, '--output', schemaPath, '--quiet']);
+
+    expect(readFileSync(schemaPath, 'utf-8')).toBe(
+      [
+        "import { parseSchema } from '@icetype/core';",
+        '',
+        'export const ClickEvents = parseSchema({',
+        "  $type: 'ClickEvents',",
+        '  $partitionBy: ["hour(ts)"],',
+        '',
+        "  id: 'long!',",
+        "  ts: 'timestamptz',",
+        "  url: 'string?',",
+        "  referrer: 'json?',",
+        '});',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should print JSON with the given name and report warnings', async () => {
+    await icebergImport(['--input', metadataPath, '--format', 'json', '--name', 'Click']);
+
+    const json = output.find((line) => line.startsWith('{'));
+    expect(JSON.parse(json!)).toMatchObject({ $type: 'Click', $partitionBy: ['hour(ts)'], id: 'long!' });
+    expect(output.some((line) => line.includes("Column 'referrer' has a nested list type"))).toBe(true);
+  });
+
+  it('should fail when the metadata file does not exist', async () => {
+    await expect(icebergImport([join(dir, 'missing.json')])).rejects.toThrow(/Metadata file not found/);
+  });
+});
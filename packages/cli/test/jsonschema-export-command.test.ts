@@ -0,0 +1,121 @@
+/**
+ * JSON Schema Export Command Tests for @icetype/cli
+ *
+ * Tests for the `ice jsonschema export` command which generates
+ * JSON Schema (draft 2020-12) documents from IceType schemas.
+ *
+ * Uses a mocked schema loader and file system operations.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import { parseSchema } from '@icetype/core';
+import type { LoadResult } from '../src/utils/schema-loader.js';
+
+// Mock modules
+vi.mock('node:fs', async () => {
+  const actual = await vi.importActual<typeof import('node:fs')>('node:fs');
+  return {
+    ...actual,
+    writeFileSync: vi.fn(),
+  };
+});
+
+vi.mock('../src/utils/schema-loader.js', () => ({
+  loadSchemaFile: vi.fn(),
+}));
+
+import { jsonschemaExport } from '../src/commands/jsonschema.js';
+import { loadSchemaFile } from '../src/utils/schema-loader.js';
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function mockSchemas(...definitions: Record<string, unknown>[]): void {
+  const result: LoadResult = {
+    schemas: definitions.map((definition) => ({
+      name: `${String(definition.$type)}Schema`,
+      schema: parseSchema(definition),
+    })),
+    errors: [],
+  };
+  vi.mocked(loadSchemaFile).mockResolvedValue(result);
+}
+
+function writtenJson(): Record<string, any> {
+  const [, content] = vi.mocked(fs.writeFileSync).mock.calls[0]!;
+  return JSON.parse(String(content));
+}
+
+const USER = { $type: 'User', id: 'uuid!', name: 'string?' };
+const POST = { $type: 'Post', id: 'uuid!', author: '-> User' };
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('ice jsonschema export command', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should require --schema', async () => {
+    await expect(jsonschemaExport([])).rejects.toThrow(/schema/);
+  });
+
+  it('should reject an invalid relations mode', async () => {
+    mockSchemas(USER);
+
+    await expect(jsonschemaExport(['-s', 'schema.ts', '--relations', 'embed', '-q'])).rejects.toThrow(
+      "Invalid relations mode 'embed'. Valid modes are: id, ref"
+    );
+  });
+
+  it('should write a standalone document for a single schema', async () => {
+    mockSchemas(USER);
+
+    await jsonschemaExport(['-s', 'schema.ts', '-o', 'user.json', '--base-uri', 'https://example.com/', '-q']);
+
+    expect(fs.writeFileSync).toHaveBeenCalledWith('user.json', expect.stringMatching(/\n$/));
+    expect(writtenJson()).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      $id: 'https://example.com/User.json',
+      title: 'User',
+      type: 'object',
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        name: { type: ['string', 'null'] },
+      },
+      required: ['id'],
+    });
+  });
+
+  it('should write a bundle for multiple schemas', async () => {
+    mockSchemas(USER, POST);
+
+    await jsonschemaExport(['-s', 'schema.ts', '-o', 'bundle.json', '--relations', 'ref', '--strict', '-q']);
+
+    const bundle = writtenJson();
+    expect(Object.keys(bundle.$defs)).toEqual(['User', 'Post']);
+    expect(bundle.$defs.Post.additionalProperties).toBe(false);
+    expect(bundle.$defs.Post.properties.author).toEqual({
+      $ref: '#/$defs/User',
+      'x-icetype-relation': '-> User',
+    });
+  });
+
+  it('should print to stdout without --output', async () => {
+    mockSchemas(USER);
+    const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    await jsonschemaExport(['-s', 'schema.ts', '-q']);
+
+    expect(fs.writeFileSync).not.toHaveBeenCalled();
+    expect(JSON.parse(String(write.mock.calls[0]![0])).title).toBe('User');
+  });
+});
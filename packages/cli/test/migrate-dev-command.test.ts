@@ -359,7 +359,7 @@ describe('migrate dev command', () => {
       expect(allOutput).toContain('ALTER TABLE');
     });
 
-    it('should apply migration when --yes flag is provided', async () => {
+    it('should ask for a database URL when --yes is provided without one', async () => {
       const loadSchemaFile = await getMockedLoadSchemaFile();
 
       const fields = new Map<string, FieldDefinition>();
@@ -373,8 +373,9 @@ describe('migrate dev command', () => {
 
       await migrateDev(['--schema', './schema.ts', '--dialect', 'postgres', '--yes']);
 
+      // Without --database-url the migration is written but not applied
       const allOutput = mockConsoleLog.mock.calls.map((c) => c[0]).join('\n');
-      expect(allOutput).toContain('Migration applied successfully');
+      expect(allOutput).toContain('Pass --database-url to apply it.');
     });
 
     it('should prompt for confirmation by default (without --yes)', async () => {
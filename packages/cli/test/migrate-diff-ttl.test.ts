@@ -0,0 +1,74 @@
+/**
+ * Migrate Diff TTL Tests for @icetype/cli
+ *
+ * Tests that `ice migrate diff` reports `$ttl` changes and generates
+ * ClickHouse TTL migrations.
+ *
+ * Uses a mocked schema loader.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { parseSchema } from '@icetype/core';
+import type { LoadResult } from '../src/utils/schema-loader.js';
+
+vi.mock('../src/utils/schema-loader.js', () => ({
+  loadSchemaFile: vi.fn(),
+}));
+
+import { migrateDiff } from '../src/commands/migrate.js';
+import { loadSchemaFile } from '../src/utils/schema-loader.js';
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function loadResult(definition: Record<string, unknown>): LoadResult {
+  return { schemas: [{ name: 'EventSchema', schema: parseSchema(definition) }], errors: [] };
+}
+
+const EVENT = { $type: 'Event', id: 'uuid!', createdAt: 'timestamp!' };
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('ice migrate diff with $ttl', () => {
+  let output: string[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    output = [];
+    vi.spyOn(console, 'log').mockImplementation((message: unknown) => {
+      output.push(String(message));
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should report TTL changes and generate MODIFY TTL for ClickHouse', async () => {
+    vi.mocked(loadSchemaFile)
+      .mockResolvedValueOnce(loadResult({ ...EVENT, $ttl: 'createdAt + 30d' }))
+      .mockResolvedValueOnce(loadResult({ ...EVENT, $ttl: 'createdAt + 90d' }));
+
+    await migrateDiff(['--old', './old.ts', '--new', './new.ts', '--dialect', 'clickhouse']);
+
+    const sql = output.join('\n');
+    expect(sql).toContain('-- TTL: createdAt: delete after 30 days -> createdAt: delete after 90 days');
+    expect(sql).toContain('ALTER TABLE Event MODIFY TTL createdAt + INTERVAL 90 DAY;');
+    expect(sql).toContain('ALTER TABLE Event MODIFY TTL createdAt + INTERVAL 30 DAY;');
+  });
+
+  it('should include TTL changes in JSON output', async () => {
+    vi.mocked(loadSchemaFile)
+      .mockResolvedValueOnce(loadResult({ ...EVENT, $ttl: 'createdAt + 30d' }))
+      .mockResolvedValueOnce(loadResult(EVENT));
+
+    await migrateDiff(['--old', './old.ts', '--new', './new.ts', '--format', 'json']);
+
+    const result = JSON.parse(output.find((line) => line.startsWith('{'))!);
+    expect(result.hasChanges).toBe(true);
+    expect(result.schemas[0].ttlChange).toEqual({ old: 'createdAt: delete after 30 days', new: null });
+  });
+});
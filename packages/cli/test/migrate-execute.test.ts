@@ -0,0 +1,288 @@
+/**
+ * Migrate Execution Tests for @icetype/cli
+ *
+ * Tests that `ice migrate up`, `ice migrate down` and `ice migrate dev`
+ * apply SQL to a real SQLite database when given `--database-url`, roll
+ * back a migration whose statements fail, and record what was applied in
+ * the migration history that `ice migrate status` reads.
+ *
+ * Uses a mocked schema loader.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync, readdirSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseSchema } from '@icetype/core';
+import { createDatabaseExecutor } from '@icetype/migrations';
+import type { LoadResult } from '../src/utils/schema-loader.js';
+
+vi.mock('../src/utils/schema-loader.js', () => ({
+  loadSchemaFile: vi.fn(),
+}));
+
+import { migrateUp, migrateDown, migrateDev, migrateStatus } from '../src/commands/migrate.js';
+import { loadSchemaFile } from '../src/utils/schema-loader.js';
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function loadResult(definition: Record<string, unknown>): LoadResult {
+  return { schemas: [{ name: 'UserSchema', schema: parseSchema(definition) }], errors: [] };
+}
+
+async function tableColumns(url: string, table: string): Promise<string[]> {
+  const db = await createDatabaseExecutor(url);
+  try {
+    const rows = await db.query<{ name: string }>(`SELECT name FROM pragma_table_info('${table}')`);
+    return rows.map((row) => row.name);
+  } finally {
+    await db.close();
+  }
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('ice migrate with --database-url', () => {
+  let dir: string;
+  let migrationsDir: string;
+  let url: string;
+  let output: string[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dir = mkdtempSync(join(tmpdir(), 'icetype-migrate-'));
+    migrationsDir = join(dir, 'migrations');
+    mkdirSync(migrationsDir);
+    url = `sqlite:${join(dir, 'dev.db')}`;
+    output = [];
+    vi.spyOn(console, 'log').mockImplementation((message: unknown) => {
+      output.push(String(message));
+    });
+    vi.mocked(loadSchemaFile).mockResolvedValue(loadResult({ $type: 'User', id: 'uuid!' }));
+
+    writeFileSync(
+      join(migrationsDir, '20240101_create_users.sql'),
+      '-- UP\nCREATE TABLE users (id TEXT PRIMARY KEY);\n-- DOWN\nDROP TABLE users;\n'
+    );
+    writeFileSync(
+      join(migrationsDir, '20240102_add_email.sql'),
+      '-- UP\nALTER TABLE users ADD COLUMN email TEXT;\n-- DOWN\nALTER TABLE users DROP COLUMN email;\n'
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should apply pending migrations with migrate up', async () => {
+    await migrateUp(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', url]);
+
+    expect(await tableColumns(url, 'users')).toEqual(['id', 'email']);
+    expect(output.join('\n')).toContain('Applied 2 migration(s)');
+  });
+
+  it('should roll back the failing migration and keep earlier ones', async () => {
+    writeFileSync(
+      join(migrationsDir, '20240103_broken.sql'),
+      'ALTER TABLE users ADD COLUMN name TEXT;\nALTER TABLE missing ADD COLUMN x TEXT;\n'
+    );
+
+    await expect(
+      migrateUp(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', url])
+    ).rejects.toThrow(/Migration 20240103_broken.sql failed at statement 2: no such table: missing/);
+
+    expect(await tableColumns(url, 'users')).toEqual(['id', 'email']);
+  });
+
+  it('should apply migrations to a DuckDB database', async () => {
+    const duckdbUrl = `duckdb://${join(dir, 'warehouse.duckdb')}`;
+
+    await migrateUp(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', duckdbUrl]);
+
+    const db = await createDatabaseExecutor(duckdbUrl);
+    const columns = await db.query<{ column_name: string }>(
+      `SELECT column_name FROM information_schema.columns WHERE table_name = 'users' ORDER BY ordinal_position`
+    );
+    await db.close();
+    expect(columns.map((c) => c.column_name)).toEqual(['id', 'email']);
+  });
+
+  it('should not touch the database in dry-run mode', async () => {
+    await migrateUp(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', url, '--dry-run']);
+
+    expect(await tableColumns(url, 'users')).toEqual([]);
+  });
+
+  it('should run DOWN sections with migrate down', async () => {
+    await migrateUp(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', url]);
+    await migrateDown(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', url, '--json']);
+
+    expect(await tableColumns(url, 'users')).toEqual(['id']);
+    const result = JSON.parse(output.find((line) => line.includes('"rolledBack"'))!);
+    expect(result.rolledBack).toEqual(['20240102_add_email.sql']);
+  });
+
+  it('should only apply new migrations on later runs', async () => {
+    await migrateUp(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', url]);
+    output = [];
+    await migrateUp(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', url]);
+
+    expect(output).toContain('No pending migrations to apply');
+    const db = await createDatabaseExecutor(url);
+    const rows = await db.query<{ migration_id: string; checksum: string; execution_time: number }>(
+      'SELECT migration_id, checksum, execution_time FROM _icetype_migrations ORDER BY migration_id'
+    );
+    await db.close();
+    expect(rows.map((row) => row.migration_id)).toEqual(['20240101_create_users.sql', '20240102_add_email.sql']);
+    expect(rows[0]!.checksum).toMatch(/^[0-9a-f]+$/);
+    expect(typeof rows[0]!.execution_time).toBe('number');
+  });
+
+  it('should refuse to run when an applied migration file was edited', async () => {
+    await migrateUp(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', url]);
+    writeFileSync(
+      join(migrationsDir, '20240101_create_users.sql'),
+      '-- UP\nCREATE TABLE users (id TEXT PRIMARY KEY, name TEXT);\n-- DOWN\nDROP TABLE users;\n'
+    );
+    writeFileSync(join(migrationsDir, '20240103_add_age.sql'), 'ALTER TABLE users ADD COLUMN age INTEGER;\n');
+
+    await expect(
+      migrateUp(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', url])
+    ).rejects.toThrow(/1 applied migration\(s\) changed since they were applied:\n {2}- 20240101_create_users\.sql .*\n.*--repair/);
+    expect(await tableColumns(url, 'users')).toEqual(['id', 'email']);
+
+    await migrateUp(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', url, '--repair']);
+    expect(output).toContain('Repaired checksum of 1 migration(s): 20240101_create_users.sql');
+    expect(await tableColumns(url, 'users')).toEqual(['id', 'email', 'age']);
+
+    // The repaired checksum is accepted on later runs
+    await migrateUp(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', url]);
+    expect(output).toContain('No pending migrations to apply');
+  });
+
+  it('should release the migration lock after applying', async () => {
+    await migrateUp(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', url]);
+
+    const db = await createDatabaseExecutor(url);
+    const locks = await db.query('SELECT * FROM _icetype_migrations_lock');
+    await db.close();
+    expect(locks).toEqual([]);
+  });
+
+  it('should report status from the history table', async () => {
+    await migrateUp([
+      '--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', url,
+      '--target', '20240101_create_users.sql',
+    ]);
+    await migrateStatus(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', url, '--json']);
+
+    const status = JSON.parse(output.find((line) => line.includes('"appliedMigrations"'))!);
+    expect(status.appliedMigrations).toEqual(['20240101_create_users.sql']);
+    expect(status.pendingMigrations).toEqual(['20240102_add_email.sql']);
+  });
+
+  it('should record rollbacks so status shows the migration as pending again', async () => {
+    await migrateUp(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', url]);
+    await migrateDown(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', url]);
+    await migrateStatus(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', url, '--json']);
+
+    const status = JSON.parse(output.find((line) => line.includes('"appliedMigrations"'))!);
+    expect(status.appliedCount).toBe(1);
+    expect(status.pendingMigrations).toEqual(['20240102_add_email.sql']);
+
+    // Re-applying a rolled-back migration is allowed
+    await migrateUp(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', url]);
+    expect(await tableColumns(url, 'users')).toEqual(['id', 'email']);
+  });
+
+  it('should keep history in the migrations directory with --history file', async () => {
+    await migrateUp([
+      '--schema', './schema.ts', '--migrations-dir', migrationsDir, '--database-url', url, '--history', 'file',
+    ]);
+
+    const history = JSON.parse(readFileSync(join(migrationsDir, '.history.json'), 'utf-8'));
+    expect(history.migrations.map((m: { migrationId: string }) => m.migrationId)).toEqual([
+      '20240101_create_users.sql',
+      '20240102_add_email.sql',
+    ]);
+    expect(await tableColumns(url, '_icetype_migrations')).toEqual([]);
+
+    // Without a URL, status reads the same file
+    await migrateStatus(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--json']);
+    const status = JSON.parse(output.find((line) => line.includes('"appliedMigrations"'))!);
+    expect(status.appliedCount).toBe(2);
+    expect(status.pendingCount).toBe(0);
+  });
+
+  it('should reject --history table without a database URL', async () => {
+    await expect(
+      migrateStatus(['--schema', './schema.ts', '--migrations-dir', migrationsDir, '--history', 'table'])
+    ).rejects.toThrow('--history table requires --database-url');
+  });
+
+  it('should apply the generated migration with migrate dev --yes', async () => {
+    const devDir = join(dir, 'dev-migrations');
+    vi.mocked(loadSchemaFile).mockResolvedValue(
+      loadResult({ $type: 'User', id: 'uuid!', email: 'string', name: 'string' })
+    );
+    const db = await createDatabaseExecutor(url);
+    await db.execute('CREATE TABLE User (id TEXT PRIMARY KEY, name TEXT NOT NULL)');
+    await db.close();
+
+    await migrateDev([
+      '--schema', './schema.ts', '--dialect', 'sqlite', '--migrations-dir', devDir, '--yes', '--database-url', url,
+    ]);
+
+    expect(output).toContain('Migration applied successfully');
+    expect(readdirSync(devDir)).toHaveLength(1);
+    expect(await tableColumns(url, 'User')).toEqual(['id', 'name', 'email']);
+  });
+
+  it('should create missing tables with migrate dev on a fresh database', async () => {
+    const devDir = join(dir, 'dev-migrations');
+    vi.mocked(loadSchemaFile).mockResolvedValue(loadResult({ $type: 'User', id: 'uuid!', email: 'string' }));
+    const args = ['--schema', './schema.ts', '--dialect', 'sqlite', '--migrations-dir', devDir, '--yes', '--database-url', url];
+
+    await migrateDev(args);
+
+    expect(output).toContain('+ Created table User');
+    expect(await tableColumns(url, 'User')).toEqual(['$id', '$type', '$version', '$createdAt', '$updatedAt', 'id', 'email']);
+
+    // The next run compares against the table it created
+    output = [];
+    await migrateDev(args);
+    expect(output).toContain('No changes detected');
+  });
+
+  it('should create missing tables in a PGlite database, matching folded names', async () => {
+    const pgUrl = `pglite://${join(dir, 'pgdata')}`;
+    const devDir = join(dir, 'dev-migrations');
+    vi.mocked(loadSchemaFile).mockResolvedValue(loadResult({ $type: 'User', id: 'uuid!', createdAt: 'timestamp?' }));
+    const args = ['--schema', './schema.ts', '--dialect', 'postgres', '--migrations-dir', devDir, '--yes', '--database-url', pgUrl];
+
+    await migrateDev(args);
+    expect(output).toContain('Migration applied successfully');
+
+    output = [];
+    await migrateDev(args);
+    expect(output).toContain('No changes detected');
+  }, 30_000);
+
+  it('should reject a dialect that does not match the database', async () => {
+    await expect(
+      migrateDev(['--schema', './schema.ts', '--dialect', 'postgres', '--migrations-dir', join(dir, 'dev'), '--yes', '--database-url', url])
+    ).rejects.toThrow(`--dialect postgres does not match the sqlite database at '${url}'`);
+  });
+
+  it('should not claim to apply a dev migration without a database URL', async () => {
+    await migrateDev(['--schema', './schema.ts', '--dialect', 'postgres', '--migrations-dir', join(dir, 'dev'), '--yes']);
+
+    expect(output).not.toContain('Migration applied successfully');
+    expect(output.join('\n')).toContain('Pass --database-url to apply it.');
+  });
+});
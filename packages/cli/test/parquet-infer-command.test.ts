@@ -0,0 +1,124 @@
+/**
+ * Parquet Infer Command Tests for @icetype/cli
+ *
+ * Tests that `ice parquet infer` reads the footer of a Parquet file written
+ * by another tool and prints the IceType schema it implies.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { writeParquet, type ParquetSchema } from '@icetype/iceberg';
+import { parquetInfer } from '../src/commands/parquet.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+/** A Spark-style file: a generic message name, legacy annotations and a nested group */
+const SCHEMA: ParquetSchema = {
+  name: 'spark_schema',
+  fields: [
+    { name: 'order_id', type: 'INT64', repetition: 'REQUIRED' },
+    { name: 'customer', type: 'BYTE_ARRAY', repetition: 'OPTIONAL', convertedType: 'UTF8' },
+    {
+      name: 'total',
+      type: 'INT64',
+      repetition: 'REQUIRED',
+      convertedType: 'DECIMAL',
+      precision: 12,
+      scale: 2,
+    },
+    { name: 'placed_at', type: 'INT64', repetition: 'OPTIONAL', convertedType: 'TIMESTAMP_MICROS' },
+    {
+      name: 'shipping',
+      repetition: 'OPTIONAL',
+      children: [
+        { name: 'city', type: 'BYTE_ARRAY', repetition: 'OPTIONAL', convertedType: 'UTF8' },
+        { name: 'zip', type: 'BYTE_ARRAY', repetition: 'OPTIONAL', convertedType: 'UTF8' },
+      ],
+    },
+  ],
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('ice parquet infer', () => {
+  let dir: string;
+  let parquetPath: string;
+  let output: string[];
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'icetype-parquet-infer-'));
+    parquetPath = join(dir, 'orders.parquet');
+    await writeParquet(
+      SCHEMA,
+      [
+        {
+          order_id: 1,
+          customer: 'acme',
+          total: '19.99',
+          placed_at: new Date(Date.UTC(2024, 0, 1)),
+          shipping: { city: 'Oslo', zip: '0150' },
+        },
+      ],
+      parquetPath
+    );
+    output = [];
+    vi.spyOn(console, 'log').mockImplementation((message: unknown) => {
+      output.push(String(message));
+    });
+    vi.spyOn(console, 'warn').mockImplementation((message: unknown) => {
+      output.push(String(message));
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write a TypeScript schema file', async () => {
+    const schemaPath = join(dir, 'schema.ts');
+    await parquetInfer([parquetPath, '--output', schemaPath, '--name', 'Order', '--quiet']);
+
+    expect(readFileSync(schemaPath, 'utf-8')).toBe(
+      [
+        "import { parseSchema } from '@icetype/core';",
+        '',
+        'export const Order = parseSchema({',
+        "  $type: 'Order',",
+        '  $structs: {"Shipping":{"city":"string?","zip":"string?"}},',
+        '',
+        "  order_id: 'long',",
+        "  customer: 'string?',",
+        "  total: 'decimal(12,2)',",
+        "  placed_at: 'timestamptz?',",
+        "  shipping: 'struct<Shipping>?',",
+        '});',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should print JSON named after a generic message as Table', async () => {
+    await parquetInfer(['--input', parquetPath, '--format', 'json']);
+
+    const json = output.find((line) => line.startsWith('{'));
+    expect(JSON.parse(json!)).toMatchObject({ $type: 'Table', order_id: 'long', shipping: 'struct<Shipping>?' });
+  });
+
+  it('should fail when the file does not exist', async () => {
+    await expect(parquetInfer([join(dir, 'missing.parquet')])).rejects.toThrow(/Parquet file not found/);
+  });
+
+  it('should fail when the file is not a Parquet file', async () => {
+    const csvPath = join(dir, 'orders.csv');
+    writeFileSync(csvPath, 'order_id,customer\n1,acme\n');
+
+    await expect(parquetInfer([csvPath])).rejects.toThrow(/missing the PAR1 magic/);
+  });
+});
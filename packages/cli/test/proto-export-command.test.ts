@@ -0,0 +1,128 @@
+/**
+ * Proto Export Command Tests for @icetype/cli
+ *
+ * Tests for the `ice proto export` command which generates
+ * proto3 files from IceType schemas with a field number lock file.
+ *
+ * Uses a mocked schema loader, lock file I/O and file system operations.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import { parseSchema } from '@icetype/core';
+import { loadProtoLock, saveProtoLock, createProtoLock, generateProtoFile } from '@icetype/protobuf';
+import type { LoadResult } from '../src/utils/schema-loader.js';
+
+// Mock modules
+vi.mock('node:fs', async () => {
+  const actual = await vi.importActual<typeof import('node:fs')>('node:fs');
+  return {
+    ...actual,
+    writeFileSync: vi.fn(),
+  };
+});
+
+vi.mock('@icetype/protobuf', async () => {
+  const actual = await vi.importActual<typeof import('@icetype/protobuf')>('@icetype/protobuf');
+  return {
+    ...actual,
+    loadProtoLock: vi.fn(),
+    saveProtoLock: vi.fn(),
+  };
+});
+
+vi.mock('../src/utils/schema-loader.js', () => ({
+  loadSchemaFile: vi.fn(),
+}));
+
+import { protoExport } from '../src/commands/proto.js';
+import { loadSchemaFile } from '../src/utils/schema-loader.js';
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+function mockSchemas(...definitions: Record<string, unknown>[]): void {
+  const result: LoadResult = {
+    schemas: definitions.map((definition) => ({
+      name: `${String(definition.$type)}Schema`,
+      schema: parseSchema(definition),
+    })),
+    errors: [],
+  };
+  vi.mocked(loadSchemaFile).mockResolvedValue(result);
+}
+
+function writtenProto(): string {
+  const [, content] = vi.mocked(fs.writeFileSync).mock.calls[0]!;
+  return String(content);
+}
+
+const USER = { $type: 'User', id: 'uuid!', email: 'string!', createdAt: 'timestamp!' };
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('ice proto export command', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(loadProtoLock).mockResolvedValue(createProtoLock());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should require --schema', async () => {
+    await expect(protoExport([])).rejects.toThrow(/schema/);
+  });
+
+  it('should write the proto file and a lock next to it', async () => {
+    mockSchemas(USER);
+
+    await protoExport(['-s', 'schema.ts', '-o', 'user.proto', '--package', 'example.v1', '--option', 'go_package=example.com/gen', '-q']);
+
+    expect(loadProtoLock).toHaveBeenCalledWith('user.proto.lock');
+    expect(writtenProto()).toContain('package example.v1;');
+    expect(writtenProto()).toContain('option go_package = "example.com/gen";');
+    expect(writtenProto()).toContain('google.protobuf.Timestamp created_at = 3;');
+    expect(saveProtoLock).toHaveBeenCalledWith('user.proto.lock', {
+      version: 1,
+      messages: { User: { numbers: { id: 1, email: 2, createdAt: 3 }, reserved: [], reservedNames: [] } },
+      enums: {},
+    });
+  });
+
+  it('should keep numbers from an existing lock', async () => {
+    const previous = generateProtoFile([parseSchema(USER)]).lock;
+    vi.mocked(loadProtoLock).mockResolvedValue(previous);
+    mockSchemas({ $type: 'User', id: 'uuid!', createdAt: 'timestamp!', name: 'string?' });
+
+    await protoExport(['-s', 'schema.ts', '-o', 'user.proto', '--lock', 'locks/user.lock', '-q']);
+
+    expect(loadProtoLock).toHaveBeenCalledWith('locks/user.lock');
+    expect(writtenProto()).toContain('  reserved 2;\n  reserved "email";\n');
+    expect(writtenProto()).toContain('optional string name = 4;');
+  });
+
+  it('should reject malformed file options', async () => {
+    mockSchemas(USER);
+
+    await expect(protoExport(['-s', 'schema.ts', '--option', 'go_package', '-q'])).rejects.toThrow(
+      "Invalid option 'go_package'"
+    );
+  });
+
+  it('should print to stdout without --output or --lock', async () => {
+    mockSchemas(USER);
+    const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    await protoExport(['-s', 'schema.ts', '-q']);
+
+    expect(fs.writeFileSync).not.toHaveBeenCalled();
+    expect(loadProtoLock).not.toHaveBeenCalled();
+    expect(saveProtoLock).not.toHaveBeenCalled();
+    expect(String(write.mock.calls[0]![0])).toContain('message User {');
+  });
+});
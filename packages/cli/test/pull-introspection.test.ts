@@ -0,0 +1,259 @@
+/**
+ * Pull Introspection Tests for @icetype/cli
+ *
+ * Tests that `ice pull` reads tables, columns, indexes and foreign keys from
+ * real SQLite, PGlite and DuckDB databases, and turns foreign keys into
+ * `->` relations with `<-` inverses on the referenced tables.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseSchema, type IceTypeSchema } from '@icetype/core';
+import { createDatabaseExecutor } from '@icetype/migrations';
+import { pull, _testHelpers } from '../src/commands/pull.js';
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+async function createDatabase(url: string, statements: string[]): Promise<void> {
+  const db = await createDatabaseExecutor(url);
+  try {
+    for (const statement of statements) {
+      await db.execute(statement);
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+interface JsonOutput {
+  schemas: Array<{
+    name: string;
+    fields: Record<string, { type: string; isOptional: boolean; isUnique: boolean; isPrimaryKey: boolean }>;
+    relations: Record<string, { operator: string; targetTable: string; targetField: string; isOptional: boolean; isArray: boolean }>;
+    directives: { $index?: string[][] };
+  }>;
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('ice pull introspection', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'icetype-pull-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('SQLite', () => {
+    let path: string;
+
+    beforeEach(async () => {
+      path = join(dir, 'dev.db');
+      await createDatabase(`sqlite:${path}`, [
+        'CREATE TABLE users (id TEXT PRIMARY KEY, email TEXT NOT NULL UNIQUE, name TEXT, age INTEGER)',
+        `CREATE TABLE posts (
+          id INTEGER PRIMARY KEY,
+          author_id TEXT NOT NULL REFERENCES users(id),
+          editor_id TEXT REFERENCES users,
+          title TEXT NOT NULL
+        )`,
+        'CREATE INDEX posts_title_idx ON posts (title)',
+        'CREATE TABLE _icetype_migrations (migration_id TEXT PRIMARY KEY)',
+      ]);
+    });
+
+    it('should read columns, keys, indexes and foreign keys', async () => {
+      const tables = await _testHelpers.introspectSqlite(path);
+
+      expect(tables.map((t) => t.name)).toEqual(['_icetype_migrations', 'posts', 'users']);
+      const users = tables.find((t) => t.name === 'users')!;
+      expect(users.primaryKey).toEqual(['id']);
+      expect(users.columns).toEqual([
+        { name: 'id', type: 'TEXT', nullable: false, isPrimaryKey: true, isUnique: true },
+        { name: 'email', type: 'TEXT', nullable: false, isPrimaryKey: false, isUnique: true },
+        { name: 'name', type: 'TEXT', nullable: true, isPrimaryKey: false, isUnique: false },
+        { name: 'age', type: 'INTEGER', nullable: true, isPrimaryKey: false, isUnique: false },
+      ]);
+      expect(users.indexes).toEqual([{ name: 'sqlite_autoindex_users_2', columns: ['email'], unique: true }]);
+
+      const posts = tables.find((t) => t.name === 'posts')!;
+      expect(posts.indexes).toEqual([{ name: 'posts_title_idx', columns: ['title'], unique: false }]);
+      // `REFERENCES users` without a column resolves to the primary key
+      expect(posts.foreignKeys).toEqual(
+        expect.arrayContaining([
+          { name: 'posts_author_id_fkey', columns: ['author_id'], referencedTable: 'users', referencedColumns: ['id'] },
+          { name: 'posts_editor_id_fkey', columns: ['editor_id'], referencedTable: 'users', referencedColumns: ['id'] },
+        ])
+      );
+    });
+
+    it('should write relations and inverses to the TypeScript schema', async () => {
+      const output = join(dir, 'schema.ts');
+      await pull([path, '--output', output]);
+
+      const content = readFileSync(output, 'utf-8');
+      expect(content).not.toContain('_icetype_migrations');
+      expect(content).toContain("$type: 'users',");
+      expect(content).toContain("email: 'string#',");
+      expect(content).toContain("age: 'int?',");
+      expect(content).toContain("authorId: 'string',");
+      expect(content).toContain("author: '-> users',");
+      expect(content).toContain("editor: '-> users?',");
+      expect(content).toContain("postsByAuthor: '<- posts.author[]',");
+      expect(content).toContain("postsByEditor: '<- posts.editor[]',");
+    });
+
+    it('should generate a schema file the parser accepts', async () => {
+      const output = join(dir, 'schema.ts');
+      await pull([path, '--output', output]);
+
+      // The generated module is plain JavaScript apart from its import
+      const body = readFileSync(output, 'utf-8')
+        .replace(/^import .*$/m, '')
+        .replace(/export const (\w+) =/g, 'exports.$1 =');
+      const exports: Record<string, IceTypeSchema> = {};
+      new Function('parseSchema', 'exports', body)(parseSchema, exports);
+
+      expect(exports['posts']!.relations.get('author')).toMatchObject({ operator: '->', targetType: 'users' });
+      expect(exports['users']!.relations.get('postsByEditor')).toMatchObject({
+        operator: '<-',
+        targetType: 'posts',
+        inverse: 'editor',
+      });
+    });
+
+    it('should report a missing database file', async () => {
+      await expect(pull([join(dir, 'missing.db')])).rejects.toThrow(/Database file not found: .*missing\.db/);
+    });
+  });
+
+  // PGlite boots a full Postgres instance, which takes a few seconds
+  describe('PostgreSQL (PGlite)', () => {
+    const statements = [
+      `CREATE TABLE users (
+        id UUID PRIMARY KEY,
+        email VARCHAR(255) NOT NULL UNIQUE,
+        balance NUMERIC(10, 2),
+        tags TEXT[],
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )`,
+      `CREATE TABLE profiles (
+        id SERIAL PRIMARY KEY,
+        user_id UUID NOT NULL UNIQUE REFERENCES users(id),
+        bio TEXT
+      )`,
+      `CREATE TABLE posts (
+        id SERIAL PRIMARY KEY,
+        author_id UUID NOT NULL,
+        title TEXT NOT NULL,
+        CONSTRAINT posts_author_fk FOREIGN KEY (author_id) REFERENCES users(id)
+      )`,
+      'CREATE INDEX posts_author_title_idx ON posts (author_id, title)',
+    ];
+
+    it('should pull an embedded data directory', async () => {
+      const url = `pglite://${join(dir, 'pgdata')}`;
+      await createDatabase(url, statements);
+
+      const output = join(dir, 'schema.json');
+      await pull([url, '--format', 'json', '-o', output]);
+
+      const { schemas } = JSON.parse(readFileSync(output, 'utf-8')) as JsonOutput;
+      expect(schemas.map((s) => s.name)).toEqual(['posts', 'profiles', 'users']);
+
+      const users = schemas.find((s) => s.name === 'users')!;
+      expect(users.fields['id']).toMatchObject({ type: 'uuid', isPrimaryKey: true });
+      expect(users.fields['email']).toMatchObject({ type: 'string', isUnique: true, isOptional: false });
+      expect(users.fields['balance']).toMatchObject({ type: 'decimal', isOptional: true });
+      expect(users.fields['tags']?.type).toBe('text[]');
+      expect(users.fields['created_at']?.type).toBe('timestamp');
+      expect(users.relations).toEqual({
+        posts: { operator: '<-', targetTable: 'posts', targetField: 'author', isOptional: false, isArray: true },
+        profiles: { operator: '<-', targetTable: 'profiles', targetField: 'user', isOptional: true, isArray: false },
+      });
+
+      const posts = schemas.find((s) => s.name === 'posts')!;
+      expect(posts.directives.$index).toEqual([['author_id', 'title']]);
+      expect(posts.relations['author']).toEqual({
+        operator: '->',
+        targetTable: 'users',
+        targetField: 'id',
+        isOptional: false,
+        isArray: false,
+      });
+    }, 30_000);
+
+    it('should introspect through a client the caller opened', async () => {
+      const db = await createDatabaseExecutor('pglite::memory:');
+      try {
+        for (const statement of statements) {
+          await db.execute(statement);
+        }
+
+        const posts = await _testHelpers.introspectPostgresTable(db, 'posts', {});
+        expect(posts.schema).toBe('public');
+        expect(posts.primaryKey).toEqual(['id']);
+        expect(posts.columns.find((c) => c.name === 'id')?.defaultValue).toBe("nextval('posts_id_seq'::regclass)");
+        expect(posts.foreignKeys).toEqual([
+          { name: 'posts_author_fk', columns: ['author_id'], referencedTable: 'users', referencedColumns: ['id'] },
+        ]);
+
+        const tables = await _testHelpers.introspectPostgres(db, { schemaName: 'public' });
+        const output = _testHelpers.generateTypescriptOutput(tables, 'postgres');
+        expect(output).toContain("user: '-> users',");
+        expect(output).toContain("profiles: '<- profiles.user?',");
+      } finally {
+        await db.close();
+      }
+    }, 30_000);
+  });
+
+  describe('DuckDB', () => {
+    it('should pull a database file', async () => {
+      const path = join(dir, 'warehouse.duckdb');
+      await createDatabase(`duckdb://${path}`, [
+        'CREATE TABLE customers (id UUID PRIMARY KEY, email VARCHAR NOT NULL UNIQUE, score DOUBLE)',
+        `CREATE TABLE orders (
+          id INTEGER PRIMARY KEY,
+          customer_id UUID NOT NULL REFERENCES customers(id),
+          total DECIMAL(12, 2),
+          labels VARCHAR[],
+          placed_at TIMESTAMP
+        )`,
+        'CREATE INDEX orders_placed_idx ON orders (placed_at)',
+      ]);
+
+      const tables = await _testHelpers.introspectDuckdb(path, {});
+      const orders = tables.find((t) => t.name === 'orders')!;
+      expect(orders.schema).toBe('main');
+      expect(orders.indexes).toEqual([{ name: 'orders_placed_idx', columns: ['placed_at'], unique: false }]);
+      expect(orders.foreignKeys).toEqual([
+        expect.objectContaining({ columns: ['customer_id'], referencedTable: 'customers', referencedColumns: ['id'] }),
+      ]);
+
+      const output = join(dir, 'schema.ts');
+      await pull([path, '-o', output, '--quiet']);
+
+      const content = readFileSync(output, 'utf-8');
+      expect(content).toContain("id: 'uuid!',");
+      expect(content).toContain("email: 'string#',");
+      expect(content).toContain("score: 'double?',");
+      expect(content).toContain("total: 'decimal?',");
+      expect(content).toContain("labels: 'string[]?',");
+      expect(content).toContain("placedAt: 'timestamp?',");
+      expect(content).toContain("customer: '-> customers',");
+      expect(content).toContain("orders: '<- orders.customer[]',");
+    });
+  });
+});
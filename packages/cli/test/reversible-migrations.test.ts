@@ -266,6 +266,32 @@ describe('Reversible Migrations', () => {
         expect(migration.reversible).toBe(true);
       });
     });
+
+    describe('handles CHECK constraint changes', () => {
+      it('should drop constraints in DOWN that were added in UP', () => {
+        const diff = createMockDiff([
+          { type: 'add_constraint', field: 'age', constraints: { min: 0 } },
+        ]);
+
+        const migration = generateReversibleMigration(diff, { dialect: 'postgres' });
+
+        expect(migration.up).toEqual([
+          'ALTER TABLE "users" ADD CONSTRAINT users_age_check CHECK ("age" >= 0);',
+        ]);
+        expect(migration.down).toEqual(['ALTER TABLE "users" DROP CONSTRAINT users_age_check;']);
+      });
+
+      it('should warn that SQLite cannot alter constraints in place', () => {
+        const diff = createMockDiff([
+          { type: 'add_constraint', field: 'age', constraints: { min: 0 } },
+        ]);
+
+        const migration = generateReversibleMigration(diff, { dialect: 'sqlite' });
+
+        expect(migration.up).toEqual([]);
+        expect(migration.warnings).toContain('CHECK constraint change on age requires table recreation in sqlite');
+      });
+    });
   });
 
   describe('validateReversibility', () => {
@@ -0,0 +1,423 @@
+/**
+ * SQL Import Command Tests for @icetype/cli
+ *
+ * Tests that `ice import sql` turns Postgres (pg_dump), MySQL, SQLite and
+ * ClickHouse DDL into IceType schemas: types, keys, indexes, foreign keys,
+ * enums, defaults and CHECK constraints, with warnings for what it skips.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { importSqlSchema, sqlImport } from '../src/commands/sql-import.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const PG_DUMP = `
+SET statement_timeout = 0;
+SELECT pg_catalog.set_config('search_path', '', false);
+
+CREATE TYPE public.mood AS ENUM ('sad', 'ok', 'happy');
+
+CREATE FUNCTION public.touch() RETURNS trigger
+    LANGUAGE plpgsql
+    AS $$ BEGIN NEW.updated_at = now(); RETURN NEW; END; $$;
+
+CREATE TABLE public.users (
+    id integer NOT NULL,
+    email character varying(255) NOT NULL,
+    name text,
+    age integer,
+    mood public.mood DEFAULT 'ok'::public.mood,
+    status character varying(20) DEFAULT 'active'::character varying NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT users_age_check CHECK (((age >= 0) AND (age <= 150))),
+    CONSTRAINT users_email_check CHECK (((email)::text ~ '^[^@ ]+@[^@ ]+[.][^@ ]+$'::text)),
+    CONSTRAINT users_status_check CHECK (((status)::text = ANY ((ARRAY['active'::character varying, 'banned'::character varying])::text[]))),
+    CONSTRAINT users_name_check CHECK ((char_length(name) <= 100)),
+    CONSTRAINT users_either_check CHECK (((age > 0) OR (name IS NULL)))
+);
+
+ALTER TABLE public.users OWNER TO postgres;
+
+CREATE SEQUENCE public.users_id_seq AS integer START WITH 1 INCREMENT BY 1 NO MINVALUE NO MAXVALUE CACHE 1;
+ALTER SEQUENCE public.users_id_seq OWNED BY public.users.id;
+
+CREATE TABLE public.posts (
+    id integer NOT NULL,
+    author_id integer NOT NULL,
+    title text NOT NULL
+);
+
+ALTER TABLE ONLY public.users ALTER COLUMN id SET DEFAULT nextval('public.users_id_seq'::regclass);
+ALTER TABLE ONLY public.users ADD CONSTRAINT users_pkey PRIMARY KEY (id);
+ALTER TABLE ONLY public.users ADD CONSTRAINT users_email_key UNIQUE (email);
+ALTER TABLE ONLY public.posts ADD CONSTRAINT posts_pkey PRIMARY KEY (id);
+CREATE INDEX posts_title_idx ON public.posts USING btree (title);
+CREATE INDEX posts_lower_title_idx ON public.posts USING btree (lower(title));
+ALTER TABLE ONLY public.posts
+    ADD CONSTRAINT posts_author_id_fkey FOREIGN KEY (author_id) REFERENCES public.users(id) ON DELETE CASCADE;
+`;
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('importSqlSchema', () => {
+  describe('PostgreSQL', () => {
+    it('should read tables, keys and foreign keys from a pg_dump script', () => {
+      const { tables } = importSqlSchema(PG_DUMP);
+
+      expect(tables.map((t) => t.name)).toEqual(['users', 'posts']);
+      const users = tables[0]!;
+      expect(users.schema).toBe('public');
+      expect(users.primaryKey).toEqual(['id']);
+      expect(users.columns.find((c) => c.name === 'email')).toMatchObject({
+        type: 'character varying(255)',
+        nullable: false,
+        isUnique: true,
+      });
+
+      const posts = tables[1]!;
+      expect(posts.indexes).toEqual([{ name: 'posts_title_idx', columns: ['title'], unique: false }]);
+      expect(posts.foreignKeys).toEqual([
+        { name: 'posts_author_id_fkey', columns: ['author_id'], referencedTable: 'users', referencedColumns: ['id'] },
+      ]);
+    });
+
+    it('should turn enums, defaults and CHECK constraints into the schema', () => {
+      const { schemas } = importSqlSchema(PG_DUMP);
+      const users = schemas[0]!;
+
+      expect(users.fields.get('mood')).toMatchObject({ enumName: 'Mood', enumValues: ['sad', 'ok', 'happy'] });
+      expect(users.fields.get('status')).toMatchObject({
+        enumName: 'UsersStatus',
+        enumValues: ['active', 'banned'],
+        defaultValue: 'active',
+      });
+      expect(users.fields.get('age')?.constraints).toEqual({ min: 0, max: 150 });
+      expect(users.fields.get('email')?.constraints).toEqual({ format: 'email' });
+      expect(users.fields.get('name')?.constraints).toEqual({ maxLength: 100 });
+      expect(users.fields.get('createdAt')?.defaultValue).toEqual({ function: 'now' });
+      expect(schemas[1]!.relations.get('author')).toMatchObject({ operator: '->', targetType: 'users' });
+    });
+
+    it('should warn about what it skips', () => {
+      const { warnings } = importSqlSchema(PG_DUMP);
+
+      expect(warnings).toEqual([
+        { line: 7, message: "Skipped unsupported statement 'CREATE FUNCTION public.touch() RETURNS ...'" },
+        { line: 11, message: 'Ignored CHECK (((age > 0) OR (name IS NULL))) on table users: no IceType equivalent' },
+        { line: 42, message: 'Skipped index posts_lower_title_idx: expression indexes are not supported' },
+      ]);
+    });
+
+    it('should report unparseable statements without failing the import', () => {
+      const { tables, warnings } = importSqlSchema(
+        'CREATE TABLE ok (id int PRIMARY KEY);\nCREATE INDEX ok_idx ok (id);'
+      );
+
+      expect(tables.map((t) => t.name)).toEqual(['ok']);
+      expect(warnings).toEqual([
+        { line: 2, message: "Could not parse 'CREATE INDEX ok_idx ok(id)': Expected ON but found 'ok'" },
+      ]);
+    });
+
+    it('should not split dollar-quoted bodies on their semicolons', () => {
+      const { tables, warnings } = importSqlSchema(`
+CREATE FUNCTION public.audit() RETURNS trigger AS $body$
+BEGIN
+  INSERT INTO log VALUES ('a;b'); RETURN NEW;
+END;
+$body$ LANGUAGE plpgsql;
+CREATE TABLE notes (id integer PRIMARY KEY, body text DEFAULT $$it's; fine$$);
+`);
+
+      expect(tables.map((t) => t.name)).toEqual(['notes']);
+      expect(tables[0]!.columns.find((c) => c.name === 'body')?.defaultValue).toBe("'it''s; fine'");
+      expect(warnings).toEqual([
+        { line: 2, message: "Skipped unsupported statement 'CREATE FUNCTION public.audit() RETURNS ...'" },
+      ]);
+    });
+
+    it('should merge an inline REFERENCES with the same ALTER TABLE foreign key', () => {
+      const { tables, schemas } = importSqlSchema(`
+CREATE TABLE users (id integer PRIMARY KEY);
+CREATE TABLE posts (id integer PRIMARY KEY, author_id integer NOT NULL REFERENCES users(id));
+ALTER TABLE ONLY posts ADD CONSTRAINT posts_author_fk FOREIGN KEY (author_id) REFERENCES users (id);
+`);
+
+      expect(tables[1]!.foreignKeys).toEqual([
+        { name: 'posts_author_id_fkey', columns: ['author_id'], referencedTable: 'users', referencedColumns: ['id'] },
+      ]);
+      expect([...schemas[1]!.relations.keys()]).toEqual(['author']);
+      expect([...schemas[0]!.relations.keys()]).toEqual(['posts']);
+    });
+  });
+
+  describe('quoted identifiers', () => {
+    it.each([
+      ['postgres', 'CREATE TABLE "Users" ("Id" integer PRIMARY KEY, "Full ""Name""" text, Email text);'],
+      ['mysql', 'CREATE TABLE `Users` (`Id` int PRIMARY KEY, `Full "Name"` text, Email text);'],
+      ['sqlite', 'CREATE TABLE [Users] ("Id" INTEGER PRIMARY KEY, `Full "Name"` TEXT, Email TEXT);'],
+      ['clickhouse', 'CREATE TABLE `Users` (`Id` Int32, "Full ""Name""" String, Email String) ENGINE = MergeTree ORDER BY Id;'],
+    ] as const)('should keep the case and quotes of %s identifiers', (dialect, sql) => {
+      const { tables } = importSqlSchema(sql, { dialect });
+
+      expect(tables[0]!.name).toBe('Users');
+      // Postgres folds unquoted identifiers to lowercase
+      expect(tables[0]!.columns.map((c) => c.name)).toEqual(['Id', 'Full "Name"', dialect === 'postgres' ? 'email' : 'Email']);
+    });
+
+    it('should read MySQL double quotes as strings and doubled backticks as one', () => {
+      const { tables } = importSqlSchema('CREATE TABLE t (`a``b` varchar(5) DEFAULT "x");', { dialect: 'mysql' });
+
+      expect(tables[0]!.columns[0]).toMatchObject({ name: 'a`b', defaultValue: "'x'" });
+    });
+  });
+
+  describe('CHECK constraints', () => {
+    it('should map bounds, lengths, patterns and IS NOT NULL to $constraints', () => {
+      const { schemas, warnings } = importSqlSchema(`
+CREATE TABLE accounts (
+  id integer PRIMARY KEY,
+  age integer CHECK (age >= 18),
+  score integer,
+  code text CHECK (length(code) BETWEEN 2 AND 8),
+  handle text,
+  email text,
+  name text,
+  CHECK (score > 0 AND score < 100),
+  CHECK (char_length(handle) <= 30 AND name IS NOT NULL),
+  CHECK (email ~ '^[^@ ]+@[^@ ]+[.][^@ ]+$')
+);
+`);
+      const accounts = schemas[0]!;
+
+      expect(accounts.fields.get('age')?.constraints).toEqual({ min: 18 });
+      expect(accounts.fields.get('score')?.constraints).toEqual({ min: 1, max: 99 });
+      expect(accounts.fields.get('code')?.constraints).toEqual({ minLength: 2, maxLength: 8 });
+      expect(accounts.fields.get('handle')?.constraints).toEqual({ maxLength: 30 });
+      expect(accounts.fields.get('email')?.constraints).toEqual({ format: 'email' });
+      expect(accounts.fields.get('name')?.isOptional).toBe(false);
+      expect(warnings).toEqual([]);
+    });
+
+    it('should import the supported part of a CHECK and warn about the rest', () => {
+      const { schemas, warnings } = importSqlSchema(
+        'CREATE TABLE t (id integer PRIMARY KEY, n integer, m integer, CHECK (n >= 0 AND n <> m));'
+      );
+
+      expect(schemas[0]!.fields.get('n')?.constraints).toEqual({ min: 0 });
+      expect(warnings.map((w) => w.message)).toEqual(['Imported only part of CHECK (n >= 0 AND n <> m) on table t']);
+    });
+  });
+
+  describe('UNIQUE and indexes', () => {
+    it('should read unique columns, composite keys and CREATE INDEX', () => {
+      const { tables, schemas, warnings } = importSqlSchema(`
+CREATE TABLE members (
+  id integer PRIMARY KEY,
+  email text NOT NULL UNIQUE,
+  org integer NOT NULL,
+  slug text NOT NULL,
+  code text,
+  name text,
+  CONSTRAINT members_org_slug_key UNIQUE (org, slug)
+);
+CREATE UNIQUE INDEX members_code_idx ON members (code);
+CREATE INDEX members_name_idx ON members USING btree (name) WHERE name IS NOT NULL;
+`);
+
+      expect(tables[0]!.indexes).toEqual([
+        { name: 'members_email_key', columns: ['email'], unique: true },
+        { name: 'members_org_slug_key', columns: ['org', 'slug'], unique: true },
+        { name: 'members_code_idx', columns: ['code'], unique: true },
+        { name: 'members_name_idx', columns: ['name'], unique: false },
+      ]);
+      // Only single-column unique keys make a column unique
+      const columns = tables[0]!.columns;
+      expect(columns.filter((c) => c.isUnique).map((c) => c.name)).toEqual(['id', 'email', 'code']);
+
+      const members = schemas[0]!;
+      expect(members.fields.get('email')).toMatchObject({ modifier: '#', isOptional: false });
+      expect(members.fields.get('code')).toMatchObject({ modifier: '#', isOptional: true });
+      expect(warnings.map((w) => w.message)).toEqual(['Index members_name_idx is partial; imported without its WHERE clause']);
+    });
+
+    it('should read MySQL inline UNIQUE KEY and KEY clauses', () => {
+      const { tables } = importSqlSchema(
+        'CREATE TABLE t (id int PRIMARY KEY, a int, b int, UNIQUE KEY t_ab (a, b), KEY t_b (b));',
+        { dialect: 'mysql' }
+      );
+
+      expect(tables[0]!.indexes).toEqual([
+        { name: 't_ab', columns: ['a', 'b'], unique: true },
+        { name: 't_b', columns: ['b'], unique: false },
+      ]);
+    });
+  });
+
+  describe('MySQL', () => {
+    it('should read a mysqldump table with inline keys and enums', () => {
+      const { tables, schemas, warnings } = importSqlSchema(
+        `
+DROP TABLE IF EXISTS \`users\`;
+CREATE TABLE \`users\` (
+  \`id\` bigint unsigned NOT NULL AUTO_INCREMENT,
+  \`email\` varchar(255) COLLATE utf8mb4_unicode_ci NOT NULL,
+  \`role\` enum('admin','member') NOT NULL DEFAULT 'member',
+  \`active\` tinyint(1) NOT NULL DEFAULT '1',
+  \`bio\` text COMMENT 'about me',
+  PRIMARY KEY (\`id\`),
+  UNIQUE KEY \`users_email_unique\` (\`email\`),
+  KEY \`users_bio_idx\` (\`bio\`(100)),
+  FULLTEXT KEY \`users_bio_ft\` (\`bio\`)
+) ENGINE=InnoDB AUTO_INCREMENT=5 DEFAULT CHARSET=utf8mb4;
+LOCK TABLES \`users\` WRITE;
+INSERT INTO \`users\` VALUES (1,'a@example.com','admin',1,NULL);
+UNLOCK TABLES;
+`,
+        { dialect: 'mysql' }
+      );
+
+      expect(tables[0]!.indexes).toEqual([
+        { name: 'users_email_unique', columns: ['email'], unique: true },
+        { name: 'users_bio_idx', columns: ['bio'], unique: false },
+      ]);
+      expect(schemas[0]!.fields.get('id')?.type).toBe('bigint');
+      expect(schemas[0]!.fields.get('role')).toMatchObject({ enumValues: ['admin', 'member'], defaultValue: 'member' });
+      expect(schemas[0]!.fields.get('active')).toMatchObject({ type: 'boolean', defaultValue: true });
+      expect(warnings).toEqual([{ line: 3, message: 'Skipped FULLTEXT clause on table users' }]);
+    });
+  });
+
+  describe('SQLite', () => {
+    it('should resolve REFERENCES without columns to the primary key', () => {
+      const { tables, schemas, warnings } = importSqlSchema(
+        `
+CREATE TABLE IF NOT EXISTS "users" (id INTEGER PRIMARY KEY AUTOINCREMENT, [email] TEXT NOT NULL UNIQUE, age INTEGER CHECK (age BETWEEN 0 AND 150));
+CREATE TABLE posts (
+  id INTEGER PRIMARY KEY,
+  author_id INTEGER REFERENCES users ON DELETE CASCADE,
+  price REAL CHECK (price > 0)
+) WITHOUT ROWID;
+CREATE TRIGGER posts_touch AFTER INSERT ON posts BEGIN SELECT 1; END;
+`,
+        { dialect: 'sqlite' }
+      );
+
+      expect(tables[1]!.foreignKeys).toEqual([
+        { name: 'posts_author_id_fkey', columns: ['author_id'], referencedTable: 'users', referencedColumns: ['id'] },
+      ]);
+      expect(schemas[0]!.fields.get('age')?.constraints).toEqual({ min: 0, max: 150 });
+      expect(tables[0]!.columns.find((c) => c.name === 'email')?.isUnique).toBe(true);
+      // A strict bound on a REAL column cannot be expressed with inclusive min/max
+      expect(warnings.map((w) => w.message)).toEqual([
+        'Ignored CHECK (price > 0) on table posts: no IceType equivalent',
+        "Skipped unsupported statement 'CREATE TRIGGER posts_touch AFTER INSERT ON posts BEGIN ...'",
+      ]);
+    });
+  });
+
+  describe('ClickHouse', () => {
+    it('should read nullability, enums and the sorting key', () => {
+      const { tables, schemas, warnings } = importSqlSchema(
+        `
+CREATE TABLE IF NOT EXISTS analytics.events ON CLUSTER main
+(
+    \`id\` UUID DEFAULT generateUUIDv4(),
+    \`user_id\` UInt64,
+    \`level\` Enum8('debug' = 1, 'info' = 2),
+    \`tags\` Array(LowCardinality(String)),
+    \`email\` Nullable(String) CODEC(ZSTD(1)),
+    \`ts\` DateTime64(3, 'UTC') DEFAULT now64(),
+    \`day\` Date MATERIALIZED toDate(ts),
+    INDEX idx_email email TYPE bloom_filter GRANULARITY 4,
+    CONSTRAINT positive_user CHECK user_id > 0
+)
+ENGINE = MergeTree
+PARTITION BY toYYYYMM(ts)
+ORDER BY (user_id, ts)
+SETTINGS index_granularity = 8192;
+`,
+        { dialect: 'clickhouse' }
+      );
+
+      const columns = tables[0]!.columns;
+      expect(columns.find((c) => c.name === 'user_id')?.nullable).toBe(false);
+      expect(columns.find((c) => c.name === 'email')?.nullable).toBe(true);
+      expect(tables[0]!.orderBy).toEqual(['user_id', 'ts']);
+
+      const events = schemas[0]!;
+      expect(events.fields.get('id')).toMatchObject({ type: 'uuid', defaultValue: { function: 'uuid' } });
+      expect(events.fields.get('userId')?.constraints).toEqual({ min: 1 });
+      expect(events.fields.get('level')?.enumValues).toEqual(['debug', 'info']);
+      expect(events.fields.get('tags')?.type).toBe('string');
+      expect(events.fields.get('tags')?.isArray).toBe(true);
+      expect(events.directives.orderBy?.map((key) => key.field)).toEqual(['userId', 'ts']);
+      expect(warnings.map((w) => w.message)).toEqual([
+        'Column events.day is computed (MATERIALIZED); imported as a regular column',
+        'Skipped data skipping index idx_email on table events',
+      ]);
+    });
+  });
+});
+
+describe('ice import sql', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'icetype-import-sql-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write a TypeScript schema file', async () => {
+    const input = join(dir, 'dump.sql');
+    const output = join(dir, 'schema.ts');
+    writeFileSync(input, PG_DUMP);
+
+    await sqlImport([input, '--output', output, '--quiet']);
+
+    const content = readFileSync(output, 'utf-8');
+    expect(content).toContain("import { parseSchema } from '@icetype/core';");
+    expect(content).toContain('$enums: {"Mood":["sad","ok","happy"],"UsersStatus":["active","banned"]},');
+    expect(content).toContain('$constraints: {"email":{"format":"email"},"name":{"maxLength":100},"age":{"min":0,"max":150}},');
+    expect(content).toContain("status: 'enum<UsersStatus> = \"active\"',");
+    expect(content).toContain("createdAt: 'timestamp = now()',");
+    expect(content).toContain("name: 'text?',");
+    expect(content).toContain("mood: 'enum<Mood>? = \"ok\"',");
+    expect(content).toContain("author: '-> users',");
+    expect(content).toContain("posts: '<- posts.author[]',");
+  });
+
+  it('should write JSON for the selected tables', async () => {
+    const input = join(dir, 'schema.sql');
+    const output = join(dir, 'schema.json');
+    writeFileSync(input, 'CREATE TABLE a (id INTEGER PRIMARY KEY);\nCREATE TABLE b (id INTEGER PRIMARY KEY);\n');
+
+    await sqlImport(['--input', input, '--dialect', 'sqlite', '--format', 'json', '--tables', 'b', '-o', output]);
+
+    const { schemas } = JSON.parse(readFileSync(output, 'utf-8')) as { schemas: Array<{ name: string }> };
+    expect(schemas.map((s) => s.name)).toEqual(['b']);
+  });
+
+  it('should reject an unknown dialect', async () => {
+    await expect(sqlImport([join(dir, 'x.sql'), '--dialect', 'oracle'])).rejects.toThrow(
+      /Invalid value 'oracle' for --dialect/
+    );
+  });
+
+  it('should report a missing input file', async () => {
+    await expect(sqlImport([join(dir, 'missing.sql')])).rejects.toThrow(/SQL file not found: .*missing\.sql/);
+  });
+});
@@ -8,6 +8,12 @@
  */
 
 import type { IceTypeSchema, FieldDefinition, SchemaAdapter } from '@icetype/core';
+import {
+  generatePartitionExpression,
+  generateSortKeyExpression,
+  generateTtlClause,
+  parsePartitionBy,
+} from '@icetype/core';
 
 import type {
   ClickHouseDDL,
@@ -19,10 +25,15 @@ import {
   getClickHouseType,
   wrapNullable,
   getArrayType,
+  getEnumType,
+  getTupleType,
+  getNestedType,
 } from './types.js';
 
 import {
+  escapeIdentifier,
   generateCreateTableDDL,
+  generateFieldCheckConstraint,
   inferOrderBy,
 } from './ddl.js';
 
@@ -105,11 +116,19 @@ export class ClickHouseAdapter
       ddl.database = options.database;
     }
 
+    const constraints = this.transformConstraints(tableName, schema.fields);
+    if (constraints.length > 0) {
+      ddl.constraints = constraints;
+    }
+
     if (options?.partitionBy) {
       ddl.partitionBy = options.partitionBy;
     } else if (schema.directives.partitionBy && schema.directives.partitionBy.length > 0) {
       // Try to infer partition from schema directives
-      ddl.partitionBy = this.inferPartitionBy(schema.directives.partitionBy, columns);
+      const partitionBy = this.inferPartitionBy(schema, columns);
+      if (partitionBy) {
+        ddl.partitionBy = partitionBy;
+      }
     }
 
     if (options?.primaryKey) {
@@ -122,6 +141,13 @@ export class ClickHouseAdapter
 
     if (options?.ttl) {
       ddl.ttl = options.ttl;
+    } else if (schema.directives.ttl) {
+      const ttl = schema.directives.ttl;
+      ddl.ttl = generateTtlClause(escapeIdentifier(this.toSnakeCase(ttl.field)), ttl);
+    }
+
+    if (ddl.orderBy.length === 0 && schema.directives.orderBy) {
+      this.applyOrderBy(ddl, schema);
     }
 
     if (options?.versionColumn) {
@@ -178,6 +204,33 @@ export class ClickHouseAdapter
     return columns;
   }
 
+  /**
+   * Transform `$constraints` entries to ClickHouse CHECK constraints.
+   *
+   * @param tableName - The table name, used to name the constraints
+   * @param fields - Map of field definitions
+   * @returns Array of named CHECK constraints
+   */
+  private transformConstraints(
+    tableName: string,
+    fields: Map<string, FieldDefinition>
+  ): Array<{ name: string; expression: string }> {
+    const constraints: Array<{ name: string; expression: string }> = [];
+
+    for (const [, field] of fields) {
+      if (field.relation) {
+        continue;
+      }
+
+      const check = generateFieldCheckConstraint(tableName, this.toSnakeCase(field.name), field);
+      if (check?.name !== undefined) {
+        constraints.push({ name: check.name, expression: check.expression });
+      }
+    }
+
+    return constraints;
+  }
+
   /**
    * Transform a single IceType field to a ClickHouse column.
    *
@@ -187,18 +240,6 @@ export class ClickHouseAdapter
   private transformField(field: FieldDefinition): ClickHouseColumn {
     const name = this.toSnakeCase(field.name);
 
-    // Get the base ClickHouse type
-    let clickHouseType = getClickHouseType(
-      field.type,
-      field.precision,
-      field.scale
-    );
-
-    // Handle arrays
-    if (field.isArray) {
-      clickHouseType = getArrayType(clickHouseType);
-    }
-
     // Determine nullability
     // In IceType:
     // - '!' means required (not nullable)
@@ -206,11 +247,10 @@ export class ClickHouseAdapter
     // - no modifier defaults to not nullable
     const nullable = field.isOptional;
 
-    // Wrap in Nullable if needed
-    if (nullable && !field.isArray) {
-      // Arrays in ClickHouse can contain nulls but the array itself is not nullable
-      clickHouseType = wrapNullable(clickHouseType, true);
-    }
+    // Arrays of structs become Nested columns at the top level
+    const clickHouseType = field.structFields !== undefined && field.isArray
+      ? getNestedType(this.transformStructMembers(field.structFields))
+      : this.getFieldType(field);
 
     const column: ClickHouseColumn = {
       name,
@@ -226,6 +266,58 @@ export class ClickHouseAdapter
     return column;
   }
 
+  /**
+   * Get the full ClickHouse type for a field, including declared enums,
+   * nested structs, arrays and nullability.
+   *
+   * @param field - The field definition
+   * @returns The ClickHouse type string
+   */
+  private getFieldType(field: FieldDefinition): string {
+    // Get the base ClickHouse type
+    let clickHouseType = getClickHouseType(
+      field.type,
+      field.precision,
+      field.scale
+    );
+
+    // Declared enums map to a native Enum8/Enum16
+    if (field.enumValues !== undefined) {
+      clickHouseType = getEnumType(field.enumValues);
+    }
+
+    // Declared structs map to a named Tuple
+    if (field.structFields !== undefined) {
+      clickHouseType = getTupleType(this.transformStructMembers(field.structFields));
+    }
+
+    // Handle arrays
+    if (field.isArray) {
+      clickHouseType = getArrayType(clickHouseType);
+    }
+
+    // Wrap in Nullable if needed
+    if (field.isOptional && !field.isArray && field.structFields === undefined) {
+      // Arrays in ClickHouse can contain nulls but the array itself is not nullable,
+      // and Tuples cannot be wrapped in Nullable
+      clickHouseType = wrapNullable(clickHouseType, true);
+    }
+
+    return clickHouseType;
+  }
+
+  /**
+   * Transform struct fields to Tuple/Nested member declarations.
+   *
+   * @param fields - The struct's field definitions
+   * @returns Member declarations (e.g., "street String")
+   */
+  private transformStructMembers(fields: FieldDefinition[]): string[] {
+    return fields.map(
+      (field) => `${escapeIdentifier(this.toSnakeCase(field.name))} ${this.getFieldType(field)}`
+    );
+  }
+
   /**
    * Convert a camelCase or PascalCase string to snake_case.
    *
@@ -286,46 +378,71 @@ export class ClickHouseAdapter
     return String(value);
   }
 
+  /**
+   * Set the sorting key from the schema's `$orderBy` directive.
+   *
+   * Descending keys need `allow_experimental_reverse_key` and Nullable
+   * key columns `allow_nullable_key`, which are added to the table
+   * settings unless they already set them.
+   */
+  private applyOrderBy(ddl: ClickHouseDDL, schema: IceTypeSchema): void {
+    const orderBy = schema.directives.orderBy ?? [];
+    ddl.orderBy = orderBy.map((key) => {
+      const column = this.toSnakeCase(key.field);
+      if (key.transform === 'identity' && key.direction === 'asc') {
+        return column;
+      }
+      return generateSortKeyExpression(escapeIdentifier(column), key, schema.fields.get(key.field)?.type);
+    });
+
+    if (orderBy.some((key) => key.direction === 'desc')) {
+      ddl.settings = { allow_experimental_reverse_key: 1, ...ddl.settings };
+    }
+    const isNullable = (field: string) =>
+      ddl.columns.some((c) => c.name === this.toSnakeCase(field) && c.type.startsWith('Nullable('));
+    if (orderBy.some((key) => isNullable(key.field))) {
+      ddl.settings = { allow_nullable_key: 1, ...ddl.settings };
+    }
+  }
+
   /**
    * Infer a PARTITION BY expression from schema directives.
    *
-   * @param partitionFields - The partition field names from directives
+   * Each `$partitionBy` key is rendered with its transform, e.g.
+   * `toYYYYMMDD(created_at)` for `day(createdAt)`. Bare DateTime and Date
+   * fields are partitioned by month. Several keys form a tuple. Keys whose
+   * field is not a column are skipped.
+   *
+   * @param schema - The IceType schema
    * @param columns - The column definitions
    * @returns A PARTITION BY expression or undefined
+   * @throws {ParseError} If a transform cannot be applied to its field's type
    */
   private inferPartitionBy(
-    partitionFields: string[],
+    schema: IceTypeSchema,
     columns: ClickHouseColumn[]
   ): string | undefined {
-    if (partitionFields.length === 0) {
-      return undefined;
-    }
-
-    // Get the first partition field
-    const fieldName = partitionFields[0];
-    if (!fieldName) {
-      return undefined;
-    }
-    const snakeName = this.toSnakeCase(fieldName);
+    const keys = parsePartitionBy(schema.directives.partitionBy ?? []).filter((key) =>
+      columns.some((c) => c.name === this.toSnakeCase(key.field))
+    );
+    const expressions = keys.map((key) => {
+      const snakeName = this.toSnakeCase(key.field);
+      if (key.transform !== 'identity') {
+        return generatePartitionExpression(escapeIdentifier(snakeName), key, schema.fields.get(key.field)?.type);
+      }
 
-    // Find the column to determine type
-    const column = columns.find((c) => c.name === snakeName);
-    if (!column) {
+      // Bare DateTime and Date fields are partitioned by month
+      const column = columns.find((c) => c.name === snakeName);
+      if (column && (column.type.includes('DateTime') || column.type === 'Date')) {
+        return `toYYYYMM(${snakeName})`;
+      }
       return snakeName;
-    }
+    });
 
-    // If it's a DateTime type, partition by month
-    if (column.type.includes('DateTime')) {
-      return `toYYYYMM(${snakeName})`;
+    if (expressions.length <= 1) {
+      return expressions[0];
     }
-
-    // If it's a Date type, partition by month
-    if (column.type === 'Date') {
-      return `toYYYYMM(${snakeName})`;
-    }
-
-    // Otherwise, just use the field name
-    return snakeName;
+    return `(${expressions.join(', ')})`;
   }
 }
 
@@ -16,10 +16,14 @@ import {
   formatDefaultValue as formatDefaultValueBase,
   generateSystemColumns as generateSystemColumnsBase,
   serializeColumn as serializeColumnBase,
+  generateFieldCheckConstraint as generateFieldCheckConstraintBase,
   validateSchemaName,
   type SqlColumn,
+  type CheckConstraint,
 } from '@icetype/sql-common';
 
+import type { FieldDefinition } from '@icetype/core';
+
 import type {
   ClickHouseDDL,
   ClickHouseColumn,
@@ -43,6 +47,20 @@ export function escapeIdentifier(identifier: string): string {
   return escapeIdentifierBase(identifier, 'clickhouse');
 }
 
+/**
+ * Format a PRIMARY KEY or ORDER BY entry.
+ *
+ * Plain column names are escaped; expressions such as `toDate(created_at)`
+ * or `created_at DESC` are emitted as-is, so their columns must already be
+ * escaped.
+ *
+ * @param entry - A column name or key expression
+ * @returns The formatted entry
+ */
+function formatKeyExpression(entry: string): string {
+  return entry.includes('(') || /\s(ASC|DESC)$/i.test(entry) ? entry : escapeIdentifier(entry);
+}
+
 /**
  * Format a default value as a SQL expression for ClickHouse.
  *
@@ -84,6 +102,22 @@ export function serializeColumn(column: SqlColumn): string {
   return serializeColumnBase(column, 'clickhouse');
 }
 
+/**
+ * Generate a named CHECK constraint for a field's `$constraints` entry.
+ *
+ * @param tableName - The table name, used to name the constraint
+ * @param columnName - The column name
+ * @param field - The IceType field definition
+ * @returns The check constraint, or undefined if the field is unconstrained
+ */
+export function generateFieldCheckConstraint(
+  tableName: string,
+  columnName: string,
+  field: FieldDefinition
+): CheckConstraint | undefined {
+  return generateFieldCheckConstraintBase(tableName, columnName, field, 'clickhouse');
+}
+
 /**
  * Escape a string value for ClickHouse.
  *
@@ -314,6 +348,12 @@ export function generateCreateTableDDL(ddl: ClickHouseDDL): string {
 
   // Column definitions
   const columnDDLs = ddl.columns.map((col) => `    ${generateColumnDDL(col)}`);
+
+  // CHECK constraints
+  for (const constraint of ddl.constraints ?? []) {
+    columnDDLs.push(`    CONSTRAINT ${escapeIdentifier(constraint.name)} CHECK ${constraint.expression}`);
+  }
+
   lines.push(columnDDLs.join(',\n'));
 
   // Closing parenthesis
@@ -329,13 +369,13 @@ export function generateCreateTableDDL(ddl: ClickHouseDDL): string {
 
   // PRIMARY KEY clause (if different from ORDER BY)
   if (ddl.primaryKey && ddl.primaryKey.length > 0) {
-    const pkCols = ddl.primaryKey.map(escapeIdentifier).join(', ');
+    const pkCols = ddl.primaryKey.map(formatKeyExpression).join(', ');
     lines.push(`PRIMARY KEY (${pkCols})`);
   }
 
   // ORDER BY clause
   if (ddl.orderBy && ddl.orderBy.length > 0) {
-    const orderCols = ddl.orderBy.map(escapeIdentifier).join(', ');
+    const orderCols = ddl.orderBy.map(formatKeyExpression).join(', ');
     lines.push(`ORDER BY (${orderCols})`);
   } else {
     // MergeTree family requires ORDER BY
@@ -71,6 +71,9 @@ export {
   getClickHouseType,
   wrapNullable,
   getArrayType,
+  getEnumType,
+  getTupleType,
+  getNestedType,
 } from './types.js';
 
 // =============================================================================
@@ -87,6 +90,7 @@ export {
   formatDefaultValue,
   generateSystemColumns,
   serializeColumn,
+  generateFieldCheckConstraint,
   generateColumnDDL,
   generateEngineDDL,
   generateCreateTableDDL,
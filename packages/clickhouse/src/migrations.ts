@@ -10,6 +10,7 @@
  * - `ALTER TABLE ... RENAME COLUMN old TO new`
  * - `ALTER TABLE ... MODIFY COLUMN col Type`
  * - `ALTER TABLE ... COMMENT COLUMN col 'comment'`
+ * - `ALTER TABLE ... MODIFY TTL expr` / `REMOVE TTL`
  *
  * Also supports ClickHouse-specific features:
  * - Nullable() wrapper for optional fields
@@ -21,7 +22,8 @@
  * @packageDocumentation
  */
 
-import type { SchemaDiff, SchemaChange, FieldDefinition } from '@icetype/core';
+import type { SchemaDiff, SchemaChange, FieldDefinition, FieldConstraints, TtlDirective } from '@icetype/core';
+import { generateCheckExpression, generateTtlClause, getCheckConstraintName } from '@icetype/core';
 import { validateSchemaName } from '@icetype/sql-common';
 import {
   getClickHouseType,
@@ -316,8 +318,16 @@ export class ClickHouseMigrationGenerator {
         );
 
       case 'change_directive':
-        // Directive changes don't generate ALTER TABLE statements
-        return null;
+        // Only $ttl changes generate ALTER TABLE statements
+        return change.directive === '$ttl'
+          ? this.generateModifyTtl(tableName, change.newValue as TtlDirective | undefined)
+          : null;
+
+      case 'add_constraint':
+        return this.generateAddConstraint(tableName, change.field, change.constraints);
+
+      case 'drop_constraint':
+        return this.generateDropConstraint(tableName, change.field);
 
       default:
         return null;
@@ -355,7 +365,18 @@ export class ClickHouseMigrationGenerator {
         );
 
       case 'change_directive':
-        return null;
+        // Rollback TTL change = restore the old TTL
+        return change.directive === '$ttl'
+          ? this.generateModifyTtl(tableName, change.oldValue as TtlDirective | undefined)
+          : null;
+
+      case 'add_constraint':
+        // Rollback ADD CONSTRAINT = DROP CONSTRAINT
+        return this.generateDropConstraint(tableName, change.field);
+
+      case 'drop_constraint':
+        // Rollback DROP CONSTRAINT = restore the constraint
+        return this.generateAddConstraint(tableName, change.field, change.constraints);
 
       default:
         return null;
@@ -394,6 +415,37 @@ export class ClickHouseMigrationGenerator {
     return parts.join(' ') + getEnding(this.options);
   }
 
+  private generateAddConstraint(
+    tableName: string,
+    fieldName: string,
+    constraints: FieldConstraints
+  ): string | null {
+    const column = formatIdentifier(fieldName, !!this.options.quoteIdentifiers);
+    const expression = generateCheckExpression(column, constraints, 'clickhouse');
+    if (expression === undefined) {
+      return null;
+    }
+
+    const table = formatTableName(tableName, this.options.database, !!this.options.quoteIdentifiers);
+    const name = formatIdentifier(getCheckConstraintName(tableName, fieldName), !!this.options.quoteIdentifiers);
+    return `ALTER TABLE ${table} ADD CONSTRAINT ${name} CHECK ${expression}${getEnding(this.options)}`;
+  }
+
+  private generateModifyTtl(tableName: string, ttl: TtlDirective | undefined): string {
+    const table = formatTableName(tableName, this.options.database, !!this.options.quoteIdentifiers);
+    if (!ttl) {
+      return `ALTER TABLE ${table} REMOVE TTL${getEnding(this.options)}`;
+    }
+    const column = formatIdentifier(ttl.field, !!this.options.quoteIdentifiers);
+    return `ALTER TABLE ${table} MODIFY TTL ${generateTtlClause(column, ttl)}${getEnding(this.options)}`;
+  }
+
+  private generateDropConstraint(tableName: string, fieldName: string): string {
+    const table = formatTableName(tableName, this.options.database, !!this.options.quoteIdentifiers);
+    const name = formatIdentifier(getCheckConstraintName(tableName, fieldName), !!this.options.quoteIdentifiers);
+    return `ALTER TABLE ${table} DROP CONSTRAINT ${name}${getEnding(this.options)}`;
+  }
+
   private generateDropColumn(tableName: string, fieldName: string): string {
     const table = formatTableName(tableName, this.options.database, !!this.options.quoteIdentifiers);
     const column = formatIdentifier(fieldName, !!this.options.quoteIdentifiers);
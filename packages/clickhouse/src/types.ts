@@ -55,7 +55,7 @@ export type ClickHouseEngine =
 export interface ClickHouseTableOptions {
   /** The table engine to use (defaults to MergeTree) */
   engine?: ClickHouseEngine;
-  /** Columns for ORDER BY clause (required for MergeTree family) */
+  /** Columns or key expressions for ORDER BY (overrides the schema's `$orderBy`) */
   orderBy?: string[];
   /** Expression for PARTITION BY clause */
   partitionBy?: string;
@@ -71,7 +71,7 @@ export interface ClickHouseTableOptions {
   database?: string;
   /** Create table if not exists */
   ifNotExists?: boolean;
-  /** TTL expression for data expiration */
+  /** TTL expression for data expiration (overrides the schema's `$ttl`) */
   ttl?: string;
   /** Primary key columns (defaults to orderBy if not specified) */
   primaryKey?: string[];
@@ -144,9 +144,14 @@ export interface ClickHouseDDL {
   database?: string;
   /** Column definitions */
   columns: ClickHouseColumn[];
+  /** CHECK constraints, enforced on INSERT */
+  constraints?: Array<{
+    name: string;
+    expression: string;
+  }>;
   /** Table engine */
   engine: ClickHouseEngine;
-  /** ORDER BY columns */
+  /** ORDER BY columns or key expressions (e.g. `toDate(created_at) DESC`) */
   orderBy: string[];
   /** PARTITION BY expression */
   partitionBy?: string;
@@ -285,3 +290,38 @@ export function wrapNullable(type: string, nullable: boolean): string {
 export function getArrayType(elementType: string): string {
   return `Array(${elementType})`;
 }
+
+/**
+ * Get the Enum type for a list of enum values.
+ *
+ * Values are numbered from 1 in declaration order. Enum8 is used when the
+ * values fit its Int8 range, Enum16 otherwise.
+ *
+ * @param values - The enum values
+ * @returns The Enum8/Enum16 type string
+ */
+export function getEnumType(values: string[]): string {
+  const enumType = values.length <= 127 ? 'Enum8' : 'Enum16';
+  const members = values.map((value, i) => `'${value.replace(/'/g, "''")}' = ${i + 1}`);
+  return `${enumType}(${members.join(', ')})`;
+}
+
+/**
+ * Get the Tuple type for a struct's members.
+ *
+ * @param members - Member declarations (e.g., "street String")
+ * @returns The named Tuple type string
+ */
+export function getTupleType(members: string[]): string {
+  return `Tuple(${members.join(', ')})`;
+}
+
+/**
+ * Get the Nested type for an array of structs.
+ *
+ * @param members - Member declarations (e.g., "street String")
+ * @returns The Nested type string
+ */
+export function getNestedType(members: string[]): string {
+  return `Nested(${members.join(', ')})`;
+}
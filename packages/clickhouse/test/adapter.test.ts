@@ -13,6 +13,7 @@ import { parseSchema } from '@icetype/core';
 import {
   ClickHouseAdapter,
   createClickHouseAdapter,
+  getEnumType,
   getClickHouseType,
   wrapNullable,
   getArrayType,
@@ -902,6 +903,35 @@ describe('ClickHouseAdapter', () => {
     expect(ddl.partitionBy).toBe('toYYYYMM(created_at)');
   });
 
+  it('should apply $partitionBy transforms', () => {
+    const schema = parseSchema({
+      $type: 'Event',
+      $partitionBy: ['day(createdAt)', 'bucket(8, userId)'],
+      id: 'uuid!',
+      userId: 'uuid!',
+      createdAt: 'timestamp!',
+    });
+
+    const adapter = new ClickHouseAdapter();
+    const ddl = adapter.transform(schema);
+
+    expect(ddl.partitionBy).toBe('(toYYYYMMDD(created_at), cityHash64(user_id) % 8)');
+    expect(adapter.serialize(ddl)).toContain('PARTITION BY (toYYYYMMDD(created_at), cityHash64(user_id) % 8)');
+  });
+
+  it('should skip $partitionBy keys without a column and reject invalid transforms', () => {
+    const adapter = new ClickHouseAdapter();
+    const missing = parseSchema({
+      $type: 'Event',
+      $partitionBy: ['nope', 'day(createdAt)'],
+      createdAt: 'timestamp!',
+    });
+    const invalid = parseSchema({ $type: 'Event', $partitionBy: ['hour(day)'], day: 'date!' });
+
+    expect(adapter.transform(missing).partitionBy).toBe('toYYYYMMDD(created_at)');
+    expect(() => adapter.transform(invalid)).toThrow("Cannot partition by 'hour(day)': field 'day' is date");
+  });
+
   it('should handle decimal types with precision', () => {
     const schema = parseSchema({
       $type: 'Product',
@@ -1186,3 +1216,164 @@ describe('ClickHouse database name validation', () => {
     }).toThrow(InvalidSchemaNameError);
   });
 });
+
+describe('ClickHouseAdapter enum types', () => {
+  const schema = parseSchema({
+    $type: 'User',
+    $enums: { Status: ['active', 'inactive'] },
+    status: "enum<Status> = 'active'",
+    history: 'enum<Status>[]',
+  });
+
+  it('should map declared enums to Enum8', () => {
+    const ddl = new ClickHouseAdapter().transform(schema);
+    expect(ddl.columns.find(c => c.name === 'status')?.type).toBe("Enum8('active' = 1, 'inactive' = 2)");
+    expect(ddl.columns.find(c => c.name === 'history')?.type).toBe(
+      "Array(Enum8('active' = 1, 'inactive' = 2))"
+    );
+  });
+
+  it('should switch to Enum16 for more than 127 values', () => {
+    const values = Array.from({ length: 200 }, (_, i) => `v${i}`);
+    expect(getEnumType(values)).toMatch(/^Enum16\('v0' = 1, /);
+    expect(getEnumType(values)).toContain("'v199' = 200");
+  });
+
+  it('should escape quotes in enum values', () => {
+    expect(getEnumType(["it's"])).toBe("Enum8('it''s' = 1)");
+  });
+});
+
+describe('ClickHouseAdapter struct types', () => {
+  const schema = parseSchema({
+    $type: 'Customer',
+    $structs: {
+      Geo: { lat: 'double', lng: 'double' },
+      Address: { streetName: 'string!', zip: 'int?', geo: 'struct<Geo>', tags: 'string[]' },
+    },
+    address: 'struct<Address>?',
+    previous: 'struct<Address>[]',
+  });
+
+  it('should map struct<Name> fields to named Tuples', () => {
+    const ddl = new ClickHouseAdapter().transform(schema);
+    expect(ddl.columns.find(c => c.name === 'address')?.type).toBe(
+      'Tuple(street_name String, zip Nullable(Int32), geo Tuple(lat Float64, lng Float64), tags Array(String))'
+    );
+  });
+
+  it('should map struct arrays to Nested columns', () => {
+    const ddl = new ClickHouseAdapter().transform(schema);
+    expect(ddl.columns.find(c => c.name === 'previous')?.type).toBe(
+      'Nested(street_name String, zip Nullable(Int32), geo Tuple(lat Float64, lng Float64), tags Array(String))'
+    );
+  });
+
+  it('should fall back to String for undeclared structs', () => {
+    const ddl = new ClickHouseAdapter().transform(parseSchema({ $type: 'User', address: 'struct<Address>' }));
+    expect(ddl.columns.find(c => c.name === 'address')?.type).toBe('String');
+  });
+});
+
+describe('ClickHouseAdapter field constraints', () => {
+  it('should generate CONSTRAINT ... CHECK clauses with snake_case columns', () => {
+    const adapter = new ClickHouseAdapter();
+    const schema = parseSchema({
+      $type: 'UserEvent',
+      $constraints: { retryCount: { min: 0, max: 10 }, code: { pattern: '^\\d+$' } },
+      retryCount: 'int',
+      code: 'string',
+    });
+
+    const ddl = adapter.transform(schema);
+    expect(ddl.constraints).toEqual([
+      { name: 'user_event_retry_count_check', expression: 'retry_count >= 0 AND retry_count <= 10' },
+      { name: 'user_event_code_check', expression: "match(code, '^\\\\d+$')" },
+    ]);
+
+    const sql = adapter.serialize(ddl);
+    expect(sql).toContain('    CONSTRAINT user_event_retry_count_check CHECK retry_count >= 0 AND retry_count <= 10');
+    expect(sql.indexOf('CONSTRAINT')).toBeLessThan(sql.indexOf(')\nENGINE'));
+  });
+});
+
+describe('ClickHouseAdapter $ttl', () => {
+  it('should emit the schema TTL with snake_case columns', () => {
+    const adapter = new ClickHouseAdapter();
+    const schema = parseSchema({
+      $type: 'PageView',
+      $ttl: { field: 'viewedAt', delete: '90d', moveToVolume: { cold: '7d' } },
+      id: 'uuid!',
+      viewedAt: 'timestamp!',
+    });
+
+    const ddl = adapter.transform(schema);
+    expect(ddl.ttl).toBe("viewed_at + INTERVAL 7 DAY TO VOLUME 'cold', viewed_at + INTERVAL 90 DAY");
+    expect(adapter.serialize(ddl)).toContain("TTL viewed_at + INTERVAL 7 DAY TO VOLUME 'cold', viewed_at + INTERVAL 90 DAY");
+  });
+
+  it('should prefer the ttl option over the schema TTL', () => {
+    const adapter = new ClickHouseAdapter();
+    const schema = parseSchema({ $type: 'PageView', $ttl: 'viewedAt + 90d', viewedAt: 'timestamp!' });
+
+    expect(adapter.transform(schema, { ttl: 'viewed_at + INTERVAL 1 DAY' }).ttl).toBe('viewed_at + INTERVAL 1 DAY');
+  });
+});
+
+describe('ClickHouseAdapter $orderBy', () => {
+  it('should build the sorting key from the schema sort order', () => {
+    const adapter = new ClickHouseAdapter();
+    const schema = parseSchema({
+      $type: 'PageView',
+      $orderBy: ['tenantId', 'day(viewedAt) DESC', 'bucket(8, userId)'],
+      tenantId: 'string!',
+      userId: 'uuid!',
+      viewedAt: 'timestamp!',
+    });
+
+    const ddl = adapter.transform(schema);
+    expect(ddl.orderBy).toEqual(['tenant_id', 'toDate(viewed_at) DESC', 'cityHash64(user_id) % 8']);
+    expect(ddl.settings).toEqual({ allow_experimental_reverse_key: 1 });
+
+    const sql = adapter.serialize(ddl);
+    expect(sql).toContain('ORDER BY (tenant_id, toDate(viewed_at) DESC, cityHash64(user_id) % 8)');
+    expect(sql).toContain('allow_experimental_reverse_key = 1');
+  });
+
+  it('should escape columns inside key expressions and keep explicit settings', () => {
+    const adapter = new ClickHouseAdapter();
+    const schema = parseSchema({ $type: 'PageView', $orderBy: ['order DESC'], order: 'int!' });
+
+    const ddl = adapter.transform(schema, { settings: { allow_experimental_reverse_key: 0 } });
+    expect(ddl.orderBy).toEqual(['`order` DESC']);
+    expect(ddl.settings).toEqual({ allow_experimental_reverse_key: 0 });
+    expect(adapter.serialize(ddl)).toContain('ORDER BY (`order` DESC)');
+  });
+
+  it('should allow nullable key columns when a sort field is optional', () => {
+    const adapter = new ClickHouseAdapter();
+    const schema = parseSchema({
+      $type: 'PageView',
+      $orderBy: ['tenantId', 'viewedAt DESC'],
+      tenantId: 'string!',
+      viewedAt: 'timestamp?',
+    });
+
+    const ddl = adapter.transform(schema);
+    expect(ddl.columns.find((c) => c.name === 'viewed_at')?.type).toMatch(/^Nullable\(/);
+    expect(ddl.settings).toEqual({ allow_nullable_key: 1, allow_experimental_reverse_key: 1 });
+    expect(adapter.serialize(ddl)).toContain('allow_nullable_key = 1');
+
+    const required = parseSchema({ $type: 'PageView', $orderBy: ['tenantId'], tenantId: 'string!', note: 'string?' });
+    expect(adapter.transform(required).settings).toBeUndefined();
+  });
+
+  it('should prefer the orderBy option over the schema sort order', () => {
+    const adapter = new ClickHouseAdapter();
+    const schema = parseSchema({ $type: 'PageView', $orderBy: ['viewedAt DESC'], id: 'uuid!', viewedAt: 'timestamp!' });
+
+    const ddl = adapter.transform(schema, { orderBy: ['id'] });
+    expect(ddl.orderBy).toEqual(['id']);
+    expect(ddl.settings).toBeUndefined();
+  });
+});
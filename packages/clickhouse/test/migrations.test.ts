@@ -897,3 +897,69 @@ describe('ClickHouseMigrationGenerator - Multiple Changes', () => {
     expect(statements[1]).toBe('ALTER TABLE users DROP COLUMN email;');
   });
 });
+
+// =============================================================================
+// Constraint Tests
+// =============================================================================
+
+describe('ClickHouseMigrationGenerator - constraints', () => {
+  it('should generate ADD and DROP CONSTRAINT statements', () => {
+    const generator = new ClickHouseMigrationGenerator();
+    const diff: SchemaDiff = {
+      schemaName: 'users',
+      changes: [
+        { type: 'drop_constraint', field: 'age', constraints: { min: 0 } },
+        { type: 'add_constraint', field: 'age', constraints: { min: 0, max: 150 } },
+      ],
+      isBreaking: true,
+    };
+
+    expect(generator.generate(diff)).toEqual([
+      'ALTER TABLE users DROP CONSTRAINT users_age_check;',
+      'ALTER TABLE users ADD CONSTRAINT users_age_check CHECK age >= 0 AND age <= 150;',
+    ]);
+    expect(generator.generateRollback(diff)).toEqual([
+      'ALTER TABLE users DROP CONSTRAINT users_age_check;',
+      'ALTER TABLE users ADD CONSTRAINT users_age_check CHECK age >= 0;',
+    ]);
+  });
+});
+
+describe('ClickHouseMigrationGenerator - TTL', () => {
+  it('should generate MODIFY TTL and restore the old TTL on rollback', () => {
+    const generator = new ClickHouseMigrationGenerator();
+    const diff: SchemaDiff = {
+      schemaName: 'page_views',
+      changes: [
+        {
+          type: 'change_directive',
+          directive: '$ttl',
+          oldValue: { field: 'created_at', actions: [{ type: 'delete', after: { amount: 30, unit: 'day' } }] },
+          newValue: { field: 'created_at', actions: [{ type: 'delete', after: { amount: 90, unit: 'day' } }] },
+        },
+      ],
+      isBreaking: false,
+    };
+
+    expect(generator.generate(diff)).toEqual(['ALTER TABLE page_views MODIFY TTL created_at + INTERVAL 90 DAY;']);
+    expect(generator.generateRollback(diff)).toEqual(['ALTER TABLE page_views MODIFY TTL created_at + INTERVAL 30 DAY;']);
+  });
+
+  it('should generate REMOVE TTL when the TTL is dropped', () => {
+    const generator = new ClickHouseMigrationGenerator();
+    const diff: SchemaDiff = {
+      schemaName: 'page_views',
+      changes: [
+        {
+          type: 'change_directive',
+          directive: '$ttl',
+          oldValue: { field: 'created_at', actions: [{ type: 'delete', after: { amount: 30, unit: 'day' } }] },
+          newValue: undefined,
+        },
+      ],
+      isBreaking: false,
+    };
+
+    expect(generator.generate(diff)).toEqual(['ALTER TABLE page_views REMOVE TTL;']);
+  });
+});
@@ -399,6 +399,41 @@ export interface IcebergAdapterOptions {
    * ```
    */
   properties?: Record<string, string>;
+
+  /**
+   * Iceberg table format version (default: 2).
+   *
+   * Version 3 adds column defaults and the `variant` type: field defaults
+   * are written as `initial-default` and `write-default`, and `json`
+   * fields become `variant` columns instead of strings. Earlier versions
+   * have no column defaults, so field defaults are not written.
+   */
+  formatVersion?: 1 | 2 | 3;
+
+  /**
+   * Fields that identify a row, written as the schema's
+   * `identifier-field-ids` (default: `['$id']`).
+   *
+   * Identifier fields must be required top-level columns of a primitive,
+   * non-floating-point type, e.g. a `uuid!` primary key.
+   */
+  identifierFields?: string[];
+
+  /**
+   * Default file format for writes (`write.format.default`, default: parquet).
+   */
+  writeFormat?: 'parquet' | 'avro' | 'orc';
+
+  /**
+   * Compression codec for the write format, e.g. `zstd` or `snappy`
+   * (`write.<format>.compression-codec`, default: snappy for Parquet).
+   */
+  compressionCodec?: string;
+
+  /**
+   * Target size of data files in bytes (`write.target-file-size-bytes`).
+   */
+  targetFileSizeBytes?: number;
 }
 
 /**
@@ -425,4 +460,30 @@ export interface ParquetAdapterOptions {
    * @default 'object'
    */
   format?: 'object' | 'string';
+
+  /**
+   * Unit of `timestamp`, `timestamptz` and `time` columns. Millisecond
+   * times are stored as INT32, all other times and timestamps as INT64.
+   *
+   * @default 'millis'
+   */
+  timestampUnit?: 'millis' | 'micros' | 'nanos';
+
+  /**
+   * Store timestamps as legacy INT96 values, for older Spark, Hive and
+   * Impala readers. Overrides `timestampUnit` for timestamps.
+   *
+   * @default false
+   */
+  int96Timestamps?: boolean;
+
+  /**
+   * Annotate columns with LogicalType only, leaving out the legacy
+   * ConvertedType that older readers need. DuckDB still reads strings and
+   * decimals through ConvertedType, as raw bytes and unscaled integers
+   * without it.
+   *
+   * @default false
+   */
+  logicalTypesOnly?: boolean;
 }
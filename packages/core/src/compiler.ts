@@ -32,6 +32,7 @@
  * @packageDocumentation
  */
 
+import { Graph } from '@graphdl/core';
 import type { ParsedGraph, ParsedEntity, ParsedField, EntityDirectives } from '@graphdl/core';
 import type {
   IceTypeSchema,
@@ -42,7 +43,14 @@ import type {
   SchemaDirectives,
   IndexDirective,
   VectorDirective,
+  EnumDirective,
+  StructDirective,
+  FieldConstraints,
 } from './types.js';
+import { parseFieldConstraints } from './constraints.js';
+import { parseTtlDirective } from './ttl.js';
+import { parseOrderByDirective } from './order-by.js';
+import { parsePartitionBy } from './partition.js';
 
 // =============================================================================
 // Types
@@ -287,6 +295,8 @@ function convertDirectives(directives?: EntityDirectives): SchemaDirectives {
   const partitionBy = getDirective<unknown>(directives, 'partitionBy');
   if (partitionBy) {
     if (Array.isArray(partitionBy) && partitionBy.every((v): v is string => typeof v === 'string')) {
+      // Reject malformed keys such as 'bucket(userId)' up front
+      parsePartitionBy(partitionBy);
       result.partitionBy = partitionBy;
     }
   }
@@ -334,9 +344,145 @@ function convertDirectives(directives?: EntityDirectives): SchemaDirectives {
     }
   }
 
+  // $enums
+  const enums = getDirective<unknown>(directives, 'enums');
+  if (enums) {
+    if (typeof enums === 'object' && !Array.isArray(enums)) {
+      const enumDirs: EnumDirective[] = [];
+      for (const [name, values] of Object.entries(enums)) {
+        if (Array.isArray(values) && values.every((v): v is string => typeof v === 'string')) {
+          enumDirs.push({
+            name,
+            values,
+          });
+        }
+      }
+      if (enumDirs.length > 0) {
+        result.enums = enumDirs;
+      }
+    }
+  }
+
+  // $structs
+  const structs = getDirective<unknown>(directives, 'structs');
+  if (structs) {
+    if (typeof structs === 'object' && !Array.isArray(structs)) {
+      const structDirs: StructDirective[] = [];
+      for (const [name, definition] of Object.entries(structs)) {
+        const fields = parseStructDefinition(name, definition);
+        if (fields) {
+          structDirs.push({
+            name,
+            fields,
+          });
+        }
+      }
+      if (structDirs.length > 0) {
+        result.structs = structDirs;
+      }
+    }
+  }
+
+  // $constraints
+  const constraints = getDirective<unknown>(directives, 'constraints');
+  if (constraints) {
+    if (typeof constraints === 'object' && !Array.isArray(constraints)) {
+      const fieldConstraints: Record<string, FieldConstraints> = {};
+      for (const [fieldName, value] of Object.entries(constraints)) {
+        const parsed = parseFieldConstraints(value);
+        if (parsed) {
+          fieldConstraints[fieldName] = parsed;
+        }
+      }
+      if (Object.keys(fieldConstraints).length > 0) {
+        result.constraints = fieldConstraints;
+      }
+    }
+  }
+
+  // $ttl
+  const ttl = getDirective<unknown>(directives, 'ttl');
+  if (ttl !== undefined) {
+    result.ttl = parseTtlDirective(ttl);
+  }
+
+  // $orderBy
+  const orderBy = getDirective<unknown>(directives, 'orderBy');
+  if (orderBy !== undefined) {
+    result.orderBy = parseOrderByDirective(orderBy);
+  }
+
   return result;
 }
 
+/**
+ * Parse the body of a `$structs` entry into field definitions.
+ *
+ * Struct bodies use the same field syntax as entities, so they are parsed
+ * through GraphDL as a standalone entity.
+ *
+ * @param name - The struct name
+ * @param definition - The struct body ({ field: 'type', ... })
+ * @returns The struct fields, or undefined if the body is not a field map
+ */
+export function parseStructDefinition(name: string, definition: unknown): FieldDefinition[] | undefined {
+  if (typeof definition !== 'object' || definition === null || Array.isArray(definition)) {
+    return undefined;
+  }
+
+  const body: Record<string, string> = {};
+  for (const [fieldName, type] of Object.entries(definition)) {
+    if (fieldName.startsWith('$')) continue;
+    if (typeof type !== 'string') return undefined;
+    body[fieldName] = type;
+  }
+
+  const entity = Graph({ [name]: body }).entities.get(name);
+  if (!entity) {
+    return undefined;
+  }
+
+  return Array.from(entity.fields.values(), fieldToDefinition);
+}
+
+/**
+ * Resolve named enum and struct references on a field against the
+ * schema directives, so adapters can emit native types without looking
+ * up the directives themselves.
+ *
+ * Struct fields are copied and resolved recursively. A struct that
+ * (directly or indirectly) contains itself is left unresolved at the
+ * point of recursion; validation reports it.
+ *
+ * @param definition - The field definition to resolve in place
+ * @param directives - The schema directives
+ * @param structPath - Names of the structs currently being resolved
+ */
+function resolveFieldTypes(
+  definition: FieldDefinition,
+  directives: SchemaDirectives,
+  structPath: string[] = []
+): void {
+  if (definition.enumName !== undefined) {
+    const declared = directives.enums?.find((e) => e.name === definition.enumName);
+    if (declared) {
+      definition.enumValues = [...declared.values];
+    }
+  }
+
+  if (definition.structName !== undefined && !structPath.includes(definition.structName)) {
+    const declared = directives.structs?.find((s) => s.name === definition.structName);
+    if (declared) {
+      const nestedPath = [...structPath, declared.name];
+      definition.structFields = declared.fields.map((field) => {
+        const nested = { ...field };
+        resolveFieldTypes(nested, directives, nestedPath);
+        return nested;
+      });
+    }
+  }
+}
+
 /**
  * Convert a ParsedEntity to an IceTypeSchema.
  *
@@ -347,6 +493,8 @@ export function entityToIceType(entity: ParsedEntity): IceTypeSchema {
   const fields = new Map<string, FieldDefinition>();
   const relations = new Map<string, RelationDefinition>();
 
+  const directives = convertDirectives(entity.directives);
+
   for (const [fieldName, field] of entity.fields) {
     const definition = fieldToDefinition(field);
     fields.set(fieldName, definition);
@@ -354,9 +502,15 @@ export function entityToIceType(entity: ParsedEntity): IceTypeSchema {
     if (definition.relation) {
       relations.set(fieldName, definition.relation);
     }
+
+    resolveFieldTypes(definition, directives);
+
+    const constraints = directives.constraints?.[fieldName];
+    if (constraints) {
+      definition.constraints = { ...constraints };
+    }
   }
 
-  const directives = convertDirectives(entity.directives);
   const now = Date.now();
 
   return {
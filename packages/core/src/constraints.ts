@@ -0,0 +1,223 @@
+/**
+ * Field Value Constraints for IceType
+ *
+ * Field constraints are declared in the `$constraints` directive:
+ *
+ * ```typescript
+ * {
+ *   $type: 'User',
+ *   $constraints: {
+ *     age: { min: 0, max: 150 },
+ *     slug: { pattern: '^[a-z0-9-]+$', maxLength: 64 },
+ *     email: { format: 'email' },
+ *   },
+ *   age: 'int',
+ *   slug: 'string!',
+ *   email: 'string#',
+ * }
+ * ```
+ *
+ * This module parses those declarations and renders them as SQL CHECK
+ * expressions for each dialect.
+ *
+ * @packageDocumentation
+ */
+
+import type { FieldConstraints, FieldFormat } from './types.js';
+import type { Dialect } from './unified-type-mappings.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * SQL dialects that CHECK expressions can be rendered for.
+ */
+export type CheckDialect = Exclude<Dialect, 'iceberg'>;
+
+// =============================================================================
+// Formats
+// =============================================================================
+
+/**
+ * Regular expressions for each named format.
+ *
+ * The patterns avoid backslash escapes so they can be embedded unchanged
+ * in every dialect's string literals and in JavaScript.
+ */
+export const FIELD_FORMAT_PATTERNS: Readonly<Record<FieldFormat, string>> = {
+  email: '^[^@ ]+@[^@ ]+[.][^@ ]+$',
+  url: '^https?://[^ ]+$',
+  uuid: '^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$',
+  hostname: '^[A-Za-z0-9]([A-Za-z0-9-]*[A-Za-z0-9])?([.][A-Za-z0-9]([A-Za-z0-9-]*[A-Za-z0-9])?)*$',
+  ipv4: '^(25[0-5]|2[0-4][0-9]|1?[0-9]?[0-9])([.](25[0-5]|2[0-4][0-9]|1?[0-9]?[0-9])){3}$',
+};
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse a raw `$constraints` entry into field constraints.
+ *
+ * Keys with values of the wrong type are ignored.
+ *
+ * @param value - The raw constraint object
+ * @returns The parsed constraints, or undefined if none are valid
+ */
+export function parseFieldConstraints(value: unknown): FieldConstraints | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return undefined;
+  }
+
+  const raw = value as Record<string, unknown>;
+  const constraints: FieldConstraints = {};
+
+  for (const key of ['min', 'max', 'minLength', 'maxLength'] as const) {
+    const n = raw[key];
+    if (typeof n === 'number' && Number.isFinite(n)) {
+      constraints[key] = n;
+    }
+  }
+
+  if (typeof raw.pattern === 'string') {
+    constraints.pattern = raw.pattern;
+  }
+
+  if (typeof raw.format === 'string' && raw.format in FIELD_FORMAT_PATTERNS) {
+    constraints.format = raw.format as FieldFormat;
+  }
+
+  return hasFieldConstraints(constraints) ? constraints : undefined;
+}
+
+/**
+ * Check whether a constraints object declares any constraint.
+ */
+export function hasFieldConstraints(constraints: FieldConstraints | undefined): constraints is FieldConstraints {
+  return constraints !== undefined && Object.keys(constraints).length > 0;
+}
+
+/**
+ * Check whether two constraint declarations are equivalent.
+ */
+export function fieldConstraintsEqual(
+  a: FieldConstraints | undefined,
+  b: FieldConstraints | undefined
+): boolean {
+  const left = hasFieldConstraints(a) ? a : {};
+  const right = hasFieldConstraints(b) ? b : {};
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]) as Set<keyof FieldConstraints>;
+  for (const key of keys) {
+    if (left[key] !== right[key]) return false;
+  }
+  return true;
+}
+
+// =============================================================================
+// CHECK Expressions
+// =============================================================================
+
+/**
+ * Get the name of the CHECK constraint generated for a field.
+ *
+ * Follows PostgreSQL's default naming (`<table>_<column>_check`) so that
+ * migrations can drop the constraint by name.
+ *
+ * @param tableName - The table name
+ * @param columnName - The column name
+ * @returns The constraint name
+ */
+export function getCheckConstraintName(tableName: string, columnName: string): string {
+  return `${tableName}_${columnName}_check`;
+}
+
+/**
+ * Render field constraints as a SQL boolean expression.
+ *
+ * SQLite has no built-in regular expression function, so `pattern` and
+ * `format` are omitted for SQLite.
+ *
+ * @param column - The column reference, already escaped for the dialect
+ * @param constraints - The field constraints
+ * @param dialect - The SQL dialect
+ * @returns The expression, or undefined if nothing applies to the dialect
+ *
+ * @example
+ * ```typescript
+ * generateCheckExpression('age', { min: 0, max: 150 }, 'postgres');
+ * // 'age >= 0 AND age <= 150'
+ * ```
+ */
+export function generateCheckExpression(
+  column: string,
+  constraints: FieldConstraints,
+  dialect: CheckDialect
+): string | undefined {
+  const parts: string[] = [];
+
+  if (constraints.min !== undefined) {
+    parts.push(`${column} >= ${constraints.min}`);
+  }
+  if (constraints.max !== undefined) {
+    parts.push(`${column} <= ${constraints.max}`);
+  }
+
+  const length = `${lengthFunction(dialect)}(${column})`;
+  if (constraints.minLength !== undefined) {
+    parts.push(`${length} >= ${constraints.minLength}`);
+  }
+  if (constraints.maxLength !== undefined) {
+    parts.push(`${length} <= ${constraints.maxLength}`);
+  }
+
+  if (dialect !== 'sqlite') {
+    if (constraints.pattern !== undefined) {
+      parts.push(regexMatch(column, constraints.pattern, dialect));
+    }
+    if (constraints.format !== undefined) {
+      parts.push(regexMatch(column, FIELD_FORMAT_PATTERNS[constraints.format], dialect));
+    }
+  }
+
+  return parts.length > 0 ? parts.join(' AND ') : undefined;
+}
+
+/**
+ * Get the character-length function for a dialect.
+ */
+function lengthFunction(dialect: CheckDialect): string {
+  switch (dialect) {
+    case 'postgres':
+      return 'char_length';
+    case 'mysql':
+      return 'CHAR_LENGTH';
+    case 'clickhouse':
+      return 'lengthUTF8';
+    case 'sqlite':
+    case 'duckdb':
+      return 'length';
+  }
+}
+
+/**
+ * Render a regular expression match for a dialect.
+ */
+function regexMatch(column: string, pattern: string, dialect: Exclude<CheckDialect, 'sqlite'>): string {
+  // MySQL and ClickHouse treat backslash as an escape character in string literals
+  const escaped = dialect === 'mysql' || dialect === 'clickhouse'
+    ? pattern.replace(/\\/g, '\\\\').replace(/'/g, "''")
+    : pattern.replace(/'/g, "''");
+  const literal = `'${escaped}'`;
+
+  switch (dialect) {
+    case 'postgres':
+      return `${column} ~ ${literal}`;
+    case 'mysql':
+      return `${column} REGEXP ${literal}`;
+    case 'duckdb':
+      return `regexp_matches(${column}, ${literal})`;
+    case 'clickhouse':
+      return `match(${column}, ${literal})`;
+  }
+}
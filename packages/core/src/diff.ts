@@ -9,11 +9,15 @@
  * - Type changes
  * - Modifier changes
  * - Directive changes
+ * - Field constraint changes
  *
  * @packageDocumentation
  */
 
-import type { IceTypeSchema, FieldDefinition, SchemaDirectives } from './types.js';
+import type { IceTypeSchema, FieldDefinition, FieldConstraints, SchemaDirectives } from './types.js';
+import { fieldConstraintsEqual, hasFieldConstraints } from './constraints.js';
+import { ttlDirectivesEqual } from './ttl.js';
+import { orderByEqual } from './order-by.js';
 
 // =============================================================================
 // Types
@@ -28,7 +32,9 @@ export type SchemaChange =
   | { type: 'rename_field'; oldName: string; newName: string }
   | { type: 'change_type'; field: string; oldType: string; newType: string }
   | { type: 'change_modifier'; field: string; oldModifier: string; newModifier: string }
-  | { type: 'change_directive'; directive: string; oldValue: unknown; newValue: unknown };
+  | { type: 'change_directive'; directive: string; oldValue: unknown; newValue: unknown }
+  | { type: 'add_constraint'; field: string; constraints: FieldConstraints }
+  | { type: 'drop_constraint'; field: string; constraints: FieldConstraints };
 
 /**
  * Represents the difference between two schema versions.
@@ -128,6 +134,30 @@ function detectDirectiveChanges(
     });
   }
 
+  // Check $ttl
+  const oldTtl = oldDirectives.ttl;
+  const newTtl = newDirectives.ttl;
+  if (!ttlDirectivesEqual(oldTtl, newTtl)) {
+    changes.push({
+      type: 'change_directive',
+      directive: '$ttl',
+      oldValue: oldTtl,
+      newValue: newTtl,
+    });
+  }
+
+  // Check $orderBy
+  const oldOrderBy = oldDirectives.orderBy;
+  const newOrderBy = newDirectives.orderBy;
+  if (!orderByEqual(oldOrderBy, newOrderBy)) {
+    changes.push({
+      type: 'change_directive',
+      directive: '$orderBy',
+      oldValue: oldOrderBy,
+      newValue: newOrderBy,
+    });
+  }
+
   return changes;
 }
 
@@ -160,6 +190,13 @@ function isBreakingChange(change: SchemaChange): boolean {
       // Directive changes are generally not breaking
       return false;
 
+    case 'add_constraint':
+      // Existing rows may violate a new constraint
+      return true;
+
+    case 'drop_constraint':
+      return false;
+
     default:
       return false;
   }
@@ -227,6 +264,16 @@ export function diffSchemas(oldSchema: IceTypeSchema, newSchema: IceTypeSchema):
           newModifier,
         });
       }
+
+      // Check constraint change (replaced by dropping and re-adding)
+      if (!fieldConstraintsEqual(oldField.constraints, newField.constraints)) {
+        if (hasFieldConstraints(oldField.constraints)) {
+          changes.push({ type: 'drop_constraint', field: fieldName, constraints: oldField.constraints });
+        }
+        if (hasFieldConstraints(newField.constraints)) {
+          changes.push({ type: 'add_constraint', field: fieldName, constraints: newField.constraints });
+        }
+      }
     }
   }
 
@@ -301,6 +348,7 @@ export function diffSchemas(oldSchema: IceTypeSchema, newSchema: IceTypeSchema):
   }
 
   // Add remaining added fields as add_field changes
+  const newConstraints = new Set<SchemaChange>();
   for (const [fieldName, fieldDef] of addedCandidates) {
     if (!usedAdded.has(fieldName)) {
       changes.push({
@@ -308,6 +356,11 @@ export function diffSchemas(oldSchema: IceTypeSchema, newSchema: IceTypeSchema):
         field: fieldName,
         definition: fieldDef,
       });
+      if (hasFieldConstraints(fieldDef.constraints)) {
+        const change: SchemaChange = { type: 'add_constraint', field: fieldName, constraints: fieldDef.constraints };
+        changes.push(change);
+        newConstraints.add(change);
+      }
     }
   }
 
@@ -315,8 +368,9 @@ export function diffSchemas(oldSchema: IceTypeSchema, newSchema: IceTypeSchema):
   const directiveChanges = detectDirectiveChanges(oldSchema.directives, newSchema.directives);
   changes.push(...directiveChanges);
 
-  // Determine if any changes are breaking
-  const isBreaking = changes.some(isBreakingChange);
+  // Determine if any changes are breaking (constraints on new columns
+  // cannot be violated by existing rows)
+  const isBreaking = changes.some((change) => !newConstraints.has(change) && isBreakingChange(change));
 
   return {
     schemaName: newSchema.name,
@@ -59,6 +59,18 @@ export const ErrorCodes = {
   NO_SCHEMAS_FOUND: 'ICETYPE_4003',
   MODULE_LOAD_ERROR: 'ICETYPE_4004',
   JSON_PARSE_ERROR: 'ICETYPE_4005',
+
+  // Document validation errors (5xxx)
+  DOCUMENT_VALIDATION_ERROR: 'ICETYPE_5000',
+  MISSING_REQUIRED_FIELD: 'ICETYPE_5001',
+  INVALID_FIELD_TYPE: 'ICETYPE_5002',
+  INVALID_ARRAY: 'ICETYPE_5003',
+  DECIMAL_OUT_OF_RANGE: 'ICETYPE_5004',
+  STRING_TOO_LONG: 'ICETYPE_5005',
+  INVALID_ENUM_VALUE: 'ICETYPE_5006',
+  INVALID_RELATION_ID: 'ICETYPE_5007',
+  CONSTRAINT_VIOLATION: 'ICETYPE_5008',
+  UNKNOWN_DOCUMENT_FIELD: 'ICETYPE_5009',
 } as const;
 
 export type ErrorCode = typeof ErrorCodes[keyof typeof ErrorCodes];
@@ -197,6 +209,54 @@ export class SchemaValidationError extends IceTypeError {
   }
 }
 
+// =============================================================================
+// Document Validation Error
+// =============================================================================
+
+/**
+ * Options for DocumentValidationError.
+ */
+export interface DocumentValidationErrorOptions extends IceTypeErrorOptions {
+  /** Path to the invalid value within the document (e.g. `address.city`, `tags[2]`) */
+  path?: string;
+  /** The invalid value that caused the error */
+  value?: unknown;
+}
+
+/**
+ * Error describing a document that does not conform to its schema.
+ *
+ * @example
+ * ```typescript
+ * new DocumentValidationError('Expected int, got string', {
+ *   path: 'age',
+ *   value: '42',
+ *   code: ErrorCodes.INVALID_FIELD_TYPE,
+ * });
+ * ```
+ */
+export class DocumentValidationError extends IceTypeError {
+  /** Path to the invalid value within the document */
+  public readonly path?: string;
+  /** The invalid value that caused the error */
+  public readonly value?: unknown;
+
+  constructor(message: string, options: DocumentValidationErrorOptions = {}) {
+    const fullMessage = options.path ? `${options.path}: ${message}` : message;
+    super(fullMessage, {
+      ...options,
+      code: options.code ?? ErrorCodes.DOCUMENT_VALIDATION_ERROR,
+    });
+    this.name = 'DocumentValidationError';
+    if (options.path !== undefined) {
+      this.path = options.path;
+    }
+    this.value = options.value;
+
+    Object.setPrototypeOf(this, DocumentValidationError.prototype);
+  }
+}
+
 // =============================================================================
 // Parse Error
 // =============================================================================
@@ -642,6 +702,16 @@ export function isSchemaValidationError(error: unknown): error is SchemaValidati
   return error instanceof SchemaValidationError;
 }
 
+/**
+ * Type guard to check if an error is a DocumentValidationError.
+ *
+ * @param error - The error to check
+ * @returns True if the error is a DocumentValidationError
+ */
+export function isDocumentValidationError(error: unknown): error is DocumentValidationError {
+  return error instanceof DocumentValidationError;
+}
+
 /**
  * Type guard to check if an error is an AdapterError.
  *
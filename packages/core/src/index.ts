@@ -11,7 +11,7 @@
  * IceType is a type-safe, concise schema language with:
  * - Field modifiers: `!` (required), `#` (indexed), `?` (optional), `[]` (array)
  * - Relation operators: `->` (forward), `~>` (fuzzy), `<-` (backward), `<~` (fuzzy backward)
- * - Directives: `$partitionBy`, `$index`, `$fts`, `$vector`
+ * - Directives: `$partitionBy`, `$orderBy`, `$index`, `$fts`, `$vector`
  *
  * @example
  * ```typescript
@@ -69,6 +69,17 @@ export type {
   RelationDefinition,
   IndexDirective,
   VectorDirective,
+  EnumDirective,
+  StructDirective,
+  FieldFormat,
+  FieldConstraints,
+  TtlUnit,
+  TtlDuration,
+  TtlAction,
+  TtlDirective,
+  SortTransform,
+  OrderByField,
+  PartitionField,
   SchemaDirectives,
   IceTypeSchema,
 
@@ -97,6 +108,7 @@ export {
   // Error classes
   IceTypeError,
   SchemaValidationError,
+  DocumentValidationError,
   AdapterError,
   SchemaLoadError,
   // Error codes
@@ -105,6 +117,7 @@ export {
   isIceTypeError,
   isParseError,
   isSchemaValidationError,
+  isDocumentValidationError,
   isAdapterError,
   isSchemaLoadError,
   // Utilities
@@ -118,6 +131,7 @@ export type {
   IceTypeErrorOptions,
   ParseErrorOptions,
   SchemaValidationErrorOptions,
+  DocumentValidationErrorOptions,
   AdapterErrorOptions,
   SchemaLoadErrorOptions,
   SchemaLoadErrorContext,
@@ -191,6 +205,65 @@ export {
 // Re-export type mapping types
 export type { TypeMapping, KnownIceType } from './type-mappings.js';
 
+// Re-export field constraint functions
+export {
+  FIELD_FORMAT_PATTERNS,
+  parseFieldConstraints,
+  hasFieldConstraints,
+  fieldConstraintsEqual,
+  getCheckConstraintName,
+  generateCheckExpression,
+} from './constraints.js';
+
+// Re-export field constraint types
+export type { CheckDialect } from './constraints.js';
+
+// Re-export TTL functions
+export {
+  parseTtlDirective,
+  parseTtlDuration,
+  formatTtlDuration,
+  formatTtlDirective,
+  ttlDurationToIso8601,
+  ttlDirectivesEqual,
+  getTtlDeleteAfter,
+  generateTtlClause,
+  generateTtlPurgeStatement,
+} from './ttl.js';
+
+// Re-export TTL types
+export type { TtlPurgeDialect } from './ttl.js';
+
+// Re-export sort order functions
+export {
+  parseOrderByDirective,
+  parseFieldTransform,
+  formatFieldTransform,
+  formatOrderByField,
+  formatOrderBy,
+  orderByEqual,
+  canApplyTransform,
+  generateSortKeyExpression,
+} from './order-by.js';
+
+// Re-export partitioning functions
+export {
+  parsePartitionField,
+  parsePartitionBy,
+  formatPartitionField,
+  generatePartitionExpression,
+} from './partition.js';
+
+// Re-export document validation functions
+export { compileValidator, validateDocument } from './validator.js';
+
+// Re-export document validation types
+export type {
+  DocumentValidationResult,
+  DocumentValidatorOptions,
+  DocumentValidator,
+} from './validator.js';
+
 // Re-export schema diff functions (new interface)
 export { diffSchemas } from './diff.js';
 
@@ -205,6 +278,7 @@ export type {
   FieldChange,
   FieldChangeType,
   SchemaDiff as SchemaDiffLegacy,
+  TtlChange,
   MigrationPlan,
   MigrationPlanOptions,
   SqlDialect,
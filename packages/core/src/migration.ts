@@ -10,7 +10,9 @@
  */
 
 import type { SchemaDiff, FieldChange } from './migrations.js';
+import type { FieldDefinition } from './types.js';
 import type { SchemaVersion } from './version.js';
+import { generateCheckExpression, getCheckConstraintName, hasFieldConstraints } from './constraints.js';
 import { compareVersions as compareSchemaVersions } from './version.js';
 
 // Re-export SchemaVersion for convenience
@@ -65,6 +67,8 @@ interface UniqueConstraint extends BaseConstraint {
 
 /**
  * Check constraint definition.
+ *
+ * Check constraints generated from field constraints use PostgreSQL syntax.
  */
 interface CheckConstraint extends BaseConstraint {
   type: 'check';
@@ -339,6 +343,11 @@ export function createMigrationFromDiff(
     }
 
     operations.push(op);
+
+    const check = createCheckConstraint(diff.schemaName, field);
+    if (check) {
+      operations.push({ op: 'addConstraint', table: diff.schemaName, constraint: check });
+    }
   }
 
   // Process removed fields -> dropColumn operations
@@ -429,6 +438,24 @@ function processFieldChange(
     }
   }
 
+  // Handle value constraint changes -> dropConstraint, addConstraint
+  if (changeTypes.includes('constraints')) {
+    if (hasFieldConstraints(oldField.constraints)) {
+      operations.push({
+        op: 'dropConstraint',
+        table: tableName,
+        constraintName: getCheckConstraintName(tableName, name),
+      });
+    }
+
+    const check = createCheckConstraint(tableName, newField);
+    if (check) {
+      operations.push({ op: 'addConstraint', table: tableName, constraint: check });
+      // Existing rows may violate the new constraint
+      onBreaking(true);
+    }
+  }
+
   // Handle index changes
   if (changeTypes.includes('indexed')) {
     const oldIndexed = oldField.isIndexed || oldField.isUnique || oldField.modifier === '#';
@@ -453,6 +480,26 @@ function processFieldChange(
   }
 }
 
+/**
+ * Create the CHECK constraint for a field's value constraints.
+ */
+function createCheckConstraint(tableName: string, field: FieldDefinition): CheckConstraint | undefined {
+  if (!hasFieldConstraints(field.constraints)) {
+    return undefined;
+  }
+
+  const expression = generateCheckExpression(field.name, field.constraints, 'postgres');
+  if (!expression) {
+    return undefined;
+  }
+
+  return {
+    type: 'check',
+    name: getCheckConstraintName(tableName, field.name),
+    expression,
+  };
+}
+
 /**
  * Check if a migration contains breaking changes.
  *
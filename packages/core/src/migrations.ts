@@ -8,8 +8,15 @@
  * @packageDocumentation
  */
 
-import type { IceTypeSchema, FieldDefinition } from './types.js';
+import type { IceTypeSchema, FieldDefinition, TtlDirective } from './types.js';
 import { getPostgresType, getClickHouseType, getDuckDBType } from './type-mappings.js';
+import {
+  fieldConstraintsEqual,
+  generateCheckExpression,
+  getCheckConstraintName,
+  hasFieldConstraints,
+} from './constraints.js';
+import { generateTtlClause, ttlDirectivesEqual } from './ttl.js';
 
 // =============================================================================
 // Types
@@ -18,7 +25,7 @@ import { getPostgresType, getClickHouseType, getDuckDBType } from './type-mappin
 /**
  * Types of changes that can occur to a field.
  */
-export type FieldChangeType = 'type' | 'modifier' | 'indexed' | 'default' | 'array';
+export type FieldChangeType = 'type' | 'modifier' | 'indexed' | 'default' | 'array' | 'constraints';
 
 /**
  * Represents a change to a field between schema versions.
@@ -34,6 +41,16 @@ export interface FieldChange {
   newField: FieldDefinition;
 }
 
+/**
+ * A change to a schema's `$ttl` directive.
+ */
+export interface TtlChange {
+  /** The directive in the old schema, if any */
+  oldTtl?: TtlDirective;
+  /** The directive in the new schema, if any */
+  newTtl?: TtlDirective;
+}
+
 /**
  * Represents the difference between two schema versions.
  */
@@ -46,6 +63,8 @@ export interface SchemaDiff {
   removedFields: FieldDefinition[];
   /** Fields that were modified between schemas */
   modifiedFields: FieldChange[];
+  /** The `$ttl` change, if the directive changed */
+  ttlChange?: TtlChange;
   /** Whether there are any changes */
   hasChanges: boolean;
 }
@@ -131,13 +150,25 @@ export function diffSchemas(oldSchema: IceTypeSchema, newSchema: IceTypeSchema):
 
   const hasChanges = addedFields.length > 0 || removedFields.length > 0 || modifiedFields.length > 0;
 
-  return {
+  const diff: SchemaDiff = {
     schemaName: newSchema.name,
     addedFields,
     removedFields,
     modifiedFields,
     hasChanges,
   };
+
+  const oldTtl = oldSchema.directives.ttl;
+  const newTtl = newSchema.directives.ttl;
+  if (!ttlDirectivesEqual(oldTtl, newTtl)) {
+    diff.ttlChange = {
+      ...(oldTtl && { oldTtl }),
+      ...(newTtl && { newTtl }),
+    };
+    diff.hasChanges = true;
+  }
+
+  return diff;
 }
 
 /**
@@ -171,6 +202,11 @@ function detectFieldChanges(oldField: FieldDefinition, newField: FieldDefinition
     changes.push('default');
   }
 
+  // Check value constraint change
+  if (!fieldConstraintsEqual(oldField.constraints, newField.constraints)) {
+    changes.push('constraints');
+  }
+
   return changes;
 }
 
@@ -212,6 +248,11 @@ export function generateMigrationPlan(diff: SchemaDiff, options: MigrationPlanOp
 
     upStatements.push(`ALTER TABLE ${tableName} ADD COLUMN ${field.name} ${sqlType}${notNull};`);
     downStatements.push(`ALTER TABLE ${tableName} DROP COLUMN ${field.name};`);
+
+    const addCheck = generateAddCheckStatement(tableName, field, dialect);
+    if (addCheck) {
+      upStatements.push(addCheck);
+    }
   }
 
   // Generate SQL for removed fields
@@ -256,6 +297,27 @@ export function generateMigrationPlan(diff: SchemaDiff, options: MigrationPlanOp
         }
       }
     }
+
+    // Handle value constraint changes (drop the old CHECK, add the new one)
+    if (changes.includes('constraints')) {
+      const dropOld = generateDropCheckStatement(tableName, oldField, dialect);
+      const addNew = generateAddCheckStatement(tableName, newField, dialect);
+      const dropNew = generateDropCheckStatement(tableName, newField, dialect);
+      const addOld = generateAddCheckStatement(tableName, oldField, dialect);
+
+      if (dropOld) upStatements.push(dropOld);
+      if (addNew) upStatements.push(addNew);
+      if (dropNew) downStatements.push(dropNew);
+      if (addOld) downStatements.push(addOld);
+    }
+  }
+
+  // Only ClickHouse expires rows natively; other dialects purge with
+  // statements generated alongside the table
+  if (diff.ttlChange && dialect === 'clickhouse') {
+    const { oldTtl, newTtl } = diff.ttlChange;
+    upStatements.push(generateModifyTtlStatement(tableName, newTtl));
+    downStatements.push(generateModifyTtlStatement(tableName, oldTtl));
   }
 
   return {
@@ -264,6 +326,56 @@ export function generateMigrationPlan(diff: SchemaDiff, options: MigrationPlanOp
   };
 }
 
+/**
+ * Generate a ClickHouse statement setting or removing a table's TTL.
+ */
+function generateModifyTtlStatement(tableName: string, ttl: TtlDirective | undefined): string {
+  return ttl
+    ? `ALTER TABLE ${tableName} MODIFY TTL ${generateTtlClause(ttl.field, ttl)};`
+    : `ALTER TABLE ${tableName} REMOVE TTL;`;
+}
+
+/**
+ * Generate an ADD CONSTRAINT statement for a field's value constraints.
+ *
+ * DuckDB cannot add constraints to existing tables, so nothing is
+ * generated for DuckDB.
+ */
+function generateAddCheckStatement(
+  tableName: string,
+  field: FieldDefinition,
+  dialect: SqlDialect
+): string | undefined {
+  if (dialect === 'duckdb' || !hasFieldConstraints(field.constraints)) {
+    return undefined;
+  }
+
+  const expression = generateCheckExpression(field.name, field.constraints, dialect);
+  if (!expression) {
+    return undefined;
+  }
+
+  const name = getCheckConstraintName(tableName, field.name);
+  return dialect === 'clickhouse'
+    ? `ALTER TABLE ${tableName} ADD CONSTRAINT ${name} CHECK ${expression};`
+    : `ALTER TABLE ${tableName} ADD CONSTRAINT ${name} CHECK (${expression});`;
+}
+
+/**
+ * Generate a DROP CONSTRAINT statement for a field's value constraints.
+ */
+function generateDropCheckStatement(
+  tableName: string,
+  field: FieldDefinition,
+  dialect: SqlDialect
+): string | undefined {
+  if (dialect === 'duckdb' || !hasFieldConstraints(field.constraints)) {
+    return undefined;
+  }
+
+  return `ALTER TABLE ${tableName} DROP CONSTRAINT ${getCheckConstraintName(tableName, field.name)};`;
+}
+
 /**
  * Get the SQL type for a given IceType type and dialect.
  */
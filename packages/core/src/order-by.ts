@@ -0,0 +1,332 @@
+/**
+ * Sort Order for IceType
+ *
+ * Sort order is declared with the `$orderBy` directive as a list of sort
+ * keys, most significant first. Each key names a field, optionally wrapped
+ * in a transform, followed by an optional direction and null ordering:
+ *
+ * ```typescript
+ * {
+ *   $type: 'Event',
+ *   $orderBy: ['day(createdAt) DESC', 'bucket(16, userId)', 'id NULLS LAST'],
+ *   id: 'uuid!',
+ *   userId: 'uuid!',
+ *   createdAt: 'timestamp!',
+ * }
+ * ```
+ *
+ * Keys can also be given as objects (`{ field, direction, nulls, transform }`)
+ * or as a single comma-separated string. Directions default to ascending;
+ * nulls sort first in ascending keys and last in descending keys.
+ *
+ * This module parses those declarations and renders them for each target:
+ * ClickHouse sorting key expressions and display strings. Iceberg sort
+ * orders and SQL clustering hints are built from the parsed keys by the
+ * adapters.
+ *
+ * @packageDocumentation
+ */
+
+import { ParseError } from './errors.js';
+import type { OrderByField, SortTransform } from './types.js';
+
+// =============================================================================
+// Transforms
+// =============================================================================
+
+/** Transforms that take an integer argument (`bucket(16, id)`) */
+const TRANSFORMS_WITH_ARG = new Set<SortTransform>(['bucket', 'truncate']);
+
+/** All known transforms */
+const SORT_TRANSFORMS = new Set<SortTransform>([
+  'identity',
+  'year',
+  'month',
+  'day',
+  'hour',
+  'bucket',
+  'truncate',
+]);
+
+/** Field types each transform can be applied to (identity accepts any) */
+const TRANSFORM_FIELD_TYPES: Readonly<Record<Exclude<SortTransform, 'identity'>, ReadonlySet<string>>> = {
+  year: new Set(['timestamp', 'timestamptz', 'date']),
+  month: new Set(['timestamp', 'timestamptz', 'date']),
+  day: new Set(['timestamp', 'timestamptz', 'date']),
+  hour: new Set(['timestamp', 'timestamptz']),
+  bucket: new Set([
+    'int', 'long', 'bigint', 'decimal', 'date', 'time', 'timestamp', 'timestamptz',
+    'string', 'text', 'varchar', 'char', 'uuid', 'binary',
+  ]),
+  truncate: new Set(['int', 'long', 'bigint', 'decimal', 'string', 'text', 'varchar', 'char', 'binary']),
+};
+
+/** Types that `truncate` shortens as strings rather than rounding down */
+const STRING_TRUNCATE_TYPES = new Set<string>(['string', 'text', 'varchar', 'char', 'binary']);
+
+/**
+ * Parse a field reference with an optional transform, such as `createdAt`,
+ * `day(createdAt)` or `bucket(16, id)`.
+ *
+ * @param expression - The field expression
+ * @param path - Directive path reported in errors
+ * @returns The field, transform and transform argument
+ * @throws {ParseError} If the transform is unknown or its argument is missing or invalid
+ */
+export function parseFieldTransform(
+  expression: string,
+  path = '$orderBy'
+): Pick<OrderByField, 'field' | 'transform' | 'transformArg'> {
+  const trimmed = expression.trim();
+  if (/^[\w$.]+$/.test(trimmed)) {
+    return { field: trimmed, transform: 'identity' };
+  }
+
+  const match = /^(\w+)\s*\(\s*(?:(\d+)\s*,\s*)?([\w$.]+)\s*\)$/.exec(trimmed);
+  const transform = match?.[1]?.toLowerCase() as SortTransform | undefined;
+  if (!match || transform === undefined || !SORT_TRANSFORMS.has(transform)) {
+    throw new ParseError(
+      `Invalid transform: '${expression}' (expected e.g. 'day(createdAt)' or 'bucket(16, id)')`,
+      { path, code: 'INVALID_TRANSFORM' }
+    );
+  }
+
+  const field = match[3]!;
+  if (TRANSFORMS_WITH_ARG.has(transform)) {
+    const arg = match[2] === undefined ? 0 : Number(match[2]);
+    if (arg <= 0) {
+      throw new ParseError(`Transform '${transform}' needs a positive width: '${transform}(N, ${field})'`, {
+        path,
+        code: 'INVALID_TRANSFORM',
+      });
+    }
+    return { field, transform, transformArg: arg };
+  }
+
+  if (match[2] !== undefined) {
+    throw new ParseError(`Transform '${transform}' does not take an argument: '${expression}'`, {
+      path,
+      code: 'INVALID_TRANSFORM',
+    });
+  }
+  return { field, transform };
+}
+
+/**
+ * Format a field with its transform (e.g. `day(createdAt)`, `bucket(16, id)`).
+ */
+export function formatFieldTransform(key: Pick<OrderByField, 'field' | 'transform' | 'transformArg'>): string {
+  if (key.transform === 'identity') {
+    return key.field;
+  }
+  return key.transformArg === undefined
+    ? `${key.transform}(${key.field})`
+    : `${key.transform}(${key.transformArg}, ${key.field})`;
+}
+
+/**
+ * Check whether a transform can be applied to a field of the given type.
+ *
+ * @param transform - The transform
+ * @param fieldType - The IceType type of the field
+ */
+export function canApplyTransform(transform: SortTransform, fieldType: string): boolean {
+  return transform === 'identity' || TRANSFORM_FIELD_TYPES[transform].has(fieldType);
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Split a comma-separated key list, ignoring commas inside transforms.
+ */
+function splitKeys(value: string): string[] {
+  const keys: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '(') depth++;
+    else if (char === ')') depth--;
+    else if (char === ',' && depth === 0) {
+      keys.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  keys.push(value.slice(start));
+  return keys.map((key) => key.trim()).filter((key) => key.length > 0);
+}
+
+/**
+ * Build a sort key, applying the default null ordering for its direction.
+ */
+function createOrderByField(
+  key: Pick<OrderByField, 'field' | 'transform' | 'transformArg'>,
+  direction: string | undefined,
+  nulls: string | undefined,
+  source: string
+): OrderByField {
+  const dir = (direction ?? 'asc').toLowerCase();
+  if (dir !== 'asc' && dir !== 'desc') {
+    throw new ParseError(`Invalid sort direction in '${source}' (expected 'asc' or 'desc')`, {
+      path: '$orderBy',
+      code: 'INVALID_ORDER_BY',
+    });
+  }
+  const nullOrder = (nulls ?? (dir === 'asc' ? 'first' : 'last')).toLowerCase();
+  if (nullOrder !== 'first' && nullOrder !== 'last') {
+    throw new ParseError(`Invalid null ordering in '${source}' (expected 'first' or 'last')`, {
+      path: '$orderBy',
+      code: 'INVALID_ORDER_BY',
+    });
+  }
+
+  const field: OrderByField = { field: key.field, transform: key.transform, direction: dir, nulls: nullOrder };
+  if (key.transformArg !== undefined) {
+    field.transformArg = key.transformArg;
+  }
+  return field;
+}
+
+/**
+ * Parse a single sort key string such as `day(createdAt) DESC NULLS LAST`.
+ */
+function parseOrderByString(value: string): OrderByField {
+  const match = /^(.+?)(?:\s+(asc|desc))?(?:\s+nulls\s+(first|last))?$/i.exec(value.trim());
+  if (!match) {
+    throw new ParseError(`Invalid $orderBy key: '${value}'`, { path: '$orderBy', code: 'INVALID_ORDER_BY' });
+  }
+  return createOrderByField(parseFieldTransform(match[1]!), match[2], match[3], value);
+}
+
+/**
+ * Parse a sort key object such as `{ field: 'createdAt', direction: 'desc' }`.
+ */
+function parseOrderByObject(value: Record<string, unknown>): OrderByField {
+  const { field, transform, transformArg, direction, nulls } = value;
+  const source = JSON.stringify(value);
+  if (typeof field !== 'string' || field.length === 0) {
+    throw new ParseError(`$orderBy key ${source} must have a 'field'`, { path: '$orderBy', code: 'INVALID_ORDER_BY' });
+  }
+  if (
+    (transform !== undefined && typeof transform !== 'string') ||
+    (transformArg !== undefined && typeof transformArg !== 'number') ||
+    (direction !== undefined && typeof direction !== 'string') ||
+    (nulls !== undefined && typeof nulls !== 'string')
+  ) {
+    throw new ParseError(`Invalid $orderBy key: ${source}`, { path: '$orderBy', code: 'INVALID_ORDER_BY' });
+  }
+
+  // An explicit transform is applied to the field; otherwise the field may
+  // carry its own transform (`field: 'day(createdAt)'`)
+  let expression = field;
+  if (transform !== undefined && transform !== 'identity') {
+    expression = transformArg === undefined ? `${transform}(${field})` : `${transform}(${transformArg}, ${field})`;
+  }
+  return createOrderByField(parseFieldTransform(expression), direction, nulls, source);
+}
+
+/**
+ * Parse an `$orderBy` directive.
+ *
+ * Accepts a list of sort key strings or objects, or a single
+ * comma-separated string.
+ *
+ * @param value - The raw directive value
+ * @returns The sort keys, most significant first
+ * @throws {ParseError} If a key is malformed
+ */
+export function parseOrderByDirective(value: unknown): OrderByField[] {
+  const entries = typeof value === 'string' ? splitKeys(value) : value;
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new ParseError(
+      `Invalid $orderBy directive: expected a non-empty list of sort keys (e.g. ['createdAt DESC', 'id'])`,
+      { path: '$orderBy', code: 'INVALID_ORDER_BY' }
+    );
+  }
+
+  return entries.map((entry: unknown) => {
+    if (typeof entry === 'string') {
+      return parseOrderByString(entry);
+    }
+    if (typeof entry === 'object' && entry !== null && !Array.isArray(entry)) {
+      return parseOrderByObject(entry as Record<string, unknown>);
+    }
+    throw new ParseError(`Invalid $orderBy key: ${JSON.stringify(entry)}`, {
+      path: '$orderBy',
+      code: 'INVALID_ORDER_BY',
+    });
+  });
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Format a sort key for display (e.g. `day(createdAt) DESC`). The null
+ * ordering is only shown when it differs from the direction's default.
+ */
+export function formatOrderByField(key: OrderByField): string {
+  const defaultNulls = key.direction === 'asc' ? 'first' : 'last';
+  const nulls = key.nulls === defaultNulls ? '' : ` NULLS ${key.nulls.toUpperCase()}`;
+  return `${formatFieldTransform(key)} ${key.direction.toUpperCase()}${nulls}`;
+}
+
+/**
+ * Format a list of sort keys for display.
+ */
+export function formatOrderBy(keys: OrderByField[]): string {
+  return keys.map(formatOrderByField).join(', ');
+}
+
+/**
+ * Compare two sort orders by value.
+ */
+export function orderByEqual(a: OrderByField[] | undefined, b: OrderByField[] | undefined): boolean {
+  return (a ? formatOrderBy(a) : undefined) === (b ? formatOrderBy(b) : undefined);
+}
+
+/**
+ * Render a sort key as a ClickHouse sorting key expression, e.g.
+ * `toDate(created_at) DESC` or `cityHash64(user_id) % 16`.
+ *
+ * ClickHouse sorting keys have no null ordering, so `nulls` is ignored.
+ * Descending keys need the `allow_experimental_reverse_key` setting.
+ *
+ * @param column - The escaped column name
+ * @param key - The sort key
+ * @param fieldType - The IceType type of the field, used by `truncate`
+ * @returns The sorting key expression
+ */
+export function generateSortKeyExpression(column: string, key: OrderByField, fieldType?: string): string {
+  let expression: string;
+  switch (key.transform) {
+    case 'identity':
+      expression = column;
+      break;
+    case 'year':
+      expression = `toStartOfYear(${column})`;
+      break;
+    case 'month':
+      expression = `toStartOfMonth(${column})`;
+      break;
+    case 'day':
+      expression = `toDate(${column})`;
+      break;
+    case 'hour':
+      expression = `toStartOfHour(${column})`;
+      break;
+    case 'bucket':
+      expression = `cityHash64(${column}) % ${key.transformArg}`;
+      break;
+    case 'truncate':
+      expression =
+        fieldType !== undefined && STRING_TRUNCATE_TYPES.has(fieldType)
+          ? `substring(${column}, 1, ${key.transformArg})`
+          : `intDiv(${column}, ${key.transformArg}) * ${key.transformArg}`;
+      break;
+  }
+  return key.direction === 'desc' ? `${expression} DESC` : expression;
+}
@@ -15,7 +15,7 @@
  * - Relation operators: -> (forward), ~> (fuzzy), <- (backward), <~ (fuzzy backward)
  * - Parametric types: decimal(10,2), varchar(255)
  * - Generic types: map<string, int>, list<string>
- * - Directives: $partitionBy, $index, $fts, $vector
+ * - Directives: $partitionBy, $index, $fts, $vector, $enums, $structs, $constraints, $ttl, $orderBy
  *
  * @packageDocumentation
  */
@@ -28,6 +28,9 @@ import {
   type RelationOperator,
   type SchemaDirectives,
   type VectorDirective,
+  type EnumDirective,
+  type StructDirective,
+  type FieldConstraints,
   type IceTypeSchema,
   type ParsedType,
   type Token,
@@ -41,7 +44,11 @@ import {
 } from './types.js';
 
 import { Graph } from '@graphdl/core';
-import { entityToIceType } from './compiler.js';
+import { entityToIceType, parseStructDefinition } from './compiler.js';
+import { parseFieldConstraints } from './constraints.js';
+import { parseTtlDirective } from './ttl.js';
+import { canApplyTransform, formatFieldTransform, parseOrderByDirective } from './order-by.js';
+import { parsePartitionBy } from './partition.js';
 
 // =============================================================================
 // Extended Types
@@ -103,6 +110,15 @@ export const RELATION_OPERATORS: RelationOperator[] = ['->', '~>', '<-', '<~'];
 /** Valid field modifiers */
 const VALID_MODIFIERS: FieldModifier[] = ['!', '#', '?', ''];
 
+/** Types that accept min/max constraints */
+const NUMERIC_CONSTRAINT_TYPES = new Set<string>(['int', 'long', 'bigint', 'float', 'double', 'decimal']);
+
+/** Types that accept length, pattern and format constraints */
+const STRING_CONSTRAINT_TYPES = new Set<string>(['string', 'text', 'varchar', 'char', 'uuid']);
+
+/** Types that a `$ttl` expiry can be measured from */
+const TTL_FIELD_TYPES = new Set<string>(['timestamp', 'timestamptz', 'date']);
+
 // =============================================================================
 // Type Guards
 // =============================================================================
@@ -170,6 +186,9 @@ export const KNOWN_DIRECTIVES = new Set<string>([
   '$readonly',
   '$fts',
   '$vector',
+  '$enums',
+  '$structs',
+  '$constraints',
   // Projection directives
   '$projection',
   '$from',
@@ -1194,6 +1213,8 @@ export class IceTypeParser {
       switch (key) {
         case '$partitionBy':
           if (Array.isArray(value) && value.every((v): v is string => typeof v === 'string')) {
+            // Reject malformed keys such as 'bucket(userId)' up front
+            parsePartitionBy(value);
             directives.partitionBy = value;
           }
           break;
@@ -1230,6 +1251,58 @@ export class IceTypeParser {
           }
           break;
 
+        case '$enums':
+          if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+            const enumDirs: EnumDirective[] = [];
+            for (const [name, values] of Object.entries(value)) {
+              if (Array.isArray(values) && values.every((v): v is string => typeof v === 'string')) {
+                enumDirs.push({
+                  name,
+                  values,
+                });
+              }
+            }
+            directives.enums = enumDirs;
+          }
+          break;
+
+        case '$structs':
+          if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+            const structDirs: StructDirective[] = [];
+            for (const [name, body] of Object.entries(value)) {
+              const fields = parseStructDefinition(name, body);
+              if (fields) {
+                structDirs.push({
+                  name,
+                  fields,
+                });
+              }
+            }
+            directives.structs = structDirs;
+          }
+          break;
+
+        case '$constraints':
+          if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+            const fieldConstraints: Record<string, FieldConstraints> = {};
+            for (const [fieldName, raw] of Object.entries(value)) {
+              const parsed = parseFieldConstraints(raw);
+              if (parsed) {
+                fieldConstraints[fieldName] = parsed;
+              }
+            }
+            directives.constraints = fieldConstraints;
+          }
+          break;
+
+        case '$ttl':
+          directives.ttl = parseTtlDirective(value);
+          break;
+
+        case '$orderBy':
+          directives.orderBy = parseOrderByDirective(value);
+          break;
+
         // Projection directives
         case '$projection':
           if (typeof value === 'string' && ['oltp', 'olap', 'both'].includes(value)) {
@@ -1306,6 +1379,38 @@ export class IceTypeParser {
           code: 'CONFLICTING_MODIFIERS',
         });
       }
+
+      if (field.enumName !== undefined) {
+        const values =
+          field.enumValues ?? schema.directives.enums?.find((e) => e.name === field.enumName)?.values;
+
+        if (!values) {
+          warnings.push({
+            path: fieldName,
+            message: `Enum '${field.enumName}' is not declared in $enums`,
+            code: 'UNDECLARED_ENUM',
+          });
+        } else if (field.defaultValue !== undefined) {
+          const defaults = Array.isArray(field.defaultValue) ? field.defaultValue : [field.defaultValue];
+          for (const value of defaults) {
+            if (typeof value !== 'string' || !values.includes(value)) {
+              errors.push({
+                path: fieldName,
+                message: `Default value ${JSON.stringify(value)} is not a member of enum '${field.enumName}' (expected one of: ${values.join(', ')})`,
+                code: 'INVALID_ENUM_DEFAULT',
+              });
+            }
+          }
+        }
+      }
+
+      if (field.structName !== undefined && !schema.directives.structs?.some((s) => s.name === field.structName)) {
+        warnings.push({
+          path: fieldName,
+          message: `Struct '${field.structName}' is not declared in $structs`,
+          code: 'UNDECLARED_STRUCT',
+        });
+      }
     }
 
     for (const [relName, relation] of schema.relations) {
@@ -1319,13 +1424,24 @@ export class IceTypeParser {
     }
 
     if (schema.directives.partitionBy) {
-      for (const field of schema.directives.partitionBy) {
-        if (!schema.fields.has(field)) {
+      for (const key of parsePartitionBy(schema.directives.partitionBy)) {
+        const partitionField = schema.fields.get(key.field);
+        if (!partitionField) {
           errors.push({
-            path: `$partitionBy.${field}`,
-            message: `Partition field '${field}' does not exist in schema`,
+            path: `$partitionBy.${key.field}`,
+            message: `Partition field '${key.field}' does not exist in schema`,
             code: 'UNKNOWN_PARTITION_FIELD',
           });
+        } else if (
+          partitionField.isArray ||
+          partitionField.relation ||
+          !canApplyTransform(key.transform, partitionField.type)
+        ) {
+          errors.push({
+            path: `$partitionBy.${key.field}`,
+            message: `Cannot partition by '${formatFieldTransform(key)}': field '${key.field}' is ${partitionField.type}${partitionField.isArray ? '[]' : ''}`,
+            code: 'INVALID_PARTITION_FIELD',
+          });
         }
       }
     }
@@ -1356,6 +1472,113 @@ export class IceTypeParser {
       }
     }
 
+    if (schema.directives.enums) {
+      for (const enumDef of schema.directives.enums) {
+        if (enumDef.values.length === 0) {
+          errors.push({
+            path: `$enums.${enumDef.name}`,
+            message: `Enum '${enumDef.name}' must declare at least one value`,
+            code: 'EMPTY_ENUM',
+          });
+        }
+        const seen = new Set<string>();
+        for (const value of enumDef.values) {
+          if (seen.has(value)) {
+            errors.push({
+              path: `$enums.${enumDef.name}`,
+              message: `Enum '${enumDef.name}' declares value '${value}' more than once`,
+              code: 'DUPLICATE_ENUM_VALUE',
+            });
+          }
+          seen.add(value);
+        }
+      }
+    }
+
+    if (schema.directives.structs) {
+      const structs = new Map(schema.directives.structs.map((s) => [s.name, s]));
+      for (const structDef of schema.directives.structs) {
+        if (structDef.fields.length === 0) {
+          errors.push({
+            path: `$structs.${structDef.name}`,
+            message: `Struct '${structDef.name}' must declare at least one field`,
+            code: 'EMPTY_STRUCT',
+          });
+        }
+        for (const field of structDef.fields) {
+          if (!this.isValidType(field.type)) {
+            errors.push({
+              path: `$structs.${structDef.name}.${field.name}`,
+              message: `Unknown type: ${field.type}`,
+              code: 'UNKNOWN_TYPE',
+            });
+          }
+        }
+
+        // A struct may not contain itself, directly or through other structs,
+        // since there is no finite nested type to emit for it
+        const pending = structDef.fields
+          .map((f) => f.structName)
+          .filter((n): n is string => n !== undefined);
+        const visited = new Set<string>();
+        for (let next = pending.pop(); next !== undefined; next = pending.pop()) {
+          if (next === structDef.name) {
+            errors.push({
+              path: `$structs.${structDef.name}`,
+              message: `Struct '${structDef.name}' contains itself`,
+              code: 'RECURSIVE_STRUCT',
+            });
+            break;
+          }
+          if (visited.has(next)) continue;
+          visited.add(next);
+          for (const f of structs.get(next)?.fields ?? []) {
+            if (f.structName !== undefined) pending.push(f.structName);
+          }
+        }
+      }
+    }
+
+    if (schema.directives.constraints) {
+      for (const [fieldName, constraints] of Object.entries(schema.directives.constraints)) {
+        errors.push(...this.validateFieldConstraints(fieldName, constraints, schema.fields.get(fieldName)));
+      }
+    }
+
+    if (schema.directives.ttl) {
+      const ttlField = schema.fields.get(schema.directives.ttl.field);
+      if (!ttlField) {
+        errors.push({
+          path: '$ttl',
+          message: `TTL field '${schema.directives.ttl.field}' does not exist in schema`,
+          code: 'UNKNOWN_TTL_FIELD',
+        });
+      } else if (!TTL_FIELD_TYPES.has(ttlField.type) || ttlField.isArray) {
+        errors.push({
+          path: '$ttl',
+          message: `TTL field '${ttlField.name}' must be a timestamp or date, but is ${ttlField.type}${ttlField.isArray ? '[]' : ''}`,
+          code: 'INVALID_TTL_FIELD',
+        });
+      }
+    }
+
+    for (const key of schema.directives.orderBy ?? []) {
+      const orderField = schema.fields.get(key.field);
+      if (!orderField) {
+        errors.push({
+          path: `$orderBy.${key.field}`,
+          message: `Sort field '${key.field}' does not exist in schema`,
+          code: 'UNKNOWN_ORDER_BY_FIELD',
+        });
+      } else if (orderField.isArray || orderField.relation || !canApplyTransform(key.transform, orderField.type)) {
+        errors.push({
+          path: `$orderBy.${key.field}`,
+          message: `Cannot sort by '${formatFieldTransform(key)}': field '${key.field}' is ${orderField.type}${orderField.isArray ? '[]' : ''}`,
+          code: 'INVALID_ORDER_BY_FIELD',
+        });
+      }
+    }
+
     if (schema.directives.vector) {
       for (const vector of schema.directives.vector) {
         if (!schema.fields.has(vector.field)) {
@@ -1382,6 +1605,81 @@ export class IceTypeParser {
     };
   }
 
+  private validateFieldConstraints(
+    fieldName: string,
+    constraints: FieldConstraints,
+    field: FieldDefinition | undefined
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const path = `$constraints.${fieldName}`;
+
+    if (!field) {
+      return [{
+        path,
+        message: `Constraint field '${fieldName}' does not exist in schema`,
+        code: 'UNKNOWN_CONSTRAINT_FIELD',
+      }];
+    }
+
+    const type = field.type.toLowerCase();
+    const numeric = !field.isArray && NUMERIC_CONSTRAINT_TYPES.has(type);
+    const textual = !field.isArray && STRING_CONSTRAINT_TYPES.has(type);
+
+    if ((constraints.min !== undefined || constraints.max !== undefined) && !numeric) {
+      errors.push({
+        path,
+        message: `min/max constraints require a numeric field, but '${fieldName}' is ${field.type}${field.isArray ? '[]' : ''}`,
+        code: 'INVALID_CONSTRAINT',
+      });
+    }
+    if (
+      (constraints.minLength !== undefined ||
+        constraints.maxLength !== undefined ||
+        constraints.pattern !== undefined ||
+        constraints.format !== undefined) &&
+      !textual
+    ) {
+      errors.push({
+        path,
+        message: `Length, pattern and format constraints require a string field, but '${fieldName}' is ${field.type}${field.isArray ? '[]' : ''}`,
+        code: 'INVALID_CONSTRAINT',
+      });
+    }
+
+    if (constraints.min !== undefined && constraints.max !== undefined && constraints.min > constraints.max) {
+      errors.push({
+        path,
+        message: `min (${constraints.min}) is greater than max (${constraints.max})`,
+        code: 'INVALID_CONSTRAINT_RANGE',
+      });
+    }
+    if (
+      constraints.minLength !== undefined &&
+      constraints.maxLength !== undefined &&
+      constraints.minLength > constraints.maxLength
+    ) {
+      errors.push({
+        path,
+        message: `minLength (${constraints.minLength}) is greater than maxLength (${constraints.maxLength})`,
+        code: 'INVALID_CONSTRAINT_RANGE',
+      });
+    }
+
+    if (constraints.pattern !== undefined) {
+      try {
+        new RegExp(constraints.pattern);
+      } catch {
+        errors.push({
+          path,
+          message: `Invalid pattern: ${constraints.pattern}`,
+          code: 'INVALID_CONSTRAINT_PATTERN',
+        });
+      }
+    }
+
+    return errors;
+  }
+
   private isValidType(type: string): boolean {
     const normalized = type.toLowerCase();
     return (
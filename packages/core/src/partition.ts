@@ -0,0 +1,103 @@
+/**
+ * Partitioning for IceType
+ *
+ * Partitioning is declared with the `$partitionBy` directive as a list of
+ * partition keys. Each key names a field, optionally wrapped in one of the
+ * transforms `$orderBy` keys accept:
+ *
+ * ```typescript
+ * {
+ *   $type: 'Event',
+ *   $partitionBy: ['month(createdAt)', 'bucket(16, userId)'],
+ *   id: 'uuid!',
+ *   userId: 'uuid!',
+ *   createdAt: 'timestamp!',
+ * }
+ * ```
+ *
+ * A bare field partitions by its value. Targets that only partition by
+ * ranges of time (ClickHouse and Iceberg) keep their historical defaults
+ * for bare timestamp fields: monthly parts in ClickHouse and daily
+ * partitions in Iceberg.
+ *
+ * This module parses those declarations and renders ClickHouse partition
+ * key expressions. Iceberg partition specs and PostgreSQL declarative
+ * partitioning are built from the parsed keys by the adapters.
+ *
+ * @packageDocumentation
+ */
+
+import { ParseError } from './errors.js';
+import { canApplyTransform, formatFieldTransform, generateSortKeyExpression, parseFieldTransform } from './order-by.js';
+import type { PartitionField } from './types.js';
+
+/**
+ * Parse a single partition key such as `tenantId`, `month(createdAt)` or
+ * `bucket(16, userId)`.
+ *
+ * @param expression - The partition key
+ * @returns The parsed key
+ * @throws {ParseError} If the transform is unknown or its argument is missing or invalid
+ */
+export function parsePartitionField(expression: string): PartitionField {
+  const key = parseFieldTransform(expression, '$partitionBy');
+  const field: PartitionField = { field: key.field, transform: key.transform };
+  if (key.transformArg !== undefined) {
+    field.transformArg = key.transformArg;
+  }
+  return field;
+}
+
+/**
+ * Parse the entries of a `$partitionBy` directive.
+ *
+ * @param entries - The partition keys, most significant first
+ * @returns The parsed keys
+ * @throws {ParseError} If a key is malformed
+ */
+export function parsePartitionBy(entries: readonly string[]): PartitionField[] {
+  return entries.map(parsePartitionField);
+}
+
+/**
+ * Format a partition key (e.g. `month(createdAt)`, `bucket(16, userId)`).
+ */
+export function formatPartitionField(key: PartitionField): string {
+  return formatFieldTransform(key);
+}
+
+/**
+ * Render a partition key as a ClickHouse partition expression, e.g.
+ * `toYYYYMM(created_at)` or `cityHash64(user_id) % 16`.
+ *
+ * @param column - The escaped column name
+ * @param key - The partition key
+ * @param fieldType - The IceType type of the field, checked against the
+ *   transform and used by `truncate`
+ * @returns The partition expression
+ * @throws {ParseError} If the transform cannot be applied to `fieldType`
+ */
+export function generatePartitionExpression(column: string, key: PartitionField, fieldType?: string): string {
+  if (fieldType !== undefined && !canApplyTransform(key.transform, fieldType)) {
+    throw new ParseError(`Cannot partition by '${formatPartitionField(key)}': field '${key.field}' is ${fieldType}`, {
+      path: `$partitionBy.${key.field}`,
+      code: 'INVALID_PARTITION_FIELD',
+    });
+  }
+
+  switch (key.transform) {
+    case 'identity':
+      return column;
+    case 'year':
+      return `toYear(${column})`;
+    case 'month':
+      return `toYYYYMM(${column})`;
+    case 'day':
+      return `toYYYYMMDD(${column})`;
+    case 'hour':
+      return `toStartOfHour(${column})`;
+    case 'bucket':
+    case 'truncate':
+      return generateSortKeyExpression(column, { ...key, direction: 'asc', nulls: 'first' }, fieldType);
+  }
+}
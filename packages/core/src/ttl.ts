@@ -0,0 +1,299 @@
+/**
+ * Row Expiry (TTL) for IceType
+ *
+ * Row expiry is declared with the `$ttl` directive, either as a field plus
+ * a duration after which rows are deleted:
+ *
+ * ```typescript
+ * {
+ *   $type: 'Event',
+ *   $ttl: 'createdAt + 90d',
+ *   createdAt: 'timestamp!',
+ * }
+ * ```
+ *
+ * or as an object with explicit actions:
+ *
+ * ```typescript
+ * {
+ *   $type: 'Event',
+ *   $ttl: {
+ *     field: 'createdAt',
+ *     moveToVolume: { cold: '30d' },
+ *     delete: '90d',
+ *   },
+ *   createdAt: 'timestamp!',
+ * }
+ * ```
+ *
+ * This module parses those declarations and renders them for each target:
+ * ClickHouse `TTL` clauses, ISO 8601 durations for table properties, and
+ * purge statements for databases without native expiry.
+ *
+ * @packageDocumentation
+ */
+
+import { ParseError } from './errors.js';
+import type { TtlAction, TtlDirective, TtlDuration, TtlUnit } from './types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * SQL dialects that TTL purge statements can be rendered for.
+ */
+export type TtlPurgeDialect = 'postgres' | 'duckdb' | 'sqlite';
+
+// =============================================================================
+// Durations
+// =============================================================================
+
+/** Unit names and abbreviations accepted in durations */
+const UNIT_ALIASES: Readonly<Record<string, TtlUnit>> = {
+  s: 'second', sec: 'second', second: 'second', seconds: 'second',
+  m: 'minute', min: 'minute', minute: 'minute', minutes: 'minute',
+  h: 'hour', hr: 'hour', hour: 'hour', hours: 'hour',
+  d: 'day', day: 'day', days: 'day',
+  w: 'week', week: 'week', weeks: 'week',
+  mo: 'month', month: 'month', months: 'month',
+  y: 'year', yr: 'year', year: 'year', years: 'year',
+};
+
+/** Approximate length of each unit in seconds, used to order actions */
+const UNIT_SECONDS: Readonly<Record<TtlUnit, number>> = {
+  second: 1,
+  minute: 60,
+  hour: 3600,
+  day: 86400,
+  week: 7 * 86400,
+  month: 30 * 86400,
+  year: 365 * 86400,
+};
+
+/**
+ * Parse a duration such as `30d`, `12 hours` or `6mo`.
+ *
+ * `m` means minutes; use `mo` or `month` for months.
+ *
+ * @param value - The duration string
+ * @returns The parsed duration
+ * @throws {ParseError} If the duration is malformed or not positive
+ */
+export function parseTtlDuration(value: string): TtlDuration {
+  const match = /^\s*(\d+)\s*([a-zA-Z]+)\s*$/.exec(value);
+  const unit = match ? UNIT_ALIASES[match[2]!.toLowerCase()] : undefined;
+  const amount = match ? Number(match[1]) : 0;
+  if (unit === undefined || amount <= 0) {
+    throw new ParseError(`Invalid TTL duration: '${value}' (expected e.g. '30d' or '12 hours')`, {
+      path: '$ttl',
+      code: 'INVALID_TTL',
+    });
+  }
+  return { amount, unit };
+}
+
+/**
+ * Format a duration for display and SQL interval literals (e.g. `30 days`).
+ */
+export function formatTtlDuration(duration: TtlDuration): string {
+  return `${duration.amount} ${duration.unit}${duration.amount === 1 ? '' : 's'}`;
+}
+
+/**
+ * Format a duration as an ISO 8601 duration (e.g. `P30D`, `PT12H`).
+ */
+export function ttlDurationToIso8601(duration: TtlDuration): string {
+  switch (duration.unit) {
+    case 'second':
+      return `PT${duration.amount}S`;
+    case 'minute':
+      return `PT${duration.amount}M`;
+    case 'hour':
+      return `PT${duration.amount}H`;
+    case 'day':
+      return `P${duration.amount}D`;
+    case 'week':
+      return `P${duration.amount}W`;
+    case 'month':
+      return `P${duration.amount}M`;
+    case 'year':
+      return `P${duration.amount}Y`;
+  }
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse a raw `$ttl` value into a TTL directive.
+ *
+ * Accepts `'<field> + <duration>'`, which deletes rows once the duration
+ * has elapsed, or `{ field, delete?, moveToVolume? }`, where `moveToVolume`
+ * maps volume names to durations.
+ *
+ * @param value - The raw directive value
+ * @returns The parsed directive, with actions ordered by duration
+ * @throws {ParseError} If the value is malformed
+ */
+export function parseTtlDirective(value: unknown): TtlDirective {
+  if (typeof value === 'string') {
+    const match = /^\s*([A-Za-z_$][\w$]*)\s*\+\s*(.+)$/.exec(value);
+    if (!match) {
+      throw invalidTtl(`expected '<field> + <duration>', got '${value}'`);
+    }
+    return { field: match[1]!, actions: [{ type: 'delete', after: parseTtlDuration(match[2]!) }] };
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw invalidTtl('expected a string or an object');
+  }
+
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.field !== 'string' || raw.field === '') {
+    throw invalidTtl("'field' must be a field name");
+  }
+
+  const actions: TtlAction[] = [];
+  if (raw.delete !== undefined) {
+    if (typeof raw.delete !== 'string') {
+      throw invalidTtl("'delete' must be a duration");
+    }
+    actions.push({ type: 'delete', after: parseTtlDuration(raw.delete) });
+  }
+  if (raw.moveToVolume !== undefined) {
+    if (typeof raw.moveToVolume !== 'object' || raw.moveToVolume === null || Array.isArray(raw.moveToVolume)) {
+      throw invalidTtl("'moveToVolume' must map volume names to durations");
+    }
+    for (const [volume, after] of Object.entries(raw.moveToVolume)) {
+      if (typeof after !== 'string') {
+        throw invalidTtl(`'moveToVolume.${volume}' must be a duration`);
+      }
+      actions.push({ type: 'move', after: parseTtlDuration(after), volume });
+    }
+  }
+  if (actions.length === 0) {
+    throw invalidTtl("expected at least one of 'delete' or 'moveToVolume'");
+  }
+
+  actions.sort((a, b) => durationSeconds(a.after) - durationSeconds(b.after));
+  return { field: raw.field, actions };
+}
+
+/**
+ * Get the duration after which rows are deleted, if any.
+ */
+export function getTtlDeleteAfter(ttl: TtlDirective): TtlDuration | undefined {
+  return ttl.actions.find((action) => action.type === 'delete')?.after;
+}
+
+/**
+ * Check whether two TTL directives are equivalent.
+ */
+export function ttlDirectivesEqual(a: TtlDirective | undefined, b: TtlDirective | undefined): boolean {
+  if (a === undefined || b === undefined) return a === b;
+  return formatTtlDirective(a) === formatTtlDirective(b);
+}
+
+/**
+ * Format a TTL directive for display.
+ *
+ * @example
+ * ```typescript
+ * formatTtlDirective(parseTtlDirective('createdAt + 90d'));
+ * // 'createdAt: delete after 90 days'
+ * ```
+ */
+export function formatTtlDirective(ttl: TtlDirective): string {
+  const actions = ttl.actions.map((action) =>
+    action.type === 'move'
+      ? `move to ${action.volume} after ${formatTtlDuration(action.after)}`
+      : `delete after ${formatTtlDuration(action.after)}`
+  );
+  return `${ttl.field}: ${actions.join(', ')}`;
+}
+
+function durationSeconds(duration: TtlDuration): number {
+  return duration.amount * UNIT_SECONDS[duration.unit];
+}
+
+function invalidTtl(message: string): ParseError {
+  return new ParseError(`Invalid $ttl: ${message}`, { path: '$ttl', code: 'INVALID_TTL' });
+}
+
+// =============================================================================
+// SQL Rendering
+// =============================================================================
+
+/**
+ * Render a TTL directive as the expression list of a ClickHouse `TTL` clause.
+ *
+ * @param column - The column reference, already escaped
+ * @param ttl - The TTL directive
+ * @returns The clause body, without the `TTL` keyword
+ *
+ * @example
+ * ```typescript
+ * generateTtlClause('createdAt', parseTtlDirective({ field: 'createdAt', delete: '90d', moveToVolume: { cold: '7d' } }));
+ * // "createdAt + INTERVAL 7 DAY TO VOLUME 'cold', createdAt + INTERVAL 90 DAY"
+ * ```
+ */
+export function generateTtlClause(column: string, ttl: TtlDirective): string {
+  return ttl.actions
+    .map((action) => {
+      const expiry = `${column} + INTERVAL ${action.after.amount} ${action.after.unit.toUpperCase()}`;
+      return action.type === 'move'
+        ? `${expiry} TO VOLUME '${action.volume.replace(/'/g, "''")}'`
+        : expiry;
+    })
+    .join(', ');
+}
+
+/**
+ * Render a statement deleting expired rows, for databases without native
+ * expiry. Move actions have no equivalent and are ignored.
+ *
+ * SQLite stores timestamps as ISO 8601 text, so the cutoff is rendered in
+ * the same format (or as a plain date for `date` fields).
+ *
+ * @param table - The table reference, already escaped
+ * @param column - The column reference, already escaped
+ * @param ttl - The TTL directive
+ * @param dialect - The SQL dialect
+ * @param fieldType - The IceType type of the TTL field
+ * @returns The DELETE statement, or undefined if the directive never deletes
+ *
+ * @example
+ * ```typescript
+ * generateTtlPurgeStatement('"events"', '"createdAt"', parseTtlDirective('createdAt + 90d'), 'postgres');
+ * // `DELETE FROM "events" WHERE "createdAt" < CURRENT_TIMESTAMP - INTERVAL '90 days';`
+ * ```
+ */
+export function generateTtlPurgeStatement(
+  table: string,
+  column: string,
+  ttl: TtlDirective,
+  dialect: TtlPurgeDialect,
+  fieldType?: string
+): string | undefined {
+  const after = getTtlDeleteAfter(ttl);
+  if (after === undefined) {
+    return undefined;
+  }
+
+  let cutoff: string;
+  if (dialect === 'sqlite') {
+    // SQLite date modifiers have no week unit
+    const modifier = after.unit === 'week'
+      ? formatTtlDuration({ amount: after.amount * 7, unit: 'day' })
+      : formatTtlDuration(after);
+    cutoff = fieldType === 'date'
+      ? `date('now', '-${modifier}')`
+      : `strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '-${modifier}')`;
+  } else {
+    cutoff = `CURRENT_TIMESTAMP - INTERVAL '${formatTtlDuration(after)}'`;
+  }
+
+  return `DELETE FROM ${table} WHERE ${column} < ${cutoff};`;
+}
@@ -168,12 +168,102 @@ export interface FieldDefinition {
   structName?: string;
   /** Enum name for enum types */
   enumName?: string;
+  /** Allowed values for enum types, resolved from the schema's `$enums` block */
+  enumValues?: string[];
+  /** Nested fields for struct types, resolved from the schema's `$structs` block */
+  structFields?: FieldDefinition[];
+  /** Value constraints, from the schema's `$constraints` block */
+  constraints?: FieldConstraints;
   /** Reference target for ref types */
   refTarget?: string;
   /** Element type for list types */
   elementType?: string;
 }
 
+// =============================================================================
+// Field Constraints
+// =============================================================================
+
+/** Named string formats for the `format` constraint */
+export type FieldFormat = 'email' | 'url' | 'uuid' | 'hostname' | 'ipv4';
+
+/** Value constraints on a single field */
+export interface FieldConstraints {
+  /** Minimum numeric value (inclusive) */
+  min?: number;
+  /** Maximum numeric value (inclusive) */
+  max?: number;
+  /** Minimum string length, in characters */
+  minLength?: number;
+  /** Maximum string length, in characters */
+  maxLength?: number;
+  /** Regular expression the string value must match */
+  pattern?: string;
+  /** Named format the string value must match */
+  format?: FieldFormat;
+}
+
+// =============================================================================
+// Time To Live
+// =============================================================================
+
+/** Units accepted in `$ttl` durations */
+export type TtlUnit = 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year';
+
+/** A `$ttl` duration (e.g. 30 days) */
+export interface TtlDuration {
+  amount: number;
+  unit: TtlUnit;
+}
+
+/** What happens to a row once its TTL elapses */
+export type TtlAction =
+  | { type: 'delete'; after: TtlDuration }
+  | { type: 'move'; after: TtlDuration; volume: string };
+
+/** Row expiry declared with the `$ttl` directive */
+export interface TtlDirective {
+  /** Timestamp or date field the durations are measured from */
+  field: string;
+  /** Expiry actions, ordered by duration */
+  actions: TtlAction[];
+}
+
+// =============================================================================
+// Sort Order
+// =============================================================================
+
+/** Transforms a `$orderBy` key can apply to its field */
+export type SortTransform = 'identity' | 'year' | 'month' | 'day' | 'hour' | 'bucket' | 'truncate';
+
+/** A single sort key declared with the `$orderBy` directive */
+export interface OrderByField {
+  /** Field the key is derived from */
+  field: string;
+  /** Transform applied to the field value */
+  transform: SortTransform;
+  /** Bucket count for `bucket`, width for `truncate` */
+  transformArg?: number;
+  /** Sort direction */
+  direction: 'asc' | 'desc';
+  /** Where null values sort */
+  nulls: 'first' | 'last';
+}
+
+// =============================================================================
+// Partitioning
+// =============================================================================
+
+/** A single partition key declared with the `$partitionBy` directive */
+export interface PartitionField {
+  /** Field the partition value is derived from */
+  field: string;
+  /** Transform applied to the field value */
+  transform: SortTransform;
+  /** Bucket count for `bucket`, width for `truncate` */
+  transformArg?: number;
+}
+
 // =============================================================================
 // Relation Definition
 // =============================================================================
@@ -214,6 +304,22 @@ export interface VectorDirective {
   metric?: 'cosine' | 'euclidean' | 'dot';
 }
 
+/** Named enum declaration */
+export interface EnumDirective {
+  /** Enum name referenced by `enum<Name>` fields */
+  name: string;
+  /** Allowed values, in declaration order */
+  values: string[];
+}
+
+/** Named struct declaration (a reusable, non-table type) */
+export interface StructDirective {
+  /** Struct name referenced by `struct<Name>` fields */
+  name: string;
+  /** Struct fields, in declaration order */
+  fields: FieldDefinition[];
+}
+
 /** IceType schema directives */
 export interface SchemaDirectives {
   /** Partition key fields */
@@ -224,6 +330,16 @@ export interface SchemaDirectives {
   fts?: string[];
   /** Vector index configuration */
   vector?: VectorDirective[];
+  /** Named enum declarations */
+  enums?: EnumDirective[];
+  /** Named struct declarations */
+  structs?: StructDirective[];
+  /** Value constraints, keyed by field name */
+  constraints?: Record<string, FieldConstraints>;
+  /** Row expiry */
+  ttl?: TtlDirective;
+  /** Sort keys, most significant first */
+  orderBy?: OrderByField[];
 }
 
 // =============================================================================
@@ -364,6 +480,11 @@ export type SchemaDefinition = {
   $index?: string[][];
   $fts?: string[];
   $vector?: Record<string, number>;
+  $enums?: Record<string, string[]>;
+  $structs?: Record<string, Record<string, string>>;
+  $constraints?: Record<string, FieldConstraints>;
+  $ttl?: string | Record<string, unknown>;
+  $orderBy?: string | Array<string | Record<string, unknown>>;
   [key: string]: unknown;
 };
 
@@ -0,0 +1,576 @@
+/**
+ * Document Validation for IceType
+ *
+ * Checks records against an IceType schema at runtime:
+ * - Required and optional fields
+ * - Primitive types, arrays, lists, maps and nested structs
+ * - Decimal precision/scale and varchar/char length
+ * - Enum values and relation ID shape
+ * - Field constraints from the `$constraints` directive
+ *
+ * `compileValidator` turns a schema into a validator function once, so the
+ * per-document cost is a walk over precompiled checks. Use it for per-row
+ * validation; `validateDocument` is a convenience for one-off checks.
+ *
+ * @example
+ * ```typescript
+ * const schema = parseSchema({
+ *   $type: 'User',
+ *   id: 'uuid!',
+ *   name: 'varchar(64)!',
+ *   tags: 'string[]',
+ * });
+ *
+ * const validate = compileValidator(schema);
+ * const result = validate({ id: 'not-a-uuid', name: 'Ada', tags: ['a', 1] });
+ * // result.errors[0].path === 'id'
+ * // result.errors[1].path === 'tags[1]'
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { DocumentValidationError, ErrorCodes } from './errors.js';
+import { FIELD_FORMAT_PATTERNS, hasFieldConstraints } from './constraints.js';
+import type { IceTypeSchema, FieldDefinition, FieldConstraints } from './types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Result of validating a document against a schema.
+ */
+export interface DocumentValidationResult {
+  /** Whether the document conforms to the schema */
+  valid: boolean;
+  /** Validation errors, addressed by path */
+  errors: DocumentValidationError[];
+}
+
+/**
+ * Options for document validation.
+ */
+export interface DocumentValidatorOptions {
+  /**
+   * Whether keys that are not fields of the schema are allowed.
+   * Keys starting with `$` are always allowed.
+   * @default true
+   */
+  allowUnknownFields?: boolean;
+}
+
+/**
+ * A validator compiled from a schema.
+ */
+export type DocumentValidator = (document: unknown) => DocumentValidationResult;
+
+/**
+ * Check for a single non-null value. Appends errors instead of throwing.
+ */
+type ValueCheck = (value: unknown, path: string, errors: DocumentValidationError[]) => void;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const UUID_PATTERN = new RegExp(FIELD_FORMAT_PATTERNS.uuid);
+
+const TIME_PATTERN = /^([01][0-9]|2[0-3]):[0-5][0-9](:[0-5][0-9](\.[0-9]+)?)?$/;
+
+const INT32_MIN = -2147483648;
+const INT32_MAX = 2147483647;
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Compile a validator for documents of a schema.
+ *
+ * The schema is read once at compile time; recompile after changing it.
+ *
+ * @param schema - The schema documents must conform to
+ * @param options - Validation options
+ * @returns A function that validates a document
+ */
+export function compileValidator(
+  schema: IceTypeSchema,
+  options: DocumentValidatorOptions = {}
+): DocumentValidator {
+  const checkObject = compileObject([...schema.fields.values()], options.allowUnknownFields ?? true);
+
+  return (document: unknown): DocumentValidationResult => {
+    const errors: DocumentValidationError[] = [];
+    if (!isPlainObject(document)) {
+      errors.push(new DocumentValidationError(`Expected an object, got ${describeValue(document)}`, {
+        code: ErrorCodes.INVALID_FIELD_TYPE,
+        value: document,
+      }));
+    } else {
+      checkObject(document, '', errors);
+    }
+    return { valid: errors.length === 0, errors };
+  };
+}
+
+/**
+ * Validate a document against a schema.
+ *
+ * Compiles the schema on every call; prefer `compileValidator` when
+ * validating many documents.
+ *
+ * @param schema - The schema the document must conform to
+ * @param document - The document to validate
+ * @param options - Validation options
+ * @returns The validation result
+ */
+export function validateDocument(
+  schema: IceTypeSchema,
+  document: unknown,
+  options: DocumentValidatorOptions = {}
+): DocumentValidationResult {
+  return compileValidator(schema, options)(document);
+}
+
+// =============================================================================
+// Compilation
+// =============================================================================
+
+/**
+ * Compile a check for an object whose keys are the given fields.
+ */
+function compileObject(fields: FieldDefinition[], allowUnknownFields: boolean): ValueCheck {
+  const checks: Array<[string, ValueCheck]> = [];
+  for (const field of fields) {
+    const check = compileField(field, allowUnknownFields);
+    if (check) {
+      checks.push([field.name, check]);
+    }
+  }
+  const known = new Set(fields.map((f) => f.name));
+
+  return (value, path, errors) => {
+    const record = value as Record<string, unknown>;
+    for (const [name, check] of checks) {
+      check(record[name], joinPath(path, name), errors);
+    }
+
+    if (!allowUnknownFields) {
+      for (const key of Object.keys(record)) {
+        if (!known.has(key) && !key.startsWith('$')) {
+          errors.push(new DocumentValidationError('Unknown field', {
+            path: joinPath(path, key),
+            code: ErrorCodes.UNKNOWN_DOCUMENT_FIELD,
+            value: record[key],
+          }));
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Compile the check for a field, including presence and array handling.
+ * `allowUnknownFields` applies to the keys of struct values.
+ *
+ * Returns undefined for fields that are not stored on the document
+ * (backward relations).
+ */
+function compileField(field: FieldDefinition, allowUnknownFields: boolean): ValueCheck | undefined {
+  const operator = field.relation?.operator;
+  if (operator === '<-' || operator === '<~') {
+    return undefined;
+  }
+
+  const required = !field.isOptional && field.defaultValue === undefined;
+  const checkElement = compileValue(field, allowUnknownFields);
+  const checkValue = field.isArray ? compileArray(checkElement) : checkElement;
+
+  return (value, path, errors) => {
+    if (value === undefined || value === null) {
+      if (required) {
+        errors.push(new DocumentValidationError(`Required field is ${value === null ? 'null' : 'missing'}`, {
+          path,
+          code: ErrorCodes.MISSING_REQUIRED_FIELD,
+          value,
+        }));
+      }
+      return;
+    }
+    checkValue(value, path, errors);
+  };
+}
+
+/**
+ * Compile a check for an array whose elements must pass `checkElement`.
+ */
+function compileArray(checkElement: ValueCheck): ValueCheck {
+  return (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      errors.push(new DocumentValidationError(`Expected an array, got ${describeValue(value)}`, {
+        path,
+        code: ErrorCodes.INVALID_ARRAY,
+        value,
+      }));
+      return;
+    }
+    for (let i = 0; i < value.length; i++) {
+      const element = value[i];
+      const elementPath = `${path}[${i}]`;
+      if (element === undefined || element === null) {
+        errors.push(new DocumentValidationError('Array elements cannot be null', {
+          path: elementPath,
+          code: ErrorCodes.INVALID_ARRAY,
+          value: element,
+        }));
+      } else {
+        checkElement(element, elementPath, errors);
+      }
+    }
+  };
+}
+
+/**
+ * Compile the check for a single non-null value of a field.
+ */
+function compileValue(field: FieldDefinition, allowUnknownFields: boolean): ValueCheck {
+  const checkType = compileType(field, allowUnknownFields);
+  const constraints = field.constraints;
+  if (field.isArray || !hasFieldConstraints(constraints)) {
+    return checkType;
+  }
+
+  const checkConstraints = compileConstraints(constraints);
+  return (value, path, errors) => {
+    const before = errors.length;
+    checkType(value, path, errors);
+    if (errors.length === before) {
+      checkConstraints(value, path, errors);
+    }
+  };
+}
+
+/**
+ * Compile the type check for a single non-null value of a field.
+ */
+function compileType(field: FieldDefinition, allowUnknownFields: boolean): ValueCheck {
+  if (field.relation || field.type === 'ref') {
+    return checkRelationId;
+  }
+
+  switch (field.type) {
+    case 'string':
+    case 'text':
+      return typeCheck(field.type, (v) => typeof v === 'string');
+    case 'varchar':
+    case 'char':
+      return compileLength(field.type, field.length);
+    case 'uuid':
+      return typeCheck('uuid', (v) => typeof v === 'string' && UUID_PATTERN.test(v));
+    case 'int':
+      return typeCheck('int', (v) => Number.isInteger(v) && (v as number) >= INT32_MIN && (v as number) <= INT32_MAX);
+    case 'long':
+    case 'bigint':
+      return typeCheck(field.type, (v) => typeof v === 'bigint' || Number.isSafeInteger(v));
+    case 'float':
+    case 'double':
+      return typeCheck(field.type, (v) => typeof v === 'number');
+    case 'bool':
+    case 'boolean':
+      return typeCheck(field.type, (v) => typeof v === 'boolean');
+    case 'timestamp':
+    case 'timestamptz':
+    case 'date':
+      return typeCheck(field.type, isDateLike);
+    case 'time':
+      return typeCheck('time', (v) => typeof v === 'string' && TIME_PATTERN.test(v));
+    case 'binary':
+      return typeCheck('binary', (v) => v instanceof Uint8Array);
+    case 'fixed':
+      return compileFixed(field.length);
+    case 'decimal':
+      return compileDecimal(field.precision, field.scale);
+    case 'enum':
+      return compileEnum(field.enumValues);
+    case 'struct':
+      return compileStruct(field, allowUnknownFields);
+    case 'list':
+      return field.elementType
+        ? compileArray(compileType(syntheticField(field.elementType), allowUnknownFields))
+        : checkAny;
+    case 'map':
+      return compileMap(field.valueType, allowUnknownFields);
+    default:
+      // json and types the validator cannot resolve accept any value
+      return checkAny;
+  }
+}
+
+/**
+ * Compile a check for `varchar(n)` and `char(n)` values.
+ */
+function compileLength(type: string, length: number | undefined): ValueCheck {
+  return (value, path, errors) => {
+    if (typeof value !== 'string') {
+      errors.push(typeError(type, value, path));
+    } else if (length !== undefined && value.length > length) {
+      errors.push(new DocumentValidationError(`String exceeds ${type}(${length}) with length ${value.length}`, {
+        path,
+        code: ErrorCodes.STRING_TOO_LONG,
+        value,
+      }));
+    }
+  };
+}
+
+/**
+ * Compile a check for `fixed(n)` values.
+ */
+function compileFixed(length: number | undefined): ValueCheck {
+  return (value, path, errors) => {
+    if (!(value instanceof Uint8Array)) {
+      errors.push(typeError('fixed', value, path));
+    } else if (length !== undefined && value.length !== length) {
+      errors.push(new DocumentValidationError(`Expected ${length} bytes, got ${value.length}`, {
+        path,
+        code: ErrorCodes.INVALID_FIELD_TYPE,
+        value,
+      }));
+    }
+  };
+}
+
+/**
+ * Compile a check for `decimal(precision, scale)` values.
+ *
+ * Accepts numbers and numeric strings. Digits are counted on the decimal
+ * representation of the value.
+ */
+function compileDecimal(precision: number | undefined, scale: number | undefined): ValueCheck {
+  const maxScale = scale ?? 0;
+  const maxIntegerDigits = precision !== undefined ? precision - maxScale : undefined;
+
+  return (value, path, errors) => {
+    const digits = decimalDigits(value);
+    if (!digits) {
+      errors.push(typeError('decimal', value, path));
+      return;
+    }
+    if (precision === undefined) {
+      return;
+    }
+    if (digits.fraction > maxScale) {
+      errors.push(new DocumentValidationError(
+        `Value has ${digits.fraction} fractional digits, decimal(${precision}, ${maxScale}) allows ${maxScale}`,
+        { path, code: ErrorCodes.DECIMAL_OUT_OF_RANGE, value }
+      ));
+    } else if (maxIntegerDigits !== undefined && digits.integer > maxIntegerDigits) {
+      errors.push(new DocumentValidationError(
+        `Value has ${digits.integer} integer digits, decimal(${precision}, ${maxScale}) allows ${maxIntegerDigits}`,
+        { path, code: ErrorCodes.DECIMAL_OUT_OF_RANGE, value }
+      ));
+    }
+  };
+}
+
+/**
+ * Compile a check for `enum<Name>` values.
+ */
+function compileEnum(values: string[] | undefined): ValueCheck {
+  if (!values) {
+    return typeCheck('enum', (v) => typeof v === 'string');
+  }
+  const allowed = new Set(values);
+  return (value, path, errors) => {
+    if (typeof value !== 'string' || !allowed.has(value)) {
+      errors.push(new DocumentValidationError(
+        `Expected one of ${values.map((v) => `'${v}'`).join(', ')}, got ${JSON.stringify(value)}`,
+        { path, code: ErrorCodes.INVALID_ENUM_VALUE, value }
+      ));
+    }
+  };
+}
+
+/**
+ * Compile a check for `struct<Name>` values.
+ */
+function compileStruct(field: FieldDefinition, allowUnknownFields: boolean): ValueCheck {
+  const checkObject = field.structFields ? compileObject(field.structFields, allowUnknownFields) : undefined;
+  return (value, path, errors) => {
+    if (!isPlainObject(value)) {
+      errors.push(typeError('struct', value, path));
+    } else if (checkObject) {
+      checkObject(value, path, errors);
+    }
+  };
+}
+
+/**
+ * Compile a check for `map<K, V>` values, given as plain objects or Maps.
+ */
+function compileMap(valueType: string | undefined, allowUnknownFields: boolean): ValueCheck {
+  const checkEntry = valueType ? compileType(syntheticField(valueType), allowUnknownFields) : checkAny;
+  return (value, path, errors) => {
+    const entries = value instanceof Map
+      ? [...value.entries()]
+      : isPlainObject(value) ? Object.entries(value) : undefined;
+    if (!entries) {
+      errors.push(typeError('map', value, path));
+      return;
+    }
+    for (const [key, entry] of entries) {
+      const entryPath = `${path}[${JSON.stringify(String(key))}]`;
+      if (entry !== undefined && entry !== null) {
+        checkEntry(entry, entryPath, errors);
+      }
+    }
+  };
+}
+
+/**
+ * Compile the checks declared in a field's `$constraints` entry.
+ */
+function compileConstraints(constraints: FieldConstraints): ValueCheck {
+  const { min, max, minLength, maxLength } = constraints;
+  const patterns: Array<[string, RegExp]> = [];
+  if (constraints.pattern !== undefined) {
+    patterns.push([`pattern ${constraints.pattern}`, new RegExp(constraints.pattern)]);
+  }
+  if (constraints.format !== undefined) {
+    patterns.push([`format '${constraints.format}'`, new RegExp(FIELD_FORMAT_PATTERNS[constraints.format])]);
+  }
+
+  return (value, path, errors) => {
+    const fail = (message: string): void => {
+      errors.push(new DocumentValidationError(message, { path, code: ErrorCodes.CONSTRAINT_VIOLATION, value }));
+    };
+
+    const numeric = typeof value === 'number' || typeof value === 'bigint'
+      ? value
+      : typeof value === 'string' ? Number(value) : undefined;
+    if (numeric !== undefined) {
+      if (min !== undefined && numeric < min) fail(`Value must be >= ${min}`);
+      if (max !== undefined && numeric > max) fail(`Value must be <= ${max}`);
+    }
+
+    if (typeof value === 'string') {
+      const length = [...value].length;
+      if (minLength !== undefined && length < minLength) fail(`Length must be >= ${minLength}`);
+      if (maxLength !== undefined && length > maxLength) fail(`Length must be <= ${maxLength}`);
+      for (const [description, regex] of patterns) {
+        if (!regex.test(value)) fail(`Value does not match ${description}`);
+      }
+    }
+  };
+}
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+/**
+ * Build a check from a type name and predicate.
+ */
+function typeCheck(type: string, predicate: (value: unknown) => boolean): ValueCheck {
+  return (value, path, errors) => {
+    if (!predicate(value)) {
+      errors.push(typeError(type, value, path));
+    }
+  };
+}
+
+/**
+ * Check that a value is a relation ID: a non-empty string without whitespace.
+ */
+const checkRelationId: ValueCheck = (value, path, errors) => {
+  if (typeof value !== 'string' || value.length === 0 || /\s/.test(value)) {
+    errors.push(new DocumentValidationError(
+      `Expected a relation ID (non-empty string without whitespace), got ${describeValue(value)}`,
+      { path, code: ErrorCodes.INVALID_RELATION_ID, value }
+    ));
+  }
+};
+
+/**
+ * Accept any value.
+ */
+const checkAny: ValueCheck = () => {};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Create a minimal field definition for a list element or map value type.
+ */
+function syntheticField(type: string): FieldDefinition {
+  return {
+    name: '',
+    type,
+    modifier: '',
+    isArray: false,
+    isOptional: false,
+    isUnique: false,
+    isIndexed: false,
+  };
+}
+
+function typeError(type: string, value: unknown, path: string): DocumentValidationError {
+  return new DocumentValidationError(`Expected ${type}, got ${describeValue(value)}`, {
+    path,
+    code: ErrorCodes.INVALID_FIELD_TYPE,
+    value,
+  });
+}
+
+function joinPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    !(value instanceof Date) && !(value instanceof Uint8Array) && !(value instanceof Map);
+}
+
+function isDateLike(value: unknown): boolean {
+  if (value instanceof Date) return !Number.isNaN(value.getTime());
+  if (typeof value === 'number') return Number.isFinite(value);
+  if (typeof value === 'string') return !Number.isNaN(Date.parse(value));
+  return false;
+}
+
+/**
+ * Count the integer and fractional digits of a decimal value.
+ *
+ * @returns The digit counts, or undefined if the value is not numeric
+ */
+function decimalDigits(value: unknown): { integer: number; fraction: number } | undefined {
+  let text: string;
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return undefined;
+    text = /e/i.test(String(value))
+      ? value.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 })
+      : String(value);
+  } else if (typeof value === 'bigint') {
+    text = value.toString();
+  } else if (typeof value === 'string') {
+    text = value.trim();
+  } else {
+    return undefined;
+  }
+
+  const match = /^[+-]?(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (!match[1] && !match[2])) return undefined;
+  const integer = (match[1] ?? '').replace(/^0+/, '').length;
+  const fraction = (match[2] ?? '').replace(/0+$/, '').length;
+  return { integer, fraction };
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Date) return 'Date';
+  if (value instanceof Uint8Array) return 'binary';
+  return typeof value;
+}
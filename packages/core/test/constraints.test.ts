@@ -0,0 +1,271 @@
+/**
+ * Field Constraint Tests for @icetype/core
+ *
+ * Tests for the $constraints directive, validation of constraint
+ * declarations, CHECK expression rendering, and constraint diffing.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSchema, parseDirectives, validateSchema } from '../src/parser.js';
+import {
+  parseFieldConstraints,
+  fieldConstraintsEqual,
+  generateCheckExpression,
+  getCheckConstraintName,
+} from '../src/constraints.js';
+import { diffSchemas } from '../src/diff.js';
+import { diffSchemas as diffSchemasLegacy, generateMigrationPlan } from '../src/migrations.js';
+import { createMigrationFromDiff } from '../src/migration.js';
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+describe('$constraints directive', () => {
+  it('should attach constraints to field definitions', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      $constraints: {
+        age: { min: 0, max: 150 },
+        slug: { pattern: '^[a-z0-9-]+$', maxLength: 64 },
+        email: { format: 'email' },
+      },
+      age: 'int',
+      slug: 'string!',
+      email: 'string',
+      name: 'string',
+    });
+
+    expect(schema.fields.get('age')?.constraints).toEqual({ min: 0, max: 150 });
+    expect(schema.fields.get('slug')?.constraints).toEqual({ pattern: '^[a-z0-9-]+$', maxLength: 64 });
+    expect(schema.fields.get('email')?.constraints).toEqual({ format: 'email' });
+    expect(schema.fields.get('name')?.constraints).toBeUndefined();
+  });
+
+  it('should parse constraints into directives', () => {
+    const directives = parseDirectives({
+      $type: 'User',
+      $constraints: { age: { min: 18 } },
+    });
+
+    expect(directives.constraints).toEqual({ age: { min: 18 } });
+  });
+
+  it('should ignore constraint keys with invalid values', () => {
+    expect(
+      parseFieldConstraints({ min: '0', max: 10, format: 'phone', pattern: 42, minLength: Infinity })
+    ).toEqual({ max: 10 });
+    expect(parseFieldConstraints({ format: 'phone' })).toBeUndefined();
+    expect(parseFieldConstraints('min: 0')).toBeUndefined();
+  });
+
+  it('should compare constraints by value', () => {
+    expect(fieldConstraintsEqual({ min: 0, max: 1 }, { max: 1, min: 0 })).toBe(true);
+    expect(fieldConstraintsEqual(undefined, {})).toBe(true);
+    expect(fieldConstraintsEqual({ min: 0 }, { min: 1 })).toBe(false);
+    expect(fieldConstraintsEqual({ min: 0 }, undefined)).toBe(false);
+  });
+});
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+describe('validateSchema with constraints', () => {
+  it('should accept well-formed constraints', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      $constraints: { age: { min: 0, max: 150 }, slug: { pattern: '^[a-z]+$' } },
+      age: 'int',
+      slug: 'string',
+    });
+
+    expect(validateSchema(schema).valid).toBe(true);
+  });
+
+  it('should reject constraints on unknown fields', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      $constraints: { age: { min: 0 } },
+    });
+
+    expect(validateSchema(schema).errors).toContainEqual(
+      expect.objectContaining({ path: '$constraints.age', code: 'UNKNOWN_CONSTRAINT_FIELD' })
+    );
+  });
+
+  it('should reject constraints that do not fit the field type', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      $constraints: { name: { min: 0 }, age: { pattern: '^[0-9]+$' }, tags: { maxLength: 3 } },
+      name: 'string',
+      age: 'int',
+      tags: 'string[]',
+    });
+
+    const errors = validateSchema(schema).errors.filter((e) => e.code === 'INVALID_CONSTRAINT');
+    expect(errors.map((e) => e.path).sort()).toEqual([
+      '$constraints.age',
+      '$constraints.name',
+      '$constraints.tags',
+    ]);
+  });
+
+  it('should reject inverted ranges', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      $constraints: { age: { min: 10, max: 5 }, slug: { minLength: 8, maxLength: 4 } },
+      age: 'int',
+      slug: 'string',
+    });
+
+    const codes = validateSchema(schema).errors.map((e) => e.code);
+    expect(codes.filter((c) => c === 'INVALID_CONSTRAINT_RANGE')).toHaveLength(2);
+  });
+
+  it('should reject invalid patterns', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      $constraints: { slug: { pattern: '([a-z' } },
+      slug: 'string',
+    });
+
+    expect(validateSchema(schema).errors).toContainEqual(
+      expect.objectContaining({ path: '$constraints.slug', code: 'INVALID_CONSTRAINT_PATTERN' })
+    );
+  });
+});
+
+// =============================================================================
+// CHECK Expressions
+// =============================================================================
+
+describe('generateCheckExpression', () => {
+  it('should render numeric ranges', () => {
+    expect(generateCheckExpression('age', { min: 0, max: 150 }, 'postgres')).toBe('age >= 0 AND age <= 150');
+  });
+
+  it('should use each dialect\'s length function', () => {
+    const constraints = { minLength: 1, maxLength: 64 };
+    expect(generateCheckExpression('slug', constraints, 'postgres')).toBe(
+      'char_length(slug) >= 1 AND char_length(slug) <= 64'
+    );
+    expect(generateCheckExpression('slug', constraints, 'mysql')).toContain('CHAR_LENGTH(slug) >= 1');
+    expect(generateCheckExpression('slug', constraints, 'sqlite')).toContain('length(slug) >= 1');
+    expect(generateCheckExpression('slug', constraints, 'clickhouse')).toContain('lengthUTF8(slug) >= 1');
+  });
+
+  it('should use each dialect\'s regular expression match', () => {
+    const constraints = { pattern: "^[a-z']+$" };
+    expect(generateCheckExpression('slug', constraints, 'postgres')).toBe("slug ~ '^[a-z'']+$'");
+    expect(generateCheckExpression('slug', constraints, 'mysql')).toBe("slug REGEXP '^[a-z'']+$'");
+    expect(generateCheckExpression('slug', constraints, 'duckdb')).toBe("regexp_matches(slug, '^[a-z'']+$')");
+    expect(generateCheckExpression('slug', constraints, 'clickhouse')).toBe("match(slug, '^[a-z'']+$')");
+  });
+
+  it('should double backslashes for MySQL and ClickHouse only', () => {
+    const constraints = { pattern: '^\\d+$' };
+    expect(generateCheckExpression('code', constraints, 'postgres')).toBe("code ~ '^\\d+$'");
+    expect(generateCheckExpression('code', constraints, 'mysql')).toBe("code REGEXP '^\\\\d+$'");
+    expect(generateCheckExpression('code', constraints, 'clickhouse')).toBe("match(code, '^\\\\d+$')");
+  });
+
+  it('should render formats as patterns', () => {
+    expect(generateCheckExpression('email', { format: 'email' }, 'postgres')).toBe("email ~ '^[^@ ]+@[^@ ]+[.][^@ ]+$'");
+  });
+
+  it('should omit patterns for SQLite', () => {
+    expect(generateCheckExpression('slug', { pattern: '^[a-z]+$' }, 'sqlite')).toBeUndefined();
+    expect(generateCheckExpression('slug', { pattern: '^[a-z]+$', maxLength: 8 }, 'sqlite')).toBe('length(slug) <= 8');
+  });
+
+  it('should name constraints after the table and column', () => {
+    expect(getCheckConstraintName('users', 'age')).toBe('users_age_check');
+  });
+});
+
+// =============================================================================
+// Diffing and Migrations
+// =============================================================================
+
+describe('constraint changes', () => {
+  const v1 = parseSchema({
+    $type: 'users',
+    $constraints: { age: { min: 0 } },
+    age: 'int',
+  });
+  const v2 = parseSchema({
+    $type: 'users',
+    $constraints: { age: { min: 0, max: 150 }, score: { min: 0 } },
+    age: 'int',
+    score: 'double',
+  });
+
+  it('should diff changed constraints as drop_constraint then add_constraint', () => {
+    const diff = diffSchemas(v1, v2);
+    const constraintChanges = diff.changes.filter(
+      (c) => c.type === 'add_constraint' || c.type === 'drop_constraint'
+    );
+
+    expect(constraintChanges).toEqual([
+      { type: 'drop_constraint', field: 'age', constraints: { min: 0 } },
+      { type: 'add_constraint', field: 'age', constraints: { min: 0, max: 150 } },
+      { type: 'add_constraint', field: 'score', constraints: { min: 0 } },
+    ]);
+    expect(diff.isBreaking).toBe(true);
+  });
+
+  it('should not treat constraints on new fields as breaking', () => {
+    const diff = diffSchemas(parseSchema({ $type: 'users', age: 'int' }), parseSchema({
+      $type: 'users',
+      $constraints: { score: { min: 0 } },
+      age: 'int',
+      score: 'double',
+    }));
+
+    expect(diff.changes.map((c) => c.type)).toEqual(['add_field', 'add_constraint']);
+    expect(diff.isBreaking).toBe(false);
+  });
+
+  it('should create addConstraint and dropConstraint operations', () => {
+    const migration = createMigrationFromDiff(
+      diffSchemasLegacy(v1, v2),
+      { major: 1, minor: 0, patch: 0 },
+      { major: 1, minor: 1, patch: 0 }
+    );
+
+    expect(migration.operations).toContainEqual({
+      op: 'dropConstraint',
+      table: 'users',
+      constraintName: 'users_age_check',
+    });
+    expect(migration.operations).toContainEqual({
+      op: 'addConstraint',
+      table: 'users',
+      constraint: { type: 'check', name: 'users_age_check', expression: 'age >= 0 AND age <= 150' },
+    });
+    expect(migration.operations).toContainEqual({
+      op: 'addConstraint',
+      table: 'users',
+      constraint: { type: 'check', name: 'users_score_check', expression: 'score >= 0' },
+    });
+  });
+
+  it('should generate reversible migration plans', () => {
+    const plan = generateMigrationPlan(diffSchemasLegacy(v1, v2), { dialect: 'postgres' });
+
+    expect(plan.up).toContain('ALTER TABLE users DROP CONSTRAINT users_age_check;');
+    expect(plan.up).toContain('ALTER TABLE users ADD CONSTRAINT users_age_check CHECK (age >= 0 AND age <= 150);');
+    expect(plan.up).toContain('ALTER TABLE users ADD CONSTRAINT users_score_check CHECK (score >= 0);');
+    expect(plan.down).toContain('ALTER TABLE users ADD CONSTRAINT users_age_check CHECK (age >= 0);');
+  });
+
+  it('should use ClickHouse CHECK syntax and skip DuckDB', () => {
+    const diff = diffSchemasLegacy(v1, v2);
+
+    expect(generateMigrationPlan(diff, { dialect: 'clickhouse' }).up).toContain(
+      'ALTER TABLE users ADD CONSTRAINT users_age_check CHECK age >= 0 AND age <= 150;'
+    );
+    expect(generateMigrationPlan(diff, { dialect: 'duckdb' }).up).not.toContain('CONSTRAINT');
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Enum Declaration Tests for @icetype/core
+ *
+ * Tests for the $enums directive, enum value resolution on fields,
+ * and validation of enum defaults.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSchema, parseDirectives, validateSchema } from '../src/parser.js';
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+describe('$enums directive', () => {
+  it('should parse enum declarations into directives', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      $enums: {
+        Status: ['active', 'inactive'],
+        Role: ['admin', 'member'],
+      },
+      status: 'enum<Status>',
+    });
+
+    expect(schema.directives.enums).toEqual([
+      { name: 'Status', values: ['active', 'inactive'] },
+      { name: 'Role', values: ['admin', 'member'] },
+    ]);
+  });
+
+  it('should resolve enum values onto enum<Name> fields', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      $enums: { Status: ['active', 'inactive'] },
+      status: "enum<Status> = 'active'",
+      statuses: 'enum<Status>[]',
+    });
+
+    const status = schema.fields.get('status');
+    expect(status?.enumName).toBe('Status');
+    expect(status?.enumValues).toEqual(['active', 'inactive']);
+    expect(status?.defaultValue).toBe('active');
+
+    const statuses = schema.fields.get('statuses');
+    expect(statuses?.isArray).toBe(true);
+    expect(statuses?.enumValues).toEqual(['active', 'inactive']);
+  });
+
+  it('should leave enumValues unset for undeclared enums', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      status: 'enum<Status>',
+    });
+
+    expect(schema.fields.get('status')?.enumName).toBe('Status');
+    expect(schema.fields.get('status')?.enumValues).toBeUndefined();
+  });
+
+  it('should ignore enum declarations with non-string values', () => {
+    const directives = parseDirectives({
+      $type: 'User',
+      $enums: {
+        Status: ['active', 'inactive'],
+        Bad: [1, 2] as unknown as string[],
+      },
+    });
+
+    expect(directives.enums).toEqual([{ name: 'Status', values: ['active', 'inactive'] }]);
+  });
+});
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+describe('validateSchema with enums', () => {
+  it('should accept a default that is one of the enum values', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      $enums: { Status: ['active', 'inactive'] },
+      status: "enum<Status> = 'active'",
+    });
+
+    const result = validateSchema(schema);
+    expect(result.valid).toBe(true);
+    expect(result.errors).toHaveLength(0);
+  });
+
+  it('should reject a default that is not one of the enum values', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      $enums: { Status: ['active', 'inactive'] },
+      status: "enum<Status> = 'deleted'",
+    });
+
+    const result = validateSchema(schema);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContainEqual(
+      expect.objectContaining({ path: 'status', code: 'INVALID_ENUM_DEFAULT' })
+    );
+    expect(result.errors[0]?.message).toContain("'Status'");
+  });
+
+  it('should reject object-style defaults that are not enum values', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      $enums: { Status: ['active', 'inactive'] },
+      status: { type: 'enum<Status>', default: 'unknown' },
+    });
+
+    const result = validateSchema(schema);
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => e.code)).toContain('INVALID_ENUM_DEFAULT');
+  });
+
+  it('should warn about enum fields referencing undeclared enums', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      status: 'enum<Status>',
+    });
+
+    const result = validateSchema(schema);
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toContainEqual(
+      expect.objectContaining({ path: 'status', code: 'UNDECLARED_ENUM' })
+    );
+  });
+
+  it('should reject empty enum declarations', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      $enums: { Status: [] },
+    });
+
+    const result = validateSchema(schema);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContainEqual(
+      expect.objectContaining({ path: '$enums.Status', code: 'EMPTY_ENUM' })
+    );
+  });
+
+  it('should reject duplicate enum values', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      $enums: { Status: ['active', 'active'] },
+    });
+
+    const result = validateSchema(schema);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContainEqual(
+      expect.objectContaining({ path: '$enums.Status', code: 'DUPLICATE_ENUM_VALUE' })
+    );
+  });
+});
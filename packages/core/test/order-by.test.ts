@@ -0,0 +1,182 @@
+/**
+ * Sort Order Tests for @icetype/core
+ *
+ * Tests for the $orderBy directive, transform parsing, validation of sort
+ * fields, ClickHouse sorting key rendering, and sort order diffing.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSchema, validateSchema } from '../src/parser.js';
+import { ParseError } from '../src/errors.js';
+import {
+  parseOrderByDirective,
+  parseFieldTransform,
+  formatOrderBy,
+  orderByEqual,
+  canApplyTransform,
+  generateSortKeyExpression,
+} from '../src/order-by.js';
+import { diffSchemas } from '../src/diff.js';
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+describe('$orderBy directive', () => {
+  it('should parse keys with directions, null ordering and transforms', () => {
+    const schema = parseSchema({
+      $type: 'Event',
+      $orderBy: ['day(createdAt) DESC', 'bucket(16, userId)', 'id asc nulls last'],
+      id: 'uuid!',
+      userId: 'uuid!',
+      createdAt: 'timestamp!',
+    });
+
+    expect(schema.directives.orderBy).toEqual([
+      { field: 'createdAt', transform: 'day', direction: 'desc', nulls: 'last' },
+      { field: 'userId', transform: 'bucket', transformArg: 16, direction: 'asc', nulls: 'first' },
+      { field: 'id', transform: 'identity', direction: 'asc', nulls: 'last' },
+    ]);
+  });
+
+  it('should accept a comma-separated string and object keys', () => {
+    expect(parseOrderByDirective('tenantId, truncate(4, name) DESC')).toEqual([
+      { field: 'tenantId', transform: 'identity', direction: 'asc', nulls: 'first' },
+      { field: 'name', transform: 'truncate', transformArg: 4, direction: 'desc', nulls: 'last' },
+    ]);
+
+    expect(
+      parseOrderByDirective([
+        { field: 'createdAt', transform: 'month', direction: 'DESC', nulls: 'first' },
+        { field: 'bucket(8, id)' },
+      ])
+    ).toEqual([
+      { field: 'createdAt', transform: 'month', direction: 'desc', nulls: 'first' },
+      { field: 'id', transform: 'bucket', transformArg: 8, direction: 'asc', nulls: 'first' },
+    ]);
+  });
+
+  it('should reject malformed keys', () => {
+    expect(() => parseOrderByDirective([])).toThrow(ParseError);
+    expect(() => parseOrderByDirective(['createdAt sideways'])).toThrow(/Invalid transform/);
+    expect(() => parseOrderByDirective(['bucket(id)'])).toThrow(/positive width/);
+    expect(() => parseOrderByDirective(['day(7, createdAt)'])).toThrow(/does not take an argument/);
+    expect(() => parseOrderByDirective([{ field: 'id', direction: 'up' }])).toThrow(/sort direction/);
+    expect(() => parseOrderByDirective([42])).toThrow(ParseError);
+  });
+
+  it('should report the INVALID_ORDER_BY and INVALID_TRANSFORM codes', () => {
+    try {
+      parseSchema({ $type: 'Event', $orderBy: [{ direction: 'asc' }], id: 'uuid' });
+      expect.fail('Expected a ParseError');
+    } catch (error) {
+      expect((error as ParseError).code).toBe('INVALID_ORDER_BY');
+    }
+
+    try {
+      parseFieldTransform('week(createdAt)', '$partitionBy');
+      expect.fail('Expected a ParseError');
+    } catch (error) {
+      expect((error as ParseError).code).toBe('INVALID_TRANSFORM');
+      expect((error as ParseError).path).toBe('$partitionBy');
+    }
+  });
+
+  it('should compare sort orders by value', () => {
+    expect(orderByEqual(parseOrderByDirective('id'), parseOrderByDirective([{ field: 'id', nulls: 'first' }]))).toBe(true);
+    expect(orderByEqual(parseOrderByDirective('id'), parseOrderByDirective('id DESC'))).toBe(false);
+    expect(orderByEqual(undefined, parseOrderByDirective('id'))).toBe(false);
+  });
+});
+
+describe('validateSchema with $orderBy', () => {
+  it('should accept transforms that fit the field type', () => {
+    const schema = parseSchema({
+      $type: 'Event',
+      $orderBy: ['hour(createdAt)', 'truncate(3, name)', 'bucket(4, id)', 'score DESC'],
+      id: 'uuid!',
+      name: 'string',
+      score: 'double',
+      createdAt: 'timestamp!',
+    });
+
+    expect(validateSchema(schema).valid).toBe(true);
+  });
+
+  it('should reject unknown fields', () => {
+    const schema = parseSchema({ $type: 'Event', $orderBy: ['missing'], id: 'uuid!' });
+
+    expect(validateSchema(schema).errors).toContainEqual(
+      expect.objectContaining({ path: '$orderBy.missing', code: 'UNKNOWN_ORDER_BY_FIELD' })
+    );
+  });
+
+  it('should reject transforms that do not fit the field type', () => {
+    const schema = parseSchema({ $type: 'Event', $orderBy: ['day(name)', 'tags'], name: 'string', tags: 'string[]' });
+    const errors = validateSchema(schema).errors.filter((e) => e.code === 'INVALID_ORDER_BY_FIELD');
+
+    expect(errors.map((e) => e.path)).toEqual(['$orderBy.name', '$orderBy.tags']);
+    expect(canApplyTransform('hour', 'date')).toBe(false);
+    expect(canApplyTransform('bucket', 'double')).toBe(false);
+  });
+});
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+describe('sort order rendering', () => {
+  it('should format sort orders for display', () => {
+    const orderBy = parseOrderByDirective(['day(createdAt) DESC', 'id NULLS LAST', 'bucket(16, userId)']);
+    expect(formatOrderBy(orderBy)).toBe('day(createdAt) DESC, id ASC NULLS LAST, bucket(16, userId) ASC');
+  });
+
+  it('should render ClickHouse sorting key expressions', () => {
+    const [day, month, year, hour, bucket] = parseOrderByDirective(
+      'day(at) DESC, month(at), year(at), hour(at), bucket(16, user_id)'
+    );
+    expect(generateSortKeyExpression('at', day!)).toBe('toDate(at) DESC');
+    expect(generateSortKeyExpression('at', month!)).toBe('toStartOfMonth(at)');
+    expect(generateSortKeyExpression('at', year!)).toBe('toStartOfYear(at)');
+    expect(generateSortKeyExpression('at', hour!)).toBe('toStartOfHour(at)');
+    expect(generateSortKeyExpression('user_id', bucket!)).toBe('cityHash64(user_id) % 16');
+  });
+
+  it('should truncate strings by prefix and numbers by width', () => {
+    const [truncate] = parseOrderByDirective('truncate(10, v)');
+    expect(generateSortKeyExpression('v', truncate!, 'string')).toBe('substring(v, 1, 10)');
+    expect(generateSortKeyExpression('v', truncate!, 'long')).toBe('intDiv(v, 10) * 10');
+  });
+});
+
+// =============================================================================
+// Diffing
+// =============================================================================
+
+describe('sort order changes', () => {
+  const base = { $type: 'Event', id: 'uuid!', createdAt: 'timestamp!' };
+
+  it('should diff sort order changes as a non-breaking $orderBy directive change', () => {
+    const oldSchema = parseSchema({ ...base, $orderBy: ['id'] });
+    const newSchema = parseSchema({ ...base, $orderBy: ['createdAt DESC', 'id'] });
+
+    const diff = diffSchemas(oldSchema, newSchema);
+
+    expect(diff.changes).toEqual([
+      {
+        type: 'change_directive',
+        directive: '$orderBy',
+        oldValue: oldSchema.directives.orderBy,
+        newValue: newSchema.directives.orderBy,
+      },
+    ]);
+    expect(diff.isBreaking).toBe(false);
+  });
+
+  it('should not report equivalent sort orders as changes', () => {
+    const oldSchema = parseSchema({ ...base, $orderBy: 'createdAt DESC, id' });
+    const newSchema = parseSchema({ ...base, $orderBy: ['createdAt desc nulls last', { field: 'id' }] });
+
+    expect(diffSchemas(oldSchema, newSchema).changes).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Partitioning Tests for @icetype/core
+ *
+ * Tests for the $partitionBy directive, transform parsing, validation of
+ * partition fields and ClickHouse partition expression rendering.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSchema, validateSchema } from '../src/parser.js';
+import { ParseError } from '../src/errors.js';
+import {
+  parsePartitionBy,
+  formatPartitionField,
+  generatePartitionExpression,
+} from '../src/partition.js';
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+describe('$partitionBy directive', () => {
+  it('should parse bare fields and transforms', () => {
+    expect(parsePartitionBy(['tenantId', 'month(createdAt)', 'bucket(16, userId)', 'TRUNCATE(4, sku)'])).toEqual([
+      { field: 'tenantId', transform: 'identity' },
+      { field: 'createdAt', transform: 'month' },
+      { field: 'userId', transform: 'bucket', transformArg: 16 },
+      { field: 'sku', transform: 'truncate', transformArg: 4 },
+    ]);
+    expect(formatPartitionField({ field: 'userId', transform: 'bucket', transformArg: 16 })).toBe('bucket(16, userId)');
+  });
+
+  it('should keep the directive entries as declared', () => {
+    const schema = parseSchema({
+      $type: 'Event',
+      $partitionBy: ['hour(ts)', 'tenantId'],
+      ts: 'timestamp!',
+      tenantId: 'string!',
+    });
+
+    expect(schema.directives.partitionBy).toEqual(['hour(ts)', 'tenantId']);
+  });
+
+  it('should reject malformed keys when parsing the schema', () => {
+    expect(() => parseSchema({ $type: 'Event', $partitionBy: ['bucket(userId)'], userId: 'uuid' })).toThrow(
+      /positive width/
+    );
+    expect(() => parseSchema({ $type: 'Event', $partitionBy: ['week(ts)'], ts: 'timestamp' })).toThrow(ParseError);
+  });
+});
+
+describe('validateSchema with $partitionBy', () => {
+  it('should accept transforms that fit the field type', () => {
+    const schema = parseSchema({
+      $type: 'Event',
+      $partitionBy: ['day(createdAt)', 'year(day)', 'bucket(16, userId)', 'truncate(4, sku)'],
+      userId: 'uuid!',
+      sku: 'string!',
+      day: 'date!',
+      createdAt: 'timestamp!',
+    });
+
+    expect(validateSchema(schema).valid).toBe(true);
+  });
+
+  it('should reject unknown fields under the source field path', () => {
+    const schema = parseSchema({ $type: 'Event', $partitionBy: ['month(missing)'], id: 'uuid!' });
+
+    expect(validateSchema(schema).errors).toContainEqual(
+      expect.objectContaining({ path: '$partitionBy.missing', code: 'UNKNOWN_PARTITION_FIELD' })
+    );
+  });
+
+  it('should reject transforms that do not fit the field type', () => {
+    const schema = parseSchema({
+      $type: 'Event',
+      $partitionBy: ['hour(day)', 'truncate(2, active)', 'tags'],
+      day: 'date!',
+      active: 'boolean',
+      tags: 'string[]',
+    });
+    const errors = validateSchema(schema).errors.filter((e) => e.code === 'INVALID_PARTITION_FIELD');
+
+    expect(errors.map((e) => e.path)).toEqual(['$partitionBy.day', '$partitionBy.active', '$partitionBy.tags']);
+    expect(errors[0]!.message).toBe("Cannot partition by 'hour(day)': field 'day' is date");
+  });
+});
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+describe('partition expression rendering', () => {
+  it('should render ClickHouse partition expressions', () => {
+    const [year, month, day, hour, bucket, truncate, identity] = parsePartitionBy([
+      'year(at)',
+      'month(at)',
+      'day(at)',
+      'hour(at)',
+      'bucket(16, user_id)',
+      'truncate(4, sku)',
+      'tenant',
+    ]);
+    expect(generatePartitionExpression('at', year!)).toBe('toYear(at)');
+    expect(generatePartitionExpression('at', month!)).toBe('toYYYYMM(at)');
+    expect(generatePartitionExpression('at', day!)).toBe('toYYYYMMDD(at)');
+    expect(generatePartitionExpression('at', hour!)).toBe('toStartOfHour(at)');
+    expect(generatePartitionExpression('user_id', bucket!)).toBe('cityHash64(user_id) % 16');
+    expect(generatePartitionExpression('sku', truncate!, 'string')).toBe('substring(sku, 1, 4)');
+    expect(generatePartitionExpression('tenant', identity!)).toBe('tenant');
+  });
+
+  it('should reject transforms that do not apply to the field type', () => {
+    const [hour, truncate] = parsePartitionBy(['hour(day)', 'truncate(4, at)']);
+
+    expect(() => generatePartitionExpression('day', hour!, 'date')).toThrow(
+      "Cannot partition by 'hour(day)': field 'day' is date"
+    );
+    expect(() => generatePartitionExpression('at', truncate!, 'timestamp')).toThrow(ParseError);
+    expect(generatePartitionExpression('day', hour!)).toBe('toStartOfHour(day)');
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Struct Declaration Tests for @icetype/core
+ *
+ * Tests for the $structs directive, nested field resolution on
+ * struct<Name> fields, and validation of struct declarations.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSchema, parseDirectives, validateSchema } from '../src/parser.js';
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+describe('$structs directive', () => {
+  it('should parse struct declarations into directives', () => {
+    const directives = parseDirectives({
+      $type: 'User',
+      $structs: {
+        Address: { street: 'string!', city: 'string?', tags: 'string[]' },
+      },
+    });
+
+    expect(directives.structs).toHaveLength(1);
+    const address = directives.structs?.[0];
+    expect(address?.name).toBe('Address');
+    expect(address?.fields.map((f) => f.name)).toEqual(['street', 'city', 'tags']);
+    expect(address?.fields[1]?.isOptional).toBe(true);
+    expect(address?.fields[2]?.isArray).toBe(true);
+  });
+
+  it('should resolve struct fields onto struct<Name> fields', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      $structs: {
+        Address: { street: 'string!', zip: 'varchar(10)' },
+      },
+      address: 'struct<Address>',
+      previous: 'struct<Address>[]',
+    });
+
+    const address = schema.fields.get('address');
+    expect(address?.structName).toBe('Address');
+    expect(address?.structFields?.map((f) => [f.name, f.type])).toEqual([
+      ['street', 'string'],
+      ['zip', 'varchar'],
+    ]);
+    expect(address?.structFields?.[1]?.length).toBe(10);
+
+    const previous = schema.fields.get('previous');
+    expect(previous?.isArray).toBe(true);
+    expect(previous?.structFields).toHaveLength(2);
+  });
+
+  it('should resolve nested structs and enums recursively', () => {
+    const schema = parseSchema({
+      $type: 'Place',
+      $enums: { Kind: ['home', 'work'] },
+      $structs: {
+        Geo: { lat: 'double', lng: 'double' },
+        Address: { kind: 'enum<Kind>', geo: 'struct<Geo>' },
+      },
+      address: 'struct<Address>',
+    });
+
+    const [kind, geo] = schema.fields.get('address')?.structFields ?? [];
+    expect(kind?.enumValues).toEqual(['home', 'work']);
+    expect(geo?.structFields?.map((f) => f.name)).toEqual(['lat', 'lng']);
+  });
+
+  it('should not share field objects between uses of the same struct', () => {
+    const schema = parseSchema({
+      $type: 'Order',
+      $structs: { Address: { street: 'string' } },
+      billing: 'struct<Address>',
+      shipping: 'struct<Address>',
+    });
+
+    const billing = schema.fields.get('billing')?.structFields?.[0];
+    const shipping = schema.fields.get('shipping')?.structFields?.[0];
+    expect(billing).toEqual(shipping);
+    expect(billing).not.toBe(shipping);
+  });
+
+  it('should stop resolving at recursive struct references', () => {
+    const schema = parseSchema({
+      $type: 'Tree',
+      $structs: { Node: { label: 'string', child: 'struct<Node>' } },
+      root: 'struct<Node>',
+    });
+
+    const child = schema.fields.get('root')?.structFields?.[1];
+    expect(child?.structName).toBe('Node');
+    expect(child?.structFields).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+describe('validateSchema with structs', () => {
+  it('should accept declared structs', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      $structs: { Address: { street: 'string!' } },
+      address: 'struct<Address>',
+    });
+
+    const result = validateSchema(schema);
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toHaveLength(0);
+  });
+
+  it('should warn about struct fields referencing undeclared structs', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      address: 'struct<Address>',
+    });
+
+    const result = validateSchema(schema);
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toContainEqual(
+      expect.objectContaining({ path: 'address', code: 'UNDECLARED_STRUCT' })
+    );
+  });
+
+  it('should reject unknown types inside struct declarations', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      $structs: { Address: { street: 'strang' } },
+    });
+
+    const result = validateSchema(schema);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContainEqual(
+      expect.objectContaining({ path: '$structs.Address.street', code: 'UNKNOWN_TYPE' })
+    );
+  });
+
+  it('should reject structs that contain themselves', () => {
+    const schema = parseSchema({
+      $type: 'Graph',
+      $structs: {
+        A: { b: 'struct<B>' },
+        B: { a: 'struct<A>' },
+      },
+    });
+
+    const result = validateSchema(schema);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContainEqual(
+      expect.objectContaining({ path: '$structs.A', code: 'RECURSIVE_STRUCT' })
+    );
+    expect(result.errors).toContainEqual(
+      expect.objectContaining({ path: '$structs.B', code: 'RECURSIVE_STRUCT' })
+    );
+  });
+});
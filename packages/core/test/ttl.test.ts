@@ -0,0 +1,214 @@
+/**
+ * Row Expiry Tests for @icetype/core
+ *
+ * Tests for the $ttl directive, validation of the TTL field, rendering
+ * for ClickHouse, ISO 8601 and purge statements, and TTL diffing.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSchema, validateSchema } from '../src/parser.js';
+import { ParseError } from '../src/errors.js';
+import {
+  parseTtlDirective,
+  parseTtlDuration,
+  formatTtlDirective,
+  ttlDurationToIso8601,
+  ttlDirectivesEqual,
+  generateTtlClause,
+  generateTtlPurgeStatement,
+} from '../src/ttl.js';
+import { diffSchemas } from '../src/diff.js';
+import { diffSchemas as diffSchemasLegacy, generateMigrationPlan } from '../src/migrations.js';
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+describe('$ttl directive', () => {
+  it('should parse the field plus duration shorthand as a delete action', () => {
+    const schema = parseSchema({
+      $type: 'Event',
+      $ttl: 'createdAt + 30d',
+      createdAt: 'timestamp!',
+    });
+
+    expect(schema.directives.ttl).toEqual({
+      field: 'createdAt',
+      actions: [{ type: 'delete', after: { amount: 30, unit: 'day' } }],
+    });
+  });
+
+  it('should parse delete and move-to-volume actions ordered by duration', () => {
+    const ttl = parseTtlDirective({
+      field: 'createdAt',
+      delete: '1 year',
+      moveToVolume: { cold: '90 days', warm: '1w' },
+    });
+
+    expect(ttl.actions).toEqual([
+      { type: 'move', after: { amount: 1, unit: 'week' }, volume: 'warm' },
+      { type: 'move', after: { amount: 90, unit: 'day' }, volume: 'cold' },
+      { type: 'delete', after: { amount: 1, unit: 'year' } },
+    ]);
+  });
+
+  it('should accept unit names and abbreviations', () => {
+    expect(parseTtlDuration('45m')).toEqual({ amount: 45, unit: 'minute' });
+    expect(parseTtlDuration('12 hours')).toEqual({ amount: 12, unit: 'hour' });
+    expect(parseTtlDuration('6mo')).toEqual({ amount: 6, unit: 'month' });
+    expect(parseTtlDuration('1 Day')).toEqual({ amount: 1, unit: 'day' });
+  });
+
+  it('should reject malformed directives', () => {
+    expect(() => parseTtlDuration('soon')).toThrow(ParseError);
+    expect(() => parseTtlDuration('0d')).toThrow(/Invalid TTL duration/);
+    expect(() => parseTtlDirective('30d')).toThrow(/<field> \+ <duration>/);
+    expect(() => parseTtlDirective({ field: 'createdAt' })).toThrow(/at least one/);
+    expect(() => parseTtlDirective(30)).toThrow(ParseError);
+  });
+
+  it('should report the INVALID_TTL code', () => {
+    try {
+      parseSchema({ $type: 'Event', $ttl: 'createdAt + 3 fortnights', createdAt: 'timestamp' });
+      expect.fail('Expected a ParseError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ParseError);
+      expect((error as ParseError).code).toBe('INVALID_TTL');
+    }
+  });
+
+  it('should compare directives by value', () => {
+    expect(ttlDirectivesEqual(parseTtlDirective('createdAt + 30d'), parseTtlDirective({ field: 'createdAt', delete: '30 days' }))).toBe(true);
+    expect(ttlDirectivesEqual(parseTtlDirective('createdAt + 30d'), parseTtlDirective('createdAt + 31d'))).toBe(false);
+    expect(ttlDirectivesEqual(undefined, undefined)).toBe(true);
+    expect(ttlDirectivesEqual(parseTtlDirective('createdAt + 30d'), undefined)).toBe(false);
+  });
+});
+
+describe('validateSchema with $ttl', () => {
+  it('should accept timestamp and date fields', () => {
+    for (const type of ['timestamp', 'timestamptz', 'date']) {
+      const schema = parseSchema({ $type: 'Event', $ttl: 'at + 1d', at: type });
+      expect(validateSchema(schema).valid).toBe(true);
+    }
+  });
+
+  it('should reject unknown fields', () => {
+    const schema = parseSchema({ $type: 'Event', $ttl: 'expiresAt + 1d', createdAt: 'timestamp' });
+    const result = validateSchema(schema);
+
+    expect(result.errors).toContainEqual(expect.objectContaining({ path: '$ttl', code: 'UNKNOWN_TTL_FIELD' }));
+  });
+
+  it('should reject fields that are not timestamps or dates', () => {
+    const schema = parseSchema({ $type: 'Event', $ttl: 'count + 1d', count: 'int' });
+    expect(validateSchema(schema).errors).toContainEqual(expect.objectContaining({ code: 'INVALID_TTL_FIELD' }));
+
+    const arraySchema = parseSchema({ $type: 'Event', $ttl: 'tags + 1d', tags: 'timestamp[]' });
+    expect(validateSchema(arraySchema).errors).toContainEqual(expect.objectContaining({ code: 'INVALID_TTL_FIELD' }));
+  });
+});
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+describe('TTL rendering', () => {
+  const ttl = parseTtlDirective({ field: 'createdAt', delete: '90d', moveToVolume: { cold: '7d' } });
+
+  it('should format directives for display', () => {
+    expect(formatTtlDirective(ttl)).toBe('createdAt: move to cold after 7 days, delete after 90 days');
+    expect(formatTtlDirective(parseTtlDirective('createdAt + 1h'))).toBe('createdAt: delete after 1 hour');
+  });
+
+  it('should format durations as ISO 8601', () => {
+    expect(ttlDurationToIso8601({ amount: 90, unit: 'day' })).toBe('P90D');
+    expect(ttlDurationToIso8601({ amount: 12, unit: 'hour' })).toBe('PT12H');
+    expect(ttlDurationToIso8601({ amount: 30, unit: 'minute' })).toBe('PT30M');
+    expect(ttlDurationToIso8601({ amount: 6, unit: 'month' })).toBe('P6M');
+  });
+
+  it('should render ClickHouse TTL clauses', () => {
+    expect(generateTtlClause('created_at', ttl)).toBe(
+      "created_at + INTERVAL 7 DAY TO VOLUME 'cold', created_at + INTERVAL 90 DAY"
+    );
+  });
+
+  it('should render purge statements for each dialect', () => {
+    expect(generateTtlPurgeStatement('"events"', '"createdAt"', ttl, 'postgres')).toBe(
+      `DELETE FROM "events" WHERE "createdAt" < CURRENT_TIMESTAMP - INTERVAL '90 days';`
+    );
+    expect(generateTtlPurgeStatement('events', 'createdAt', ttl, 'duckdb')).toBe(
+      `DELETE FROM events WHERE createdAt < CURRENT_TIMESTAMP - INTERVAL '90 days';`
+    );
+    expect(generateTtlPurgeStatement('events', 'createdAt', ttl, 'sqlite')).toBe(
+      `DELETE FROM events WHERE createdAt < strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '-90 days');`
+    );
+  });
+
+  it('should compare SQLite dates as dates and convert weeks to days', () => {
+    const weekly = parseTtlDirective('day + 2w');
+    expect(generateTtlPurgeStatement('events', 'day', weekly, 'sqlite', 'date')).toBe(
+      `DELETE FROM events WHERE day < date('now', '-14 days');`
+    );
+  });
+
+  it('should not purge when the directive only moves rows', () => {
+    const moveOnly = parseTtlDirective({ field: 'createdAt', moveToVolume: { cold: '7d' } });
+    expect(generateTtlPurgeStatement('events', 'createdAt', moveOnly, 'postgres')).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// Diffing
+// =============================================================================
+
+describe('TTL changes', () => {
+  const base = { $type: 'Event', createdAt: 'timestamp!' };
+
+  it('should diff TTL changes as a $ttl directive change', () => {
+    const oldSchema = parseSchema({ ...base, $ttl: 'createdAt + 30d' });
+    const newSchema = parseSchema({ ...base, $ttl: 'createdAt + 90d' });
+
+    const diff = diffSchemas(oldSchema, newSchema);
+
+    expect(diff.changes).toEqual([
+      {
+        type: 'change_directive',
+        directive: '$ttl',
+        oldValue: oldSchema.directives.ttl,
+        newValue: newSchema.directives.ttl,
+      },
+    ]);
+    expect(diff.isBreaking).toBe(false);
+  });
+
+  it('should not report equivalent TTLs as changes', () => {
+    const oldSchema = parseSchema({ ...base, $ttl: 'createdAt + 30d' });
+    const newSchema = parseSchema({ ...base, $ttl: { field: 'createdAt', delete: '30 days' } });
+
+    expect(diffSchemas(oldSchema, newSchema).changes).toEqual([]);
+    expect(diffSchemasLegacy(oldSchema, newSchema).hasChanges).toBe(false);
+  });
+
+  it('should generate MODIFY TTL and REMOVE TTL for ClickHouse', () => {
+    const oldSchema = parseSchema(base);
+    const newSchema = parseSchema({ ...base, $ttl: 'createdAt + 30d' });
+
+    const diff = diffSchemasLegacy(oldSchema, newSchema);
+    expect(diff.hasChanges).toBe(true);
+    expect(diff.ttlChange).toEqual({ newTtl: newSchema.directives.ttl });
+
+    const plan = generateMigrationPlan(diff, { dialect: 'clickhouse' });
+    expect(plan.up).toBe('ALTER TABLE Event MODIFY TTL createdAt + INTERVAL 30 DAY;');
+    expect(plan.down).toBe('ALTER TABLE Event REMOVE TTL;');
+  });
+
+  it('should not generate SQL for dialects without native expiry', () => {
+    const oldSchema = parseSchema({ ...base, $ttl: 'createdAt + 30d' });
+    const newSchema = parseSchema(base);
+
+    const plan = generateMigrationPlan(diffSchemasLegacy(oldSchema, newSchema), { dialect: 'postgres' });
+    expect(plan).toEqual({ up: '', down: '' });
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Document Validator Tests for @icetype/core
+ *
+ * Tests for validateDocument and compileValidator, which check records
+ * against an IceType schema at runtime.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSchema } from '../src/parser.js';
+import { compileValidator, validateDocument } from '../src/validator.js';
+import { DocumentValidationError, ErrorCodes, isDocumentValidationError } from '../src/errors.js';
+
+const UUID = '550e8400-e29b-41d4-a716-446655440000';
+
+function errorsOf(result: { errors: DocumentValidationError[] }): Array<[string | undefined, string]> {
+  return result.errors.map((e) => [e.path, e.code]);
+}
+
+// =============================================================================
+// Presence and Primitive Types
+// =============================================================================
+
+describe('validateDocument', () => {
+  const schema = parseSchema({
+    $type: 'User',
+    id: 'uuid!',
+    name: 'string',
+    age: 'int?',
+    score: 'double?',
+    active: 'bool = true',
+    createdAt: 'timestamp?',
+    payload: 'json?',
+  });
+
+  it('should accept a conforming document', () => {
+    const result = validateDocument(schema, {
+      id: UUID,
+      name: 'Ada',
+      age: 36,
+      score: 9.5,
+      createdAt: '2024-01-01T00:00:00Z',
+      payload: { anything: [1, 2] },
+    });
+
+    expect(result).toEqual({ valid: true, errors: [] });
+  });
+
+  it('should report missing required fields but allow optional and defaulted ones', () => {
+    const result = validateDocument(schema, { name: null });
+
+    expect(errorsOf(result)).toEqual([
+      ['id', ErrorCodes.MISSING_REQUIRED_FIELD],
+      ['name', ErrorCodes.MISSING_REQUIRED_FIELD],
+    ]);
+    expect(result.errors[1]?.message).toBe('name: Required field is null');
+  });
+
+  it('should report type mismatches with the offending value', () => {
+    const result = validateDocument(schema, {
+      id: 'not-a-uuid',
+      name: 42,
+      age: 2 ** 31,
+      active: 'yes',
+      createdAt: 'yesterday-ish',
+    });
+
+    expect(errorsOf(result)).toEqual([
+      ['id', ErrorCodes.INVALID_FIELD_TYPE],
+      ['name', ErrorCodes.INVALID_FIELD_TYPE],
+      ['age', ErrorCodes.INVALID_FIELD_TYPE],
+      ['active', ErrorCodes.INVALID_FIELD_TYPE],
+      ['createdAt', ErrorCodes.INVALID_FIELD_TYPE],
+    ]);
+    expect(result.errors[1]?.value).toBe(42);
+    expect(result.errors[1]?.message).toBe('name: Expected string, got number');
+    expect(result.errors.every(isDocumentValidationError)).toBe(true);
+  });
+
+  it('should reject non-object documents', () => {
+    const result = validateDocument(schema, [UUID]);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]?.path).toBeUndefined();
+    expect(result.errors[0]?.message).toBe('Expected an object, got array');
+  });
+
+  it('should reject unknown fields only when asked to', () => {
+    const doc = { id: UUID, name: 'Ada', nickname: 'ada', $type: 'User' };
+
+    expect(validateDocument(schema, doc).valid).toBe(true);
+    expect(errorsOf(validateDocument(schema, doc, { allowUnknownFields: false }))).toEqual([
+      ['nickname', ErrorCodes.UNKNOWN_DOCUMENT_FIELD],
+    ]);
+  });
+});
+
+// =============================================================================
+// Parametric, Enum, Struct and Collection Types
+// =============================================================================
+
+describe('compileValidator', () => {
+  const schema = parseSchema({
+    $type: 'Order',
+    $enums: { Status: ['pending', 'shipped'] },
+    $structs: { Address: { city: 'string!', zip: 'varchar(5)?' } },
+    code: 'varchar(8)',
+    total: 'decimal(6,2)',
+    status: 'enum<Status>',
+    shipTo: 'struct<Address>?',
+    tags: 'string[]?',
+    quantities: 'list<int>?',
+    prices: 'map<string, double>?',
+  });
+  const validate = compileValidator(schema);
+  const base = { code: 'A1', total: 10.5, status: 'pending' };
+
+  it('should check varchar length', () => {
+    expect(validate({ ...base, code: 'ABCDEFGH' }).valid).toBe(true);
+    expect(errorsOf(validate({ ...base, code: 'ABCDEFGHI' }))).toEqual([['code', ErrorCodes.STRING_TOO_LONG]]);
+  });
+
+  it('should check decimal precision and scale', () => {
+    expect(validate({ ...base, total: '9999.99' }).valid).toBe(true);
+    expect(validate({ ...base, total: 1.5e-1 }).valid).toBe(true);
+    expect(errorsOf(validate({ ...base, total: 10.125 }))).toEqual([['total', ErrorCodes.DECIMAL_OUT_OF_RANGE]]);
+    expect(errorsOf(validate({ ...base, total: 12345 }))).toEqual([['total', ErrorCodes.DECIMAL_OUT_OF_RANGE]]);
+    expect(errorsOf(validate({ ...base, total: '12.a' }))).toEqual([['total', ErrorCodes.INVALID_FIELD_TYPE]]);
+  });
+
+  it('should check enum values', () => {
+    const result = validate({ ...base, status: 'lost' });
+
+    expect(errorsOf(result)).toEqual([['status', ErrorCodes.INVALID_ENUM_VALUE]]);
+    expect(result.errors[0]?.message).toBe(`status: Expected one of 'pending', 'shipped', got "lost"`);
+  });
+
+  it('should address nested struct fields by dotted path', () => {
+    expect(validate({ ...base, shipTo: { city: 'Oslo', zip: '0150' } }).valid).toBe(true);
+    expect(errorsOf(validate({ ...base, shipTo: { zip: '015000' } }))).toEqual([
+      ['shipTo.city', ErrorCodes.MISSING_REQUIRED_FIELD],
+      ['shipTo.zip', ErrorCodes.STRING_TOO_LONG],
+    ]);
+    expect(errorsOf(validate({ ...base, shipTo: 'Oslo' }))).toEqual([['shipTo', ErrorCodes.INVALID_FIELD_TYPE]]);
+  });
+
+  it('should reject unknown struct fields only when asked to', () => {
+    const doc = { ...base, shipTo: { city: 'Oslo', country: 'NO' } };
+
+    expect(validate(doc).valid).toBe(true);
+    expect(errorsOf(compileValidator(schema, { allowUnknownFields: false })(doc))).toEqual([
+      ['shipTo.country', ErrorCodes.UNKNOWN_DOCUMENT_FIELD],
+    ]);
+  });
+
+  it('should address array, list and map elements by index or key', () => {
+    const result = validate({
+      ...base,
+      tags: ['a', 1, null],
+      quantities: [1, 1.5],
+      prices: { small: 1, large: 'two' },
+    });
+
+    expect(errorsOf(result)).toEqual([
+      ['tags[1]', ErrorCodes.INVALID_FIELD_TYPE],
+      ['tags[2]', ErrorCodes.INVALID_ARRAY],
+      ['quantities[1]', ErrorCodes.INVALID_FIELD_TYPE],
+      ['prices["large"]', ErrorCodes.INVALID_FIELD_TYPE],
+    ]);
+    expect(errorsOf(validate({ ...base, tags: 'a' }))).toEqual([['tags', ErrorCodes.INVALID_ARRAY]]);
+  });
+
+  it('should be reusable across documents', () => {
+    expect(validate(base).valid).toBe(true);
+    expect(validate({}).valid).toBe(false);
+    expect(validate(base).valid).toBe(true);
+  });
+});
+
+// =============================================================================
+// Relations and Constraints
+// =============================================================================
+
+describe('relations and constraints', () => {
+  it('should check relation ID shape and skip backward relations', () => {
+    const schema = parseSchema({
+      $type: 'Post',
+      author: '-> User',
+      reviewers: '-> User[]',
+      comments: '<- Comment.post[]',
+    });
+    const validate = compileValidator(schema);
+
+    expect(validate({ author: 'user_1', reviewers: ['user_2'] }).valid).toBe(true);
+    expect(errorsOf(validate({ author: 'user 1', reviewers: ['', 7], comments: 'ignored' }))).toEqual([
+      ['author', ErrorCodes.INVALID_RELATION_ID],
+      ['reviewers[0]', ErrorCodes.INVALID_RELATION_ID],
+      ['reviewers[1]', ErrorCodes.INVALID_RELATION_ID],
+    ]);
+  });
+
+  it('should check $constraints', () => {
+    const schema = parseSchema({
+      $type: 'User',
+      $constraints: {
+        age: { min: 0, max: 150 },
+        slug: { pattern: '^[a-z-]+$', maxLength: 8 },
+        email: { format: 'email' },
+      },
+      age: 'int?',
+      slug: 'string?',
+      email: 'string?',
+    });
+    const validate = compileValidator(schema);
+
+    expect(validate({ age: 30, slug: 'ada-l', email: 'ada@example.com' }).valid).toBe(true);
+    expect(errorsOf(validate({ age: -1, slug: 'Ada Lovelace', email: 'ada' }))).toEqual([
+      ['age', ErrorCodes.CONSTRAINT_VIOLATION],
+      ['slug', ErrorCodes.CONSTRAINT_VIOLATION],
+      ['slug', ErrorCodes.CONSTRAINT_VIOLATION],
+      ['email', ErrorCodes.CONSTRAINT_VIOLATION],
+    ]);
+  });
+
+  it('should skip constraints when the type check fails', () => {
+    const schema = parseSchema({ $type: 'User', $constraints: { age: { min: 0 } }, age: 'int' });
+
+    expect(errorsOf(validateDocument(schema, { age: '-1' }))).toEqual([['age', ErrorCodes.INVALID_FIELD_TYPE]]);
+  });
+});
@@ -14,6 +14,7 @@ import type {
   DrizzleTable,
   DrizzleColumn,
   DrizzleIndex,
+  DrizzleEnum,
   DrizzleAdapterOptions,
   DrizzleDialect,
 } from './types.js';
@@ -78,6 +79,17 @@ function fieldToColumn(
     drizzleType = 'text';
   }
 
+  // Declared enums: pgEnum reference on PostgreSQL, mysqlEnum on MySQL,
+  // and text({ enum }) on SQLite
+  const isEnum = fieldDef.enumName !== undefined && fieldDef.enumValues !== undefined;
+  if (isEnum && dialect === 'pg') {
+    drizzleType = toEnumExportName(fieldDef.enumName as string);
+  } else if (isEnum && dialect === 'mysql') {
+    drizzleType = 'mysqlEnum';
+  } else if (isEnum) {
+    drizzleType = 'text';
+  }
+
   // Determine nullability
   const isRequired = fieldDef.modifier === '!' || !fieldDef.isOptional;
   const nullable = !isRequired || !enforceNotNull;
@@ -85,6 +97,10 @@ function fieldToColumn(
   // Build type parameters
   const typeParams: Record<string, unknown> = {};
 
+  if (isEnum && dialect !== 'pg') {
+    typeParams['enum'] = fieldDef.enumValues;
+  }
+
   // Handle varchar/char length
   if (fieldDef.length !== undefined) {
     typeParams['length'] = fieldDef.length;
@@ -114,7 +130,7 @@ function fieldToColumn(
   const columnName = useCamelCase ? toCamelCase(fieldName) : fieldName;
   const originalName = fieldName;
 
-  return {
+  const column: DrizzleColumn = {
     name: validateColumnName(columnName),
     type: drizzleType,
     typeParams: Object.keys(typeParams).length > 0 ? typeParams : undefined,
@@ -125,6 +141,45 @@ function fieldToColumn(
     isArray: fieldDef.isArray,
     originalName,
   };
+
+  if (isEnum && dialect === 'pg') {
+    column.enumName = fieldDef.enumName as string;
+  }
+
+  return column;
+}
+
+/**
+ * Get the export name of the pgEnum declared for an IceType enum.
+ *
+ * @param enumName - The IceType enum name
+ * @returns The pgEnum variable name (e.g., 'statusEnum')
+ */
+function toEnumExportName(enumName: string): string {
+  return `${toCamelCase(enumName)}Enum`;
+}
+
+/**
+ * Collect pgEnum declarations for the enum fields of a schema.
+ *
+ * @param schema - The IceType schema
+ * @returns Array of enum definitions, in order of first use
+ */
+function collectEnums(schema: IceTypeSchema): DrizzleEnum[] {
+  const enums = new Map<string, DrizzleEnum>();
+
+  for (const fieldDef of schema.fields.values()) {
+    if (fieldDef.enumName === undefined || fieldDef.enumValues === undefined) continue;
+    if (enums.has(fieldDef.enumName)) continue;
+    enums.set(fieldDef.enumName, {
+      name: fieldDef.enumName,
+      dbName: toSnakeCase(fieldDef.enumName),
+      exportName: toEnumExportName(fieldDef.enumName),
+      values: fieldDef.enumValues,
+    });
+  }
+
+  return Array.from(enums.values());
 }
 
 /**
@@ -273,11 +328,20 @@ export class DrizzleAdapter
     // Collect imports
     const imports = collectImports([table], dialect);
 
-    return {
+    const drizzleSchema: DrizzleSchema = {
       dialect,
       tables: [table],
       imports,
     };
+
+    if (dialect === 'pg') {
+      const enums = collectEnums(schema);
+      if (enums.length > 0) {
+        drizzleSchema.enums = enums;
+      }
+    }
+
+    return drizzleSchema;
   }
 
   /**
@@ -370,9 +434,15 @@ export function transformSchemasToDrizzle(
 
   // Transform all schemas
   const tables: DrizzleTable[] = [];
+  const enums = new Map<string, DrizzleEnum>();
   for (const schema of schemas) {
     const drizzleSchema = adapter.transform(schema, opts);
     tables.push(...drizzleSchema.tables);
+    for (const drizzleEnum of drizzleSchema.enums ?? []) {
+      if (!enums.has(drizzleEnum.name)) {
+        enums.set(drizzleEnum.name, drizzleEnum);
+      }
+    }
   }
 
   // Collect imports for all tables
@@ -384,5 +454,9 @@ export function transformSchemasToDrizzle(
     imports,
   };
 
+  if (enums.size > 0) {
+    combinedSchema.enums = Array.from(enums.values());
+  }
+
   return generateSchemaCode(combinedSchema);
 }
@@ -12,6 +12,7 @@ import type {
   DrizzleColumn,
   DrizzleImport,
   DrizzleDialect,
+  DrizzleEnum,
 } from './types.js';
 
 import { getDrizzleImportPath, getTableFunction } from './mappings.js';
@@ -104,10 +105,15 @@ export function collectImports(
   // Always need the table function
   typeSet.add(getTableFunction(dialect));
 
-  // Collect all type functions used
+  // Collect all type functions used. Enum columns call the locally
+  // declared pgEnum instead of an imported type function.
   for (const table of tables) {
     for (const column of table.columns) {
-      typeSet.add(column.type);
+      if (column.enumName !== undefined) {
+        typeSet.add('pgEnum');
+      } else {
+        typeSet.add(column.type);
+      }
     }
   }
 
@@ -138,7 +144,11 @@ function generateTypeParams(column: DrizzleColumn, dialect: DrizzleDialect): str
 
   // Add type-specific parameters
   if (column.typeParams) {
-    if (column.typeParams['length'] !== undefined) {
+    const enumValues = column.typeParams['enum'] as string[] | undefined;
+    if (enumValues !== undefined) {
+      const valueList = `[${enumValues.map(escapeString).join(', ')}]`;
+      params.push(column.type === 'mysqlEnum' ? valueList : `{ enum: ${valueList} }`);
+    } else if (column.typeParams['length'] !== undefined) {
       params.push(`{ length: ${column.typeParams['length']} }`);
     } else if (column.typeParams['precision'] !== undefined) {
       const precision = column.typeParams['precision'];
@@ -204,6 +214,21 @@ export function generateColumn(column: DrizzleColumn, dialect: DrizzleDialect):
   return parts.join('');
 }
 
+// =============================================================================
+// Enum Generation
+// =============================================================================
+
+/**
+ * Generate a pgEnum declaration.
+ *
+ * @param drizzleEnum - The enum definition
+ * @returns Generated enum code
+ */
+export function generateEnum(drizzleEnum: DrizzleEnum): string {
+  const values = drizzleEnum.values.map(escapeString).join(', ');
+  return `export const ${drizzleEnum.exportName} = pgEnum(${escapeString(drizzleEnum.dbName)}, [${values}]);`;
+}
+
 // =============================================================================
 // Table Generation
 // =============================================================================
@@ -265,6 +290,14 @@ export function generateSchemaCode(schema: DrizzleSchema): string {
   sections.push(generateImports(schema));
   sections.push('');
 
+  // Enums
+  if (schema.enums && schema.enums.length > 0) {
+    for (const drizzleEnum of schema.enums) {
+      sections.push(generateEnum(drizzleEnum));
+    }
+    sections.push('');
+  }
+
   // Tables
   for (let i = 0; i < schema.tables.length; i++) {
     const table = schema.tables[i];
@@ -55,6 +55,7 @@
 export type {
   DrizzleDialect,
   DrizzleColumn,
+  DrizzleEnum,
   DrizzleIndex,
   DrizzleTable,
   DrizzleSchema,
@@ -102,6 +103,7 @@ export {
   collectImports,
   generateColumn,
   generateTable,
+  generateEnum,
   generateSchemaCode,
   formatDefaultValue,
   validateTableName,
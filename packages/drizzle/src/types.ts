@@ -42,6 +42,26 @@ export interface DrizzleColumn {
   isArray: boolean;
   /** Original IceType field name (for camelCase conversion) */
   originalName: string;
+  /** Name of the enum this column references (pgEnum columns only) */
+  enumName?: string;
+}
+
+// =============================================================================
+// Enum Types
+// =============================================================================
+
+/**
+ * Represents a Drizzle `pgEnum` declaration.
+ */
+export interface DrizzleEnum {
+  /** IceType enum name */
+  name: string;
+  /** Database enum type name (snake_case) */
+  dbName: string;
+  /** Variable name for the enum export (camelCase) */
+  exportName: string;
+  /** Enum values, in declaration order */
+  values: string[];
 }
 
 // =============================================================================
@@ -92,6 +112,8 @@ export interface DrizzleSchema {
   dialect: DrizzleDialect;
   /** Table definitions */
   tables: DrizzleTable[];
+  /** Enum declarations (PostgreSQL only) */
+  enums?: DrizzleEnum[];
   /** Required imports for the schema file */
   imports: DrizzleImport[];
 }
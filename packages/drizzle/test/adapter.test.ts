@@ -644,3 +644,40 @@ describe('DrizzleAdapter Integration', () => {
     expect(sqliteCode).toContain('sqliteTable');
   });
 });
+
+describe('Drizzle enum export', () => {
+  const schema = parseSchema({
+    $type: 'User',
+    $enums: { Status: ['active', 'inactive'] },
+    status: "enum<Status> = 'active'",
+    history: 'enum<Status>[]',
+  });
+
+  it('should declare a pgEnum and reference it from columns', () => {
+    const code = transformToDrizzle(schema, { dialect: 'pg' });
+    expect(code).toContain("export const statusEnum = pgEnum('status', ['active', 'inactive']);");
+    expect(code).toContain("status: statusEnum('status').notNull().default('active'),");
+    expect(code).toContain("statusEnum('history')");
+    expect(code).toMatch(/import \{[^}]*pgEnum[^}]*\} from 'drizzle-orm\/pg-core';/);
+    expect(code).not.toMatch(/import \{[^}]*statusEnum/);
+  });
+
+  it('should deduplicate enums across schemas', () => {
+    const code = transformSchemasToDrizzle([schema, parseSchema({
+      $type: 'Account',
+      $enums: { Status: ['active', 'inactive'] },
+      status: 'enum<Status>',
+    })]);
+    expect(code.match(/pgEnum\('status'/g)).toHaveLength(1);
+  });
+
+  it('should use mysqlEnum for MySQL', () => {
+    const code = transformToDrizzle(schema, { dialect: 'mysql' });
+    expect(code).toContain("status: mysqlEnum('status', ['active', 'inactive'])");
+  });
+
+  it('should use text with enum values for SQLite', () => {
+    const code = transformToDrizzle(schema, { dialect: 'sqlite' });
+    expect(code).toContain("status: text('status', { enum: ['active', 'inactive'] })");
+  });
+});
@@ -19,6 +19,9 @@ import {
   generateSystemColumns,
   serializeDDL,
   generateIndexStatements,
+  generateFieldCheckConstraint,
+  generateTtlPurge,
+  generateOrderByColumns,
 } from './ddl.js';
 
 import { VERSION } from './version.js';
@@ -82,6 +85,8 @@ export class DuckDBAdapter
   ): DuckDBDDL {
     const columns: DuckDBColumn[] = [];
     const primaryKey: string[] = [];
+    const tableName = options?.tableName ?? schema.name;
+    const checkConstraints: Array<{ name?: string; expression: string }> = [];
 
     // Add system fields if requested (default: true)
     const includeSystemFields = options?.includeSystemFields ?? true;
@@ -102,11 +107,16 @@ export class DuckDBAdapter
 
       const column = fieldToDuckDBColumn(fieldName, fieldDef);
       columns.push(column);
+
+      const constraintCheck = generateFieldCheckConstraint(tableName, fieldName, fieldDef);
+      if (constraintCheck) {
+        checkConstraints.push(constraintCheck);
+      }
     }
 
     // Build DDL structure
     const ddl: DuckDBDDL = {
-      tableName: options?.tableName ?? schema.name,
+      tableName,
       schemaName: options?.schema,
       columns,
       primaryKey: primaryKey.length > 0 ? primaryKey : undefined,
@@ -121,6 +131,24 @@ export class DuckDBAdapter
       ddl.uniqueConstraints = uniqueColumns.map(c => [c.name]);
     }
 
+    if (checkConstraints.length > 0) {
+      ddl.checkConstraints = checkConstraints;
+    }
+
+    if (schema.directives.ttl) {
+      const ttlPurge = generateTtlPurge(tableName, options?.schema, schema.directives.ttl);
+      if (ttlPurge) {
+        ddl.ttlPurge = ttlPurge;
+      }
+    }
+
+    if (schema.directives.orderBy) {
+      const orderBy = generateOrderByColumns(schema.directives.orderBy);
+      if (orderBy.length > 0) {
+        ddl.orderBy = orderBy;
+      }
+    }
+
     return ddl;
   }
 
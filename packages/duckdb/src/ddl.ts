@@ -7,7 +7,7 @@
  * @packageDocumentation
  */
 
-import type { FieldDefinition } from '@icetype/core';
+import type { FieldDefinition, OrderByField, TtlDirective } from '@icetype/core';
 
 import {
   escapeIdentifier as escapeIdentifierBase,
@@ -15,8 +15,15 @@ import {
   serializeColumn as serializeColumnBase,
   generateSystemColumns as generateSystemColumnsBase,
   generateIndexStatements as generateIndexStatementsBase,
+  generateFieldCheckConstraint as generateFieldCheckConstraintBase,
+  generateTtlPurge as generateTtlPurgeBase,
+  generateOrderByColumns as generateOrderByColumnsBase,
   serializeDDL as serializeDDLBase,
+  serializeOrderByHint,
+  serializeTtlPurge,
+  formatEnumValues,
   type SqlColumn,
+  type CheckConstraint,
   type DDLStructure,
 } from '@icetype/sql-common';
 
@@ -86,6 +93,40 @@ export function toArrayType(baseType: string): string {
   return `${baseType}[]`;
 }
 
+/**
+ * Get the DuckDB STRUCT type for a resolved struct's fields.
+ *
+ * @param fields - The struct's field definitions
+ * @returns The struct type string (e.g., "STRUCT(street VARCHAR, zip INTEGER)")
+ */
+export function getStructTypeString(fields: FieldDefinition[]): string {
+  const members = fields.map((field) => `${escapeIdentifier(field.name)} ${getFieldTypeString(field)}`);
+  return `STRUCT(${members.join(', ')})`;
+}
+
+/**
+ * Get the full DuckDB type string for a field, including declared enums,
+ * nested structs and array wrapping.
+ */
+function getFieldTypeString(field: FieldDefinition): string {
+  // Handle relation fields - store as foreign key reference (UUID/VARCHAR)
+  if (field.relation) {
+    return field.isArray ? 'VARCHAR[]' : 'VARCHAR';
+  }
+
+  let typeString: string;
+  if (field.enumValues !== undefined) {
+    // Declared enums map to an inline ENUM type
+    typeString = `ENUM(${formatEnumValues(field.enumValues)})`;
+  } else if (field.structFields !== undefined) {
+    typeString = getStructTypeString(field.structFields);
+  } else {
+    typeString = getDuckDBTypeString(mapIceTypeToDuckDB(field.type, field));
+  }
+
+  return field.isArray ? toArrayType(typeString) : typeString;
+}
+
 // =============================================================================
 // Column Generation
 // =============================================================================
@@ -102,21 +143,7 @@ export function fieldToDuckDBColumn(
   field: FieldDefinition
 ): DuckDBColumn {
   const typeMapping = mapIceTypeToDuckDB(field.type, field);
-  let typeString = getDuckDBTypeString(typeMapping);
-
-  // Handle array types
-  if (field.isArray) {
-    typeString = toArrayType(typeString);
-  }
-
-  // Handle relation fields - store as foreign key reference (UUID/VARCHAR)
-  if (field.relation) {
-    if (field.isArray) {
-      typeString = 'VARCHAR[]';
-    } else {
-      typeString = 'VARCHAR';
-    }
-  }
+  const typeString = getFieldTypeString(field);
 
   const column: DuckDBColumn = {
     name: fieldName,
@@ -208,11 +235,66 @@ export function serializeDDL(ddl: DuckDBDDL): string {
     columns: ddl.columns as SqlColumn[],
     primaryKey: ddl.primaryKey,
     uniqueConstraints: ddl.uniqueConstraints,
+    checkConstraints: ddl.checkConstraints,
     ifNotExists: ddl.ifNotExists,
     temporary: ddl.temporary,
   };
 
-  return serializeDDLBase(commonDDL, 'duckdb');
+  const statements = [serializeDDLBase(commonDDL, 'duckdb')];
+
+  // DuckDB clusters data by insertion order, so the sort order is a hint
+  if (ddl.orderBy && ddl.orderBy.length > 0) {
+    statements.push('', serializeOrderByHint(ddl.orderBy));
+  }
+
+  // DuckDB has no scheduler, so the purge is left for the caller to run
+  if (ddl.ttlPurge) {
+    statements.push('', serializeTtlPurge(ddl.ttlPurge));
+  }
+
+  return statements.join('\n');
+}
+
+/**
+ * Generate a named CHECK constraint for a field's `$constraints` entry.
+ *
+ * @param tableName - The table name, used to name the constraint
+ * @param fieldName - The field name
+ * @param field - The IceType field definition
+ * @returns The check constraint, or undefined if the field is unconstrained
+ */
+export function generateFieldCheckConstraint(
+  tableName: string,
+  fieldName: string,
+  field: FieldDefinition
+): CheckConstraint | undefined {
+  return generateFieldCheckConstraintBase(tableName, fieldName, field, 'duckdb');
+}
+
+/**
+ * Generate a DELETE statement purging rows past a schema's `$ttl`.
+ *
+ * @param tableName - The table name
+ * @param schemaName - Optional schema name
+ * @param ttl - The TTL directive
+ * @returns The DELETE statement, or undefined if the directive never deletes
+ */
+export function generateTtlPurge(
+  tableName: string,
+  schemaName: string | undefined,
+  ttl: TtlDirective
+): string | undefined {
+  return generateTtlPurgeBase(tableName, schemaName, ttl, 'duckdb');
+}
+
+/**
+ * Render a schema's `$orderBy` sort keys as DuckDB ORDER BY columns.
+ *
+ * @param orderBy - The sort keys
+ * @returns The ORDER BY columns (bucket keys are skipped)
+ */
+export function generateOrderByColumns(orderBy: OrderByField[]): string[] {
+  return generateOrderByColumnsBase(orderBy, 'duckdb');
 }
 
 /**
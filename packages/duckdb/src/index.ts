@@ -79,12 +79,16 @@ export {
   mapIceTypeToDuckDB,
   getDuckDBTypeString,
   toArrayType,
+  getStructTypeString,
   fieldToDuckDBColumn,
   formatDefaultValue,
   generateSystemColumns,
   escapeIdentifier,
   serializeColumn,
   serializeDDL,
+  generateFieldCheckConstraint,
+  generateTtlPurge,
+  generateOrderByColumns,
   generateIndexStatements,
 } from './ddl.js';
 
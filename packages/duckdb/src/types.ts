@@ -105,10 +105,19 @@ export interface DuckDBDDL {
   primaryKey?: string[];
   /** Unique constraints (arrays of column names) */
   uniqueConstraints?: string[][];
+  /** Check constraints */
+  checkConstraints?: Array<{
+    name?: string;
+    expression: string;
+  }>;
   /** Whether the table is temporary */
   temporary?: boolean;
   /** Whether to use IF NOT EXISTS */
   ifNotExists?: boolean;
+  /** ORDER BY columns from the schema's `$orderBy`, emitted as a load-order hint */
+  orderBy?: string[];
+  /** DELETE statement purging rows past the schema's `$ttl` */
+  ttlPurge?: string;
 }
 
 // =============================================================================
@@ -989,3 +989,116 @@ describe('DuckDBAdapter schema name validation', () => {
     }).toThrow(InvalidSchemaNameError);
   });
 });
+
+describe('DuckDBAdapter enum types', () => {
+  const schema = parseSchema({
+    $type: 'User',
+    $enums: { Status: ['active', 'inactive'] },
+    status: "enum<Status> = 'active'",
+    history: 'enum<Status>[]',
+  });
+
+  it('should map declared enums to an inline ENUM type', () => {
+    const ddl = new DuckDBAdapter().transform(schema);
+    expect(ddl.columns.find(c => c.name === 'status')?.type).toBe("ENUM('active', 'inactive')");
+  });
+
+  it('should support enum arrays', () => {
+    const ddl = new DuckDBAdapter().transform(schema);
+    expect(ddl.columns.find(c => c.name === 'history')?.type).toBe("ENUM('active', 'inactive')[]");
+  });
+
+  it('should fall back to VARCHAR for undeclared enums', () => {
+    const ddl = new DuckDBAdapter().transform(parseSchema({ $type: 'User', status: 'enum<Status>' }));
+    expect(ddl.columns.find(c => c.name === 'status')?.type).toBe('VARCHAR');
+  });
+});
+
+describe('DuckDBAdapter struct types', () => {
+  const schema = parseSchema({
+    $type: 'Customer',
+    $enums: { Kind: ['home', 'work'] },
+    $structs: {
+      Geo: { lat: 'double', lng: 'double' },
+      Address: { street: 'string!', kind: 'enum<Kind>', geo: 'struct<Geo>', tags: 'string[]' },
+    },
+    address: 'struct<Address>?',
+    previous: 'struct<Address>[]',
+  });
+
+  it('should map struct<Name> fields to a nested STRUCT type', () => {
+    const ddl = new DuckDBAdapter().transform(schema);
+    const address = ddl.columns.find(c => c.name === 'address');
+    expect(address?.type).toBe(
+      "STRUCT(street VARCHAR, kind ENUM('home', 'work'), geo STRUCT(lat DOUBLE, lng DOUBLE), tags VARCHAR[])"
+    );
+    expect(address?.nullable).toBe(true);
+  });
+
+  it('should support struct arrays', () => {
+    const ddl = new DuckDBAdapter().transform(schema);
+    expect(ddl.columns.find(c => c.name === 'previous')?.type).toMatch(/^STRUCT\(.*\)\[\]$/);
+  });
+
+  it('should escape struct member names that need quoting', () => {
+    const ddl = new DuckDBAdapter().transform(
+      parseSchema({ $type: 'Item', $structs: { Meta: { order: 'int' } }, meta: 'struct<Meta>' })
+    );
+    expect(ddl.columns.find(c => c.name === 'meta')?.type).toBe('STRUCT("order" INTEGER)');
+  });
+});
+
+describe('DuckDBAdapter field constraints', () => {
+  it('should generate CHECK constraints with regexp_matches', () => {
+    const adapter = new DuckDBAdapter();
+    const schema = parseSchema({
+      $type: 'User',
+      $constraints: { email: { format: 'email', maxLength: 254 } },
+      email: 'string',
+    });
+
+    const ddl = adapter.transform(schema);
+    expect(ddl.checkConstraints).toEqual([
+      {
+        name: 'User_email_check',
+        expression: "length(email) <= 254 AND regexp_matches(email, '^[^@ ]+@[^@ ]+[.][^@ ]+$')",
+      },
+    ]);
+    expect(adapter.serialize(ddl)).toContain('CONSTRAINT User_email_check CHECK (length(email) <= 254');
+  });
+});
+
+describe('DuckDBAdapter $ttl', () => {
+  it('should generate a purge statement emitted as a comment', () => {
+    const adapter = new DuckDBAdapter();
+    const schema = parseSchema({
+      $type: 'Event',
+      $ttl: 'createdAt + 12 hours',
+      createdAt: 'timestamp!',
+    });
+
+    const ddl = adapter.transform(schema, { schema: 'analytics' });
+    expect(ddl.ttlPurge).toBe(
+      "DELETE FROM analytics.Event WHERE createdAt < CURRENT_TIMESTAMP - INTERVAL '12 hours';"
+    );
+    expect(adapter.serialize(ddl)).toMatch(/\);\n\n-- Purge expired rows \(\$ttl\); run on a schedule:\n-- DELETE FROM/);
+  });
+});
+
+describe('DuckDBAdapter $orderBy', () => {
+  it('should emit the sort order as an insertion-order hint', () => {
+    const adapter = new DuckDBAdapter();
+    const schema = parseSchema({
+      $type: 'Event',
+      $orderBy: ['month(createdAt) DESC', 'id'],
+      id: 'uuid!',
+      createdAt: 'timestamp!',
+    });
+
+    const ddl = adapter.transform(schema);
+    expect(ddl.orderBy).toEqual(['createdAt DESC NULLS LAST', 'id ASC NULLS FIRST']);
+    expect(adapter.serialize(ddl)).toMatch(
+      /\);\n\n-- Sort order \(\$orderBy\); insert rows in this order to cluster them:\n-- ORDER BY createdAt DESC NULLS LAST, id ASC NULLS FIRST$/
+    );
+  });
+});
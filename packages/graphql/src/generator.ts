@@ -0,0 +1,493 @@
+/**
+ * GraphQL SDL Generator
+ *
+ * Generates GraphQL schemas from IceType schemas. Entities become object
+ * types, relations become fields of the related type, and create/update
+ * input types are generated alongside them.
+ *
+ * @packageDocumentation
+ */
+
+import { AdapterError, ErrorCodes } from '@icetype/core';
+import type { IceTypeSchema, FieldDefinition, SchemaAdapter } from '@icetype/core';
+
+import type {
+  GraphQLArgument,
+  GraphQLEnumType,
+  GraphQLExportOptions,
+  GraphQLField,
+  GraphQLInputType,
+  GraphQLObjectType,
+  GraphQLSchemaDocument,
+} from './types.js';
+
+import { ICETYPE_TO_GRAPHQL_MAP, GRAPHQL_BUILTIN_SCALARS } from './types.js';
+
+import { VERSION } from './version.js';
+
+/** Valid GraphQL names, which enum values must also be */
+const GRAPHQL_NAME = /^[_A-Za-z][_0-9A-Za-z]*$/;
+
+/** Names GraphQL does not allow as enum values */
+const RESERVED_ENUM_VALUES = new Set(['true', 'false', 'null']);
+
+/** Relay pagination arguments of connection fields */
+const CONNECTION_ARGS: GraphQLArgument[] = [
+  { name: 'first', type: 'Int' },
+  { name: 'after', type: 'String' },
+  { name: 'last', type: 'Int' },
+  { name: 'before', type: 'String' },
+];
+
+/**
+ * State shared while generating one schema document.
+ */
+interface GenerationContext {
+  options: GraphQLExportOptions;
+  /** Schemas in the document, by name */
+  schemas: Map<string, IceTypeSchema>;
+  scalars: Set<string>;
+  enums: Map<string, GraphQLEnumType>;
+  structs: Map<string, FieldDefinition[]>;
+  /** Types with a Relay connection */
+  connections: Set<string>;
+}
+
+// =============================================================================
+// Type Mapping
+// =============================================================================
+
+/**
+ * Map an IceType primitive type to a GraphQL type.
+ *
+ * Unknown types map to `String`.
+ *
+ * @param iceType - The IceType type string
+ * @returns The GraphQL type name
+ */
+export function mapIceTypeToGraphQL(iceType: string): string {
+  return ICETYPE_TO_GRAPHQL_MAP[iceType.toLowerCase()] ?? 'String';
+}
+
+/**
+ * Map a primitive type, recording the custom scalars it needs.
+ */
+function scalarType(iceType: string, context: GenerationContext): string {
+  const type = mapIceTypeToGraphQL(iceType);
+  if (!GRAPHQL_BUILTIN_SCALARS.includes(type)) {
+    context.scalars.add(type);
+  }
+  return type;
+}
+
+/**
+ * Get the named GraphQL type for a single value of a non-relation field.
+ *
+ * @param input - Whether the type is used in an input type
+ */
+function valueType(field: FieldDefinition, context: GenerationContext, input: boolean): string {
+  switch (field.type) {
+    case 'enum':
+      if (field.enumName && field.enumValues && field.enumValues.every(isValidEnumValue)) {
+        if (!context.enums.has(field.enumName)) {
+          context.enums.set(field.enumName, { name: field.enumName, values: [...field.enumValues] });
+        }
+        return field.enumName;
+      }
+      return 'String';
+    case 'struct':
+      if (field.structName && field.structFields) {
+        addStruct(field.structName, field.structFields, context);
+        return input ? `${field.structName}Input` : field.structName;
+      }
+      return scalarType('json', context);
+    case 'list':
+      return `[${field.elementType ? scalarType(field.elementType, context) : 'String'}!]`;
+    case 'map':
+      return scalarType('json', context);
+    case 'ref':
+      return 'ID';
+    default:
+      return scalarType(field.type, context);
+  }
+}
+
+/**
+ * Check whether a value can be a GraphQL enum value.
+ */
+function isValidEnumValue(value: string): boolean {
+  return GRAPHQL_NAME.test(value) && !RESERVED_ENUM_VALUES.has(value);
+}
+
+/**
+ * Wrap a named type in list and non-null modifiers.
+ */
+function typeReference(named: string, isArray: boolean, nonNull: boolean): string {
+  const type = isArray ? `[${named}!]` : named;
+  return nonNull ? `${type}!` : type;
+}
+
+/**
+ * Register a struct, and the structs it contains, as object types.
+ */
+function addStruct(name: string, fields: FieldDefinition[], context: GenerationContext): void {
+  if (context.structs.has(name)) {
+    return;
+  }
+  context.structs.set(name, fields);
+  for (const field of fields) {
+    valueType(field, context, false);
+  }
+}
+
+/**
+ * Check whether a relation is backward (`<-`, `<~`).
+ */
+function isBackward(field: FieldDefinition): boolean {
+  const operator = field.relation?.operator;
+  return operator === '<-' || operator === '<~';
+}
+
+// =============================================================================
+// Object Types
+// =============================================================================
+
+/**
+ * Build the output field for a relation, or `undefined` if it cannot be expressed.
+ */
+function relationField(
+  schema: IceTypeSchema,
+  field: FieldDefinition,
+  context: GenerationContext
+): GraphQLField | undefined {
+  const relation = field.relation!;
+  const target = context.schemas.get(relation.targetType);
+
+  if (!isBackward(field)) {
+    // Forward relations resolve to the related object, or its ID if the
+    // related schema is not part of the document
+    const named = target ? target.name : 'ID';
+    return { name: field.name, type: typeReference(named, field.isArray, !field.isOptional) };
+  }
+
+  // Backward relations are resolved from the other side, so they need it
+  if (!target) {
+    return undefined;
+  }
+
+  const result: GraphQLField = { name: field.name, type: '' };
+  if (relation.inverse) {
+    if (!target.fields.has(relation.inverse)) {
+      throw new AdapterError(
+        `Relation '${schema.name}.${field.name}' refers to '${target.name}.${relation.inverse}', which does not exist`,
+        { adapterName: 'graphql', operation: 'transform', code: ErrorCodes.SCHEMA_VALIDATION_ERROR }
+      );
+    }
+    result.description = `${target.name} records whose \`${relation.inverse}\` references this ${schema.name}`;
+  }
+
+  if (!field.isArray) {
+    // At most one related record, which may not exist
+    result.type = target.name;
+  } else if (context.options.relations === 'connection') {
+    context.connections.add(target.name);
+    result.type = `${target.name}Connection!`;
+    result.args = CONNECTION_ARGS.map((arg) => ({ ...arg }));
+  } else {
+    result.type = `[${target.name}!]!`;
+  }
+  return result;
+}
+
+/**
+ * Build the output fields of an entity or struct.
+ */
+function objectFields(
+  schema: IceTypeSchema | undefined,
+  fields: Iterable<FieldDefinition>,
+  context: GenerationContext
+): GraphQLField[] {
+  const result: GraphQLField[] = [];
+  for (const field of fields) {
+    if (field.relation && schema) {
+      const graphqlField = relationField(schema, field, context);
+      if (graphqlField) {
+        result.push(graphqlField);
+      }
+      continue;
+    }
+    const named = field.relation ? 'ID' : valueType(field, context, false);
+    result.push({ name: field.name, type: typeReference(named, field.isArray, !field.isOptional) });
+  }
+  return result;
+}
+
+/**
+ * Build the Relay connection and edge types for a type.
+ */
+function connectionTypes(name: string): GraphQLObjectType[] {
+  return [
+    {
+      name: `${name}Connection`,
+      fields: [
+        { name: 'edges', type: `[${name}Edge!]!` },
+        { name: 'pageInfo', type: 'PageInfo!' },
+        { name: 'totalCount', type: 'Int!' },
+      ],
+    },
+    {
+      name: `${name}Edge`,
+      fields: [
+        { name: 'cursor', type: 'String!' },
+        { name: 'node', type: `${name}!` },
+      ],
+    },
+  ];
+}
+
+/**
+ * The Relay `PageInfo` type.
+ */
+const PAGE_INFO_TYPE: GraphQLObjectType = {
+  name: 'PageInfo',
+  fields: [
+    { name: 'hasNextPage', type: 'Boolean!' },
+    { name: 'hasPreviousPage', type: 'Boolean!' },
+    { name: 'startCursor', type: 'String' },
+    { name: 'endCursor', type: 'String' },
+  ],
+};
+
+// =============================================================================
+// Input Types
+// =============================================================================
+
+/**
+ * Build the fields of an input type.
+ *
+ * Relations take the related IDs. Backward relations are omitted, since
+ * they are set from the other side.
+ *
+ * @param partial - Whether every field is optional (update inputs)
+ */
+function inputFields(
+  fields: Iterable<FieldDefinition>,
+  context: GenerationContext,
+  partial: boolean
+): GraphQLField[] {
+  const result: GraphQLField[] = [];
+  for (const field of fields) {
+    if (isBackward(field)) {
+      continue;
+    }
+    const named = field.relation ? 'ID' : valueType(field, context, true);
+    const required = !partial && !field.isOptional && field.defaultValue === undefined;
+    result.push({ name: field.name, type: typeReference(named, field.isArray, required) });
+  }
+  return result;
+}
+
+// =============================================================================
+// Document Generation
+// =============================================================================
+
+/**
+ * Generate a GraphQL schema document for several IceType schemas.
+ *
+ * Each schema becomes an object type. Forward relations (`->`, `~>`) become
+ * fields of the related type, or `ID` when the related schema is not among
+ * `schemas`. Backward relations (`<-`, `<~`) become lists or Relay
+ * connections of the related type, and are omitted when the related schema
+ * is not among `schemas`. Enums and structs become enum and object types.
+ *
+ * @param schemas - The IceType schemas to convert
+ * @param options - Generation options
+ * @returns The GraphQL schema document
+ * @throws {AdapterError} If a backward relation names an inverse field that does not exist
+ *
+ * @example
+ * ```typescript
+ * const document = generateGraphQLSchema([userSchema, postSchema], { relations: 'connection' });
+ * console.log(serializeGraphQLSchema(document));
+ * ```
+ */
+export function generateGraphQLSchema(
+  schemas: IceTypeSchema[],
+  options: GraphQLExportOptions = {}
+): GraphQLSchemaDocument {
+  const context: GenerationContext = {
+    options,
+    schemas: new Map(schemas.map((schema) => [schema.name, schema])),
+    scalars: new Set(),
+    enums: new Map(),
+    structs: new Map(),
+    connections: new Set(),
+  };
+
+  const types: GraphQLObjectType[] = schemas.map((schema) => ({
+    name: schema.name,
+    fields: objectFields(schema, schema.fields.values(), context),
+  }));
+
+  const inputs: GraphQLInputType[] = [];
+  if (options.inputs !== false) {
+    for (const schema of schemas) {
+      inputs.push({ name: `Create${schema.name}Input`, fields: inputFields(schema.fields.values(), context, false) });
+      inputs.push({
+        name: `Update${schema.name}Input`,
+        // The record to update is identified separately
+        fields: inputFields(schema.fields.values(), context, true).filter((field) => field.name !== 'id'),
+      });
+    }
+  }
+
+  for (const [name, fields] of context.structs) {
+    types.push({ name, fields: objectFields(undefined, fields, context) });
+    if (options.inputs !== false) {
+      inputs.push({ name: `${name}Input`, fields: inputFields(fields, context, false) });
+    }
+  }
+
+  for (const name of context.connections) {
+    types.push(...connectionTypes(name));
+  }
+  if (context.connections.size > 0) {
+    types.push(PAGE_INFO_TYPE);
+  }
+
+  return {
+    scalars: [...context.scalars].sort(),
+    enums: [...context.enums.values()],
+    types,
+    inputs,
+  };
+}
+
+/**
+ * Generate a GraphQL schema document for a single IceType schema.
+ *
+ * Relations to other schemas are typed as `ID`; use
+ * {@link generateGraphQLSchema} to resolve them to object types.
+ *
+ * @param schema - The IceType schema to convert
+ * @param options - Generation options
+ * @returns The GraphQL schema document
+ */
+export function schemaToGraphQL(schema: IceTypeSchema, options: GraphQLExportOptions = {}): GraphQLSchemaDocument {
+  return generateGraphQLSchema([schema], options);
+}
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+/**
+ * Serialize a field definition.
+ */
+function serializeField(field: GraphQLField): string[] {
+  const lines: string[] = [];
+  if (field.description) {
+    lines.push(`  "${field.description.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`);
+  }
+  const args = field.args?.length
+    ? `(${field.args.map((arg) => `${arg.name}: ${arg.type}`).join(', ')})`
+    : '';
+  lines.push(`  ${field.name}${args}: ${field.type}`);
+  return lines;
+}
+
+/**
+ * Serialize a type definition with fields.
+ */
+function serializeFields(keyword: 'type' | 'input', name: string, fields: GraphQLField[]): string {
+  return [`${keyword} ${name} {`, ...fields.flatMap(serializeField), '}'].join('\n');
+}
+
+/**
+ * Serialize a GraphQL schema document as SDL.
+ *
+ * @param document - The schema document
+ * @returns GraphQL SDL
+ */
+export function serializeGraphQLSchema(document: GraphQLSchemaDocument): string {
+  const sections: string[] = [];
+
+  if (document.scalars.length > 0) {
+    sections.push(document.scalars.map((name) => `scalar ${name}`).join('\n'));
+  }
+  for (const graphqlEnum of document.enums) {
+    sections.push([`enum ${graphqlEnum.name} {`, ...graphqlEnum.values.map((value) => `  ${value}`), '}'].join('\n'));
+  }
+  for (const type of document.types) {
+    sections.push(serializeFields('type', type.name, type.fields));
+  }
+  for (const input of document.inputs) {
+    sections.push(serializeFields('input', input.name, input.fields));
+  }
+
+  return sections.join('\n\n') + '\n';
+}
+
+// =============================================================================
+// GraphQL Adapter Class
+// =============================================================================
+
+/**
+ * Adapter for transforming IceType schemas to GraphQL SDL.
+ *
+ * Implements the SchemaAdapter interface for consistency with other adapters.
+ *
+ * @example
+ * ```typescript
+ * import { parseSchema } from '@icetype/core';
+ * import { GraphQLAdapter } from '@icetype/graphql';
+ *
+ * const schema = parseSchema({
+ *   $type: 'User',
+ *   id: 'uuid!',
+ *   email: 'string#',
+ * });
+ *
+ * const adapter = new GraphQLAdapter();
+ * const document = adapter.transform(schema);
+ * const sdl = adapter.serialize(document);
+ * ```
+ */
+export class GraphQLAdapter implements SchemaAdapter<GraphQLSchemaDocument, GraphQLExportOptions> {
+  readonly name = 'graphql';
+  readonly version = VERSION;
+
+  /**
+   * Transform an IceType schema to a GraphQL schema document.
+   *
+   * @param schema - The IceType schema to transform
+   * @param options - Optional generation options
+   * @returns GraphQL schema document
+   */
+  transform(schema: IceTypeSchema, options?: GraphQLExportOptions): GraphQLSchemaDocument {
+    return schemaToGraphQL(schema, options);
+  }
+
+  /**
+   * Serialize a GraphQL schema document.
+   *
+   * @param output - The schema document to serialize
+   * @returns GraphQL SDL
+   */
+  serialize(output: GraphQLSchemaDocument): string {
+    return serializeGraphQLSchema(output);
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+/**
+ * Create a new GraphQL adapter instance.
+ *
+ * @returns A new GraphQLAdapter instance
+ */
+export function createGraphQLAdapter(): GraphQLAdapter {
+  return new GraphQLAdapter();
+}
@@ -0,0 +1,81 @@
+/**
+ * @icetype/graphql
+ *
+ * GraphQL adapter for IceType.
+ *
+ * This package provides functionality to:
+ * - Generate GraphQL object types and enums from IceType schemas
+ * - Expose relations as fields of the related type, as lists or Relay connections
+ * - Generate create and update input types
+ *
+ * @example
+ * ```typescript
+ * import { parseSchema } from '@icetype/core';
+ * import { generateGraphQLSchema, serializeGraphQLSchema } from '@icetype/graphql';
+ *
+ * const user = parseSchema({
+ *   $type: 'User',
+ *   id: 'uuid!',
+ *   email: 'string#',
+ *   posts: '<- Post.author[]',
+ * });
+ * const post = parseSchema({
+ *   $type: 'Post',
+ *   id: 'uuid!',
+ *   title: 'string!',
+ *   author: '-> User!',
+ * });
+ *
+ * const document = generateGraphQLSchema([user, post], { relations: 'connection' });
+ * console.log(serializeGraphQLSchema(document));
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type {
+  // GraphQL schema types
+  GraphQLArgument,
+  GraphQLField,
+  GraphQLObjectType,
+  GraphQLInputType,
+  GraphQLEnumType,
+  GraphQLSchemaDocument,
+  // Export options
+  GraphQLRelationStyle,
+  GraphQLExportOptions,
+  // Mapping config
+  GraphQLTypeMappingConfig,
+} from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export {
+  ICETYPE_TO_GRAPHQL_MAPPINGS,
+  ICETYPE_TO_GRAPHQL_MAP,
+  GRAPHQL_BUILTIN_SCALARS,
+} from './types.js';
+
+// =============================================================================
+// Generation (IceType -> GraphQL)
+// =============================================================================
+
+export {
+  // Type mapping functions
+  mapIceTypeToGraphQL,
+
+  // Schema generation
+  schemaToGraphQL,
+  generateGraphQLSchema,
+  serializeGraphQLSchema,
+
+  // Adapter class and factory
+  GraphQLAdapter,
+  createGraphQLAdapter,
+} from './generator.js';
@@ -0,0 +1,149 @@
+/**
+ * Type definitions for GraphQL SDL generation
+ *
+ * @packageDocumentation
+ */
+
+// =============================================================================
+// GraphQL Schema Types
+// =============================================================================
+
+/**
+ * An argument of a GraphQL field
+ */
+export interface GraphQLArgument {
+  name: string;
+  /** Type reference (e.g. `Int`, `[String!]!`) */
+  type: string;
+}
+
+/**
+ * A field of a GraphQL object or input type
+ */
+export interface GraphQLField {
+  name: string;
+  /** Type reference (e.g. `ID!`, `[Post!]!`, `PostConnection!`) */
+  type: string;
+  /** Field arguments, for connection fields */
+  args?: GraphQLArgument[];
+  /** Field description */
+  description?: string;
+}
+
+/**
+ * A GraphQL object type (`type`)
+ */
+export interface GraphQLObjectType {
+  name: string;
+  fields: GraphQLField[];
+}
+
+/**
+ * A GraphQL input object type (`input`)
+ */
+export interface GraphQLInputType {
+  name: string;
+  fields: GraphQLField[];
+}
+
+/**
+ * A GraphQL enum type
+ */
+export interface GraphQLEnumType {
+  name: string;
+  values: string[];
+}
+
+/**
+ * A generated GraphQL schema document
+ */
+export interface GraphQLSchemaDocument {
+  /** Custom scalars used by the document (e.g. `DateTime`) */
+  scalars: string[];
+  enums: GraphQLEnumType[];
+  /** Object types: entities, structs and Relay connection types */
+  types: GraphQLObjectType[];
+  /** Input types for create and update operations */
+  inputs: GraphQLInputType[];
+}
+
+// =============================================================================
+// Export Options
+// =============================================================================
+
+/**
+ * How backward relations to many records are exposed
+ *
+ * - `list`: A list of the related type (`[Post!]!`)
+ * - `connection`: A Relay connection (`PostConnection!`) with pagination arguments
+ */
+export type GraphQLRelationStyle = 'list' | 'connection';
+
+/**
+ * Options for GraphQL generation
+ */
+export interface GraphQLExportOptions {
+  /**
+   * How backward relations to many records (`<- Post.author[]`) are exposed
+   * @default 'list'
+   */
+  relations?: GraphQLRelationStyle;
+
+  /**
+   * Whether to generate `Create<Name>Input` and `Update<Name>Input` types
+   * @default true
+   */
+  inputs?: boolean;
+}
+
+// =============================================================================
+// Type Mapping
+// =============================================================================
+
+/**
+ * Mapping configuration between IceType primitives and GraphQL types
+ */
+export interface GraphQLTypeMappingConfig {
+  /** IceType primitive type */
+  icetype: string;
+  /** Corresponding GraphQL type */
+  graphql: string;
+}
+
+/**
+ * Mapping table for IceType primitive types to GraphQL types
+ */
+export const ICETYPE_TO_GRAPHQL_MAPPINGS: GraphQLTypeMappingConfig[] = [
+  { icetype: 'string', graphql: 'String' },
+  { icetype: 'text', graphql: 'String' },
+  { icetype: 'varchar', graphql: 'String' },
+  { icetype: 'char', graphql: 'String' },
+  { icetype: 'uuid', graphql: 'ID' },
+  { icetype: 'int', graphql: 'Int' },
+  { icetype: 'long', graphql: 'BigInt' },
+  { icetype: 'bigint', graphql: 'BigInt' },
+  { icetype: 'float', graphql: 'Float' },
+  { icetype: 'double', graphql: 'Float' },
+  { icetype: 'bool', graphql: 'Boolean' },
+  { icetype: 'boolean', graphql: 'Boolean' },
+  { icetype: 'timestamp', graphql: 'DateTime' },
+  { icetype: 'timestamptz', graphql: 'DateTime' },
+  { icetype: 'date', graphql: 'Date' },
+  { icetype: 'time', graphql: 'Time' },
+  { icetype: 'decimal', graphql: 'Decimal' },
+  { icetype: 'json', graphql: 'JSON' },
+  { icetype: 'binary', graphql: 'Bytes' },
+  { icetype: 'fixed', graphql: 'Bytes' },
+];
+
+/**
+ * Map of IceType primitive types to GraphQL types
+ */
+export const ICETYPE_TO_GRAPHQL_MAP: Record<string, string> = Object.fromEntries(
+  ICETYPE_TO_GRAPHQL_MAPPINGS.map((m) => [m.icetype, m.graphql])
+);
+
+/**
+ * Scalars built into GraphQL. Other mapped types are declared as custom scalars.
+ */
+export const GRAPHQL_BUILTIN_SCALARS: readonly string[] = ['String', 'Int', 'Float', 'Boolean', 'ID'];
@@ -0,0 +1,268 @@
+/**
+ * Tests for GraphQL SDL generation
+ *
+ * Tests the conversion of IceType schemas to GraphQL object, enum and input types.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSchema, AdapterError } from '@icetype/core';
+
+import {
+  schemaToGraphQL,
+  generateGraphQLSchema,
+  serializeGraphQLSchema,
+  mapIceTypeToGraphQL,
+  GraphQLAdapter,
+  createGraphQLAdapter,
+} from '../src/index.js';
+
+const USER = {
+  $type: 'User',
+  id: 'uuid!',
+  name: 'string!',
+  posts: '<- Post.author[]',
+  profile: '<- Profile.user',
+};
+
+const POST = {
+  $type: 'Post',
+  id: 'uuid!',
+  title: 'string!',
+  author: '-> User!',
+  reviewers: '-> User[]',
+};
+
+function typeOf(document: ReturnType<typeof generateGraphQLSchema>, name: string) {
+  return document.types.find((type) => type.name === name);
+}
+
+function inputOf(document: ReturnType<typeof generateGraphQLSchema>, name: string) {
+  return document.inputs.find((input) => input.name === name);
+}
+
+// =============================================================================
+// Type Mapping
+// =============================================================================
+
+describe('type mapping', () => {
+  it('should map primitive types', () => {
+    expect(mapIceTypeToGraphQL('string')).toBe('String');
+    expect(mapIceTypeToGraphQL('uuid')).toBe('ID');
+    expect(mapIceTypeToGraphQL('int')).toBe('Int');
+    expect(mapIceTypeToGraphQL('double')).toBe('Float');
+    expect(mapIceTypeToGraphQL('bool')).toBe('Boolean');
+    expect(mapIceTypeToGraphQL('unknown')).toBe('String');
+  });
+
+  it('should declare custom scalars that are used', () => {
+    const document = schemaToGraphQL(
+      parseSchema({ $type: 'Event', at: 'timestamp!', count: 'long', payload: 'json', name: 'string' })
+    );
+
+    expect(document.scalars).toEqual(['BigInt', 'DateTime', 'JSON']);
+  });
+
+  it('should apply nullability and list modifiers', () => {
+    const document = schemaToGraphQL(
+      parseSchema({ $type: 'Test', a: 'string!', b: 'string?', c: 'int[]', d: 'list<float>', e: 'map<string, int>' })
+    );
+
+    expect(document.types[0]!.fields).toEqual([
+      { name: 'a', type: 'String!' },
+      { name: 'b', type: 'String' },
+      { name: 'c', type: '[Int!]!' },
+      { name: 'd', type: '[Float!]!' },
+      { name: 'e', type: 'JSON!' },
+    ]);
+  });
+});
+
+// =============================================================================
+// Enums and Structs
+// =============================================================================
+
+describe('enums and structs', () => {
+  it('should generate enum types', () => {
+    const document = schemaToGraphQL(
+      parseSchema({ $type: 'Task', $enums: { Status: ['open', 'done'] }, status: 'enum<Status>!' })
+    );
+
+    expect(document.enums).toEqual([{ name: 'Status', values: ['open', 'done'] }]);
+    expect(document.types[0]!.fields[0]!.type).toBe('Status!');
+  });
+
+  it('should use String for enums with invalid GraphQL values', () => {
+    const document = schemaToGraphQL(
+      parseSchema({ $type: 'Shirt', $enums: { Size: ['x-small', 'large'] }, size: 'enum<Size>!' })
+    );
+
+    expect(document.enums).toEqual([]);
+    expect(document.types[0]!.fields[0]!.type).toBe('String!');
+  });
+
+  it('should generate object and input types for structs', () => {
+    const document = schemaToGraphQL(
+      parseSchema({
+        $type: 'Customer',
+        $structs: { Address: { city: 'string!', zip: 'string?' } },
+        billing: 'struct<Address>!',
+      })
+    );
+
+    expect(typeOf(document, 'Address')!.fields).toEqual([
+      { name: 'city', type: 'String!' },
+      { name: 'zip', type: 'String' },
+    ]);
+    expect(inputOf(document, 'CreateCustomerInput')!.fields).toEqual([{ name: 'billing', type: 'AddressInput!' }]);
+    expect(inputOf(document, 'AddressInput')).toBeDefined();
+  });
+});
+
+// =============================================================================
+// Relations
+// =============================================================================
+
+describe('relations', () => {
+  it('should resolve forward relations to object types', () => {
+    const document = generateGraphQLSchema([parseSchema(USER), parseSchema(POST)]);
+
+    expect(typeOf(document, 'Post')!.fields.slice(2)).toEqual([
+      { name: 'author', type: 'User!' },
+      { name: 'reviewers', type: '[User!]!' },
+    ]);
+  });
+
+  it('should use ID for relations to schemas outside the document', () => {
+    const document = schemaToGraphQL(parseSchema(POST));
+    expect(document.types[0]!.fields[2]).toEqual({ name: 'author', type: 'ID!' });
+  });
+
+  it('should generate backward relations as lists using the inverse', () => {
+    const document = generateGraphQLSchema([parseSchema(USER), parseSchema(POST)]);
+
+    expect(typeOf(document, 'User')!.fields.map((f) => f.name)).toEqual(['id', 'name', 'posts']);
+    expect(typeOf(document, 'User')!.fields[2]).toEqual({
+      name: 'posts',
+      type: '[Post!]!',
+      description: 'Post records whose `author` references this User',
+    });
+  });
+
+  it('should generate Relay connections for backward relations', () => {
+    const document = generateGraphQLSchema([parseSchema(USER), parseSchema(POST)], { relations: 'connection' });
+    const posts = typeOf(document, 'User')!.fields[2]!;
+
+    expect(posts.type).toBe('PostConnection!');
+    expect(posts.args!.map((arg) => `${arg.name}: ${arg.type}`)).toEqual([
+      'first: Int',
+      'after: String',
+      'last: Int',
+      'before: String',
+    ]);
+    expect(document.types.map((type) => type.name)).toEqual([
+      'User',
+      'Post',
+      'PostConnection',
+      'PostEdge',
+      'PageInfo',
+    ]);
+    expect(typeOf(document, 'PostEdge')!.fields).toEqual([
+      { name: 'cursor', type: 'String!' },
+      { name: 'node', type: 'Post!' },
+    ]);
+  });
+
+  it('should reject a backward relation whose inverse does not exist', () => {
+    const post = parseSchema({ $type: 'Post', id: 'uuid!', writer: '-> User!' });
+
+    expect(() => generateGraphQLSchema([parseSchema(USER), post])).toThrow(AdapterError);
+    expect(() => generateGraphQLSchema([parseSchema(USER), post])).toThrow(
+      "Relation 'User.posts' refers to 'Post.author', which does not exist"
+    );
+  });
+});
+
+// =============================================================================
+// Input Types
+// =============================================================================
+
+describe('input types', () => {
+  it('should generate create and update inputs with relation IDs', () => {
+    const document = generateGraphQLSchema([
+      parseSchema(USER),
+      parseSchema({ ...POST, status: 'string = "draft"', summary: 'string?' }),
+    ]);
+
+    expect(inputOf(document, 'CreatePostInput')!.fields).toEqual([
+      { name: 'id', type: 'ID!' },
+      { name: 'title', type: 'String!' },
+      { name: 'author', type: 'ID!' },
+      { name: 'reviewers', type: '[ID!]!' },
+      { name: 'status', type: 'String' },
+      { name: 'summary', type: 'String' },
+    ]);
+    expect(inputOf(document, 'UpdatePostInput')!.fields).toEqual([
+      { name: 'title', type: 'String' },
+      { name: 'author', type: 'ID' },
+      { name: 'reviewers', type: '[ID!]' },
+      { name: 'status', type: 'String' },
+      { name: 'summary', type: 'String' },
+    ]);
+    expect(inputOf(document, 'CreateUserInput')!.fields.map((f) => f.name)).toEqual(['id', 'name']);
+  });
+
+  it('should skip inputs when disabled', () => {
+    expect(schemaToGraphQL(parseSchema(POST), { inputs: false }).inputs).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+describe('serializeGraphQLSchema', () => {
+  it('should serialize SDL', () => {
+    const document = generateGraphQLSchema(
+      [
+        parseSchema({ $type: 'User', id: 'uuid!', joinedAt: 'timestamp!', posts: '<- Post.author[]' }),
+        parseSchema({ $type: 'Post', id: 'uuid!', author: '-> User!' }),
+      ],
+      { inputs: false }
+    );
+
+    expect(serializeGraphQLSchema(document)).toBe(
+      [
+        'scalar DateTime',
+        '',
+        'type User {',
+        '  id: ID!',
+        '  joinedAt: DateTime!',
+        '  "Post records whose `author` references this User"',
+        '  posts: [Post!]!',
+        '}',
+        '',
+        'type Post {',
+        '  id: ID!',
+        '  author: User!',
+        '}',
+        '',
+      ].join('\n')
+    );
+  });
+});
+
+// =============================================================================
+// Adapter
+// =============================================================================
+
+describe('GraphQLAdapter', () => {
+  it('should transform and serialize', () => {
+    const adapter = createGraphQLAdapter();
+    expect(adapter).toBeInstanceOf(GraphQLAdapter);
+    expect(adapter.name).toBe('graphql');
+
+    const sdl = adapter.serialize(adapter.transform(parseSchema({ $type: 'Tag', name: 'string!' })));
+    expect(sdl).toContain('type Tag {\n  name: String!\n}');
+    expect(sdl).toContain('input CreateTagInput {\n  name: String!\n}');
+  });
+});
@@ -9,7 +9,7 @@
 
 import { AdapterError, ErrorCodes, type IceTypeSchema, type SchemaAdapter, type IcebergAdapterOptions } from '@icetype/core';
 
-import { generateIcebergMetadata } from './metadata.js';
+import { IcebergMetadataGenerator } from './metadata.js';
 import type { IcebergTableMetadata } from './types.js';
 
 // =============================================================================
@@ -52,7 +52,8 @@ export class IcebergAdapter
    * @param schema - The IceType schema to transform
    * @param options - Iceberg-specific options including location
    * @returns Iceberg table metadata
-   * @throws AdapterError if location is not provided
+   * @throws AdapterError if location is not provided or the format version is not 1, 2 or 3
+   * @throws Error if an identifier field is not a required primitive column
    */
   transform(
     schema: IceTypeSchema,
@@ -70,7 +71,19 @@ export class IcebergAdapter
       });
     }
 
-    return generateIcebergMetadata(schema, options.location, options.properties);
+    if (options.formatVersion !== undefined && ![1, 2, 3].includes(options.formatVersion)) {
+      throw new AdapterError(`Unsupported Iceberg format version: ${String(options.formatVersion)}`, {
+        adapterName: this.name,
+        operation: 'transform',
+        code: ErrorCodes.INVALID_ADAPTER_CONFIG,
+        context: {
+          option: 'formatVersion',
+          schema: schema.name,
+        },
+      });
+    }
+
+    return new IcebergMetadataGenerator().generateTableMetadata(schema, options);
   }
 
   /**
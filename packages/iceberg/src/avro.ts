@@ -0,0 +1,418 @@
+/**
+ * Avro Object Container Files
+ *
+ * Iceberg manifests and manifest lists are Avro object container files.
+ * This module encodes and decodes them with the binary encoding, for the
+ * schemas Iceberg uses: records, arrays, maps, unions, fixed and the
+ * primitive types. Blocks are written uncompressed (the `null` codec).
+ *
+ * @see https://avro.apache.org/docs/1.11.1/specification/#object-container-files
+ *
+ * @packageDocumentation
+ */
+
+import { ByteWriter, encodeUtf8 } from './thrift.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Avro primitive type names */
+export type AvroPrimitive = 'null' | 'boolean' | 'int' | 'long' | 'float' | 'double' | 'bytes' | 'string';
+
+/** An Avro schema, with the extra attributes Iceberg adds (`field-id`, `element-id`, ...) */
+export type AvroType =
+  | AvroPrimitive
+  | string
+  | AvroType[]
+  | { type: AvroPrimitive; logicalType?: string; [attribute: string]: unknown }
+  | { type: 'record'; name: string; fields: AvroField[]; [attribute: string]: unknown }
+  | { type: 'array'; items: AvroType; [attribute: string]: unknown }
+  | { type: 'map'; values: AvroType; [attribute: string]: unknown }
+  | { type: 'fixed'; name: string; size: number; [attribute: string]: unknown };
+
+/** A field of an Avro record */
+export interface AvroField {
+  name: string;
+  type: AvroType;
+  [attribute: string]: unknown;
+}
+
+/** A decoded object container file */
+export interface AvroContainer {
+  /** The writer's schema */
+  schema: AvroType;
+  /** File metadata other than `avro.schema` and `avro.codec` */
+  metadata: Record<string, string>;
+  /** The records, with longs as numbers when they are safe integers and bigints otherwise */
+  records: unknown[];
+}
+
+const MAGIC = new Uint8Array([0x4f, 0x62, 0x6a, 0x01]);
+
+const PRIMITIVES = new Set<string>(['null', 'boolean', 'int', 'long', 'float', 'double', 'bytes', 'string']);
+
+type NamedTypes = Map<string, AvroType>;
+
+function typeName(type: AvroType): string {
+  if (typeof type === 'string') return type;
+  if (Array.isArray(type)) return 'union';
+  return type.type;
+}
+
+/** Register named types (records and fixed) so later references resolve */
+function register(type: AvroType, named: NamedTypes): void {
+  if (typeof type === 'string') return;
+  if (Array.isArray(type)) {
+    type.forEach((branch) => register(branch, named));
+    return;
+  }
+  switch (type.type) {
+    case 'record':
+      named.set(type.name as string, type);
+      (type.fields as AvroField[]).forEach((field) => register(field.type, named));
+      break;
+    case 'fixed':
+      named.set(type.name as string, type);
+      break;
+    case 'array':
+      register(type.items as AvroType, named);
+      break;
+    case 'map':
+      register(type.values as AvroType, named);
+      break;
+  }
+}
+
+function resolve(type: AvroType, named: NamedTypes): AvroType {
+  if (typeof type === 'string' && !PRIMITIVES.has(type)) {
+    const found = named.get(type);
+    if (!found) throw new Error(`Unknown Avro type '${type}'`);
+    return found;
+  }
+  return type;
+}
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+function writeLong(out: ByteWriter, value: number | bigint): void {
+  out.zigzag(value);
+}
+
+function writeBytes(out: ByteWriter, value: Uint8Array): void {
+  writeLong(out, value.length);
+  out.bytes(value);
+}
+
+function matchesBranch(type: AvroType, value: unknown, named: NamedTypes): boolean {
+  const resolved = resolve(type, named);
+  switch (typeName(resolved)) {
+    case 'null':
+      return value === null || value === undefined;
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'int':
+    case 'long':
+      return typeof value === 'number' || typeof value === 'bigint';
+    case 'float':
+    case 'double':
+      return typeof value === 'number';
+    case 'bytes':
+    case 'fixed':
+      return value instanceof Uint8Array;
+    case 'string':
+      return typeof value === 'string';
+    case 'array':
+      return Array.isArray(value);
+    default:
+      return typeof value === 'object' && value !== null;
+  }
+}
+
+function encodeValue(out: ByteWriter, type: AvroType, value: unknown, named: NamedTypes): void {
+  const resolved = resolve(type, named);
+
+  if (Array.isArray(resolved)) {
+    const branch = resolved.findIndex((candidate) => matchesBranch(candidate, value, named));
+    if (branch === -1) {
+      throw new Error(`Value ${String(value)} matches no branch of Avro union ${JSON.stringify(resolved)}`);
+    }
+    writeLong(out, branch);
+    encodeValue(out, resolved[branch]!, value, named);
+    return;
+  }
+
+  switch (typeName(resolved)) {
+    case 'null':
+      return;
+    case 'boolean':
+      out.byte(value ? 1 : 0);
+      return;
+    case 'int':
+    case 'long':
+      writeLong(out, value as number | bigint);
+      return;
+    case 'float':
+      out.float(value as number);
+      return;
+    case 'double':
+      out.double(value as number);
+      return;
+    case 'bytes':
+      writeBytes(out, value as Uint8Array);
+      return;
+    case 'string':
+      writeBytes(out, encodeUtf8(value as string));
+      return;
+    case 'fixed':
+      out.bytes(value as Uint8Array);
+      return;
+    case 'record': {
+      const record = value as Record<string, unknown>;
+      for (const field of (resolved as { fields: AvroField[] }).fields) {
+        encodeValue(out, field.type, record[field.name], named);
+      }
+      return;
+    }
+    case 'array': {
+      const items = value as unknown[];
+      if (items.length > 0) {
+        writeLong(out, items.length);
+        for (const item of items) encodeValue(out, (resolved as { items: AvroType }).items, item, named);
+      }
+      writeLong(out, 0);
+      return;
+    }
+    case 'map': {
+      const entries = Object.entries(value as Record<string, unknown>);
+      if (entries.length > 0) {
+        writeLong(out, entries.length);
+        for (const [key, item] of entries) {
+          writeBytes(out, encodeUtf8(key));
+          encodeValue(out, (resolved as { values: AvroType }).values, item, named);
+        }
+      }
+      writeLong(out, 0);
+      return;
+    }
+    default:
+      throw new Error(`Unsupported Avro type '${typeName(resolved)}'`);
+  }
+}
+
+/**
+ * Encode records as an Avro object container file, in a single block.
+ *
+ * @param schema - The records' schema
+ * @param records - The records to write
+ * @param metadata - Additional file metadata, such as Iceberg's `schema` or `partition-spec`
+ * @returns The bytes of the file
+ */
+export function encodeAvroContainer(
+  schema: AvroType,
+  records: unknown[],
+  metadata: Record<string, string> = {}
+): Uint8Array {
+  const named: NamedTypes = new Map();
+  register(schema, named);
+
+  const out = new ByteWriter();
+  out.bytes(MAGIC);
+  encodeValue(out, { type: 'map', values: 'bytes' }, {
+    ...Object.fromEntries(Object.entries(metadata).map(([key, value]) => [key, encodeUtf8(value)])),
+    'avro.schema': encodeUtf8(JSON.stringify(schema)),
+    'avro.codec': encodeUtf8('null'),
+  }, named);
+
+  // A deterministic sync marker, derived from the schema, keeps output reproducible
+  const sync = new Uint8Array(16);
+  const schemaBytes = encodeUtf8(JSON.stringify(schema));
+  schemaBytes.forEach((byte, index) => {
+    sync[index % 16] = (sync[index % 16]! * 31 + byte) & 0xff;
+  });
+  out.bytes(sync);
+
+  if (records.length > 0) {
+    const block = new ByteWriter();
+    for (const record of records) encodeValue(block, schema, record, named);
+    writeLong(out, records.length);
+    writeLong(out, block.length);
+    out.bytes(block.toBytes());
+    out.bytes(sync);
+  }
+  return out.toBytes();
+}
+
+// =============================================================================
+// Decoding
+// =============================================================================
+
+// A global in Node.js, Deno, Bun and workers, though not declared by lib ES2022
+declare const TextDecoder: new () => { decode(input: Uint8Array): string };
+
+const textDecoder = new TextDecoder();
+
+class ByteReader {
+  offset = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  take(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Invalid Avro data: unexpected end of input');
+    }
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  long(): number | bigint {
+    let result = 0n;
+    let shift = 0n;
+    for (;;) {
+      const byte = this.take(1)[0]!;
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) break;
+      shift += 7n;
+    }
+    const value = (result >> 1n) ^ -(result & 1n);
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+  }
+
+  count(): number {
+    const value = this.long();
+    if (typeof value === 'bigint') throw new Error('Invalid Avro data: length out of range');
+    return value;
+  }
+
+  float(): number {
+    const value = this.view.getFloat32(this.offset, true);
+    this.take(4);
+    return value;
+  }
+
+  double(): number {
+    const value = this.view.getFloat64(this.offset, true);
+    this.take(8);
+    return value;
+  }
+}
+
+/** Read the item count of an array or map block; negative counts are followed by the block size */
+function blockCount(reader: ByteReader): number {
+  const count = reader.count();
+  if (count < 0) {
+    reader.count();
+    return -count;
+  }
+  return count;
+}
+
+function decodeValue(reader: ByteReader, type: AvroType, named: NamedTypes): unknown {
+  const resolved = resolve(type, named);
+
+  if (Array.isArray(resolved)) {
+    const branch = resolved[reader.count()];
+    if (branch === undefined) throw new Error('Invalid Avro data: union branch out of range');
+    return decodeValue(reader, branch, named);
+  }
+
+  switch (typeName(resolved)) {
+    case 'null':
+      return null;
+    case 'boolean':
+      return reader.take(1)[0] === 1;
+    case 'int':
+    case 'long':
+      return reader.long();
+    case 'float':
+      return reader.float();
+    case 'double':
+      return reader.double();
+    case 'bytes':
+      return reader.take(reader.count()).slice();
+    case 'string':
+      return textDecoder.decode(reader.take(reader.count()));
+    case 'fixed':
+      return reader.take((resolved as { size: number }).size).slice();
+    case 'record': {
+      const record: Record<string, unknown> = {};
+      for (const field of (resolved as { fields: AvroField[] }).fields) {
+        record[field.name] = decodeValue(reader, field.type, named);
+      }
+      return record;
+    }
+    case 'array': {
+      const items: unknown[] = [];
+      for (let count = blockCount(reader); count !== 0; count = blockCount(reader)) {
+        for (let i = 0; i < count; i++) items.push(decodeValue(reader, (resolved as { items: AvroType }).items, named));
+      }
+      return items;
+    }
+    case 'map': {
+      const entries: Record<string, unknown> = {};
+      for (let count = blockCount(reader); count !== 0; count = blockCount(reader)) {
+        for (let i = 0; i < count; i++) {
+          const key = textDecoder.decode(reader.take(reader.count()));
+          entries[key] = decodeValue(reader, (resolved as { values: AvroType }).values, named);
+        }
+      }
+      return entries;
+    }
+    default:
+      throw new Error(`Unsupported Avro type '${typeName(resolved)}'`);
+  }
+}
+
+/**
+ * Decode an Avro object container file written with the `null` codec.
+ *
+ * @param bytes - The bytes of the file
+ * @returns The writer's schema, the file metadata and the records
+ * @throws Error if the file is malformed or compressed with another codec
+ */
+export function decodeAvroContainer(bytes: Uint8Array): AvroContainer {
+  const reader = new ByteReader(bytes);
+  if (!MAGIC.every((byte, index) => bytes[index] === byte)) {
+    throw new Error('Invalid Avro data: not an object container file');
+  }
+  reader.take(MAGIC.length);
+
+  const header = decodeValue(reader, { type: 'map', values: 'bytes' }, new Map()) as Record<string, Uint8Array>;
+  const codec = header['avro.codec'] ? textDecoder.decode(header['avro.codec']) : 'null';
+  if (codec !== 'null') {
+    throw new Error(`Unsupported Avro codec '${codec}': only uncompressed files can be read`);
+  }
+  if (!header['avro.schema']) {
+    throw new Error('Invalid Avro data: missing avro.schema');
+  }
+  const schema = JSON.parse(textDecoder.decode(header['avro.schema'])) as AvroType;
+  const metadata: Record<string, string> = {};
+  for (const [key, value] of Object.entries(header)) {
+    if (key !== 'avro.schema' && key !== 'avro.codec') metadata[key] = textDecoder.decode(value);
+  }
+
+  const named: NamedTypes = new Map();
+  register(schema, named);
+  const sync = reader.take(16);
+  const records: unknown[] = [];
+  while (!reader.done) {
+    const count = reader.count();
+    reader.count();
+    for (let i = 0; i < count; i++) records.push(decodeValue(reader, schema, named));
+    const marker = reader.take(16);
+    if (!marker.every((byte, index) => byte === sync[index])) {
+      throw new Error('Invalid Avro data: sync marker mismatch');
+    }
+  }
+  return { schema, metadata, records };
+}
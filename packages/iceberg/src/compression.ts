@@ -0,0 +1,524 @@
+/**
+ * Snappy and Zstandard Compression
+ *
+ * Pure TypeScript compressors for the Parquet page codecs, so Parquet
+ * files can be written without native dependencies. Both use a greedy
+ * hash-chain-free match finder: they trade some compression ratio for
+ * speed and a small footprint.
+ *
+ * @see https://github.com/google/snappy/blob/main/format_description.txt
+ * @see https://datatracker.ietf.org/doc/html/rfc8878
+ *
+ * @packageDocumentation
+ */
+
+import { ByteWriter } from './thrift.js';
+
+// =============================================================================
+// Match Finding
+// =============================================================================
+
+const HASH_BITS = 14;
+const MIN_MATCH = 4;
+
+function read32(input: Uint8Array, pos: number): number {
+  return (input[pos]! | (input[pos + 1]! << 8) | (input[pos + 2]! << 16) | (input[pos + 3]! << 24)) >>> 0;
+}
+
+function hash(value: number): number {
+  return Math.imul(value, 0x1e35a7bd) >>> (32 - HASH_BITS);
+}
+
+/**
+ * Find the matches of at least four bytes in `input[start, end)`, calling
+ * `onMatch(literalStart, matchStart, offset, length)` for each. Matches
+ * may reference any earlier data within `maxOffset`.
+ *
+ * @returns The position after the last match
+ */
+function findMatches(
+  input: Uint8Array,
+  table: Int32Array,
+  start: number,
+  end: number,
+  maxOffset: number,
+  onMatch: (literalStart: number, matchStart: number, offset: number, length: number) => void
+): number {
+  let literalStart = start;
+  let pos = start;
+  while (pos + MIN_MATCH <= end) {
+    const value = read32(input, pos);
+    const h = hash(value);
+    const candidate = table[h]!;
+    table[h] = pos;
+
+    if (candidate >= 0 && pos - candidate <= maxOffset && read32(input, candidate) === value) {
+      let length = MIN_MATCH;
+      while (pos + length < end && input[candidate + length] === input[pos + length]) {
+        length++;
+      }
+      onMatch(literalStart, pos, pos - candidate, length);
+      pos += length;
+      literalStart = pos;
+    } else {
+      pos++;
+    }
+  }
+  return literalStart;
+}
+
+// =============================================================================
+// Snappy
+// =============================================================================
+
+function snappyLiteral(out: ByteWriter, input: Uint8Array, start: number, end: number): void {
+  const length = end - start;
+  if (length === 0) return;
+
+  const n = length - 1;
+  if (n < 60) {
+    out.byte(n << 2);
+  } else if (n < 0x100) {
+    out.byte(60 << 2);
+    out.byte(n);
+  } else if (n < 0x10000) {
+    out.byte(61 << 2);
+    out.byte(n & 0xff);
+    out.byte(n >>> 8);
+  } else if (n < 0x1000000) {
+    out.byte(62 << 2);
+    out.byte(n & 0xff);
+    out.byte((n >>> 8) & 0xff);
+    out.byte(n >>> 16);
+  } else {
+    out.byte(63 << 2);
+    out.int32(n);
+  }
+  out.bytes(input.subarray(start, end));
+}
+
+function snappyCopy(out: ByteWriter, offset: number, length: number): void {
+  let remaining = length;
+  // Copies hold at most 64 bytes; keep the last one at least 4 long
+  while (remaining > 68) {
+    out.byte(((64 - 1) << 2) | 2);
+    out.byte(offset & 0xff);
+    out.byte(offset >>> 8);
+    remaining -= 64;
+  }
+  if (remaining > 64) {
+    out.byte(((60 - 1) << 2) | 2);
+    out.byte(offset & 0xff);
+    out.byte(offset >>> 8);
+    remaining -= 60;
+  }
+  if (remaining < 12 && offset < 2048) {
+    out.byte(((offset >>> 8) << 5) | ((remaining - 4) << 2) | 1);
+    out.byte(offset & 0xff);
+  } else {
+    out.byte(((remaining - 1) << 2) | 2);
+    out.byte(offset & 0xff);
+    out.byte(offset >>> 8);
+  }
+}
+
+/**
+ * Compress bytes in the raw Snappy format (without stream framing), as
+ * Parquet stores Snappy pages.
+ *
+ * @param input - The bytes to compress
+ * @returns The compressed bytes
+ */
+export function snappyCompress(input: Uint8Array): Uint8Array {
+  const out = new ByteWriter();
+  out.varint(input.length);
+
+  const table = new Int32Array(1 << HASH_BITS).fill(-1);
+  const last = findMatches(input, table, 0, input.length, 0xffff, (literalStart, matchStart, offset, length) => {
+    snappyLiteral(out, input, literalStart, matchStart);
+    snappyCopy(out, offset, length);
+  });
+  snappyLiteral(out, input, last, input.length);
+
+  return out.toBytes();
+}
+
+/**
+ * Decompress bytes in the raw Snappy format.
+ *
+ * @param input - The compressed bytes
+ * @returns The decompressed bytes
+ * @throws Error if the input is not valid Snappy data
+ */
+export function snappyUncompress(input: Uint8Array): Uint8Array {
+  let pos = 0;
+  let length = 0;
+  for (let shift = 0; ; shift += 7) {
+    const byte = input[pos++];
+    if (byte === undefined) throw new Error('Invalid Snappy data: truncated length');
+    length += (byte & 0x7f) * 2 ** shift;
+    if (byte < 0x80) break;
+  }
+
+  const output = new Uint8Array(length);
+  let outPos = 0;
+  while (pos < input.length) {
+    const tag = input[pos++]!;
+    const kind = tag & 3;
+    if (kind === 0) {
+      let n = tag >>> 2;
+      if (n >= 60) {
+        const bytes = n - 59;
+        n = 0;
+        for (let i = 0; i < bytes; i++) n += input[pos++]! * 2 ** (8 * i);
+      }
+      n += 1;
+      if (pos + n > input.length || outPos + n > length) throw new Error('Invalid Snappy data: literal out of range');
+      output.set(input.subarray(pos, pos + n), outPos);
+      pos += n;
+      outPos += n;
+      continue;
+    }
+
+    let copyLength: number;
+    let offset: number;
+    if (kind === 1) {
+      copyLength = ((tag >>> 2) & 7) + 4;
+      offset = ((tag >>> 5) << 8) | input[pos++]!;
+    } else if (kind === 2) {
+      copyLength = (tag >>> 2) + 1;
+      offset = input[pos]! | (input[pos + 1]! << 8);
+      pos += 2;
+    } else {
+      copyLength = (tag >>> 2) + 1;
+      offset = read32(input, pos);
+      pos += 4;
+    }
+    if (offset === 0 || offset > outPos || outPos + copyLength > length) {
+      throw new Error('Invalid Snappy data: copy out of range');
+    }
+    for (let i = 0; i < copyLength; i++, outPos++) {
+      output[outPos] = output[outPos - offset]!;
+    }
+  }
+
+  if (outPos !== length) throw new Error('Invalid Snappy data: length mismatch');
+  return output;
+}
+
+// =============================================================================
+// Zstandard
+// =============================================================================
+
+const ZSTD_MAGIC = 0xfd2fb528;
+const ZSTD_BLOCK_SIZE = 128 * 1024;
+
+// Predefined FSE distributions (RFC 8878, section 3.1.1.3.2.2)
+const LL_DISTRIBUTION = [
+  4, 3, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 1, 1, 1, 2, 2, 2, 2, 2, 2, 2, 2, 2, 3, 2, 1, 1, 1, 1, 1, -1, -1, -1, -1,
+];
+const ML_DISTRIBUTION = [
+  1, 4, 3, 2, 2, 2, 2, 2, 2, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1,
+  1, 1, 1, 1, 1, 1, -1, -1, -1, -1, -1, -1, -1,
+];
+const OF_DISTRIBUTION = [
+  1, 1, 1, 1, 1, 1, 2, 2, 2, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, -1, -1, -1, -1, -1,
+];
+
+// Literal and match length codes above the direct range: [baseline, extra bits]
+const LL_CODES: Array<[number, number]> = [
+  [16, 1], [18, 1], [20, 1], [22, 1], [24, 2], [28, 2], [32, 3], [40, 3], [48, 4], [64, 6],
+  [128, 7], [256, 8], [512, 9], [1024, 10], [2048, 11], [4096, 12], [8192, 13], [16384, 14], [32768, 15], [65536, 16],
+];
+// Match length baselines are stored less the minimum match of 3
+const ML_CODES: Array<[number, number]> = [
+  [35, 1], [37, 1], [39, 1], [41, 1], [43, 2], [47, 2], [51, 3], [59, 3], [67, 4], [83, 4],
+  [99, 5], [131, 7], [259, 8], [515, 9], [1027, 10], [2051, 11], [4099, 12], [8195, 13], [16387, 14], [32771, 15],
+  [65539, 16],
+].map(([baseline, bits]) => [baseline! - 3, bits!]);
+
+/** Find the code for a length: direct codes first, then [baseline, bits] ranges */
+function lengthCode(value: number, direct: number, codes: Array<[number, number]>): [code: number, bits: number, extra: number] {
+  if (value < direct) return [value, 0, 0];
+  let index = codes.length - 1;
+  while (codes[index]![0] > value) index--;
+  const [baseline, bits] = codes[index]!;
+  return [direct + index, bits, value - baseline];
+}
+
+interface FseTable {
+  log: number;
+  stateTable: Uint16Array;
+  deltaFindState: Int32Array;
+  deltaNbBits: Uint32Array;
+}
+
+function highBit(value: number): number {
+  return 31 - Math.clz32(value);
+}
+
+/**
+ * Build an FSE encoding table from a normalized distribution, as
+ * `FSE_buildCTable` in the reference implementation does.
+ */
+function buildFseTable(distribution: number[], log: number): FseTable {
+  const size = 1 << log;
+  const symbols = new Uint8Array(size);
+  const cumul = new Int32Array(distribution.length + 1);
+  let highThreshold = size - 1;
+
+  for (let s = 0; s < distribution.length; s++) {
+    if (distribution[s] === -1) {
+      cumul[s + 1] = cumul[s]! + 1;
+      symbols[highThreshold--] = s;
+    } else {
+      cumul[s + 1] = cumul[s]! + distribution[s]!;
+    }
+  }
+
+  const step = (size >>> 1) + (size >>> 3) + 3;
+  let position = 0;
+  for (let s = 0; s < distribution.length; s++) {
+    for (let i = 0; i < distribution[s]!; i++) {
+      symbols[position] = s;
+      do {
+        position = (position + step) & (size - 1);
+      } while (position > highThreshold);
+    }
+  }
+
+  const stateTable = new Uint16Array(size);
+  for (let u = 0; u < size; u++) {
+    const s = symbols[u]!;
+    stateTable[cumul[s]!++] = size + u;
+  }
+
+  const deltaFindState = new Int32Array(distribution.length);
+  const deltaNbBits = new Uint32Array(distribution.length);
+  let total = 0;
+  for (let s = 0; s < distribution.length; s++) {
+    const count = distribution[s]!;
+    if (count === -1 || count === 1) {
+      deltaNbBits[s] = (log << 16) - size;
+      deltaFindState[s] = total - 1;
+      total++;
+    } else {
+      const maxBitsOut = log - highBit(count - 1);
+      const minStatePlus = count << maxBitsOut;
+      deltaNbBits[s] = (maxBitsOut << 16) - minStatePlus;
+      deltaFindState[s] = total - count;
+      total += count;
+    }
+  }
+
+  return { log, stateTable, deltaFindState, deltaNbBits };
+}
+
+const LL_TABLE = buildFseTable(LL_DISTRIBUTION, 6);
+const ML_TABLE = buildFseTable(ML_DISTRIBUTION, 6);
+const OF_TABLE = buildFseTable(OF_DISTRIBUTION, 5);
+
+/**
+ * Writes bits least significant first, as read backwards by the decoder.
+ */
+class BitWriter {
+  private readonly out = new ByteWriter();
+  private container = 0;
+  private count = 0;
+
+  add(value: number, bits: number): void {
+    // Add at most 16 bits at a time so the container stays within 32 bits
+    while (bits > 16) {
+      this.add(value & 0xffff, 16);
+      value = Math.floor(value / 0x10000);
+      bits -= 16;
+    }
+    this.container |= (value & ((1 << bits) - 1)) << this.count;
+    this.count += bits;
+    while (this.count >= 8) {
+      this.out.byte(this.container & 0xff);
+      this.container >>>= 8;
+      this.count -= 8;
+    }
+  }
+
+  /** Add the end mark and pad to a byte */
+  close(): Uint8Array {
+    this.add(1, 1);
+    if (this.count > 0) {
+      this.out.byte(this.container & 0xff);
+    }
+    return this.out.toBytes();
+  }
+}
+
+class FseState {
+  value: number;
+
+  constructor(private readonly table: FseTable, symbol: number) {
+    const nbBitsOut = (table.deltaNbBits[symbol]! + (1 << 15)) >>> 16;
+    const value = (nbBitsOut << 16) - table.deltaNbBits[symbol]!;
+    this.value = table.stateTable[(value >>> nbBitsOut) + table.deltaFindState[symbol]!]!;
+  }
+
+  encode(bits: BitWriter, symbol: number): void {
+    const nbBitsOut = (this.value + this.table.deltaNbBits[symbol]!) >>> 16;
+    bits.add(this.value, nbBitsOut);
+    this.value = this.table.stateTable[(this.value >>> nbBitsOut) + this.table.deltaFindState[symbol]!]!;
+  }
+
+  flush(bits: BitWriter): void {
+    bits.add(this.value, this.table.log);
+  }
+}
+
+interface Sequence {
+  literalLength: number;
+  matchLength: number;
+  offset: number;
+}
+
+/**
+ * Encode the sequences section with the predefined FSE tables, as
+ * `ZSTD_encodeSequences` in the reference implementation does.
+ */
+function encodeSequences(out: ByteWriter, sequences: Sequence[]): void {
+  const n = sequences.length;
+  if (n < 128) {
+    out.byte(n);
+  } else if (n < 0x7f00) {
+    out.byte((n >>> 8) + 128);
+    out.byte(n & 0xff);
+  } else {
+    out.byte(0xff);
+    out.byte((n - 0x7f00) & 0xff);
+    out.byte((n - 0x7f00) >>> 8);
+  }
+  if (n === 0) return;
+
+  // Predefined mode for literal lengths, offsets and match lengths
+  out.byte(0);
+
+  const codes = sequences.map(({ literalLength, matchLength, offset }) => {
+    // Offsets are stored 3 higher, leaving 1-3 for repeat offsets
+    const offsetValue = offset + 3;
+    const ofCode = highBit(offsetValue);
+    return {
+      ll: lengthCode(literalLength, 16, LL_CODES),
+      ml: lengthCode(matchLength - 3, 32, ML_CODES),
+      of: [ofCode, ofCode, offsetValue - (1 << ofCode)] as [number, number, number],
+    };
+  });
+
+  const bits = new BitWriter();
+  const lastCode = codes[n - 1]!;
+  const ml = new FseState(ML_TABLE, lastCode.ml[0]);
+  const of = new FseState(OF_TABLE, lastCode.of[0]);
+  const ll = new FseState(LL_TABLE, lastCode.ll[0]);
+  bits.add(lastCode.ll[2], lastCode.ll[1]);
+  bits.add(lastCode.ml[2], lastCode.ml[1]);
+  bits.add(lastCode.of[2], lastCode.of[1]);
+
+  for (let i = n - 2; i >= 0; i--) {
+    const code = codes[i]!;
+    of.encode(bits, code.of[0]);
+    ml.encode(bits, code.ml[0]);
+    ll.encode(bits, code.ll[0]);
+    bits.add(code.ll[2], code.ll[1]);
+    bits.add(code.ml[2], code.ml[1]);
+    bits.add(code.of[2], code.of[1]);
+  }
+
+  ml.flush(bits);
+  of.flush(bits);
+  ll.flush(bits);
+  out.bytes(bits.close());
+}
+
+function rawLiteralsHeader(out: ByteWriter, size: number): void {
+  if (size < 32) {
+    out.byte(size << 3);
+  } else if (size < 4096) {
+    const header = (size << 4) | (1 << 2);
+    out.byte(header & 0xff);
+    out.byte(header >>> 8);
+  } else {
+    const header = (size << 4) | (3 << 2);
+    out.byte(header & 0xff);
+    out.byte((header >>> 8) & 0xff);
+    out.byte(header >>> 16);
+  }
+}
+
+function blockHeader(out: ByteWriter, type: number, size: number, last: boolean): void {
+  const header = (size << 3) | (type << 1) | (last ? 1 : 0);
+  out.byte(header & 0xff);
+  out.byte((header >>> 8) & 0xff);
+  out.byte(header >>> 16);
+}
+
+/**
+ * Compress one block, returning undefined when it does not shrink.
+ */
+function compressBlock(input: Uint8Array, table: Int32Array, start: number, end: number): Uint8Array | undefined {
+  const literals = new ByteWriter();
+  const sequences: Sequence[] = [];
+  const last = findMatches(input, table, start, end, ZSTD_BLOCK_SIZE * 8, (literalStart, matchStart, offset, length) => {
+    literals.bytes(input.subarray(literalStart, matchStart));
+    sequences.push({ literalLength: matchStart - literalStart, matchLength: length, offset });
+  });
+  if (sequences.length === 0) return undefined;
+  literals.bytes(input.subarray(last, end));
+
+  const block = new ByteWriter();
+  rawLiteralsHeader(block, literals.length);
+  block.bytes(literals.toBytes());
+  encodeSequences(block, sequences);
+  return block.length < end - start ? block.toBytes() : undefined;
+}
+
+/**
+ * Compress bytes as a single Zstandard frame. Literals are stored raw and
+ * sequences use the predefined entropy tables, so no tables are written.
+ *
+ * @param input - The bytes to compress
+ * @returns The compressed frame
+ */
+export function zstdCompress(input: Uint8Array): Uint8Array {
+  const out = new ByteWriter();
+  out.int32(ZSTD_MAGIC | 0);
+
+  // Single segment frame: the window is the content size
+  const size = input.length;
+  if (size < 256) {
+    out.byte(0b0010_0000);
+    out.byte(size);
+  } else if (size < 65536 + 256) {
+    out.byte(0b0110_0000);
+    out.byte((size - 256) & 0xff);
+    out.byte((size - 256) >>> 8);
+  } else {
+    out.byte(0b1010_0000);
+    out.int32(size | 0);
+  }
+
+  if (size === 0) {
+    blockHeader(out, 0, 0, true);
+    return out.toBytes();
+  }
+
+  const table = new Int32Array(1 << HASH_BITS).fill(-1);
+  for (let start = 0; start < size; start += ZSTD_BLOCK_SIZE) {
+    const end = Math.min(start + ZSTD_BLOCK_SIZE, size);
+    const last = end === size;
+    const compressed = compressBlock(input, table, start, end);
+    if (compressed) {
+      blockHeader(out, 2, compressed.length, last);
+      out.bytes(compressed);
+    } else {
+      blockHeader(out, 0, end - start, last);
+      out.bytes(input.subarray(start, end));
+    }
+  }
+  return out.toBytes();
+}
@@ -0,0 +1,332 @@
+/**
+ * Iceberg table metadata to IceType converter
+ *
+ * Converts existing Iceberg tables to IceType schemas, so tables created
+ * by other engines can be adopted into an IceType project. Reads the
+ * table's current schema, default partition spec and default sort order
+ * from its `metadata.json` (v1, v2 or v3, in the Iceberg spec's format or as
+ * generated by this package).
+ *
+ * @example
+ * ```typescript
+ * import { readFileSync } from 'node:fs';
+ * import { importIcebergMetadata } from '@icetype/iceberg';
+ *
+ * const { definition, schema, warnings } = importIcebergMetadata(
+ *   readFileSync('./events/metadata/v3.metadata.json', 'utf-8')
+ * );
+ * // definition: { $type: 'Events', $partitionBy: ['day(ts)'], id: 'long!', ... }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import {
+  formatOrderByField,
+  formatPartitionField,
+  isSystemColumn,
+  parseSchema,
+  type IceTypeSchema,
+  type SchemaDefinition,
+  type SortTransform,
+} from '@icetype/core';
+
+import { parseIcebergMetadata } from './metadata.js';
+import { parseIcebergTransform } from './spec.js';
+import type { IcebergField, IcebergSchema, IcebergTableMetadata, IcebergType } from './types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for importing Iceberg table metadata
+ */
+export interface IcebergImportOptions {
+  /**
+   * Schema name. Defaults to the `icetype.source.schema` table property,
+   * then to the last segment of the table location in PascalCase.
+   */
+  name?: string;
+}
+
+/**
+ * Result of importing Iceberg table metadata
+ */
+export interface IcebergImportResult {
+  /** The schema definition, as it would be written in a schema file */
+  definition: SchemaDefinition;
+  /** The parsed IceType schema */
+  schema: IceTypeSchema;
+  /** Columns, defaults, partition fields and sort fields that were skipped or approximated */
+  warnings: string[];
+}
+
+/** Structs declared and warnings raised while importing; shared with the Parquet schema import */
+export interface ImportContext {
+  structs: Record<string, Record<string, string>>;
+  warnings: string[];
+}
+
+const SORT_TRANSFORMS = new Set<string>(['identity', 'year', 'month', 'day', 'hour', 'bucket', 'truncate']);
+
+// =============================================================================
+// Type Mapping
+// =============================================================================
+
+export function toPascalCase(name: string): string {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/**
+ * Map a primitive Iceberg type to an IceType type. Returns undefined for
+ * structs, lists and maps.
+ */
+function primitiveType(type: IcebergType): string | undefined {
+  switch (type.type) {
+    case 'struct':
+    case 'list':
+    case 'map':
+      return undefined;
+    case 'decimal':
+      return `decimal(${type.precision ?? 38},${type.scale ?? 0})`;
+    case 'fixed':
+      return type.length === undefined ? 'binary' : `fixed(${type.length})`;
+    case 'variant':
+      return 'json';
+    default:
+      return type.type;
+  }
+}
+
+/**
+ * Declare a struct type in `$structs`, named after the column it was
+ * found in, and return its name. Structs with the same fields as one
+ * already declared reuse its name.
+ *
+ * @param declare - Renders the struct's fields, declaring nested structs
+ */
+export function declareStruct(path: string, context: ImportContext, declare: () => Record<string, string>): string {
+  const base = toPascalCase(path.split('.').pop() ?? '') || 'Struct';
+  let name = base;
+  for (let suffix = 2; name in context.structs; suffix++) {
+    name = `${base}${suffix}`;
+  }
+
+  // Reserve the name before nested structs are declared
+  context.structs[name] = {};
+  const declared = declare();
+  delete context.structs[name];
+
+  const same = Object.entries(context.structs).find(([, existing]) => JSON.stringify(existing) === JSON.stringify(declared));
+  if (same) {
+    return same[0];
+  }
+  context.structs[name] = declared;
+  return name;
+}
+
+function valueType(type: IcebergType, path: string, context: ImportContext): string {
+  const primitive = primitiveType(type);
+  if (primitive !== undefined) {
+    return primitive;
+  }
+
+  if (type.type === 'struct') {
+    return `struct<${declareStruct(path, context, () => structFields(type.fields ?? [], path, context))}>`;
+  }
+
+  if (type.type === 'list' && type.elementType) {
+    const element = type.elementType;
+    if (element.type === 'struct') {
+      return `struct<${declareStruct(path, context, () => structFields(element.fields ?? [], path, context))}>[]`;
+    }
+    const elementType = primitiveType(element);
+    if (elementType !== undefined) {
+      return `${elementType}[]`;
+    }
+  }
+
+  // IceType maps take bare type names, so parametric and nested types do not fit
+  const key = type.keyType && primitiveType(type.keyType);
+  const value = type.valueType && primitiveType(type.valueType);
+  if (type.type === 'map' && key && value && !/[(]/.test(key + value)) {
+    return `map<${key}, ${value}>`;
+  }
+
+  context.warnings.push(`Column '${path}' has a nested ${type.type} type IceType cannot represent; imported as json`);
+  return 'json';
+}
+
+function structFields(fields: IcebergField[], path: string, context: ImportContext): Record<string, string> {
+  return Object.fromEntries(
+    fields.map((field) => [field.name, fieldType(field, `${path}.${field.name}`, false, context)])
+  );
+}
+
+function formatDefault(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return `'${value.replace(/'/g, "\\'")}'`;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return undefined;
+}
+
+/**
+ * Render a column as an IceType field type string, e.g. `string?` or
+ * `int = 0`. Identifier fields become required unique fields (`!`).
+ */
+function fieldType(field: IcebergField, path: string, identifier: boolean, context: ImportContext): string {
+  const modifier = identifier ? '!' : field.required ? '' : '?';
+  let result = `${valueType(field.type, path, context)}${modifier}`;
+
+  if (field.initialDefault !== undefined && field.initialDefault !== null) {
+    const defaultValue = formatDefault(field.initialDefault);
+    if (defaultValue === undefined) {
+      context.warnings.push(`Dropped default of column '${path}': ${JSON.stringify(field.initialDefault)}`);
+    } else {
+      result += ` = ${defaultValue}`;
+    }
+  }
+  return result;
+}
+
+// =============================================================================
+// Partitioning and Sorting
+// =============================================================================
+
+/**
+ * Find the top-level column a partition or sort field is derived from.
+ * Returns undefined, with a warning, for nested or dropped columns.
+ */
+function sourceColumn(
+  schema: IcebergSchema,
+  sourceId: number,
+  description: string,
+  context: ImportContext
+): IcebergField | undefined {
+  const source = schema.fields.find((field) => field.id === sourceId);
+  if (!source) {
+    context.warnings.push(`Skipped ${description}: column ${sourceId} is not a top-level column of the current schema`);
+  }
+  return source;
+}
+
+function importPartitionBy(metadata: IcebergTableMetadata, schema: IcebergSchema, context: ImportContext): string[] {
+  const spec = metadata.partitionSpecs.find((candidate) => candidate.specId === metadata.defaultSpecId);
+  const partitionBy: string[] = [];
+
+  for (const field of spec?.fields ?? []) {
+    const source = sourceColumn(schema, field.sourceId, `partition field '${field.name}'`, context);
+    // System columns are partitioned by IceType itself
+    if (!source || isSystemColumn(source.name) || field.transform === 'void') continue;
+
+    const { name, arg } = parseIcebergTransform(field.transform);
+    const isTimestamp = source.type.type === 'timestamp' || source.type.type === 'timestamptz';
+    // A bare timestamp field is partitioned by day
+    if (name === 'identity' && isTimestamp) {
+      context.warnings.push(`Partition field '${field.name}' on timestamp '${source.name}' is imported as day(${source.name})`);
+    }
+    if (name === 'identity' || (name === 'day' && isTimestamp && field.name === source.name)) {
+      partitionBy.push(source.name);
+    } else {
+      partitionBy.push(
+        formatPartitionField({
+          field: source.name,
+          transform: name as SortTransform,
+          ...(arg !== undefined && { transformArg: arg }),
+        })
+      );
+    }
+  }
+  return partitionBy;
+}
+
+function importOrderBy(metadata: IcebergTableMetadata, schema: IcebergSchema, context: ImportContext): string[] {
+  const order = metadata.sortOrders.find((candidate) => candidate.orderId === metadata.defaultSortOrderId);
+  const orderBy: string[] = [];
+
+  for (const field of order?.fields ?? []) {
+    const source = sourceColumn(schema, field.sourceId, `sort field '${field.transform}'`, context);
+    if (!source || isSystemColumn(source.name)) continue;
+
+    const { name, arg } = parseIcebergTransform(field.transform);
+    if (!SORT_TRANSFORMS.has(name)) {
+      context.warnings.push(`Skipped sort field on '${source.name}': unsupported transform '${field.transform}'`);
+      continue;
+    }
+    orderBy.push(
+      formatOrderByField({
+        field: source.name,
+        transform: name as SortTransform,
+        ...(arg !== undefined && { transformArg: arg }),
+        direction: field.direction,
+        nulls: field.nullOrder === 'nulls-first' ? 'first' : 'last',
+      })
+    );
+  }
+  return orderBy;
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/**
+ * Convert Iceberg table metadata to an IceType schema.
+ *
+ * Columns map to fields of the same name: optional columns get the `?`
+ * modifier, identifier fields the `!` modifier, and initial defaults
+ * become field defaults. Struct columns are declared in `$structs`, lists
+ * become arrays, and maps of primitive types become `map<K, V>`. The
+ * default partition spec and sort order become `$partitionBy` and
+ * `$orderBy`. IceType's system columns (`$id`, `$type`, ...) are skipped,
+ * so metadata generated by {@link generateIcebergMetadata} round-trips.
+ *
+ * @param metadata - The table metadata, as JSON or parsed
+ * @param options - Import options
+ * @returns The schema definition, the parsed schema and any warnings
+ * @throws Error if the metadata is malformed or uses an unsupported type
+ */
+export function importIcebergMetadata(
+  metadata: string | IcebergTableMetadata,
+  options: IcebergImportOptions = {}
+): IcebergImportResult {
+  const table = parseIcebergMetadata(metadata);
+  const current = table.schemas.find((schema) => schema.schemaId === table.currentSchemaId);
+  if (!current) {
+    throw new Error(`Invalid Iceberg metadata: current schema ${table.currentSchemaId} not found`);
+  }
+
+  const context: ImportContext = { structs: {}, warnings: [] };
+  const name =
+    options.name ??
+    table.properties['icetype.source.schema'] ??
+    (toPascalCase(table.location.split('/').filter(Boolean).pop() ?? '') || 'Table');
+
+  const fields: Record<string, string> = {};
+  for (const field of current.fields) {
+    if (isSystemColumn(field.name)) continue;
+    if (field.name.startsWith('$')) {
+      context.warnings.push(`Skipped column '${field.name}': names starting with $ are reserved for directives`);
+      continue;
+    }
+    fields[field.name] = fieldType(field, field.name, current.identifierFieldIds.includes(field.id), context);
+  }
+
+  const definition: SchemaDefinition = { $type: name };
+  const partitionBy = importPartitionBy(table, current, context);
+  const orderBy = importOrderBy(table, current, context);
+  if (partitionBy.length > 0) definition.$partitionBy = partitionBy;
+  if (orderBy.length > 0) definition.$orderBy = orderBy;
+  if (Object.keys(context.structs).length > 0) definition.$structs = context.structs;
+  Object.assign(definition, fields);
+
+  return { definition, schema: parseSchema(definition), warnings: context.warnings };
+}
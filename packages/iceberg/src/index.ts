@@ -1,7 +1,9 @@
 /**
  * @icetype/iceberg
  *
- * IceType to Apache Iceberg metadata and Parquet schema generation.
+ * IceType to Apache Iceberg metadata and Parquet schema generation, a
+ * dependency-free Parquet file writer and footer reader, and a writer that
+ * appends documents to Iceberg tables in a local directory.
  *
  * @example
  * ```typescript
@@ -44,6 +46,7 @@ export type {
   IcebergTableMetadata,
   IcebergSnapshot,
   IcebergSnapshotRef,
+  IcebergMetadataLogEntry,
 } from './types.js';
 
 // Re-export Parquet types
@@ -61,8 +64,19 @@ export {
   IcebergMetadataGenerator,
   createIcebergMetadataGenerator,
   generateIcebergMetadata,
+  generateIcebergSortOrder,
+  evolveIcebergMetadata,
+  parseIcebergMetadata,
+  type EvolveIcebergMetadataOptions,
 } from './metadata.js';
 
+// Re-export Iceberg metadata import
+export {
+  importIcebergMetadata,
+  type IcebergImportOptions,
+  type IcebergImportResult,
+} from './importer.js';
+
 // Re-export Parquet schema generation
 export {
   ParquetSchemaGenerator,
@@ -70,8 +84,66 @@ export {
   generateParquetSchema,
   generateParquetSchemaString,
   documentToParquetRow,
+  icebergSchemaToParquetSchema,
+  parquetFooterToIceType,
+  type ParquetSchemaOptions,
+  type ParquetImportOptions,
+  type ParquetImportResult,
 } from './parquet.js';
 
+// Re-export Parquet footer reading
+export {
+  decodeParquetFooter,
+  readParquetFooter,
+  type ParquetFooter,
+} from './parquet-reader.js';
+
+// Re-export Parquet file writing
+export {
+  ParquetEncoder,
+  encodeParquet,
+  writeParquet,
+} from './parquet-writer.js';
+
+export type {
+  ParquetCompressionCodec,
+  ParquetWriterOptions,
+  ParquetColumnSummary,
+  ParquetWriteResult,
+  ParquetWritableStream,
+  ParquetNodeWritable,
+  ParquetWriteTarget,
+} from './parquet-writer.js';
+
+// Re-export Iceberg table writing
+export {
+  IcebergTableWriter,
+  createIcebergTableWriter,
+} from './table-writer.js';
+
+export type {
+  IcebergTableWriterOptions,
+  IcebergDataFile,
+  IcebergAppendResult,
+} from './table-writer.js';
+
+// Re-export Iceberg spec serialization and partition transforms
+export {
+  isIcebergSpecMetadata,
+  writeIcebergSpecMetadata,
+  writeIcebergSpecSchema,
+  writeIcebergSpecPartitionSpec,
+} from './spec.js';
+
+export {
+  applyIcebergTransform,
+  icebergTransformResultType,
+  icebergBucketHash,
+  murmur3Hash,
+  serializeIcebergJsonValue,
+  serializeIcebergValue,
+} from './transforms.js';
+
 // Re-export adapters
 export {
   IcebergAdapter,
@@ -107,6 +179,7 @@ export {
   ProjectionSchemaGenerator,
   createProjectionSchemaGenerator,
   generateProjectionSchema,
+  generateProjectionSortOrder,
 } from './projection-generator.js';
 
 // Re-export projection types
@@ -12,10 +12,19 @@ import { randomUUID } from 'node:crypto';
 import type {
   IceTypeSchema,
   FieldDefinition,
+  IcebergAdapterOptions,
+  OrderByField,
+} from '@icetype/core';
+import {
+  SYSTEM_COLUMNS,
+  canApplyTransform,
+  formatPartitionField,
+  parsePartitionBy,
+  ttlDurationToIso8601,
 } from '@icetype/core';
-import { SYSTEM_COLUMNS } from '@icetype/core';
 
 import type {
+  IcebergFormatVersion,
   IcebergType,
   IcebergField,
   IcebergSchema,
@@ -25,12 +34,14 @@ import type {
   IcebergSortOrder,
   IcebergTableMetadata,
 } from './types.js';
+import { isIcebergSpecMetadata, readIcebergSpecMetadata } from './spec.js';
+import { serializeIcebergJsonValue, toIcebergValue } from './transforms.js';
 
 // =============================================================================
 // Type Mapping
 // =============================================================================
 
-function mapPrimitiveType(iceType: string): IcebergType {
+function mapPrimitiveType(iceType: string, formatVersion: IcebergFormatVersion = 2): IcebergType {
   const normalized = iceType.toLowerCase();
 
   switch (normalized) {
@@ -62,7 +73,8 @@ function mapPrimitiveType(iceType: string): IcebergType {
     case 'binary':
       return { type: 'binary' };
     case 'json':
-      return { type: 'string' };
+      // Format v3 stores semi-structured values natively
+      return formatVersion >= 3 ? { type: 'variant' } : { type: 'string' };
     case 'decimal':
       return { type: 'decimal', precision: 38, scale: 9 };
     default:
@@ -70,9 +82,51 @@ function mapPrimitiveType(iceType: string): IcebergType {
   }
 }
 
+/**
+ * Map a field's value type (ignoring array-ness) to an Iceberg type.
+ * Resolved struct fields become nested Iceberg structs whose fields
+ * draw their IDs from the same allocator as top-level columns.
+ */
+function mapValueType(field: FieldDefinition, nextId: () => number, formatVersion: IcebergFormatVersion): IcebergType {
+  if (field.structFields) {
+    return {
+      type: 'struct',
+      fields: field.structFields.map((nested) => fieldToIcebergField(nested, nextId(), nextId, formatVersion)),
+    };
+  }
+  if (field.type === 'map' && field.keyType !== undefined && field.valueType !== undefined) {
+    return {
+      type: 'map',
+      keyType: mapPrimitiveType(field.keyType, formatVersion),
+      valueType: mapPrimitiveType(field.valueType, formatVersion),
+    };
+  }
+  if (field.type === 'decimal' && field.precision !== undefined) {
+    return { type: 'decimal', precision: field.precision, scale: field.scale ?? 0 };
+  }
+  if (field.type === 'fixed' && field.length !== undefined) {
+    return { type: 'fixed', length: field.length };
+  }
+  return mapPrimitiveType(field.type, formatVersion);
+}
+
+/**
+ * Convert a field default to an Iceberg column default, in the JSON form
+ * the spec gives for the column's type (a `decimal(10, 2)` default of 1.5
+ * is `"1.50"`). Only literal values of primitive columns qualify; function
+ * defaults such as `now()` are computed by writers.
+ */
+function toColumnDefault(type: IcebergType, value: unknown): unknown {
+  if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') return undefined;
+  if (type.type === 'list' || type.type === 'map' || type.type === 'struct' || type.type === 'variant') return undefined;
+  return serializeIcebergJsonValue(type, toIcebergValue(type, value));
+}
+
 function fieldToIcebergField(
   field: FieldDefinition,
-  fieldId: number
+  fieldId: number,
+  nextId: () => number,
+  formatVersion: IcebergFormatVersion = 2
 ): IcebergField {
   let icebergType: IcebergType;
 
@@ -86,23 +140,213 @@ function fieldToIcebergField(
       icebergType = { type: 'string' };
     }
   } else if (field.isArray) {
-    const elementType = mapPrimitiveType(field.type);
+    const elementType = mapValueType(field, nextId, formatVersion);
     icebergType = {
       type: 'list',
       elementType,
     };
   } else {
-    icebergType = mapPrimitiveType(field.type);
+    icebergType = mapValueType(field, nextId, formatVersion);
   }
 
-  return {
+  const icebergField: IcebergField = {
     id: fieldId,
     name: field.name,
     required: !field.isOptional && field.modifier !== '?',
     type: icebergType,
     doc: field.name,
-    initialDefault: field.defaultValue,
   };
+
+  // Column defaults were introduced in format v3
+  const columnDefault = formatVersion >= 3 ? toColumnDefault(icebergType, field.defaultValue) : undefined;
+  if (columnDefault !== undefined) {
+    icebergField.initialDefault = columnDefault;
+    icebergField.writeDefault = columnDefault;
+  }
+  return icebergField;
+}
+
+// =============================================================================
+// Schema Evolution
+// =============================================================================
+
+/**
+ * Check whether a column can change from one type to another and keep its
+ * field ID: the types are equal, or the change is one of Iceberg's type
+ * promotions (int to long, float to double, widening a decimal).
+ */
+function canEvolveType(from: IcebergType, to: IcebergType): boolean {
+  if (from.type === 'struct' || from.type === 'list' || from.type === 'map') {
+    if (from.type !== to.type) return false;
+    const pairs: Array<[IcebergType | undefined, IcebergType | undefined]> = [
+      [from.elementType, to.elementType],
+      [from.keyType, to.keyType],
+      [from.valueType, to.valueType],
+    ];
+    return pairs.every(([a, b]) => (a === undefined || b === undefined ? a === b : canEvolveType(a, b)));
+  }
+
+  if (from.type === 'decimal' && to.type === 'decimal') {
+    return from.scale === to.scale && (to.precision ?? 0) >= (from.precision ?? 0);
+  }
+  return (
+    (from.type === to.type && from.length === to.length) ||
+    (from.type === 'int' && to.type === 'long') ||
+    (from.type === 'float' && to.type === 'double')
+  );
+}
+
+/**
+ * Give fields the IDs of the previous fields with the same name and a
+ * compatible type, and fresh IDs otherwise. Nested struct fields, list
+ * elements and map keys and values are matched the same way. `ids` maps
+ * each original column ID to its new ID.
+ */
+function reuseFieldIds(
+  fields: IcebergField[],
+  previous: IcebergField[] | undefined,
+  nextId: () => number,
+  ids: Map<number, number>
+): IcebergField[] {
+  return fields.map((field) => {
+    const match = previous?.find((candidate) => candidate.name === field.name);
+    const reused = match !== undefined && canEvolveType(match.type, field.type) ? match : undefined;
+    const id = reused?.id ?? nextId();
+    ids.set(field.id, id);
+    return { ...field, id, type: reuseTypeIds(field.type, reused?.type, nextId, ids) };
+  });
+}
+
+function reuseTypeIds(
+  type: IcebergType,
+  previous: IcebergType | undefined,
+  nextId: () => number,
+  ids: Map<number, number>
+): IcebergType {
+  switch (type.type) {
+    case 'struct':
+      return { ...type, fields: reuseFieldIds(type.fields ?? [], previous?.fields, nextId, ids) };
+    case 'list':
+      return {
+        ...type,
+        elementId: previous?.elementId ?? nextId(),
+        elementRequired: previous?.elementRequired ?? type.elementRequired ?? false,
+        elementType: reuseTypeIds(type.elementType!, previous?.elementType, nextId, ids),
+      };
+    case 'map':
+      return {
+        ...type,
+        keyId: previous?.keyId ?? nextId(),
+        valueId: previous?.valueId ?? nextId(),
+        valueRequired: previous?.valueRequired ?? type.valueRequired ?? false,
+        keyType: reuseTypeIds(type.keyType!, previous?.keyType, nextId, ids),
+        valueType: reuseTypeIds(type.valueType!, previous?.valueType, nextId, ids),
+      };
+    default:
+      return type;
+  }
+}
+
+/**
+ * Parse table metadata, checking that it has the schemas, specs and sort
+ * orders evolution builds on.
+ *
+ * Accepts metadata written by `serializeMetadata` as well as v1 and v2
+ * `metadata.json` files in the Iceberg spec's format, as written by Spark,
+ * Trino or PyIceberg.
+ *
+ * @param metadata - The metadata, as JSON or parsed
+ * @returns The table metadata
+ * @throws Error if the JSON is malformed or is not table metadata
+ */
+export function parseIcebergMetadata(metadata: string | IcebergTableMetadata): IcebergTableMetadata {
+  let parsed: unknown = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      parsed = JSON.parse(metadata);
+    } catch (error) {
+      throw new Error(`Invalid Iceberg metadata JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (isIcebergSpecMetadata(parsed)) {
+    return readIcebergSpecMetadata(parsed);
+  }
+
+  const candidate = parsed as Partial<IcebergTableMetadata> | null;
+  if (
+    typeof candidate !== 'object' ||
+    candidate === null ||
+    !Array.isArray(candidate.schemas) ||
+    !Array.isArray(candidate.partitionSpecs) ||
+    !Array.isArray(candidate.sortOrders) ||
+    typeof candidate.lastColumnId !== 'number' ||
+    typeof candidate.currentSchemaId !== 'number'
+  ) {
+    throw new Error(
+      'Invalid Iceberg metadata: expected schemas, partitionSpecs, sortOrders, lastColumnId and currentSchemaId'
+    );
+  }
+  return candidate as IcebergTableMetadata;
+}
+
+/**
+ * Options for evolving existing Iceberg table metadata.
+ */
+export interface EvolveIcebergMetadataOptions {
+  /**
+   * Location of the previous metadata file, recorded in the metadata log.
+   * Defaults to `<location>/metadata/v<N>.metadata.json`, where N counts
+   * the previous file and the ones already in its log.
+   */
+  previousMetadataFile?: string;
+  /** Additional table properties */
+  properties?: Record<string, string>;
+  /**
+   * Fields that identify a row. Defaults to the identifier fields of the
+   * current schema that are still columns.
+   */
+  identifierFields?: string[];
+}
+
+/**
+ * Resolve identifier field names to the IDs of top-level columns.
+ *
+ * @throws Error if a field is not a column, is optional, or has a type
+ *   Iceberg does not allow in identifiers (floating point or nested)
+ */
+function resolveIdentifierFieldIds(schema: IcebergSchema, names: string[]): number[] {
+  return names.map((name) => {
+    const field = schema.fields.find((candidate) => candidate.name === name);
+    if (!field) {
+      throw new Error(`Identifier field '${name}' is not a column of the table`);
+    }
+    const type = field.type.type;
+    const allowed = !['float', 'double', 'variant', 'struct', 'list', 'map'].includes(type);
+    if (!field.required || !allowed) {
+      throw new Error(
+        `Identifier field '${name}' must be a required column of a primitive, non-floating-point type (got ${field.required ? '' : 'optional '}${type})`
+      );
+    }
+    return field.id;
+  });
+}
+
+/**
+ * Build the write properties for a table. `write.format.default` defaults
+ * to Parquet, compressed with Snappy.
+ */
+function writeProperties(options: IcebergAdapterOptions): Record<string, string> {
+  const format = options.writeFormat ?? 'parquet';
+  const codec = options.compressionCodec ?? (format === 'parquet' ? 'snappy' : undefined);
+  const properties: Record<string, string> = { 'write.format.default': format };
+  if (codec !== undefined) {
+    properties[`write.${format}.compression-codec`] = codec;
+  }
+  if (options.targetFileSizeBytes !== undefined) {
+    properties['write.target-file-size-bytes'] = String(options.targetFileSizeBytes);
+  }
+  return properties;
 }
 
 // =============================================================================
@@ -124,6 +368,7 @@ function generateUUID(): string {
 export class IcebergMetadataGenerator {
   private nextFieldId = 1;
   private nextPartitionId = 1000;
+  private formatVersion: IcebergFormatVersion = 2;
 
   /**
    * Generate Iceberg schema from IceType schema.
@@ -146,7 +391,9 @@ export class IcebergMetadataGenerator {
 
       const icebergField = fieldToIcebergField(
         { ...fieldDef, name: fieldName },
-        this.nextFieldId++
+        this.nextFieldId++,
+        () => this.nextFieldId++,
+        this.formatVersion
       );
       fields.push(icebergField);
     }
@@ -201,30 +448,55 @@ export class IcebergMetadataGenerator {
 
   /**
    * Generate partition spec from schema directives.
+   *
+   * Each `$partitionBy` key becomes a partition field with the key's
+   * transform. Bare timestamp fields are partitioned by day. Keys whose
+   * field is not in the Iceberg schema are skipped.
+   *
+   * @throws Error if a transform cannot be applied to its field's type
    */
   generatePartitionSpec(
     schema: IceTypeSchema,
     icebergSchema: IcebergSchema
   ): IcebergPartitionSpec {
     const fields: IcebergPartitionField[] = [];
-    const partitionBy = schema.directives.partitionBy ?? [];
+    const partitionBy = parsePartitionBy(schema.directives.partitionBy ?? []);
 
-    for (const partitionField of partitionBy) {
-      const sourceField = icebergSchema.fields.find(f => f.name === partitionField);
+    for (const key of partitionBy) {
+      const sourceField = icebergSchema.fields.find(f => f.name === key.field);
       if (!sourceField) continue;
 
-      let transform: IcebergPartitionField['transform'] = 'identity';
+      const fieldDef = schema.fields.get(key.field);
+      const fieldType = fieldDef?.type ?? sourceField.type.type;
+      if (fieldDef?.isArray || !canApplyTransform(key.transform, fieldType)) {
+        throw new Error(
+          `Cannot partition by '${formatPartitionField(key)}': field '${key.field}' is ${fieldType}${fieldDef?.isArray ? '[]' : ''}`
+        );
+      }
 
-      if (sourceField.type.type === 'timestamp' || sourceField.type.type === 'timestamptz') {
-        transform = 'day';
+      const isTimestamp = sourceField.type.type === 'timestamp' || sourceField.type.type === 'timestamptz';
+      if (key.transform === 'identity') {
+        fields.push({
+          sourceId: sourceField.id,
+          fieldId: this.nextPartitionId++,
+          name: key.field,
+          transform: isTimestamp ? 'day' : 'identity',
+        });
+        continue;
       }
 
-      fields.push({
+      const field: IcebergPartitionField = {
         sourceId: sourceField.id,
         fieldId: this.nextPartitionId++,
-        name: partitionField,
-        transform,
-      });
+        name: `${key.field}_${key.transform === 'truncate' ? 'trunc' : key.transform}`,
+        transform: key.transformArg === undefined
+          ? (key.transform as 'year' | 'month' | 'day' | 'hour')
+          : `${key.transform as 'bucket' | 'truncate'}[${key.transformArg}]`,
+      };
+      if (key.transformArg !== undefined) {
+        field.transformArg = key.transformArg;
+      }
+      fields.push(field);
     }
 
     if (fields.length === 0) {
@@ -247,8 +519,15 @@ export class IcebergMetadataGenerator {
 
   /**
    * Generate sort order from schema.
+   *
+   * Uses the schema's `$orderBy` directive when present, and sorts by
+   * `$createdAt` descending otherwise.
    */
-  generateSortOrder(_schema: IceTypeSchema, icebergSchema: IcebergSchema): IcebergSortOrder {
+  generateSortOrder(schema: IceTypeSchema, icebergSchema: IcebergSchema): IcebergSortOrder {
+    if (schema.directives.orderBy && schema.directives.orderBy.length > 0) {
+      return generateIcebergSortOrder(schema.directives.orderBy, icebergSchema);
+    }
+
     const fields: IcebergSortField[] = [];
 
     const createdAtField = icebergSchema.fields.find(f => f.name === SYSTEM_COLUMNS.$createdAt.name);
@@ -269,19 +548,21 @@ export class IcebergMetadataGenerator {
 
   /**
    * Generate complete table metadata.
+   *
+   * @param schema - The IceType schema
+   * @param options - Table location, format version, identifier fields and properties
+   * @returns The table metadata
+   * @throws Error if an identifier field is not a required primitive column
    */
-  generateTableMetadata(
-    schema: IceTypeSchema,
-    options: {
-      location: string;
-      tableUuid?: string;
-      properties?: Record<string, string>;
-    }
-  ): IcebergTableMetadata {
+  generateTableMetadata(schema: IceTypeSchema, options: IcebergAdapterOptions): IcebergTableMetadata {
     this.nextFieldId = 1;
     this.nextPartitionId = 1000;
+    this.formatVersion = options.formatVersion ?? 2;
 
     const icebergSchema = this.generateSchema(schema);
+    if (options.identifierFields) {
+      icebergSchema.identifierFieldIds = resolveIdentifierFieldIds(icebergSchema, options.identifierFields);
+    }
     const partitionSpec = this.generatePartitionSpec(schema, icebergSchema);
     const sortOrder = this.generateSortOrder(schema, icebergSchema);
 
@@ -289,7 +570,7 @@ export class IcebergMetadataGenerator {
     const tableUuid = options.tableUuid ?? generateUUID();
 
     return {
-      formatVersion: 2,
+      formatVersion: this.formatVersion,
       tableUuid,
       location: options.location,
       lastSequenceNumber: 0,
@@ -303,15 +584,147 @@ export class IcebergMetadataGenerator {
       defaultSortOrderId: sortOrder.orderId,
       sortOrders: [sortOrder],
       properties: {
-        'write.format.default': 'parquet',
-        'write.parquet.compression-codec': 'snappy',
+        ...writeProperties(options),
         'icetype.source.schema': schema.name,
         'icetype.source.version': String(schema.version),
+        ...this.generateTtlProperties(schema),
         ...options.properties,
       },
     };
   }
 
+  /**
+   * Evolve existing table metadata to a new version of its schema.
+   *
+   * Columns keep their field IDs when a column of the same name and a
+   * compatible type exists in the current schema; other columns get IDs
+   * above `lastColumnId`. Changed schemas, partition specs and sort orders
+   * are appended with the next ID and made current, while unchanged ones
+   * reuse their existing entry. Partition fields keep their IDs across
+   * specs. The previous metadata file is added to the metadata log, and
+   * the table UUID, location and snapshots are kept.
+   *
+   * @param previous - The current table metadata
+   * @param schema - The new version of the IceType schema
+   * @param options - Evolution options
+   * @returns The next table metadata
+   */
+  evolveTableMetadata(
+    previous: IcebergTableMetadata,
+    schema: IceTypeSchema,
+    options: EvolveIcebergMetadataOptions = {}
+  ): IcebergTableMetadata {
+    const currentSchema = previous.schemas.find(s => s.schemaId === previous.currentSchemaId);
+    if (!currentSchema) {
+      throw new Error(`Invalid Iceberg metadata: current schema ${previous.currentSchemaId} not found`);
+    }
+
+    this.nextFieldId = 1;
+    this.nextPartitionId = 1000;
+    this.formatVersion = previous.formatVersion;
+
+    // Schema: keep the IDs of unchanged columns
+    const generated = this.generateSchema(schema);
+    let lastColumnId = previous.lastColumnId;
+    const ids = new Map<number, number>();
+    const fields = reuseFieldIds(generated.fields, currentSchema.fields, () => ++lastColumnId, ids);
+    const identifierFields =
+      options.identifierFields ??
+      currentSchema.fields
+        .filter(f => currentSchema.identifierFieldIds.includes(f.id) && fields.some(g => g.name === f.name))
+        .map(f => f.name);
+    const identifierFieldIds = resolveIdentifierFieldIds({ ...generated, fields }, identifierFields);
+    const sameSchema = previous.schemas.find(
+      s => JSON.stringify([s.fields, s.identifierFieldIds]) === JSON.stringify([fields, identifierFieldIds])
+    );
+    const icebergSchema: IcebergSchema = sameSchema ?? {
+      type: 'struct',
+      schemaId: Math.max(...previous.schemas.map(s => s.schemaId)) + 1,
+      identifierFieldIds,
+      fields,
+    };
+
+    // Partition spec: keep the IDs of partition fields from earlier specs
+    let lastPartitionId = previous.lastPartitionId;
+    const previousPartitionFields = previous.partitionSpecs.flatMap(spec => spec.fields);
+    const partitionFields = this.generatePartitionSpec(schema, icebergSchema).fields.map(field => {
+      const match = previousPartitionFields.find(
+        candidate => candidate.sourceId === field.sourceId && candidate.transform === field.transform
+      );
+      return { ...field, fieldId: match?.fieldId ?? ++lastPartitionId };
+    });
+    const samePartitionSpec = previous.partitionSpecs.find(
+      spec => JSON.stringify(spec.fields) === JSON.stringify(partitionFields)
+    );
+    const partitionSpec: IcebergPartitionSpec = samePartitionSpec ?? {
+      specId: Math.max(...previous.partitionSpecs.map(spec => spec.specId)) + 1,
+      fields: partitionFields,
+    };
+
+    const sortFields = this.generateSortOrder(schema, icebergSchema).fields;
+    const sameSortOrder = previous.sortOrders.find(
+      order => JSON.stringify(order.fields) === JSON.stringify(sortFields)
+    );
+    const sortOrder: IcebergSortOrder = sameSortOrder ?? {
+      orderId: Math.max(0, ...previous.sortOrders.map(order => order.orderId)) + 1,
+      fields: sortFields,
+    };
+
+    // Properties: replace the ones derived from the schema
+    const properties = Object.fromEntries(
+      Object.entries(previous.properties).filter(([key]) => !key.startsWith('icetype.ttl.'))
+    );
+    Object.assign(properties, {
+      'icetype.source.schema': schema.name,
+      'icetype.source.version': String(schema.version),
+      ...this.generateTtlProperties(schema),
+      ...options.properties,
+    });
+
+    const metadataLog = previous.metadataLog ?? [];
+    const previousMetadataFile =
+      options.previousMetadataFile ?? `${previous.location}/metadata/v${metadataLog.length + 1}.metadata.json`;
+
+    return {
+      ...previous,
+      lastUpdatedMs: Date.now(),
+      lastColumnId,
+      currentSchemaId: icebergSchema.schemaId,
+      schemas: sameSchema ? previous.schemas : [...previous.schemas, icebergSchema],
+      defaultSpecId: partitionSpec.specId,
+      partitionSpecs: samePartitionSpec ? previous.partitionSpecs : [...previous.partitionSpecs, partitionSpec],
+      lastPartitionId,
+      defaultSortOrderId: sortOrder.orderId,
+      sortOrders: sameSortOrder ? previous.sortOrders : [...previous.sortOrders, sortOrder],
+      properties,
+      metadataLog: [...metadataLog, { timestampMs: previous.lastUpdatedMs, metadataFile: previousMetadataFile }],
+    };
+  }
+
+  /**
+   * Record the schema's `$ttl` directive as table properties.
+   *
+   * Iceberg has no native row expiry, so the directive is kept for
+   * maintenance jobs: `icetype.ttl.field` names the timestamp field and
+   * the durations are ISO 8601 (e.g. `icetype.ttl.delete-after: P90D`).
+   */
+  private generateTtlProperties(schema: IceTypeSchema): Record<string, string> {
+    const ttl = schema.directives.ttl;
+    if (!ttl) {
+      return {};
+    }
+
+    const properties: Record<string, string> = { 'icetype.ttl.field': ttl.field };
+    for (const action of ttl.actions) {
+      if (action.type === 'delete') {
+        properties['icetype.ttl.delete-after'] = ttlDurationToIso8601(action.after);
+      } else {
+        properties[`icetype.ttl.move-after.${action.volume}`] = ttlDurationToIso8601(action.after);
+      }
+    }
+    return properties;
+  }
+
   /**
    * Serialize table metadata to JSON.
    */
@@ -320,6 +733,44 @@ export class IcebergMetadataGenerator {
   }
 }
 
+// =============================================================================
+// Sort Order
+// =============================================================================
+
+/**
+ * Convert `$orderBy` sort keys to an Iceberg sort order.
+ *
+ * Keys whose field is not in the Iceberg schema are skipped. The order has
+ * ID 1, since order ID 0 is reserved for the unsorted order.
+ *
+ * @param orderBy - The parsed `$orderBy` sort keys
+ * @param icebergSchema - The Iceberg schema the keys refer to
+ * @returns The sort order
+ */
+export function generateIcebergSortOrder(
+  orderBy: OrderByField[],
+  icebergSchema: IcebergSchema
+): IcebergSortOrder {
+  const fields: IcebergSortField[] = [];
+
+  for (const key of orderBy) {
+    const sourceField = icebergSchema.fields.find(f => f.name === key.field);
+    if (!sourceField) continue;
+
+    fields.push({
+      transform: key.transformArg === undefined ? key.transform : `${key.transform}[${key.transformArg}]`,
+      sourceId: sourceField.id,
+      direction: key.direction,
+      nullOrder: key.nulls === 'first' ? 'nulls-first' : 'nulls-last',
+    });
+  }
+
+  return {
+    orderId: 1,
+    fields,
+  };
+}
+
 // =============================================================================
 // Factory Functions
 // =============================================================================
@@ -353,3 +804,31 @@ export function generateIcebergMetadata(
   const generator = new IcebergMetadataGenerator();
   return generator.generateTableMetadata(schema, { location, properties });
 }
+
+/**
+ * Produce the next table metadata for a new version of a table's schema.
+ *
+ * @example
+ * ```typescript
+ * import { evolveIcebergMetadata } from '@icetype/iceberg';
+ *
+ * const previous = readFileSync('metadata/v3.metadata.json', 'utf-8');
+ * const next = evolveIcebergMetadata(previous, userSchemaV2, {
+ *   previousMetadataFile: 's3://my-bucket/tables/users/metadata/v3.metadata.json',
+ * });
+ * ```
+ *
+ * @param previousMetadata - The current metadata, as JSON or parsed
+ * @param schema - The new version of the IceType schema
+ * @param options - Evolution options
+ * @returns The next table metadata
+ * @throws Error if the previous metadata is not valid table metadata
+ */
+export function evolveIcebergMetadata(
+  previousMetadata: string | IcebergTableMetadata,
+  schema: IceTypeSchema,
+  options?: EvolveIcebergMetadataOptions
+): IcebergTableMetadata {
+  const generator = new IcebergMetadataGenerator();
+  return generator.evolveTableMetadata(parseIcebergMetadata(previousMetadata), schema, options);
+}
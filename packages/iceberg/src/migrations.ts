@@ -218,6 +218,11 @@ export class IcebergMigrationGenerator {
         // They would be handled separately through partition spec evolution
         return null;
 
+      case 'add_constraint':
+      case 'drop_constraint':
+        // Iceberg has no CHECK constraints; values are validated on write
+        return null;
+
       default:
         return null;
     }
@@ -9,8 +9,8 @@
 
 import type { IceTypeSchema, SchemaAdapter, ParquetAdapterOptions } from '@icetype/core';
 
-import { generateParquetSchema, generateParquetSchemaString } from './parquet.js';
-import type { ParquetSchema } from './types.js';
+import { generateParquetSchema, generateParquetSchemaString, parquetAnnotation } from './parquet.js';
+import type { ParquetField, ParquetSchema } from './types.js';
 
 // =============================================================================
 // Parquet Adapter
@@ -50,14 +50,14 @@ export class ParquetAdapter
    * Transform an IceType schema to a Parquet schema.
    *
    * @param schema - The IceType schema to transform
-   * @param _options - Optional Parquet-specific options (reserved for future use)
+   * @param options - Timestamp unit, INT96 timestamps and annotation style
    * @returns Parquet schema definition
    */
   transform(
     schema: IceTypeSchema,
-    _options?: ParquetAdapterOptions
+    options?: ParquetAdapterOptions
   ): ParquetSchema {
-    return generateParquetSchema(schema);
+    return generateParquetSchema(schema, options);
   }
 
   /**
@@ -90,38 +90,21 @@ function schemaToString(schema: ParquetSchema): string {
   return lines.join('\n');
 }
 
-function fieldToString(
-  field: {
-    name: string;
-    type?: string;
-    repetition: string;
-    convertedType?: string;
-    typeLength?: number;
-    children?: Array<{
-      name: string;
-      type?: string;
-      repetition: string;
-      convertedType?: string;
-      typeLength?: number;
-      children?: unknown[];
-    }>;
-  },
-  indent: number
-): string {
+function fieldToString(field: ParquetField, indent: number): string {
   const prefix = '  '.repeat(indent);
+  const annotation = parquetAnnotation(field);
+  const converted = annotation ? ` (${annotation})` : '';
 
   if (field.children) {
     const lines: string[] = [];
-    const groupType = field.convertedType ? ` (${field.convertedType})` : '';
-    lines.push(`${prefix}${field.repetition} group ${field.name}${groupType} {`);
+    lines.push(`${prefix}${field.repetition} group ${field.name}${converted} {`);
     for (const child of field.children) {
-      lines.push(fieldToString(child as typeof field, indent + 1));
+      lines.push(fieldToString(child, indent + 1));
     }
     lines.push(`${prefix}}`);
     return lines.join('\n');
   }
 
-  const converted = field.convertedType ? ` (${field.convertedType})` : '';
   const typeStr = field.typeLength
     ? `${field.type}(${field.typeLength})`
     : field.type;
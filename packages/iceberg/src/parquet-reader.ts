@@ -0,0 +1,313 @@
+/**
+ * Parquet Footer Reader
+ *
+ * Reads the file metadata at the end of a Parquet file: the Thrift
+ * FileMetaData struct followed by its length and the `PAR1` magic. Only the
+ * footer is decoded, so the schema, row count and key/value metadata of
+ * large files are read without touching their column data.
+ *
+ * @example
+ * ```typescript
+ * import { readParquetFooter } from '@icetype/iceberg';
+ *
+ * const footer = await readParquetFooter('./drop/orders.parquet');
+ * console.log(footer.rowCount, footer.schema.fields.map((field) => field.name));
+ * ```
+ *
+ * @see https://parquet.apache.org/docs/file-format/metadata/
+ *
+ * @packageDocumentation
+ */
+
+import { decodeStruct, type ThriftRecord, type ThriftValue } from './thrift.js';
+import type {
+  ParquetConvertedType,
+  ParquetField,
+  ParquetLogicalType,
+  ParquetPrimitiveType,
+  ParquetRepetition,
+  ParquetSchema,
+} from './types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * The file metadata of a Parquet file
+ */
+export interface ParquetFooter {
+  /** Format version the file was written with */
+  version: number;
+  /** The schema, with the root message's name */
+  schema: ParquetSchema;
+  /** Rows in the file, across row groups */
+  rowCount: number;
+  rowGroupCount: number;
+  /** Key/value metadata, e.g. `iceberg.schema` or `org.apache.spark.sql.parquet.row.metadata` */
+  metadata: Record<string, string>;
+  /** The application that wrote the file, e.g. `parquet-mr version 1.13.1` */
+  createdBy?: string;
+}
+
+// =============================================================================
+// Thrift Enums
+// =============================================================================
+
+const MAGIC = 'PAR1';
+const ENCRYPTED_MAGIC = 'PARE';
+
+/** Physical types, ConvertedTypes and repetitions by their enum value */
+const PHYSICAL_TYPE_NAMES: ParquetPrimitiveType[] = [
+  'BOOLEAN',
+  'INT32',
+  'INT64',
+  'INT96',
+  'FLOAT',
+  'DOUBLE',
+  'BYTE_ARRAY',
+  'FIXED_LEN_BYTE_ARRAY',
+];
+
+const CONVERTED_TYPE_NAMES: ParquetConvertedType[] = [
+  'UTF8',
+  'MAP',
+  'MAP_KEY_VALUE',
+  'LIST',
+  'ENUM',
+  'DECIMAL',
+  'DATE',
+  'TIME_MILLIS',
+  'TIME_MICROS',
+  'TIMESTAMP_MILLIS',
+  'TIMESTAMP_MICROS',
+  'UINT_8',
+  'UINT_16',
+  'UINT_32',
+  'UINT_64',
+  'INT_8',
+  'INT_16',
+  'INT_32',
+  'INT_64',
+  'JSON',
+  'BSON',
+  'INTERVAL',
+];
+
+const REPETITION_NAMES: ParquetRepetition[] = ['REQUIRED', 'OPTIONAL', 'REPEATED'];
+
+/** LogicalType union members by field ID; INTEGER, DECIMAL, TIME and TIMESTAMP carry parameters */
+const LOGICAL_TYPE_NAMES: Record<number, string> = {
+  1: 'STRING',
+  2: 'MAP',
+  3: 'LIST',
+  4: 'ENUM',
+  5: 'DECIMAL',
+  6: 'DATE',
+  7: 'TIME',
+  8: 'TIMESTAMP',
+  10: 'INTEGER',
+  11: 'UNKNOWN',
+  12: 'JSON',
+  13: 'BSON',
+  14: 'UUID',
+  15: 'FLOAT16',
+  16: 'VARIANT',
+  17: 'GEOMETRY',
+  18: 'GEOGRAPHY',
+};
+
+const TIME_UNITS: Record<number, ParquetLogicalType['unit']> = { 1: 'MILLIS', 2: 'MICROS', 3: 'NANOS' };
+
+// =============================================================================
+// Decoding
+// =============================================================================
+
+// A global in Node.js, Deno, Bun and workers, though not declared by lib ES2022
+declare const TextDecoder: new () => { decode(input: Uint8Array): string };
+
+const textDecoder = new TextDecoder();
+
+function text(value: ThriftValue | undefined): string | undefined {
+  return value instanceof Uint8Array ? textDecoder.decode(value) : undefined;
+}
+
+function int(value: ThriftValue | undefined): number | undefined {
+  return typeof value === 'number' || typeof value === 'bigint' ? Number(value) : undefined;
+}
+
+function record(value: ThriftValue | undefined): ThriftRecord | undefined {
+  return typeof value === 'object' && !(value instanceof Uint8Array) && !Array.isArray(value) ? value : undefined;
+}
+
+function records(value: ThriftValue | undefined): ThriftRecord[] {
+  return Array.isArray(value) ? value.map(record).filter((item): item is ThriftRecord => item !== undefined) : [];
+}
+
+function logicalType(value: ThriftRecord): ParquetLogicalType | undefined {
+  const id = Number(Object.keys(value)[0]);
+  const type = LOGICAL_TYPE_NAMES[id];
+  const params = record(value[id]) ?? {};
+  switch (type) {
+    case undefined:
+      return undefined;
+    case 'DECIMAL':
+      return { type, scale: int(params[1]) ?? 0, precision: int(params[2]) ?? 0 };
+    case 'TIME':
+    case 'TIMESTAMP': {
+      const unit = record(params[2]);
+      return {
+        type,
+        isAdjustedToUTC: params[1] === true,
+        unit: TIME_UNITS[Number(Object.keys(unit ?? {})[0])] ?? 'MILLIS',
+      };
+    }
+    case 'INTEGER':
+      return { type, precision: int(params[1]) ?? 32, ...(params[2] === false && { isSigned: false }) };
+    default:
+      return { type };
+  }
+}
+
+function schemaField(element: ThriftRecord): ParquetField {
+  const name = text(element[4]) ?? '';
+  const repetition = REPETITION_NAMES[int(element[3]) ?? 0] ?? 'REQUIRED';
+  const field: ParquetField = { name, repetition };
+
+  const type = PHYSICAL_TYPE_NAMES[int(element[1]) ?? -1];
+  if (type !== undefined) field.type = type;
+  const convertedType = CONVERTED_TYPE_NAMES[int(element[6]) ?? -1];
+  if (convertedType !== undefined) field.convertedType = convertedType;
+  const logicalStruct = record(element[10]);
+  const logical = logicalStruct && logicalType(logicalStruct);
+  if (logical !== undefined) field.logicalType = logical;
+
+  const typeLength = int(element[2]);
+  const scale = int(element[7]);
+  const precision = int(element[8]);
+  const fieldId = int(element[9]);
+  if (typeLength !== undefined && type === 'FIXED_LEN_BYTE_ARRAY') field.typeLength = typeLength;
+  if (precision !== undefined) field.precision = precision;
+  if (scale !== undefined) field.scale = scale;
+  if (fieldId !== undefined) field.fieldId = fieldId;
+  return field;
+}
+
+/**
+ * Rebuild the schema tree from its elements, which are flattened depth
+ * first with the child count of each group.
+ */
+function schemaFields(elements: ThriftRecord[], cursor: { index: number }, count: number): ParquetField[] {
+  const fields: ParquetField[] = [];
+  for (let i = 0; i < count; i++) {
+    const element = elements[cursor.index++];
+    if (!element) {
+      throw new Error('Invalid Parquet footer: the schema ends before its last group does');
+    }
+    const field = schemaField(element);
+    const children = int(element[5]);
+    if (field.type === undefined) {
+      field.children = schemaFields(elements, cursor, children ?? 0);
+    }
+    fields.push(field);
+  }
+  return fields;
+}
+
+/**
+ * Check the magic at the end of a file and return the footer length
+ * before it.
+ *
+ * @param tail - The last bytes of the file, at least 8
+ * @param size - Size of the whole file
+ */
+function footerLength(tail: Uint8Array, size: number): number {
+  const magic = tail.length >= 8 ? textDecoder.decode(tail.subarray(tail.length - 4)) : '';
+  if (magic === ENCRYPTED_MAGIC) {
+    throw new Error('Unsupported Parquet file: the footer is encrypted');
+  }
+  if (magic !== MAGIC) {
+    throw new Error('Invalid Parquet file: missing the PAR1 magic at the end of the file');
+  }
+  const length = new DataView(tail.buffer, tail.byteOffset, tail.byteLength).getInt32(tail.length - 8, true);
+  if (length < 0 || length > size - 8) {
+    throw new Error(`Invalid Parquet file: footer of ${length} bytes does not fit in ${size} bytes`);
+  }
+  return length;
+}
+
+/**
+ * Decode the footer of a Parquet file.
+ *
+ * @param bytes - The whole file, or its last bytes as long as they hold the
+ *   entire footer
+ * @returns The schema, row count and key/value metadata
+ * @throws Error if the bytes do not end with a Parquet footer, or the
+ *   footer is encrypted
+ */
+export function decodeParquetFooter(bytes: Uint8Array): ParquetFooter {
+  const length = footerLength(bytes, bytes.length);
+  const metadata = decodeStruct(bytes.subarray(bytes.length - 8 - length, bytes.length - 8));
+  const elements = records(metadata[2]);
+  const root = elements[0];
+  if (!root) {
+    throw new Error('Invalid Parquet footer: the schema is empty');
+  }
+  const fields = schemaFields(elements, { index: 1 }, int(root[5]) ?? 0);
+
+  const keyValues: Record<string, string> = {};
+  for (const entry of records(metadata[5])) {
+    const key = text(entry[1]);
+    if (key !== undefined) keyValues[key] = text(entry[2]) ?? '';
+  }
+
+  const footer: ParquetFooter = {
+    version: int(metadata[1]) ?? 1,
+    schema: { name: text(root[4]) ?? 'schema', fields },
+    rowCount: int(metadata[3]) ?? 0,
+    rowGroupCount: records(metadata[4]).length,
+    metadata: keyValues,
+  };
+  const createdBy = text(metadata[6]);
+  if (createdBy !== undefined) footer.createdBy = createdBy;
+  return footer;
+}
+
+/** The subset of a `node:fs/promises` file handle the reader uses */
+interface FileHandle {
+  stat(): Promise<{ size: number }>;
+  read(buffer: Uint8Array, offset: number, length: number, position: number): Promise<{ bytesRead: number }>;
+  close(): Promise<void>;
+}
+
+async function readAt(handle: FileHandle, position: number, length: number): Promise<Uint8Array> {
+  const buffer = new Uint8Array(length);
+  let read = 0;
+  while (read < length) {
+    const { bytesRead } = await handle.read(buffer, read, length - read, position + read);
+    if (bytesRead === 0) break;
+    read += bytesRead;
+  }
+  return buffer.subarray(0, read);
+}
+
+/**
+ * Read the footer of a local Parquet file. Only the footer is read from
+ * disk, whatever the size of the file.
+ *
+ * @param path - Path of the Parquet file
+ * @returns The schema, row count and key/value metadata
+ * @throws Error if the file is not a Parquet file or its footer is malformed
+ */
+export async function readParquetFooter(path: string): Promise<ParquetFooter> {
+  // @ts-ignore -- node:fs available at runtime
+  const { open } = await import('node:fs/promises');
+  const handle = (await open(path, 'r')) as FileHandle;
+  try {
+    const { size } = await handle.stat();
+    const length = footerLength(await readAt(handle, Math.max(size - 8, 0), 8), size);
+    return decodeParquetFooter(await readAt(handle, size - 8 - length, length + 8));
+  } finally {
+    await handle.close();
+  }
+}
@@ -1,7 +1,8 @@
 /**
  * Parquet Schema Generation from IceType Schemas
  *
- * Converts IceType schema definitions to Apache Parquet schema format.
+ * Converts IceType schema definitions to Apache Parquet schema format, and
+ * infers IceType schemas from the schemas of existing Parquet files.
  *
  * @packageDocumentation
  */
@@ -9,10 +10,18 @@
 import type {
   IceTypeSchema,
   FieldDefinition,
+  ParquetAdapterOptions,
+  SchemaDefinition,
 } from '@icetype/core';
-import { SYSTEM_COLUMNS } from '@icetype/core';
+import { SYSTEM_COLUMNS, isSystemColumn, parseSchema } from '@icetype/core';
+
+import { declareStruct, toPascalCase, type ImportContext } from './importer.js';
+import { decodeParquetFooter, type ParquetFooter } from './parquet-reader.js';
 
 import type {
+  IcebergType,
+  IcebergField,
+  IcebergSchema,
   ParquetPrimitiveType,
   ParquetConvertedType,
   ParquetRepetition,
@@ -25,6 +34,13 @@ import type {
 // Type Mapping
 // =============================================================================
 
+/**
+ * Options for Parquet schema generation: the unit of times and
+ * timestamps, INT96 timestamps for older readers, and whether to leave
+ * out legacy ConvertedType annotations.
+ */
+export type ParquetSchemaOptions = Omit<ParquetAdapterOptions, 'format'>;
+
 interface ParquetTypeInfo {
   type: ParquetPrimitiveType;
   convertedType?: ParquetConvertedType;
@@ -34,8 +50,89 @@ interface ParquetTypeInfo {
   scale?: number;
 }
 
-function mapPrimitiveType(iceType: string): ParquetTypeInfo {
-  const normalized = iceType.toLowerCase();
+/** The type, precision and scale of a column */
+type ColumnType = Pick<FieldDefinition, 'type' | 'precision' | 'scale'>;
+
+function mapTimestampType(isAdjustedToUTC: boolean, options: ParquetSchemaOptions): ParquetTypeInfo {
+  if (options.int96Timestamps) {
+    return { type: 'INT96' };
+  }
+  switch (options.timestampUnit ?? 'millis') {
+    case 'millis':
+      return {
+        type: 'INT64',
+        convertedType: 'TIMESTAMP_MILLIS',
+        logicalType: { type: 'TIMESTAMP', isAdjustedToUTC, unit: 'MILLIS' },
+      };
+    case 'micros':
+      return {
+        type: 'INT64',
+        convertedType: 'TIMESTAMP_MICROS',
+        logicalType: { type: 'TIMESTAMP', isAdjustedToUTC, unit: 'MICROS' },
+      };
+    case 'nanos':
+      // Nanosecond timestamps have no ConvertedType
+      return {
+        type: 'INT64',
+        logicalType: { type: 'TIMESTAMP', isAdjustedToUTC, unit: 'NANOS' },
+      };
+  }
+}
+
+function mapTimeType(options: ParquetSchemaOptions): ParquetTypeInfo {
+  switch (options.timestampUnit ?? 'millis') {
+    case 'millis':
+      return {
+        type: 'INT32',
+        convertedType: 'TIME_MILLIS',
+        logicalType: { type: 'TIME', isAdjustedToUTC: false, unit: 'MILLIS' },
+      };
+    case 'micros':
+      return {
+        type: 'INT64',
+        convertedType: 'TIME_MICROS',
+        logicalType: { type: 'TIME', isAdjustedToUTC: false, unit: 'MICROS' },
+      };
+    case 'nanos':
+      return {
+        type: 'INT64',
+        logicalType: { type: 'TIME', isAdjustedToUTC: false, unit: 'NANOS' },
+      };
+  }
+}
+
+/** Bytes of the smallest fixed-length two's complement that holds a decimal of a precision */
+function decimalByteLength(precision: number): number {
+  let length = 1;
+  while (10n ** BigInt(precision) > 1n << BigInt(length * 8 - 1)) length++;
+  return length;
+}
+
+/**
+ * Decimals are stored in the smallest physical type that holds their
+ * precision: INT32 up to 9 digits, INT64 up to 18, and a fixed-length
+ * byte array beyond that.
+ */
+function mapDecimalType(column: ColumnType): ParquetTypeInfo {
+  const precision = column.precision ?? 38;
+  const scale = column.precision === undefined ? 9 : column.scale ?? 0;
+  const storage: Pick<ParquetTypeInfo, 'type' | 'typeLength'> =
+    precision <= 9
+      ? { type: 'INT32' }
+      : precision <= 18
+        ? { type: 'INT64' }
+        : { type: 'FIXED_LEN_BYTE_ARRAY', typeLength: decimalByteLength(precision) };
+  return {
+    ...storage,
+    convertedType: 'DECIMAL',
+    logicalType: { type: 'DECIMAL', precision, scale },
+    precision,
+    scale,
+  };
+}
+
+function mapPrimitiveType(column: ColumnType, options: ParquetSchemaOptions): ParquetTypeInfo {
+  const normalized = column.type.toLowerCase();
 
   switch (normalized) {
     case 'string':
@@ -73,17 +170,9 @@ function mapPrimitiveType(iceType: string): ParquetTypeInfo {
         logicalType: { type: 'UUID' },
       };
     case 'timestamp':
-      return {
-        type: 'INT64',
-        convertedType: 'TIMESTAMP_MILLIS',
-        logicalType: { type: 'TIMESTAMP', isAdjustedToUTC: false, unit: 'MILLIS' },
-      };
+      return mapTimestampType(false, options);
     case 'timestamptz':
-      return {
-        type: 'INT64',
-        convertedType: 'TIMESTAMP_MILLIS',
-        logicalType: { type: 'TIMESTAMP', isAdjustedToUTC: true, unit: 'MILLIS' },
-      };
+      return mapTimestampType(true, options);
     case 'date':
       return {
         type: 'INT32',
@@ -91,11 +180,7 @@ function mapPrimitiveType(iceType: string): ParquetTypeInfo {
         logicalType: { type: 'DATE' },
       };
     case 'time':
-      return {
-        type: 'INT32',
-        convertedType: 'TIME_MILLIS',
-        logicalType: { type: 'TIME', isAdjustedToUTC: false, unit: 'MILLIS' },
-      };
+      return mapTimeType(options);
     case 'binary':
       return { type: 'BYTE_ARRAY' };
     case 'json':
@@ -105,13 +190,7 @@ function mapPrimitiveType(iceType: string): ParquetTypeInfo {
         logicalType: { type: 'JSON' },
       };
     case 'decimal':
-      return {
-        type: 'BYTE_ARRAY',
-        convertedType: 'DECIMAL',
-        logicalType: { type: 'DECIMAL', precision: 38, scale: 9 },
-        precision: 38,
-        scale: 9,
-      };
+      return mapDecimalType(column);
     default:
       return {
         type: 'BYTE_ARRAY',
@@ -123,7 +202,9 @@ function mapPrimitiveType(iceType: string): ParquetTypeInfo {
 
 function fieldToParquetField(
   field: FieldDefinition,
-  fieldId: number
+  fieldId: number,
+  nextId: () => number,
+  options: ParquetSchemaOptions
 ): ParquetField {
   const repetition: ParquetRepetition = field.isOptional || field.modifier === '?'
     ? 'OPTIONAL'
@@ -131,11 +212,11 @@ function fieldToParquetField(
 
   if (field.relation) {
     if (field.isArray) {
-      return createListField(field.name, repetition, {
+      return createListField(field.name, repetition, createListElement({
         type: 'BYTE_ARRAY',
         convertedType: 'UTF8',
         logicalType: { type: 'STRING' },
-      }, fieldId);
+      }), fieldId);
     } else {
       return {
         name: field.name,
@@ -148,12 +229,23 @@ function fieldToParquetField(
     }
   }
 
+  if (field.structFields) {
+    if (field.isArray) {
+      const element = createStructGroup('element', 'OPTIONAL', field.structFields, nextId, options);
+      return createListField(field.name, repetition, element, fieldId);
+    }
+    return {
+      ...createStructGroup(field.name, repetition, field.structFields, nextId, options),
+      fieldId,
+    };
+  }
+
   if (field.isArray) {
-    const elementTypeInfo = mapPrimitiveType(field.type);
-    return createListField(field.name, repetition, elementTypeInfo, fieldId);
+    const elementTypeInfo = mapPrimitiveType(field, options);
+    return createListField(field.name, repetition, createListElement(elementTypeInfo), fieldId);
   }
 
-  const typeInfo = mapPrimitiveType(field.type);
+  const typeInfo = mapPrimitiveType(field, options);
   return {
     name: field.name,
     type: typeInfo.type,
@@ -167,10 +259,41 @@ function fieldToParquetField(
   };
 }
 
+/**
+ * Create a group for a resolved struct. Nested fields draw their IDs
+ * from the same allocator as top-level columns.
+ */
+function createStructGroup(
+  name: string,
+  repetition: ParquetRepetition,
+  structFields: FieldDefinition[],
+  nextId: () => number,
+  options: ParquetSchemaOptions
+): ParquetField {
+  return {
+    name,
+    repetition,
+    children: structFields.map((nested) => fieldToParquetField(nested, nextId(), nextId, options)),
+  };
+}
+
+function createListElement(elementTypeInfo: ParquetTypeInfo): ParquetField {
+  return {
+    name: 'element',
+    type: elementTypeInfo.type,
+    repetition: 'OPTIONAL',
+    ...(elementTypeInfo.convertedType !== undefined && { convertedType: elementTypeInfo.convertedType }),
+    ...(elementTypeInfo.logicalType !== undefined && { logicalType: elementTypeInfo.logicalType }),
+    ...(elementTypeInfo.typeLength !== undefined && { typeLength: elementTypeInfo.typeLength }),
+    ...(elementTypeInfo.precision !== undefined && { precision: elementTypeInfo.precision }),
+    ...(elementTypeInfo.scale !== undefined && { scale: elementTypeInfo.scale }),
+  };
+}
+
 function createListField(
   name: string,
   repetition: ParquetRepetition,
-  elementTypeInfo: ParquetTypeInfo,
+  element: ParquetField,
   fieldId: number
 ): ParquetField {
   return {
@@ -183,19 +306,168 @@ function createListField(
       {
         name: 'list',
         repetition: 'REPEATED',
+        children: [element],
+      },
+    ],
+  };
+}
+
+/** A field and its children without legacy ConvertedType annotations */
+function withoutConvertedTypes(field: ParquetField): ParquetField {
+  const copy: ParquetField = { ...field };
+  delete copy.convertedType;
+  if (copy.children) copy.children = copy.children.map(withoutConvertedTypes);
+  return copy;
+}
+
+/**
+ * The annotation shown for a field in a schema string: its ConvertedType,
+ * or its LogicalType where it has none, e.g. `TIMESTAMP(NANOS,true)`.
+ */
+export function parquetAnnotation(field: ParquetField): string | undefined {
+  if (field.convertedType !== undefined) return field.convertedType;
+  const logical = field.logicalType;
+  if (logical === undefined) return undefined;
+  switch (logical.type) {
+    case 'TIME':
+    case 'TIMESTAMP':
+      return `${logical.type}(${logical.unit ?? 'MILLIS'},${logical.isAdjustedToUTC ?? false})`;
+    case 'DECIMAL':
+      return `DECIMAL(${logical.precision ?? field.precision},${logical.scale ?? field.scale ?? 0})`;
+    case 'INTEGER':
+      return `INTEGER(${logical.precision ?? 32},${logical.isSigned ?? true})`;
+    default:
+      return logical.type;
+  }
+}
+
+// =============================================================================
+// Iceberg Schemas
+// =============================================================================
+
+function icebergTypeToParquetField(
+  name: string,
+  type: IcebergType,
+  required: boolean,
+  fieldId: number | undefined
+): ParquetField {
+  const field: ParquetField = { name, repetition: required ? 'REQUIRED' : 'OPTIONAL' };
+  if (fieldId !== undefined) field.fieldId = fieldId;
+
+  switch (type.type) {
+    case 'boolean':
+      return { ...field, type: 'BOOLEAN' };
+    case 'int':
+      return { ...field, type: 'INT32' };
+    case 'long':
+      return { ...field, type: 'INT64' };
+    case 'float':
+      return { ...field, type: 'FLOAT' };
+    case 'double':
+      return { ...field, type: 'DOUBLE' };
+    case 'date':
+      return { ...field, type: 'INT32', convertedType: 'DATE', logicalType: { type: 'DATE' } };
+    case 'time':
+      return {
+        ...field,
+        type: 'INT64',
+        convertedType: 'TIME_MICROS',
+        logicalType: { type: 'TIME', isAdjustedToUTC: false, unit: 'MICROS' },
+      };
+    case 'timestamp':
+    case 'timestamptz':
+      return {
+        ...field,
+        type: 'INT64',
+        convertedType: 'TIMESTAMP_MICROS',
+        logicalType: { type: 'TIMESTAMP', isAdjustedToUTC: type.type === 'timestamptz', unit: 'MICROS' },
+      };
+    case 'string':
+      return { ...field, type: 'BYTE_ARRAY', convertedType: 'UTF8', logicalType: { type: 'STRING' } };
+    case 'uuid':
+      return { ...field, type: 'FIXED_LEN_BYTE_ARRAY', typeLength: 16, convertedType: 'UUID', logicalType: { type: 'UUID' } };
+    case 'fixed':
+      return { ...field, type: 'FIXED_LEN_BYTE_ARRAY', typeLength: type.length ?? 0 };
+    case 'binary':
+      return { ...field, type: 'BYTE_ARRAY' };
+    case 'decimal': {
+      const precision = type.precision ?? 38;
+      const scale = type.scale ?? 0;
+      return {
+        ...field,
+        type: 'FIXED_LEN_BYTE_ARRAY',
+        typeLength: decimalByteLength(precision),
+        convertedType: 'DECIMAL',
+        logicalType: { type: 'DECIMAL', precision, scale },
+        precision,
+        scale,
+      };
+    }
+    case 'struct':
+      return { ...field, children: icebergFieldsToParquetFields(type.fields ?? []) };
+    case 'list':
+      if (type.elementType === undefined || type.elementId === undefined) {
+        throw new Error(`List column '${name}' needs an element type and element ID`);
+      }
+      return {
+        ...field,
+        convertedType: 'LIST',
+        logicalType: { type: 'LIST' },
         children: [
           {
-            name: 'element',
-            type: elementTypeInfo.type,
-            repetition: 'OPTIONAL',
-            ...(elementTypeInfo.convertedType !== undefined && { convertedType: elementTypeInfo.convertedType }),
-            ...(elementTypeInfo.logicalType !== undefined && { logicalType: elementTypeInfo.logicalType }),
-            ...(elementTypeInfo.typeLength !== undefined && { typeLength: elementTypeInfo.typeLength }),
+            name: 'list',
+            repetition: 'REPEATED',
+            children: [icebergTypeToParquetField('element', type.elementType, type.elementRequired === true, type.elementId)],
           },
         ],
-      },
-    ],
-  };
+      };
+    case 'map':
+      if (
+        type.keyType === undefined ||
+        type.valueType === undefined ||
+        type.keyId === undefined ||
+        type.valueId === undefined
+      ) {
+        throw new Error(`Map column '${name}' needs key and value types and IDs`);
+      }
+      return {
+        ...field,
+        convertedType: 'MAP',
+        logicalType: { type: 'MAP' },
+        children: [
+          {
+            name: 'key_value',
+            repetition: 'REPEATED',
+            children: [
+              icebergTypeToParquetField('key', type.keyType, true, type.keyId),
+              icebergTypeToParquetField('value', type.valueType, type.valueRequired === true, type.valueId),
+            ],
+          },
+        ],
+      };
+    case 'variant':
+      throw new Error(`Column '${name}' has type variant, which cannot be written to Parquet yet`);
+  }
+}
+
+function icebergFieldsToParquetFields(fields: IcebergField[]): ParquetField[] {
+  return fields.map((field) => icebergTypeToParquetField(field.name, field.type, field.required, field.id));
+}
+
+/**
+ * Convert an Iceberg schema to the Parquet schema of its data files, as
+ * Iceberg writers lay them out: every column, list element and map key
+ * and value carries its field ID, timestamps and times are stored in
+ * microseconds, and decimals as fixed-length byte arrays.
+ *
+ * @param schema - The Iceberg schema
+ * @param name - Name of the message type (default: 'table')
+ * @returns The Parquet schema
+ * @throws Error if a list or map has no element, key or value IDs, or a
+ *   column has a type Parquet files cannot hold yet (variant)
+ */
+export function icebergSchemaToParquetSchema(schema: IcebergSchema, name = 'table'): ParquetSchema {
+  return { name, fields: icebergFieldsToParquetFields(schema.fields) };
 }
 
 // =============================================================================
@@ -208,6 +480,11 @@ function createListField(
 export class ParquetSchemaGenerator {
   private nextFieldId = 1;
 
+  /**
+   * @param options - Timestamp unit, INT96 timestamps and annotation style
+   */
+  constructor(private readonly options: ParquetSchemaOptions = {}) {}
+
   /**
    * Generate Parquet schema from IceType schema.
    */
@@ -224,14 +501,16 @@ export class ParquetSchemaGenerator {
 
       const parquetField = fieldToParquetField(
         { ...fieldDef, name: fieldName },
-        this.nextFieldId++
+        this.nextFieldId++,
+        () => this.nextFieldId++,
+        this.options
       );
       fields.push(parquetField);
     }
 
     return {
       name: schema.name,
-      fields,
+      fields: this.options.logicalTypesOnly ? fields.map(withoutConvertedTypes) : fields,
     };
   }
 
@@ -263,18 +542,14 @@ export class ParquetSchemaGenerator {
       },
       {
         name: SYSTEM_COLUMNS.$createdAt.name,
-        type: 'INT64',
         repetition: SYSTEM_COLUMNS.$createdAt.nullable ? 'OPTIONAL' : 'REQUIRED',
-        convertedType: 'TIMESTAMP_MILLIS',
-        logicalType: { type: 'TIMESTAMP', isAdjustedToUTC: false, unit: 'MILLIS' },
+        ...mapTimestampType(false, this.options),
         fieldId: this.nextFieldId++,
       },
       {
         name: SYSTEM_COLUMNS.$updatedAt.name,
-        type: 'INT64',
         repetition: SYSTEM_COLUMNS.$updatedAt.nullable ? 'OPTIONAL' : 'REQUIRED',
-        convertedType: 'TIMESTAMP_MILLIS',
-        logicalType: { type: 'TIMESTAMP', isAdjustedToUTC: false, unit: 'MILLIS' },
+        ...mapTimestampType(false, this.options),
         fieldId: this.nextFieldId++,
       },
     ];
@@ -297,10 +572,12 @@ export class ParquetSchemaGenerator {
   private fieldToString(field: ParquetField, indent: number): string {
     const prefix = '  '.repeat(indent);
 
+    const annotation = parquetAnnotation(field);
+    const converted = annotation ? ` (${annotation})` : '';
+
     if (field.children) {
       const lines: string[] = [];
-      const groupType = field.convertedType ? ` (${field.convertedType})` : '';
-      lines.push(`${prefix}${field.repetition} group ${field.name}${groupType} {`);
+      lines.push(`${prefix}${field.repetition} group ${field.name}${converted} {`);
       for (const child of field.children) {
         lines.push(this.fieldToString(child, indent + 1));
       }
@@ -308,12 +585,217 @@ export class ParquetSchemaGenerator {
       return lines.join('\n');
     }
 
-    const converted = field.convertedType ? ` (${field.convertedType})` : '';
     const typeStr = field.typeLength ? `${field.type}(${field.typeLength})` : field.type;
     return `${prefix}${field.repetition} ${typeStr} ${field.name}${converted};`;
   }
 }
 
+// =============================================================================
+// IceType Schemas from Parquet
+// =============================================================================
+
+/**
+ * Options for inferring an IceType schema from a Parquet file
+ */
+export interface ParquetImportOptions {
+  /**
+   * Schema name. Defaults to the name of the Parquet message in PascalCase,
+   * or `Table` for the generic names writers use, such as `spark_schema`.
+   */
+  name?: string;
+}
+
+/**
+ * Result of inferring an IceType schema from a Parquet file
+ */
+export interface ParquetImportResult {
+  /** The schema definition, as it would be written in a schema file */
+  definition: SchemaDefinition;
+  /** The parsed IceType schema */
+  schema: IceTypeSchema;
+  /** Columns that were skipped or approximated */
+  warnings: string[];
+}
+
+/** Message names writers use whatever the data, which make poor schema names */
+const GENERIC_MESSAGE_NAMES = new Set(['schema', 'spark_schema', 'hive_schema', 'duckdb_schema', 'root', 'table']);
+
+/** Map a primitive column to an IceType type, from its LogicalType, ConvertedType or physical type */
+function icetypeFromPrimitive(field: ParquetField, path: string, context: ImportContext): string {
+  const logical = field.logicalType;
+  if (hasAnnotation(field, 'DECIMAL')) {
+    const precision = logical?.precision ?? field.precision;
+    return precision === undefined ? 'decimal' : `decimal(${precision},${logical?.scale ?? field.scale ?? 0})`;
+  }
+  const unsigned = field.convertedType?.startsWith('UINT_') === true || logical?.isSigned === false;
+
+  switch (field.type) {
+    case 'BOOLEAN':
+      return 'boolean';
+    case 'INT32':
+      if (hasAnnotation(field, 'DATE')) return 'date';
+      if (isTime(field)) return 'time';
+      // Unsigned 32-bit values need the next wider type
+      return unsigned && (field.convertedType === 'UINT_32' || logical?.precision === 32) ? 'long' : 'int';
+    case 'INT64':
+      if (isTimestamp(field)) {
+        // Legacy TIMESTAMP_* ConvertedTypes are adjusted to UTC
+        return (logical?.isAdjustedToUTC ?? logical === undefined) ? 'timestamptz' : 'timestamp';
+      }
+      if (isTime(field)) return 'time';
+      if (unsigned) {
+        context.warnings.push(`Column '${path}' is an unsigned 64-bit integer; imported as long, which overflows above 2^63 - 1`);
+      }
+      return 'long';
+    case 'INT96':
+      return 'timestamp';
+    case 'FLOAT':
+      return 'float';
+    case 'DOUBLE':
+      return 'double';
+    case 'BYTE_ARRAY':
+      if (field.convertedType === 'UTF8' || logical?.type === 'STRING' || hasAnnotation(field, 'ENUM')) return 'string';
+      if (hasAnnotation(field, 'JSON')) return 'json';
+      return 'binary';
+    case 'FIXED_LEN_BYTE_ARRAY':
+      if (hasAnnotation(field, 'UUID')) return 'uuid';
+      if (logical?.type === 'FLOAT16') return 'float';
+      if (field.convertedType === 'INTERVAL') {
+        context.warnings.push(`Column '${path}' is an INTERVAL, which IceType has no type for; imported as fixed(12)`);
+      }
+      return field.typeLength === undefined ? 'binary' : `fixed(${field.typeLength})`;
+    case undefined:
+      return 'json';
+    default: {
+      const _exhaustive: never = field.type;
+      throw new Error(`Unhandled Parquet type: ${_exhaustive}`);
+    }
+  }
+}
+
+/**
+ * The element of a LIST group, following the backward-compatibility rules
+ * for lists written before the three-level structure was standardized.
+ */
+function listElement(list: ParquetField): ParquetField | undefined {
+  const repeated = list.children?.[0];
+  if (!repeated || list.children!.length !== 1) return undefined;
+  if (!repeated.children) return { ...repeated, repetition: 'REQUIRED' };
+  if (
+    repeated.children.length !== 1
+    || repeated.name === 'array'
+    || repeated.name === `${list.name}_tuple`
+  ) {
+    // The repeated group is the element itself
+    return { ...repeated, repetition: 'REQUIRED' };
+  }
+  return repeated.children[0];
+}
+
+/** Render the element of a list as an array type, or undefined if it is a nested list or map */
+function arrayType(element: ParquetField, path: string, context: ImportContext): string | undefined {
+  if (element.children === undefined) {
+    return `${icetypeFromPrimitive(element, path, context)}[]`;
+  }
+  if (hasAnnotation(element, 'LIST') || hasAnnotation(element, 'MAP') || element.convertedType === 'MAP_KEY_VALUE') {
+    return undefined;
+  }
+  return `struct<${declareStruct(path, context, () => icetypeStructFields(element.children!, path, context))}>[]`;
+}
+
+function icetypeValueType(field: ParquetField, path: string, context: ImportContext): string {
+  if (field.children === undefined) {
+    return icetypeFromPrimitive(field, path, context);
+  }
+
+  if (hasAnnotation(field, 'LIST')) {
+    const element = listElement(field);
+    const type = element && arrayType(element, path, context);
+    if (type !== undefined) return type;
+  } else if (hasAnnotation(field, 'MAP') || field.convertedType === 'MAP_KEY_VALUE') {
+    // IceType maps take bare type names, so parametric and nested types do not fit
+    const [key, value] = field.children[0]?.children ?? [];
+    const keyType = key?.children === undefined && key && icetypeFromPrimitive(key, `${path}.key`, context);
+    const valueType = value?.children === undefined && value && icetypeFromPrimitive(value, `${path}.value`, context);
+    if (keyType && valueType && !/[(]/.test(keyType + valueType)) {
+      return `map<${keyType}, ${valueType}>`;
+    }
+  } else if (field.logicalType?.type === 'VARIANT') {
+    return 'json';
+  } else {
+    return `struct<${declareStruct(path, context, () => icetypeStructFields(field.children!, path, context))}>`;
+  }
+
+  const kind = hasAnnotation(field, 'LIST') ? 'list' : 'map';
+  context.warnings.push(`Column '${path}' has a nested ${kind} type IceType cannot represent; imported as json`);
+  return 'json';
+}
+
+/**
+ * Render a column as an IceType field type string, e.g. `string?` or
+ * `int[]`. Repeated fields outside a LIST group are arrays.
+ */
+function icetypeFieldType(field: ParquetField, path: string, context: ImportContext): string {
+  if (field.repetition === 'REPEATED') {
+    const type = arrayType({ ...field, repetition: 'REQUIRED' }, path, context);
+    if (type !== undefined) return type;
+    context.warnings.push(`Column '${path}' has a nested repeated type IceType cannot represent; imported as json`);
+    return 'json';
+  }
+  return `${icetypeValueType(field, path, context)}${field.repetition === 'OPTIONAL' ? '?' : ''}`;
+}
+
+function icetypeStructFields(fields: ParquetField[], path: string, context: ImportContext): Record<string, string> {
+  return Object.fromEntries(
+    fields.map((field) => [field.name, icetypeFieldType(field, `${path}.${field.name}`, context)])
+  );
+}
+
+/**
+ * Infer an IceType schema from the footer of a Parquet file.
+ *
+ * Columns map to fields of the same name: optional columns get the `?`
+ * modifier, LIST groups (including legacy two-level lists) become arrays,
+ * MAP groups of primitive types become `map<K, V>`, and other groups are
+ * declared in `$structs`. Types come from each column's LogicalType, then
+ * its ConvertedType, then its physical type, so files from older writers
+ * are read too; INT96 columns are timestamps. IceType's system columns
+ * (`$id`, `$type`, ...) are skipped, so files written by this package
+ * round-trip.
+ *
+ * @param footer - The bytes of the file (or its tail holding the whole
+ *   footer), or a footer read by {@link readParquetFooter}
+ * @param options - Import options
+ * @returns The schema definition, the parsed schema and any warnings
+ * @throws Error if the bytes do not end with a valid Parquet footer
+ */
+export function parquetFooterToIceType(
+  footer: Uint8Array | ParquetFooter,
+  options: ParquetImportOptions = {}
+): ParquetImportResult {
+  const { schema } = footer instanceof Uint8Array ? decodeParquetFooter(footer) : footer;
+  const context: ImportContext = { structs: {}, warnings: [] };
+  const name =
+    options.name ??
+    ((!GENERIC_MESSAGE_NAMES.has(schema.name.toLowerCase()) && toPascalCase(schema.name)) || 'Table');
+
+  const fields: Record<string, string> = {};
+  for (const field of schema.fields) {
+    if (isSystemColumn(field.name)) continue;
+    if (field.name.startsWith('$')) {
+      context.warnings.push(`Skipped column '${field.name}': names starting with $ are reserved for directives`);
+      continue;
+    }
+    fields[field.name] = icetypeFieldType(field, field.name, context);
+  }
+
+  const definition: SchemaDefinition = { $type: name };
+  if (Object.keys(context.structs).length > 0) definition.$structs = context.structs;
+  Object.assign(definition, fields);
+
+  return { definition, schema: parseSchema(definition), warnings: context.warnings };
+}
+
 // =============================================================================
 // Row Conversion
 // =============================================================================
@@ -340,7 +822,22 @@ function convertValue(value: unknown, field: ParquetField): unknown {
     return null;
   }
 
-  if (field.convertedType === 'LIST' && Array.isArray(value)) {
+  if (hasAnnotation(field, 'MAP') && typeof value === 'object') {
+    // Entries of the repeated key_value group, from an object, a Map or entries already converted
+    const entryField = field.children?.[0];
+    const [keyField, valueField] = entryField?.children ?? [];
+    const entries = value instanceof Map
+      ? [...value.entries()]
+      : Array.isArray(value)
+        ? value.map((entry: { key: unknown; value: unknown }) => [entry.key, entry.value])
+        : Object.entries(value as Record<string, unknown>);
+    return entries.map(([key, item]) => ({
+      [keyField?.name ?? 'key']: keyField ? convertValue(key, keyField) : key,
+      [valueField?.name ?? 'value']: valueField ? convertValue(item, valueField) : item,
+    }));
+  }
+
+  if (hasAnnotation(field, 'LIST') && Array.isArray(value)) {
     return value.map(item => {
       const elementField = field.children?.[0]?.children?.[0];
       if (elementField) {
@@ -350,27 +847,64 @@ function convertValue(value: unknown, field: ParquetField): unknown {
     });
   }
 
+  if (field.children && field.convertedType === undefined && field.logicalType === undefined && typeof value === 'object') {
+    // Struct group: convert each nested field
+    const record = value as Record<string, unknown>;
+    const nested: Record<string, unknown> = {};
+    for (const child of field.children) {
+      nested[child.name] = convertValue(record[child.name], child);
+    }
+    return nested;
+  }
+
+  if (hasAnnotation(field, 'DECIMAL')) {
+    // Decimal text whatever the physical type; the writer scales it to the unscaled integer
+    return typeof value === 'string' ? value : String(value);
+  }
+
   switch (field.type) {
     case 'BOOLEAN':
       return Boolean(value);
     case 'INT32':
+      if (hasAnnotation(field, 'DATE')) {
+        return toEpochDays(value);
+      }
+      if (isTime(field) && typeof value === 'string') {
+        return parseTimeOfDay(value);
+      }
       return typeof value === 'number' ? Math.floor(value) : parseInt(String(value), 10);
-    case 'INT64':
     case 'INT96':
+      // Nanoseconds since the epoch, or the 12 bytes already encoded
+      return value instanceof Uint8Array ? value : toTimeUnits(value, field, 'NANOS');
+    case 'INT64': {
+      const unit = timeUnit(field);
+      if (unit === 'MICROS' || unit === 'NANOS') {
+        return toTimeUnits(value, field, unit);
+      }
       if (value instanceof Date) {
         return value.getTime();
       }
+      if (typeof value === 'bigint') {
+        return value;
+      }
+      if (typeof value === 'string' && !/^-?\d+$/.test(value) && isTimestamp(field)) {
+        return Date.parse(value);
+      }
       return typeof value === 'number' ? value : parseInt(String(value), 10);
+    }
     case 'FLOAT':
     case 'DOUBLE':
       return typeof value === 'number' ? value : parseFloat(String(value));
     case 'BYTE_ARRAY':
-      if (field.convertedType === 'JSON' && typeof value === 'object') {
+      if (value instanceof Uint8Array) {
+        return value;
+      }
+      if (hasAnnotation(field, 'JSON') && typeof value === 'object') {
         return JSON.stringify(value);
       }
       return String(value);
     case 'FIXED_LEN_BYTE_ARRAY':
-      if (field.convertedType === 'UUID' && typeof value === 'string') {
+      if (hasAnnotation(field, 'UUID') && typeof value === 'string') {
         return value.replace(/-/g, '');
       }
       return value;
@@ -384,6 +918,101 @@ function convertValue(value: unknown, field: ParquetField): unknown {
   }
 }
 
+const MS_PER_DAY = 86_400_000;
+
+/** Whether a field carries an annotation, as a LogicalType or the legacy ConvertedType */
+function hasAnnotation(
+  field: ParquetField,
+  annotation: 'DATE' | 'DECIMAL' | 'ENUM' | 'JSON' | 'LIST' | 'MAP' | 'UUID'
+): boolean {
+  return field.convertedType === annotation || field.logicalType?.type === annotation;
+}
+
+/** Unit of a TIME or TIMESTAMP column */
+function timeUnit(field: ParquetField): ParquetLogicalType['unit'] {
+  if (field.convertedType === 'TIMESTAMP_MICROS' || field.convertedType === 'TIME_MICROS') {
+    return 'MICROS';
+  }
+  return field.logicalType?.unit;
+}
+
+const UNITS_PER_MILLI = { MICROS: 1_000n, NANOS: 1_000_000n };
+const FRACTION_DIGITS = { MICROS: 6, NANOS: 9 };
+
+/**
+ * Microseconds or nanoseconds for a MICROS or NANOS column. Dates, ISO
+ * strings and numbers (epoch or time-of-day milliseconds, as for MILLIS
+ * columns) are scaled, keeping fractional digits of strings beyond the
+ * millisecond; bigints are taken to be in the column's unit already.
+ */
+function toTimeUnits(value: unknown, field: ParquetField, unit: 'MICROS' | 'NANOS'): bigint {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  const digits = FRACTION_DIGITS[unit];
+  if (typeof value === 'string') {
+    if (/^-?\d+$/.test(value)) {
+      return BigInt(value);
+    }
+    if (isTime(field)) {
+      const match = /^(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,9}))?)?$/.exec(value);
+      if (match) {
+        const [, hours, minutes, seconds, fraction = ''] = match;
+        const wholeSeconds = Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds ?? 0);
+        return BigInt(wholeSeconds) * 10n ** BigInt(digits) + BigInt(fraction.slice(0, digits).padEnd(digits, '0'));
+      }
+    }
+    // Date.parse keeps milliseconds only, so finer digits are added separately
+    const match = /^(.*\d{2}:\d{2}:\d{2})\.(\d+)(.*)$/.exec(value);
+    if (match) {
+      const [, whole, fraction, zone] = match;
+      const seconds = Date.parse(`${whole}${zone}`);
+      if (!Number.isNaN(seconds)) {
+        return BigInt(seconds) * UNITS_PER_MILLI[unit] + BigInt(fraction!.slice(0, digits).padEnd(digits, '0'));
+      }
+    }
+  }
+  const millis = value instanceof Date ? value.getTime() : typeof value === 'number' ? value : Date.parse(String(value));
+  if (Number.isNaN(millis)) {
+    throw new Error(`Invalid value for column '${field.name}': expected a date, time or timestamp, got '${String(value)}'`);
+  }
+  return BigInt(Math.round(millis * 1000)) * (UNITS_PER_MILLI[unit] / 1_000n);
+}
+
+function isTime(field: ParquetField): boolean {
+  return field.logicalType?.type === 'TIME'
+    || field.convertedType === 'TIME_MILLIS'
+    || field.convertedType === 'TIME_MICROS';
+}
+
+function isTimestamp(field: ParquetField): boolean {
+  return field.logicalType?.type === 'TIMESTAMP'
+    || field.convertedType === 'TIMESTAMP_MILLIS'
+    || field.convertedType === 'TIMESTAMP_MICROS';
+}
+
+/** Days since the Unix epoch, from a Date, ISO date string or day count */
+function toEpochDays(value: unknown): number {
+  if (typeof value === 'number') {
+    return Math.floor(value);
+  }
+  const millis = value instanceof Date ? value.getTime() : Date.parse(String(value));
+  return Math.floor(millis / MS_PER_DAY);
+}
+
+/** Milliseconds since midnight, from an `HH:MM[:SS[.fff]]` string; finer digits are truncated */
+function parseTimeOfDay(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,9}))?)?$/.exec(value);
+  if (!match) {
+    return parseInt(value, 10);
+  }
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    (Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds ?? 0)) * 1000
+    + Number((fraction ?? '0').slice(0, 3).padEnd(3, '0'))
+  );
+}
+
 // =============================================================================
 // Factory Functions
 // =============================================================================
@@ -391,23 +1020,23 @@ function convertValue(value: unknown, field: ParquetField): unknown {
 /**
  * Create a Parquet schema generator.
  */
-export function createParquetSchemaGenerator(): ParquetSchemaGenerator {
-  return new ParquetSchemaGenerator();
+export function createParquetSchemaGenerator(options?: ParquetSchemaOptions): ParquetSchemaGenerator {
+  return new ParquetSchemaGenerator(options);
 }
 
 /**
  * Generate Parquet schema from IceType schema.
  */
-export function generateParquetSchema(schema: IceTypeSchema): ParquetSchema {
-  const generator = new ParquetSchemaGenerator();
+export function generateParquetSchema(schema: IceTypeSchema, options?: ParquetSchemaOptions): ParquetSchema {
+  const generator = new ParquetSchemaGenerator(options);
   return generator.generateSchema(schema);
 }
 
 /**
  * Generate Parquet schema string from IceType schema.
  */
-export function generateParquetSchemaString(schema: IceTypeSchema): string {
-  const generator = new ParquetSchemaGenerator();
+export function generateParquetSchemaString(schema: IceTypeSchema, options?: ParquetSchemaOptions): string {
+  const generator = new ParquetSchemaGenerator(options);
   const parquetSchema = generator.generateSchema(schema);
   return generator.toSchemaString(parquetSchema);
 }
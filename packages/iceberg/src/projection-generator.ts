@@ -18,15 +18,17 @@
  * };
  *
  * const icebergSchema = generateProjectionSchema(projection, allSchemas);
+ * const sortOrder = generateProjectionSortOrder(projection, allSchemas);
  * ```
  *
  * @packageDocumentation
  */
 
-import type { IceTypeSchema, FieldDefinition, ProjectionType } from '@icetype/core';
-import { expandRelations, SYSTEM_COLUMNS } from '@icetype/core';
+import type { IceTypeSchema, FieldDefinition, OrderByField, ProjectionType } from '@icetype/core';
+import { expandRelations, parseOrderByDirective, SYSTEM_COLUMNS } from '@icetype/core';
 
-import type { IcebergSchema, IcebergField, IcebergType } from './types.js';
+import type { IcebergSchema, IcebergField, IcebergType, IcebergSortOrder } from './types.js';
+import { generateIcebergSortOrder } from './metadata.js';
 
 // =============================================================================
 // Types
@@ -46,6 +48,8 @@ export interface ProjectionDefinition {
   $expand?: string[];
   /** Field path renaming: { 'original.path': 'newPrefix' } */
   $flatten?: Record<string, string>;
+  /** Default sort order (defaults to the source entity's `$orderBy`) */
+  $orderBy?: Array<string | (Partial<OrderByField> & { field: string })>;
 }
 
 // =============================================================================
@@ -104,7 +108,8 @@ function mapPrimitiveType(iceType: string): IcebergType {
  */
 function fieldToIcebergField(
   field: FieldDefinition,
-  fieldId: number
+  fieldId: number,
+  nextId: () => number
 ): IcebergField {
   let icebergType: IcebergType;
 
@@ -118,6 +123,12 @@ function fieldToIcebergField(
     } else {
       icebergType = { type: 'string' };
     }
+  } else if (field.structFields) {
+    const structType: IcebergType = {
+      type: 'struct',
+      fields: field.structFields.map((nested) => fieldToIcebergField(nested, nextId(), nextId)),
+    };
+    icebergType = field.isArray ? { type: 'list', elementType: structType } : structType;
   } else if (field.isArray) {
     const elementType = mapPrimitiveType(field.type);
     icebergType = {
@@ -234,7 +245,8 @@ export class ProjectionSchemaGenerator {
 
       const icebergField = fieldToIcebergField(
         { ...fieldDef, name: renamedName },
-        this.nextFieldId++
+        this.nextFieldId++,
+        () => this.nextFieldId++
       );
       fields.push(icebergField);
     }
@@ -247,6 +259,34 @@ export class ProjectionSchemaGenerator {
     };
   }
 
+  /**
+   * Generate the default sort order for a projection.
+   *
+   * Uses the projection's own `$orderBy` when given and otherwise inherits
+   * the source entity's. Keys on fields the projection does not carry are
+   * dropped; with no keys left the projection is unsorted (order ID 0).
+   *
+   * @param projection - The projection definition
+   * @param allSchemas - Map of all available schemas by name
+   * @param icebergSchema - The projection's generated Iceberg schema
+   * @returns The default sort order
+   */
+  generateProjectionSortOrder(
+    projection: ProjectionDefinition,
+    allSchemas: Map<string, IceTypeSchema>,
+    icebergSchema: IcebergSchema
+  ): IcebergSortOrder {
+    const orderBy = projection.$orderBy
+      ? parseOrderByDirective(projection.$orderBy)
+      : allSchemas.get(projection.$from)?.directives.orderBy;
+
+    const sortOrder = orderBy ? generateIcebergSortOrder(orderBy, icebergSchema) : undefined;
+    if (!sortOrder || sortOrder.fields.length === 0) {
+      return { orderId: 0, fields: [] };
+    }
+    return sortOrder;
+  }
+
   /**
    * Generate system fields for the Iceberg schema.
    */
@@ -377,3 +417,22 @@ export function generateProjectionSchema(
   const generator = new ProjectionSchemaGenerator();
   return generator.generateProjectionSchema(projection, allSchemas);
 }
+
+/**
+ * Generate the default sort order for an OLAP projection.
+ *
+ * This is a convenience function that generates the projection schema
+ * internally to resolve field IDs.
+ *
+ * @param projection - The projection definition
+ * @param allSchemas - Map of all available schemas by name
+ * @returns The default sort order
+ */
+export function generateProjectionSortOrder(
+  projection: ProjectionDefinition,
+  allSchemas: Map<string, IceTypeSchema>
+): IcebergSortOrder {
+  const generator = new ProjectionSchemaGenerator();
+  const icebergSchema = generator.generateProjectionSchema(projection, allSchemas);
+  return generator.generateProjectionSortOrder(projection, allSchemas, icebergSchema);
+}
@@ -0,0 +1,525 @@
+/**
+ * Iceberg Table Metadata in the Spec's JSON Format
+ *
+ * Metadata files written by Iceberg engines (Spark, Trino, PyIceberg, ...)
+ * follow the table spec: kebab-case keys, types written as strings such as
+ * `decimal(10, 2)` or `fixed[16]`, and transforms such as `bucket[16]`.
+ * This module reads v1, v2 and v3 metadata in that format into the
+ * {@link IcebergTableMetadata} model the rest of this package uses, and
+ * writes that model back out in the same format.
+ *
+ * @see https://iceberg.apache.org/spec/#table-metadata-fields
+ *
+ * @packageDocumentation
+ */
+
+import type {
+  IcebergPrimitiveType,
+  IcebergType,
+  IcebergField,
+  IcebergSchema,
+  IcebergPartitionField,
+  IcebergPartitionSpec,
+  IcebergSortField,
+  IcebergSortOrder,
+  IcebergTableMetadata,
+  IcebergSnapshot,
+  IcebergSnapshotRef,
+  IcebergMetadataLogEntry,
+} from './types.js';
+
+type JsonObject = Record<string, unknown>;
+
+/** Primitive types written as a bare name */
+const PRIMITIVE_TYPES = new Set<string>([
+  'boolean',
+  'int',
+  'long',
+  'float',
+  'double',
+  'date',
+  'time',
+  'timestamp',
+  'timestamptz',
+  'string',
+  'uuid',
+  'binary',
+  'variant',
+] satisfies IcebergPrimitiveType[]);
+
+const PARTITION_TRANSFORMS = new Set(['identity', 'year', 'month', 'day', 'hour', 'void']);
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function invalid(message: string): Error {
+  return new Error(`Invalid Iceberg metadata: ${message}`);
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function object(value: unknown, where: string): JsonObject {
+  if (!isObject(value)) {
+    throw invalid(`expected an object for ${where}`);
+  }
+  return value;
+}
+
+function list(value: unknown, where: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw invalid(`expected a list for ${where}`);
+  }
+  return value;
+}
+
+function number(value: unknown, where: string): number {
+  if (typeof value !== 'number') {
+    throw invalid(`expected a number for ${where}`);
+  }
+  return value;
+}
+
+function string(value: unknown, where: string): string {
+  if (typeof value !== 'string') {
+    throw invalid(`expected a string for ${where}`);
+  }
+  return value;
+}
+
+/**
+ * Check whether parsed JSON is table metadata in the spec's format, which
+ * always has a `format-version`.
+ */
+export function isIcebergSpecMetadata(value: unknown): value is JsonObject {
+  return isObject(value) && 'format-version' in value;
+}
+
+/**
+ * Split a transform such as `day` or `bucket[16]` into its name and
+ * argument.
+ */
+export function parseIcebergTransform(transform: string): { name: string; arg?: number } {
+  const match = /^(\w+)(?:\[(\d+)\])?$/.exec(transform.trim());
+  if (!match) {
+    throw invalid(`malformed transform '${transform}'`);
+  }
+  return match[2] === undefined ? { name: match[1]! } : { name: match[1]!, arg: Number(match[2]) };
+}
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+function readType(value: unknown, where: string): IcebergType {
+  if (typeof value === 'string') {
+    const decimal = /^decimal\(\s*(\d+)\s*,\s*(\d+)\s*\)$/.exec(value);
+    if (decimal) {
+      return { type: 'decimal', precision: Number(decimal[1]), scale: Number(decimal[2]) };
+    }
+    const fixed = /^fixed\[(\d+)\]$/.exec(value);
+    if (fixed) {
+      return { type: 'fixed', length: Number(fixed[1]) };
+    }
+    if (PRIMITIVE_TYPES.has(value)) {
+      return { type: value as IcebergPrimitiveType };
+    }
+    throw new Error(`Unsupported Iceberg type '${value}' for ${where}`);
+  }
+
+  const type = object(value, where);
+  switch (type.type) {
+    case 'struct':
+      return { type: 'struct', fields: readFields(type.fields, where) };
+    case 'list':
+      return {
+        type: 'list',
+        elementType: readType(type.element, `${where}.element`),
+        elementId: number(type['element-id'], `${where}.element-id`),
+        elementRequired: type['element-required'] === true,
+      };
+    case 'map':
+      return {
+        type: 'map',
+        keyType: readType(type.key, `${where}.key`),
+        valueType: readType(type.value, `${where}.value`),
+        keyId: number(type['key-id'], `${where}.key-id`),
+        valueId: number(type['value-id'], `${where}.value-id`),
+        valueRequired: type['value-required'] === true,
+      };
+    default:
+      throw new Error(`Unsupported Iceberg type ${JSON.stringify(type.type)} for ${where}`);
+  }
+}
+
+function readFields(value: unknown, where: string): IcebergField[] {
+  return list(value, `${where}.fields`).map((entry) => {
+    const field = object(entry, `a field of ${where}`);
+    const name = string(field.name, `a field name in ${where}`);
+    const path = `${where}.${name}`;
+    const result: IcebergField = {
+      id: number(field.id, `${path}.id`),
+      name,
+      required: field.required === true,
+      type: readType(field.type, path),
+    };
+    if (typeof field.doc === 'string') result.doc = field.doc;
+    if (field['initial-default'] !== undefined) result.initialDefault = field['initial-default'];
+    if (field['write-default'] !== undefined) result.writeDefault = field['write-default'];
+    return result;
+  });
+}
+
+function readSchema(value: unknown, defaultSchemaId: number): IcebergSchema {
+  const schema = object(value, 'schema');
+  const schemaId = schema['schema-id'] === undefined ? defaultSchemaId : number(schema['schema-id'], 'schema-id');
+  const identifierFieldIds = schema['identifier-field-ids'] ?? [];
+  return {
+    type: 'struct',
+    schemaId,
+    identifierFieldIds: list(identifierFieldIds, 'identifier-field-ids').map((id) => number(id, 'identifier-field-ids')),
+    fields: readFields(schema.fields, `schema ${schemaId}`),
+  };
+}
+
+// =============================================================================
+// Partition Specs and Sort Orders
+// =============================================================================
+
+function readPartitionFields(value: unknown, where: string): IcebergPartitionField[] {
+  return list(value, where).map((entry, index) => {
+    const field = object(entry, `a field of ${where}`);
+    const transform = string(field.transform, `${where} transform`);
+    const { name, arg } = parseIcebergTransform(transform);
+    const isParametric = name === 'bucket' || name === 'truncate';
+    if (isParametric ? arg === undefined : !PARTITION_TRANSFORMS.has(name) || arg !== undefined) {
+      throw new Error(`Unsupported Iceberg partition transform '${transform}' in ${where}`);
+    }
+
+    const result: IcebergPartitionField = {
+      sourceId: number(field['source-id'], `${where} source-id`),
+      // v1 specs may omit field IDs, which then start at 1000
+      fieldId: field['field-id'] === undefined ? 1000 + index : number(field['field-id'], `${where} field-id`),
+      name: string(field.name, `${where} name`),
+      transform: transform as IcebergPartitionField['transform'],
+    };
+    if (arg !== undefined) {
+      result.transformArg = arg;
+    }
+    return result;
+  });
+}
+
+function readSortOrder(value: unknown): IcebergSortOrder {
+  const order = object(value, 'sort order');
+  const orderId = number(order['order-id'], 'sort order order-id');
+  const fields = list(order.fields, `sort order ${orderId}`).map((entry): IcebergSortField => {
+    const field = object(entry, `a field of sort order ${orderId}`);
+    return {
+      transform: string(field.transform, `sort order ${orderId} transform`),
+      sourceId: number(field['source-id'], `sort order ${orderId} source-id`),
+      direction: field.direction === 'desc' ? 'desc' : 'asc',
+      nullOrder: field['null-order'] === 'nulls-last' ? 'nulls-last' : 'nulls-first',
+    };
+  });
+  return { orderId, fields };
+}
+
+// =============================================================================
+// Snapshots
+// =============================================================================
+
+function readSnapshot(value: unknown): IcebergSnapshot {
+  const snapshot = object(value, 'snapshot');
+  const result: IcebergSnapshot = {
+    snapshotId: number(snapshot['snapshot-id'], 'snapshot-id'),
+    sequenceNumber: typeof snapshot['sequence-number'] === 'number' ? snapshot['sequence-number'] : 0,
+    timestampMs: number(snapshot['timestamp-ms'], 'snapshot timestamp-ms'),
+    // v1 snapshots may list manifests instead of a manifest list
+    manifestList: typeof snapshot['manifest-list'] === 'string' ? snapshot['manifest-list'] : '',
+    summary: isObject(snapshot.summary) ? (snapshot.summary as Record<string, string>) : {},
+  };
+  if (typeof snapshot['parent-snapshot-id'] === 'number') result.parentSnapshotId = snapshot['parent-snapshot-id'];
+  if (typeof snapshot['schema-id'] === 'number') result.schemaId = snapshot['schema-id'];
+  return result;
+}
+
+function readRef(value: unknown, snapshots: IcebergSnapshot[]): IcebergSnapshotRef {
+  const ref = object(value, 'ref');
+  const snapshotId = number(ref['snapshot-id'], 'ref snapshot-id');
+  const result: IcebergSnapshotRef = {
+    snapshotId,
+    type: ref.type === 'tag' ? 'tag' : 'branch',
+    timestampMs: snapshots.find((s) => s.snapshotId === snapshotId)?.timestampMs ?? 0,
+  };
+  if (typeof ref['max-ref-age-ms'] === 'number') result.maxRefAgeMs = ref['max-ref-age-ms'];
+  if (typeof ref['min-snapshots-to-keep'] === 'number') result.minSnapshotsToKeep = ref['min-snapshots-to-keep'];
+  if (typeof ref['max-snapshot-age-ms'] === 'number') result.maxSnapshotAgeMs = ref['max-snapshot-age-ms'];
+  return result;
+}
+
+// =============================================================================
+// Table Metadata
+// =============================================================================
+
+/**
+ * Read v1, v2 or v3 table metadata in the spec's JSON format.
+ *
+ * v1 fields are upgraded the way v2 readers do: a single `schema`,
+ * `partition-spec` or missing sort orders become the only entry of the
+ * corresponding list.
+ *
+ * @param raw - The parsed metadata.json
+ * @returns The table metadata
+ * @throws Error if the metadata is malformed or uses an unsupported
+ *   format version, type or transform
+ */
+export function readIcebergSpecMetadata(raw: JsonObject): IcebergTableMetadata {
+  const formatVersion = raw['format-version'];
+  if (formatVersion !== 1 && formatVersion !== 2 && formatVersion !== 3) {
+    throw new Error(`Unsupported Iceberg format version: ${String(formatVersion)}`);
+  }
+
+  const schemas = Array.isArray(raw.schemas)
+    ? raw.schemas.map((schema) => readSchema(schema, 0))
+    : [readSchema(raw.schema, 0)];
+
+  const partitionSpecs: IcebergPartitionSpec[] = Array.isArray(raw['partition-specs'])
+    ? raw['partition-specs'].map((entry) => {
+        const spec = object(entry, 'partition spec');
+        const specId = number(spec['spec-id'], 'partition spec spec-id');
+        return { specId, fields: readPartitionFields(spec.fields, `partition spec ${specId}`) };
+      })
+    : [{ specId: 0, fields: readPartitionFields(raw['partition-spec'] ?? [], 'partition-spec') }];
+
+  const sortOrders = Array.isArray(raw['sort-orders'])
+    ? raw['sort-orders'].map(readSortOrder)
+    : [{ orderId: 0, fields: [] }];
+
+  const snapshots = Array.isArray(raw.snapshots) ? raw.snapshots.map(readSnapshot) : [];
+  const partitionFieldIds = partitionSpecs.flatMap((spec) => spec.fields.map((field) => field.fieldId));
+
+  const metadata: IcebergTableMetadata = {
+    formatVersion,
+    tableUuid: typeof raw['table-uuid'] === 'string' ? raw['table-uuid'] : '',
+    location: string(raw.location, 'location'),
+    lastSequenceNumber: typeof raw['last-sequence-number'] === 'number' ? raw['last-sequence-number'] : 0,
+    lastUpdatedMs: number(raw['last-updated-ms'], 'last-updated-ms'),
+    lastColumnId: number(raw['last-column-id'], 'last-column-id'),
+    currentSchemaId:
+      raw['current-schema-id'] === undefined ? schemas[0]!.schemaId : number(raw['current-schema-id'], 'current-schema-id'),
+    schemas,
+    defaultSpecId:
+      raw['default-spec-id'] === undefined ? partitionSpecs[0]!.specId : number(raw['default-spec-id'], 'default-spec-id'),
+    partitionSpecs,
+    lastPartitionId:
+      raw['last-partition-id'] === undefined
+        ? Math.max(999, ...partitionFieldIds)
+        : number(raw['last-partition-id'], 'last-partition-id'),
+    defaultSortOrderId:
+      raw['default-sort-order-id'] === undefined ? 0 : number(raw['default-sort-order-id'], 'default-sort-order-id'),
+    sortOrders,
+    properties: isObject(raw.properties) ? (raw.properties as Record<string, string>) : {},
+  };
+
+  // A current snapshot ID of -1 or null means the table has no snapshots
+  const currentSnapshotId = raw['current-snapshot-id'];
+  if (typeof currentSnapshotId === 'number' && currentSnapshotId !== -1) {
+    metadata.currentSnapshotId = currentSnapshotId;
+  }
+  if (snapshots.length > 0) {
+    metadata.snapshots = snapshots;
+  }
+  if (Array.isArray(raw['snapshot-log'])) {
+    metadata.snapshotLog = raw['snapshot-log'].map((entry) => {
+      const logEntry = object(entry, 'snapshot log entry');
+      return {
+        snapshotId: number(logEntry['snapshot-id'], 'snapshot log snapshot-id'),
+        type: 'branch',
+        timestampMs: number(logEntry['timestamp-ms'], 'snapshot log timestamp-ms'),
+      };
+    });
+  }
+  if (isObject(raw.refs)) {
+    metadata.refs = Object.fromEntries(
+      Object.entries(raw.refs).map(([name, ref]) => [name, readRef(ref, snapshots)])
+    );
+  }
+  if (Array.isArray(raw['metadata-log'])) {
+    metadata.metadataLog = raw['metadata-log'].map((entry): IcebergMetadataLogEntry => {
+      const logEntry = object(entry, 'metadata log entry');
+      return {
+        timestampMs: number(logEntry['timestamp-ms'], 'metadata log timestamp-ms'),
+        metadataFile: string(logEntry['metadata-file'], 'metadata log metadata-file'),
+      };
+    });
+  }
+
+  return metadata;
+}
+
+// =============================================================================
+// Writing
+// =============================================================================
+
+function writeType(type: IcebergType, where: string): unknown {
+  switch (type.type) {
+    case 'decimal':
+      return `decimal(${type.precision ?? 38}, ${type.scale ?? 0})`;
+    case 'fixed':
+      return `fixed[${type.length ?? 0}]`;
+    case 'struct':
+      return { type: 'struct', fields: writeFields(type.fields ?? [], where) };
+    case 'list':
+      if (type.elementType === undefined || type.elementId === undefined) {
+        throw new Error(`Cannot write list type for ${where} without an element type and element ID`);
+      }
+      return {
+        type: 'list',
+        'element-id': type.elementId,
+        element: writeType(type.elementType, `${where}.element`),
+        'element-required': type.elementRequired === true,
+      };
+    case 'map':
+      if (
+        type.keyType === undefined ||
+        type.valueType === undefined ||
+        type.keyId === undefined ||
+        type.valueId === undefined
+      ) {
+        throw new Error(`Cannot write map type for ${where} without key and value types and IDs`);
+      }
+      return {
+        type: 'map',
+        'key-id': type.keyId,
+        key: writeType(type.keyType, `${where}.key`),
+        'value-id': type.valueId,
+        value: writeType(type.valueType, `${where}.value`),
+        'value-required': type.valueRequired === true,
+      };
+    default:
+      return type.type;
+  }
+}
+
+function writeFields(fields: IcebergField[], where: string): JsonObject[] {
+  return fields.map((field) => {
+    const result: JsonObject = {
+      id: field.id,
+      name: field.name,
+      required: field.required,
+      type: writeType(field.type, `${where}.${field.name}`),
+    };
+    if (field.doc !== undefined) result.doc = field.doc;
+    if (field.initialDefault !== undefined) result['initial-default'] = field.initialDefault;
+    if (field.writeDefault !== undefined) result['write-default'] = field.writeDefault;
+    return result;
+  });
+}
+
+/**
+ * Write a schema in the spec's JSON format, as stored in metadata files
+ * and in the `schema` key of manifest files.
+ *
+ * @throws Error if a list or map has no element, key or value IDs
+ */
+export function writeIcebergSpecSchema(schema: IcebergSchema): JsonObject {
+  return {
+    type: 'struct',
+    'schema-id': schema.schemaId,
+    'identifier-field-ids': schema.identifierFieldIds,
+    fields: writeFields(schema.fields, `schema ${schema.schemaId}`),
+  };
+}
+
+/**
+ * Write a partition spec in the spec's JSON format.
+ */
+export function writeIcebergSpecPartitionSpec(spec: IcebergPartitionSpec): JsonObject {
+  return {
+    'spec-id': spec.specId,
+    fields: spec.fields.map((field) => ({
+      'source-id': field.sourceId,
+      'field-id': field.fieldId,
+      name: field.name,
+      transform: field.transform,
+    })),
+  };
+}
+
+function writeSnapshot(snapshot: IcebergSnapshot, formatVersion: number): JsonObject {
+  const result: JsonObject = { 'snapshot-id': snapshot.snapshotId };
+  if (snapshot.parentSnapshotId !== undefined) result['parent-snapshot-id'] = snapshot.parentSnapshotId;
+  if (formatVersion >= 2) result['sequence-number'] = snapshot.sequenceNumber;
+  result['timestamp-ms'] = snapshot.timestampMs;
+  result['manifest-list'] = snapshot.manifestList;
+  result.summary = snapshot.summary;
+  if (snapshot.schemaId !== undefined) result['schema-id'] = snapshot.schemaId;
+  return result;
+}
+
+function writeRef(ref: IcebergSnapshotRef): JsonObject {
+  const result: JsonObject = { 'snapshot-id': ref.snapshotId, type: ref.type };
+  if (ref.maxRefAgeMs !== undefined) result['max-ref-age-ms'] = ref.maxRefAgeMs;
+  if (ref.minSnapshotsToKeep !== undefined) result['min-snapshots-to-keep'] = ref.minSnapshotsToKeep;
+  if (ref.maxSnapshotAgeMs !== undefined) result['max-snapshot-age-ms'] = ref.maxSnapshotAgeMs;
+  return result;
+}
+
+/**
+ * Write table metadata in the spec's JSON format, the inverse of
+ * {@link readIcebergSpecMetadata}. v1 metadata also gets the legacy
+ * `schema` and `partition-spec` fields that v1 readers expect.
+ *
+ * @param metadata - The table metadata
+ * @returns The metadata.json content, ready for `JSON.stringify`
+ * @throws Error if a list or map has no element, key or value IDs
+ */
+export function writeIcebergSpecMetadata(metadata: IcebergTableMetadata): JsonObject {
+  const { formatVersion } = metadata;
+  const currentSchema = metadata.schemas.find((schema) => schema.schemaId === metadata.currentSchemaId);
+  const defaultSpec = metadata.partitionSpecs.find((spec) => spec.specId === metadata.defaultSpecId);
+
+  const result: JsonObject = {
+    'format-version': formatVersion,
+    'table-uuid': metadata.tableUuid,
+    location: metadata.location,
+  };
+  if (formatVersion >= 2) result['last-sequence-number'] = metadata.lastSequenceNumber;
+  result['last-updated-ms'] = metadata.lastUpdatedMs;
+  result['last-column-id'] = metadata.lastColumnId;
+  if (formatVersion === 1 && currentSchema) result.schema = writeIcebergSpecSchema(currentSchema);
+  result['current-schema-id'] = metadata.currentSchemaId;
+  result.schemas = metadata.schemas.map(writeIcebergSpecSchema);
+  if (formatVersion === 1 && defaultSpec) result['partition-spec'] = writeIcebergSpecPartitionSpec(defaultSpec).fields;
+  result['default-spec-id'] = metadata.defaultSpecId;
+  result['partition-specs'] = metadata.partitionSpecs.map(writeIcebergSpecPartitionSpec);
+  result['last-partition-id'] = metadata.lastPartitionId;
+  result['default-sort-order-id'] = metadata.defaultSortOrderId;
+  result['sort-orders'] = metadata.sortOrders.map((order) => ({
+    'order-id': order.orderId,
+    fields: order.fields.map((field) => ({
+      transform: field.transform,
+      'source-id': field.sourceId,
+      direction: field.direction,
+      'null-order': field.nullOrder,
+    })),
+  }));
+  result.properties = metadata.properties;
+  if (metadata.currentSnapshotId !== undefined) result['current-snapshot-id'] = metadata.currentSnapshotId;
+  if (metadata.refs) {
+    result.refs = Object.fromEntries(Object.entries(metadata.refs).map(([name, ref]) => [name, writeRef(ref)]));
+  }
+  result.snapshots = (metadata.snapshots ?? []).map((snapshot) => writeSnapshot(snapshot, formatVersion));
+  result['snapshot-log'] = (metadata.snapshotLog ?? []).map((entry) => ({
+    'timestamp-ms': entry.timestampMs,
+    'snapshot-id': entry.snapshotId,
+  }));
+  result['metadata-log'] = (metadata.metadataLog ?? []).map((entry) => ({
+    'timestamp-ms': entry.timestampMs,
+    'metadata-file': entry.metadataFile,
+  }));
+  return result;
+}
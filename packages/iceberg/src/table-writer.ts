@@ -0,0 +1,928 @@
+/**
+ * Iceberg Table Writer
+ *
+ * Appends documents to an Iceberg table in a local directory: rows are
+ * split by the table's partition spec into Parquet data files, which are
+ * recorded in an Avro manifest and manifest list and committed as a new
+ * snapshot in the next `metadata.json`. Commits are optimistic: the next
+ * metadata file is created exclusively, and a writer that loses the race
+ * to a concurrent commit rebases its snapshot on the new metadata and
+ * retries. `version-hint.text` points readers at the latest version.
+ *
+ * The layout is the one Hadoop catalogs and DuckDB's `iceberg_scan` read:
+ *
+ * ```
+ * <location>/data/<partition path>/<file>.parquet
+ * <location>/metadata/v<N>.metadata.json
+ * <location>/metadata/snap-<snapshot ID>-<attempt>-<commit ID>.avro
+ * <location>/metadata/<commit ID>-m<attempt>.avro
+ * <location>/metadata/version-hint.text
+ * ```
+ *
+ * @see https://iceberg.apache.org/spec/#manifests
+ *
+ * @packageDocumentation
+ */
+
+// @ts-ignore -- node:crypto available at runtime
+import { randomUUID } from 'node:crypto';
+
+import type { IceTypeSchema, IcebergAdapterOptions } from '@icetype/core';
+
+import { decodeAvroContainer, encodeAvroContainer, type AvroField, type AvroType } from './avro.js';
+import { IcebergMetadataGenerator, parseIcebergMetadata } from './metadata.js';
+import { documentToParquetRow, icebergSchemaToParquetSchema, type ParquetSchemaOptions } from './parquet.js';
+import {
+  writeParquet,
+  type ParquetColumnSummary,
+  type ParquetCompressionCodec,
+  type ParquetWriterOptions,
+} from './parquet-writer.js';
+import { writeIcebergSpecMetadata, writeIcebergSpecPartitionSpec, writeIcebergSpecSchema } from './spec.js';
+import {
+  applyIcebergTransform,
+  compareIcebergValues,
+  formatIcebergPartitionValue,
+  icebergTransformResultType,
+  serializeIcebergValue,
+  toIcebergValue,
+} from './transforms.js';
+import type {
+  IcebergField,
+  IcebergPartitionField,
+  IcebergPartitionSpec,
+  IcebergSchema,
+  IcebergSnapshot,
+  IcebergTableMetadata,
+  IcebergType,
+} from './types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Options for {@link IcebergTableWriter} */
+export interface IcebergTableWriterOptions extends IcebergAdapterOptions {
+  /**
+   * IceType schema the table is created from when the location has no
+   * table yet. Existing tables are written with their current schema and
+   * partition spec.
+   */
+  schema?: IceTypeSchema;
+  /**
+   * Options for the Parquet data files. Compression defaults to the
+   * table's `write.parquet.compression-codec`.
+   */
+  parquet?: Omit<ParquetWriterOptions, 'metadata' | keyof ParquetSchemaOptions>;
+  /**
+   * Times to retry a commit that loses to a concurrent writer (default:
+   * the table's `commit.retry.num-retries`, or 4).
+   */
+  commitRetries?: number;
+}
+
+/** A data file added by an append */
+export interface IcebergDataFile {
+  /** Location of the file */
+  path: string;
+  /** Partition values by partition field name, null for missing values */
+  partition: Record<string, unknown>;
+  /** Number of rows in the file */
+  recordCount: number;
+  /** Size of the file in bytes */
+  fileSizeInBytes: number;
+}
+
+/** Result of {@link IcebergTableWriter.append} */
+export interface IcebergAppendResult {
+  /** The committed table metadata */
+  metadata: IcebergTableMetadata;
+  /** The new snapshot */
+  snapshot: IcebergSnapshot;
+  /** Version of the committed metadata file */
+  version: number;
+  /** Location of the committed metadata file */
+  metadataFile: string;
+  /** The data files the snapshot added */
+  dataFiles: IcebergDataFile[];
+  /** Commit attempts, more than 1 when concurrent commits forced a retry */
+  attempts: number;
+}
+
+/** The subset of `node:fs/promises` the writer uses */
+interface LocalFileSystem {
+  readFile(path: string): Promise<Uint8Array>;
+  readFile(path: string, encoding: 'utf-8'): Promise<string>;
+  writeFile(path: string, data: Uint8Array | string, options?: { flag?: string }): Promise<void>;
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>;
+  readdir(path: string): Promise<string[]>;
+  rename(from: string, to: string): Promise<void>;
+  rm(path: string, options?: { force?: boolean }): Promise<void>;
+  access(path: string): Promise<void>;
+}
+
+/** A column a partition field reads, and the partition field's result type */
+interface PartitionSource {
+  field: IcebergPartitionField;
+  path: string[];
+  sourceType: IcebergType;
+  resultType: IcebergType;
+}
+
+/** A written data file, with what its manifest entry records */
+interface DataFileEntry {
+  file: IcebergDataFile;
+  partitionValues: unknown[];
+  columns: ParquetColumnSummary[];
+}
+
+const LOCAL_LOCATION = /^(file:(\/\/)?)?(\/|[A-Za-z]:[\\/])/;
+
+const DEFAULT_COMMIT_RETRIES = 4;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+async function loadFileSystem(): Promise<LocalFileSystem> {
+  // @ts-ignore -- node:fs available at runtime
+  return (await import('node:fs/promises')) as LocalFileSystem;
+}
+
+function isErrorCode(error: unknown, code: string): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === code;
+}
+
+/** The filesystem path of a location written as a path or file:// URI */
+function localPath(location: string): string {
+  return location.replace(/^file:(\/\/)?/, '');
+}
+
+/**
+ * Give lists without an element ID, and maps without key and value IDs,
+ * IDs above `lastColumnId`: metadata generated from IceType schemas
+ * leaves them out, but data files and metadata.json need them.
+ */
+function assignNestedIds(type: IcebergType, nextId: () => number): IcebergType {
+  switch (type.type) {
+    case 'struct':
+      return { ...type, fields: (type.fields ?? []).map((field) => ({ ...field, type: assignNestedIds(field.type, nextId) })) };
+    case 'list':
+      return {
+        ...type,
+        elementId: type.elementId ?? nextId(),
+        elementRequired: type.elementRequired ?? false,
+        elementType: assignNestedIds(type.elementType!, nextId),
+      };
+    case 'map':
+      return {
+        ...type,
+        keyId: type.keyId ?? nextId(),
+        valueId: type.valueId ?? nextId(),
+        valueRequired: type.valueRequired ?? false,
+        keyType: assignNestedIds(type.keyType!, nextId),
+        valueType: assignNestedIds(type.valueType!, nextId),
+      };
+    default:
+      return type;
+  }
+}
+
+/**
+ * Prepare generated metadata for a new table: assign nested field IDs and,
+ * since order ID 0 is reserved for the unsorted order, move a sorted
+ * order 0 to order 1.
+ */
+function prepareTableMetadata(metadata: IcebergTableMetadata): IcebergTableMetadata {
+  let lastColumnId = metadata.lastColumnId;
+  const nextId = (): number => ++lastColumnId;
+  const schemas = metadata.schemas.map((schema) => ({
+    ...schema,
+    fields: schema.fields.map((field) => ({ ...field, type: assignNestedIds(field.type, nextId) })),
+  }));
+
+  let { sortOrders, defaultSortOrderId } = metadata;
+  const sortedZero = sortOrders.find((order) => order.orderId === 0 && order.fields.length > 0);
+  if (sortedZero) {
+    sortOrders = [{ orderId: 0, fields: [] }, { ...sortedZero, orderId: 1 }];
+    defaultSortOrderId = defaultSortOrderId === 0 ? 1 : defaultSortOrderId;
+  }
+  return { ...metadata, schemas, lastColumnId, sortOrders, defaultSortOrderId };
+}
+
+/** Find a column by field ID, looking into structs, with its path in a row */
+function findColumn(
+  fields: IcebergField[],
+  id: number,
+  path: string[] = []
+): { path: string[]; type: IcebergType } | undefined {
+  for (const field of fields) {
+    if (field.id === id) return { path: [...path, field.name], type: field.type };
+    if (field.type.type === 'struct') {
+      const found = findColumn(field.type.fields ?? [], id, [...path, field.name]);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+/** IDs and types of the primitive columns outside lists and maps, which get bounds */
+function boundedColumns(fields: IcebergField[], out = new Map<number, IcebergType>()): Map<number, IcebergType> {
+  for (const field of fields) {
+    if (field.type.type === 'struct') {
+      boundedColumns(field.type.fields ?? [], out);
+    } else if (field.type.type !== 'list' && field.type.type !== 'map') {
+      out.set(field.id, field.type);
+    }
+  }
+  return out;
+}
+
+function valueAt(row: Record<string, unknown>, path: string[]): unknown {
+  let value: unknown = row;
+  for (const name of path) {
+    if (typeof value !== 'object' || value === null) return null;
+    value = (value as Record<string, unknown>)[name];
+  }
+  return value;
+}
+
+// =============================================================================
+// Avro Schemas
+// =============================================================================
+
+/**
+ * An Avro-compatible name, escaping other characters the way Iceberg
+ * does (`$type` becomes `_x24type`).
+ */
+function avroName(name: string): string {
+  return [...name]
+    .map((char, index) => {
+      if (/[A-Za-z_]/.test(char) || (index > 0 && /[0-9]/.test(char))) return char;
+      if (/[0-9]/.test(char)) return `_${char}`;
+      return `_x${char.codePointAt(0)!.toString(16).toUpperCase()}`;
+    })
+    .join('');
+}
+
+function partitionAvroType(type: IcebergType, fieldId: number): AvroType {
+  switch (type.type) {
+    case 'date':
+      return { type: 'int', logicalType: 'date' };
+    case 'time':
+      return { type: 'long', logicalType: 'time-micros' };
+    case 'timestamp':
+    case 'timestamptz':
+      return { type: 'long', logicalType: 'timestamp-micros', 'adjust-to-utc': type.type === 'timestamptz' };
+    case 'uuid':
+      return { type: 'fixed', name: `uuid_fixed_${fieldId}`, size: 16, logicalType: 'uuid' };
+    case 'fixed':
+      return { type: 'fixed', name: `fixed_${fieldId}`, size: type.length ?? 0 };
+    case 'binary':
+      return 'bytes';
+    case 'decimal':
+      return { type: 'bytes', logicalType: 'decimal', precision: type.precision ?? 38, scale: type.scale ?? 0 };
+    case 'boolean':
+    case 'int':
+    case 'long':
+    case 'float':
+    case 'double':
+    case 'string':
+      return type.type;
+    default:
+      throw new Error(`Cannot partition by a column of Iceberg type ${type.type}`);
+  }
+}
+
+function optional(name: string, type: AvroType, fieldId: number): AvroField {
+  return { name, type: ['null', type], default: null, 'field-id': fieldId };
+}
+
+/** Iceberg's Avro form of a map with int keys: an array of key/value records */
+function metricsMap(name: string, fieldId: number, keyId: number, valueId: number, valueType: AvroType): AvroField {
+  return optional(
+    name,
+    {
+      type: 'array',
+      logicalType: 'map',
+      items: {
+        type: 'record',
+        name: `k${keyId}_v${valueId}`,
+        fields: [
+          { name: 'key', type: 'int', 'field-id': keyId },
+          { name: 'value', type: valueType, 'field-id': valueId },
+        ],
+      },
+    },
+    fieldId
+  );
+}
+
+function manifestEntrySchema(sources: PartitionSource[]): AvroType {
+  return {
+    type: 'record',
+    name: 'manifest_entry',
+    fields: [
+      { name: 'status', type: 'int', 'field-id': 0 },
+      optional('snapshot_id', 'long', 1),
+      optional('sequence_number', 'long', 3),
+      optional('file_sequence_number', 'long', 4),
+      {
+        name: 'data_file',
+        'field-id': 2,
+        type: {
+          type: 'record',
+          name: 'r2',
+          fields: [
+            { name: 'content', type: 'int', 'field-id': 134 },
+            { name: 'file_path', type: 'string', 'field-id': 100 },
+            { name: 'file_format', type: 'string', 'field-id': 101 },
+            {
+              name: 'partition',
+              'field-id': 102,
+              type: {
+                type: 'record',
+                name: 'r102',
+                fields: sources.map(({ field, resultType }) =>
+                  optional(avroName(field.name), partitionAvroType(resultType, field.fieldId), field.fieldId)
+                ),
+              },
+            },
+            { name: 'record_count', type: 'long', 'field-id': 103 },
+            { name: 'file_size_in_bytes', type: 'long', 'field-id': 104 },
+            metricsMap('column_sizes', 108, 117, 118, 'long'),
+            metricsMap('value_counts', 109, 119, 120, 'long'),
+            metricsMap('null_value_counts', 110, 121, 122, 'long'),
+            metricsMap('nan_value_counts', 137, 138, 139, 'long'),
+            metricsMap('lower_bounds', 125, 126, 127, 'bytes'),
+            metricsMap('upper_bounds', 128, 129, 130, 'bytes'),
+            optional('key_metadata', 'bytes', 131),
+            optional('split_offsets', { type: 'array', items: 'long', 'element-id': 133 }, 132),
+            optional('equality_ids', { type: 'array', items: 'int', 'element-id': 136 }, 135),
+            optional('sort_order_id', 'int', 140),
+          ],
+        },
+      },
+    ],
+  };
+}
+
+const MANIFEST_FILE_SCHEMA: AvroType = {
+  type: 'record',
+  name: 'manifest_file',
+  fields: [
+    { name: 'manifest_path', type: 'string', 'field-id': 500 },
+    { name: 'manifest_length', type: 'long', 'field-id': 501 },
+    { name: 'partition_spec_id', type: 'int', 'field-id': 502 },
+    { name: 'content', type: 'int', 'field-id': 517 },
+    { name: 'sequence_number', type: 'long', 'field-id': 515 },
+    { name: 'min_sequence_number', type: 'long', 'field-id': 516 },
+    { name: 'added_snapshot_id', type: 'long', 'field-id': 503 },
+    { name: 'added_files_count', type: 'int', 'field-id': 504 },
+    { name: 'existing_files_count', type: 'int', 'field-id': 505 },
+    { name: 'deleted_files_count', type: 'int', 'field-id': 506 },
+    { name: 'added_rows_count', type: 'long', 'field-id': 512 },
+    { name: 'existing_rows_count', type: 'long', 'field-id': 513 },
+    { name: 'deleted_rows_count', type: 'long', 'field-id': 514 },
+    optional(
+      'partitions',
+      {
+        type: 'array',
+        'element-id': 508,
+        items: {
+          type: 'record',
+          name: 'r508',
+          fields: [
+            { name: 'contains_null', type: 'boolean', 'field-id': 509 },
+            optional('contains_nan', 'boolean', 518),
+            optional('lower_bound', 'bytes', 510),
+            optional('upper_bound', 'bytes', 511),
+          ],
+        },
+      },
+      507
+    ),
+    optional('key_metadata', 'bytes', 519),
+  ],
+};
+
+/** Read the manifests of a manifest list, accepting the v1 names of the file counts */
+function readManifestList(bytes: Uint8Array): Record<string, unknown>[] {
+  return (decodeAvroContainer(bytes).records as Record<string, unknown>[]).map((manifest) => ({
+    content: 0,
+    partitions: null,
+    key_metadata: null,
+    ...manifest,
+    added_files_count: manifest.added_files_count ?? manifest.added_data_files_count,
+    existing_files_count: manifest.existing_files_count ?? manifest.existing_data_files_count,
+    deleted_files_count: manifest.deleted_files_count ?? manifest.deleted_data_files_count,
+  }));
+}
+
+// =============================================================================
+// Table Writer
+// =============================================================================
+
+/**
+ * Writer that appends documents to an Iceberg table in a local directory,
+ * creating the table from an IceType schema when it does not exist yet.
+ *
+ * Only format version 2 tables are written. Manifest lists are written,
+ * and read back on the next append, uncompressed.
+ *
+ * @example
+ * ```typescript
+ * import { parseSchema } from '@icetype/core';
+ * import { IcebergTableWriter } from '@icetype/iceberg';
+ *
+ * const schema = parseSchema({
+ *   $type: 'Event',
+ *   $partitionBy: ['day(occurredAt)'],
+ *   name: 'string!',
+ *   occurredAt: 'timestamp!',
+ * });
+ *
+ * const writer = new IcebergTableWriter({ location: '/data/warehouse/events', schema });
+ * const { snapshot, dataFiles } = await writer.append(events);
+ *
+ * // SELECT * FROM iceberg_scan('/data/warehouse/events') in DuckDB
+ * ```
+ */
+export class IcebergTableWriter {
+  /** Location of the table, as written in its metadata */
+  readonly location: string;
+
+  private readonly options: IcebergTableWriterOptions;
+
+  /**
+   * @param options - Table location and the options for creating and writing it
+   * @throws Error if the location is not an absolute local path or file:// URI
+   */
+  constructor(options: IcebergTableWriterOptions) {
+    if (!LOCAL_LOCATION.test(options.location)) {
+      throw new Error(
+        `IcebergTableWriter writes tables in a local directory; location must be an absolute path or file:// URI, got '${options.location}'`
+      );
+    }
+    this.location = options.location.replace(/\/+$/, '');
+    this.options = options;
+  }
+
+  private get metadataDir(): string {
+    return `${this.location}/metadata`;
+  }
+
+  private metadataFile(version: number): string {
+    return `${this.metadataDir}/v${version}.metadata.json`;
+  }
+
+  /**
+   * Find the current metadata version: the one in `version-hint.text`, or
+   * the highest metadata file when there is no hint, advanced past any
+   * newer files a concurrent commit wrote before updating the hint.
+   */
+  private async currentVersion(fs: LocalFileSystem): Promise<number | undefined> {
+    let version: number | undefined;
+    try {
+      version = parseInt(await fs.readFile(localPath(`${this.metadataDir}/version-hint.text`), 'utf-8'), 10);
+    } catch (error) {
+      if (!isErrorCode(error, 'ENOENT')) throw error;
+    }
+
+    if (version === undefined || Number.isNaN(version)) {
+      let names: string[] = [];
+      try {
+        names = await fs.readdir(localPath(this.metadataDir));
+      } catch (error) {
+        if (!isErrorCode(error, 'ENOENT')) throw error;
+      }
+      const versions = names.flatMap((name) => {
+        const match = /^v(\d+)\.metadata\.json$/.exec(name);
+        return match ? [Number(match[1])] : [];
+      });
+      if (versions.length === 0) return undefined;
+      version = Math.max(...versions);
+    }
+
+    for (;;) {
+      try {
+        await fs.access(localPath(this.metadataFile(version + 1)));
+        version++;
+      } catch {
+        return version;
+      }
+    }
+  }
+
+  private async readCurrent(
+    fs: LocalFileSystem
+  ): Promise<{ version: number; metadata: IcebergTableMetadata } | undefined> {
+    const version = await this.currentVersion(fs);
+    if (version === undefined) return undefined;
+    const json = await fs.readFile(localPath(this.metadataFile(version)), 'utf-8');
+    return { version, metadata: parseIcebergMetadata(json) };
+  }
+
+  private async writeVersionHint(fs: LocalFileSystem, version: number): Promise<void> {
+    // Write then rename, so readers never see a partial hint
+    const hint = localPath(`${this.metadataDir}/version-hint.text`);
+    const temporary = `${hint}.${randomUUID() as string}.tmp`;
+    await fs.writeFile(temporary, String(version));
+    await fs.rename(temporary, hint);
+  }
+
+  /**
+   * Read the table's current metadata.
+   *
+   * @returns The metadata, or undefined when the location has no table
+   */
+  async load(): Promise<IcebergTableMetadata | undefined> {
+    return (await this.readCurrent(await loadFileSystem()))?.metadata;
+  }
+
+  /**
+   * Create the table from the IceType schema unless it exists, writing
+   * `v1.metadata.json` and the version hint.
+   *
+   * @returns The table's current metadata
+   * @throws Error if there is no table and no schema to create one from,
+   *   or a format version other than 2 is requested
+   */
+  async create(): Promise<IcebergTableMetadata> {
+    const fs = await loadFileSystem();
+    const existing = await this.readCurrent(fs);
+    if (existing) return existing.metadata;
+
+    const { schema } = this.options;
+    if (!schema) {
+      throw new Error(`No Iceberg table at ${this.location}; pass a schema to create one`);
+    }
+    if ((this.options.formatVersion ?? 2) !== 2) {
+      throw new Error(`IcebergTableWriter creates format version 2 tables, not version ${this.options.formatVersion}`);
+    }
+    const generated = new IcebergMetadataGenerator().generateTableMetadata(schema, {
+      ...this.options,
+      location: this.location,
+    });
+    const metadata = prepareTableMetadata(generated);
+
+    await fs.mkdir(localPath(this.metadataDir), { recursive: true });
+    try {
+      await fs.writeFile(
+        localPath(this.metadataFile(1)),
+        JSON.stringify(writeIcebergSpecMetadata(metadata), null, 2),
+        { flag: 'wx' }
+      );
+    } catch (error) {
+      // Another writer created the table first
+      if (isErrorCode(error, 'EEXIST')) return (await this.readCurrent(fs))!.metadata;
+      throw error;
+    }
+    await this.writeVersionHint(fs, 1);
+    return metadata;
+  }
+
+  /**
+   * Append documents to the table as a new snapshot, creating the table
+   * first if needed. Documents are partitioned by the table's default
+   * spec, with one Parquet data file per partition.
+   *
+   * @param documents - Documents to append, synchronously or asynchronously iterable
+   * @returns The committed snapshot and the data files it added
+   * @throws Error if a document does not fit the schema, the table is not
+   *   format version 2, or the commit keeps losing to concurrent writers;
+   *   data files written for a failed append are removed
+   */
+  async append(
+    documents: Iterable<Record<string, unknown>> | AsyncIterable<Record<string, unknown>>
+  ): Promise<IcebergAppendResult> {
+    const fs = await loadFileSystem();
+    const metadata = await this.create();
+    if (metadata.formatVersion !== 2) {
+      throw new Error(
+        `IcebergTableWriter writes format version 2 tables; the table at ${this.location} is version ${metadata.formatVersion}`
+      );
+    }
+    const schema = metadata.schemas.find((candidate) => candidate.schemaId === metadata.currentSchemaId);
+    const spec = metadata.partitionSpecs.find((candidate) => candidate.specId === metadata.defaultSpecId);
+    if (!schema || !spec) {
+      throw new Error(`Invalid Iceberg metadata: current schema or default partition spec not found`);
+    }
+
+    const commitId = randomUUID() as string;
+    const entries: DataFileEntry[] = [];
+    try {
+      await this.writeDataFiles(fs, metadata, schema, spec, documents, commitId, entries);
+      return await this.commit(fs, schema, spec, entries, commitId);
+    } catch (error) {
+      await Promise.all(entries.map((entry) => fs.rm(localPath(entry.file.path), { force: true })));
+      throw error;
+    }
+  }
+
+  private partitionSources(schema: IcebergSchema, spec: IcebergPartitionSpec): PartitionSource[] {
+    return spec.fields.map((field) => {
+      const column = findColumn(schema.fields, field.sourceId);
+      if (!column) {
+        throw new Error(`Partition field '${field.name}' refers to column ${field.sourceId}, which is not in the schema`);
+      }
+      return {
+        field,
+        path: column.path,
+        sourceType: column.type,
+        resultType: icebergTransformResultType(field.transform, column.type),
+      };
+    });
+  }
+
+  private async writeDataFiles(
+    fs: LocalFileSystem,
+    metadata: IcebergTableMetadata,
+    schema: IcebergSchema,
+    spec: IcebergPartitionSpec,
+    documents: Iterable<Record<string, unknown>> | AsyncIterable<Record<string, unknown>>,
+    commitId: string,
+    entries: DataFileEntry[]
+  ): Promise<void> {
+    const parquetSchema = icebergSchemaToParquetSchema(schema);
+    const sources = this.partitionSources(schema, spec);
+
+    const partitions = new Map<string, { values: unknown[]; rows: Record<string, unknown>[] }>();
+    for await (const document of documents) {
+      const row = documentToParquetRow(document, parquetSchema);
+      const values = sources.map(({ field, path, sourceType }) =>
+        applyIcebergTransform(field.transform, sourceType, toIcebergValue(sourceType, valueAt(row, path)))
+      );
+      const key = sources
+        .map(({ field, resultType }, index) =>
+          `${encodeURIComponent(field.name)}=${encodeURIComponent(formatIcebergPartitionValue(field.transform, resultType, values[index]))}`
+        )
+        .join('/');
+      const partition = partitions.get(key) ?? { values, rows: [] };
+      partition.rows.push(row);
+      partitions.set(key, partition);
+    }
+
+    const compression =
+      this.options.parquet?.compression ??
+      ((metadata.properties['write.parquet.compression-codec'] ?? 'snappy').replace(/^none$/, 'uncompressed') as ParquetCompressionCodec);
+
+    let index = 0;
+    for (const [key, { values, rows }] of partitions) {
+      const directory = key === '' ? `${this.location}/data` : `${this.location}/data/${key}`;
+      const path = `${directory}/${commitId}-${String(index++).padStart(5, '0')}.parquet`;
+      await fs.mkdir(localPath(directory), { recursive: true });
+      const entry: DataFileEntry = {
+        file: {
+          path,
+          partition: Object.fromEntries(sources.map(({ field }, i) => [field.name, values[i]])),
+          recordCount: rows.length,
+          fileSizeInBytes: 0,
+        },
+        partitionValues: values,
+        columns: [],
+      };
+      // Recorded before writing, so a failed write is cleaned up too
+      entries.push(entry);
+      const result = await writeParquet(parquetSchema, rows, localPath(path), {
+        ...this.options.parquet,
+        compression,
+        metadata: { 'iceberg.schema': JSON.stringify(writeIcebergSpecSchema(schema)) },
+      });
+      entry.file.fileSizeInBytes = result.byteLength;
+      entry.columns = result.columns;
+    }
+  }
+
+  private encodeManifest(
+    schema: IcebergSchema,
+    spec: IcebergPartitionSpec,
+    sources: PartitionSource[],
+    entries: DataFileEntry[],
+    snapshotId: number,
+    sequenceNumber: number
+  ): Uint8Array {
+    const bounded = boundedColumns(schema.fields);
+    const records = entries.map(({ file, partitionValues, columns }) => {
+      const metric = (value: (column: ParquetColumnSummary) => unknown, filter = (_: ParquetColumnSummary) => true) =>
+        columns
+          .filter((column) => column.fieldId !== undefined && filter(column))
+          .map((column) => ({ key: column.fieldId, value: value(column) }));
+      const hasBounds = (column: ParquetColumnSummary): boolean =>
+        bounded.has(column.fieldId!) && column.minValue !== undefined && column.maxValue !== undefined;
+
+      return {
+        status: 1,
+        snapshot_id: snapshotId,
+        sequence_number: sequenceNumber,
+        file_sequence_number: sequenceNumber,
+        data_file: {
+          content: 0,
+          file_path: file.path,
+          file_format: 'PARQUET',
+          partition: Object.fromEntries(
+            sources.map(({ field, resultType }, index) => {
+              const value = partitionValues[index];
+              const avroValue =
+                resultType.type === 'decimal' && value !== null ? serializeIcebergValue(resultType, value) : value;
+              return [avroName(field.name), avroValue];
+            })
+          ),
+          record_count: file.recordCount,
+          file_size_in_bytes: file.fileSizeInBytes,
+          column_sizes: metric((column) => column.compressedSize),
+          value_counts: metric((column) => column.valueCount),
+          null_value_counts: metric((column) => column.nullCount),
+          nan_value_counts: null,
+          lower_bounds: metric((column) => column.minValue, hasBounds),
+          upper_bounds: metric((column) => column.maxValue, hasBounds),
+          key_metadata: null,
+          split_offsets: null,
+          equality_ids: null,
+          sort_order_id: null,
+        },
+      };
+    });
+
+    return encodeAvroContainer(manifestEntrySchema(sources), records, {
+      schema: JSON.stringify(writeIcebergSpecSchema(schema)),
+      'schema-id': String(schema.schemaId),
+      'partition-spec': JSON.stringify(writeIcebergSpecPartitionSpec(spec).fields),
+      'partition-spec-id': String(spec.specId),
+      'format-version': '2',
+      content: 'data',
+    });
+  }
+
+  /** Summaries of each partition field across the data files, for the manifest list */
+  private partitionSummaries(sources: PartitionSource[], entries: DataFileEntry[]): unknown[] {
+    return sources.map(({ resultType }, index) => {
+      const values = entries.map((entry) => entry.partitionValues[index]);
+      const present = values.filter((value) => value !== null).sort(compareIcebergValues);
+      const isFloat = resultType.type === 'float' || resultType.type === 'double';
+      return {
+        contains_null: present.length < values.length,
+        contains_nan: isFloat ? present.some((value) => Number.isNaN(value)) : null,
+        lower_bound: present.length > 0 ? serializeIcebergValue(resultType, present[0]) : null,
+        upper_bound: present.length > 0 ? serializeIcebergValue(resultType, present[present.length - 1]) : null,
+      };
+    });
+  }
+
+  private async commit(
+    fs: LocalFileSystem,
+    schema: IcebergSchema,
+    spec: IcebergPartitionSpec,
+    entries: DataFileEntry[],
+    commitId: string
+  ): Promise<IcebergAppendResult> {
+    const sources = this.partitionSources(schema, spec);
+    const addedRecords = entries.reduce((total, entry) => total + entry.file.recordCount, 0);
+    const addedSize = entries.reduce((total, entry) => total + entry.file.fileSizeInBytes, 0);
+
+    for (let attempt = 1; ; attempt++) {
+      const current = await this.readCurrent(fs);
+      if (!current) {
+        throw new Error(`The Iceberg table at ${this.location} was removed while appending`);
+      }
+      const { version, metadata } = current;
+      if (metadata.currentSchemaId !== schema.schemaId || metadata.defaultSpecId !== spec.specId) {
+        throw new Error(`The schema or partition spec of the Iceberg table at ${this.location} changed while appending`);
+      }
+      const retries =
+        this.options.commitRetries ?? Number(metadata.properties['commit.retry.num-retries'] ?? DEFAULT_COMMIT_RETRIES);
+
+      const sequenceNumber = metadata.lastSequenceNumber + 1;
+      const snapshotIds = new Set((metadata.snapshots ?? []).map((snapshot) => snapshot.snapshotId));
+      let snapshotId = 0;
+      while (snapshotId === 0 || snapshotIds.has(snapshotId)) {
+        snapshotId = Math.floor(Math.random() * Number.MAX_SAFE_INTEGER) + 1;
+      }
+      const parent = (metadata.snapshots ?? []).find((snapshot) => snapshot.snapshotId === metadata.currentSnapshotId);
+
+      // Carry the parent's manifests forward, after the new one
+      const manifests = parent ? readManifestList(await fs.readFile(localPath(parent.manifestList))) : [];
+      const written: string[] = [];
+      if (entries.length > 0) {
+        const manifestPath = `${this.metadataDir}/${commitId}-m${attempt - 1}.avro`;
+        const manifest = this.encodeManifest(schema, spec, sources, entries, snapshotId, sequenceNumber);
+        await fs.writeFile(localPath(manifestPath), manifest);
+        written.push(manifestPath);
+        manifests.unshift({
+          manifest_path: manifestPath,
+          manifest_length: manifest.length,
+          partition_spec_id: spec.specId,
+          content: 0,
+          sequence_number: sequenceNumber,
+          min_sequence_number: sequenceNumber,
+          added_snapshot_id: snapshotId,
+          added_files_count: entries.length,
+          existing_files_count: 0,
+          deleted_files_count: 0,
+          added_rows_count: addedRecords,
+          existing_rows_count: 0,
+          deleted_rows_count: 0,
+          partitions: this.partitionSummaries(sources, entries),
+          key_metadata: null,
+        });
+      }
+
+      const manifestList = `${this.metadataDir}/snap-${snapshotId}-${attempt}-${commitId}.avro`;
+      await fs.writeFile(
+        localPath(manifestList),
+        encodeAvroContainer(MANIFEST_FILE_SCHEMA, manifests, {
+          'snapshot-id': String(snapshotId),
+          'parent-snapshot-id': parent ? String(parent.snapshotId) : 'null',
+          'sequence-number': String(sequenceNumber),
+          'format-version': '2',
+        })
+      );
+      written.push(manifestList);
+
+      const previous = parent?.summary ?? {};
+      const total = (key: string, added: number): string => String(Number(previous[key] ?? 0) + added);
+      const now = Date.now();
+      const snapshot: IcebergSnapshot = {
+        snapshotId,
+        sequenceNumber,
+        timestampMs: now,
+        manifestList,
+        summary: {
+          operation: 'append',
+          'added-data-files': String(entries.length),
+          'added-records': String(addedRecords),
+          'added-files-size': String(addedSize),
+          'changed-partition-count': String(entries.length),
+          'total-records': total('total-records', addedRecords),
+          'total-files-size': total('total-files-size', addedSize),
+          'total-data-files': total('total-data-files', entries.length),
+          'total-delete-files': total('total-delete-files', 0),
+          'total-position-deletes': total('total-position-deletes', 0),
+          'total-equality-deletes': total('total-equality-deletes', 0),
+        },
+        schemaId: schema.schemaId,
+      };
+      if (parent) snapshot.parentSnapshotId = parent.snapshotId;
+
+      const next: IcebergTableMetadata = {
+        ...metadata,
+        lastSequenceNumber: sequenceNumber,
+        lastUpdatedMs: now,
+        currentSnapshotId: snapshotId,
+        snapshots: [...(metadata.snapshots ?? []), snapshot],
+        snapshotLog: [...(metadata.snapshotLog ?? []), { snapshotId, type: 'branch', timestampMs: now }],
+        refs: { ...metadata.refs, main: { snapshotId, type: 'branch', timestampMs: now } },
+        metadataLog: [
+          ...(metadata.metadataLog ?? []),
+          { timestampMs: metadata.lastUpdatedMs, metadataFile: this.metadataFile(version) },
+        ],
+      };
+
+      try {
+        await fs.writeFile(
+          localPath(this.metadataFile(version + 1)),
+          JSON.stringify(writeIcebergSpecMetadata(next), null, 2),
+          { flag: 'wx' }
+        );
+      } catch (error) {
+        await Promise.all(written.map((path) => fs.rm(localPath(path), { force: true })));
+        if (!isErrorCode(error, 'EEXIST')) throw error;
+        if (attempt > retries) {
+          throw new Error(
+            `Failed to commit to the Iceberg table at ${this.location}: concurrent commits won ${attempt} attempts in a row`
+          );
+        }
+        continue;
+      }
+
+      await this.writeVersionHint(fs, version + 1);
+      return {
+        metadata: next,
+        snapshot,
+        version: version + 1,
+        metadataFile: this.metadataFile(version + 1),
+        dataFiles: entries.map((entry) => entry.file),
+        attempts: attempt,
+      };
+    }
+  }
+}
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+/**
+ * Create a writer for an Iceberg table in a local directory.
+ *
+ * @example
+ * ```typescript
+ * import { createIcebergTableWriter } from '@icetype/iceberg';
+ *
+ * const writer = createIcebergTableWriter({ location: '/data/warehouse/users', schema: userSchema });
+ * await writer.append(users);
+ * ```
+ */
+export function createIcebergTableWriter(options: IcebergTableWriterOptions): IcebergTableWriter {
+  return new IcebergTableWriter(options);
+}
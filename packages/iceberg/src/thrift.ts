@@ -0,0 +1,426 @@
+/**
+ * Thrift Compact Protocol Encoding
+ *
+ * Parquet page headers and file metadata are Thrift structs serialized
+ * with the compact protocol. This module encodes the handful of Thrift
+ * types Parquet uses, from structs described as lists of fields, and
+ * decodes structs back to their fields by ID.
+ *
+ * @see https://github.com/apache/thrift/blob/master/doc/specs/thrift-compact-protocol.md
+ *
+ * @packageDocumentation
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Compact protocol type IDs */
+export const ThriftType = {
+  BOOLEAN_TRUE: 1,
+  BOOLEAN_FALSE: 2,
+  BYTE: 3,
+  I16: 4,
+  I32: 5,
+  I64: 6,
+  DOUBLE: 7,
+  BINARY: 8,
+  LIST: 9,
+  SET: 10,
+  MAP: 11,
+  STRUCT: 12,
+} as const;
+
+/** Element types a Thrift list can hold */
+export type ThriftElementType = 'i32' | 'i64' | 'binary' | 'struct';
+
+/** A field of a Thrift struct, with its field ID */
+export type ThriftField =
+  | { id: number; type: 'bool'; value: boolean }
+  | { id: number; type: 'i8'; value: number }
+  | { id: number; type: 'i16' | 'i32'; value: number }
+  | { id: number; type: 'i64'; value: number | bigint }
+  | { id: number; type: 'binary'; value: Uint8Array | string }
+  | { id: number; type: 'struct'; value: ThriftStruct }
+  | { id: number; type: 'list'; elementType: ThriftElementType; value: unknown[] };
+
+/** A Thrift struct: its fields in ascending ID order. Undefined fields are omitted. */
+export type ThriftStruct = Array<ThriftField | undefined>;
+
+/** A decoded Thrift value. Integers outside the safe range are bigints. */
+export type ThriftValue = boolean | number | bigint | Uint8Array | ThriftValue[] | ThriftRecord;
+
+/** A decoded Thrift struct, keyed by field ID */
+export interface ThriftRecord {
+  [id: number]: ThriftValue | undefined;
+}
+
+// =============================================================================
+// Field Helpers
+// =============================================================================
+
+export const bool = (id: number, value: boolean | undefined): ThriftField | undefined =>
+  value === undefined ? undefined : { id, type: 'bool', value };
+
+export const i8 = (id: number, value: number | undefined): ThriftField | undefined =>
+  value === undefined ? undefined : { id, type: 'i8', value };
+
+export const i32 = (id: number, value: number | undefined): ThriftField | undefined =>
+  value === undefined ? undefined : { id, type: 'i32', value };
+
+export const i64 = (id: number, value: number | bigint | undefined): ThriftField | undefined =>
+  value === undefined ? undefined : { id, type: 'i64', value };
+
+export const binary = (id: number, value: Uint8Array | string | undefined): ThriftField | undefined =>
+  value === undefined ? undefined : { id, type: 'binary', value };
+
+export const struct = (id: number, value: ThriftStruct | undefined): ThriftField | undefined =>
+  value === undefined ? undefined : { id, type: 'struct', value };
+
+export const list = (
+  id: number,
+  elementType: ThriftElementType,
+  value: unknown[] | undefined
+): ThriftField | undefined => (value === undefined ? undefined : { id, type: 'list', elementType, value });
+
+// =============================================================================
+// Byte Output
+// =============================================================================
+
+// A global in Node.js, Deno, Bun and workers, though not declared by lib ES2022
+declare const TextEncoder: new () => { encode(input: string): Uint8Array };
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Encode a string as UTF-8.
+ */
+export function encodeUtf8(value: string): Uint8Array {
+  return textEncoder.encode(value);
+}
+
+/**
+ * A growable byte buffer.
+ */
+export class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  length = 0;
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  byte(value: number): void {
+    this.ensure(1);
+    this.buffer[this.length++] = value;
+  }
+
+  bytes(value: Uint8Array): void {
+    this.ensure(value.length);
+    this.buffer.set(value, this.length);
+    this.length += value.length;
+  }
+
+  int32(value: number): void {
+    this.ensure(4);
+    this.view.setInt32(this.length, value, true);
+    this.length += 4;
+  }
+
+  int64(value: bigint): void {
+    this.ensure(8);
+    this.view.setBigInt64(this.length, value, true);
+    this.length += 8;
+  }
+
+  float(value: number): void {
+    this.ensure(4);
+    this.view.setFloat32(this.length, value, true);
+    this.length += 4;
+  }
+
+  double(value: number): void {
+    this.ensure(8);
+    this.view.setFloat64(this.length, value, true);
+    this.length += 8;
+  }
+
+  /** Unsigned LEB128 varint */
+  varint(value: number | bigint): void {
+    if (typeof value === 'number' && value >= 0 && value <= 0x7fffffff) {
+      let n = value;
+      while (n >= 0x80) {
+        this.byte((n & 0x7f) | 0x80);
+        n >>>= 7;
+      }
+      this.byte(n);
+      return;
+    }
+    let v = BigInt(value);
+    while (v >= 0x80n) {
+      this.byte(Number(v & 0x7fn) | 0x80);
+      v >>= 7n;
+    }
+    this.byte(Number(v));
+  }
+
+  /** Zigzag-encoded varint */
+  zigzag(value: number | bigint): void {
+    const v = BigInt(value);
+    this.varint(v >= 0n ? v << 1n : (-v << 1n) - 1n);
+  }
+
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+const ELEMENT_TYPES: Record<ThriftElementType, number> = {
+  i32: ThriftType.I32,
+  i64: ThriftType.I64,
+  binary: ThriftType.BINARY,
+  struct: ThriftType.STRUCT,
+};
+
+function fieldType(field: ThriftField): number {
+  switch (field.type) {
+    case 'bool':
+      return field.value ? ThriftType.BOOLEAN_TRUE : ThriftType.BOOLEAN_FALSE;
+    case 'i8':
+      return ThriftType.BYTE;
+    case 'i16':
+      return ThriftType.I16;
+    case 'i32':
+      return ThriftType.I32;
+    case 'i64':
+      return ThriftType.I64;
+    case 'binary':
+      return ThriftType.BINARY;
+    case 'struct':
+      return ThriftType.STRUCT;
+    case 'list':
+      return ThriftType.LIST;
+  }
+}
+
+function writeBinary(out: ByteWriter, value: Uint8Array | string): void {
+  const bytes = typeof value === 'string' ? encodeUtf8(value) : value;
+  out.varint(bytes.length);
+  out.bytes(bytes);
+}
+
+function writeElement(out: ByteWriter, elementType: ThriftElementType, value: unknown): void {
+  switch (elementType) {
+    case 'i32':
+    case 'i64':
+      out.zigzag(value as number | bigint);
+      break;
+    case 'binary':
+      writeBinary(out, value as Uint8Array | string);
+      break;
+    case 'struct':
+      writeStruct(out, value as ThriftStruct);
+      break;
+  }
+}
+
+/**
+ * Write a struct in the compact protocol.
+ */
+export function writeStruct(out: ByteWriter, fields: ThriftStruct): void {
+  let lastId = 0;
+  for (const field of fields) {
+    if (!field) continue;
+
+    const type = fieldType(field);
+    const delta = field.id - lastId;
+    if (delta > 0 && delta <= 15) {
+      out.byte((delta << 4) | type);
+    } else {
+      out.byte(type);
+      out.zigzag(field.id);
+    }
+    lastId = field.id;
+
+    switch (field.type) {
+      case 'bool':
+        // The value is carried by the type nibble
+        break;
+      case 'i8':
+        out.byte(field.value & 0xff);
+        break;
+      case 'i16':
+      case 'i32':
+      case 'i64':
+        out.zigzag(field.value);
+        break;
+      case 'binary':
+        writeBinary(out, field.value);
+        break;
+      case 'struct':
+        writeStruct(out, field.value);
+        break;
+      case 'list': {
+        const elementType = ELEMENT_TYPES[field.elementType];
+        if (field.value.length < 15) {
+          out.byte((field.value.length << 4) | elementType);
+        } else {
+          out.byte(0xf0 | elementType);
+          out.varint(field.value.length);
+        }
+        for (const element of field.value) {
+          writeElement(out, field.elementType, element);
+        }
+        break;
+      }
+    }
+  }
+  out.byte(0);
+}
+
+/**
+ * Serialize a struct in the compact protocol.
+ *
+ * @param fields - The struct's fields
+ * @returns The encoded bytes
+ */
+export function encodeStruct(fields: ThriftStruct): Uint8Array {
+  const out = new ByteWriter();
+  writeStruct(out, fields);
+  return out.toBytes();
+}
+
+// =============================================================================
+// Decoding
+// =============================================================================
+
+class ThriftReader {
+  offset = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  take(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Invalid Thrift data: unexpected end of input');
+    }
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  byte(): number {
+    return this.take(1)[0]!;
+  }
+
+  varint(): bigint {
+    let result = 0n;
+    let shift = 0n;
+    for (;;) {
+      const byte = this.byte();
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return result;
+      shift += 7n;
+    }
+  }
+
+  zigzag(): number | bigint {
+    const result = this.varint();
+    const value = (result >> 1n) ^ -(result & 1n);
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+  }
+
+  /** A length or element count, each element taking at least a byte */
+  size(): number {
+    const value = this.varint();
+    if (value > BigInt(this.bytes.length - this.offset)) throw new Error('Invalid Thrift data: unexpected end of input');
+    return Number(value);
+  }
+
+  double(): number {
+    const value = this.view.getFloat64(this.offset, true);
+    this.take(8);
+    return value;
+  }
+}
+
+function readValue(reader: ThriftReader, type: number): ThriftValue {
+  switch (type) {
+    case ThriftType.BOOLEAN_TRUE:
+      return true;
+    case ThriftType.BOOLEAN_FALSE:
+      return false;
+    case ThriftType.BYTE:
+      return (reader.byte() << 24) >> 24;
+    case ThriftType.I16:
+    case ThriftType.I32:
+    case ThriftType.I64:
+      return reader.zigzag();
+    case ThriftType.DOUBLE:
+      return reader.double();
+    case ThriftType.BINARY:
+      return reader.take(reader.size()).slice();
+    case ThriftType.LIST:
+    case ThriftType.SET: {
+      const header = reader.byte();
+      const size = header >> 4 === 15 ? reader.size() : header >> 4;
+      const elementType = header & 0x0f;
+      const items: ThriftValue[] = [];
+      for (let i = 0; i < size; i++) {
+        // Booleans in lists take a byte each rather than the type nibble
+        items.push(elementType <= ThriftType.BOOLEAN_FALSE ? reader.byte() === 1 : readValue(reader, elementType));
+      }
+      return items;
+    }
+    case ThriftType.MAP: {
+      // Maps decode as [key, value] pairs; Parquet metadata does not use them
+      const size = reader.size();
+      const types = size > 0 ? reader.byte() : 0;
+      const entries: ThriftValue[] = [];
+      for (let i = 0; i < size; i++) entries.push([readValue(reader, types >> 4), readValue(reader, types & 0x0f)]);
+      return entries;
+    }
+    case ThriftType.STRUCT:
+      return readStruct(reader);
+    default:
+      throw new Error(`Invalid Thrift data: unknown type ${type} at offset ${reader.offset}`);
+  }
+}
+
+function readStruct(reader: ThriftReader): ThriftRecord {
+  const record: ThriftRecord = {};
+  let lastId = 0;
+  for (;;) {
+    const header = reader.byte();
+    if (header === 0) return record;
+    const delta = header >> 4;
+    const id = delta === 0 ? Number(reader.zigzag()) : lastId + delta;
+    record[id] = readValue(reader, header & 0x0f);
+    lastId = id;
+  }
+}
+
+/**
+ * Decode a struct serialized in the compact protocol. Fields of every
+ * type are kept, by ID, whether or not the caller knows them.
+ *
+ * @param bytes - The encoded struct
+ * @returns The struct's fields
+ * @throws Error if the bytes end before the struct does
+ */
+export function decodeStruct(bytes: Uint8Array): ThriftRecord {
+  return readStruct(new ThriftReader(bytes));
+}
@@ -0,0 +1,460 @@
+/**
+ * Iceberg Partition Transforms
+ *
+ * Applies partition transforms (`identity`, `year`, `month`, `day`,
+ * `hour`, `bucket[N]`, `truncate[W]` and `void`) to column values, hashes
+ * values for buckets with 32-bit Murmur3 as the spec requires, and
+ * serializes values as they are stored in manifest bounds and, as JSON,
+ * in column defaults.
+ *
+ * Values are handled in a canonical form: `int` and `date` (epoch days)
+ * as numbers, `long`, `time` and timestamps (microseconds) as bigints,
+ * decimals as their unscaled bigint, `uuid`, `fixed` and `binary` as
+ * bytes, and strings, booleans and floating-point numbers as themselves.
+ *
+ * @see https://iceberg.apache.org/spec/#partition-transforms
+ * @see https://iceberg.apache.org/spec/#appendix-d-single-value-serialization
+ * @see https://iceberg.apache.org/spec/#json-single-value-serialization
+ *
+ * @packageDocumentation
+ */
+
+import { hexToBytes, twosComplement, unscaledDecimal } from './parquet-writer.js';
+import { parseIcebergTransform } from './spec.js';
+import { ByteWriter, encodeUtf8 } from './thrift.js';
+import type { IcebergType } from './types.js';
+
+const MS_PER_DAY = 86_400_000;
+const MICROS_PER_HOUR = 3_600_000_000n;
+const MICROS_PER_DAY = 86_400_000_000n;
+
+// =============================================================================
+// Canonical Values
+// =============================================================================
+
+function floorDiv(value: bigint, divisor: bigint): bigint {
+  const quotient = value / divisor;
+  return value % divisor !== 0n && value < 0n ? quotient - 1n : quotient;
+}
+
+function toBigInt(value: unknown): bigint {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') return BigInt(Math.trunc(value));
+  return BigInt(String(value));
+}
+
+/** Microseconds of an ISO time (`09:30:00.5`) or timestamp; timestamps without a zone are UTC */
+function parseIsoMicros(type: IcebergType, text: string): bigint {
+  if (type.type === 'time') {
+    const match = /^(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,9}))?)?$/.exec(text);
+    if (!match) throw new Error(`Invalid time value: ${text}`);
+    const [, hours, minutes, seconds, fraction = ''] = match;
+    const wholeSeconds = Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds ?? 0);
+    return BigInt(wholeSeconds) * 1_000_000n + BigInt(fraction.slice(0, 6).padEnd(6, '0'));
+  }
+  // Date.parse keeps milliseconds only, so finer digits are added separately
+  const match = /^(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2})?)(?:\.(\d+))?(Z|[+-]\d{2}:?\d{2})?$/i.exec(text);
+  const millis = Date.parse(match ? `${match[1]}${match[3] ?? 'Z'}` : text);
+  if (Number.isNaN(millis)) throw new Error(`Invalid ${type.type} value: ${text}`);
+  return BigInt(millis) * 1000n + BigInt((match?.[2] ?? '').slice(0, 6).padEnd(6, '0'));
+}
+
+/**
+ * Convert a value, as produced by `documentToParquetRow` for the column's
+ * Parquet field, to the canonical form of its Iceberg type. Dates, times
+ * and timestamps may also be given as ISO strings.
+ *
+ * @param type - The Iceberg type of the column
+ * @param value - The converted value
+ * @returns The canonical value, or null
+ * @throws Error if the value cannot represent the type
+ */
+export function toIcebergValue(type: IcebergType, value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+
+  switch (type.type) {
+    case 'int':
+      return Number(value);
+    case 'date': {
+      if (typeof value !== 'string' || /^-?\d+$/.test(value)) return Number(value);
+      const millis = Date.parse(value.slice(0, 10));
+      if (Number.isNaN(millis)) throw new Error(`Invalid date value: ${value}`);
+      return millis / MS_PER_DAY;
+    }
+    case 'long':
+      return toBigInt(value);
+    case 'time':
+    case 'timestamp':
+    case 'timestamptz':
+      return typeof value === 'string' && !/^-?\d+$/.test(value) ? parseIsoMicros(type, value) : toBigInt(value);
+    case 'decimal': {
+      const unscaled = unscaledDecimal(value, type.scale ?? 0);
+      if (unscaled === undefined) throw new Error(`Invalid decimal value: ${String(value)}`);
+      return unscaled;
+    }
+    case 'uuid':
+    case 'fixed':
+    case 'binary': {
+      if (value instanceof Uint8Array) return value;
+      const length = type.type === 'uuid' ? 16 : type.length;
+      const bytes = length === undefined ? encodeUtf8(String(value)) : hexToBytes(String(value), length);
+      if (!bytes) throw new Error(`Invalid ${type.type} value: ${String(value)}`);
+      return bytes;
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Compare two canonical values of the same type: numerically, strings and
+ * bytes by their unsigned bytes, and false before true.
+ */
+export function compareIcebergValues(a: unknown, b: unknown): number {
+  if ((typeof a === 'number' || typeof a === 'bigint') && (typeof b === 'number' || typeof b === 'bigint')) {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  if (typeof a === 'boolean' && typeof b === 'boolean') {
+    return Number(a) - Number(b);
+  }
+  const left = typeof a === 'string' ? encodeUtf8(a) : (a as Uint8Array);
+  const right = typeof b === 'string' ? encodeUtf8(b) : (b as Uint8Array);
+  const length = Math.min(left.length, right.length);
+  for (let i = 0; i < length; i++) {
+    if (left[i] !== right[i]) return left[i]! - right[i]!;
+  }
+  return left.length - right.length;
+}
+
+/**
+ * Serialize a canonical value with Iceberg's single-value serialization,
+ * as used for lower and upper bounds in manifests.
+ */
+export function serializeIcebergValue(type: IcebergType, value: unknown): Uint8Array {
+  const out = new ByteWriter();
+  switch (type.type) {
+    case 'boolean':
+      out.byte(value ? 1 : 0);
+      break;
+    case 'int':
+    case 'date':
+      out.int32(value as number);
+      break;
+    case 'long':
+    case 'time':
+    case 'timestamp':
+    case 'timestamptz':
+      out.int64(value as bigint);
+      break;
+    case 'float':
+      out.float(value as number);
+      break;
+    case 'double':
+      out.double(value as number);
+      break;
+    case 'string':
+      return encodeUtf8(value as string);
+    case 'decimal':
+      return twosComplement(value as bigint);
+    case 'uuid':
+    case 'fixed':
+    case 'binary':
+      return value as Uint8Array;
+    default:
+      throw new Error(`Cannot serialize a value of Iceberg type ${type.type}`);
+  }
+  return out.toBytes();
+}
+
+/**
+ * Serialize a canonical value with Iceberg's JSON single-value
+ * serialization, as used for column defaults: decimals as strings at the
+ * type's scale, dates, times and timestamps in ISO form, and `uuid`,
+ * `fixed` and `binary` values as strings.
+ */
+export function serializeIcebergJsonValue(type: IcebergType, value: unknown): unknown {
+  switch (type.type) {
+    case 'boolean':
+      return value;
+    case 'int':
+    case 'long':
+    case 'float':
+    case 'double':
+      return Number(value);
+    case 'date':
+      return isoDate(value as number);
+    case 'time': {
+      const micros = value as bigint;
+      const seconds = Number(micros / 1_000_000n);
+      return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}.${pad(String(micros % 1_000_000n), 6)}`;
+    }
+    case 'timestamp':
+    case 'timestamptz': {
+      const micros = value as bigint;
+      const text = `${new Date(Number(floorDiv(micros, 1000n))).toISOString().slice(0, 23)}${pad(String(((micros % 1000n) + 1000n) % 1000n), 3)}`;
+      return type.type === 'timestamptz' ? `${text}+00:00` : text;
+    }
+    case 'string':
+      return String(value);
+    case 'decimal':
+      return decimalText(value as bigint, type.scale ?? 0);
+    case 'uuid':
+      return uuidText(value as Uint8Array);
+    case 'fixed':
+    case 'binary':
+      return [...(value as Uint8Array)].map((byte) => pad(byte.toString(16))).join('');
+    default:
+      throw new Error(`Cannot serialize a value of Iceberg type ${type.type}`);
+  }
+}
+
+// =============================================================================
+// Bucket Hashing
+// =============================================================================
+
+/**
+ * 32-bit Murmur3 (x86 variant, seed 0), as a signed integer.
+ */
+export function murmur3Hash(bytes: Uint8Array): number {
+  const c1 = 0xcc9e2d51;
+  const c2 = 0x1b873593;
+  let h = 0;
+  const blocks = bytes.length >>> 2;
+
+  for (let i = 0; i < blocks; i++) {
+    const offset = i * 4;
+    let k = bytes[offset]! | (bytes[offset + 1]! << 8) | (bytes[offset + 2]! << 16) | (bytes[offset + 3]! << 24);
+    k = Math.imul(k, c1);
+    k = (k << 15) | (k >>> 17);
+    k = Math.imul(k, c2);
+    h ^= k;
+    h = (h << 13) | (h >>> 19);
+    h = (Math.imul(h, 5) + 0xe6546b64) | 0;
+  }
+
+  const tail = blocks * 4;
+  let k = 0;
+  switch (bytes.length & 3) {
+    case 3:
+      k ^= bytes[tail + 2]! << 16;
+    // falls through
+    case 2:
+      k ^= bytes[tail + 1]! << 8;
+    // falls through
+    case 1:
+      k ^= bytes[tail]!;
+      k = Math.imul(k, c1);
+      k = (k << 15) | (k >>> 17);
+      k = Math.imul(k, c2);
+      h ^= k;
+  }
+
+  h ^= bytes.length;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h | 0;
+}
+
+/**
+ * Hash a canonical value the way the `bucket` transform does: integers,
+ * dates, times and timestamps as 8-byte little-endian longs, strings as
+ * UTF-8, decimals as their minimal two's complement unscaled bytes.
+ *
+ * @throws Error for types that cannot be bucketed (boolean, float, double)
+ */
+export function icebergBucketHash(type: IcebergType, value: unknown): number {
+  switch (type.type) {
+    case 'int':
+    case 'long':
+    case 'date':
+    case 'time':
+    case 'timestamp':
+    case 'timestamptz': {
+      const out = new ByteWriter();
+      out.int64(toBigInt(value));
+      return murmur3Hash(out.toBytes());
+    }
+    case 'string':
+      return murmur3Hash(encodeUtf8(value as string));
+    case 'decimal':
+      return murmur3Hash(twosComplement(value as bigint));
+    case 'uuid':
+    case 'fixed':
+    case 'binary':
+      return murmur3Hash(value as Uint8Array);
+    default:
+      throw new Error(`Cannot bucket values of Iceberg type ${type.type}`);
+  }
+}
+
+// =============================================================================
+// Transforms
+// =============================================================================
+
+function isTimestampType(type: IcebergType): boolean {
+  return type.type === 'timestamp' || type.type === 'timestamptz';
+}
+
+/** Epoch days of a date (days) or timestamp (microseconds) */
+function epochDays(type: IcebergType, value: unknown): number {
+  return isTimestampType(type) ? Number(floorDiv(value as bigint, MICROS_PER_DAY)) : (value as number);
+}
+
+function unsupported(transform: string, type: IcebergType): Error {
+  return new Error(`Cannot apply partition transform '${transform}' to Iceberg type ${type.type}`);
+}
+
+/**
+ * The type of a transform's result for a source column type.
+ *
+ * @throws Error if the transform does not apply to the type
+ */
+export function icebergTransformResultType(transform: string, sourceType: IcebergType): IcebergType {
+  const { name } = parseIcebergTransform(transform);
+  switch (name) {
+    case 'identity':
+    case 'truncate':
+    case 'void':
+      return sourceType;
+    case 'bucket':
+    case 'year':
+    case 'month':
+    case 'hour':
+      return { type: 'int' };
+    case 'day':
+      return { type: 'date' };
+    default:
+      throw unsupported(transform, sourceType);
+  }
+}
+
+/**
+ * Apply a partition transform to a canonical value.
+ *
+ * @param transform - The transform, e.g. `day` or `bucket[16]`
+ * @param sourceType - The Iceberg type of the source column
+ * @param value - The canonical value of the source column
+ * @returns The canonical partition value; null for null values and `void`
+ * @throws Error if the transform does not apply to the type
+ */
+export function applyIcebergTransform(transform: string, sourceType: IcebergType, value: unknown): unknown {
+  const { name, arg } = parseIcebergTransform(transform);
+  if (value === null || value === undefined || name === 'void') return null;
+
+  const temporal = sourceType.type === 'date' || isTimestampType(sourceType);
+  switch (name) {
+    case 'identity':
+      return value;
+    case 'year':
+    case 'month': {
+      if (!temporal) throw unsupported(transform, sourceType);
+      const date = new Date(epochDays(sourceType, value) * MS_PER_DAY);
+      const years = date.getUTCFullYear() - 1970;
+      return name === 'year' ? years : years * 12 + date.getUTCMonth();
+    }
+    case 'day':
+      if (!temporal) throw unsupported(transform, sourceType);
+      return epochDays(sourceType, value);
+    case 'hour':
+      if (!isTimestampType(sourceType)) throw unsupported(transform, sourceType);
+      return Number(floorDiv(value as bigint, MICROS_PER_HOUR));
+    case 'bucket':
+      return (icebergBucketHash(sourceType, value) & 0x7fffffff) % arg!;
+    case 'truncate': {
+      const width = arg!;
+      switch (sourceType.type) {
+        case 'int':
+          return (value as number) - ((((value as number) % width) + width) % width);
+        case 'long':
+        case 'decimal': {
+          const w = BigInt(width);
+          return (value as bigint) - ((((value as bigint) % w) + w) % w);
+        }
+        case 'string':
+          return [...(value as string)].slice(0, width).join('');
+        case 'binary':
+          return (value as Uint8Array).slice(0, width);
+        default:
+          throw unsupported(transform, sourceType);
+      }
+    }
+    default:
+      throw unsupported(transform, sourceType);
+  }
+}
+
+// =============================================================================
+// Partition Paths
+// =============================================================================
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function base64(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i]! << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    text += BASE64[chunk >> 18]! + BASE64[(chunk >> 12) & 63]!;
+    text += i + 1 < bytes.length ? BASE64[(chunk >> 6) & 63]! : '=';
+    text += i + 2 < bytes.length ? BASE64[chunk & 63]! : '=';
+  }
+  return text;
+}
+
+function pad(value: number | string, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+function isoDate(days: number): string {
+  return new Date(days * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+function uuidText(bytes: Uint8Array): string {
+  const hex = [...bytes].map((byte) => pad(byte.toString(16))).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function decimalText(unscaled: bigint, scale: number): string {
+  const digits = (unscaled < 0n ? -unscaled : unscaled).toString().padStart(scale + 1, '0');
+  const text = scale === 0 ? digits : `${digits.slice(0, -scale)}.${digits.slice(-scale)}`;
+  return unscaled < 0n ? `-${text}` : text;
+}
+
+/**
+ * Format a partition value the way Iceberg names partition directories:
+ * dates as `2024-03-01`, months as `2024-03`, hours as `2024-03-01-09`,
+ * years as `2024`, bytes in base64 and missing values as `null`.
+ */
+export function formatIcebergPartitionValue(transform: string, resultType: IcebergType, value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  const { name } = parseIcebergTransform(transform);
+  switch (name) {
+    case 'year':
+      return String(1970 + (value as number));
+    case 'month':
+      return `${1970 + Math.floor((value as number) / 12)}-${pad((((value as number) % 12) + 12) % 12 + 1)}`;
+    case 'hour': {
+      const date = new Date((value as number) * 3_600_000);
+      return `${date.toISOString().slice(0, 10)}-${pad(date.getUTCHours())}`;
+    }
+  }
+
+  switch (resultType.type) {
+    case 'date':
+      return isoDate(value as number);
+    case 'timestamp':
+    case 'timestamptz':
+      return new Date(Number(floorDiv(value as bigint, 1000n))).toISOString();
+    case 'uuid':
+      return uuidText(value as Uint8Array);
+    case 'fixed':
+    case 'binary':
+      return base64(value as Uint8Array);
+    case 'decimal':
+      return decimalText(value as bigint, resultType.scale ?? 0);
+    default:
+      return String(value);
+  }
+}
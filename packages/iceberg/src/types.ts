@@ -26,7 +26,11 @@ export type IcebergPrimitiveType =
   | 'string'
   | 'uuid'
   | 'fixed'
-  | 'binary';
+  | 'binary'
+  | 'variant';
+
+/** Iceberg table format version */
+export type IcebergFormatVersion = 1 | 2 | 3;
 
 /** Iceberg type definition */
 export interface IcebergType {
@@ -38,6 +42,16 @@ export interface IcebergType {
   keyType?: IcebergType;
   valueType?: IcebergType;
   fields?: IcebergField[];
+  /** Field ID of a list's element, when read from existing metadata */
+  elementId?: number;
+  /** Whether a list's elements are required, when read from existing metadata */
+  elementRequired?: boolean;
+  /** Field ID of a map's keys, when read from existing metadata */
+  keyId?: number;
+  /** Field ID of a map's values, when read from existing metadata */
+  valueId?: number;
+  /** Whether a map's values are required, when read from existing metadata */
+  valueRequired?: boolean;
 }
 
 /** Iceberg field definition */
@@ -47,7 +61,9 @@ export interface IcebergField {
   required: boolean;
   type: IcebergType;
   doc?: string;
+  /** Value of the column for rows written before it was added (format v3) */
   initialDefault?: unknown;
+  /** Value written when a writer does not supply one (format v3) */
   writeDefault?: unknown;
 }
 
@@ -64,7 +80,17 @@ export interface IcebergPartitionField {
   sourceId: number;
   fieldId: number;
   name: string;
-  transform: 'identity' | 'bucket' | 'truncate' | 'year' | 'month' | 'day' | 'hour' | 'void';
+  /** Transform in Iceberg's notation, e.g. `day` or `bucket[16]` */
+  transform:
+    | 'identity'
+    | 'year'
+    | 'month'
+    | 'day'
+    | 'hour'
+    | 'void'
+    | `bucket[${number}]`
+    | `truncate[${number}]`;
+  /** Bucket count for `bucket`, width for `truncate` */
   transformArg?: number;
 }
 
@@ -90,7 +116,7 @@ export interface IcebergSortOrder {
 
 /** Iceberg table metadata */
 export interface IcebergTableMetadata {
-  formatVersion: 1 | 2;
+  formatVersion: IcebergFormatVersion;
   tableUuid: string;
   location: string;
   lastSequenceNumber: number;
@@ -108,6 +134,13 @@ export interface IcebergTableMetadata {
   snapshots?: IcebergSnapshot[];
   snapshotLog?: IcebergSnapshotRef[];
   refs?: Record<string, IcebergSnapshotRef>;
+  metadataLog?: IcebergMetadataLogEntry[];
+}
+
+/** Iceberg metadata log entry, recording a previous metadata file */
+export interface IcebergMetadataLogEntry {
+  timestampMs: number;
+  metadataFile: string;
 }
 
 /** Iceberg snapshot */
@@ -182,6 +215,8 @@ export interface ParquetLogicalType {
   scale?: number;
   isAdjustedToUTC?: boolean;
   unit?: 'MILLIS' | 'MICROS' | 'NANOS';
+  /** Signedness of an INTEGER type, whose bit width is its precision */
+  isSigned?: boolean;
 }
 
 /** Parquet field/column definition */
@@ -311,6 +311,32 @@ describe('IcebergAdapter.transform()', () => {
       expect(result.properties['commit.retry.num-retries']).toBe('4');
     });
 
+    it('should accept format version, identifier field and write options', () => {
+      const schema = createSimpleSchema();
+      const result = adapter.transform(schema, {
+        location: 's3://test/table',
+        tableUuid: '12345678-1234-1234-1234-123456789012',
+        formatVersion: 3,
+        identifierFields: ['id'],
+        compressionCodec: 'zstd',
+      });
+
+      expect(result.formatVersion).toBe(3);
+      expect(result.tableUuid).toBe('12345678-1234-1234-1234-123456789012');
+      expect(result.schemas[0]!.identifierFieldIds).toEqual([
+        result.schemas[0]!.fields.find((f) => f.name === 'id')!.id,
+      ]);
+      expect(result.properties['write.parquet.compression-codec']).toBe('zstd');
+    });
+
+    it('should throw AdapterError for an unsupported format version', () => {
+      const schema = createSimpleSchema();
+      const options = { location: 's3://test/table', formatVersion: 4 as 3 };
+
+      expect(() => adapter.transform(schema, options)).toThrow(AdapterError);
+      expect(() => adapter.transform(schema, options)).toThrow(/Unsupported Iceberg format version: 4/);
+    });
+
     it('should handle partitioned schema', () => {
       const schema = createPartitionedSchema();
       const result = adapter.transform(schema, {
@@ -0,0 +1,135 @@
+/**
+ * Tests for the Avro object container file encoder and decoder
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { decodeAvroContainer, encodeAvroContainer, type AvroType } from '../src/avro.js';
+import { encodeUtf8 } from '../src/thrift.js';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const ENTRY_SCHEMA: AvroType = {
+  type: 'record',
+  name: 'entry',
+  fields: [
+    { name: 'id', type: 'int', 'field-id': 1 },
+    { name: 'size', type: 'long', 'field-id': 2 },
+    { name: 'path', type: 'string', 'field-id': 3 },
+    { name: 'parent', type: ['null', 'long'], default: null, 'field-id': 4 },
+    { name: 'score', type: 'double' },
+    { name: 'ratio', type: 'float' },
+    { name: 'live', type: 'boolean' },
+    { name: 'payload', type: 'bytes' },
+    { name: 'digest', type: { type: 'fixed', name: 'md5', size: 4 } },
+    { name: 'tags', type: { type: 'array', items: 'string' } },
+    { name: 'labels', type: { type: 'map', values: 'int' } },
+    // A named type used a second time by name
+    { name: 'previous', type: ['null', 'md5'], default: null },
+  ],
+};
+
+function createEntry(i: number): Record<string, unknown> {
+  return {
+    id: i,
+    size: i === 0 ? 2n ** 62n : -i * 1000,
+    path: `s3://bucket/data/${i}.parquet`,
+    parent: i % 2 === 0 ? null : i - 1,
+    score: i / 3,
+    ratio: 0.5,
+    live: i % 2 === 0,
+    payload: new Uint8Array([i, 255]),
+    digest: new Uint8Array([1, 2, 3, i]),
+    tags: i === 0 ? [] : ['a', 'é'],
+    labels: { x: i, y: -1 },
+    previous: i === 0 ? null : new Uint8Array([9, 9, 9, 9]),
+  };
+}
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+describe('encodeAvroContainer()', () => {
+  it('should start with the magic bytes and carry the schema and metadata', () => {
+    const bytes = encodeAvroContainer(ENTRY_SCHEMA, [], { 'format-version': '2' });
+
+    expect([...bytes.subarray(0, 4)]).toEqual([0x4f, 0x62, 0x6a, 0x01]);
+    const { schema, metadata, records } = decodeAvroContainer(bytes);
+    expect(schema).toEqual(ENTRY_SCHEMA);
+    expect(metadata).toEqual({ 'format-version': '2' });
+    expect(records).toEqual([]);
+  });
+
+  it('should write longs as zigzag varints', () => {
+    const schema: AvroType = { type: 'record', name: 'r', fields: [{ name: 'v', type: 'long' }] };
+    const bytes = encodeAvroContainer(schema, [{ v: -1 }, { v: 64 }]);
+
+    // Block: count 2 (0x04), size 3 (0x06), then -1 (0x01) and 64 (0x80 0x01)
+    const sync = bytes.subarray(bytes.length - 16);
+    const block = bytes.subarray(bytes.length - 16 - 5, bytes.length - 16);
+    expect([...block]).toEqual([0x04, 0x06, 0x01, 0x80, 0x01]);
+    expect(bytes.subarray(bytes.length - 32 - 5, bytes.length - 16 - 5)).toEqual(sync);
+  });
+
+  it('should be deterministic', () => {
+    const records = [createEntry(1)];
+    expect(encodeAvroContainer(ENTRY_SCHEMA, records)).toEqual(encodeAvroContainer(ENTRY_SCHEMA, records));
+  });
+
+  it('should reject values that match no union branch', () => {
+    expect(() => encodeAvroContainer(ENTRY_SCHEMA, [{ ...createEntry(1), parent: 'one' }])).toThrow(
+      'matches no branch of Avro union'
+    );
+  });
+});
+
+// =============================================================================
+// Decoding
+// =============================================================================
+
+describe('decodeAvroContainer()', () => {
+  it('should round-trip records of every type', () => {
+    const records = [0, 1, 2, 3].map(createEntry);
+    const decoded = decodeAvroContainer(encodeAvroContainer(ENTRY_SCHEMA, records)).records;
+
+    expect(decoded).toEqual(
+      records.map((record) => ({
+        ...record,
+        // Floats are single precision; longs beyond 2^53 stay bigints
+        ratio: 0.5,
+      }))
+    );
+    expect((decoded[0] as { size: unknown }).size).toBe(2n ** 62n);
+    expect((decoded[3] as { size: unknown }).size).toBe(-3000);
+  });
+
+  it('should read UTF-8 strings and map keys', () => {
+    const [record] = decodeAvroContainer(encodeAvroContainer(ENTRY_SCHEMA, [createEntry(1)])).records as Array<
+      Record<string, unknown>
+    >;
+
+    expect(record!.tags).toEqual(['a', 'é']);
+    expect(record!.labels).toEqual({ x: 1, y: -1 });
+  });
+
+  it('should reject files that are not object container files', () => {
+    expect(() => decodeAvroContainer(encodeUtf8('PAR1'))).toThrow('not an object container file');
+  });
+
+  it('should reject compressed files', () => {
+    const bytes = encodeAvroContainer(ENTRY_SCHEMA, []);
+    const text = new TextDecoder('latin1').decode(bytes).replace('\x08null', '\x0edeflate');
+    const patched = Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+    expect(() => decodeAvroContainer(patched)).toThrow("Unsupported Avro codec 'deflate'");
+  });
+
+  it('should reject truncated files', () => {
+    const bytes = encodeAvroContainer(ENTRY_SCHEMA, [createEntry(1)]);
+    expect(() => decodeAvroContainer(bytes.subarray(0, bytes.length - 20))).toThrow('Invalid Avro data');
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for the Snappy and Zstandard compressors
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { snappyCompress, snappyUncompress, zstdCompress } from '../src/compression.js';
+import { encodeUtf8 } from '../src/thrift.js';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+/**
+ * Pseudo-random bytes, which do not compress
+ */
+function randomBytes(length: number, seed = 7): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    bytes[i] = state >>> 16;
+  }
+  return bytes;
+}
+
+function repetitiveBytes(length: number): Uint8Array {
+  return encodeUtf8('the quick brown fox jumps over the lazy dog. '.repeat(Math.ceil(length / 45))).slice(0, length);
+}
+
+// =============================================================================
+// Snappy
+// =============================================================================
+
+describe('snappyCompress()', () => {
+  it('should round-trip repetitive data and shrink it', () => {
+    const input = repetitiveBytes(100_000);
+    const compressed = snappyCompress(input);
+
+    expect(compressed.length).toBeLessThan(input.length / 10);
+    expect(snappyUncompress(compressed)).toEqual(input);
+  });
+
+  it('should round-trip incompressible data', () => {
+    const input = randomBytes(70_000);
+    expect(snappyUncompress(snappyCompress(input))).toEqual(input);
+  });
+
+  it('should round-trip empty and tiny inputs', () => {
+    for (const input of [new Uint8Array(0), new Uint8Array([1]), encodeUtf8('abcabcabcabc')]) {
+      expect(snappyUncompress(snappyCompress(input))).toEqual(input);
+    }
+  });
+
+  it('should start with the uncompressed length as a varint', () => {
+    const compressed = snappyCompress(new Uint8Array(300));
+    expect([...compressed.subarray(0, 2)]).toEqual([0xac, 0x02]);
+  });
+
+  it('should reject truncated input', () => {
+    const compressed = snappyCompress(repetitiveBytes(1000));
+    expect(() => snappyUncompress(compressed.subarray(0, compressed.length - 3))).toThrow();
+  });
+});
+
+// =============================================================================
+// Zstandard
+// =============================================================================
+
+describe('zstdCompress()', () => {
+  it('should write a Zstandard frame', () => {
+    const compressed = zstdCompress(repetitiveBytes(1000));
+    expect([...compressed.subarray(0, 4)]).toEqual([0x28, 0xb5, 0x2f, 0xfd]);
+  });
+
+  it('should shrink repetitive data', () => {
+    const input = repetitiveBytes(300_000);
+    expect(zstdCompress(input).length).toBeLessThan(input.length / 10);
+  });
+
+  it('should store incompressible data in raw blocks', () => {
+    const input = randomBytes(1000);
+    const compressed = zstdCompress(input);
+
+    // Magic, header and block header add a few bytes; the content follows verbatim
+    expect(compressed.length).toBeLessThan(input.length + 16);
+    expect(compressed.subarray(compressed.length - input.length)).toEqual(input);
+  });
+
+  it('should compress an empty input', () => {
+    expect(zstdCompress(new Uint8Array(0)).length).toBeGreaterThan(4);
+  });
+});
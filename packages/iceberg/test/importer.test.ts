@@ -0,0 +1,314 @@
+/**
+ * Tests for importing Iceberg table metadata into IceType schemas
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSchema } from '@icetype/core';
+import { importIcebergMetadata } from '../src/importer.js';
+import { generateIcebergMetadata, parseIcebergMetadata } from '../src/metadata.js';
+import { writeIcebergSpecMetadata } from '../src/spec.js';
+import type { IcebergTableMetadata } from '../src/types.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+/** v2 metadata as written by Spark */
+const SPARK_V2_METADATA = {
+  'format-version': 2,
+  'table-uuid': '9c12d441-03fe-4693-9a96-a0705ddf69c1',
+  location: 's3://warehouse/db/page_views',
+  'last-sequence-number': 3,
+  'last-updated-ms': 1700000000000,
+  'last-column-id': 15,
+  'current-schema-id': 1,
+  schemas: [
+    {
+      type: 'struct',
+      'schema-id': 0,
+      fields: [{ id: 1, name: 'id', required: true, type: 'long' }],
+    },
+    {
+      type: 'struct',
+      'schema-id': 1,
+      'identifier-field-ids': [1],
+      fields: [
+        { id: 1, name: 'id', required: true, type: 'long' },
+        { id: 2, name: 'ts', required: true, type: 'timestamptz' },
+        { id: 3, name: 'amount', required: false, type: 'decimal(10, 2)' },
+        { id: 4, name: 'hash', required: false, type: 'fixed[16]' },
+        {
+          id: 5,
+          name: 'location',
+          required: false,
+          type: {
+            type: 'struct',
+            fields: [
+              { id: 6, name: 'city', required: true, type: 'string' },
+              { id: 7, name: 'lat', required: false, type: 'double' },
+            ],
+          },
+        },
+        {
+          id: 8,
+          name: 'tags',
+          required: false,
+          type: { type: 'list', 'element-id': 9, element: 'string', 'element-required': true },
+        },
+        {
+          id: 10,
+          name: 'counters',
+          required: false,
+          type: { type: 'map', 'key-id': 11, key: 'string', 'value-id': 12, value: 'long', 'value-required': false },
+        },
+        {
+          id: 13,
+          name: 'matrix',
+          required: false,
+          type: {
+            type: 'list',
+            'element-id': 14,
+            element: { type: 'list', 'element-id': 15, element: 'int', 'element-required': true },
+            'element-required': true,
+          },
+        },
+      ],
+    },
+  ],
+  'default-spec-id': 1,
+  'partition-specs': [
+    { 'spec-id': 0, fields: [] },
+    {
+      'spec-id': 1,
+      fields: [
+        { name: 'ts_day', transform: 'day', 'source-id': 2, 'field-id': 1000 },
+        { name: 'id_bucket', transform: 'bucket[16]', 'source-id': 1, 'field-id': 1001 },
+        { name: 'city', transform: 'identity', 'source-id': 6, 'field-id': 1002 },
+      ],
+    },
+  ],
+  'last-partition-id': 1002,
+  'default-sort-order-id': 1,
+  'sort-orders': [
+    { 'order-id': 0, fields: [] },
+    {
+      'order-id': 1,
+      fields: [
+        { transform: 'identity', 'source-id': 2, direction: 'desc', 'null-order': 'nulls-last' },
+        { transform: 'truncate[4]', 'source-id': 1, direction: 'asc', 'null-order': 'nulls-first' },
+      ],
+    },
+  ],
+  properties: { 'write.format.default': 'parquet' },
+  'current-snapshot-id': 42,
+  snapshots: [
+    {
+      'snapshot-id': 42,
+      'sequence-number': 3,
+      'timestamp-ms': 1700000000000,
+      'manifest-list': 's3://warehouse/db/page_views/metadata/snap-42.avro',
+      summary: { operation: 'append' },
+      'schema-id': 1,
+    },
+  ],
+  refs: { main: { 'snapshot-id': 42, type: 'branch' } },
+  'metadata-log': [{ 'timestamp-ms': 1690000000000, 'metadata-file': 's3://warehouse/db/page_views/metadata/v1.metadata.json' }],
+};
+
+/** v1 metadata with a single schema and partition spec */
+const V1_METADATA = {
+  'format-version': 1,
+  location: 's3://warehouse/db/orders',
+  'last-updated-ms': 1600000000000,
+  'last-column-id': 3,
+  schema: {
+    type: 'struct',
+    fields: [
+      { id: 1, name: 'order_id', required: true, type: 'string' },
+      { id: 2, name: 'placed_at', required: false, type: 'timestamp' },
+      { id: 3, name: 'status', required: false, type: 'string', 'initial-default': 'new' },
+    ],
+  },
+  'partition-spec': [{ name: 'placed_at_month', transform: 'month', 'source-id': 2 }],
+  properties: {},
+};
+
+// =============================================================================
+// Reading Spec Metadata
+// =============================================================================
+
+describe('parseIcebergMetadata() with spec metadata', () => {
+  it('should read v2 metadata, keeping nested field IDs and history', () => {
+    const metadata = parseIcebergMetadata(JSON.stringify(SPARK_V2_METADATA));
+
+    expect(metadata.schemas).toHaveLength(2);
+    expect(metadata.currentSchemaId).toBe(1);
+    expect(metadata.schemas[1]!.identifierFieldIds).toEqual([1]);
+    const fields = metadata.schemas[1]!.fields;
+    expect(fields.find((f) => f.name === 'amount')!.type).toEqual({ type: 'decimal', precision: 10, scale: 2 });
+    expect(fields.find((f) => f.name === 'counters')!.type).toEqual({
+      type: 'map',
+      keyType: { type: 'string' },
+      valueType: { type: 'long' },
+      keyId: 11,
+      valueId: 12,
+      valueRequired: false,
+    });
+    expect(metadata.partitionSpecs[1]!.fields[1]).toEqual({
+      sourceId: 1,
+      fieldId: 1001,
+      name: 'id_bucket',
+      transform: 'bucket[16]',
+      transformArg: 16,
+    });
+    expect(metadata.sortOrders[1]!.fields[0]).toEqual({
+      transform: 'identity',
+      sourceId: 2,
+      direction: 'desc',
+      nullOrder: 'nulls-last',
+    });
+    expect(metadata.currentSnapshotId).toBe(42);
+    expect(metadata.refs?.main).toEqual({ snapshotId: 42, type: 'branch', timestampMs: 1700000000000 });
+    expect(metadata.metadataLog).toHaveLength(1);
+  });
+
+  it('should upgrade v1 metadata to lists of schemas, specs and sort orders', () => {
+    const metadata = parseIcebergMetadata(JSON.stringify(V1_METADATA));
+
+    expect(metadata.formatVersion).toBe(1);
+    expect(metadata.schemas.map((s) => s.schemaId)).toEqual([0]);
+    expect(metadata.partitionSpecs).toEqual([
+      { specId: 0, fields: [{ sourceId: 2, fieldId: 1000, name: 'placed_at_month', transform: 'month' }] },
+    ]);
+    expect(metadata.lastPartitionId).toBe(1000);
+    expect(metadata.sortOrders).toEqual([{ orderId: 0, fields: [] }]);
+  });
+
+  it('should reject unsupported format versions and types', () => {
+    expect(() => parseIcebergMetadata(JSON.stringify({ ...V1_METADATA, 'format-version': 9 }))).toThrow(
+      'Unsupported Iceberg format version: 9'
+    );
+    const schema = { type: 'struct', fields: [{ id: 1, name: 'payload', required: false, type: 'geometry' }] };
+    expect(() => parseIcebergMetadata(JSON.stringify({ ...V1_METADATA, schema }))).toThrow(
+      "Unsupported Iceberg type 'geometry' for schema 0.payload"
+    );
+  });
+
+  it('should write metadata back in the spec layout', () => {
+    const metadata = parseIcebergMetadata(JSON.stringify(SPARK_V2_METADATA));
+    const written = writeIcebergSpecMetadata(metadata);
+
+    expect(written['format-version']).toBe(2);
+    expect(written['current-snapshot-id']).toBe(42);
+    expect(written).not.toHaveProperty('schema');
+    expect(parseIcebergMetadata(JSON.stringify(written))).toMatchObject(metadata);
+  });
+
+  it('should write the legacy schema and partition spec for v1 metadata', () => {
+    const metadata = parseIcebergMetadata(JSON.stringify(V1_METADATA));
+    const written = writeIcebergSpecMetadata(metadata);
+
+    expect(written.schema).toEqual(written.schemas[0]);
+    expect(written['partition-spec']).toEqual([
+      { 'source-id': 2, 'field-id': 1000, name: 'placed_at_month', transform: 'month' },
+    ]);
+    expect(written).not.toHaveProperty('last-sequence-number');
+    expect(parseIcebergMetadata(JSON.stringify(written))).toMatchObject(metadata);
+  });
+});
+
+// =============================================================================
+// Import
+// =============================================================================
+
+describe('importIcebergMetadata()', () => {
+  it('should convert columns, nested types, partitioning and sorting', () => {
+    const { definition, schema, warnings } = importIcebergMetadata(JSON.stringify(SPARK_V2_METADATA));
+
+    expect(definition).toEqual({
+      $type: 'PageViews',
+      $partitionBy: ['day(ts)', 'bucket(16, id)'],
+      $orderBy: ['ts DESC', 'truncate(4, id) ASC'],
+      $structs: { Location: { city: 'string', lat: 'double?' } },
+      id: 'long!',
+      ts: 'timestamptz',
+      amount: 'decimal(10,2)?',
+      hash: 'fixed(16)?',
+      location: 'struct<Location>?',
+      tags: 'string[]?',
+      counters: 'map<string, long>?',
+      matrix: 'json?',
+    });
+    expect(schema.name).toBe('PageViews');
+    expect(schema.fields.get('location')!.structFields?.map((f) => f.name)).toEqual(['city', 'lat']);
+    expect(warnings).toEqual([
+      "Column 'matrix' has a nested list type IceType cannot represent; imported as json",
+      "Skipped partition field 'city': column 6 is not a top-level column of the current schema",
+    ]);
+  });
+
+  it('should import v1 metadata with defaults, using the given name', () => {
+    const { definition } = importIcebergMetadata(JSON.stringify(V1_METADATA), { name: 'Order' });
+
+    expect(definition).toEqual({
+      $type: 'Order',
+      $partitionBy: ['month(placed_at)'],
+      order_id: 'string',
+      placed_at: 'timestamp?',
+      status: "string? = 'new'",
+    });
+  });
+
+  it('should import v3 variant columns as json and keep column defaults', () => {
+    const v3 = {
+      ...V1_METADATA,
+      'format-version': 3,
+      schema: {
+        type: 'struct',
+        fields: [
+          { id: 1, name: 'order_id', required: true, type: 'string' },
+          { id: 2, name: 'attributes', required: false, type: 'variant' },
+          { id: 3, name: 'priority', required: true, type: 'int', 'initial-default': 0, 'write-default': 0 },
+        ],
+      },
+      'partition-spec': [],
+    };
+
+    const { definition } = importIcebergMetadata(JSON.stringify(v3), { name: 'Order' });
+
+    expect(definition).toEqual({ $type: 'Order', order_id: 'string', attributes: 'json?', priority: 'int = 0' });
+  });
+
+  it('should round-trip metadata generated from an IceType schema', () => {
+    const original = parseSchema({
+      $type: 'Shipment',
+      $partitionBy: ['createdAt', 'bucket(8, customerId)'],
+      $orderBy: ['createdAt DESC', 'customerId'],
+      $structs: { Address: { city: 'string', zip: 'string?' } },
+      customerId: 'uuid',
+      createdAt: 'timestamp',
+      weight: 'decimal(8,3)?',
+      attempts: 'int = 0',
+      address: 'struct<Address>',
+      stops: 'struct<Address>[]?',
+      labels: 'map<string, string>?',
+    });
+    const metadata = generateIcebergMetadata(original, 's3://bucket/shipments');
+
+    const imported = importIcebergMetadata(JSON.stringify(metadata));
+    const regenerated: IcebergTableMetadata = generateIcebergMetadata(imported.schema, 's3://bucket/shipments');
+
+    expect(imported.warnings).toEqual([]);
+    expect(imported.definition).toMatchObject({
+      $structs: { Address: { city: 'string', zip: 'string?' } },
+      address: 'struct<Address>',
+      stops: 'struct<Address>[]?',
+    });
+    expect(regenerated.schemas).toEqual(metadata.schemas);
+    expect(regenerated.partitionSpecs).toEqual(metadata.partitionSpecs);
+    expect(regenerated.sortOrders).toEqual(metadata.sortOrders);
+    expect(regenerated.properties).toEqual(metadata.properties);
+  });
+});
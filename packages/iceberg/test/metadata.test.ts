@@ -10,7 +10,9 @@ import {
   IcebergMetadataGenerator,
   createIcebergMetadataGenerator,
   generateIcebergMetadata,
+  evolveIcebergMetadata,
 } from '../src/metadata.js';
+import { writeIcebergSpecMetadata } from '../src/spec.js';
 import type { IcebergTableMetadata } from '../src/types.js';
 
 // =============================================================================
@@ -284,6 +286,60 @@ describe('IcebergMetadataGenerator', () => {
     });
   });
 
+  describe('Struct types', () => {
+    const createStructSchema = () =>
+      parseSchema({
+        $type: 'Customer',
+        $structs: {
+          Geo: { lat: 'double!', lng: 'double!' },
+          Address: { street: 'string!', city: 'string?', geo: 'struct<Geo>' },
+        },
+        address: 'struct<Address>',
+        previous: 'struct<Address>[]',
+      });
+
+    it('should map struct<Name> fields to nested Iceberg structs', () => {
+      const icebergSchema = generator.generateSchema(createStructSchema());
+
+      const addressField = icebergSchema.fields.find(f => f.name === 'address');
+      expect(addressField?.type.type).toBe('struct');
+      expect(addressField?.type.fields?.map(f => f.name)).toEqual(['street', 'city', 'geo']);
+      expect(addressField?.type.fields?.[1]?.required).toBe(false);
+
+      const geoField = addressField?.type.fields?.[2];
+      expect(geoField?.type.type).toBe('struct');
+      expect(geoField?.type.fields?.map(f => f.type.type)).toEqual(['double', 'double']);
+    });
+
+    it('should map struct arrays to lists of structs', () => {
+      const icebergSchema = generator.generateSchema(createStructSchema());
+
+      const previousField = icebergSchema.fields.find(f => f.name === 'previous');
+      expect(previousField?.type.type).toBe('list');
+      expect(previousField?.type.elementType?.type).toBe('struct');
+      expect(previousField?.type.elementType?.fields).toHaveLength(3);
+    });
+
+    it('should allocate unique field IDs to nested fields', () => {
+      const metadata = generator.generateTableMetadata(createStructSchema(), {
+        location: 's3://bucket/customers',
+      });
+
+      const ids: number[] = [];
+      const collect = (fields: IcebergTableMetadata['schemas'][number]['fields']) => {
+        for (const field of fields) {
+          ids.push(field.id);
+          const nested = field.type.fields ?? field.type.elementType?.fields;
+          if (nested) collect(nested);
+        }
+      };
+      collect(metadata.schemas[0]!.fields);
+
+      expect(new Set(ids).size).toBe(ids.length);
+      expect(metadata.lastColumnId).toBe(Math.max(...ids));
+    });
+  });
+
   describe('generatePartitionSpec()', () => {
     it('should generate partition spec from $partitionBy directive', () => {
       const schema = createPartitionedSchema();
@@ -312,6 +368,40 @@ describe('IcebergMetadataGenerator', () => {
       expect(createdAtPartition?.transform).toBe('day');
     });
 
+    it('should apply bucket, truncate and time transforms', () => {
+      const schema = parseSchema({
+        $type: 'Order',
+        $partitionBy: ['bucket(16, userId)', 'truncate(4, sku)', 'month(createdAt)', 'hour(ts)'],
+        userId: 'uuid!',
+        sku: 'string!',
+        createdAt: 'timestamp!',
+        ts: 'timestamptz!',
+      });
+      const icebergSchema = generator.generateSchema(schema);
+      const partitionSpec = generator.generatePartitionSpec(schema, icebergSchema);
+      const sourceId = (name: string) => icebergSchema.fields.find(f => f.name === name)?.id;
+
+      expect(partitionSpec.fields).toEqual([
+        { sourceId: sourceId('userId'), fieldId: 1000, name: 'userId_bucket', transform: 'bucket[16]', transformArg: 16 },
+        { sourceId: sourceId('sku'), fieldId: 1001, name: 'sku_trunc', transform: 'truncate[4]', transformArg: 4 },
+        { sourceId: sourceId('createdAt'), fieldId: 1002, name: 'createdAt_month', transform: 'month' },
+        { sourceId: sourceId('ts'), fieldId: 1003, name: 'ts_hour', transform: 'hour' },
+      ]);
+    });
+
+    it('should reject transforms that do not fit the source field type', () => {
+      const schema = parseSchema({
+        $type: 'Order',
+        $partitionBy: ['month(sku)'],
+        sku: 'string!',
+      });
+      const icebergSchema = generator.generateSchema(schema);
+
+      expect(() => generator.generatePartitionSpec(schema, icebergSchema)).toThrow(
+        "Cannot partition by 'month(sku)': field 'sku' is string"
+      );
+    });
+
     it('should default to $type partition when no partitionBy specified', () => {
       const schema = createSimpleSchema();
       const icebergSchema = generator.generateSchema(schema);
@@ -391,6 +481,27 @@ describe('IcebergMetadataGenerator', () => {
 
       expect(createdAtSort?.sourceId).toBe(createdAtField?.id);
     });
+
+    it('should use the $orderBy directive when present', () => {
+      const schema = parseSchema({
+        $type: 'Event',
+        $orderBy: ['day(createdAt) DESC', 'bucket(16, userId)', 'name NULLS LAST'],
+        userId: 'uuid!',
+        name: 'string',
+        createdAt: 'timestamp!',
+      });
+      const icebergSchema = generator.generateSchema(schema);
+      const fieldId = (name: string) => icebergSchema.fields.find(f => f.name === name)?.id;
+
+      expect(generator.generateSortOrder(schema, icebergSchema)).toEqual({
+        orderId: 1,
+        fields: [
+          { transform: 'day', sourceId: fieldId('createdAt'), direction: 'desc', nullOrder: 'nulls-last' },
+          { transform: 'bucket[16]', sourceId: fieldId('userId'), direction: 'asc', nullOrder: 'nulls-first' },
+          { transform: 'identity', sourceId: fieldId('name'), direction: 'asc', nullOrder: 'nulls-last' },
+        ],
+      });
+    });
   });
 
   describe('generateTableMetadata()', () => {
@@ -519,6 +630,31 @@ describe('IcebergMetadataGenerator', () => {
       expect(metadata.properties['write.parquet.compression-codec']).toBe('zstd');
     });
 
+    it('should record $ttl as table properties', () => {
+      const schema = parseSchema({
+        $type: 'Event',
+        $ttl: { field: 'createdAt', delete: '90d', moveToVolume: { cold: '12h' } },
+        createdAt: 'timestamp!',
+      });
+      const metadata = generator.generateTableMetadata(schema, {
+        location: 's3://bucket/tables/events',
+      });
+
+      expect(metadata.properties).toMatchObject({
+        'icetype.ttl.field': 'createdAt',
+        'icetype.ttl.delete-after': 'P90D',
+        'icetype.ttl.move-after.cold': 'PT12H',
+      });
+    });
+
+    it('should omit TTL properties without $ttl', () => {
+      const metadata = generator.generateTableMetadata(createSimpleSchema(), {
+        location: 's3://bucket/tables/users',
+      });
+
+      expect(Object.keys(metadata.properties).some((key) => key.startsWith('icetype.ttl.'))).toBe(false);
+    });
+
     it('should track lastColumnId correctly', () => {
       const schema = createSimpleSchema();
       const metadata = generator.generateTableMetadata(schema, {
@@ -529,6 +665,84 @@ describe('IcebergMetadataGenerator', () => {
       expect(metadata.lastColumnId).toBe(maxFieldId);
     });
 
+    it('should write v3 column defaults and store json as variant', () => {
+      const schema = parseSchema({
+        $type: 'Task',
+        id: 'uuid!',
+        status: "string = 'open'",
+        attempts: 'int = 0',
+        payload: 'json?',
+      });
+      const fieldsOf = (metadata: IcebergTableMetadata) =>
+        new Map(metadata.schemas[0]!.fields.map(f => [f.name, f]));
+
+      const v3 = fieldsOf(generator.generateTableMetadata(schema, { location: 's3://bucket/tasks', formatVersion: 3 }));
+      expect(v3.get('status')).toMatchObject({ initialDefault: 'open', writeDefault: 'open' });
+      expect(v3.get('attempts')).toMatchObject({ initialDefault: 0, writeDefault: 0 });
+      expect(v3.get('payload')?.type).toEqual({ type: 'variant' });
+
+      const v2 = fieldsOf(generator.generateTableMetadata(schema, { location: 's3://bucket/tasks' }));
+      expect(v2.get('status')).not.toHaveProperty('initialDefault');
+      expect(v2.get('payload')?.type).toEqual({ type: 'string' });
+    });
+
+    it('should write v3 column defaults in the JSON form of their type', () => {
+      const schema = parseSchema({
+        $type: 'Invoice',
+        id: 'uuid!',
+        amount: 'decimal(10,2) = 1.5',
+        issuedAt: "timestamp = '2024-03-01T09:30:00.25Z'",
+        createdAt: 'timestamp = now()',
+      });
+      const metadata = generator.generateTableMetadata(schema, { location: 's3://bucket/invoices', formatVersion: 3 });
+      const fields = new Map(metadata.schemas[0]!.fields.map(f => [f.name, f]));
+
+      expect(fields.get('amount')).toMatchObject({ initialDefault: '1.50', writeDefault: '1.50' });
+      expect(fields.get('issuedAt')).toMatchObject({ initialDefault: '2024-03-01T09:30:00.250000' });
+      expect(fields.get('createdAt')).not.toHaveProperty('initialDefault');
+      expect(writeIcebergSpecMetadata(metadata).schemas[0]!.fields.find(f => f.name === 'amount'))
+        .toMatchObject({ 'initial-default': '1.50', 'write-default': '1.50' });
+    });
+
+    it('should set identifier fields by name', () => {
+      const metadata = generator.generateTableMetadata(createSimpleSchema(), {
+        location: 's3://bucket/tables/users',
+        identifierFields: ['id'],
+      });
+
+      const schema = metadata.schemas[0]!;
+      expect(schema.identifierFieldIds).toEqual([schema.fields.find(f => f.name === 'id')!.id]);
+    });
+
+    it('should reject identifier fields that are missing, optional or floating point', () => {
+      const location = 's3://bucket/tables/orders';
+      expect(() =>
+        generator.generateTableMetadata(createPartitionedSchema(), { location, identifierFields: ['orderId'] })
+      ).toThrow("Identifier field 'orderId' is not a column of the table");
+      expect(() =>
+        generator.generateTableMetadata(createSimpleSchema(), { location, identifierFields: ['age'] })
+      ).toThrow(/'age' must be a required column .* \(got optional int\)/);
+      expect(() =>
+        generator.generateTableMetadata(createPartitionedSchema(), { location, identifierFields: ['amount'] })
+      ).toThrow(/\(got double\)/);
+    });
+
+    it('should write the format, compression and file size properties', () => {
+      const metadata = generator.generateTableMetadata(createSimpleSchema(), {
+        location: 's3://bucket/tables/users',
+        writeFormat: 'orc',
+        compressionCodec: 'zstd',
+        targetFileSizeBytes: 134217728,
+      });
+
+      expect(metadata.properties).toMatchObject({
+        'write.format.default': 'orc',
+        'write.orc.compression-codec': 'zstd',
+        'write.target-file-size-bytes': '134217728',
+      });
+      expect(metadata.properties).not.toHaveProperty('write.parquet.compression-codec');
+    });
+
     it('should track lastPartitionId correctly', () => {
       const schema = createPartitionedSchema();
       const metadata = generator.generateTableMetadata(schema, {
@@ -607,3 +821,162 @@ describe('generateIcebergMetadata()', () => {
     expect(metadata.properties['custom.key']).toBe('custom-value');
   });
 });
+
+describe('evolveIcebergMetadata()', () => {
+  const v1 = parseSchema({
+    $type: 'User',
+    $partitionBy: ['tenantId'],
+    id: 'uuid!',
+    tenantId: 'string!',
+    age: 'int',
+    $structs: { Address: { city: 'string', zip: 'string' } },
+    address: 'struct<Address>',
+  });
+
+  function v1Metadata(): IcebergTableMetadata {
+    return generateIcebergMetadata(v1, 's3://bucket/tables/users');
+  }
+
+  it('should keep field IDs of unchanged columns and add new ones above lastColumnId', () => {
+    const previous = v1Metadata();
+    const v2 = parseSchema({
+      $type: 'User',
+      $version: 2,
+      $partitionBy: ['tenantId'],
+      id: 'uuid!',
+      tenantId: 'string!',
+      age: 'long',
+      email: 'string',
+      $structs: { Address: { city: 'string', country: 'string' } },
+      address: 'struct<Address>',
+    });
+
+    const next = evolveIcebergMetadata(JSON.stringify(previous), v2);
+    const before = previous.schemas[0]!;
+    const after = next.schemas.find(s => s.schemaId === next.currentSchemaId)!;
+    const idOf = (fields: typeof after.fields, name: string) => fields.find(f => f.name === name)?.id;
+
+    expect(next.schemas).toHaveLength(2);
+    expect(after.schemaId).toBe(before.schemaId + 1);
+    for (const name of ['$id', '$type', 'id', 'tenantId', 'age', 'address']) {
+      expect(idOf(after.fields, name)).toBe(idOf(before.fields, name));
+    }
+    const address = after.fields.find(f => f.name === 'address')!;
+    const previousAddress = before.fields.find(f => f.name === 'address')!;
+    expect(idOf(address.type.fields!, 'city')).toBe(idOf(previousAddress.type.fields!, 'city'));
+    expect(idOf(after.fields, 'email')).toBe(previous.lastColumnId + 1);
+    expect(idOf(address.type.fields!, 'country')).toBe(previous.lastColumnId + 2);
+    expect(next.lastColumnId).toBe(previous.lastColumnId + 2);
+    expect(after.identifierFieldIds).toEqual(before.identifierFieldIds);
+  });
+
+  it('should give a column a new ID when its type cannot be promoted', () => {
+    const previous = v1Metadata();
+    const v2 = parseSchema({ $type: 'User', $partitionBy: ['tenantId'], id: 'uuid!', tenantId: 'string!', age: 'string' });
+
+    const next = evolveIcebergMetadata(previous, v2);
+    const age = next.schemas.at(-1)!.fields.find(f => f.name === 'age');
+    expect(age?.id).toBe(previous.lastColumnId + 1);
+  });
+
+  it('should keep list element and map key and value IDs and number new ones', () => {
+    const schema = { $type: 'User', id: 'uuid!', tags: 'string[]', scores: 'map<string, int>' };
+    const generated = generateIcebergMetadata(parseSchema(schema), 's3://bucket/tables/users');
+    // As written by Spark: nested IDs above the columns
+    const base = generated.lastColumnId;
+    const previous: IcebergTableMetadata = {
+      ...generated,
+      lastColumnId: base + 3,
+      schemas: generated.schemas.map(s => ({
+        ...s,
+        fields: s.fields.map(f =>
+          f.name === 'tags' ? { ...f, type: { ...f.type, elementId: base + 1, elementRequired: true } }
+            : f.name === 'scores' ? { ...f, type: { ...f.type, keyId: base + 2, valueId: base + 3, valueRequired: false } }
+              : f
+        ),
+      })),
+    };
+
+    const next = evolveIcebergMetadata(previous, parseSchema({ ...schema, labels: 'int[]' }));
+    const typeOf = (name: string) => next.schemas.at(-1)!.fields.find(f => f.name === name)!.type;
+    expect(typeOf('tags')).toMatchObject({ elementId: base + 1, elementRequired: true });
+    expect(typeOf('scores')).toMatchObject({ keyId: base + 2, valueId: base + 3, valueRequired: false });
+    expect(next.schemas.at(-1)!.fields.find(f => f.name === 'labels')!.id).toBe(base + 4);
+    expect(typeOf('labels')).toMatchObject({ elementId: base + 5, elementRequired: false });
+    expect(next.lastColumnId).toBe(base + 5);
+
+    const spec = writeIcebergSpecMetadata(next);
+    const fields = (spec.schemas as Array<{ fields: Array<{ name: string; type: Record<string, unknown> }> }>).at(-1)!.fields;
+    expect(fields.find(f => f.name === 'tags')!.type).toMatchObject({ type: 'list', 'element-id': base + 1 });
+    expect(fields.find(f => f.name === 'scores')!.type).toMatchObject({ type: 'map', 'key-id': base + 2, 'value-id': base + 3 });
+  });
+
+  it('should keep the partition spec and sort order history', () => {
+    const previous = v1Metadata();
+    const v2 = parseSchema({
+      $type: 'User',
+      $partitionBy: ['tenantId', 'bucket(8, id)'],
+      $orderBy: ['age DESC'],
+      id: 'uuid!',
+      tenantId: 'string!',
+      age: 'int',
+      $structs: { Address: { city: 'string', zip: 'string' } },
+      address: 'struct<Address>',
+    });
+
+    const next = evolveIcebergMetadata(previous, v2);
+    expect(next.partitionSpecs.map(spec => spec.specId)).toEqual([0, 1]);
+    expect(next.defaultSpecId).toBe(1);
+    expect(next.partitionSpecs[1]!.fields.map(f => [f.name, f.fieldId])).toEqual([
+      ['tenantId', 1000],
+      ['id_bucket', 1001],
+    ]);
+    expect(next.lastPartitionId).toBe(1001);
+    expect(next.sortOrders.map(order => order.orderId)).toEqual([0, 1]);
+    expect(next.defaultSortOrderId).toBe(1);
+  });
+
+  it('should reuse unchanged schemas, specs and orders and log the previous file', () => {
+    const previous = v1Metadata();
+    const next = evolveIcebergMetadata(previous, v1, {
+      previousMetadataFile: 's3://bucket/tables/users/metadata/v3.metadata.json',
+    });
+
+    expect(next.tableUuid).toBe(previous.tableUuid);
+    expect(next.schemas).toEqual(previous.schemas);
+    expect(next.currentSchemaId).toBe(previous.currentSchemaId);
+    expect(next.partitionSpecs).toEqual(previous.partitionSpecs);
+    expect(next.sortOrders).toEqual(previous.sortOrders);
+    expect(next.metadataLog).toEqual([
+      { timestampMs: previous.lastUpdatedMs, metadataFile: 's3://bucket/tables/users/metadata/v3.metadata.json' },
+    ]);
+    expect(evolveIcebergMetadata(next, v1).metadataLog?.[1]?.metadataFile).toBe(
+      's3://bucket/tables/users/metadata/v2.metadata.json'
+    );
+  });
+
+  it('should keep the format version and identifier fields of the previous metadata', () => {
+    const previous = generateIcebergMetadata(v1, 's3://bucket/tables/users');
+    const withIdentifier = new IcebergMetadataGenerator().generateTableMetadata(v1, {
+      location: 's3://bucket/tables/users',
+      formatVersion: 3,
+      identifierFields: ['id', 'tenantId'],
+    });
+    const v2 = parseSchema({ $type: 'User', $partitionBy: ['tenantId'], id: 'uuid!', tenantId: 'string!', age: 'int' });
+
+    const next = evolveIcebergMetadata(withIdentifier, v2);
+    const current = next.schemas.find(s => s.schemaId === next.currentSchemaId)!;
+    const idOf = (name: string) => current.fields.find(f => f.name === name)!.id;
+    expect(next.formatVersion).toBe(3);
+    expect(current.identifierFieldIds).toEqual([idOf('id'), idOf('tenantId')]);
+
+    const overridden = evolveIcebergMetadata(previous, v2, { identifierFields: ['tenantId'] });
+    const schema = overridden.schemas.at(-1)!;
+    expect(schema.identifierFieldIds).toEqual([schema.fields.find(f => f.name === 'tenantId')!.id]);
+  });
+
+  it('should reject invalid metadata', () => {
+    expect(() => evolveIcebergMetadata('{', v1)).toThrow(/Invalid Iceberg metadata JSON/);
+    expect(() => evolveIcebergMetadata('{}', v1)).toThrow(/Invalid Iceberg metadata/);
+  });
+});
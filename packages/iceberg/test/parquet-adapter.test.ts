@@ -193,6 +193,31 @@ describe('ParquetAdapter.transform()', () => {
     });
   });
 
+  describe('Timestamp and annotation options', () => {
+    it('should apply the timestamp unit', () => {
+      const result = adapter.transform(createTypedSchema(), { timestampUnit: 'micros' });
+
+      const createdAt = result.fields.find(f => f.name === 'createdAt');
+      expect(createdAt?.convertedType).toBe('TIMESTAMP_MICROS');
+      expect(createdAt?.logicalType?.unit).toBe('MICROS');
+    });
+
+    it('should write INT96 timestamps', () => {
+      const result = adapter.transform(createTypedSchema(), { int96Timestamps: true });
+
+      expect(result.fields.find(f => f.name === 'createdAt')?.type).toBe('INT96');
+    });
+
+    it('should omit ConvertedType annotations and serialize LogicalTypes', () => {
+      const result = adapter.transform(createTypedSchema(), { logicalTypesOnly: true, timestampUnit: 'nanos' });
+      const serialized = adapter.serialize(result);
+
+      expect(result.fields.every(f => f.convertedType === undefined)).toBe(true);
+      expect(serialized).toContain('BYTE_ARRAY name (STRING);');
+      expect(serialized).toContain('INT64 createdAt (TIMESTAMP(NANOS,false));');
+    });
+  });
+
   describe('Field type mapping', () => {
     it('should map string fields to Parquet types', () => {
       const schema = createTypedSchema();
@@ -0,0 +1,473 @@
+/**
+ * Tests for reading Parquet footers and inferring IceType schemas from them
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+// @ts-ignore -- node:fs available at runtime
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+// @ts-ignore -- node:os available at runtime
+import { tmpdir } from 'node:os';
+// @ts-ignore -- node:path available at runtime
+import { join } from 'node:path';
+import { parseSchema } from '@icetype/core';
+import { encodeParquet, writeParquet } from '../src/parquet-writer.js';
+import { decodeParquetFooter, readParquetFooter } from '../src/parquet-reader.js';
+import { generateParquetSchema, parquetFooterToIceType } from '../src/parquet.js';
+import { binary, bool, encodeStruct, i32, i64, list, struct, decodeStruct } from '../src/thrift.js';
+import type { ParquetField, ParquetSchema } from '../src/types.js';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const NOW = Date.UTC(2024, 0, 1);
+
+function createOrderSchema() {
+  return parseSchema({
+    $type: 'Order',
+    $structs: { Address: { street: 'string!', zip: 'int?' } },
+    customer: 'string!',
+    total: 'decimal(10,2)',
+    quantity: 'int?',
+    views: 'long?',
+    placedAt: 'timestamp?',
+    paidAt: 'timestamptz?',
+    day: 'date?',
+    opens: 'time?',
+    ref: 'uuid?',
+    active: 'boolean?',
+    score: 'double?',
+    payload: 'json?',
+    blob: 'binary?',
+    tags: 'string[]',
+    address: 'struct<Address>?',
+    history: 'struct<Address>[]',
+  });
+}
+
+/** The schema the writer writes: UUID has no ConvertedType in the format, only a LogicalType */
+function writtenSchema(schema: ReturnType<typeof createOrderSchema>): ParquetSchema {
+  const parquetSchema = generateParquetSchema(schema);
+  const strip = (field: ParquetField): ParquetField => {
+    const { convertedType, children, ...rest } = field;
+    return {
+      ...rest,
+      ...(convertedType !== 'UUID' && { convertedType }),
+      ...(children && { children: children.map(strip) }),
+    };
+  };
+  return { ...parquetSchema, fields: parquetSchema.fields.map(strip) };
+}
+
+/** Encode a file with no rows for a hand-written Parquet schema */
+function encodeSchema(fields: ParquetField[], name = 'spark_schema'): Uint8Array {
+  const schema: ParquetSchema = { name, fields };
+  return encodeParquet(schema, []);
+}
+
+// =============================================================================
+// Thrift Decoding
+// =============================================================================
+
+describe('decodeStruct()', () => {
+  it('should decode the fields an encoded struct holds', () => {
+    const bytes = encodeStruct([
+      bool(1, true),
+      i32(2, -7),
+      i64(3, 2n ** 60n),
+      binary(4, 'name'),
+      struct(5, [bool(1, false)]),
+      list(6, 'i32', [1, 2, 3]),
+      // A large ID gap uses the long-form field header
+      i32(40, 9),
+    ]);
+
+    const decoded = decodeStruct(bytes);
+
+    expect(decoded[1]).toBe(true);
+    expect(decoded[2]).toBe(-7);
+    expect(decoded[3]).toBe(2n ** 60n);
+    expect(new TextDecoder().decode(decoded[4] as Uint8Array)).toBe('name');
+    expect(decoded[5]).toEqual({ 1: false });
+    expect(decoded[6]).toEqual([1, 2, 3]);
+    expect(decoded[40]).toBe(9);
+  });
+
+  it('should decode lists of 15 or more elements', () => {
+    const values = Array.from({ length: 20 }, (_, i) => i * 1000);
+
+    expect(decodeStruct(encodeStruct([list(1, 'i64', values)]))[1]).toEqual(values);
+  });
+
+  it('should reject truncated input', () => {
+    const bytes = encodeStruct([binary(1, 'truncated')]);
+
+    expect(() => decodeStruct(bytes.subarray(0, 4))).toThrow('Invalid Thrift data: unexpected end of input');
+  });
+});
+
+// =============================================================================
+// Footer Decoding
+// =============================================================================
+
+describe('decodeParquetFooter()', () => {
+  it('should read back the schema the writer wrote', () => {
+    const schema = createOrderSchema();
+    const bytes = encodeParquet(schema, []);
+
+    const footer = decodeParquetFooter(bytes);
+
+    expect(footer.schema).toEqual(writtenSchema(schema));
+  });
+
+  it('should read the row count, row groups, key/value metadata and writer', () => {
+    const schema = parseSchema({ $type: 'Event', name: 'string!' });
+    const rows = Array.from({ length: 5 }, (_, i) => ({
+      $id: `e${i}`,
+      $type: 'Event',
+      $version: 1,
+      $createdAt: NOW,
+      $updatedAt: NOW,
+      name: `event-${i}`,
+    }));
+
+    const footer = decodeParquetFooter(
+      encodeParquet(schema, rows, { rowGroupSize: 2, metadata: { source: 'partner' }, createdBy: 'test-writer' })
+    );
+
+    expect(footer.version).toBe(1);
+    expect(footer.rowCount).toBe(5);
+    expect(footer.rowGroupCount).toBe(3);
+    expect(footer.metadata).toEqual({ source: 'partner' });
+    expect(footer.createdBy).toBe('test-writer');
+  });
+
+  it('should read LogicalType-only and nanosecond annotations', () => {
+    const schema = parseSchema({ $type: 'Event', at: 'timestamptz', count: 'int' });
+    const bytes = encodeParquet(schema, [], { logicalTypesOnly: true, timestampUnit: 'nanos' });
+
+    const fields = decodeParquetFooter(bytes).schema.fields;
+
+    expect(fields.find((field) => field.name === 'at')).toEqual({
+      name: 'at',
+      type: 'INT64',
+      repetition: 'REQUIRED',
+      logicalType: { type: 'TIMESTAMP', isAdjustedToUTC: true, unit: 'NANOS' },
+      fieldId: 6,
+    });
+    expect(fields.find((field) => field.name === 'count')?.logicalType).toEqual({ type: 'INTEGER', precision: 32 });
+  });
+
+  it('should accept the tail of a file holding the whole footer', () => {
+    const bytes = encodeParquet(createOrderSchema(), []);
+    const footerLength = new DataView(bytes.buffer).getInt32(bytes.length - 8, true);
+
+    const footer = decodeParquetFooter(bytes.subarray(bytes.length - footerLength - 8));
+
+    expect(footer.schema.name).toBe('Order');
+  });
+
+  it('should reject files without the PAR1 magic', () => {
+    expect(() => decodeParquetFooter(new Uint8Array(16))).toThrow(
+      'Invalid Parquet file: missing the PAR1 magic at the end of the file'
+    );
+  });
+
+  it('should reject a footer longer than the file', () => {
+    const bytes = encodeParquet(createOrderSchema(), []);
+
+    expect(() => decodeParquetFooter(bytes.subarray(bytes.length - 40))).toThrow(
+      /Invalid Parquet file: footer of \d+ bytes does not fit in 40 bytes/
+    );
+  });
+
+  it('should reject encrypted footers', () => {
+    const bytes = new Uint8Array([0, 0, 0, 0, 0, 0, 0, 0, 0x50, 0x41, 0x52, 0x45]);
+
+    expect(() => decodeParquetFooter(bytes)).toThrow('Unsupported Parquet file: the footer is encrypted');
+  });
+});
+
+describe('readParquetFooter()', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'icetype-parquet-footer-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read the footer of a local file', async () => {
+    const path = join(dir, 'orders.parquet');
+    const schema = createOrderSchema();
+    await writeParquet(schema, [], path);
+
+    const footer = await readParquetFooter(path);
+
+    expect(footer.schema).toEqual(writtenSchema(schema));
+    expect(footer.rowCount).toBe(0);
+  });
+
+  it('should reject a file that is not Parquet', async () => {
+    const path = join(dir, 'orders.csv');
+    await writeFile(path, 'id,name\n1,Ada\n');
+
+    await expect(readParquetFooter(path)).rejects.toThrow('missing the PAR1 magic');
+  });
+});
+
+// =============================================================================
+// Schema Inference
+// =============================================================================
+
+describe('parquetFooterToIceType()', () => {
+  it('should round-trip schemas written by the Parquet writer', () => {
+    const { definition, warnings } = parquetFooterToIceType(encodeParquet(createOrderSchema(), []));
+
+    expect(warnings).toEqual([]);
+    expect(definition).toEqual({
+      $type: 'Order',
+      $structs: { Address: { street: 'string', zip: 'int?' } },
+      customer: 'string',
+      total: 'decimal(10,2)',
+      quantity: 'int?',
+      views: 'long?',
+      placedAt: 'timestamp?',
+      paidAt: 'timestamptz?',
+      day: 'date?',
+      opens: 'time?',
+      ref: 'uuid?',
+      active: 'boolean?',
+      score: 'double?',
+      payload: 'json?',
+      blob: 'binary?',
+      tags: 'string[]',
+      address: 'struct<Address>?',
+      history: 'struct<Address>[]',
+    });
+  });
+
+  it('should return a parsed schema', () => {
+    const { schema } = parquetFooterToIceType(encodeParquet(createOrderSchema(), []));
+
+    expect(schema.name).toBe('Order');
+    expect(schema.fields.get('total')?.precision).toBe(10);
+  });
+
+  it('should accept a decoded footer and a schema name', () => {
+    const footer = decodeParquetFooter(encodeParquet(createOrderSchema(), []));
+
+    expect(parquetFooterToIceType(footer, { name: 'PartnerOrder' }).definition.$type).toBe('PartnerOrder');
+  });
+
+  it('should name schemas with generic message names Table', () => {
+    const bytes = encodeSchema([{ name: 'id', type: 'INT64', repetition: 'REQUIRED' }]);
+
+    expect(parquetFooterToIceType(bytes).definition).toEqual({ $type: 'Table', id: 'long' });
+  });
+
+  it('should map legacy ConvertedTypes and physical types', () => {
+    const bytes = encodeSchema([
+      { name: 'small', type: 'INT32', repetition: 'OPTIONAL', convertedType: 'INT_16' },
+      { name: 'unsigned', type: 'INT32', repetition: 'OPTIONAL', convertedType: 'UINT_32' },
+      { name: 'micros', type: 'INT64', repetition: 'OPTIONAL', convertedType: 'TIMESTAMP_MICROS' },
+      { name: 'opens', type: 'INT64', repetition: 'OPTIONAL', convertedType: 'TIME_MICROS' },
+      { name: 'legacy', type: 'INT96', repetition: 'OPTIONAL' },
+      { name: 'price', type: 'INT64', repetition: 'OPTIONAL', convertedType: 'DECIMAL', precision: 12, scale: 3 },
+      { name: 'status', type: 'BYTE_ARRAY', repetition: 'OPTIONAL', convertedType: 'ENUM' },
+      { name: 'raw', type: 'BYTE_ARRAY', repetition: 'OPTIONAL' },
+      { name: 'hash', type: 'FIXED_LEN_BYTE_ARRAY', typeLength: 32, repetition: 'OPTIONAL' },
+      { name: 'ratio', type: 'FLOAT', repetition: 'REQUIRED' },
+    ]);
+
+    expect(parquetFooterToIceType(bytes).definition).toEqual({
+      $type: 'Table',
+      small: 'int?',
+      unsigned: 'long?',
+      micros: 'timestamptz?',
+      opens: 'time?',
+      legacy: 'timestamp?',
+      price: 'decimal(12,3)?',
+      status: 'string?',
+      raw: 'binary?',
+      hash: 'fixed(32)?',
+      ratio: 'float',
+    });
+  });
+
+  it('should read legacy two-level lists and bare repeated fields', () => {
+    const bytes = encodeSchema([
+      {
+        name: 'scores',
+        repetition: 'OPTIONAL',
+        convertedType: 'LIST',
+        children: [{ name: 'array', type: 'INT32', repetition: 'REPEATED' }],
+      },
+      {
+        name: 'points',
+        repetition: 'OPTIONAL',
+        convertedType: 'LIST',
+        children: [
+          {
+            name: 'points_tuple',
+            repetition: 'REPEATED',
+            children: [{ name: 'x', type: 'DOUBLE', repetition: 'REQUIRED' }],
+          },
+        ],
+      },
+      {
+        name: 'pairs',
+        repetition: 'OPTIONAL',
+        convertedType: 'LIST',
+        children: [
+          {
+            name: 'bag',
+            repetition: 'REPEATED',
+            children: [
+              { name: 'a', type: 'INT32', repetition: 'REQUIRED' },
+              { name: 'b', type: 'INT32', repetition: 'REQUIRED' },
+            ],
+          },
+        ],
+      },
+      { name: 'labels', type: 'BYTE_ARRAY', convertedType: 'UTF8', repetition: 'REPEATED' },
+    ]);
+
+    expect(parquetFooterToIceType(bytes).definition).toEqual({
+      $type: 'Table',
+      $structs: { Points: { x: 'double' }, Pairs: { a: 'int', b: 'int' } },
+      scores: 'int[]?',
+      points: 'struct<Points>[]?',
+      pairs: 'struct<Pairs>[]?',
+      labels: 'string[]',
+    });
+  });
+
+  it('should import nested groups as structs and reuse identical ones', () => {
+    const address = (name: string): ParquetField => ({
+      name,
+      repetition: 'OPTIONAL',
+      children: [
+        { name: 'city', type: 'BYTE_ARRAY', logicalType: { type: 'STRING' }, repetition: 'REQUIRED' },
+        {
+          name: 'geo',
+          repetition: 'OPTIONAL',
+          children: [
+            { name: 'lat', type: 'DOUBLE', repetition: 'REQUIRED' },
+            { name: 'lon', type: 'DOUBLE', repetition: 'REQUIRED' },
+          ],
+        },
+      ],
+    });
+    const bytes = encodeSchema([address('billing'), address('shipping')]);
+
+    expect(parquetFooterToIceType(bytes).definition).toEqual({
+      $type: 'Table',
+      $structs: { Geo: { lat: 'double', lon: 'double' }, Billing: { city: 'string', geo: 'struct<Geo>?' } },
+      billing: 'struct<Billing>?',
+      shipping: 'struct<Billing>?',
+    });
+  });
+
+  it('should import MAP groups of primitive types as maps', () => {
+    const bytes = encodeSchema([
+      {
+        name: 'attrs',
+        repetition: 'OPTIONAL',
+        logicalType: { type: 'MAP' },
+        children: [
+          {
+            name: 'key_value',
+            repetition: 'REPEATED',
+            children: [
+              { name: 'key', type: 'BYTE_ARRAY', logicalType: { type: 'STRING' }, repetition: 'REQUIRED' },
+              { name: 'value', type: 'INT64', repetition: 'OPTIONAL' },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    expect(parquetFooterToIceType(bytes).definition).toEqual({ $type: 'Table', attrs: 'map<string, long>?' });
+  });
+
+  it('should import nested lists and maps of structs as json with warnings', () => {
+    const bytes = encodeSchema([
+      {
+        name: 'matrix',
+        repetition: 'OPTIONAL',
+        logicalType: { type: 'LIST' },
+        children: [
+          {
+            name: 'list',
+            repetition: 'REPEATED',
+            children: [
+              {
+                name: 'element',
+                repetition: 'OPTIONAL',
+                logicalType: { type: 'LIST' },
+                children: [
+                  {
+                    name: 'list',
+                    repetition: 'REPEATED',
+                    children: [{ name: 'element', type: 'INT32', repetition: 'OPTIONAL' }],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        name: 'prices',
+        repetition: 'OPTIONAL',
+        convertedType: 'MAP',
+        children: [
+          {
+            name: 'key_value',
+            repetition: 'REPEATED',
+            children: [
+              { name: 'key', type: 'BYTE_ARRAY', convertedType: 'UTF8', repetition: 'REQUIRED' },
+              {
+                name: 'value',
+                type: 'FIXED_LEN_BYTE_ARRAY',
+                typeLength: 5,
+                convertedType: 'DECIMAL',
+                precision: 10,
+                scale: 2,
+                repetition: 'OPTIONAL',
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    const { definition, warnings } = parquetFooterToIceType(bytes);
+
+    expect(definition).toEqual({ $type: 'Table', matrix: 'json?', prices: 'json?' });
+    expect(warnings).toEqual([
+      "Column 'matrix' has a nested list type IceType cannot represent; imported as json",
+      "Column 'prices' has a nested map type IceType cannot represent; imported as json",
+    ]);
+  });
+
+  it('should warn about unsigned 64-bit integers and skip $ columns', () => {
+    const bytes = encodeSchema([
+      { name: 'counter', type: 'INT64', repetition: 'REQUIRED', logicalType: { type: 'INTEGER', precision: 64, isSigned: false } },
+      { name: '$meta', type: 'BYTE_ARRAY', repetition: 'OPTIONAL' },
+    ]);
+
+    const { definition, warnings } = parquetFooterToIceType(bytes);
+
+    expect(definition).toEqual({ $type: 'Table', counter: 'long' });
+    expect(warnings).toEqual([
+      "Column 'counter' is an unsigned 64-bit integer; imported as long, which overflows above 2^63 - 1",
+      "Skipped column '$meta': names starting with $ are reserved for directives",
+    ]);
+  });
+});
@@ -0,0 +1,432 @@
+/**
+ * Tests for the Parquet file writer
+ *
+ * Files are checked structurally here; reading them back with DuckDB is
+ * covered by the integration tests.
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSchema } from '@icetype/core';
+import type { IceTypeSchema } from '@icetype/core';
+import {
+  ParquetEncoder,
+  encodeParquet,
+  writeParquet,
+} from '../src/parquet-writer.js';
+import { binary, bool, encodeStruct, encodeUtf8, i32 } from '../src/thrift.js';
+import type { ParquetSchema } from '../src/types.js';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const NOW = Date.UTC(2024, 0, 1);
+
+/**
+ * Create a schema with optional, list and struct fields
+ */
+function createEventSchema(): IceTypeSchema {
+  return parseSchema({
+    $type: 'Event',
+    $structs: { Location: { city: 'string!', zip: 'int?' } },
+    name: 'string!',
+    count: 'int?',
+    tags: 'string[]',
+    location: 'struct<Location>?',
+  });
+}
+
+function createEvent(i: number): Record<string, unknown> {
+  return {
+    $id: `evt-${i}`,
+    $type: 'Event',
+    $version: 1,
+    $createdAt: NOW,
+    $updatedAt: NOW,
+    name: `event-${i % 3}`,
+    count: i % 2 === 0 ? i : null,
+    tags: i % 4 === 0 ? [] : ['a', 'b'],
+    location: i % 5 === 0 ? null : { city: 'Paris', zip: i },
+  };
+}
+
+function indexOf(haystack: Uint8Array, needle: Uint8Array): number {
+  outer: for (let i = 0; i + needle.length <= haystack.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+function footerLength(bytes: Uint8Array): number {
+  return new DataView(bytes.buffer, bytes.byteOffset).getInt32(bytes.length - 8, true);
+}
+
+const MAGIC = [0x50, 0x41, 0x52, 0x31];
+
+// =============================================================================
+// Thrift Encoding
+// =============================================================================
+
+describe('encodeStruct()', () => {
+  it('should encode fields with compact protocol headers', () => {
+    const bytes = encodeStruct([i32(1, 5), binary(2, 'ab'), bool(3, true)]);
+    expect([...bytes]).toEqual([0x15, 0x0a, 0x18, 0x02, 0x61, 0x62, 0x11, 0x00]);
+  });
+
+  it('should use long-form headers for large field ID gaps', () => {
+    const bytes = encodeStruct([i32(1, 1), i32(20, 1)]);
+    expect([...bytes]).toEqual([0x15, 0x02, 0x05, 0x28, 0x02, 0x00]);
+  });
+
+  it('should skip undefined fields', () => {
+    expect([...encodeStruct([undefined, i32(2, 0)])]).toEqual([0x25, 0x00, 0x00]);
+  });
+});
+
+// =============================================================================
+// File Layout
+// =============================================================================
+
+describe('encodeParquet()', () => {
+  it('should frame the file with PAR1 and a footer length', () => {
+    const bytes = encodeParquet(createEventSchema(), [createEvent(1), createEvent(2)]);
+
+    expect([...bytes.subarray(0, 4)]).toEqual(MAGIC);
+    expect([...bytes.subarray(bytes.length - 4)]).toEqual(MAGIC);
+    const length = footerLength(bytes);
+    expect(length).toBeGreaterThan(0);
+    expect(length).toBeLessThan(bytes.length - 12);
+  });
+
+  it('should write a valid file with no rows', () => {
+    const bytes = encodeParquet(createEventSchema(), []);
+
+    expect([...bytes.subarray(0, 4)]).toEqual(MAGIC);
+    expect(footerLength(bytes)).toBe(bytes.length - 12);
+  });
+
+  it('should store the schema, key/value metadata and writer in the footer', () => {
+    const bytes = encodeParquet(createEventSchema(), [createEvent(1)], {
+      metadata: { 'icetype.schema': 'Event' },
+      createdBy: 'edge-writer',
+    });
+    const footer = bytes.subarray(bytes.length - 8 - footerLength(bytes), bytes.length - 8);
+
+    for (const text of ['Event', 'tags', 'element', 'location', 'icetype.schema', 'edge-writer']) {
+      expect(indexOf(footer, encodeUtf8(text))).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it('should write values in plain encoding when dictionaries are disabled', () => {
+    const bytes = encodeParquet(createEventSchema(), [createEvent(1)], {
+      compression: 'uncompressed',
+      dictionary: false,
+    });
+
+    // PLAIN byte arrays are length-prefixed
+    expect(indexOf(bytes, new Uint8Array([5, 0, 0, 0, ...encodeUtf8('Paris')]))).toBeGreaterThan(0);
+  });
+
+  it('should dictionary-encode repetitive columns', () => {
+    const rows = Array.from({ length: 2000 }, (_, i) => createEvent(i));
+    const plain = encodeParquet(createEventSchema(), rows, { compression: 'uncompressed', dictionary: false });
+    const dictionary = encodeParquet(createEventSchema(), rows, { compression: 'uncompressed' });
+
+    expect(dictionary.length).toBeLessThan(plain.length);
+  });
+
+  it('should compress pages with each codec', () => {
+    const rows = Array.from({ length: 2000 }, (_, i) => createEvent(i));
+    const sizes = (['uncompressed', 'snappy', 'zstd'] as const).map(
+      (compression) => encodeParquet(createEventSchema(), rows, { compression, dictionary: false }).length
+    );
+
+    expect(sizes[1]).toBeLessThan(sizes[0]!);
+    expect(sizes[2]).toBeLessThan(sizes[0]!);
+  });
+
+  it('should accept a Parquet schema directly', () => {
+    const schema: ParquetSchema = {
+      name: 'Reading',
+      fields: [
+        { name: 'sensor', type: 'BYTE_ARRAY', repetition: 'REQUIRED', convertedType: 'UTF8' },
+        { name: 'value', type: 'DOUBLE', repetition: 'OPTIONAL' },
+      ],
+    };
+    const bytes = encodeParquet(schema, [{ sensor: 'a', value: 1.5 }, { sensor: 'b' }]);
+
+    expect([...bytes.subarray(bytes.length - 4)]).toEqual(MAGIC);
+  });
+
+  it('should reject an unknown codec', () => {
+    expect(() =>
+      encodeParquet(createEventSchema(), [], { compression: 'lz4' as 'zstd' })
+    ).toThrow('Unsupported Parquet compression codec: lz4');
+  });
+});
+
+// =============================================================================
+// Encoder
+// =============================================================================
+
+describe('ParquetEncoder', () => {
+  it('should emit a row group each time one fills', () => {
+    const encoder = new ParquetEncoder(createEventSchema(), { rowGroupSize: 2 });
+
+    expect(encoder.writeRow(createEvent(0))).toBeUndefined();
+    const group = encoder.writeRow(createEvent(1));
+    expect(group).toBeInstanceOf(Uint8Array);
+    expect([...group!.subarray(0, 4)]).toEqual(MAGIC);
+    encoder.writeRow(createEvent(2));
+    encoder.finish();
+
+    expect(encoder.result.rowCount).toBe(3);
+    expect(encoder.result.rowGroupCount).toBe(2);
+  });
+
+  it('should summarize values, nulls and bounds per leaf column', () => {
+    const encoder = new ParquetEncoder(createEventSchema(), { rowGroupSize: 3 });
+    for (let i = 0; i < 8; i++) encoder.writeRow(createEvent(i));
+    const bytes = encoder.finish();
+    const { columns, byteLength } = encoder.result;
+
+    const count = columns.find((column) => column.path.join('.') === 'count')!;
+    expect(count.valueCount).toBe(8);
+    expect(count.nullCount).toBe(4);
+    expect(count.fieldId).toBe(7);
+    expect([...count.minValue!]).toEqual([0, 0, 0, 0]);
+    expect([...count.maxValue!]).toEqual([6, 0, 0, 0]);
+
+    // Empty lists are a single null entry; others hold two values
+    const tags = columns.find((column) => column.path.join('.') === 'tags.list.element')!;
+    expect(tags.valueCount).toBe(2 + 6 * 2);
+    expect(tags.nullCount).toBe(2);
+
+    const city = columns.find((column) => column.path.join('.') === 'location.city')!;
+    expect(city.nullCount).toBe(2);
+    expect(city.minValue).toEqual(encodeUtf8('Paris'));
+
+    expect(byteLength).toBeGreaterThan(bytes.length);
+    expect(columns.reduce((total, column) => total + column.compressedSize, 0)).toBeLessThan(byteLength);
+  });
+
+  it('should leave out statistics when disabled', () => {
+    const encoder = new ParquetEncoder(createEventSchema(), { statistics: false });
+    encoder.writeRow(createEvent(1));
+    const withoutStats = encoder.finish().length;
+
+    expect(withoutStats).toBeLessThan(encodeParquet(createEventSchema(), [createEvent(1)]).length);
+  });
+
+  it('should reject a missing required value and keep the row out', () => {
+    const encoder = new ParquetEncoder(createEventSchema());
+    encoder.writeRow(createEvent(1));
+
+    expect(() => encoder.writeRow({ ...createEvent(2), name: null })).toThrow(
+      "Missing value for required field 'name' at row index 1"
+    );
+    encoder.writeRow(createEvent(3));
+    encoder.finish();
+
+    expect(encoder.result.rowCount).toBe(2);
+    expect(encoder.result.columns.every((column) => column.valueCount >= 2)).toBe(true);
+    expect(encoder.result.columns.find((column) => column.path[0] === '$id')!.valueCount).toBe(2);
+  });
+
+  it('should reject values that do not fit the column type', () => {
+    const encoder = new ParquetEncoder(createEventSchema());
+
+    expect(() => encoder.writeRow({ ...createEvent(1), count: 'many' })).toThrow(
+      "Invalid value for column 'count' at row index 0: expected an integer"
+    );
+    expect(() => encoder.writeRow({ ...createEvent(1), tags: 'a' })).toThrow('expected an array');
+  });
+
+  it('should encode UUID, decimal, date and binary columns', () => {
+    const schema = parseSchema({
+      $type: 'Payment',
+      ref: 'uuid!',
+      amount: 'decimal!',
+      day: 'date!',
+      blob: 'binary?',
+    });
+    const encoder = new ParquetEncoder(schema);
+    encoder.writeRow({
+      $id: 'p1',
+      $type: 'Payment',
+      $version: 1,
+      $createdAt: NOW,
+      $updatedAt: NOW,
+      ref: '550e8400-e29b-41d4-a716-446655440000',
+      amount: '-1.5',
+      day: '1970-01-03',
+      blob: new Uint8Array([1, 2, 3]),
+    });
+    encoder.finish();
+    const column = (name: string) => encoder.result.columns.find((c) => c.path[0] === name)!;
+
+    expect(column('ref').minValue![0]).toBe(0x55);
+    expect(column('ref').minValue).toHaveLength(16);
+    // Decimals are unordered byte arrays, so no bounds are kept
+    expect(column('amount').minValue).toBeUndefined();
+    expect([...column('day').minValue!]).toEqual([2, 0, 0, 0]);
+    expect([...column('blob').maxValue!]).toEqual([1, 2, 3]);
+  });
+
+  it('should store decimals as INT32 or INT64 by precision with bounds', () => {
+    const schema = parseSchema({ $type: 'Price', net: 'decimal(9,2)!', gross: 'decimal(18,4)!' });
+    const encoder = new ParquetEncoder(schema);
+    for (const [net, gross] of [['12.5', '-3.25'], ['-0.01', '100000000000000.0001']]) {
+      encoder.writeRow({ $id: net, $type: 'Price', $version: 1, $createdAt: NOW, $updatedAt: NOW, net, gross });
+    }
+    encoder.finish();
+    const column = (name: string) => encoder.result.columns.find((c) => c.path[0] === name)!;
+
+    expect([...column('net').minValue!]).toEqual([0xff, 0xff, 0xff, 0xff]);
+    expect([...column('net').maxValue!]).toEqual([0xe2, 0x04, 0, 0]);
+    expect(column('gross').minValue).toHaveLength(8);
+    expect(new DataView(column('gross').maxValue!.buffer).getBigInt64(0, true)).toBe(1000000000000000001n);
+  });
+
+  it('should reject decimals that overflow their physical type', () => {
+    const schema = parseSchema({ $type: 'Price', net: 'decimal(9,2)!' });
+    const encoder = new ParquetEncoder(schema);
+
+    expect(() =>
+      encoder.writeRow({ $id: 'p1', $type: 'Price', $version: 1, $createdAt: NOW, $updatedAt: NOW, net: '99999999.99' })
+    ).toThrow("Invalid value for column 'net' at row index 0: expected a decimal, got '99999999.99'");
+  });
+
+  it('should encode INT96 timestamps as nanoseconds of the day and a Julian day', () => {
+    const schema = parseSchema({ $type: 'Event', at: 'timestamp!' });
+    const bytes = encodeParquet(
+      schema,
+      [{ $id: 'e1', $type: 'Event', $version: 1, $createdAt: NOW, $updatedAt: NOW, at: '1970-01-02T00:00:00.000000001Z' }],
+      { compression: 'uncompressed', dictionary: false, int96Timestamps: true }
+    );
+
+    // 1 ns into Julian day 2440589
+    expect(indexOf(bytes, new Uint8Array([1, 0, 0, 0, 0, 0, 0, 0, 0x8d, 0x3d, 0x25, 0]))).toBeGreaterThan(0);
+  });
+
+  it('should encode map columns as repeated key/value groups', () => {
+    const schema: ParquetSchema = {
+      name: 'table',
+      fields: [
+        {
+          name: 'attrs',
+          repetition: 'OPTIONAL',
+          convertedType: 'MAP',
+          logicalType: { type: 'MAP' },
+          fieldId: 1,
+          children: [
+            {
+              name: 'key_value',
+              repetition: 'REPEATED',
+              children: [
+                { name: 'key', type: 'BYTE_ARRAY', convertedType: 'UTF8', repetition: 'REQUIRED', fieldId: 2 },
+                { name: 'value', type: 'INT32', repetition: 'OPTIONAL', fieldId: 3 },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+    const encoder = new ParquetEncoder(schema);
+    encoder.writeRow({ attrs: { a: 1, b: null } });
+    encoder.writeRow({ attrs: new Map([['c', 3]]) });
+    encoder.writeRow({ attrs: null });
+    encoder.finish();
+    const column = (name: string) => encoder.result.columns.find((c) => c.path.join('.') === name)!;
+
+    expect(column('attrs.key_value.key').fieldId).toBe(2);
+    expect(column('attrs.key_value.key').valueCount).toBe(4);
+    expect(column('attrs.key_value.key').maxValue).toEqual(encodeUtf8('c'));
+    expect(column('attrs.key_value.value').nullCount).toBe(2);
+    expect([...column('attrs.key_value.value').maxValue!]).toEqual([3, 0, 0, 0]);
+  });
+
+  it('should not accept rows after finishing', () => {
+    const encoder = new ParquetEncoder(createEventSchema());
+    encoder.finish();
+
+    expect(() => encoder.writeRow(createEvent(1))).toThrow('after the Parquet file is finished');
+    expect(() => encoder.finish()).toThrow('already finished');
+  });
+});
+
+// =============================================================================
+// Streaming Writes
+// =============================================================================
+
+describe('writeParquet()', () => {
+  const rows = Array.from({ length: 10 }, (_, i) => createEvent(i));
+  const expected = encodeParquet(createEventSchema(), rows, { rowGroupSize: 4 });
+
+  function concat(chunks: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return result;
+  }
+
+  it('should write row groups to a Node.js-style writable', async () => {
+    const chunks: Uint8Array[] = [];
+    const result = await writeParquet(createEventSchema(), rows, {
+      write(chunk: Uint8Array, callback: (error?: Error | null) => void) {
+        chunks.push(chunk);
+        callback();
+        return true;
+      },
+    }, { rowGroupSize: 4 });
+
+    expect(chunks).toHaveLength(3);
+    expect(concat(chunks)).toEqual(expected);
+    expect(result.rowCount).toBe(10);
+    expect(result.rowGroupCount).toBe(3);
+    expect(result.byteLength).toBe(expected.length);
+  });
+
+  it('should write async rows to a WritableStream-style target', async () => {
+    const chunks: Uint8Array[] = [];
+    let released = false;
+    const target = {
+      getWriter: () => ({
+        ready: Promise.resolve(),
+        write: async (chunk: Uint8Array) => {
+          chunks.push(chunk);
+        },
+        releaseLock: () => {
+          released = true;
+        },
+      }),
+    };
+    async function* generate() {
+      yield* rows;
+    }
+
+    await writeParquet(createEventSchema(), generate(), target, { rowGroupSize: 4 });
+
+    expect(concat(chunks)).toEqual(expected);
+    expect(released).toBe(true);
+  });
+
+  it('should surface write errors', async () => {
+    const target = {
+      write(_chunk: Uint8Array, callback: (error?: Error | null) => void) {
+        callback(new Error('disk full'));
+        return false;
+      },
+    };
+
+    await expect(writeParquet(createEventSchema(), rows, target)).rejects.toThrow('disk full');
+  });
+});
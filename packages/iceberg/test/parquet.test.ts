@@ -12,7 +12,9 @@ import {
   generateParquetSchema,
   generateParquetSchemaString,
   documentToParquetRow,
+  icebergSchemaToParquetSchema,
 } from '../src/parquet.js';
+import type { IcebergSchema } from '../src/types.js';
 
 // =============================================================================
 // Test Helpers
@@ -413,6 +415,65 @@ describe('ParquetSchemaGenerator', () => {
     });
   });
 
+  describe('Struct types (group)', () => {
+    const createStructSchema = () =>
+      parseSchema({
+        $type: 'Customer',
+        $structs: {
+          Address: { street: 'string!', zip: 'int?' },
+        },
+        address: 'struct<Address>',
+        previous: 'struct<Address>[]',
+      });
+
+    it('should map struct<Name> fields to groups with nested fields', () => {
+      const parquetSchema = generator.generateSchema(createStructSchema());
+
+      const addressField = parquetSchema.fields.find(f => f.name === 'address');
+      expect(addressField?.type).toBeUndefined();
+      expect(addressField?.convertedType).toBeUndefined();
+      expect(addressField?.children?.map(c => [c.name, c.type, c.repetition])).toEqual([
+        ['street', 'BYTE_ARRAY', 'REQUIRED'],
+        ['zip', 'INT32', 'OPTIONAL'],
+      ]);
+    });
+
+    it('should map struct arrays to lists of groups', () => {
+      const parquetSchema = generator.generateSchema(createStructSchema());
+
+      const previousField = parquetSchema.fields.find(f => f.name === 'previous');
+      const element = previousField?.children?.[0]?.children?.[0];
+
+      expect(previousField?.convertedType).toBe('LIST');
+      expect(element?.name).toBe('element');
+      expect(element?.children?.map(c => c.name)).toEqual(['street', 'zip']);
+    });
+
+    it('should assign unique field IDs to nested fields', () => {
+      const parquetSchema = generator.generateSchema(createStructSchema());
+
+      const ids: number[] = [];
+      const collect = (fields: typeof parquetSchema.fields) => {
+        for (const field of fields) {
+          if (field.fieldId !== undefined) ids.push(field.fieldId);
+          if (field.children) collect(field.children);
+        }
+      };
+      collect(parquetSchema.fields);
+
+      expect(ids).toHaveLength(5 + 2 + 2 + 2);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('should render struct groups in the schema string', () => {
+      const parquetSchema = generator.generateSchema(createStructSchema());
+      const schemaString = generator.toSchemaString(parquetSchema);
+
+      expect(schemaString).toContain('REQUIRED group address {');
+      expect(schemaString).toContain('REQUIRED BYTE_ARRAY street (UTF8);');
+    });
+  });
+
   describe('toSchemaString()', () => {
     it('should produce valid message format', () => {
       const schema = createSimpleSchema();
@@ -493,6 +554,115 @@ describe('generateParquetSchemaString()', () => {
   });
 });
 
+// =============================================================================
+// Generator Options Tests
+// =============================================================================
+
+describe('Generator options', () => {
+  const createTemporalSchema = () =>
+    parseSchema({
+      $type: 'Event',
+      at: 'timestamp!',
+      atTz: 'timestamptz',
+      opens: 'time',
+      price: 'decimal(9,2)',
+      total: 'decimal(18,2)',
+      balance: 'decimal(38,10)',
+      tags: 'string[]',
+    });
+  const findField = (schema: ReturnType<typeof generateParquetSchema>, name: string) =>
+    schema.fields.find(f => f.name === name);
+
+  it('should default to millisecond timestamps', () => {
+    const parquetSchema = generateParquetSchema(createTemporalSchema());
+
+    expect(findField(parquetSchema, 'at')?.logicalType?.unit).toBe('MILLIS');
+    expect(findField(parquetSchema, '$createdAt')?.convertedType).toBe('TIMESTAMP_MILLIS');
+  });
+
+  it('should map timestamps and times to microseconds', () => {
+    const parquetSchema = generateParquetSchema(createTemporalSchema(), { timestampUnit: 'micros' });
+
+    expect(findField(parquetSchema, 'at')).toMatchObject({
+      type: 'INT64',
+      convertedType: 'TIMESTAMP_MICROS',
+      logicalType: { type: 'TIMESTAMP', isAdjustedToUTC: false, unit: 'MICROS' },
+    });
+    expect(findField(parquetSchema, '$updatedAt')?.convertedType).toBe('TIMESTAMP_MICROS');
+    expect(findField(parquetSchema, 'opens')).toMatchObject({
+      type: 'INT64',
+      convertedType: 'TIME_MICROS',
+      logicalType: { type: 'TIME', unit: 'MICROS' },
+    });
+  });
+
+  it('should map timestamps and times to nanoseconds without a ConvertedType', () => {
+    const parquetSchema = generateParquetSchema(createTemporalSchema(), { timestampUnit: 'nanos' });
+
+    const at = findField(parquetSchema, 'atTz');
+    expect(at?.type).toBe('INT64');
+    expect(at?.convertedType).toBeUndefined();
+    expect(at?.logicalType).toEqual({ type: 'TIMESTAMP', isAdjustedToUTC: true, unit: 'NANOS' });
+    expect(findField(parquetSchema, 'opens')?.logicalType).toEqual({
+      type: 'TIME',
+      isAdjustedToUTC: false,
+      unit: 'NANOS',
+    });
+    expect(findField(parquetSchema, '$createdAt')?.logicalType?.unit).toBe('NANOS');
+  });
+
+  it('should write timestamps as INT96 in compatibility mode', () => {
+    const parquetSchema = generateParquetSchema(createTemporalSchema(), { int96Timestamps: true });
+
+    for (const name of ['at', 'atTz', '$createdAt']) {
+      const field = findField(parquetSchema, name);
+      expect(field?.type).toBe('INT96');
+      expect(field?.convertedType).toBeUndefined();
+      expect(field?.logicalType).toBeUndefined();
+    }
+    expect(findField(parquetSchema, 'opens')?.type).toBe('INT32');
+  });
+
+  it('should omit ConvertedType annotations in logical-types-only mode', () => {
+    const parquetSchema = generateParquetSchema(createTemporalSchema(), { logicalTypesOnly: true });
+
+    const tags = findField(parquetSchema, 'tags');
+    expect(tags?.convertedType).toBeUndefined();
+    expect(tags?.logicalType?.type).toBe('LIST');
+    expect(tags?.children?.[0]?.children?.[0]?.convertedType).toBeUndefined();
+    expect(tags?.children?.[0]?.children?.[0]?.logicalType?.type).toBe('STRING');
+    expect(findField(parquetSchema, '$id')?.convertedType).toBeUndefined();
+    expect(findField(parquetSchema, 'price')?.logicalType).toEqual({ type: 'DECIMAL', precision: 9, scale: 2 });
+  });
+
+  it('should choose decimal storage by precision', () => {
+    const parquetSchema = generateParquetSchema(createTemporalSchema());
+
+    expect(findField(parquetSchema, 'price')?.type).toBe('INT32');
+    expect(findField(parquetSchema, 'total')?.type).toBe('INT64');
+    expect(findField(parquetSchema, 'balance')).toMatchObject({ type: 'FIXED_LEN_BYTE_ARRAY', typeLength: 16 });
+  });
+
+  it('should show LogicalType annotations in the schema string', () => {
+    const schemaString = generateParquetSchemaString(createTemporalSchema(), {
+      timestampUnit: 'nanos',
+      logicalTypesOnly: true,
+    });
+
+    expect(schemaString).toContain('REQUIRED INT64 at (TIMESTAMP(NANOS,false));');
+    expect(schemaString).toContain('REQUIRED INT64 atTz (TIMESTAMP(NANOS,true));');
+    expect(schemaString).toContain('REQUIRED INT32 price (DECIMAL(9,2));');
+    expect(schemaString).toContain('REQUIRED group tags (LIST)');
+  });
+
+  it('should pass options through createParquetSchemaGenerator()', () => {
+    const generator = createParquetSchemaGenerator({ timestampUnit: 'micros' });
+    const parquetSchema = generator.generateSchema(createTemporalSchema());
+
+    expect(findField(parquetSchema, 'at')?.convertedType).toBe('TIMESTAMP_MICROS');
+  });
+});
+
 // =============================================================================
 // Document Conversion Tests
 // =============================================================================
@@ -670,6 +840,40 @@ describe('documentToParquetRow()', () => {
     expect(row.id).toBe('550e8400e29b41d4a716446655440000');
   });
 
+  it('should convert dates, times and ISO timestamps', () => {
+    const schema = parseSchema({
+      $type: 'Shift',
+      day: 'date',
+      starts: 'time',
+      clockedIn: 'timestamp',
+      sequence: 'bigint',
+    });
+    const parquetSchema = generateParquetSchema(schema);
+
+    const row = documentToParquetRow(
+      {
+        day: '2024-03-01',
+        starts: '09:30:15.5',
+        clockedIn: '2024-03-01T09:30:00.000Z',
+        sequence: 9007199254740993n,
+      },
+      parquetSchema
+    );
+
+    expect(row.day).toBe(19783);
+    expect(row.starts).toBe(34_215_500);
+    expect(row.clockedIn).toBe(Date.UTC(2024, 2, 1, 9, 30));
+    expect(row.sequence).toBe(9007199254740993n);
+  });
+
+  it('should pass binary values through unchanged', () => {
+    const schema = parseSchema({ $type: 'Attachment', content: 'binary' });
+    const parquetSchema = generateParquetSchema(schema);
+    const content = new Uint8Array([1, 2, 3]);
+
+    expect(documentToParquetRow({ content }, parquetSchema).content).toBe(content);
+  });
+
   it('should handle array values', () => {
     const schema = createArraySchema();
     const parquetSchema = generateParquetSchema(schema);
@@ -693,4 +897,176 @@ describe('documentToParquetRow()', () => {
     expect(row.ratings).toEqual([5, 4, 3]);
     expect(row.scores).toEqual([9.5, 8.7]);
   });
+
+  it('should convert struct values field by field', () => {
+    const schema = parseSchema({
+      $type: 'Customer',
+      $structs: { Address: { street: 'string!', zip: 'int?' } },
+      address: 'struct<Address>',
+      previous: 'struct<Address>[]',
+    });
+    const parquetSchema = generateParquetSchema(schema);
+
+    const row = documentToParquetRow(
+      {
+        address: { street: 'Main St', zip: 12345.7 },
+        previous: [{ street: 'Old Rd' }],
+      },
+      parquetSchema
+    );
+
+    expect(row.address).toEqual({ street: 'Main St', zip: 12345 });
+    expect(row.previous).toEqual([{ street: 'Old Rd', zip: null }]);
+  });
+
+  it('should convert timestamps to the column unit', () => {
+    const schema = parseSchema({ $type: 'Event', at: 'timestamp', opens: 'time' });
+    const doc = { at: '2024-03-01T12:00:00.123456789Z', opens: '09:30:00.500123' };
+
+    const millis = documentToParquetRow(doc, generateParquetSchema(schema));
+    expect(millis.at).toBe(1709294400123);
+    expect(millis.opens).toBe(34200500);
+
+    const micros = documentToParquetRow(doc, generateParquetSchema(schema, { timestampUnit: 'micros' }));
+    expect(micros.at).toBe(1709294400123456n);
+    expect(micros.opens).toBe(34200500123n);
+
+    const nanos = documentToParquetRow(doc, generateParquetSchema(schema, { timestampUnit: 'nanos' }));
+    expect(nanos.at).toBe(1709294400123456789n);
+    expect(nanos.opens).toBe(34200500123000n);
+  });
+
+  it('should scale dates and epoch milliseconds for finer units', () => {
+    const schema = parseSchema({ $type: 'Event', at: 'timestamp', seen: 'timestamp' });
+    const parquetSchema = generateParquetSchema(schema, { timestampUnit: 'nanos' });
+
+    const row = documentToParquetRow({ at: new Date(Date.UTC(2024, 2, 1)), seen: 1500 }, parquetSchema);
+
+    expect(row.at).toBe(1709251200000000000n);
+    expect(row.seen).toBe(1500000000n);
+  });
+
+  it('should convert INT96 timestamps to nanoseconds', () => {
+    const schema = parseSchema({ $type: 'Event', at: 'timestamp' });
+    const parquetSchema = generateParquetSchema(schema, { int96Timestamps: true });
+
+    const row = documentToParquetRow({ at: '2024-03-01T00:00:00.000001Z' }, parquetSchema);
+
+    expect(row.at).toBe(1709251200000001000n);
+  });
+
+  it('should reject values that are not timestamps', () => {
+    const schema = parseSchema({ $type: 'Event', at: 'timestamp' });
+    const parquetSchema = generateParquetSchema(schema, { timestampUnit: 'micros' });
+
+    expect(() => documentToParquetRow({ at: 'yesterday' }, parquetSchema)).toThrow(
+      "Invalid value for column 'at': expected a date, time or timestamp, got 'yesterday'"
+    );
+  });
+
+  it('should keep decimals as text whatever the physical type', () => {
+    const schema = parseSchema({ $type: 'Account', small: 'decimal(9,2)', large: 'decimal(30,2)' });
+    const parquetSchema = generateParquetSchema(schema, { logicalTypesOnly: true });
+
+    const row = documentToParquetRow({ small: 12.5, large: '123456789012345678.25' }, parquetSchema);
+
+    expect(row.small).toBe('12.5');
+    expect(row.large).toBe('123456789012345678.25');
+  });
+});
+
+// =============================================================================
+// Iceberg Schemas
+// =============================================================================
+
+describe('icebergSchemaToParquetSchema()', () => {
+  const icebergSchema: IcebergSchema = {
+    type: 'struct',
+    schemaId: 0,
+    identifierFieldIds: [],
+    fields: [
+      { id: 1, name: 'id', required: true, type: { type: 'uuid' } },
+      { id: 2, name: 'count', required: false, type: { type: 'long' } },
+      { id: 3, name: 'at', required: true, type: { type: 'timestamptz' } },
+      { id: 4, name: 'starts', required: false, type: { type: 'time' } },
+      { id: 5, name: 'price', required: false, type: { type: 'decimal', precision: 10, scale: 2 } },
+      {
+        id: 6,
+        name: 'tags',
+        required: false,
+        type: { type: 'list', elementId: 8, elementType: { type: 'string' }, elementRequired: true },
+      },
+      {
+        id: 7,
+        name: 'attrs',
+        required: false,
+        type: { type: 'map', keyId: 9, keyType: { type: 'string' }, valueId: 10, valueType: { type: 'int' } },
+      },
+    ],
+  };
+
+  it('should carry field IDs on columns, list elements and map keys and values', () => {
+    const parquetSchema = icebergSchemaToParquetSchema(icebergSchema);
+
+    expect(parquetSchema.name).toBe('table');
+    expect(parquetSchema.fields.map((field) => field.fieldId)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(parquetSchema.fields[5]!.children![0]!.children![0]).toMatchObject({
+      name: 'element',
+      repetition: 'REQUIRED',
+      fieldId: 8,
+    });
+    const [key, value] = parquetSchema.fields[6]!.children![0]!.children!;
+    expect(key).toMatchObject({ name: 'key', repetition: 'REQUIRED', fieldId: 9 });
+    expect(value).toMatchObject({ name: 'value', repetition: 'OPTIONAL', fieldId: 10, type: 'INT32' });
+  });
+
+  it('should store timestamps and times in microseconds and decimals as fixed bytes', () => {
+    const [id, count, at, starts, price] = icebergSchemaToParquetSchema(icebergSchema).fields;
+
+    expect(id).toMatchObject({ type: 'FIXED_LEN_BYTE_ARRAY', typeLength: 16, logicalType: { type: 'UUID' } });
+    expect(count).toMatchObject({ type: 'INT64', repetition: 'OPTIONAL' });
+    expect(at).toMatchObject({
+      type: 'INT64',
+      logicalType: { type: 'TIMESTAMP', isAdjustedToUTC: true, unit: 'MICROS' },
+    });
+    expect(starts).toMatchObject({ type: 'INT64', convertedType: 'TIME_MICROS' });
+    expect(price).toMatchObject({ type: 'FIXED_LEN_BYTE_ARRAY', typeLength: 5, precision: 10, scale: 2 });
+  });
+
+  it('should convert documents for the Iceberg layout', () => {
+    const row = documentToParquetRow(
+      {
+        at: '2024-03-01T00:00:00.5Z',
+        starts: '09:30:00.25',
+        attrs: { a: 1, b: '2' },
+      },
+      icebergSchemaToParquetSchema(icebergSchema)
+    );
+
+    expect(row.at).toBe(1709251200500000n);
+    expect(row.starts).toBe(34_200_250_000n);
+    expect(row.attrs).toEqual([
+      { key: 'a', value: 1 },
+      { key: 'b', value: 2 },
+    ]);
+  });
+
+  it('should reject lists without element IDs and variant columns', () => {
+    expect(() =>
+      icebergSchemaToParquetSchema({
+        type: 'struct',
+        schemaId: 0,
+        identifierFieldIds: [],
+        fields: [{ id: 1, name: 'tags', required: false, type: { type: 'list', elementType: { type: 'string' } } }],
+      })
+    ).toThrow("List column 'tags' needs an element type and element ID");
+    expect(() =>
+      icebergSchemaToParquetSchema({
+        type: 'struct',
+        schemaId: 0,
+        identifierFieldIds: [],
+        fields: [{ id: 1, name: 'doc', required: false, type: { type: 'variant' } }],
+      })
+    ).toThrow('cannot be written to Parquet yet');
+  });
 });
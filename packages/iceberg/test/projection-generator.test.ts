@@ -11,6 +11,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { parseSchema, type IceTypeSchema } from '@icetype/core';
 import {
   generateProjectionSchema,
+  generateProjectionSortOrder,
   ProjectionSchemaGenerator,
   createProjectionSchemaGenerator,
 } from '../src/projection-generator.js';
@@ -357,6 +358,51 @@ describe('generateProjectionSchema()', () => {
   });
 });
 
+describe('generateProjectionSortOrder()', () => {
+  let schemas: Map<string, IceTypeSchema>;
+
+  beforeEach(() => {
+    schemas = createRelatedSchemas();
+  });
+
+  it('should inherit the source entity sort order', () => {
+    schemas.set('Order', parseSchema({ $type: 'Order', $orderBy: ['createdAt DESC'], id: 'uuid!', createdAt: 'timestamp!' }));
+    const projection = { $type: 'OrdersFlat', $projection: 'olap' as const, $from: 'Order' };
+
+    const icebergSchema = generateProjectionSchema(projection, schemas);
+    const sortOrder = generateProjectionSortOrder(projection, schemas);
+
+    expect(sortOrder).toEqual({
+      orderId: 1,
+      fields: [
+        {
+          transform: 'identity',
+          sourceId: icebergSchema.fields.find(f => f.name === 'createdAt')?.id,
+          direction: 'desc',
+          nullOrder: 'nulls-last',
+        },
+      ],
+    });
+  });
+
+  it('should prefer the projection sort order and drop keys it does not carry', () => {
+    const projection = {
+      ...createSimpleProjection(),
+      $orderBy: ['customer_name', 'missing DESC', { field: 'total', direction: 'desc' as const }],
+    };
+
+    const sortOrder = generateProjectionSortOrder(projection, schemas);
+
+    expect(sortOrder.fields.map(f => f.direction)).toEqual(['asc', 'desc']);
+  });
+
+  it('should leave projections without a sort order unsorted', () => {
+    const projection = { $type: 'OrdersFlat', $projection: 'olap' as const, $from: 'Order' };
+
+    expect(generateProjectionSortOrder(projection, schemas)).toEqual({ orderId: 0, fields: [] });
+  });
+});
+
 // =============================================================================
 // Edge Case Tests
 // =============================================================================
@@ -0,0 +1,321 @@
+/**
+ * Tests for IcebergTableWriter
+ *
+ * Tables are written to temporary directories and read back through their
+ * metadata, manifest lists and manifests.
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseSchema } from '@icetype/core';
+import type { IceTypeSchema } from '@icetype/core';
+import { decodeAvroContainer } from '../src/avro.js';
+import { IcebergMetadataGenerator, parseIcebergMetadata } from '../src/metadata.js';
+import { writeIcebergSpecMetadata } from '../src/spec.js';
+import { IcebergTableWriter, createIcebergTableWriter } from '../src/table-writer.js';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createEventSchema(): IceTypeSchema {
+  return parseSchema({
+    $type: 'Event',
+    $partitionBy: ['day(occurredAt)'],
+    id: 'uuid!',
+    name: 'string!',
+    amount: 'int?',
+    tags: 'string[]',
+    occurredAt: 'timestamp!',
+  });
+}
+
+function createEvents(count: number, day = '2024-03-01'): Record<string, unknown>[] {
+  return Array.from({ length: count }, (_, i) => ({
+    $id: `event-${i}`,
+    $type: 'Event',
+    $version: 1,
+    $createdAt: 1709251200000,
+    $updatedAt: 1709251200000,
+    id: `00000000-0000-4000-8000-${String(i).padStart(12, '0')}`,
+    name: `event-${i}`,
+    amount: i % 3 === 0 ? null : i * 10,
+    tags: ['a', `t${i}`],
+    occurredAt: `${day}T${String(i % 24).padStart(2, '0')}:00:00Z`,
+  }));
+}
+
+function readJson(path: string): Record<string, unknown> {
+  return JSON.parse(readFileSync(path, 'utf-8')) as Record<string, unknown>;
+}
+
+function readAvro(path: string): Record<string, unknown>[] {
+  return decodeAvroContainer(new Uint8Array(readFileSync(path))).records as Record<string, unknown>[];
+}
+
+let location: string;
+
+beforeEach(() => {
+  location = join(mkdtempSync(join(tmpdir(), 'icetype-iceberg-')), 'events');
+});
+
+afterEach(() => {
+  rmSync(join(location, '..'), { recursive: true, force: true });
+});
+
+// =============================================================================
+// Construction
+// =============================================================================
+
+describe('IcebergTableWriter', () => {
+  it('should accept absolute paths and file:// URIs', () => {
+    expect(new IcebergTableWriter({ location: `${location}/` }).location).toBe(location);
+    expect(createIcebergTableWriter({ location: `file://${location}` }).location).toBe(`file://${location}`);
+  });
+
+  it('should reject object store and relative locations', () => {
+    expect(() => new IcebergTableWriter({ location: 's3://bucket/events' })).toThrow(
+      "location must be an absolute path or file:// URI, got 's3://bucket/events'"
+    );
+    expect(() => new IcebergTableWriter({ location: 'tables/events' })).toThrow('absolute path');
+  });
+});
+
+// =============================================================================
+// Creating Tables
+// =============================================================================
+
+describe('IcebergTableWriter.create()', () => {
+  it('should write v1.metadata.json and the version hint', async () => {
+    const writer = new IcebergTableWriter({ location, schema: createEventSchema() });
+    const metadata = await writer.create();
+
+    expect(metadata.formatVersion).toBe(2);
+    expect(metadata.location).toBe(location);
+    expect(readFileSync(join(location, 'metadata', 'version-hint.text'), 'utf-8')).toBe('1');
+
+    const json = readJson(join(location, 'metadata', 'v1.metadata.json'));
+    expect(json['format-version']).toBe(2);
+    expect(json['last-sequence-number']).toBe(0);
+    expect(json).not.toHaveProperty('current-snapshot-id');
+  });
+
+  it('should assign field IDs to list elements', async () => {
+    const metadata = await new IcebergTableWriter({ location, schema: createEventSchema() }).create();
+    const tags = metadata.schemas[0]!.fields.find((field) => field.name === 'tags')!;
+
+    expect(tags.type.type).toBe('list');
+    expect(tags.type.elementId).toBeGreaterThan(0);
+    expect(metadata.lastColumnId).toBeGreaterThanOrEqual(tags.type.elementId!);
+  });
+
+  it('should return an existing table unchanged', async () => {
+    const first = await new IcebergTableWriter({ location, schema: createEventSchema() }).create();
+    const second = await new IcebergTableWriter({ location }).create();
+
+    expect(second.tableUuid).toBe(first.tableUuid);
+    expect(readdirSync(join(location, 'metadata')).filter((name) => name.endsWith('.metadata.json'))).toEqual([
+      'v1.metadata.json',
+    ]);
+  });
+
+  it('should require a schema when there is no table', async () => {
+    await expect(new IcebergTableWriter({ location }).create()).rejects.toThrow(
+      `No Iceberg table at ${location}; pass a schema to create one`
+    );
+    expect(await new IcebergTableWriter({ location }).load()).toBeUndefined();
+  });
+
+  it('should only create format version 2 tables', async () => {
+    const writer = new IcebergTableWriter({ location, schema: createEventSchema(), formatVersion: 1 });
+    await expect(writer.create()).rejects.toThrow('creates format version 2 tables, not version 1');
+  });
+});
+
+// =============================================================================
+// Appending
+// =============================================================================
+
+describe('IcebergTableWriter.append()', () => {
+  it('should write one data file per partition', async () => {
+    const writer = new IcebergTableWriter({ location, schema: createEventSchema() });
+    const result = await writer.append([...createEvents(3, '2024-03-01'), ...createEvents(2, '2024-03-02')]);
+
+    expect(result.version).toBe(2);
+    expect(result.attempts).toBe(1);
+    expect(result.dataFiles).toHaveLength(2);
+    expect(result.dataFiles.map((file) => file.recordCount)).toEqual([3, 2]);
+    expect(result.dataFiles[0]!.partition).toEqual({ occurredAt_day: 19783 });
+    expect(result.dataFiles[0]!.path).toContain(`${location}/data/occurredAt_day=2024-03-01/`);
+    expect(result.dataFiles[1]!.path).toContain(`${location}/data/occurredAt_day=2024-03-02/`);
+
+    for (const file of result.dataFiles) {
+      const bytes = readFileSync(file.path);
+      expect(bytes.length).toBe(file.fileSizeInBytes);
+      expect(bytes.subarray(0, 4).toString()).toBe('PAR1');
+    }
+  });
+
+  it('should commit a snapshot in the next metadata version', async () => {
+    const writer = new IcebergTableWriter({ location, schema: createEventSchema() });
+    const { snapshot, metadata, metadataFile } = await writer.append(createEvents(5));
+
+    expect(metadataFile).toBe(`${location}/metadata/v2.metadata.json`);
+    expect(readFileSync(join(location, 'metadata', 'version-hint.text'), 'utf-8')).toBe('2');
+    expect(metadata.currentSnapshotId).toBe(snapshot.snapshotId);
+    expect(metadata.lastSequenceNumber).toBe(1);
+    expect(metadata.refs?.main?.snapshotId).toBe(snapshot.snapshotId);
+    expect(metadata.metadataLog).toEqual([expect.objectContaining({ metadataFile: `${location}/metadata/v1.metadata.json` })]);
+    expect(snapshot.summary).toMatchObject({
+      operation: 'append',
+      'added-data-files': '1',
+      'added-records': '5',
+      'total-records': '5',
+      'total-data-files': '1',
+    });
+
+    const loaded = await writer.load();
+    expect(loaded?.currentSnapshotId).toBe(snapshot.snapshotId);
+    expect(parseIcebergMetadata(readFileSync(metadataFile, 'utf-8')).snapshots).toHaveLength(1);
+  });
+
+  it('should record data files in a manifest listed by the snapshot', async () => {
+    const writer = new IcebergTableWriter({ location, schema: createEventSchema() });
+    const { snapshot, dataFiles } = await writer.append(createEvents(4));
+
+    const [listed] = readAvro(snapshot.manifestList);
+    expect(listed).toMatchObject({
+      partition_spec_id: 0,
+      content: 0,
+      sequence_number: 1,
+      added_snapshot_id: snapshot.snapshotId,
+      added_files_count: 1,
+      added_rows_count: 4,
+    });
+
+    const manifest = decodeAvroContainer(new Uint8Array(readFileSync(listed!.manifest_path as string)));
+    expect(manifest.metadata['format-version']).toBe('2');
+    expect(manifest.metadata.content).toBe('data');
+    expect(JSON.parse(manifest.metadata['partition-spec']!)).toEqual([
+      expect.objectContaining({ name: 'occurredAt_day', transform: 'day' }),
+    ]);
+
+    const [entry] = manifest.records as Array<{ status: number; data_file: Record<string, unknown> }>;
+    expect(entry!.status).toBe(1);
+    expect(entry!.data_file).toMatchObject({
+      file_path: dataFiles[0]!.path,
+      file_format: 'PARQUET',
+      partition: { occurredAt_day: 19783 },
+      record_count: 4,
+      file_size_in_bytes: dataFiles[0]!.fileSizeInBytes,
+    });
+  });
+
+  it('should record column metrics and bounds', async () => {
+    const writer = new IcebergTableWriter({ location, schema: createEventSchema() });
+    const { snapshot, metadata } = await writer.append(createEvents(4));
+
+    const fields = metadata.schemas[0]!.fields;
+    const fieldId = (name: string): number => fields.find((field) => field.name === name)!.id;
+    const [listed] = readAvro(snapshot.manifestList);
+    const [entry] = readAvro(listed!.manifest_path as string) as Array<{ data_file: Record<string, unknown> }>;
+    const metric = (name: string, id: number): unknown =>
+      (entry!.data_file[name] as Array<{ key: number; value: unknown }>).find((item) => item.key === id)?.value;
+
+    expect(metric('value_counts', fieldId('name'))).toBe(4);
+    expect(metric('null_value_counts', fieldId('amount'))).toBe(2);
+    expect(metric('lower_bounds', fieldId('name'))).toEqual(new TextEncoder().encode('event-0'));
+    expect(metric('upper_bounds', fieldId('amount'))).toEqual(new Uint8Array([20, 0, 0, 0]));
+    // Columns inside lists have no bounds
+    expect(metric('value_counts', fields.find((field) => field.name === 'tags')!.type.elementId!)).toBe(8);
+    expect(metric('lower_bounds', fields.find((field) => field.name === 'tags')!.type.elementId!)).toBeUndefined();
+  });
+
+  it('should carry earlier manifests into later snapshots', async () => {
+    const writer = new IcebergTableWriter({ location, schema: createEventSchema() });
+    const first = await writer.append(createEvents(3));
+    const second = await writer.append(createEvents(2, '2024-03-05'));
+
+    expect(second.version).toBe(3);
+    expect(second.snapshot.parentSnapshotId).toBe(first.snapshot.snapshotId);
+    expect(second.snapshot.sequenceNumber).toBe(2);
+    expect(second.snapshot.summary).toMatchObject({ 'total-records': '5', 'total-data-files': '2' });
+
+    const manifests = readAvro(second.snapshot.manifestList);
+    expect(manifests.map((manifest) => manifest.added_snapshot_id)).toEqual([
+      second.snapshot.snapshotId,
+      first.snapshot.snapshotId,
+    ]);
+    expect(second.metadata.snapshots).toHaveLength(2);
+    expect(second.metadata.metadataLog).toHaveLength(2);
+  });
+
+  it('should rebase commits that lose to a concurrent writer', async () => {
+    await new IcebergTableWriter({ location, schema: createEventSchema() }).create();
+    const results = await Promise.all(
+      [0, 1, 2].map((i) => new IcebergTableWriter({ location }).append(createEvents(i + 1)))
+    );
+
+    expect(results.map((result) => result.version).sort()).toEqual([2, 3, 4]);
+    expect(Math.max(...results.map((result) => result.attempts))).toBeGreaterThan(1);
+    const metadata = (await new IcebergTableWriter({ location }).load())!;
+    expect(metadata.snapshots).toHaveLength(3);
+    expect(metadata.snapshots!.map((snapshot) => snapshot.sequenceNumber)).toEqual([1, 2, 3]);
+    const current = metadata.snapshots!.find((snapshot) => snapshot.snapshotId === metadata.currentSnapshotId)!;
+    expect(current.summary['total-records']).toBe('6');
+    expect(readAvro(current.manifestList)).toHaveLength(3);
+
+    // Manifests and manifest lists of lost attempts are removed
+    const avroFiles = readdirSync(join(location, 'metadata')).filter((name) => name.endsWith('.avro'));
+    expect(avroFiles).toHaveLength(6);
+  });
+
+  it('should find the latest version when the hint is missing or stale', async () => {
+    const writer = new IcebergTableWriter({ location, schema: createEventSchema() });
+    await writer.append(createEvents(1));
+    await writer.append(createEvents(1));
+
+    writeFileSync(join(location, 'metadata', 'version-hint.text'), '2');
+    expect((await writer.append(createEvents(1))).version).toBe(4);
+
+    rmSync(join(location, 'metadata', 'version-hint.text'));
+    expect((await writer.append(createEvents(1))).version).toBe(5);
+  });
+
+  it('should remove its data files when a document does not fit the schema', async () => {
+    const writer = new IcebergTableWriter({ location, schema: createEventSchema() });
+    await writer.create();
+
+    await expect(writer.append([...createEvents(2), { ...createEvents(1)[0], name: null }])).rejects.toThrow();
+    const data = join(location, 'data');
+    const files = existsSync(data) ? readdirSync(data, { recursive: true }).filter((name) => String(name).endsWith('.parquet')) : [];
+    expect(files).toEqual([]);
+    expect(readFileSync(join(location, 'metadata', 'version-hint.text'), 'utf-8')).toBe('1');
+  });
+
+  it('should reject tables that are not format version 2', async () => {
+    const schema = parseSchema({ $type: 'Event', name: 'string!' });
+    const metadata = new IcebergMetadataGenerator().generateTableMetadata(schema, {
+      location,
+      formatVersion: 1,
+    });
+    mkdirSync(join(location, 'metadata'), { recursive: true });
+    writeFileSync(join(location, 'metadata', 'v1.metadata.json'), JSON.stringify(writeIcebergSpecMetadata(metadata)));
+
+    await expect(new IcebergTableWriter({ location }).append(createEvents(1))).rejects.toThrow(
+      'writes format version 2 tables; the table at'
+    );
+  });
+
+  it('should accept async iterables', async () => {
+    async function* events(): AsyncGenerator<Record<string, unknown>> {
+      yield* createEvents(2);
+    }
+    const result = await new IcebergTableWriter({ location, schema: createEventSchema() }).append(events());
+    expect(result.snapshot.summary['added-records']).toBe('2');
+  });
+});
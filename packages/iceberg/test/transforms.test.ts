@@ -0,0 +1,221 @@
+/**
+ * Tests for Iceberg partition transforms, bucket hashing and value serialization
+ *
+ * Hash values are the reference values from the Iceberg specification.
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyIcebergTransform,
+  compareIcebergValues,
+  formatIcebergPartitionValue,
+  icebergBucketHash,
+  icebergTransformResultType,
+  murmur3Hash,
+  serializeIcebergJsonValue,
+  serializeIcebergValue,
+  toIcebergValue,
+} from '../src/transforms.js';
+import { encodeUtf8 } from '../src/thrift.js';
+import type { IcebergType } from '../src/types.js';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const INT: IcebergType = { type: 'int' };
+const LONG: IcebergType = { type: 'long' };
+const DATE: IcebergType = { type: 'date' };
+const TIMESTAMP: IcebergType = { type: 'timestamp' };
+const STRING: IcebergType = { type: 'string' };
+const UUID: IcebergType = { type: 'uuid' };
+const DECIMAL: IcebergType = { type: 'decimal', precision: 9, scale: 2 };
+
+/** 2017-11-16T22:31:08Z in microseconds */
+const TIMESTAMP_MICROS = BigInt(Date.UTC(2017, 10, 16, 22, 31, 8)) * 1000n;
+
+// =============================================================================
+// Bucket Hashing
+// =============================================================================
+
+describe('murmur3Hash()', () => {
+  it('should match the reference hashes for strings and bytes', () => {
+    expect(murmur3Hash(encodeUtf8('iceberg'))).toBe(1210000089);
+    expect(murmur3Hash(new Uint8Array([0, 1, 2, 3]))).toBe(-188683207);
+  });
+
+  it('should hash empty input to zero', () => {
+    expect(murmur3Hash(new Uint8Array(0))).toBe(0);
+  });
+});
+
+describe('icebergBucketHash()', () => {
+  it('should hash ints and longs as 8-byte longs', () => {
+    expect(icebergBucketHash(INT, 34)).toBe(2017239379);
+    expect(icebergBucketHash(LONG, 34n)).toBe(2017239379);
+  });
+
+  it('should match the reference hashes for temporal types', () => {
+    expect(icebergBucketHash(DATE, 17486)).toBe(-653330422);
+    expect(icebergBucketHash({ type: 'time' }, 81_068_000_000n)).toBe(-662762989);
+    expect(icebergBucketHash(TIMESTAMP, TIMESTAMP_MICROS)).toBe(-2047944441);
+  });
+
+  it('should match the reference hashes for decimals and uuids', () => {
+    expect(icebergBucketHash(DECIMAL, toIcebergValue(DECIMAL, '14.20'))).toBe(-500754589);
+    expect(icebergBucketHash(UUID, toIcebergValue(UUID, 'f79c3e09-677c-4bbd-a479-3f349cb785e7'))).toBe(1488055340);
+  });
+
+  it('should reject types that cannot be bucketed', () => {
+    expect(() => icebergBucketHash({ type: 'double' }, 1.5)).toThrow('Cannot bucket values of Iceberg type double');
+  });
+});
+
+// =============================================================================
+// Transforms
+// =============================================================================
+
+describe('applyIcebergTransform()', () => {
+  it('should bucket by the positive hash modulo N', () => {
+    expect(applyIcebergTransform('bucket[16]', STRING, 'iceberg')).toBe(1210000089 % 16);
+    expect(applyIcebergTransform('bucket[100]', INT, 34)).toBe(2017239379 % 100);
+  });
+
+  it('should truncate numbers toward negative infinity', () => {
+    expect(applyIcebergTransform('truncate[10]', INT, 1)).toBe(0);
+    expect(applyIcebergTransform('truncate[10]', INT, -1)).toBe(-10);
+    expect(applyIcebergTransform('truncate[10]', LONG, -1n)).toBe(-10n);
+    expect(applyIcebergTransform('truncate[50]', DECIMAL, 1065n)).toBe(1050n);
+  });
+
+  it('should truncate strings by code point and binary by byte', () => {
+    expect(applyIcebergTransform('truncate[3]', STRING, 'iceberg')).toBe('ice');
+    expect(applyIcebergTransform('truncate[2]', STRING, '😀😀😀')).toBe('😀😀');
+    expect(applyIcebergTransform('truncate[2]', { type: 'binary' }, new Uint8Array([1, 2, 3]))).toEqual(
+      new Uint8Array([1, 2])
+    );
+  });
+
+  it('should derive years, months, days and hours from timestamps', () => {
+    expect(applyIcebergTransform('year', TIMESTAMP, TIMESTAMP_MICROS)).toBe(47);
+    expect(applyIcebergTransform('month', TIMESTAMP, TIMESTAMP_MICROS)).toBe(47 * 12 + 10);
+    expect(applyIcebergTransform('day', TIMESTAMP, TIMESTAMP_MICROS)).toBe(17486);
+    expect(applyIcebergTransform('hour', TIMESTAMP, TIMESTAMP_MICROS)).toBe(17486 * 24 + 22);
+  });
+
+  it('should floor timestamps before the epoch', () => {
+    expect(applyIcebergTransform('day', TIMESTAMP, -1n)).toBe(-1);
+    expect(applyIcebergTransform('hour', TIMESTAMP, -1n)).toBe(-1);
+    expect(applyIcebergTransform('year', DATE, -1)).toBe(-1);
+  });
+
+  it('should pass identity values through and map nulls and void to null', () => {
+    expect(applyIcebergTransform('identity', STRING, 'x')).toBe('x');
+    expect(applyIcebergTransform('day', DATE, null)).toBeNull();
+    expect(applyIcebergTransform('void', STRING, 'x')).toBeNull();
+  });
+
+  it('should reject transforms that do not apply to the source type', () => {
+    expect(() => applyIcebergTransform('hour', DATE, 1)).toThrow("Cannot apply partition transform 'hour'");
+    expect(() => applyIcebergTransform('truncate[2]', { type: 'boolean' }, true)).toThrow(
+      'to Iceberg type boolean'
+    );
+  });
+});
+
+describe('icebergTransformResultType()', () => {
+  it('should return the type of the partition value', () => {
+    expect(icebergTransformResultType('identity', STRING)).toEqual(STRING);
+    expect(icebergTransformResultType('truncate[4]', STRING)).toEqual(STRING);
+    expect(icebergTransformResultType('bucket[8]', UUID)).toEqual({ type: 'int' });
+    expect(icebergTransformResultType('month', TIMESTAMP)).toEqual({ type: 'int' });
+    expect(icebergTransformResultType('day', TIMESTAMP)).toEqual({ type: 'date' });
+  });
+});
+
+// =============================================================================
+// Values
+// =============================================================================
+
+describe('toIcebergValue()', () => {
+  it('should convert converted row values to canonical values', () => {
+    expect(toIcebergValue(LONG, 5)).toBe(5n);
+    expect(toIcebergValue(TIMESTAMP, '1510871468000000')).toBe(TIMESTAMP_MICROS);
+    expect(toIcebergValue(DECIMAL, '-0.5')).toBe(-50n);
+    expect(toIcebergValue(STRING, undefined)).toBeNull();
+  });
+
+  it('should read ISO dates, times and timestamps', () => {
+    expect(toIcebergValue(DATE, '2017-11-16')).toBe(17486);
+    expect(toIcebergValue(TIMESTAMP, '2017-11-16T22:31:08')).toBe(TIMESTAMP_MICROS);
+    expect(toIcebergValue(TIMESTAMP, '2017-11-17T00:31:08.000001+02:00')).toBe(TIMESTAMP_MICROS + 1n);
+    expect(toIcebergValue({ type: 'time' }, '22:31:08.5')).toBe(81_068_500_000n);
+    expect(() => toIcebergValue(TIMESTAMP, 'tomorrow')).toThrow('Invalid timestamp value: tomorrow');
+  });
+
+  it('should reject invalid decimals', () => {
+    expect(() => toIcebergValue(DECIMAL, 'abc')).toThrow('Invalid decimal value: abc');
+  });
+});
+
+describe('compareIcebergValues()', () => {
+  it('should order numbers, booleans and strings by unsigned bytes', () => {
+    expect(compareIcebergValues(2, 10n)).toBeLessThan(0);
+    expect(compareIcebergValues(true, false)).toBeGreaterThan(0);
+    expect(compareIcebergValues('Z', 'a')).toBeLessThan(0);
+    expect(compareIcebergValues('é', 'z')).toBeGreaterThan(0);
+    expect(compareIcebergValues('ab', 'a')).toBeGreaterThan(0);
+  });
+});
+
+describe('serializeIcebergValue()', () => {
+  it('should write fixed-width little-endian numbers', () => {
+    expect([...serializeIcebergValue(INT, 1)]).toEqual([1, 0, 0, 0]);
+    expect([...serializeIcebergValue(LONG, -2n)]).toEqual([254, 255, 255, 255, 255, 255, 255, 255]);
+    expect([...serializeIcebergValue({ type: 'boolean' }, true)]).toEqual([1]);
+    expect([...serializeIcebergValue({ type: 'double' }, 1)]).toEqual([0, 0, 0, 0, 0, 0, 0xf0, 0x3f]);
+  });
+
+  it('should write strings as UTF-8 and decimals as minimal two\'s complement', () => {
+    expect(serializeIcebergValue(STRING, 'é')).toEqual(new Uint8Array([0xc3, 0xa9]));
+    expect([...serializeIcebergValue(DECIMAL, 1420n)]).toEqual([0x05, 0x8c]);
+    expect([...serializeIcebergValue(DECIMAL, -1n)]).toEqual([0xff]);
+  });
+});
+
+describe('serializeIcebergJsonValue()', () => {
+  it('should write decimals at their scale and temporal values in ISO form', () => {
+    expect(serializeIcebergJsonValue(DECIMAL, 150n)).toBe('1.50');
+    expect(serializeIcebergJsonValue(DECIMAL, -5n)).toBe('-0.05');
+    expect(serializeIcebergJsonValue(DATE, 17486)).toBe('2017-11-16');
+    expect(serializeIcebergJsonValue({ type: 'time' }, 81_068_123_456n)).toBe('22:31:08.123456');
+    expect(serializeIcebergJsonValue(TIMESTAMP, TIMESTAMP_MICROS + 123_456n)).toBe('2017-11-16T22:31:08.123456');
+    expect(serializeIcebergJsonValue({ type: 'timestamptz' }, TIMESTAMP_MICROS)).toBe('2017-11-16T22:31:08.000000+00:00');
+  });
+
+  it('should write numbers as JSON numbers and bytes as strings', () => {
+    expect(serializeIcebergJsonValue(LONG, 5n)).toBe(5);
+    expect(serializeIcebergJsonValue(UUID, new Uint8Array(16).fill(0xab))).toBe('abababab-abab-abab-abab-abababababab');
+    expect(serializeIcebergJsonValue({ type: 'binary' }, new Uint8Array([0, 1, 255]))).toBe('0001ff');
+  });
+});
+
+describe('formatIcebergPartitionValue()', () => {
+  it('should format temporal partition values', () => {
+    expect(formatIcebergPartitionValue('year', { type: 'int' }, 47)).toBe('2017');
+    expect(formatIcebergPartitionValue('month', { type: 'int' }, 47 * 12 + 10)).toBe('2017-11');
+    expect(formatIcebergPartitionValue('day', DATE, 17486)).toBe('2017-11-16');
+    expect(formatIcebergPartitionValue('hour', { type: 'int' }, 17486 * 24 + 22)).toBe('2017-11-16-22');
+  });
+
+  it('should format uuids, bytes, decimals and nulls', () => {
+    const uuid = toIcebergValue(UUID, 'f79c3e09-677c-4bbd-a479-3f349cb785e7');
+    expect(formatIcebergPartitionValue('identity', UUID, uuid)).toBe('f79c3e09-677c-4bbd-a479-3f349cb785e7');
+    expect(formatIcebergPartitionValue('identity', { type: 'binary' }, new Uint8Array([1, 2]))).toBe('AQI=');
+    expect(formatIcebergPartitionValue('identity', DECIMAL, -5n)).toBe('-0.05');
+    expect(formatIcebergPartitionValue('bucket[4]', { type: 'int' }, 3)).toBe('3');
+    expect(formatIcebergPartitionValue('identity', STRING, null)).toBe('null');
+  });
+});
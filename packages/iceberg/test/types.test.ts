@@ -182,7 +182,7 @@ describe('Decimal with precision/scale', () => {
   });
 
   describe('Parquet decimal type', () => {
-    it('should map decimal to BYTE_ARRAY with DECIMAL converted type', () => {
+    it('should map decimal to FIXED_LEN_BYTE_ARRAY with DECIMAL converted type', () => {
       const schema = parseSchema({
         $type: 'Account',
         balance: 'decimal',
@@ -190,10 +190,28 @@ describe('Decimal with precision/scale', () => {
       const parquetSchema = generateParquetSchema(schema);
 
       const balanceField = parquetSchema.fields.find(f => f.name === 'balance');
-      expect(balanceField?.type).toBe('BYTE_ARRAY');
+      expect(balanceField?.type).toBe('FIXED_LEN_BYTE_ARRAY');
+      expect(balanceField?.typeLength).toBe(16);
       expect(balanceField?.convertedType).toBe('DECIMAL');
     });
 
+    it('should store decimals in the smallest physical type for their precision', () => {
+      const schema = parseSchema({
+        $type: 'Account',
+        small: 'decimal(9,2)',
+        medium: 'decimal(18,4)',
+        large: 'decimal(20,2)',
+      });
+      const parquetSchema = generateParquetSchema(schema);
+      const field = (name: string) => parquetSchema.fields.find(f => f.name === name);
+
+      expect(field('small')?.type).toBe('INT32');
+      expect(field('medium')?.type).toBe('INT64');
+      expect(field('large')?.type).toBe('FIXED_LEN_BYTE_ARRAY');
+      expect(field('large')?.typeLength).toBe(9);
+      expect(field('medium')?.logicalType).toEqual({ type: 'DECIMAL', precision: 18, scale: 4 });
+    });
+
     it('should include precision and scale in Parquet decimal', () => {
       const schema = parseSchema({
         $type: 'Account',
@@ -0,0 +1,176 @@
+/**
+ * Embedded Database Integration Tests
+ *
+ * Tests IceType PostgreSQL and DuckDB DDL generation against in-process
+ * engines (PGlite and the DuckDB node bindings) through the migration
+ * executors. Unlike the testcontainers suites these need no Docker.
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { parseSchema, createSchemaVersion, diffSchemas, type Migration } from '@icetype/core';
+import { transformToPostgresDDL, PostgresMigrationGenerator } from '@icetype/postgres';
+import { transformToDuckDBDDL } from '@icetype/duckdb';
+import {
+  createDatabaseExecutor,
+  createMigrationRunner,
+  splitSqlStatements,
+  type DatabaseConnection,
+} from '@icetype/migrations';
+
+// Lowercase type names because PostgreSQL lowercases unquoted identifiers
+const ProductSchema = parseSchema({
+  $type: 'product',
+  id: 'uuid!',
+  sku: 'string#',
+  description: 'text',
+  inventory: 'int',
+  weight: 'float?',
+  tags: 'string[]',
+  createdAt: 'timestamp',
+});
+
+const migration = (id: string): Migration => ({
+  id,
+  fromVersion: createSchemaVersion(1, 0, 0),
+  toVersion: createSchemaVersion(1, 1, 0),
+  timestamp: new Date(),
+  operations: [],
+  isBreaking: false,
+});
+
+const ENGINES = [
+  {
+    name: 'PGlite',
+    url: 'pglite::memory:',
+    ddl: () => transformToPostgresDDL(ProductSchema, { ifNotExists: true }),
+  },
+  {
+    name: 'DuckDB',
+    url: 'duckdb::memory:',
+    ddl: () => transformToDuckDBDDL(ProductSchema, { ifNotExists: true }),
+  },
+];
+
+describe.each(ENGINES)('$name Integration Tests', ({ url, ddl }) => {
+  let db: DatabaseConnection;
+
+  beforeEach(async () => {
+    db = await createDatabaseExecutor(url);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should create a table from the generated DDL', async () => {
+    const result = await createMigrationRunner(db).run(migration('001'), splitSqlStatements(ddl()));
+    expect(result.success).toBe(true);
+
+    const columns = await db.query<{ column_name: string }>(
+      `SELECT column_name FROM information_schema.columns WHERE table_name = 'product' ORDER BY ordinal_position`
+    );
+    // PostgreSQL folds unquoted identifiers to lowercase; DuckDB keeps their case
+    expect(columns.map((c) => c.column_name.toLowerCase())).toEqual([
+      '$id', '$type', '$version', '$createdat', '$updatedat',
+      'id', 'sku', 'description', 'inventory', 'weight', 'tags', 'createdat',
+    ]);
+  });
+
+  it('should insert and read back a row', async () => {
+    await createMigrationRunner(db).run(migration('001'), splitSqlStatements(ddl()));
+
+    await db.execute(`
+      INSERT INTO product ("$id", "$type", "$createdAt", "$updatedAt", id, sku, description, inventory, tags, createdAt)
+      VALUES ('p1', 'product', 0, 0, '00000000-0000-0000-0000-000000000001', 'SKU-1', 'A product', 3, ARRAY['a', 'b'], TIMESTAMP '2024-01-01 00:00:00')
+    `);
+
+    const rows = await db.query<{ sku: string; inventory: number }>(`SELECT sku, inventory FROM product`);
+    expect(rows).toEqual([{ sku: 'SKU-1', inventory: 3 }]);
+  });
+
+  it('should roll back a migration whose statements fail', async () => {
+    const runner = createMigrationRunner(db);
+    await runner.run(migration('001'), splitSqlStatements(ddl()));
+
+    const result = await runner.run(migration('002'), [
+      'ALTER TABLE product ADD COLUMN note TEXT',
+      'ALTER TABLE missing ADD COLUMN x TEXT',
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.statementIndex).toBe(1);
+    const columns = await db.query<{ column_name: string }>(
+      `SELECT column_name FROM information_schema.columns WHERE table_name = 'product' AND column_name = 'note'`
+    );
+    expect(columns).toEqual([]);
+  });
+});
+
+describe('PGlite CHECK constraint migrations', () => {
+  const UserV1 = parseSchema({ $type: 'User', age: 'int', $constraints: { age: { min: 18 } } });
+  const UserV2 = parseSchema({ $type: 'User', age: 'int', $constraints: { age: { min: 0 } } });
+
+  let db: DatabaseConnection;
+
+  beforeEach(async () => {
+    db = await createDatabaseExecutor('pglite::memory:');
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should replace the constraint created by CREATE TABLE', async () => {
+    const runner = createMigrationRunner(db);
+    await runner.run(migration('001'), splitSqlStatements(transformToPostgresDDL(UserV1)));
+
+    const statements = new PostgresMigrationGenerator().generate(diffSchemas(UserV1, UserV2));
+    const result = await runner.run(migration('002'), statements);
+    expect(result.success).toBe(true);
+
+    const constraints = await db.query<{ conname: string }>(
+      `SELECT conname FROM pg_constraint WHERE conrelid = '"User"'::regclass AND contype = 'c'`
+    );
+    expect(constraints.map((c) => c.conname)).toEqual(['user_age_check']);
+
+    // The loosened constraint is the only one left
+    await db.execute(`INSERT INTO "User" ("$id", "$type", "$createdAt", "$updatedAt", age) VALUES ('u1', 'User', 0, 0, 5)`);
+    const rows = await db.query<{ age: number }>(`SELECT age FROM "User"`);
+    expect(rows).toEqual([{ age: 5 }]);
+  });
+});
+
+describe('PGlite partitioned tables', () => {
+  let db: DatabaseConnection;
+
+  beforeEach(async () => {
+    db = await createDatabaseExecutor('pglite::memory:');
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should create a sorted, partitioned table in one migration', async () => {
+    const EventSchema = parseSchema({
+      $type: 'event',
+      $partitionBy: ['month(createdAt)'],
+      $orderBy: ['createdAt'],
+      createdAt: 'timestamp!',
+    });
+
+    const result = await createMigrationRunner(db).run(
+      migration('001'),
+      splitSqlStatements(transformToPostgresDDL(EventSchema, { partitioned: true }))
+    );
+    expect(result.success).toBe(true);
+
+    const partitions = await db.query<{ relname: string }>(
+      `SELECT c.relname FROM pg_inherits i JOIN pg_class c ON c.oid = i.inhrelid WHERE i.inhparent = 'event'::regclass AND c.relkind = 'r'`
+    );
+    expect(partitions.map((p) => p.relname)).toEqual(['event_default']);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Iceberg Table Writer Integration Tests
+ *
+ * Appends documents to a local Iceberg table with IcebergTableWriter from
+ * @icetype/iceberg and reads the data files back with DuckDB. When DuckDB's
+ * iceberg extension can be loaded, the table is also read through
+ * iceberg_scan, following the metadata, manifest list and manifests.
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { parseSchema } from '@icetype/core';
+import { IcebergTableWriter, type IcebergAppendResult } from '@icetype/iceberg';
+import { createDatabaseExecutor, type DatabaseConnection } from '@icetype/migrations';
+
+const OrderSchema = parseSchema({
+  $type: 'Order',
+  $partitionBy: ['day(placedAt)', 'bucket(4, customer)'],
+  customer: 'string!',
+  total: 'decimal(10,2)!',
+  items: 'string[]',
+  note: 'string?',
+  placedAt: 'timestamp!',
+});
+
+const NOW = Date.UTC(2024, 2, 1);
+
+function createOrder(i: number, day: number): Record<string, unknown> {
+  return {
+    $id: `order-${day}-${i}`,
+    $type: 'Order',
+    $version: 1,
+    $createdAt: NOW,
+    $updatedAt: NOW,
+    customer: `customer-${i % 5}`,
+    total: `${i}.25`,
+    items: i % 4 === 0 ? [] : ['book', `item-${i}`],
+    note: i % 3 === 0 ? null : `note ${i}`,
+    placedAt: new Date(NOW + day * 86_400_000 + i * 60_000),
+  };
+}
+
+describe('Iceberg Table Writer Integration Tests', () => {
+  let dir: string;
+  let location: string;
+  let db: DatabaseConnection;
+  let first: IcebergAppendResult;
+  let second: IcebergAppendResult;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'icetype-iceberg-'));
+    location = join(dir, 'orders');
+    db = await createDatabaseExecutor('duckdb::memory:');
+
+    const writer = new IcebergTableWriter({ location, schema: OrderSchema });
+    first = await writer.append(Array.from({ length: 20 }, (_, i) => createOrder(i, 0)));
+    second = await writer.append(Array.from({ length: 10 }, (_, i) => createOrder(i, 1)));
+  });
+
+  afterAll(async () => {
+    await db.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should commit two snapshots', () => {
+    expect(first.version).toBe(2);
+    expect(second.version).toBe(3);
+    expect(second.snapshot.parentSnapshotId).toBe(first.snapshot.snapshotId);
+    expect(second.snapshot.summary['total-records']).toBe('30');
+    expect(Number(second.snapshot.summary['total-data-files'])).toBe(
+      first.dataFiles.length + second.dataFiles.length
+    );
+  });
+
+  it('should write data files DuckDB can read', async () => {
+    const [row] = await db.query<Record<string, string>>(`
+      SELECT
+        count(*)::VARCHAR AS rows,
+        count(note)::VARCHAR AS notes,
+        sum(total)::VARCHAR AS total,
+        sum(len(items))::VARCHAR AS items,
+        min(placedAt)::VARCHAR AS first_placed
+      FROM read_parquet('${location}/data/**/*.parquet', hive_partitioning = false)
+    `);
+
+    expect(row).toEqual({
+      rows: '30',
+      notes: '19',
+      total: '242.50',
+      items: String(2 * (15 + 7)),
+      first_placed: '2024-03-01 00:00:00',
+    });
+  });
+
+  it('should place rows in their partition directories', async () => {
+    const rows = await db.query<Record<string, string>>(`
+      SELECT DISTINCT
+        regexp_extract(filename, 'placedAt_day=([^/]+)', 1) AS day,
+        strftime(placedAt, '%Y-%m-%d') AS placed
+      FROM read_parquet('${location}/data/**/*.parquet', filename = true, hive_partitioning = false)
+      ORDER BY day
+    `);
+
+    expect(rows).toEqual([
+      { day: '2024-03-01', placed: '2024-03-01' },
+      { day: '2024-03-02', placed: '2024-03-02' },
+    ]);
+  });
+
+  it('should write Iceberg field IDs and the schema into each data file', async () => {
+    const path = first.dataFiles[0]!.path;
+    const fields = await db.query<Record<string, string>>(`
+      SELECT name, field_id::VARCHAR AS field_id
+      FROM parquet_schema('${path}')
+      WHERE field_id IS NOT NULL
+    `);
+    const ids = Object.fromEntries(fields.map((field) => [field.name, Number(field.field_id)]));
+    const schema = first.metadata.schemas.find((candidate) => candidate.schemaId === first.metadata.currentSchemaId)!;
+    const items = schema.fields.find((field) => field.name === 'items')!;
+
+    expect(ids.customer).toBe(schema.fields.find((field) => field.name === 'customer')!.id);
+    expect(ids.element).toBe(items.type.elementId);
+
+    const [metadata] = await db.query<Record<string, string>>(`
+      SELECT decode(value) AS value
+      FROM parquet_kv_metadata('${path}')
+      WHERE decode(key) = 'iceberg.schema'
+    `);
+    expect(JSON.parse(metadata!.value!)['schema-id']).toBe(first.metadata.currentSchemaId);
+  });
+
+  it('should be readable with iceberg_scan', async (context) => {
+    try {
+      await db.execute('LOAD iceberg');
+    } catch {
+      // The extension is installed separately and may not be available
+      context.skip();
+    }
+
+    const [row] = await db.query<Record<string, string>>(`
+      SELECT count(*)::VARCHAR AS rows, sum(total)::VARCHAR AS total
+      FROM iceberg_scan('${location}')
+    `);
+    expect(row).toEqual({ rows: '30', total: '242.50' });
+  });
+});
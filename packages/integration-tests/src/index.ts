@@ -3,6 +3,8 @@
  *
  * Integration tests for IceType database adapters using testcontainers.
  * These tests verify that generated DDL works against real database instances.
+ * The embedded suite runs Postgres (PGlite) and DuckDB in-process and needs
+ * no Docker.
  *
  * @packageDocumentation
  */
@@ -0,0 +1,372 @@
+/**
+ * Parquet Writer Integration Tests
+ *
+ * Writes files with the pure TypeScript Parquet writer from @icetype/iceberg
+ * and reads them back with DuckDB's read_parquet, for each compression
+ * codec, with and without dictionary encoding, and for each timestamp
+ * storage option. Files DuckDB writes are read back with readParquetFooter
+ * to infer their IceType schemas.
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { parseSchema } from '@icetype/core';
+import {
+  parquetFooterToIceType,
+  readParquetFooter,
+  writeParquet,
+  type ParquetCompressionCodec,
+} from '@icetype/iceberg';
+import { createDatabaseExecutor, type DatabaseConnection } from '@icetype/migrations';
+
+const EventSchema = parseSchema({
+  $type: 'Event',
+  $structs: { Location: { city: 'string!', zip: 'int?' } },
+  name: 'string!',
+  count: 'int?',
+  total: 'long?',
+  score: 'double?',
+  active: 'boolean?',
+  tags: 'string[]',
+  location: 'struct<Location>?',
+  visits: 'struct<Location>[]',
+  ref: 'uuid?',
+  day: 'date?',
+  seenAt: 'timestamp?',
+  amount: 'decimal?',
+  payload: 'json?',
+});
+
+const NOW = Date.UTC(2024, 0, 2, 3, 4, 5);
+const ROWS = 3000;
+
+function createEvent(i: number): Record<string, unknown> {
+  return {
+    $id: `evt-${i}`,
+    $type: 'Event',
+    $version: 1,
+    $createdAt: NOW,
+    $updatedAt: NOW,
+    name: `event-${i % 7}`,
+    count: i % 5 === 0 ? null : i,
+    total: i % 3 === 0 ? null : BigInt(i) * 1_000_000_000n,
+    score: i / 4,
+    active: i % 4 === 0 ? null : i % 2 === 0,
+    tags: i % 6 === 0 ? [] : ['a', `t${i % 3}`, null],
+    location: i % 2 === 0 ? null : { city: 'Paris', zip: i % 3 === 0 ? null : i },
+    visits: i % 5 === 0 ? [] : [{ city: 'Lyon', zip: 69001 }, { city: 'Nice' }],
+    ref: '550e8400-e29b-41d4-a716-446655440000',
+    day: '2024-03-01',
+    seenAt: new Date(NOW + i),
+    amount: i % 2 === 0 ? '12.345' : -0.5,
+    payload: { i },
+  };
+}
+
+function* events(): Generator<Record<string, unknown>> {
+  for (let i = 0; i < ROWS; i++) yield createEvent(i);
+}
+
+const CASES: Array<{ compression: ParquetCompressionCodec; dictionary: boolean }> = [
+  { compression: 'uncompressed', dictionary: false },
+  { compression: 'uncompressed', dictionary: true },
+  { compression: 'snappy', dictionary: false },
+  { compression: 'snappy', dictionary: true },
+  { compression: 'zstd', dictionary: false },
+  { compression: 'zstd', dictionary: true },
+];
+
+describe('Parquet Writer Integration Tests', () => {
+  let dir: string;
+  let db: DatabaseConnection;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'icetype-parquet-'));
+    db = await createDatabaseExecutor('duckdb::memory:');
+  });
+
+  afterAll(async () => {
+    await db.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe.each(CASES)('$compression (dictionary: $dictionary)', ({ compression, dictionary }) => {
+    let path: string;
+
+    beforeAll(async () => {
+      path = join(dir, `events-${compression}-${dictionary}.parquet`);
+      const result = await writeParquet(EventSchema, events(), path, {
+        compression,
+        dictionary,
+        rowGroupSize: 1000,
+        pageSize: 8192,
+      });
+      expect(result.rowCount).toBe(ROWS);
+      expect(result.rowGroupCount).toBe(3);
+    });
+
+    it('should read back scalar and optional columns', async () => {
+      const [row] = await db.query<Record<string, string>>(`
+        SELECT
+          count(*)::VARCHAR AS rows,
+          count("count")::VARCHAR AS counts,
+          sum("count")::VARCHAR AS count_sum,
+          sum(total)::VARCHAR AS total_sum,
+          sum(score)::VARCHAR AS score_sum,
+          sum(active::INTEGER)::VARCHAR AS active_sum,
+          count(active)::VARCHAR AS actives,
+          count(DISTINCT name)::VARCHAR AS names,
+          sum(amount)::VARCHAR AS amount_sum,
+          max(seenAt)::VARCHAR AS last_seen,
+          min(day)::VARCHAR AS first_day,
+          any_value(ref)::VARCHAR AS ref
+        FROM read_parquet('${path}')
+      `);
+
+      expect(row).toEqual({
+        rows: '3000',
+        counts: '2400',
+        count_sum: String(4_498_500 - 5 * 179_700),
+        total_sum: String((4_498_500 - 3 * 499_500) * 1_000_000_000),
+        score_sum: '1124625.0',
+        active_sum: '750',
+        actives: '2250',
+        names: '7',
+        amount_sum: '17767.500000000',
+        last_seen: '2024-01-02 03:04:07.999',
+        first_day: '2024-03-01',
+        ref: '550e8400-e29b-41d4-a716-446655440000',
+      });
+    });
+
+    it('should read back lists, structs and lists of structs', async () => {
+      const [row] = await db.query<Record<string, string>>(`
+        SELECT
+          sum(len(tags))::VARCHAR AS tag_count,
+          count(location)::VARCHAR AS locations,
+          count(location.zip)::VARCHAR AS zips,
+          sum(len(visits))::VARCHAR AS visit_count,
+          count(visits[2].zip)::VARCHAR AS second_visit_zips
+        FROM read_parquet('${path}')
+      `);
+
+      expect(row).toEqual({
+        tag_count: String((3000 - 500) * 3),
+        locations: '1500',
+        zips: '1000',
+        visit_count: String((3000 - 600) * 2),
+        second_visit_zips: '0',
+      });
+    });
+
+    it('should round-trip a row exactly', async () => {
+      const rows = await db.query<Record<string, string>>(`
+        SELECT "$id", name, tags::VARCHAR AS tags, location::VARCHAR AS location, payload::VARCHAR AS payload
+        FROM read_parquet('${path}')
+        WHERE "$id" = 'evt-7'
+      `);
+
+      expect(rows).toEqual([
+        {
+          $id: 'evt-7',
+          name: 'event-0',
+          tags: '[a, t1, NULL]',
+          location: "{'city': Paris, 'zip': 7}",
+          payload: '{"i":7}',
+        },
+      ]);
+    });
+
+    it('should write codec, encodings and statistics to the footer', async () => {
+      const columns = await db.query<Record<string, string>>(`
+        SELECT path_in_schema, compression, encodings, stats_min_value, stats_max_value, stats_null_count::VARCHAR AS nulls
+        FROM parquet_metadata('${path}')
+        WHERE row_group_id = 0 AND path_in_schema IN ('name', 'count')
+        ORDER BY path_in_schema
+      `);
+
+      expect(columns).toEqual([
+        {
+          path_in_schema: 'count',
+          compression: compression.toUpperCase(),
+          encodings: 'PLAIN, RLE',
+          stats_min_value: '1',
+          stats_max_value: '999',
+          nulls: '200',
+        },
+        {
+          path_in_schema: 'name',
+          compression: compression.toUpperCase(),
+          encodings: dictionary ? 'PLAIN, RLE, RLE_DICTIONARY' : 'PLAIN, RLE',
+          stats_min_value: 'event-0',
+          stats_max_value: 'event-6',
+          nulls: '0',
+        },
+      ]);
+    });
+  });
+
+  it('should keep field IDs and logical types in the schema', async () => {
+    const path = join(dir, 'schema.parquet');
+    await writeParquet(EventSchema, [createEvent(1)], path);
+
+    const fields = await db.query<Record<string, string | null>>(`
+      SELECT name, type, converted_type, field_id::VARCHAR AS field_id
+      FROM parquet_schema('${path}')
+      WHERE name IN ('name', 'tags', 'ref', 'day', 'amount', 'payload')
+    `);
+
+    expect(fields).toEqual([
+      { name: 'name', type: 'BYTE_ARRAY', converted_type: 'UTF8', field_id: '6' },
+      { name: 'tags', type: null, converted_type: 'LIST', field_id: '11' },
+      { name: 'ref', type: 'FIXED_LEN_BYTE_ARRAY', converted_type: null, field_id: '18' },
+      { name: 'day', type: 'INT32', converted_type: 'DATE', field_id: '19' },
+      { name: 'amount', type: 'FIXED_LEN_BYTE_ARRAY', converted_type: 'DECIMAL', field_id: '21' },
+      { name: 'payload', type: 'BYTE_ARRAY', converted_type: 'JSON', field_id: '22' },
+    ]);
+  });
+
+  describe('timestamp units and decimal storage', () => {
+    const MeasurementSchema = parseSchema({
+      $type: 'Measurement',
+      at: 'timestamp!',
+      atTz: 'timestamptz?',
+      opens: 'time?',
+      small: 'decimal(9,2)?',
+      medium: 'decimal(18,4)?',
+      large: 'decimal(30,6)?',
+    });
+    const measurement = {
+      $id: 'm1',
+      $type: 'Measurement',
+      $version: 1,
+      $createdAt: NOW,
+      $updatedAt: NOW,
+      at: '2024-03-01T12:34:56.123456789Z',
+      atTz: '2024-03-01T12:34:56.123456789Z',
+      opens: '09:30:00.123456789',
+      small: '-1234567.89',
+      medium: '12345678901234.5678',
+      large: '-123456789012345678901234.123456',
+    };
+
+    it.each([
+      { options: {}, at: '2024-03-01 12:34:56.123', opens: '09:30:00.123' },
+      { options: { timestampUnit: 'micros' as const }, at: '2024-03-01 12:34:56.123456', opens: '09:30:00.123456' },
+      { options: { timestampUnit: 'nanos' as const }, at: '2024-03-01 12:34:56.123456789', opens: '09:30:00.123456789' },
+      { options: { int96Timestamps: true, timestampUnit: 'micros' as const }, at: '2024-03-01 12:34:56.123456', opens: '09:30:00.123456' },
+    ])('should read back $options', async ({ options, at, opens }) => {
+      const path = join(dir, `measurement-${JSON.stringify(options).replace(/\W/g, '')}.parquet`);
+      await writeParquet(MeasurementSchema, [measurement], path, options);
+
+      const [row] = await db.query<Record<string, string>>(`
+        SELECT
+          "at"::VARCHAR AS at,
+          (epoch_ms("atTz"::TIMESTAMP) = epoch_ms("at"::TIMESTAMP))::VARCHAR AS same_instant,
+          opens::VARCHAR AS opens,
+          small::VARCHAR AS small,
+          medium::VARCHAR AS medium,
+          large::VARCHAR AS large,
+          "$createdAt"::TIMESTAMP::VARCHAR AS created_at
+        FROM read_parquet('${path}')
+      `);
+
+      expect(row).toEqual({
+        at,
+        same_instant: 'true',
+        opens,
+        small: '-1234567.89',
+        medium: '12345678901234.5678',
+        large: '-123456789012345678901234.123456',
+        created_at: '2024-01-02 03:04:05',
+      });
+    });
+
+    // DuckDB reads strings and decimals through ConvertedType only, so just the temporal columns are compared
+    it('should read back LogicalType-only files', async () => {
+      const path = join(dir, 'measurement-logical.parquet');
+      await writeParquet(MeasurementSchema, [measurement], path, { logicalTypesOnly: true, timestampUnit: 'micros' });
+
+      const [row] = await db.query<Record<string, string>>(`
+        SELECT
+          "at"::VARCHAR AS at,
+          typeof("atTz") AS at_tz_type,
+          opens::VARCHAR AS opens
+        FROM read_parquet('${path}')
+      `);
+      const annotated = await db.query<Record<string, string>>(`
+        SELECT count(*)::VARCHAR AS fields
+        FROM parquet_schema('${path}')
+        WHERE converted_type IS NOT NULL
+      `);
+
+      expect(row).toEqual({
+        at: '2024-03-01 12:34:56.123456',
+        at_tz_type: 'TIMESTAMP WITH TIME ZONE',
+        opens: '09:30:00.123456',
+      });
+      expect(annotated).toEqual([{ fields: '0' }]);
+    });
+
+    it('should store decimals in INT32, INT64 and FIXED_LEN_BYTE_ARRAY by precision', async () => {
+      const path = join(dir, 'measurement-schema.parquet');
+      await writeParquet(MeasurementSchema, [measurement], path);
+
+      const fields = await db.query<Record<string, string | null>>(`
+        SELECT name, type, type_length::VARCHAR AS type_length
+        FROM parquet_schema('${path}')
+        WHERE name IN ('small', 'medium', 'large')
+      `);
+
+      expect(fields).toEqual([
+        { name: 'small', type: 'INT32', type_length: null },
+        { name: 'medium', type: 'INT64', type_length: null },
+        { name: 'large', type: 'FIXED_LEN_BYTE_ARRAY', type_length: '13' },
+      ]);
+    });
+  });
+
+  describe('schema inference', () => {
+    it('should infer an IceType schema from a file DuckDB wrote', async () => {
+      const path = join(dir, 'duckdb-orders.parquet');
+      await db.execute(`
+        COPY (
+          SELECT
+            42::BIGINT AS id,
+            'acme' AS customer,
+            19.99::DECIMAL(12, 2) AS total,
+            TIMESTAMPTZ '2024-03-01 12:00:00+00' AS placed_at,
+            DATE '2024-03-01' AS day,
+            ['book', 'pen'] AS items,
+            {'city': 'Oslo', 'zip': 150} AS shipping,
+            MAP {'gift': 1} AS flags
+        ) TO '${path}' (FORMAT PARQUET)
+      `);
+
+      const footer = await readParquetFooter(path);
+      const { definition, schema, warnings } = parquetFooterToIceType(footer, { name: 'Order' });
+
+      expect(footer.rowCount).toBe(1);
+      expect(footer.createdBy).toMatch(/DuckDB/);
+      expect(definition).toEqual({
+        $type: 'Order',
+        $structs: { Shipping: { city: 'string?', zip: 'int?' } },
+        id: 'long?',
+        customer: 'string?',
+        total: 'decimal(12,2)?',
+        placed_at: 'timestamptz?',
+        day: 'date?',
+        items: 'string[]?',
+        shipping: 'struct<Shipping>?',
+        flags: 'map<string, int>?',
+      });
+      expect(warnings).toEqual([]);
+      expect(schema.name).toBe('Order');
+    });
+  });
+});
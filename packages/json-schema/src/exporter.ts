@@ -0,0 +1,439 @@
+/**
+ * JSON Schema Exporter
+ *
+ * Generates JSON Schema (draft 2020-12) documents from IceType schemas.
+ *
+ * @packageDocumentation
+ */
+
+import type { IceTypeSchema, FieldDefinition, FieldConstraints, SchemaAdapter } from '@icetype/core';
+
+import type { JsonSchema, JsonSchemaExportOptions } from './types.js';
+
+import {
+  JSON_SCHEMA_DIALECT,
+  RELATION_KEYWORD,
+  ICETYPE_TO_JSON_SCHEMA_MAP,
+  FIELD_FORMAT_TO_JSON_SCHEMA,
+} from './types.js';
+
+import { VERSION } from './version.js';
+
+// =============================================================================
+// Type Mapping
+// =============================================================================
+
+/**
+ * Map an IceType primitive type to a JSON Schema.
+ *
+ * Unknown types map to the empty schema, which accepts any value.
+ *
+ * @param iceType - The IceType type string
+ * @returns A new JSON Schema object
+ */
+export function mapIceTypeToJsonSchema(iceType: string): JsonSchema {
+  const mapped = ICETYPE_TO_JSON_SCHEMA_MAP[iceType.toLowerCase()];
+  return mapped ? { ...mapped } : {};
+}
+
+/**
+ * Build the pattern that matches a `decimal(precision, scale)` value written as a string.
+ *
+ * @param precision - Total number of digits
+ * @param scale - Number of fractional digits
+ * @returns The regular expression source
+ */
+export function decimalPattern(precision?: number, scale?: number): string {
+  if (precision === undefined) {
+    return '^-?[0-9]+([.][0-9]+)?$';
+  }
+  const fraction = scale ?? 0;
+  const integer = Math.max(precision - fraction, 1);
+  return fraction > 0
+    ? `^-?[0-9]{1,${integer}}([.][0-9]{1,${fraction}})?$`
+    : `^-?[0-9]{1,${integer}}$`;
+}
+
+// =============================================================================
+// Field Generation
+// =============================================================================
+
+/**
+ * Convert an IceType field definition to a JSON Schema property.
+ *
+ * Enum and struct types are emitted as `$ref`s into `defs`, which receives
+ * their definitions.
+ *
+ * @param field - The IceType field definition
+ * @param options - Export options
+ * @param defs - Shared `$defs` collection
+ * @returns The JSON Schema for the field
+ */
+export function fieldToJsonSchema(
+  field: FieldDefinition,
+  options: JsonSchemaExportOptions = {},
+  defs: Record<string, JsonSchema> = {}
+): JsonSchema {
+  let schema: JsonSchema;
+
+  if (field.relation) {
+    schema = relationTarget(field.relation.targetType, options);
+  } else {
+    schema = valueSchema(field, options, defs);
+    if (!field.isArray && field.constraints) {
+      applyConstraints(schema, field.constraints);
+    }
+  }
+
+  if (field.isArray) {
+    schema = { type: 'array', items: schema };
+  }
+
+  if (field.relation) {
+    if (field.relation.operator === '<-' || field.relation.operator === '<~') {
+      schema.readOnly = true;
+    }
+    schema[RELATION_KEYWORD] = relationString(field);
+  }
+
+  if (isLiteralDefault(field.defaultValue)) {
+    schema.default = field.defaultValue;
+  }
+
+  if (field.isOptional && options.nullable !== false) {
+    schema = makeNullable(schema);
+  }
+
+  return schema;
+}
+
+/**
+ * Get the JSON Schema for a single value of a field, ignoring arrays and optionality.
+ */
+function valueSchema(
+  field: FieldDefinition,
+  options: JsonSchemaExportOptions,
+  defs: Record<string, JsonSchema>
+): JsonSchema {
+  switch (field.type) {
+    case 'varchar':
+    case 'char':
+      return field.length !== undefined
+        ? { type: 'string', maxLength: field.length }
+        : { type: 'string' };
+    case 'decimal':
+      return { type: 'string', format: 'decimal', pattern: decimalPattern(field.precision, field.scale) };
+    case 'fixed': {
+      const schema: JsonSchema = { type: 'string', contentEncoding: 'base64' };
+      if (field.length !== undefined) {
+        // base64 encodes every 3 bytes as 4 characters
+        schema.minLength = schema.maxLength = Math.ceil(field.length / 3) * 4;
+      }
+      return schema;
+    }
+    case 'enum':
+      if (field.enumName && field.enumValues) {
+        defs[field.enumName] = { type: 'string', enum: [...field.enumValues] };
+        return { $ref: `#/$defs/${field.enumName}` };
+      }
+      return { type: 'string' };
+    case 'struct':
+      if (field.structName && field.structFields) {
+        if (!(field.structName in defs)) {
+          // Reserve the name first so recursive structs terminate
+          defs[field.structName] = {};
+          defs[field.structName] = objectSchema(field.structFields, options, defs);
+        }
+        return { $ref: `#/$defs/${field.structName}` };
+      }
+      return { type: 'object' };
+    case 'list':
+      return { type: 'array', items: field.elementType ? mapIceTypeToJsonSchema(field.elementType) : {} };
+    case 'map':
+      return { type: 'object', additionalProperties: field.valueType ? mapIceTypeToJsonSchema(field.valueType) : {} };
+    case 'ref':
+      return field.refTarget ? relationTarget(field.refTarget, options) : { type: 'string' };
+    default:
+      return mapIceTypeToJsonSchema(field.type);
+  }
+}
+
+/**
+ * Get the schema a relation to `target` points at.
+ */
+function relationTarget(target: string, options: JsonSchemaExportOptions): JsonSchema {
+  return options.relations === 'ref'
+    ? { $ref: `${options.refPrefix ?? '#/$defs/'}${target}` }
+    : { type: 'string' };
+}
+
+/**
+ * Rebuild the IceType relation string for a relation field.
+ */
+function relationString(field: FieldDefinition): string {
+  const relation = field.relation!;
+  let result = `${relation.operator} ${relation.targetType}`;
+  if (relation.inverse) {
+    result += `.${relation.inverse}`;
+  }
+  if (field.isArray) {
+    result += '[]';
+  }
+  if (field.isOptional) {
+    result += '?';
+  }
+  return result;
+}
+
+/**
+ * Add the JSON Schema equivalents of `$constraints` to a schema.
+ */
+function applyConstraints(schema: JsonSchema, constraints: FieldConstraints): void {
+  if (constraints.min !== undefined) schema.minimum = constraints.min;
+  if (constraints.max !== undefined) schema.maximum = constraints.max;
+  if (constraints.minLength !== undefined) schema.minLength = constraints.minLength;
+  if (constraints.maxLength !== undefined) {
+    schema.maxLength = schema.maxLength !== undefined
+      ? Math.min(schema.maxLength, constraints.maxLength)
+      : constraints.maxLength;
+  }
+  if (constraints.pattern !== undefined) schema.pattern = constraints.pattern;
+  if (constraints.format !== undefined) schema.format = FIELD_FORMAT_TO_JSON_SCHEMA[constraints.format];
+}
+
+/**
+ * Allow `null` in addition to the values a schema accepts.
+ */
+function makeNullable(schema: JsonSchema): JsonSchema {
+  if (Object.keys(schema).every((key) => key === 'default')) {
+    // The schema already accepts any value
+    return schema;
+  }
+  if (typeof schema.type === 'string') {
+    return { ...schema, type: [schema.type, 'null'] };
+  }
+  const { default: defaultValue, readOnly, [RELATION_KEYWORD]: relation, ...rest } = schema;
+  const result: JsonSchema = { anyOf: [rest, { type: 'null' }] };
+  if (readOnly !== undefined) result.readOnly = readOnly;
+  if (relation !== undefined) result[RELATION_KEYWORD] = relation;
+  if (defaultValue !== undefined) result.default = defaultValue;
+  return result;
+}
+
+/**
+ * Check whether a default value is a JSON literal (not a function call like `now()`).
+ */
+function isLiteralDefault(value: unknown): boolean {
+  if (value === undefined) return false;
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    return !('function' in value);
+  }
+  return true;
+}
+
+// =============================================================================
+// Schema Generation
+// =============================================================================
+
+/**
+ * Build an object schema from a list of fields.
+ */
+function objectSchema(
+  fields: Iterable<FieldDefinition>,
+  options: JsonSchemaExportOptions,
+  defs: Record<string, JsonSchema>
+): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const field of fields) {
+    const operator = field.relation?.operator;
+    const isBackward = operator === '<-' || operator === '<~';
+    if (isBackward && options.includeBackwardRelations === false) {
+      continue;
+    }
+
+    properties[field.name] = fieldToJsonSchema(field, options, defs);
+    if (!isBackward && !field.isOptional && field.defaultValue === undefined) {
+      required.push(field.name);
+    }
+  }
+
+  const schema: JsonSchema = { type: 'object', properties };
+  if (required.length > 0) {
+    schema.required = required;
+  }
+  if (options.strict) {
+    schema.additionalProperties = false;
+  }
+  return schema;
+}
+
+/**
+ * Convert an IceType schema to a standalone JSON Schema document.
+ *
+ * @param schema - The IceType schema to convert
+ * @param options - Export options
+ * @returns The JSON Schema document
+ *
+ * @example
+ * ```typescript
+ * const jsonSchema = schemaToJsonSchema(parseSchema({
+ *   $type: 'User',
+ *   id: 'uuid!',
+ *   age: 'int?',
+ * }));
+ * // {
+ * //   $schema: 'https://json-schema.org/draft/2020-12/schema',
+ * //   title: 'User',
+ * //   type: 'object',
+ * //   properties: {
+ * //     id: { type: 'string', format: 'uuid' },
+ * //     age: { type: ['integer', 'null'], format: 'int32' },
+ * //   },
+ * //   required: ['id'],
+ * // }
+ * ```
+ */
+export function schemaToJsonSchema(
+  schema: IceTypeSchema,
+  options: JsonSchemaExportOptions = {}
+): JsonSchema {
+  const defs: Record<string, JsonSchema> = {};
+  const body = objectSchema(schema.fields.values(), options, defs);
+
+  const result: JsonSchema = { $schema: JSON_SCHEMA_DIALECT };
+  if (options.baseUri) {
+    result.$id = `${options.baseUri}${schema.name}.json`;
+  }
+  result.title = schema.name;
+  Object.assign(result, body);
+  if (Object.keys(defs).length > 0) {
+    result.$defs = defs;
+  }
+  return result;
+}
+
+/**
+ * Generate a JSON Schema bundle containing several IceType schemas.
+ *
+ * Each schema, enum and struct becomes an entry in the bundle's `$defs`,
+ * so `ref` mode relations resolve within the bundle.
+ *
+ * @param schemas - The IceType schemas to convert
+ * @param options - Export options
+ * @returns The JSON Schema bundle
+ */
+export function generateJsonSchema(
+  schemas: IceTypeSchema[],
+  options: JsonSchemaExportOptions = {}
+): JsonSchema {
+  const defs: Record<string, JsonSchema> = {};
+
+  for (const schema of schemas) {
+    defs[schema.name] = {
+      title: schema.name,
+      ...objectSchema(schema.fields.values(), options, defs),
+    };
+  }
+
+  const result: JsonSchema = { $schema: JSON_SCHEMA_DIALECT };
+  if (options.baseUri) {
+    result.$id = `${options.baseUri}schemas.json`;
+  }
+  result.$defs = defs;
+  return result;
+}
+
+/**
+ * Serialize a JSON Schema document.
+ *
+ * @param schema - The JSON Schema to serialize
+ * @returns Pretty-printed JSON with a trailing newline
+ */
+export function serializeJsonSchema(schema: JsonSchema): string {
+  return JSON.stringify(schema, null, 2) + '\n';
+}
+
+// =============================================================================
+// JSON Schema Adapter Class
+// =============================================================================
+
+/**
+ * Adapter for transforming IceType schemas to JSON Schema.
+ *
+ * Implements the SchemaAdapter interface for consistency with other adapters.
+ *
+ * @example
+ * ```typescript
+ * import { parseSchema } from '@icetype/core';
+ * import { JsonSchemaAdapter } from '@icetype/json-schema';
+ *
+ * const schema = parseSchema({
+ *   $type: 'User',
+ *   id: 'uuid!',
+ *   email: 'string#',
+ * });
+ *
+ * const adapter = new JsonSchemaAdapter();
+ * const jsonSchema = adapter.transform(schema, { strict: true });
+ * const json = adapter.serialize(jsonSchema);
+ * ```
+ */
+export class JsonSchemaAdapter
+  implements SchemaAdapter<JsonSchema, JsonSchemaExportOptions>
+{
+  readonly name = 'json-schema';
+  readonly version = VERSION;
+
+  /**
+   * Transform an IceType schema to a JSON Schema document.
+   *
+   * @param schema - The IceType schema to transform
+   * @param options - Optional JSON Schema export options
+   * @returns JSON Schema document
+   */
+  transform(
+    schema: IceTypeSchema,
+    options?: JsonSchemaExportOptions
+  ): JsonSchema {
+    return schemaToJsonSchema(schema, options);
+  }
+
+  /**
+   * Serialize a JSON Schema document to a string.
+   *
+   * @param output - The JSON Schema document to serialize
+   * @returns Pretty-printed JSON
+   */
+  serialize(output: JsonSchema): string {
+    return serializeJsonSchema(output);
+  }
+
+  /**
+   * Generate a JSON Schema bundle from multiple IceType schemas.
+   *
+   * @param schemas - The IceType schemas to transform
+   * @param options - Optional JSON Schema export options
+   * @returns JSON Schema bundle with one `$defs` entry per schema
+   */
+  generateSchema(
+    schemas: IceTypeSchema[],
+    options?: JsonSchemaExportOptions
+  ): JsonSchema {
+    return generateJsonSchema(schemas, options);
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+/**
+ * Create a new JSON Schema adapter instance.
+ *
+ * @returns A new JsonSchemaAdapter instance
+ */
+export function createJsonSchemaAdapter(): JsonSchemaAdapter {
+  return new JsonSchemaAdapter();
+}
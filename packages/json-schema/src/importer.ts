@@ -0,0 +1,496 @@
+/**
+ * JSON Schema Importer
+ *
+ * Converts JSON Schema documents (draft 2020-12, with draft-07
+ * `definitions` also accepted) into IceType schema definitions.
+ *
+ * - A root schema with `properties` becomes one IceType schema; object
+ *   schemas in its `$defs` become `$structs`.
+ * - A bundle (a root with only `$defs`) becomes one IceType schema per
+ *   object definition, except definitions that are only used as nested
+ *   values, which become `$structs`.
+ * - String enums become `$enums`.
+ *
+ * @packageDocumentation
+ */
+
+import { readFile } from 'node:fs/promises';
+import { IceTypeError, ErrorCodes } from '@icetype/core';
+import type { SchemaDefinition, FieldConstraints, FieldFormat } from '@icetype/core';
+
+import type { JsonSchema, JsonSchemaImportOptions } from './types.js';
+import { RELATION_KEYWORD, FIELD_FORMAT_TO_JSON_SCHEMA } from './types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Converted type of a single property, before modifiers are applied
+ */
+interface ConvertedType {
+  /** IceType type string without modifiers */
+  type: string;
+  /** Whether the type is a relation string (modifiers are already applied) */
+  isRelation?: boolean;
+  /** Constraints recovered from validation keywords */
+  constraints?: FieldConstraints;
+}
+
+/**
+ * Conversion state for one IceType schema
+ */
+interface ImportContext {
+  /** Name of the IceType schema being built */
+  typeName: string;
+  /** Shared definitions of the document */
+  defs: Record<string, JsonSchema>;
+  /** Names of definitions imported as IceType schemas */
+  entities: Set<string>;
+  /** Collected `$enums` */
+  enums: Record<string, string[]>;
+  /** Collected `$structs` */
+  structs: Record<string, Record<string, string>>;
+  options: JsonSchemaImportOptions;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const INT32_MIN = -2147483648;
+const INT32_MAX = 2147483647;
+
+/**
+ * JSON Schema string formats that map to IceType types
+ */
+const STRING_FORMAT_TYPES: Record<string, string> = {
+  'date-time': 'timestamp',
+  date: 'date',
+  time: 'time',
+  uuid: 'uuid',
+};
+
+/**
+ * JSON Schema string formats that map to `$constraints` formats
+ */
+const JSON_SCHEMA_TO_FIELD_FORMAT: Record<string, FieldFormat> = Object.fromEntries(
+  Object.entries(FIELD_FORMAT_TO_JSON_SCHEMA).map(([format, jsonFormat]) => [jsonFormat, format as FieldFormat])
+);
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Convert a JSON Schema document to IceType schema definitions.
+ *
+ * @param input - JSON Schema document, as an object or JSON string
+ * @param options - Import options
+ * @returns Array of IceType schema definitions
+ * @throws {IceTypeError} If the input is not valid JSON
+ *
+ * @example
+ * ```typescript
+ * const schemas = parseJsonSchema({
+ *   $schema: 'https://json-schema.org/draft/2020-12/schema',
+ *   title: 'User',
+ *   type: 'object',
+ *   properties: {
+ *     id: { type: 'string', format: 'uuid' },
+ *     age: { type: 'integer', minimum: 0 },
+ *   },
+ *   required: ['id'],
+ * });
+ *
+ * // Result:
+ * // [{ $type: 'User', $constraints: { age: { min: 0 } }, id: 'uuid!', age: 'int?' }]
+ * ```
+ */
+export function parseJsonSchema(
+  input: string | JsonSchema,
+  options: JsonSchemaImportOptions = {}
+): SchemaDefinition[] {
+  const root = typeof input === 'string' ? parseJson(input) : input;
+  const defs = root.$defs ?? root.definitions ?? {};
+
+  if (root.properties) {
+    const typeName = root.title ?? options.typeName ?? 'Root';
+    return [convertObject(typeName, root, createContext(typeName, defs, new Set([typeName]), options))];
+  }
+
+  const objectDefs = Object.keys(defs).filter((name) => isObjectSchema(defs[name]!));
+  const nested = collectNestedRefs(Object.values(defs));
+  const entities = new Set(objectDefs.filter((name) => !nested.has(name)));
+
+  return [...entities].map((name) =>
+    convertObject(name, defs[name]!, createContext(name, defs, entities, options))
+  );
+}
+
+/**
+ * Read a JSON Schema file and convert it to IceType schema definitions.
+ *
+ * @param filePath - Path to the JSON Schema file
+ * @param options - Import options
+ * @returns Promise resolving to array of IceType schema definitions
+ *
+ * @example
+ * ```typescript
+ * const schemas = await parseJsonSchemaFile('./contracts/order.schema.json');
+ * ```
+ */
+export async function parseJsonSchemaFile(
+  filePath: string,
+  options: JsonSchemaImportOptions = {}
+): Promise<SchemaDefinition[]> {
+  const content = await readFile(filePath, 'utf-8');
+  return parseJsonSchema(content, options);
+}
+
+// =============================================================================
+// Document Structure
+// =============================================================================
+
+function parseJson(content: string): JsonSchema {
+  try {
+    return JSON.parse(content) as JsonSchema;
+  } catch (error) {
+    throw new IceTypeError(`Invalid JSON Schema document: ${(error as Error).message}`, {
+      code: ErrorCodes.JSON_PARSE_ERROR,
+      cause: error as Error,
+    });
+  }
+}
+
+function createContext(
+  typeName: string,
+  defs: Record<string, JsonSchema>,
+  entities: Set<string>,
+  options: JsonSchemaImportOptions
+): ImportContext {
+  return { typeName, defs, entities, enums: {}, structs: {}, options };
+}
+
+function isObjectSchema(schema: JsonSchema): boolean {
+  return schema.properties !== undefined || (schema.type === 'object' && schema.additionalProperties === undefined);
+}
+
+/**
+ * Get the `$defs` name a local `$ref` points at.
+ */
+function localRefName(ref: string): string | undefined {
+  const match = /^#\/(?:\$defs|definitions)\/(.+)$/.exec(ref);
+  return match?.[1];
+}
+
+/**
+ * Collect definitions referenced as nested values (not as relations).
+ */
+function collectNestedRefs(schemas: JsonSchema[]): Set<string> {
+  const names = new Set<string>();
+
+  const visit = (schema: unknown): void => {
+    if (typeof schema !== 'object' || schema === null) return;
+    const s = schema as JsonSchema;
+    if (s[RELATION_KEYWORD] !== undefined) return;
+    if (s.$ref) {
+      const name = localRefName(s.$ref);
+      if (name) names.add(name);
+    }
+    for (const child of [
+      ...Object.values(s.properties ?? {}),
+      ...(s.anyOf ?? []),
+      ...(s.oneOf ?? []),
+      s.items,
+      s.additionalProperties,
+    ]) {
+      visit(child);
+    }
+  };
+
+  for (const schema of schemas) {
+    for (const property of Object.values(schema.properties ?? {})) {
+      visit(property);
+    }
+  }
+  return names;
+}
+
+// =============================================================================
+// Conversion
+// =============================================================================
+
+/**
+ * Convert an object schema to an IceType schema definition.
+ */
+function convertObject(typeName: string, schema: JsonSchema, ctx: ImportContext): SchemaDefinition {
+  const fields: Record<string, string> = {};
+  const constraints: Record<string, FieldConstraints> = {};
+  const required = new Set(schema.required ?? []);
+
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    const converted = convertProperty(name, property, required.has(name), ctx);
+    fields[name] = converted.type;
+    if (converted.constraints && ctx.options.includeConstraints !== false) {
+      constraints[name] = converted.constraints;
+    }
+  }
+
+  const definition: SchemaDefinition = { $type: typeName };
+  if (Object.keys(ctx.enums).length > 0) definition.$enums = ctx.enums;
+  if (Object.keys(ctx.structs).length > 0) definition.$structs = ctx.structs;
+  if (Object.keys(constraints).length > 0) definition.$constraints = constraints;
+  return Object.assign(definition, fields);
+}
+
+/**
+ * Convert a property schema to an IceType type string with modifiers.
+ */
+function convertProperty(
+  name: string,
+  property: JsonSchema,
+  isRequired: boolean,
+  ctx: ImportContext
+): ConvertedType {
+  const relation = property[RELATION_KEYWORD];
+  if (typeof relation === 'string') {
+    return { type: relation };
+  }
+
+  const { schema, nullable } = unwrapNullable(property);
+  const converted = convertValue(name, schema, ctx);
+
+  if (converted.isRelation) {
+    return { type: nullable || !isRequired ? `${converted.type}?` : converted.type };
+  }
+
+  let type = converted.type;
+  const defaultValue = ctx.options.includeDefaults !== false
+    ? formatDefault(property.default ?? schema.default)
+    : undefined;
+
+  if (isRequired && !nullable) {
+    type += '!';
+  } else if (defaultValue === undefined) {
+    type += '?';
+  }
+  if (defaultValue !== undefined) {
+    type += ` = ${defaultValue}`;
+  }
+
+  const result: ConvertedType = { type };
+  if (converted.constraints) result.constraints = converted.constraints;
+  return result;
+}
+
+/**
+ * Split `null` out of a schema's accepted types.
+ */
+function unwrapNullable(property: JsonSchema): { schema: JsonSchema; nullable: boolean } {
+  const isNull = (s: JsonSchema): boolean => s.type === 'null';
+
+  for (const key of ['anyOf', 'oneOf'] as const) {
+    const branches = property[key];
+    if (branches && branches.some(isNull)) {
+      const rest = branches.filter((s) => !isNull(s));
+      return { schema: rest.length === 1 ? rest[0]! : {}, nullable: true };
+    }
+  }
+
+  if (Array.isArray(property.type) && property.type.includes('null')) {
+    const rest = property.type.filter((t) => t !== 'null');
+    const schema: JsonSchema = { ...property };
+    if (rest.length === 1) {
+      schema.type = rest[0]!;
+    } else {
+      delete schema.type;
+    }
+    return { schema, nullable: true };
+  }
+
+  return { schema: property, nullable: false };
+}
+
+/**
+ * Convert a (non-null) value schema to an IceType type string without modifiers.
+ */
+function convertValue(name: string, schema: JsonSchema, ctx: ImportContext): ConvertedType {
+  if (schema.$ref) {
+    return convertRef(schema.$ref, ctx);
+  }
+
+  if (schema.enum) {
+    return convertEnum(`${ctx.typeName}${pascalCase(name)}`, schema.enum, ctx);
+  }
+  if (typeof schema.const === 'string') {
+    return { type: 'string' };
+  }
+
+  const type = Array.isArray(schema.type) ? undefined : schema.type;
+  switch (type) {
+    case 'string':
+      return convertString(schema);
+    case 'integer':
+      return convertNumber(schema, isInt64(schema) ? 'long' : 'int');
+    case 'number':
+      return convertNumber(schema, schema.format === 'float' ? 'float' : 'double');
+    case 'boolean':
+      return { type: 'bool' };
+    case 'array':
+      return convertArray(name, schema, ctx);
+    case 'object':
+    case undefined:
+      if (schema.properties) {
+        return { type: `struct<${registerStruct(`${ctx.typeName}${pascalCase(name)}`, schema, ctx)}>` };
+      }
+      if (type === 'object' && typeof schema.additionalProperties === 'object') {
+        const value = convertValue(name, schema.additionalProperties, ctx);
+        if (/^[a-z]+$/.test(value.type)) {
+          return { type: `map<string, ${value.type}>` };
+        }
+      }
+      return { type: 'json' };
+    default:
+      return { type: 'json' };
+  }
+}
+
+/**
+ * Convert a `$ref` to an enum, struct, relation or the referenced type.
+ */
+function convertRef(ref: string, ctx: ImportContext): ConvertedType {
+  const name = localRefName(ref);
+  const target = name !== undefined ? ctx.defs[name] : undefined;
+  if (name === undefined || target === undefined) {
+    return { type: 'json' };
+  }
+
+  if (ctx.entities.has(name)) {
+    return { type: `-> ${name}`, isRelation: true };
+  }
+  if (target.enum) {
+    return convertEnum(name, target.enum, ctx);
+  }
+  if (isObjectSchema(target)) {
+    return { type: `struct<${registerStruct(name, target, ctx)}>` };
+  }
+  return convertValue(name, target, ctx);
+}
+
+function convertEnum(name: string, values: unknown[], ctx: ImportContext): ConvertedType {
+  if (!values.every((v): v is string => typeof v === 'string')) {
+    return { type: 'json' };
+  }
+  ctx.enums[name] = values;
+  return { type: `enum<${name}>` };
+}
+
+function convertString(schema: JsonSchema): ConvertedType {
+  const constraints: FieldConstraints = {};
+  let type = 'string';
+
+  if (schema.format === 'decimal') {
+    return { type: decimalType(schema.pattern) };
+  }
+  if (schema.format !== undefined && schema.format in STRING_FORMAT_TYPES) {
+    type = STRING_FORMAT_TYPES[schema.format]!;
+  } else if (schema.contentEncoding === 'base64' || schema.format === 'byte' || schema.format === 'binary') {
+    return { type: 'binary' };
+  } else if (schema.maxLength !== undefined) {
+    type = `varchar(${schema.maxLength})`;
+  }
+
+  if (schema.format !== undefined && !(schema.format in STRING_FORMAT_TYPES) && schema.format in JSON_SCHEMA_TO_FIELD_FORMAT) {
+    constraints.format = JSON_SCHEMA_TO_FIELD_FORMAT[schema.format]!;
+  }
+  if (schema.minLength !== undefined) constraints.minLength = schema.minLength;
+  if (schema.pattern !== undefined) constraints.pattern = schema.pattern;
+
+  return withConstraints(type, constraints);
+}
+
+function convertNumber(schema: JsonSchema, type: string): ConvertedType {
+  const constraints: FieldConstraints = {};
+  if (schema.minimum !== undefined) constraints.min = schema.minimum;
+  if (schema.maximum !== undefined) constraints.max = schema.maximum;
+  return withConstraints(type, constraints);
+}
+
+function convertArray(name: string, schema: JsonSchema, ctx: ImportContext): ConvertedType {
+  if (typeof schema.items !== 'object') {
+    return { type: 'json' };
+  }
+  const { schema: items } = unwrapNullable(schema.items);
+  if (items.type === 'array') {
+    return { type: 'json' };
+  }
+  const element = convertValue(name, items, ctx);
+  // Constraints are not supported on array fields
+  return { type: `${element.type}[]`, ...(element.isRelation ? { isRelation: true } : {}) };
+}
+
+/**
+ * Convert an object schema to a `$structs` entry and return its name.
+ */
+function registerStruct(name: string, schema: JsonSchema, ctx: ImportContext): string {
+  if (name in ctx.structs) {
+    return name;
+  }
+  // Reserve the name first so recursive structs terminate
+  const fields: Record<string, string> = {};
+  ctx.structs[name] = fields;
+
+  const required = new Set(schema.required ?? []);
+  for (const [fieldName, property] of Object.entries(schema.properties ?? {})) {
+    fields[fieldName] = convertProperty(fieldName, property, required.has(fieldName), ctx).type;
+  }
+  return name;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function isInt64(schema: JsonSchema): boolean {
+  if (schema.format === 'int64') return true;
+  if (schema.format === 'int32') return false;
+  return (schema.minimum !== undefined && schema.minimum < INT32_MIN) ||
+    (schema.maximum !== undefined && schema.maximum > INT32_MAX);
+}
+
+/**
+ * Recover `decimal(precision, scale)` from an exported decimal pattern.
+ */
+function decimalType(pattern: string | undefined): string {
+  const match = pattern ? /\{1,(\d+)\}(?:.*\{1,(\d+)\})?/.exec(pattern) : null;
+  if (!match) {
+    return 'decimal';
+  }
+  const integer = Number(match[1]);
+  const scale = match[2] !== undefined ? Number(match[2]) : 0;
+  return `decimal(${integer + scale},${scale})`;
+}
+
+function withConstraints(type: string, constraints: FieldConstraints): ConvertedType {
+  return Object.keys(constraints).length > 0 ? { type, constraints } : { type };
+}
+
+/**
+ * Format a JSON Schema `default` as an IceType default value literal.
+ */
+function formatDefault(value: unknown): string | undefined {
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'number' || typeof value === 'boolean' || value === null) return String(value);
+  if (Array.isArray(value) && value.length === 0) return '[]';
+  if (typeof value === 'object' && Object.keys(value).length === 0) return '{}';
+  return undefined;
+}
+
+function pascalCase(name: string): string {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0]!.toUpperCase() + part.slice(1))
+    .join('');
+}
@@ -0,0 +1,104 @@
+/**
+ * @icetype/json-schema
+ *
+ * JSON Schema export and import capability for IceType.
+ *
+ * This package provides functionality to:
+ * - Export IceType schemas to JSON Schema (draft 2020-12)
+ * - Convert JSON Schema documents to IceType schema definitions
+ *
+ * @example Export IceType to JSON Schema
+ * ```typescript
+ * import { parseSchema } from '@icetype/core';
+ * import { schemaToJsonSchema } from '@icetype/json-schema';
+ *
+ * const jsonSchema = schemaToJsonSchema(parseSchema({
+ *   $type: 'User',
+ *   id: 'uuid!',
+ *   email: 'string#',
+ *   posts: '<- Post.author[]',
+ * }));
+ * ```
+ *
+ * @example Import JSON Schema to IceType
+ * ```typescript
+ * import { parseJsonSchema, parseJsonSchemaFile } from '@icetype/json-schema';
+ *
+ * const schemas = parseJsonSchema({
+ *   title: 'Order',
+ *   type: 'object',
+ *   properties: {
+ *     id: { type: 'string', format: 'uuid' },
+ *     status: { enum: ['pending', 'shipped'] },
+ *   },
+ *   required: ['id', 'status'],
+ * });
+ *
+ * // Result:
+ * // [{ $type: 'Order', $enums: { OrderStatus: ['pending', 'shipped'] }, id: 'uuid!', status: 'enum<OrderStatus>!' }]
+ *
+ * const fileSchemas = await parseJsonSchemaFile('./contracts/order.schema.json');
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type {
+  // JSON Schema types
+  JsonSchema,
+  JsonSchemaTypeName,
+  // Export options
+  JsonSchemaExportOptions,
+  JsonSchemaRelationMode,
+  // Import options
+  JsonSchemaImportOptions,
+  // Mapping config
+  JsonSchemaTypeMappingConfig,
+} from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export {
+  JSON_SCHEMA_DIALECT,
+  RELATION_KEYWORD,
+  ICETYPE_TO_JSON_SCHEMA_MAPPINGS,
+  ICETYPE_TO_JSON_SCHEMA_MAP,
+  FIELD_FORMAT_TO_JSON_SCHEMA,
+} from './types.js';
+
+// =============================================================================
+// Export Functions (IceType -> JSON Schema)
+// =============================================================================
+
+export {
+  // Type mapping functions
+  mapIceTypeToJsonSchema,
+  decimalPattern,
+
+  // Field generation
+  fieldToJsonSchema,
+
+  // Schema generation
+  schemaToJsonSchema,
+  generateJsonSchema,
+  serializeJsonSchema,
+
+  // Adapter class and factory
+  JsonSchemaAdapter,
+  createJsonSchemaAdapter,
+} from './exporter.js';
+
+// =============================================================================
+// Import Functions (JSON Schema -> IceType)
+// =============================================================================
+
+export {
+  parseJsonSchema,
+  parseJsonSchemaFile,
+} from './importer.js';
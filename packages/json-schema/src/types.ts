@@ -0,0 +1,214 @@
+/**
+ * Type definitions for JSON Schema import/export and IceType conversion
+ *
+ * Supports both:
+ * - Export: Generate JSON Schema (draft 2020-12) documents from IceType schemas
+ * - Import: Convert JSON Schema documents to IceType schema definitions
+ *
+ * @packageDocumentation
+ */
+
+import type { FieldFormat } from '@icetype/core';
+
+// =============================================================================
+// JSON Schema Type Definitions
+// =============================================================================
+
+/**
+ * JSON Schema draft 2020-12 dialect URI
+ */
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Annotation keyword carrying the IceType relation string of a relation property.
+ *
+ * Unknown keywords are annotations in JSON Schema 2020-12, so validators
+ * ignore it; the importer uses it to restore relations.
+ */
+export const RELATION_KEYWORD = 'x-icetype-relation';
+
+/**
+ * JSON Schema primitive type names
+ */
+export type JsonSchemaTypeName =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+/**
+ * A JSON Schema (draft 2020-12) schema object.
+ *
+ * Lists the keywords this package reads and writes; other keywords are
+ * preserved through the index signature.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  /** Draft-07 name for `$defs`, read on import */
+  definitions?: Record<string, JsonSchema>;
+  $comment?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaTypeName | JsonSchemaTypeName[];
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  readOnly?: boolean;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema | boolean;
+  items?: JsonSchema | boolean;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  contentEncoding?: string;
+  [RELATION_KEYWORD]?: string;
+  [key: string]: unknown;
+}
+
+// =============================================================================
+// Export Options
+// =============================================================================
+
+/**
+ * How relation fields are represented in exported JSON Schema
+ *
+ * - `id`: the related record's ID, as a string (or array of strings)
+ * - `ref`: a `$ref` to the related schema
+ */
+export type JsonSchemaRelationMode = 'id' | 'ref';
+
+/**
+ * Options for JSON Schema export
+ */
+export interface JsonSchemaExportOptions {
+  /**
+   * How relation fields are represented
+   * @default 'id'
+   */
+  relations?: JsonSchemaRelationMode;
+
+  /**
+   * Prefix for `$ref` URIs pointing at other schemas in `ref` mode.
+   * The default resolves within a bundle generated by `generateJsonSchema`.
+   * @default '#/$defs/'
+   */
+  refPrefix?: string;
+
+  /**
+   * Base URI for `$id`. When set, each schema gets `$id: <baseUri><name>.json`.
+   */
+  baseUri?: string;
+
+  /**
+   * Whether to reject properties not declared in the schema
+   * (`additionalProperties: false`)
+   * @default false
+   */
+  strict?: boolean;
+
+  /**
+   * Whether optional fields also accept `null`
+   * @default true
+   */
+  nullable?: boolean;
+
+  /**
+   * Whether to include backward relations (`<-`, `<~`) as read-only properties
+   * @default true
+   */
+  includeBackwardRelations?: boolean;
+}
+
+// =============================================================================
+// Import Options
+// =============================================================================
+
+/**
+ * Options for JSON Schema import
+ */
+export interface JsonSchemaImportOptions {
+  /**
+   * Type name for a root schema without a `title`
+   * @default 'Root'
+   */
+  typeName?: string;
+
+  /**
+   * Whether to carry `minimum`, `maximum`, `minLength`, `pattern` and
+   * `format` into `$constraints`
+   * @default true
+   */
+  includeConstraints?: boolean;
+
+  /**
+   * Whether to carry `default` values into the type strings
+   * @default true
+   */
+  includeDefaults?: boolean;
+}
+
+// =============================================================================
+// Type Mapping
+// =============================================================================
+
+/**
+ * Mapping configuration between IceType primitives and JSON Schema
+ */
+export interface JsonSchemaTypeMappingConfig {
+  /** IceType primitive type */
+  icetype: string;
+  /** Corresponding JSON Schema */
+  schema: JsonSchema;
+}
+
+/**
+ * Mapping table for IceType primitive types to JSON Schema
+ */
+export const ICETYPE_TO_JSON_SCHEMA_MAPPINGS: JsonSchemaTypeMappingConfig[] = [
+  { icetype: 'string', schema: { type: 'string' } },
+  { icetype: 'text', schema: { type: 'string' } },
+  { icetype: 'uuid', schema: { type: 'string', format: 'uuid' } },
+  { icetype: 'int', schema: { type: 'integer', format: 'int32' } },
+  { icetype: 'long', schema: { type: 'integer', format: 'int64' } },
+  { icetype: 'bigint', schema: { type: 'integer', format: 'int64' } },
+  { icetype: 'float', schema: { type: 'number', format: 'float' } },
+  { icetype: 'double', schema: { type: 'number', format: 'double' } },
+  { icetype: 'bool', schema: { type: 'boolean' } },
+  { icetype: 'boolean', schema: { type: 'boolean' } },
+  { icetype: 'timestamp', schema: { type: 'string', format: 'date-time' } },
+  { icetype: 'timestamptz', schema: { type: 'string', format: 'date-time' } },
+  { icetype: 'date', schema: { type: 'string', format: 'date' } },
+  { icetype: 'time', schema: { type: 'string', format: 'time' } },
+  { icetype: 'json', schema: {} },
+  { icetype: 'binary', schema: { type: 'string', contentEncoding: 'base64' } },
+];
+
+/**
+ * Map of IceType primitive types to JSON Schema
+ */
+export const ICETYPE_TO_JSON_SCHEMA_MAP: Record<string, JsonSchema> = Object.fromEntries(
+  ICETYPE_TO_JSON_SCHEMA_MAPPINGS.map((m) => [m.icetype, m.schema])
+);
+
+/**
+ * Map of IceType constraint formats to JSON Schema formats
+ */
+export const FIELD_FORMAT_TO_JSON_SCHEMA: Record<FieldFormat, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  hostname: 'hostname',
+  ipv4: 'ipv4',
+};
@@ -0,0 +1,295 @@
+/**
+ * Tests for JSON Schema export functionality
+ *
+ * Tests the conversion of IceType schemas to JSON Schema (draft 2020-12).
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSchema } from '@icetype/core';
+
+import {
+  fieldToJsonSchema,
+  schemaToJsonSchema,
+  generateJsonSchema,
+  serializeJsonSchema,
+  decimalPattern,
+  JsonSchemaAdapter,
+  createJsonSchemaAdapter,
+  JSON_SCHEMA_DIALECT,
+} from '../src/index.js';
+
+function propertiesOf(definition: Record<string, unknown>) {
+  return schemaToJsonSchema(parseSchema({ $type: 'Test', ...definition })).properties!;
+}
+
+// =============================================================================
+// Type Mapping
+// =============================================================================
+
+describe('type mapping', () => {
+  it('should map primitive types', () => {
+    const properties = propertiesOf({
+      s: 'string',
+      t: 'text',
+      u: 'uuid',
+      i: 'int',
+      l: 'long',
+      b: 'bigint',
+      f: 'float',
+      d: 'double',
+      flag: 'bool',
+      ts: 'timestamp',
+      tz: 'timestamptz',
+      day: 'date',
+      at: 'time',
+      payload: 'json',
+      blob: 'binary',
+    });
+
+    expect(properties).toEqual({
+      s: { type: 'string' },
+      t: { type: 'string' },
+      u: { type: 'string', format: 'uuid' },
+      i: { type: 'integer', format: 'int32' },
+      l: { type: 'integer', format: 'int64' },
+      b: { type: 'integer', format: 'int64' },
+      f: { type: 'number', format: 'float' },
+      d: { type: 'number', format: 'double' },
+      flag: { type: 'boolean' },
+      ts: { type: 'string', format: 'date-time' },
+      tz: { type: 'string', format: 'date-time' },
+      day: { type: 'string', format: 'date' },
+      at: { type: 'string', format: 'time' },
+      payload: {},
+      blob: { type: 'string', contentEncoding: 'base64' },
+    });
+  });
+
+  it('should map parametric types', () => {
+    const properties = propertiesOf({
+      code: 'varchar(8)',
+      initial: 'char(1)',
+      price: 'decimal(10,2)',
+      hash: 'fixed(32)',
+    });
+
+    expect(properties.code).toEqual({ type: 'string', maxLength: 8 });
+    expect(properties.initial).toEqual({ type: 'string', maxLength: 1 });
+    expect(properties.price).toEqual({
+      type: 'string',
+      format: 'decimal',
+      pattern: '^-?[0-9]{1,8}([.][0-9]{1,2})?$',
+    });
+    expect(properties.hash).toEqual({ type: 'string', contentEncoding: 'base64', minLength: 44, maxLength: 44 });
+  });
+
+  it('should build decimal patterns', () => {
+    expect(decimalPattern()).toBe('^-?[0-9]+([.][0-9]+)?$');
+    expect(decimalPattern(5)).toBe('^-?[0-9]{1,5}$');
+    expect(new RegExp(decimalPattern(6, 2)).test('1234.56')).toBe(true);
+    expect(new RegExp(decimalPattern(6, 2)).test('12345.6')).toBe(false);
+  });
+
+  it('should map list and map types', () => {
+    const properties = propertiesOf({ scores: 'list<double>', counts: 'map<string, int>' });
+
+    expect(properties.scores).toEqual({ type: 'array', items: { type: 'number', format: 'double' } });
+    expect(properties.counts).toEqual({
+      type: 'object',
+      additionalProperties: { type: 'integer', format: 'int32' },
+    });
+  });
+
+  it('should emit enums and structs as $defs', () => {
+    const jsonSchema = schemaToJsonSchema(parseSchema({
+      $type: 'User',
+      $enums: { Role: ['admin', 'member'] },
+      $structs: { Address: { city: 'string!', zip: 'varchar(5)?' } },
+      role: 'enum<Role>',
+      address: 'struct<Address>',
+    }));
+
+    expect(jsonSchema.properties).toEqual({
+      role: { $ref: '#/$defs/Role' },
+      address: { $ref: '#/$defs/Address' },
+    });
+    expect(jsonSchema.$defs).toEqual({
+      Role: { type: 'string', enum: ['admin', 'member'] },
+      Address: {
+        type: 'object',
+        properties: {
+          city: { type: 'string' },
+          zip: { type: ['string', 'null'], maxLength: 5 },
+        },
+        required: ['city'],
+      },
+    });
+  });
+});
+
+// =============================================================================
+// Arrays, Optionality and Defaults
+// =============================================================================
+
+describe('fields', () => {
+  it('should wrap array fields', () => {
+    expect(propertiesOf({ tags: 'string[]' }).tags).toEqual({ type: 'array', items: { type: 'string' } });
+  });
+
+  it('should make optional fields nullable and leave them out of required', () => {
+    const jsonSchema = schemaToJsonSchema(parseSchema({
+      $type: 'User',
+      $enums: { Role: ['admin'] },
+      id: 'uuid!',
+      name: 'string?',
+      role: 'enum<Role>?',
+      payload: 'json?',
+    }));
+
+    expect(jsonSchema.required).toEqual(['id']);
+    expect(jsonSchema.properties!.name).toEqual({ type: ['string', 'null'] });
+    expect(jsonSchema.properties!.role).toEqual({ anyOf: [{ $ref: '#/$defs/Role' }, { type: 'null' }] });
+    expect(jsonSchema.properties!.payload).toEqual({});
+  });
+
+  it('should not add null when nullable is false', () => {
+    const field = parseSchema({ $type: 'T', name: 'string?' }).fields.get('name')!;
+    expect(fieldToJsonSchema(field, { nullable: false })).toEqual({ type: 'string' });
+  });
+
+  it('should emit literal defaults and treat defaulted fields as not required', () => {
+    const jsonSchema = schemaToJsonSchema(parseSchema({
+      $type: 'User',
+      status: 'string = "active"',
+      count: 'int = 0',
+      createdAt: 'timestamp = now()',
+    }));
+
+    expect(jsonSchema.properties!.status).toEqual({ type: 'string', default: 'active' });
+    expect(jsonSchema.properties!.count).toEqual({ type: 'integer', format: 'int32', default: 0 });
+    expect(jsonSchema.properties!.createdAt).toEqual({ type: 'string', format: 'date-time' });
+    expect(jsonSchema.required).toBeUndefined();
+  });
+
+  it('should map $constraints to validation keywords', () => {
+    const jsonSchema = schemaToJsonSchema(parseSchema({
+      $type: 'User',
+      $constraints: {
+        age: { min: 0, max: 150 },
+        slug: { pattern: '^[a-z-]+$', minLength: 3, maxLength: 80 },
+        email: { format: 'email' },
+        homepage: { format: 'url' },
+      },
+      age: 'int',
+      slug: 'varchar(64)',
+      email: 'string',
+      homepage: 'string',
+    }));
+
+    expect(jsonSchema.properties).toEqual({
+      age: { type: 'integer', format: 'int32', minimum: 0, maximum: 150 },
+      slug: { type: 'string', maxLength: 64, minLength: 3, pattern: '^[a-z-]+$' },
+      email: { type: 'string', format: 'email' },
+      homepage: { type: 'string', format: 'uri' },
+    });
+  });
+});
+
+// =============================================================================
+// Relations
+// =============================================================================
+
+describe('relations', () => {
+  const post = parseSchema({
+    $type: 'Post',
+    id: 'uuid!',
+    author: '-> User',
+    editor: '-> User?',
+    reviewers: '-> User[]',
+    comments: '<- Comment.post[]',
+  });
+
+  it('should represent relations as ID strings by default', () => {
+    const jsonSchema = schemaToJsonSchema(post);
+
+    expect(jsonSchema.properties!.author).toEqual({ type: 'string', 'x-icetype-relation': '-> User' });
+    expect(jsonSchema.properties!.editor).toEqual({ type: ['string', 'null'], 'x-icetype-relation': '-> User?' });
+    expect(jsonSchema.properties!.reviewers).toEqual({
+      type: 'array',
+      items: { type: 'string' },
+      'x-icetype-relation': '-> User[]',
+    });
+    expect(jsonSchema.required).toEqual(['id', 'author', 'reviewers']);
+  });
+
+  it('should mark backward relations read-only', () => {
+    expect(schemaToJsonSchema(post).properties!.comments).toEqual({
+      type: 'array',
+      items: { type: 'string' },
+      readOnly: true,
+      'x-icetype-relation': '<- Comment.post[]',
+    });
+    expect(schemaToJsonSchema(post, { includeBackwardRelations: false }).properties!.comments).toBeUndefined();
+  });
+
+  it('should represent relations as $ref in ref mode', () => {
+    const properties = schemaToJsonSchema(post, { relations: 'ref', refPrefix: 'https://example.com/' }).properties!;
+
+    expect(properties.author).toEqual({ $ref: 'https://example.com/User', 'x-icetype-relation': '-> User' });
+    expect(properties.editor).toEqual({
+      anyOf: [{ $ref: 'https://example.com/User' }, { type: 'null' }],
+      'x-icetype-relation': '-> User?',
+    });
+  });
+});
+
+// =============================================================================
+// Documents
+// =============================================================================
+
+describe('documents', () => {
+  const user = parseSchema({ $type: 'User', $enums: { Role: ['admin'] }, id: 'uuid!', role: 'enum<Role>' });
+  const post = parseSchema({ $type: 'Post', id: 'uuid!', author: '-> User' });
+
+  it('should generate a standalone document', () => {
+    const jsonSchema = schemaToJsonSchema(user, { baseUri: 'https://example.com/schemas/', strict: true });
+
+    expect(jsonSchema.$schema).toBe(JSON_SCHEMA_DIALECT);
+    expect(jsonSchema.$id).toBe('https://example.com/schemas/User.json');
+    expect(jsonSchema.title).toBe('User');
+    expect(jsonSchema.type).toBe('object');
+    expect(jsonSchema.additionalProperties).toBe(false);
+  });
+
+  it('should bundle schemas, enums and structs in $defs', () => {
+    const bundle = generateJsonSchema([user, post], { relations: 'ref' });
+
+    expect(bundle.$schema).toBe(JSON_SCHEMA_DIALECT);
+    expect(Object.keys(bundle.$defs!)).toEqual(['Role', 'User', 'Post']);
+    expect(bundle.$defs!.Post!.properties!.author).toEqual({
+      $ref: '#/$defs/User',
+      'x-icetype-relation': '-> User',
+    });
+  });
+
+  it('should serialize with a trailing newline', () => {
+    expect(serializeJsonSchema({ type: 'string' })).toBe('{\n  "type": "string"\n}\n');
+  });
+});
+
+// =============================================================================
+// Adapter
+// =============================================================================
+
+describe('JsonSchemaAdapter', () => {
+  it('should implement the SchemaAdapter interface', () => {
+    const adapter = createJsonSchemaAdapter();
+    const schema = parseSchema({ $type: 'User', id: 'uuid!' });
+
+    expect(adapter).toBeInstanceOf(JsonSchemaAdapter);
+    expect(adapter.name).toBe('json-schema');
+    expect(adapter.transform(schema).title).toBe('User');
+    expect(JSON.parse(adapter.serialize(adapter.transform(schema)))).toEqual(schemaToJsonSchema(schema));
+    expect(adapter.generateSchema([schema]).$defs).toHaveProperty('User');
+  });
+});
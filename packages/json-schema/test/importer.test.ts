@@ -0,0 +1,286 @@
+/**
+ * Tests for JSON Schema import functionality
+ *
+ * Tests the conversion of JSON Schema documents to IceType schema definitions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { parseSchema, isIceTypeError, ErrorCodes } from '@icetype/core';
+
+import {
+  parseJsonSchema,
+  parseJsonSchemaFile,
+  schemaToJsonSchema,
+  generateJsonSchema,
+} from '../src/index.js';
+
+// =============================================================================
+// Root Schemas
+// =============================================================================
+
+describe('parseJsonSchema', () => {
+  it('should convert a root object schema', () => {
+    const schemas = parseJsonSchema({
+      title: 'User',
+      type: 'object',
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        name: { type: 'string', maxLength: 64 },
+        age: { type: ['integer', 'null'] },
+        balance: { type: 'number' },
+        active: { type: 'boolean', default: true },
+        createdAt: { type: 'string', format: 'date-time' },
+        avatar: { type: 'string', contentEncoding: 'base64' },
+        tags: { type: 'array', items: { type: 'string' } },
+        payload: {},
+      },
+      required: ['id', 'name', 'tags'],
+    });
+
+    expect(schemas).toEqual([{
+      $type: 'User',
+      id: 'uuid!',
+      name: 'varchar(64)!',
+      age: 'int?',
+      balance: 'double?',
+      active: 'bool = true',
+      createdAt: 'timestamp?',
+      avatar: 'binary?',
+      tags: 'string[]!',
+      payload: 'json?',
+    }]);
+  });
+
+  it('should use the typeName option for untitled schemas', () => {
+    const [schema] = parseJsonSchema({ type: 'object', properties: { id: { type: 'string' } } }, { typeName: 'Event' });
+    expect(schema?.$type).toBe('Event');
+  });
+
+  it('should accept JSON strings and reject invalid JSON', () => {
+    expect(parseJsonSchema('{"title":"A","properties":{"x":{"type":"integer"}}}')).toEqual([
+      { $type: 'A', x: 'int?' },
+    ]);
+
+    try {
+      parseJsonSchema('{ not json');
+      expect.unreachable();
+    } catch (error) {
+      expect(isIceTypeError(error)).toBe(true);
+      expect((error as { code: string }).code).toBe(ErrorCodes.JSON_PARSE_ERROR);
+    }
+  });
+
+  it('should widen integers that exceed 32 bits', () => {
+    const [schema] = parseJsonSchema({
+      title: 'T',
+      properties: {
+        a: { type: 'integer', format: 'int64' },
+        b: { type: 'integer', maximum: 2 ** 40 },
+        c: { type: 'number', format: 'float' },
+      },
+    });
+
+    expect(schema).toMatchObject({ a: 'long?', b: 'long?', c: 'float?' });
+  });
+});
+
+// =============================================================================
+// Enums, Structs and Maps
+// =============================================================================
+
+describe('enums, structs and maps', () => {
+  it('should convert inline and referenced enums to $enums', () => {
+    const [schema] = parseJsonSchema({
+      title: 'Order',
+      properties: {
+        status: { enum: ['pending', 'shipped'] },
+        priority: { $ref: '#/$defs/Priority' },
+      },
+      required: ['status'],
+      $defs: { Priority: { type: 'string', enum: ['low', 'high'] } },
+    });
+
+    expect(schema).toEqual({
+      $type: 'Order',
+      $enums: { OrderStatus: ['pending', 'shipped'], Priority: ['low', 'high'] },
+      status: 'enum<OrderStatus>!',
+      priority: 'enum<Priority>?',
+    });
+  });
+
+  it('should convert nested objects to $structs', () => {
+    const [schema] = parseJsonSchema({
+      title: 'User',
+      properties: {
+        address: { $ref: '#/definitions/Address' },
+        settings: { type: 'object', properties: { theme: { type: 'string' } } },
+      },
+      definitions: {
+        Address: {
+          type: 'object',
+          properties: { city: { type: 'string' }, zip: { type: 'string', maxLength: 5 } },
+          required: ['city'],
+        },
+      },
+    });
+
+    expect(schema).toEqual({
+      $type: 'User',
+      $structs: {
+        Address: { city: 'string!', zip: 'varchar(5)?' },
+        UserSettings: { theme: 'string?' },
+      },
+      address: 'struct<Address>?',
+      settings: 'struct<UserSettings>?',
+    });
+  });
+
+  it('should convert additionalProperties objects to maps', () => {
+    const [schema] = parseJsonSchema({
+      title: 'T',
+      properties: {
+        counts: { type: 'object', additionalProperties: { type: 'integer' } },
+        anything: { type: 'object' },
+      },
+    });
+
+    expect(schema).toMatchObject({ counts: 'map<string, int>?', anything: 'json?' });
+  });
+});
+
+// =============================================================================
+// Constraints
+// =============================================================================
+
+describe('constraints', () => {
+  const document = {
+    title: 'User',
+    properties: {
+      age: { type: 'integer', minimum: 0, maximum: 150 },
+      email: { type: 'string', format: 'email' },
+      slug: { type: 'string', pattern: '^[a-z-]+$', minLength: 3 },
+      id: { type: 'string', format: 'uuid' },
+    },
+  };
+
+  it('should carry validation keywords into $constraints', () => {
+    const [schema] = parseJsonSchema(document);
+
+    expect(schema?.$constraints).toEqual({
+      age: { min: 0, max: 150 },
+      email: { format: 'email' },
+      slug: { pattern: '^[a-z-]+$', minLength: 3 },
+    });
+  });
+
+  it('should drop constraints when includeConstraints is false', () => {
+    expect(parseJsonSchema(document, { includeConstraints: false })[0]?.$constraints).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// Bundles and Relations
+// =============================================================================
+
+describe('bundles', () => {
+  it('should convert unreferenced object definitions to schemas', () => {
+    const schemas = parseJsonSchema({
+      $defs: {
+        Address: { type: 'object', properties: { city: { type: 'string' } } },
+        Customer: {
+          type: 'object',
+          properties: { name: { type: 'string' }, address: { $ref: '#/$defs/Address' } },
+        },
+        Order: {
+          type: 'object',
+          properties: { customer: { $ref: '#/$defs/Customer' } },
+        },
+      },
+    });
+
+    // Plain $refs nest values, so only the unreferenced Order becomes a schema
+    expect(schemas).toEqual([{
+      $type: 'Order',
+      $structs: {
+        Customer: { name: 'string?', address: 'struct<Address>?' },
+        Address: { city: 'string?' },
+      },
+      customer: 'struct<Customer>?',
+    }]);
+  });
+
+  it('should restore relations from x-icetype-relation', () => {
+    const schemas = parseJsonSchema({
+      $defs: {
+        Post: {
+          type: 'object',
+          properties: {
+            author: { type: 'string', 'x-icetype-relation': '-> User' },
+            comments: { type: 'array', items: { type: 'string' }, 'x-icetype-relation': '<- Comment.post[]' },
+          },
+        },
+      },
+    });
+
+    expect(schemas).toEqual([{ $type: 'Post', author: '-> User', comments: '<- Comment.post[]' }]);
+  });
+});
+
+// =============================================================================
+// Round Trip
+// =============================================================================
+
+describe('round trip', () => {
+  it('should reproduce an IceType schema from its exported JSON Schema', () => {
+    const definition = {
+      $type: 'User',
+      $enums: { Role: ['admin', 'member'] },
+      $structs: { Address: { city: 'string!' } },
+      $constraints: { age: { min: 0 } },
+      id: 'uuid!',
+      name: 'varchar(64)!',
+      age: 'int?',
+      balance: 'decimal(10,2)!',
+      role: 'enum<Role>!',
+      address: 'struct<Address>?',
+      tags: 'string[]?',
+      manager: '-> User?',
+      posts: '<- Post.author[]',
+    };
+
+    const [imported] = parseJsonSchema(schemaToJsonSchema(parseSchema(definition)));
+    expect(imported).toEqual(definition);
+  });
+
+  it('should round-trip relations through a ref-mode bundle', () => {
+    const user = parseSchema({ $type: 'User', id: 'uuid!' });
+    const post = parseSchema({ $type: 'Post', id: 'uuid!', author: '-> User' });
+
+    const schemas = parseJsonSchema(generateJsonSchema([user, post], { relations: 'ref' }));
+    expect(schemas).toEqual([
+      { $type: 'User', id: 'uuid!' },
+      { $type: 'Post', id: 'uuid!', author: '-> User' },
+    ]);
+  });
+});
+
+// =============================================================================
+// Files
+// =============================================================================
+
+describe('parseJsonSchemaFile', () => {
+  it('should read and convert a JSON Schema file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'icetype-json-schema-'));
+    try {
+      const file = join(dir, 'user.schema.json');
+      writeFileSync(file, JSON.stringify({ title: 'User', properties: { id: { type: 'string' } } }));
+
+      expect(await parseJsonSchemaFile(file)).toEqual([{ $type: 'User', id: 'string?' }]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * DuckDB Executor for @icetype/migrations
+ *
+ * A first-party `DatabaseExecutor` for DuckDB backed by the
+ * `@duckdb/node-api` bindings, which run the database in-process.
+ *
+ * @packageDocumentation
+ */
+
+import type { DatabaseConnection } from './executor.js';
+
+// =============================================================================
+// Driver Types
+// =============================================================================
+
+/**
+ * The subset of the `@duckdb/node-api` API used by the executor.
+ */
+interface DuckDBConnection {
+  run(sql: string): Promise<unknown>;
+  runAndReadAll(sql: string, values?: unknown[]): Promise<{ getRowObjectsJS(): unknown[] }>;
+  closeSync(): void;
+}
+
+interface DuckDBInstance {
+  connect(): Promise<DuckDBConnection>;
+  closeSync(): void;
+}
+
+interface DuckDBModule {
+  DuckDBInstance: { create(path?: string): Promise<DuckDBInstance> };
+}
+
+/**
+ * Load the DuckDB node bindings.
+ */
+async function loadDuckDB(): Promise<DuckDBModule> {
+  // Module name is held in a variable so TypeScript does not require the
+  // package to be installed at compile time
+  const packageName = '@duckdb/node-api';
+  try {
+    return (await import(/* @vite-ignore */ packageName)) as DuckDBModule;
+  } catch (error) {
+    throw new Error(
+      `Failed to load DuckDB: ${error instanceof Error ? error.message : String(error)}. ` +
+      `Make sure '${packageName}' is installed.`
+    );
+  }
+}
+
+// =============================================================================
+// Executor
+// =============================================================================
+
+/**
+ * Open a DuckDB database as a `DatabaseExecutor`.
+ *
+ * @param path - Path to the database file, or `:memory:`
+ * @returns An open connection; query parameters use `?` or `$1`
+ *
+ * @example
+ * ```typescript
+ * const db = await createDuckDBExecutor('./warehouse.duckdb');
+ * const runner = createMigrationRunner(db);
+ * const result = await runner.run(migration, statements);
+ * await db.close();
+ * ```
+ */
+export async function createDuckDBExecutor(path: string): Promise<DatabaseConnection> {
+  const { DuckDBInstance } = await loadDuckDB();
+  const instance = await DuckDBInstance.create(path);
+  const connection = await instance.connect();
+  let closed = false;
+
+  return {
+    dialect: 'duckdb',
+    async execute(sql: string): Promise<void> {
+      await connection.run(sql);
+    },
+    async beginTransaction(): Promise<void> {
+      await connection.run('BEGIN TRANSACTION');
+    },
+    async commit(): Promise<void> {
+      await connection.run('COMMIT');
+    },
+    async rollback(): Promise<void> {
+      await connection.run('ROLLBACK');
+    },
+    async query<T = Record<string, unknown>>(sql: string, params: unknown[] = []): Promise<T[]> {
+      const reader = await connection.runAndReadAll(sql, params);
+      return reader.getRowObjectsJS() as T[];
+    },
+    async close(): Promise<void> {
+      if (!closed) {
+        closed = true;
+        connection.closeSync();
+        instance.closeSync();
+      }
+    },
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * Database Executor Module for @icetype/migrations
+ *
+ * Resolves database URLs to first-party `DatabaseExecutor` implementations
+ * and splits migration files into individual statements for the runner.
+ *
+ * @packageDocumentation
+ */
+
+import type { Dialect } from './generator.js';
+import type { DatabaseExecutor } from './runner.js';
+import { createSqliteExecutor } from './sqlite-executor.js';
+import { createPgliteExecutor } from './pglite-executor.js';
+import { createDuckDBExecutor } from './duckdb-executor.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A `DatabaseExecutor` backed by an open database connection.
+ */
+export interface DatabaseConnection extends DatabaseExecutor {
+  /** SQL dialect spoken by the connection */
+  readonly dialect: Dialect;
+  /**
+   * Run a query and return its rows. Statements that return no rows
+   * (`INSERT`, `DELETE`, ...) may also be run this way to bind parameters.
+   * @param sql - The SQL query
+   * @param params - Positional parameters (`?` for SQLite and DuckDB, `$1` for Postgres)
+   */
+  query<T = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<T[]>;
+  /** Close the connection */
+  close(): Promise<void>;
+}
+
+/**
+ * A parsed database URL.
+ */
+export interface DatabaseTarget {
+  /** SQL dialect of the target database */
+  dialect: Dialect;
+  /** Database file or directory, or `:memory:` for an in-memory database */
+  filename: string;
+}
+
+// =============================================================================
+// URL Parsing
+// =============================================================================
+
+/** URL schemes and the embedded engines they open */
+const URL_SCHEMES: Record<string, Dialect> = {
+  sqlite: 'sqlite',
+  file: 'sqlite',
+  pglite: 'postgres',
+  duckdb: 'duckdb',
+};
+
+/** File extensions recognised without a URL scheme */
+const FILE_EXTENSIONS: Array<[string, Dialect]> = [
+  ['.db', 'sqlite'],
+  ['.sqlite', 'sqlite'],
+  ['.sqlite3', 'sqlite'],
+  ['.duckdb', 'duckdb'],
+  ['.ddb', 'duckdb'],
+];
+
+/**
+ * Parse a database URL.
+ *
+ * Supported forms:
+ * - `sqlite:./dev.db`, `sqlite://./dev.db`, `sqlite:///abs/path/dev.db`
+ * - `file:./dev.db`
+ * - `pglite://./dev-db` (embedded Postgres data directory)
+ * - `duckdb://./warehouse.duckdb`
+ * - `<scheme>::memory:`, or `:memory:` for an in-memory SQLite database
+ * - A plain path ending in `.db`, `.sqlite`, `.sqlite3`, `.duckdb` or `.ddb`
+ *
+ * @param url - The database URL
+ * @returns The dialect and database file
+ * @throws {Error} If the URL scheme is not supported
+ */
+export function parseDatabaseUrl(url: string): DatabaseTarget {
+  const trimmed = url.trim();
+
+  if (trimmed === ':memory:') {
+    return { dialect: 'sqlite', filename: ':memory:' };
+  }
+
+  const schemeMatch = /^([a-z][a-z0-9+.-]*):(.*)$/i.exec(trimmed);
+  // Windows drive letters (C:\dev.db) are paths, not schemes
+  if (schemeMatch && schemeMatch[1]!.length > 1) {
+    const scheme = schemeMatch[1]!.toLowerCase();
+    const rest = schemeMatch[2]!;
+    const dialect = URL_SCHEMES[scheme];
+    if (dialect) {
+      // sqlite://./dev.db and sqlite:///abs/dev.db keep the path after '//'
+      const filename = rest.startsWith('//') ? rest.slice(2) : rest;
+      if (filename.length === 0) {
+        throw new Error(`Database URL '${url}' is missing a file path`);
+      }
+      return { dialect, filename };
+    }
+    if (scheme === 'postgres' || scheme === 'postgresql') {
+      throw new Error(
+        `Postgres server connections are not supported in '${url}'. ` +
+        `Use 'pglite://<dir>' for an embedded Postgres database`
+      );
+    }
+    throw new Error(
+      `Unsupported database URL scheme '${scheme}:' in '${url}'. Supported: sqlite:, file:, pglite:, duckdb:`
+    );
+  }
+
+  const extension = FILE_EXTENSIONS.find(([ext]) => trimmed.toLowerCase().endsWith(ext));
+  if (extension) {
+    return { dialect: extension[1], filename: trimmed };
+  }
+
+  throw new Error(
+    `Cannot determine the database type of '${url}'. Use a URL such as 'sqlite:./dev.db'`
+  );
+}
+
+/**
+ * Open a connection for a database URL.
+ *
+ * @param url - The database URL (see {@link parseDatabaseUrl})
+ * @returns An open connection usable as a `DatabaseExecutor`
+ *
+ * @example
+ * ```typescript
+ * const connection = await createDatabaseExecutor('sqlite:./dev.db');
+ * try {
+ *   const runner = createMigrationRunner(connection);
+ *   await runner.run(migration, statements);
+ * } finally {
+ *   await connection.close();
+ * }
+ * ```
+ */
+export async function createDatabaseExecutor(url: string): Promise<DatabaseConnection> {
+  const target = parseDatabaseUrl(url);
+  switch (target.dialect) {
+    case 'sqlite':
+      return createSqliteExecutor(target.filename);
+    case 'postgres':
+      return createPgliteExecutor(target.filename);
+    case 'duckdb':
+      return createDuckDBExecutor(target.filename);
+    default:
+      throw new Error(`No built-in executor for dialect '${target.dialect}'`);
+  }
+}
+
+// =============================================================================
+// Statement Splitting
+// =============================================================================
+
+/**
+ * Split a SQL script into individual statements.
+ *
+ * Semicolons inside quoted strings, quoted identifiers, `--` and `/* *\/`
+ * comments, and `$$`-quoted bodies do not end a statement. Statements
+ * that contain only comments are dropped.
+ *
+ * @param sql - The SQL script
+ * @returns The statements, without trailing semicolons
+ */
+export function splitSqlStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let hasCode = false;
+  let i = 0;
+
+  const flush = (): void => {
+    if (hasCode) {
+      statements.push(current.trim());
+    }
+    current = '';
+    hasCode = false;
+  };
+
+  while (i < sql.length) {
+    const char = sql[i]!;
+    const next = sql[i + 1];
+
+    // Line comment
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      const stop = end === -1 ? sql.length : end;
+      current += sql.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    // Block comment
+    if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      const stop = end === -1 ? sql.length : end + 2;
+      current += sql.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    // Quoted strings and identifiers ('' and "" escape themselves)
+    if (char === "'" || char === '"' || char === '`') {
+      let j = i + 1;
+      while (j < sql.length) {
+        if (sql[j] === char) {
+          if (sql[j + 1] === char) {
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        j++;
+      }
+      current += sql.slice(i, j + 1);
+      hasCode = true;
+      i = j + 1;
+      continue;
+    }
+
+    // Dollar-quoted bodies ($$ ... $$ or $tag$ ... $tag$)
+    if (char === '$') {
+      const tag = /^\$[A-Za-z_]*\$/.exec(sql.slice(i))?.[0];
+      if (tag) {
+        const end = sql.indexOf(tag, i + tag.length);
+        const stop = end === -1 ? sql.length : end + tag.length;
+        current += sql.slice(i, stop);
+        hasCode = true;
+        i = stop;
+        continue;
+      }
+    }
+
+    if (char === ';') {
+      flush();
+      i++;
+      continue;
+    }
+
+    current += char;
+    if (!/\s/.test(char)) {
+      hasCode = true;
+    }
+    i++;
+  }
+
+  flush();
+  return statements;
+}
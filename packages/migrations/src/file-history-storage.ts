@@ -0,0 +1,207 @@
+/**
+ * File History Storage for @icetype/migrations
+ *
+ * Persists migration history as a JSON file next to the migrations, for
+ * targets that cannot hold a history table. Every write replaces the file
+ * atomically, so a crash mid-write never leaves a truncated history.
+ *
+ * @packageDocumentation
+ */
+
+import { mkdir, readFile, rename, unlink, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { parseSchemaVersion, serializeSchemaVersion } from '@icetype/core';
+
+import {
+  queryRecords,
+  type HistoryQueryOptions,
+  type HistoryStorage,
+  type MigrationRecord,
+  type RollbackRecord,
+} from './history.js';
+
+// =============================================================================
+// File Format
+// =============================================================================
+
+/** Default history file name, relative to the migrations directory */
+export const DEFAULT_HISTORY_FILE = '.history.json';
+
+/** A migration record as stored in the history file */
+interface StoredMigrationRecord {
+  migrationId: string;
+  fromVersion: string;
+  toVersion: string;
+  appliedAt: string;
+  checksum: string;
+  description?: string;
+  executionTime?: number;
+}
+
+/** A rollback record as stored in the history file */
+interface StoredRollbackRecord {
+  migrationId: string;
+  rolledBackAt: string;
+  originalRecord: StoredMigrationRecord;
+}
+
+/** Contents of the history file */
+interface HistoryFile {
+  version: 1;
+  migrations: StoredMigrationRecord[];
+  rollbacks: StoredRollbackRecord[];
+}
+
+function toStored(record: MigrationRecord): StoredMigrationRecord {
+  const stored: StoredMigrationRecord = {
+    migrationId: record.migrationId,
+    fromVersion: serializeSchemaVersion(record.fromVersion),
+    toVersion: serializeSchemaVersion(record.toVersion),
+    appliedAt: record.appliedAt.toISOString(),
+    checksum: record.checksum,
+  };
+  if (record.description !== undefined) stored.description = record.description;
+  if (record.executionTime !== undefined) stored.executionTime = record.executionTime;
+  return stored;
+}
+
+function fromStored(stored: StoredMigrationRecord): MigrationRecord {
+  const record: MigrationRecord = {
+    migrationId: stored.migrationId,
+    fromVersion: parseSchemaVersion(stored.fromVersion),
+    toVersion: parseSchemaVersion(stored.toVersion),
+    appliedAt: new Date(stored.appliedAt),
+    checksum: stored.checksum,
+  };
+  if (stored.description !== undefined) record.description = stored.description;
+  if (stored.executionTime !== undefined) record.executionTime = stored.executionTime;
+  return record;
+}
+
+// =============================================================================
+// Storage Implementation
+// =============================================================================
+
+/**
+ * HistoryStorage backed by a JSON file (by default `migrations/.history.json`).
+ *
+ * The file is read on every call, so several processes see each other's
+ * writes; it is created on the first write.
+ *
+ * @example
+ * ```typescript
+ * const history = createMigrationHistory(
+ *   new FileHistoryStorage('./migrations/.history.json')
+ * );
+ * await history.record(migration);
+ * ```
+ */
+export class FileHistoryStorage implements HistoryStorage {
+  constructor(private readonly filePath: string) {}
+
+  async save(record: MigrationRecord): Promise<void> {
+    await this.update((file) => {
+      file.migrations = file.migrations.filter((m) => m.migrationId !== record.migrationId);
+      file.migrations.push(toStored(record));
+    });
+  }
+
+  async load(migrationId: string): Promise<MigrationRecord | null> {
+    const stored = (await this.read()).migrations.find((m) => m.migrationId === migrationId);
+    return stored ? fromStored(stored) : null;
+  }
+
+  async remove(migrationId: string): Promise<void> {
+    await this.update((file) => {
+      file.migrations = file.migrations.filter((m) => m.migrationId !== migrationId);
+    });
+  }
+
+  async has(migrationId: string): Promise<boolean> {
+    return (await this.read()).migrations.some((m) => m.migrationId === migrationId);
+  }
+
+  async getAll(options?: HistoryQueryOptions): Promise<MigrationRecord[]> {
+    const records = (await this.read()).migrations.map(fromStored);
+    return queryRecords(records, (r) => r.appliedAt, options);
+  }
+
+  async saveRollback(record: RollbackRecord): Promise<void> {
+    await this.update((file) => {
+      file.rollbacks = file.rollbacks.filter((r) => r.migrationId !== record.migrationId);
+      file.rollbacks.push({
+        migrationId: record.migrationId,
+        rolledBackAt: record.rolledBackAt.toISOString(),
+        originalRecord: toStored(record.originalRecord),
+      });
+    });
+  }
+
+  async loadRollback(migrationId: string): Promise<RollbackRecord | null> {
+    const stored = (await this.read()).rollbacks.find((r) => r.migrationId === migrationId);
+    return stored ? this.fromStoredRollback(stored) : null;
+  }
+
+  async hasRollback(migrationId: string): Promise<boolean> {
+    return (await this.read()).rollbacks.some((r) => r.migrationId === migrationId);
+  }
+
+  async getAllRollbacks(options?: HistoryQueryOptions): Promise<RollbackRecord[]> {
+    const records = (await this.read()).rollbacks.map((r) => this.fromStoredRollback(r));
+    return queryRecords(records, (r) => r.rolledBackAt, options);
+  }
+
+  async removeRollback(migrationId: string): Promise<void> {
+    await this.update((file) => {
+      file.rollbacks = file.rollbacks.filter((r) => r.migrationId !== migrationId);
+    });
+  }
+
+  private fromStoredRollback(stored: StoredRollbackRecord): RollbackRecord {
+    return {
+      migrationId: stored.migrationId,
+      rolledBackAt: new Date(stored.rolledBackAt),
+      originalRecord: fromStored(stored.originalRecord),
+    };
+  }
+
+  /**
+   * Read the history file, treating a missing file as empty history.
+   */
+  private async read(): Promise<HistoryFile> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { version: 1, migrations: [], rollbacks: [] };
+      }
+      throw error;
+    }
+
+    const file = JSON.parse(content) as Partial<HistoryFile>;
+    if (file.version !== 1 || !Array.isArray(file.migrations) || !Array.isArray(file.rollbacks)) {
+      throw new Error(`Unsupported migration history file: ${this.filePath}`);
+    }
+    return file as HistoryFile;
+  }
+
+  /**
+   * Apply a change to the history file and replace it atomically: the new
+   * contents are written to a temporary file that is then renamed over it.
+   */
+  private async update(change: (file: HistoryFile) => void): Promise<void> {
+    const file = await this.read();
+    change(file);
+
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.${Date.now()}.tmp`;
+    try {
+      await writeFile(tempPath, JSON.stringify(file, null, 2) + '\n', 'utf-8');
+      await rename(tempPath, this.filePath);
+    } catch (error) {
+      await unlink(tempPath).catch(() => {});
+      throw error;
+    }
+  }
+}
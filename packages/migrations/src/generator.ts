@@ -8,6 +8,7 @@
  */
 
 import type { SchemaDiff, SchemaChange, FieldDefinition } from '@icetype/core';
+import { generateCheckExpression, getCheckConstraintName } from '@icetype/core';
 
 // =============================================================================
 // Types
@@ -313,6 +314,51 @@ function generateCreateIndex(
   return statements;
 }
 
+function generateAddCheck(
+  tableName: string,
+  change: SchemaChange & { type: 'add_constraint' | 'drop_constraint' },
+  dialect: Dialect,
+  options: GeneratorOptions
+): string[] {
+  const table = quoteIdentifier(tableName, dialect, !!options.quoteIdentifiers);
+  const column = quoteIdentifier(change.field, dialect, !!options.quoteIdentifiers);
+  const name = quoteIdentifier(getCheckConstraintName(tableName, change.field), dialect, !!options.quoteIdentifiers);
+
+  switch (dialect) {
+    case 'sqlite':
+    case 'duckdb':
+      // Neither supports adding constraints to an existing table
+      return [`-- ${dialect === 'sqlite' ? 'SQLite' : 'DuckDB'}: Cannot add CHECK constraint ${name}. Recreate table to constrain ${column}${ending(options)}`];
+    default: {
+      const expression = generateCheckExpression(column, change.constraints, dialect);
+      return expression === undefined
+        ? []
+        : [`ALTER TABLE ${table} ADD CONSTRAINT ${name} CHECK (${expression})${ending(options)}`];
+    }
+  }
+}
+
+function generateDropCheck(
+  tableName: string,
+  field: string,
+  dialect: Dialect,
+  options: GeneratorOptions
+): string {
+  const table = quoteIdentifier(tableName, dialect, !!options.quoteIdentifiers);
+  const name = quoteIdentifier(getCheckConstraintName(tableName, field), dialect, !!options.quoteIdentifiers);
+
+  switch (dialect) {
+    case 'mysql':
+      return `ALTER TABLE ${table} DROP CHECK ${name}${ending(options)}`;
+    case 'sqlite':
+      return `-- SQLite: Cannot drop CHECK constraint ${name}. Recreate table without it${ending(options)}`;
+    case 'duckdb':
+      return `-- DuckDB: Cannot drop CHECK constraint ${name}. Recreate table without it${ending(options)}`;
+    default:
+      return `ALTER TABLE ${table} DROP CONSTRAINT ${name}${ending(options)}`;
+  }
+}
+
 // =============================================================================
 // Main Generator Implementation
 // =============================================================================
@@ -352,6 +398,14 @@ class DefaultMigrationGenerator implements MigrationGenerator {
           const indexStatements = generateCreateIndex(diff.schemaName, change, this.dialect, this.options);
           statements.push(...indexStatements);
           break;
+
+        case 'add_constraint':
+          statements.push(...generateAddCheck(diff.schemaName, change, this.dialect, this.options));
+          break;
+
+        case 'drop_constraint':
+          statements.push(generateDropCheck(diff.schemaName, change.field, this.dialect, this.options));
+          break;
       }
     }
 
@@ -430,6 +484,16 @@ class DefaultMigrationGenerator implements MigrationGenerator {
             }
           }
           break;
+
+        case 'add_constraint':
+          // Rollback: drop the added constraint
+          statements.push(generateDropCheck(diff.schemaName, change.field, this.dialect, this.options));
+          break;
+
+        case 'drop_constraint':
+          // Rollback: restore the dropped constraint
+          statements.push(...generateAddCheck(diff.schemaName, change, this.dialect, this.options));
+          break;
       }
     }
 
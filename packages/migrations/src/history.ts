@@ -28,6 +28,8 @@ export interface MigrationRecord {
   checksum: string;
   /** Optional description */
   description?: string;
+  /** How long the migration took to apply, in milliseconds */
+  executionTime?: number;
 }
 
 /**
@@ -42,6 +44,19 @@ export interface RollbackRecord {
   originalRecord: MigrationRecord;
 }
 
+/**
+ * An applied migration whose content no longer matches the checksum
+ * recorded when it was applied.
+ */
+export interface ChecksumDrift {
+  /** The ID of the migration */
+  migrationId: string;
+  /** Checksum recorded when the migration was applied */
+  recordedChecksum: string;
+  /** Checksum of the migration's current content */
+  currentChecksum: string;
+}
+
 /**
  * Result of checking if a rollback is allowed.
  */
@@ -72,6 +87,13 @@ export interface ReapplyResult {
 export interface RecordOptions {
   /** Force re-application of a previously rolled-back migration */
   force?: boolean;
+  /**
+   * Checksum to store instead of one computed from the migration's
+   * operations, e.g. `computeChecksum(sql)` for a SQL migration file
+   */
+  checksum?: string;
+  /** How long the migration took to apply, in milliseconds */
+  executionTime?: number;
 }
 
 /**
@@ -217,6 +239,22 @@ export interface MigrationHistory {
    */
   verifyIntegrity(migration: Migration): Promise<boolean>;
 
+  /**
+   * Compare applied migrations against the checksums of their current content.
+   * Migrations that are not applied, or have no entry in `checksums`, are skipped.
+   * @param checksums - Map of migration ID to the checksum of its current content
+   * @returns The applied migrations whose checksum changed
+   */
+  verifyChecksums(checksums: ReadonlyMap<string, string>): Promise<ChecksumDrift[]>;
+
+  /**
+   * Replace the recorded checksum of an applied migration, accepting its
+   * current content.
+   * @param migrationId - The ID of the migration
+   * @param checksum - The new checksum
+   */
+  updateChecksum(migrationId: string, checksum: string): Promise<void>;
+
   /**
    * Record that a migration has been rolled back.
    * This removes the migration from applied state and tracks it as rolled back.
@@ -280,6 +318,39 @@ function hashString(str: string): string {
   return (hash >>> 0).toString(16).padStart(8, '0');
 }
 
+/**
+ * Compute a checksum for arbitrary migration content, such as the SQL of
+ * a migration file.
+ *
+ * @param content - The content to checksum
+ * @returns An 8-character hex checksum
+ */
+export function computeChecksum(content: string): string {
+  return hashString(content);
+}
+
+/**
+ * Find applied migrations whose recorded checksum differs from the checksum
+ * of their current content.
+ *
+ * @param records - Applied migration records
+ * @param checksums - Map of migration ID to the checksum of its current content
+ * @returns The drifted migrations, in record order
+ */
+export function findChecksumDrift(
+  records: MigrationRecord[],
+  checksums: ReadonlyMap<string, string>
+): ChecksumDrift[] {
+  const drifted: ChecksumDrift[] = [];
+  for (const record of records) {
+    const currentChecksum = checksums.get(record.migrationId);
+    if (currentChecksum !== undefined && currentChecksum !== record.checksum) {
+      drifted.push({ migrationId: record.migrationId, recordedChecksum: record.checksum, currentChecksum });
+    }
+  }
+  return drifted;
+}
+
 /**
  * Generate a checksum for a migration's content.
  */
@@ -294,6 +365,30 @@ function generateChecksum(migration: Migration): string {
   return hashString(content);
 }
 
+/**
+ * Sort and page history records by date, as described by the query options.
+ *
+ * @internal Shared by the storage implementations
+ */
+export function queryRecords<T>(
+  records: T[],
+  getDate: (record: T) => Date,
+  options?: HistoryQueryOptions
+): T[] {
+  let result = [...records].sort((a, b) => {
+    const diff = getDate(a).getTime() - getDate(b).getTime();
+    return options?.order === 'desc' ? -diff : diff;
+  });
+
+  if (options?.offset) {
+    result = result.slice(options.offset);
+  }
+  if (options?.limit) {
+    result = result.slice(0, options.limit);
+  }
+  return result;
+}
+
 // =============================================================================
 // In-Memory Storage Implementation
 // =============================================================================
@@ -420,9 +515,12 @@ class DefaultMigrationHistory implements MigrationHistory {
       fromVersion: migration.fromVersion,
       toVersion: migration.toVersion,
       appliedAt: new Date(),
-      checksum: generateChecksum(migration),
+      checksum: options?.checksum ?? generateChecksum(migration),
       description: migration.description,
     };
+    if (options?.executionTime !== undefined) {
+      record.executionTime = options.executionTime;
+    }
 
     await this.storage.save(record);
 
@@ -479,6 +577,20 @@ class DefaultMigrationHistory implements MigrationHistory {
     return record.checksum === currentChecksum;
   }
 
+  async verifyChecksums(checksums: ReadonlyMap<string, string>): Promise<ChecksumDrift[]> {
+    return findChecksumDrift(await this.storage.getAll(), checksums);
+  }
+
+  async updateChecksum(migrationId: string, checksum: string): Promise<void> {
+    const record = await this.storage.load(migrationId);
+
+    if (!record) {
+      throw new Error(`Cannot update checksum of migration ${migrationId}: not found in history`);
+    }
+
+    await this.storage.save({ ...record, checksum });
+  }
+
   async recordRollback(migrationId: string): Promise<void> {
     // Get the original migration record
     const originalRecord = await this.storage.load(migrationId);
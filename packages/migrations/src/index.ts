@@ -5,8 +5,11 @@
  *
  * This package provides:
  * - `MigrationGenerator` interface for generating SQL statements from schema diffs
- * - `MigrationRunner` interface for executing migrations
- * - `MigrationHistory` for tracking applied migrations
+ * - `MigrationRunner` interface for executing migrations, with checksum
+ *   drift detection and a per-dialect migration lock
+ * - `MigrationHistory` for tracking applied migrations, stored in memory,
+ *   in a JSON file or in a `_icetype_migrations` table
+ * - Built-in SQLite, PGlite and DuckDB `DatabaseExecutor`s selected by database URL
  * - Dialect-specific SQL generation (SQLite, PostgreSQL, MySQL, DuckDB)
  *
  * @example
@@ -61,14 +64,34 @@ export {
   type MigrationResult,
   type BatchMigrationResult,
   type RunnerOptions,
+  type RunOptions,
   type DatabaseExecutor,
   type MigrationRunner,
   // Classes
   MigrationError,
+  MigrationChecksumError,
   // Factory functions
   createMigrationRunner,
 } from './runner.js';
 
+// =============================================================================
+// Executor Exports
+// =============================================================================
+
+export {
+  // Types
+  type DatabaseConnection,
+  type DatabaseTarget,
+  // Functions
+  parseDatabaseUrl,
+  createDatabaseExecutor,
+  splitSqlStatements,
+} from './executor.js';
+
+export { createSqliteExecutor } from './sqlite-executor.js';
+export { createPgliteExecutor } from './pglite-executor.js';
+export { createDuckDBExecutor } from './duckdb-executor.js';
+
 // =============================================================================
 // History Exports
 // =============================================================================
@@ -80,6 +103,7 @@ export {
   type RollbackResult,
   type ReapplyResult,
   type RecordOptions,
+  type ChecksumDrift,
   type RollbackCheckOptions,
   type HistoryQueryOptions,
   type HistoryStorage,
@@ -88,8 +112,33 @@ export {
   InMemoryHistoryStorage,
   // Factory functions
   createMigrationHistory,
+  computeChecksum,
+  findChecksumDrift,
 } from './history.js';
 
+export { FileHistoryStorage, DEFAULT_HISTORY_FILE } from './file-history-storage.js';
+
+export {
+  type QueryableExecutor,
+  type SqlHistoryStorageOptions,
+  SqlHistoryStorage,
+  DEFAULT_HISTORY_TABLE,
+  generateHistoryTableDDL,
+} from './sql-history-storage.js';
+
+// =============================================================================
+// Lock Exports
+// =============================================================================
+
+export {
+  type MigrationLock,
+  type MigrationLockOptions,
+  MigrationLockError,
+  createMigrationLock,
+  DEFAULT_LOCK_NAME,
+  DEFAULT_LOCK_TABLE,
+} from './lock.js';
+
 // =============================================================================
 // Re-export Core Types for Convenience
 // =============================================================================
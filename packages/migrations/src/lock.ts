@@ -0,0 +1,295 @@
+/**
+ * Migration Lock for @icetype/migrations
+ *
+ * Keeps two processes from migrating the same database at once. Postgres
+ * and MySQL use their session-level advisory locks; SQLite and DuckDB,
+ * which have none, hold a row in a `_icetype_migrations_lock` table.
+ *
+ * @packageDocumentation
+ */
+
+import type { Dialect } from './generator.js';
+import { computeChecksum } from './history.js';
+import type { QueryableExecutor } from './sql-history-storage.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Default name of the migration lock */
+export const DEFAULT_LOCK_NAME = 'icetype_migrations';
+
+/** Default name of the lock table used by SQLite and DuckDB */
+export const DEFAULT_LOCK_TABLE = '_icetype_migrations_lock';
+
+/**
+ * A lock held for the duration of a migration run.
+ */
+export interface MigrationLock {
+  /**
+   * Acquire the lock, waiting for another holder to release it.
+   * @throws {MigrationLockError} If the lock is not acquired within the timeout
+   */
+  acquire(): Promise<void>;
+  /** Release the lock if it is held */
+  release(): Promise<void>;
+}
+
+/**
+ * Options for creating a migration lock.
+ */
+export interface MigrationLockOptions {
+  /** SQL dialect of the database (defaults to the executor's dialect) */
+  dialect?: Dialect;
+  /** Name of the lock (default: `icetype_migrations`) */
+  name?: string;
+  /** Lock table for SQLite and DuckDB (default: `_icetype_migrations_lock`) */
+  tableName?: string;
+  /** How long to wait for the lock, in milliseconds (default: 60000) */
+  timeout?: number;
+  /** How often to retry while waiting, in milliseconds (default: 250) */
+  retryInterval?: number;
+}
+
+/** A row of the lock table */
+interface LockRow {
+  locked_by: string;
+  locked_at: string;
+}
+
+// =============================================================================
+// Error Class
+// =============================================================================
+
+/**
+ * Error thrown when the migration lock cannot be acquired.
+ */
+export class MigrationLockError extends Error {
+  constructor(
+    message: string,
+    public readonly lockName: string,
+    public readonly holder?: string
+  ) {
+    super(message);
+    this.name = 'MigrationLockError';
+
+    // Fix prototype chain for proper instanceof checks
+    Object.setPrototypeOf(this, MigrationLockError.prototype);
+  }
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Convert a lock name to the integer key Postgres advisory locks take.
+ */
+function advisoryLockKey(name: string): number {
+  return parseInt(computeChecksum(name), 16);
+}
+
+class DefaultMigrationLock implements MigrationLock {
+  private readonly dialect: Dialect;
+  private readonly name: string;
+  private readonly tableName: string;
+  private readonly timeout: number;
+  private readonly retryInterval: number;
+  private readonly owner = `${process.pid}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  private held = false;
+
+  constructor(
+    private readonly executor: QueryableExecutor,
+    options: MigrationLockOptions
+  ) {
+    const dialect = options.dialect ?? executor.dialect;
+    if (!dialect) {
+      throw new Error('createMigrationLock needs a dialect when the executor does not report one');
+    }
+    this.dialect = dialect;
+    this.name = options.name ?? DEFAULT_LOCK_NAME;
+    this.tableName = options.tableName ?? DEFAULT_LOCK_TABLE;
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.tableName)) {
+      throw new Error(`Invalid lock table name: '${this.tableName}'`);
+    }
+    this.timeout = options.timeout ?? 60_000;
+    this.retryInterval = options.retryInterval ?? 250;
+  }
+
+  async acquire(): Promise<void> {
+    if (this.held) {
+      return;
+    }
+
+    switch (this.dialect) {
+      case 'postgres':
+        await this.acquirePostgres();
+        break;
+      case 'mysql':
+        await this.acquireMysql();
+        break;
+      case 'sqlite':
+      case 'duckdb':
+        await this.acquireRow();
+        break;
+    }
+    this.held = true;
+  }
+
+  async release(): Promise<void> {
+    if (!this.held) {
+      return;
+    }
+
+    switch (this.dialect) {
+      case 'postgres':
+        await this.executor.query('SELECT pg_advisory_unlock($1)', [advisoryLockKey(this.name)]);
+        break;
+      case 'mysql':
+        await this.executor.query('SELECT RELEASE_LOCK(?)', [this.name]);
+        break;
+      case 'sqlite':
+      case 'duckdb':
+        await this.executor.query(`DELETE FROM ${this.tableName} WHERE lock_name = ? AND locked_by = ?`, [
+          this.name,
+          this.owner,
+        ]);
+        break;
+    }
+    this.held = false;
+  }
+
+  /**
+   * Postgres: session-level advisory lock, polled so the timeout applies.
+   */
+  private async acquirePostgres(): Promise<void> {
+    const key = advisoryLockKey(this.name);
+    const deadline = Date.now() + this.timeout;
+
+    for (;;) {
+      const rows = await this.executor.query<{ acquired: boolean }>(
+        'SELECT pg_try_advisory_lock($1) AS acquired',
+        [key]
+      );
+      if (rows[0]?.acquired) {
+        return;
+      }
+      if (Date.now() >= deadline) {
+        throw this.timeoutError();
+      }
+      await sleep(this.retryInterval);
+    }
+  }
+
+  /**
+   * MySQL: `GET_LOCK` waits for the timeout itself.
+   */
+  private async acquireMysql(): Promise<void> {
+    const rows = await this.executor.query<{ acquired: number | null }>('SELECT GET_LOCK(?, ?) AS acquired', [
+      this.name,
+      Math.ceil(this.timeout / 1000),
+    ]);
+    if (Number(rows[0]?.acquired) !== 1) {
+      throw this.timeoutError();
+    }
+  }
+
+  /**
+   * SQLite and DuckDB: insert a lock row; the primary key rejects a
+   * second holder.
+   */
+  private async acquireRow(): Promise<void> {
+    await this.executor.execute(
+      `CREATE TABLE IF NOT EXISTS ${this.tableName} (\n` +
+      `  lock_name VARCHAR(255) NOT NULL PRIMARY KEY,\n` +
+      `  locked_by VARCHAR(255) NOT NULL,\n` +
+      `  locked_at VARCHAR(64) NOT NULL\n` +
+      `)`
+    );
+    const deadline = Date.now() + this.timeout;
+
+    for (;;) {
+      try {
+        await this.executor.query(
+          `INSERT INTO ${this.tableName} (lock_name, locked_by, locked_at) VALUES (?, ?, ?)`,
+          [this.name, this.owner, new Date().toISOString()]
+        );
+        return;
+      } catch (error) {
+        const holder = await this.currentHolder();
+        if (!holder) {
+          throw error;
+        }
+        if (Date.now() >= deadline) {
+          throw this.timeoutError(holder);
+        }
+      }
+      await sleep(this.retryInterval);
+    }
+  }
+
+  private async currentHolder(): Promise<LockRow | undefined> {
+    const rows = await this.executor.query<LockRow>(
+      `SELECT locked_by, locked_at FROM ${this.tableName} WHERE lock_name = ?`,
+      [this.name]
+    );
+    return rows[0];
+  }
+
+  private timeoutError(holder?: LockRow): MigrationLockError {
+    const seconds = Math.round(this.timeout / 1000);
+    if (holder) {
+      return new MigrationLockError(
+        `Timed out after ${seconds}s waiting for migration lock '${this.name}', ` +
+        `held by ${holder.locked_by} since ${holder.locked_at}. ` +
+        `If no migration is running, delete its row from ${this.tableName}.`,
+        this.name,
+        holder.locked_by
+      );
+    }
+    return new MigrationLockError(
+      `Timed out after ${seconds}s waiting for migration lock '${this.name}'; another migration is running.`,
+      this.name
+    );
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+/**
+ * Create a lock that serializes migration runs against a database.
+ *
+ * | Dialect | Mechanism |
+ * |---------|-----------|
+ * | postgres | `pg_try_advisory_lock` / `pg_advisory_unlock` |
+ * | mysql | `GET_LOCK` / `RELEASE_LOCK` |
+ * | sqlite, duckdb | A row in `_icetype_migrations_lock` |
+ *
+ * Advisory locks end with the session, so a crashed run cannot leave them
+ * behind; a lock row outlives a crash and must be deleted by hand.
+ *
+ * @param executor - Connection to the database being migrated
+ * @param options - Lock name, timeout and dialect
+ * @returns A lock that is not yet held
+ *
+ * @example
+ * ```typescript
+ * const lock = createMigrationLock(db);
+ * await lock.acquire();
+ * try {
+ *   await runner.runAll(migrations, statements);
+ * } finally {
+ *   await lock.release();
+ * }
+ * ```
+ */
+export function createMigrationLock(
+  executor: QueryableExecutor,
+  options: MigrationLockOptions = {}
+): MigrationLock {
+  return new DefaultMigrationLock(executor, options);
+}
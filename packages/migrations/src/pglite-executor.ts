@@ -0,0 +1,95 @@
+/**
+ * PGlite Executor for @icetype/migrations
+ *
+ * A first-party `DatabaseExecutor` for Postgres backed by PGlite, an
+ * in-process WebAssembly build of Postgres. Migrations can be applied and
+ * Postgres DDL verified without a database server.
+ *
+ * @packageDocumentation
+ */
+
+import type { DatabaseConnection } from './executor.js';
+
+// =============================================================================
+// Driver Types
+// =============================================================================
+
+/**
+ * The subset of the PGlite API used by the executor.
+ */
+interface PgliteDatabase {
+  exec(sql: string): Promise<unknown>;
+  query(sql: string, params?: unknown[]): Promise<{ rows: unknown[] }>;
+  close(): Promise<void>;
+}
+
+interface PgliteModule {
+  PGlite: { create(dataDir?: string): Promise<PgliteDatabase> };
+}
+
+/**
+ * Load the PGlite package.
+ */
+async function loadPglite(): Promise<PgliteModule> {
+  // Module name is held in a variable so TypeScript does not require the
+  // package to be installed at compile time
+  const packageName = '@electric-sql/pglite';
+  try {
+    return (await import(/* @vite-ignore */ packageName)) as PgliteModule;
+  } catch (error) {
+    throw new Error(
+      `Failed to load PGlite: ${error instanceof Error ? error.message : String(error)}. ` +
+      `Make sure '${packageName}' is installed.`
+    );
+  }
+}
+
+// =============================================================================
+// Executor
+// =============================================================================
+
+/**
+ * Open an embedded Postgres database as a `DatabaseExecutor`.
+ *
+ * @param dataDir - Directory holding the database files, or `:memory:`
+ * @returns An open connection; query parameters use `$1`, `$2`, ...
+ *
+ * @example
+ * ```typescript
+ * const db = await createPgliteExecutor('./dev-db');
+ * const runner = createMigrationRunner(db);
+ * const result = await runner.run(migration, statements);
+ * await db.close();
+ * ```
+ */
+export async function createPgliteExecutor(dataDir: string): Promise<DatabaseConnection> {
+  const { PGlite } = await loadPglite();
+  const db = await PGlite.create(dataDir === ':memory:' ? undefined : dataDir);
+  let closed = false;
+
+  return {
+    dialect: 'postgres',
+    async execute(sql: string): Promise<void> {
+      await db.exec(sql);
+    },
+    async beginTransaction(): Promise<void> {
+      await db.exec('BEGIN');
+    },
+    async commit(): Promise<void> {
+      await db.exec('COMMIT');
+    },
+    async rollback(): Promise<void> {
+      await db.exec('ROLLBACK');
+    },
+    async query<T = Record<string, unknown>>(sql: string, params: unknown[] = []): Promise<T[]> {
+      const result = await db.query(sql, params);
+      return result.rows as T[];
+    },
+    async close(): Promise<void> {
+      if (!closed) {
+        closed = true;
+        await db.close();
+      }
+    },
+  };
+}
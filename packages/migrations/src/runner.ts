@@ -9,6 +9,9 @@
 
 import type { Migration } from '@icetype/core';
 
+import { computeChecksum, type ChecksumDrift, type MigrationHistory } from './history.js';
+import type { MigrationLock } from './lock.js';
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -55,6 +58,25 @@ export interface RunnerOptions {
   logStatements?: boolean;
   /** Logger function for statement logging */
   logger?: (message: string) => void;
+  /**
+   * History to record applied and rolled-back migrations in, with the
+   * checksum of their SQL. Required by `verifyChecksums`.
+   */
+  history?: MigrationHistory;
+  /** Lock held while `runAll` runs */
+  lock?: MigrationLock;
+}
+
+/**
+ * Options for running a single migration.
+ */
+export interface RunOptions {
+  /**
+   * Checksum to record for the migration (default: checksum of the
+   * statements joined with `;\n`). Pass the checksum of the migration
+   * file to detect edits anywhere in it.
+   */
+  checksum?: string;
 }
 
 /**
@@ -80,9 +102,10 @@ export interface MigrationRunner {
    * Run a single migration.
    * @param migration - The migration to run
    * @param statements - SQL statements to execute
+   * @param options - Optional options such as the checksum to record
    * @returns Result of the migration
    */
-  run(migration: Migration, statements: string[]): Promise<MigrationResult>;
+  run(migration: Migration, statements: string[], options?: RunOptions): Promise<MigrationResult>;
 
   /**
    * Run multiple migrations in sequence.
@@ -110,6 +133,14 @@ export interface MigrationRunner {
    * @returns The statements that would be executed
    */
   dryRun(migration: Migration, statements: string[]): Promise<string[]>;
+
+  /**
+   * Check that applied migrations still match the checksums recorded in
+   * the history.
+   * @param checksums - Map of migration ID to the checksum of its current SQL
+   * @throws {MigrationChecksumError} If any applied migration changed
+   */
+  verifyChecksums(checksums: ReadonlyMap<string, string>): Promise<void>;
 }
 
 // =============================================================================
@@ -135,6 +166,26 @@ export class MigrationError extends Error {
   }
 }
 
+/**
+ * Error thrown when applied migrations were edited after they were applied.
+ */
+export class MigrationChecksumError extends MigrationError {
+  constructor(public readonly drifted: ChecksumDrift[]) {
+    super(
+      `${drifted.length} applied migration(s) changed since they were applied:\n` +
+        drifted
+          .map((d) => `  - ${d.migrationId} (recorded ${d.recordedChecksum}, now ${d.currentChecksum})`)
+          .join('\n'),
+      drifted[0]?.migrationId ?? '',
+      -1
+    );
+    this.name = 'MigrationChecksumError';
+
+    // Fix prototype chain for proper instanceof checks
+    Object.setPrototypeOf(this, MigrationChecksumError.prototype);
+  }
+}
+
 // =============================================================================
 // Implementation
 // =============================================================================
@@ -145,7 +196,22 @@ class DefaultMigrationRunner implements MigrationRunner {
     private readonly options: RunnerOptions = {}
   ) {}
 
-  async run(migration: Migration, statements: string[]): Promise<MigrationResult> {
+  async run(migration: Migration, statements: string[], options?: RunOptions): Promise<MigrationResult> {
+    const result = await this.execute(migration, statements);
+
+    if (result.success && this.options.history) {
+      // force: a migration that was rolled back may be applied again
+      await this.options.history.record(migration, {
+        force: true,
+        checksum: options?.checksum ?? computeChecksum(statements.join(';\n')),
+        ...(result.executionTime !== undefined && { executionTime: result.executionTime }),
+      });
+    }
+
+    return result;
+  }
+
+  private async execute(migration: Migration, statements: string[]): Promise<MigrationResult> {
     const startTime = Date.now();
     const useTransactions = this.options.useTransactions !== false;
 
@@ -228,6 +294,23 @@ class DefaultMigrationRunner implements MigrationRunner {
   async runAll(
     migrations: Migration[],
     statementsMap: Map<string, string[]>
+  ): Promise<BatchMigrationResult> {
+    const lock = this.options.lock;
+    if (!lock) {
+      return this.runSequence(migrations, statementsMap);
+    }
+
+    await lock.acquire();
+    try {
+      return await this.runSequence(migrations, statementsMap);
+    } finally {
+      await lock.release();
+    }
+  }
+
+  private async runSequence(
+    migrations: Migration[],
+    statementsMap: Map<string, string[]>
   ): Promise<BatchMigrationResult> {
     const startTime = Date.now();
     const results: MigrationResult[] = [];
@@ -260,13 +343,30 @@ class DefaultMigrationRunner implements MigrationRunner {
 
   async rollback(migration: Migration, statements: string[]): Promise<MigrationResult> {
     // Rollback is essentially running a migration with rollback statements
-    return this.run(migration, statements);
+    const result = await this.execute(migration, statements);
+
+    if (result.success && this.options.history) {
+      await this.options.history.recordRollback(migration.id);
+    }
+
+    return result;
   }
 
   async dryRun(_migration: Migration, statements: string[]): Promise<string[]> {
     // Simply return the statements that would be executed
     return statements;
   }
+
+  async verifyChecksums(checksums: ReadonlyMap<string, string>): Promise<void> {
+    if (!this.options.history) {
+      throw new Error('verifyChecksums requires a runner created with a history');
+    }
+
+    const drifted = await this.options.history.verifyChecksums(checksums);
+    if (drifted.length > 0) {
+      throw new MigrationChecksumError(drifted);
+    }
+  }
 }
 
 // =============================================================================
@@ -0,0 +1,337 @@
+/**
+ * SQL History Storage for @icetype/migrations
+ *
+ * Persists migration history in a `_icetype_migrations` table inside the
+ * migrated database itself, through any executor that can run queries.
+ * Applied and rolled-back migrations share one row per migration; a row
+ * with `rolled_back_at` set is a rollback record.
+ *
+ * @packageDocumentation
+ */
+
+import { parseSchemaVersion, serializeSchemaVersion } from '@icetype/core';
+
+import type { DatabaseConnection } from './executor.js';
+import type { Dialect } from './generator.js';
+import {
+  queryRecords,
+  type HistoryQueryOptions,
+  type HistoryStorage,
+  type MigrationRecord,
+  type RollbackRecord,
+} from './history.js';
+import type { DatabaseExecutor } from './runner.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Default name of the history table */
+export const DEFAULT_HISTORY_TABLE = '_icetype_migrations';
+
+/**
+ * An executor that can also read rows, such as a `DatabaseConnection`.
+ */
+export type QueryableExecutor = DatabaseExecutor &
+  Pick<DatabaseConnection, 'query'> &
+  Partial<Pick<DatabaseConnection, 'dialect'>>;
+
+/**
+ * Options for SQL history storage.
+ */
+export interface SqlHistoryStorageOptions {
+  /** SQL dialect of the database (defaults to the executor's dialect) */
+  dialect?: Dialect;
+  /** Name of the history table (default: `_icetype_migrations`) */
+  tableName?: string;
+}
+
+/** A row of the history table */
+interface HistoryRow {
+  migration_id: string;
+  from_version: string;
+  to_version: string;
+  checksum: string;
+  description: string | null;
+  applied_at: unknown;
+  execution_time: number | bigint | null;
+  rolled_back_at: unknown;
+}
+
+// =============================================================================
+// DDL
+// =============================================================================
+
+/** Column types for each dialect */
+const COLUMN_TYPES: Record<Dialect, { id: string; text: string; timestamp: string; integer: string }> = {
+  sqlite: { id: 'TEXT', text: 'TEXT', timestamp: 'TEXT', integer: 'INTEGER' },
+  postgres: { id: 'VARCHAR(255)', text: 'TEXT', timestamp: 'TIMESTAMPTZ', integer: 'INTEGER' },
+  mysql: { id: 'VARCHAR(255)', text: 'TEXT', timestamp: 'DATETIME(3)', integer: 'INT' },
+  duckdb: { id: 'VARCHAR', text: 'VARCHAR', timestamp: 'TIMESTAMP', integer: 'INTEGER' },
+};
+
+/**
+ * Check that a table name is a plain identifier, since it is interpolated
+ * into SQL.
+ */
+function validateTableName(tableName: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tableName)) {
+    throw new Error(`Invalid history table name: '${tableName}'`);
+  }
+  return tableName;
+}
+
+/**
+ * Generate the DDL for the migration history table.
+ *
+ * @param dialect - The SQL dialect
+ * @param tableName - The table name (default: `_icetype_migrations`)
+ * @returns A `CREATE TABLE IF NOT EXISTS` statement
+ *
+ * @example
+ * ```typescript
+ * generateHistoryTableDDL('postgres');
+ * // CREATE TABLE IF NOT EXISTS _icetype_migrations (
+ * //   migration_id VARCHAR(255) NOT NULL PRIMARY KEY,
+ * //   ...
+ * ```
+ */
+export function generateHistoryTableDDL(dialect: Dialect, tableName: string = DEFAULT_HISTORY_TABLE): string {
+  const types = COLUMN_TYPES[dialect];
+  return [
+    `CREATE TABLE IF NOT EXISTS ${validateTableName(tableName)} (`,
+    `  migration_id ${types.id} NOT NULL PRIMARY KEY,`,
+    `  from_version ${types.id} NOT NULL,`,
+    `  to_version ${types.id} NOT NULL,`,
+    `  checksum ${types.id} NOT NULL,`,
+    `  description ${types.text},`,
+    `  applied_at ${types.timestamp} NOT NULL,`,
+    `  execution_time ${types.integer},`,
+    `  rolled_back_at ${types.timestamp}`,
+    `)`,
+  ].join('\n');
+}
+
+// =============================================================================
+// Value Conversion
+// =============================================================================
+
+/**
+ * Format a date for a timestamp column. SQLite keeps ISO strings; MySQL
+ * and DuckDB timestamps take UTC without a zone suffix.
+ */
+function formatTimestamp(date: Date, dialect: Dialect): string {
+  const iso = date.toISOString();
+  return dialect === 'mysql' || dialect === 'duckdb' ? iso.replace('T', ' ').replace('Z', '') : iso;
+}
+
+/**
+ * Read a timestamp column, which drivers return as a Date or a string.
+ */
+function parseTimestamp(value: unknown): Date {
+  if (value instanceof Date) {
+    return value;
+  }
+  const text = String(value);
+  // Timestamps without a zone were written as UTC
+  return /(?:Z|[+-]\d\d(?::?\d\d)?)$/i.test(text) ? new Date(text) : new Date(text.replace(' ', 'T') + 'Z');
+}
+
+function rowToRecord(row: HistoryRow): MigrationRecord {
+  const record: MigrationRecord = {
+    migrationId: row.migration_id,
+    fromVersion: parseSchemaVersion(row.from_version),
+    toVersion: parseSchemaVersion(row.to_version),
+    appliedAt: parseTimestamp(row.applied_at),
+    checksum: row.checksum,
+  };
+  if (row.description !== null) record.description = row.description;
+  if (row.execution_time !== null) record.executionTime = Number(row.execution_time);
+  return record;
+}
+
+// =============================================================================
+// Storage Implementation
+// =============================================================================
+
+/**
+ * HistoryStorage backed by a table in the migrated database.
+ *
+ * The table is created on the first write; reads against a database
+ * without it return empty history, so inspecting status changes nothing.
+ *
+ * @example
+ * ```typescript
+ * const db = await createDatabaseExecutor('sqlite:./dev.db');
+ * const history = createMigrationHistory(new SqlHistoryStorage(db));
+ * await history.record(migration);
+ * ```
+ */
+export class SqlHistoryStorage implements HistoryStorage {
+  private readonly dialect: Dialect;
+  private readonly tableName: string;
+  private tableReady = false;
+
+  constructor(
+    private readonly executor: QueryableExecutor,
+    options: SqlHistoryStorageOptions = {}
+  ) {
+    const dialect = options.dialect ?? executor.dialect;
+    if (!dialect) {
+      throw new Error('SqlHistoryStorage needs a dialect when the executor does not report one');
+    }
+    this.dialect = dialect;
+    this.tableName = validateTableName(options.tableName ?? DEFAULT_HISTORY_TABLE);
+  }
+
+  async save(record: MigrationRecord): Promise<void> {
+    await this.writeRow(record, null);
+  }
+
+  async load(migrationId: string): Promise<MigrationRecord | null> {
+    const row = await this.findRow(migrationId, false);
+    return row ? rowToRecord(row) : null;
+  }
+
+  async remove(migrationId: string): Promise<void> {
+    await this.deleteRow(migrationId, false);
+  }
+
+  async has(migrationId: string): Promise<boolean> {
+    return (await this.findRow(migrationId, false)) !== null;
+  }
+
+  async getAll(options?: HistoryQueryOptions): Promise<MigrationRecord[]> {
+    const rows = await this.selectRows(false);
+    return queryRecords(rows.map(rowToRecord), (r) => r.appliedAt, options);
+  }
+
+  async saveRollback(record: RollbackRecord): Promise<void> {
+    await this.writeRow(record.originalRecord, record.rolledBackAt);
+  }
+
+  async loadRollback(migrationId: string): Promise<RollbackRecord | null> {
+    const row = await this.findRow(migrationId, true);
+    return row ? this.rowToRollback(row) : null;
+  }
+
+  async hasRollback(migrationId: string): Promise<boolean> {
+    return (await this.findRow(migrationId, true)) !== null;
+  }
+
+  async getAllRollbacks(options?: HistoryQueryOptions): Promise<RollbackRecord[]> {
+    const rows = await this.selectRows(true);
+    return queryRecords(rows.map((row) => this.rowToRollback(row)), (r) => r.rolledBackAt, options);
+  }
+
+  async removeRollback(migrationId: string): Promise<void> {
+    await this.deleteRow(migrationId, true);
+  }
+
+  private rowToRollback(row: HistoryRow): RollbackRecord {
+    return {
+      migrationId: row.migration_id,
+      rolledBackAt: parseTimestamp(row.rolled_back_at),
+      originalRecord: rowToRecord(row),
+    };
+  }
+
+  /** Positional placeholder for the nth (1-based) parameter */
+  private param(n: number): string {
+    return this.dialect === 'postgres' ? `$${n}` : '?';
+  }
+
+  /** `WHERE` fragment selecting applied rows or rollback rows */
+  private stateFilter(rolledBack: boolean): string {
+    return rolledBack ? 'rolled_back_at IS NOT NULL' : 'rolled_back_at IS NULL';
+  }
+
+  private async ensureTable(): Promise<void> {
+    if (!this.tableReady) {
+      await this.executor.execute(generateHistoryTableDDL(this.dialect, this.tableName));
+      this.tableReady = true;
+    }
+  }
+
+  /**
+   * Check whether the history table exists, without creating it.
+   */
+  private async tableExists(): Promise<boolean> {
+    if (this.tableReady) {
+      return true;
+    }
+    const sql =
+      this.dialect === 'sqlite'
+        ? `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ${this.param(1)}`
+        : `SELECT table_name FROM information_schema.tables WHERE table_name = ${this.param(1)}`;
+    const rows = await this.executor.query(sql, [this.tableName]);
+    this.tableReady = rows.length > 0;
+    return this.tableReady;
+  }
+
+  private async selectRows(rolledBack: boolean): Promise<HistoryRow[]> {
+    if (!(await this.tableExists())) {
+      return [];
+    }
+    // Migrations applied within the same millisecond keep their id order
+    return this.executor.query<HistoryRow>(
+      `SELECT * FROM ${this.tableName} WHERE ${this.stateFilter(rolledBack)} ORDER BY migration_id`
+    );
+  }
+
+  private async findRow(migrationId: string, rolledBack: boolean): Promise<HistoryRow | null> {
+    if (!(await this.tableExists())) {
+      return null;
+    }
+    const rows = await this.executor.query<HistoryRow>(
+      `SELECT * FROM ${this.tableName} WHERE migration_id = ${this.param(1)} AND ${this.stateFilter(rolledBack)}`,
+      [migrationId]
+    );
+    return rows[0] ?? null;
+  }
+
+  private async deleteRow(migrationId: string, rolledBack: boolean): Promise<void> {
+    if (!(await this.tableExists())) {
+      return;
+    }
+    await this.executor.query(
+      `DELETE FROM ${this.tableName} WHERE migration_id = ${this.param(1)} AND ${this.stateFilter(rolledBack)}`,
+      [migrationId]
+    );
+  }
+
+  /**
+   * Replace the row for a migration; `rolledBackAt` marks it as rolled back.
+   */
+  private async writeRow(record: MigrationRecord, rolledBackAt: Date | null): Promise<void> {
+    await this.ensureTable();
+    await this.executor.query(`DELETE FROM ${this.tableName} WHERE migration_id = ${this.param(1)}`, [
+      record.migrationId,
+    ]);
+
+    const columns = [
+      'migration_id',
+      'from_version',
+      'to_version',
+      'checksum',
+      'description',
+      'applied_at',
+      'execution_time',
+      'rolled_back_at',
+    ];
+    const values = [
+      record.migrationId,
+      serializeSchemaVersion(record.fromVersion),
+      serializeSchemaVersion(record.toVersion),
+      record.checksum,
+      record.description ?? null,
+      formatTimestamp(record.appliedAt, this.dialect),
+      record.executionTime ?? null,
+      rolledBackAt ? formatTimestamp(rolledBackAt, this.dialect) : null,
+    ];
+    await this.executor.query(
+      `INSERT INTO ${this.tableName} (${columns.join(', ')}) VALUES (${values.map((_, i) => this.param(i + 1)).join(', ')})`,
+      values
+    );
+  }
+}
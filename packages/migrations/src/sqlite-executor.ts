@@ -0,0 +1,121 @@
+/**
+ * SQLite Executor for @icetype/migrations
+ *
+ * A first-party `DatabaseExecutor` for SQLite databases. It uses the
+ * built-in `node:sqlite` module where the runtime provides it and falls
+ * back to `better-sqlite3` otherwise.
+ *
+ * @packageDocumentation
+ */
+
+import type { DatabaseConnection } from './executor.js';
+
+// =============================================================================
+// Driver Types
+// =============================================================================
+
+/**
+ * The subset of the SQLite driver API used by the executor. Both
+ * `node:sqlite`'s `DatabaseSync` and `better-sqlite3`'s `Database`
+ * satisfy it.
+ */
+interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+  close(): unknown;
+}
+
+interface SqliteStatement {
+  all(...params: unknown[]): unknown[];
+  run(...params: unknown[]): unknown;
+  /** better-sqlite3 only: whether the statement returns rows */
+  reader?: boolean;
+}
+
+type SqliteDatabaseConstructor = new (filename: string) => SqliteDatabase;
+
+/**
+ * Load a SQLite driver, preferring the runtime's built-in module.
+ */
+async function loadSqliteDriver(): Promise<SqliteDatabaseConstructor> {
+  // Module names are held in variables so TypeScript does not require
+  // either driver to be installed at compile time
+  const builtin = 'node:sqlite';
+  try {
+    const module = (await import(/* @vite-ignore */ builtin)) as { DatabaseSync?: SqliteDatabaseConstructor };
+    if (typeof module.DatabaseSync === 'function') {
+      return module.DatabaseSync;
+    }
+  } catch {
+    // Not available in this runtime; try better-sqlite3
+  }
+
+  const packageName = 'better-sqlite3';
+  try {
+    const module = (await import(/* @vite-ignore */ packageName)) as { default: SqliteDatabaseConstructor };
+    return module.default;
+  } catch (error) {
+    throw new Error(
+      `Failed to load a SQLite driver: ${error instanceof Error ? error.message : String(error)}. ` +
+      `Use Node.js 22.5+ (node:sqlite) or install 'better-sqlite3'.`
+    );
+  }
+}
+
+// =============================================================================
+// Executor
+// =============================================================================
+
+/**
+ * Open a SQLite database as a `DatabaseExecutor`.
+ *
+ * Statements run on a single connection, so `beginTransaction`, `commit`
+ * and `rollback` map directly to `BEGIN`, `COMMIT` and `ROLLBACK`.
+ *
+ * @param filename - Path to the database file, or `:memory:`
+ * @returns An open connection
+ *
+ * @example
+ * ```typescript
+ * const db = await createSqliteExecutor('./dev.db');
+ * const runner = createMigrationRunner(db);
+ * const result = await runner.run(migration, statements);
+ * await db.close();
+ * ```
+ */
+export async function createSqliteExecutor(filename: string): Promise<DatabaseConnection> {
+  const Database = await loadSqliteDriver();
+  const db = new Database(filename);
+  let closed = false;
+
+  return {
+    dialect: 'sqlite',
+    async execute(sql: string): Promise<void> {
+      db.exec(sql);
+    },
+    async beginTransaction(): Promise<void> {
+      db.exec('BEGIN');
+    },
+    async commit(): Promise<void> {
+      db.exec('COMMIT');
+    },
+    async rollback(): Promise<void> {
+      db.exec('ROLLBACK');
+    },
+    async query<T = Record<string, unknown>>(sql: string, params: unknown[] = []): Promise<T[]> {
+      const statement = db.prepare(sql);
+      // better-sqlite3 refuses all() on statements that return no rows
+      if (statement.reader === false) {
+        statement.run(...params);
+        return [];
+      }
+      return statement.all(...params) as T[];
+    },
+    async close(): Promise<void> {
+      if (!closed) {
+        closed = true;
+        db.close();
+      }
+    },
+  };
+}
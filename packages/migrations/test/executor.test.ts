@@ -0,0 +1,131 @@
+/**
+ * Tests for the built-in database executors
+ *
+ * Runs migrations against real SQLite databases and covers database URL
+ * parsing and statement splitting.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Migration } from '@icetype/core';
+import { createSchemaVersion } from '@icetype/core';
+import {
+  type DatabaseConnection,
+  parseDatabaseUrl,
+  createDatabaseExecutor,
+  splitSqlStatements,
+} from '../src/executor.js';
+import { createMigrationRunner } from '../src/runner.js';
+
+const migration = (id: string): Migration => ({
+  id,
+  fromVersion: createSchemaVersion(1, 0, 0),
+  toVersion: createSchemaVersion(1, 1, 0),
+  timestamp: new Date(),
+  operations: [],
+  isBreaking: false,
+});
+
+describe('parseDatabaseUrl', () => {
+  it('should parse SQLite URLs and paths', () => {
+    expect(parseDatabaseUrl('sqlite:./dev.db')).toEqual({ dialect: 'sqlite', filename: './dev.db' });
+    expect(parseDatabaseUrl('sqlite://./dev.db')).toEqual({ dialect: 'sqlite', filename: './dev.db' });
+    expect(parseDatabaseUrl('sqlite:///var/data/app.db')).toEqual({ dialect: 'sqlite', filename: '/var/data/app.db' });
+    expect(parseDatabaseUrl('file:test.sqlite')).toEqual({ dialect: 'sqlite', filename: 'test.sqlite' });
+    expect(parseDatabaseUrl('sqlite::memory:')).toEqual({ dialect: 'sqlite', filename: ':memory:' });
+    expect(parseDatabaseUrl(':memory:')).toEqual({ dialect: 'sqlite', filename: ':memory:' });
+    expect(parseDatabaseUrl('data/app.sqlite3')).toEqual({ dialect: 'sqlite', filename: 'data/app.sqlite3' });
+  });
+
+  it('should parse embedded Postgres and DuckDB URLs', () => {
+    expect(parseDatabaseUrl('pglite://./dev-db')).toEqual({ dialect: 'postgres', filename: './dev-db' });
+    expect(parseDatabaseUrl('pglite::memory:')).toEqual({ dialect: 'postgres', filename: ':memory:' });
+    expect(parseDatabaseUrl('duckdb://./warehouse.duckdb')).toEqual({ dialect: 'duckdb', filename: './warehouse.duckdb' });
+    expect(parseDatabaseUrl('analytics.ddb')).toEqual({ dialect: 'duckdb', filename: 'analytics.ddb' });
+  });
+
+  it('should reject unsupported URLs', () => {
+    expect(() => parseDatabaseUrl('postgres://localhost/app')).toThrow(/Use 'pglite:\/\/<dir>'/);
+    expect(() => parseDatabaseUrl('mysql://localhost/app')).toThrow(/Unsupported database URL scheme 'mysql:'/);
+    expect(() => parseDatabaseUrl('sqlite://')).toThrow(/missing a file path/);
+    expect(() => parseDatabaseUrl('./dev')).toThrow(/Cannot determine the database type/);
+  });
+});
+
+describe('splitSqlStatements', () => {
+  it('should split on semicolons outside strings and comments', () => {
+    const sql = [
+      '-- Add column; with a semicolon in the comment',
+      "ALTER TABLE users ADD COLUMN note TEXT DEFAULT 'a;b';",
+      '/* block; comment */',
+      'CREATE INDEX "idx;users" ON users (note);',
+      'CREATE FUNCTION f() RETURNS int AS $$ SELECT 1; $$ LANGUAGE sql;',
+      '-- trailing comment only',
+    ].join('\n');
+
+    expect(splitSqlStatements(sql)).toEqual([
+      "-- Add column; with a semicolon in the comment\nALTER TABLE users ADD COLUMN note TEXT DEFAULT 'a;b'",
+      '/* block; comment */\nCREATE INDEX "idx;users" ON users (note)',
+      'CREATE FUNCTION f() RETURNS int AS $$ SELECT 1; $$ LANGUAGE sql',
+    ]);
+  });
+
+  it('should keep a final statement without a semicolon', () => {
+    expect(splitSqlStatements('SELECT 1;\nSELECT 2')).toEqual(['SELECT 1', 'SELECT 2']);
+    expect(splitSqlStatements('  \n-- nothing\n')).toEqual([]);
+  });
+});
+
+describe('SQLite executor', () => {
+  let dir: string;
+  let db: DatabaseConnection;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'icetype-sqlite-'));
+    db = await createDatabaseExecutor(`sqlite:${join(dir, 'dev.db')}`);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should apply migrations through the runner', async () => {
+    const runner = createMigrationRunner(db);
+    const result = await runner.run(migration('001'), [
+      'CREATE TABLE users (id TEXT PRIMARY KEY, email TEXT)',
+      "INSERT INTO users (id, email) VALUES ('u1', 'a@example.com')",
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.executedStatements).toBe(2);
+    expect(db.dialect).toBe('sqlite');
+    expect(await db.query('SELECT email FROM users WHERE id = ?', ['u1'])).toEqual([{ email: 'a@example.com' }]);
+  });
+
+  it('should roll back every statement when one fails', async () => {
+    const runner = createMigrationRunner(db);
+    await runner.run(migration('001'), ['CREATE TABLE users (id TEXT PRIMARY KEY)']);
+
+    const result = await runner.run(migration('002'), [
+      'ALTER TABLE users ADD COLUMN email TEXT',
+      'ALTER TABLE missing ADD COLUMN name TEXT',
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.statementIndex).toBe(1);
+    expect(result.error?.message).toMatch(/no such table: missing/);
+    const columns = await db.query<{ name: string }>("SELECT name FROM pragma_table_info('users')");
+    expect(columns.map((c) => c.name)).toEqual(['id']);
+  });
+
+  it('should persist committed changes to the database file', async () => {
+    await createMigrationRunner(db).run(migration('001'), ['CREATE TABLE t (a INTEGER)', 'INSERT INTO t VALUES (1)']);
+    await db.close();
+
+    db = await createDatabaseExecutor(join(dir, 'dev.db'));
+    expect(await db.query('SELECT a FROM t')).toEqual([{ a: 1 }]);
+  });
+});
@@ -296,3 +296,25 @@ describe('createMigrationGenerator factory', () => {
     expect(generator.dialect).toBe('postgres');
   });
 });
+
+describe('constraint changes', () => {
+  const diff: SchemaDiff = {
+    schemaName: 'users',
+    changes: [{ type: 'add_constraint', field: 'age', constraints: { min: 0 } }],
+    isBreaking: true,
+  };
+
+  it('should add CHECK constraints for postgres and mysql', () => {
+    expect(generateMigration(diff, 'postgres')).toEqual([
+      'ALTER TABLE users ADD CONSTRAINT users_age_check CHECK (age >= 0);',
+    ]);
+    expect(createMigrationGenerator('mysql').generateRollback(diff)).toEqual([
+      'ALTER TABLE users DROP CHECK users_age_check;',
+    ]);
+  });
+
+  it('should note that sqlite and duckdb require table recreation', () => {
+    expect(generateMigration(diff, 'sqlite')[0]).toMatch(/^-- SQLite: Cannot add CHECK constraint/);
+    expect(generateMigration(diff, 'duckdb')[0]).toMatch(/^-- DuckDB: Cannot add CHECK constraint/);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Tests for the persistent HistoryStorage backends
+ *
+ * Runs the same history scenarios against the JSON file storage and the
+ * SQL table storage (SQLite and DuckDB), and checks the history table DDL
+ * for each dialect.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Migration } from '@icetype/core';
+import { createSchemaVersion } from '@icetype/core';
+import { createMigrationHistory, computeChecksum, type HistoryStorage } from '../src/history.js';
+import { FileHistoryStorage } from '../src/file-history-storage.js';
+import { SqlHistoryStorage, generateHistoryTableDDL } from '../src/sql-history-storage.js';
+import { createDatabaseExecutor, type DatabaseConnection } from '../src/executor.js';
+
+const migration = (id: string, minor: number): Migration => ({
+  id,
+  fromVersion: createSchemaVersion(1, minor - 1, 0),
+  toVersion: createSchemaVersion(1, minor, 0),
+  timestamp: new Date(),
+  description: `Migration ${id}`,
+  operations: [],
+  isBreaking: false,
+});
+
+interface Backend {
+  name: string;
+  open(dir: string): Promise<{ storage: () => HistoryStorage; close(): Promise<void> }>;
+}
+
+const BACKENDS: Backend[] = [
+  {
+    name: 'FileHistoryStorage',
+    async open(dir) {
+      const path = join(dir, 'migrations', '.history.json');
+      return { storage: () => new FileHistoryStorage(path), close: async () => {} };
+    },
+  },
+  {
+    name: 'SqlHistoryStorage (sqlite)',
+    async open(dir) {
+      const db = await createDatabaseExecutor(`sqlite:${join(dir, 'dev.db')}`);
+      return { storage: () => new SqlHistoryStorage(db), close: () => db.close() };
+    },
+  },
+  {
+    name: 'SqlHistoryStorage (duckdb)',
+    async open() {
+      const db = await createDatabaseExecutor('duckdb::memory:');
+      return { storage: () => new SqlHistoryStorage(db), close: () => db.close() };
+    },
+  },
+];
+
+describe.each(BACKENDS)('$name', (backend) => {
+  let dir: string;
+  let opened: Awaited<ReturnType<Backend['open']>>;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'icetype-history-'));
+    opened = await backend.open(dir);
+  });
+
+  afterEach(async () => {
+    await opened.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should report empty history before anything is recorded', async () => {
+    const history = createMigrationHistory(opened.storage());
+
+    expect(await history.getAll()).toEqual([]);
+    expect(await history.hasApplied('001')).toBe(false);
+    expect(await history.getCurrentVersion()).toBeNull();
+  });
+
+  it('should persist records with checksum and execution time', async () => {
+    await createMigrationHistory(opened.storage()).record(migration('001', 1), {
+      checksum: computeChecksum('CREATE TABLE users (id TEXT)'),
+      executionTime: 42,
+    });
+
+    // A fresh storage instance reads what the first one wrote
+    const records = await createMigrationHistory(opened.storage()).getAll();
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      migrationId: '001',
+      fromVersion: createSchemaVersion(1, 0, 0),
+      toVersion: createSchemaVersion(1, 1, 0),
+      checksum: computeChecksum('CREATE TABLE users (id TEXT)'),
+      description: 'Migration 001',
+      executionTime: 42,
+    });
+    expect(records[0]!.appliedAt).toBeInstanceOf(Date);
+    expect(Math.abs(records[0]!.appliedAt.getTime() - Date.now())).toBeLessThan(60_000);
+  });
+
+  it('should order, page and report the current version', async () => {
+    const storage = opened.storage();
+    const base = Date.UTC(2024, 0, 1);
+    for (const [i, id] of ['001', '002', '003'].entries()) {
+      await storage.save({
+        migrationId: id,
+        fromVersion: createSchemaVersion(1, i, 0),
+        toVersion: createSchemaVersion(1, i + 1, 0),
+        appliedAt: new Date(base + i * 1000),
+        checksum: 'abc',
+      });
+    }
+
+    const history = createMigrationHistory(storage);
+    expect((await history.getAll({ order: 'desc', limit: 2 })).map((r) => r.migrationId)).toEqual(['003', '002']);
+    expect((await history.getAll({ offset: 1 })).map((r) => r.migrationId)).toEqual(['002', '003']);
+    expect(await history.getCurrentVersion()).toEqual(createSchemaVersion(1, 3, 0));
+    expect((await storage.load('002'))!.appliedAt.toISOString()).toBe('2024-01-01T00:00:01.000Z');
+  });
+
+  it('should track rollbacks and re-application', async () => {
+    const history = createMigrationHistory(opened.storage());
+    await history.record(migration('001', 1));
+    await history.record(migration('002', 2));
+
+    await history.recordRollback('002');
+
+    const reopened = createMigrationHistory(opened.storage());
+    expect(await reopened.hasApplied('002')).toBe(false);
+    expect(await reopened.wasRolledBack('002')).toBe(true);
+    const rollback = await reopened.getRollbackRecord('002');
+    expect(rollback?.originalRecord.migrationId).toBe('002');
+    expect(rollback?.rolledBackAt).toBeInstanceOf(Date);
+    const pending = await reopened.getPending([migration('001', 1), migration('002', 2)]);
+    expect(pending.map((m) => m.id)).toEqual(['002']);
+
+    await expect(reopened.record(migration('002', 2))).rejects.toThrow(/previously rolled back/);
+    await reopened.record(migration('002', 2), { force: true });
+    expect(await reopened.hasApplied('002')).toBe(true);
+    expect(await reopened.getRolledBackMigrations()).toEqual([]);
+  });
+});
+
+describe('FileHistoryStorage file handling', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'icetype-history-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write readable JSON without leaving temporary files', async () => {
+    const path = join(dir, 'migrations', '.history.json');
+    await createMigrationHistory(new FileHistoryStorage(path)).record(migration('001', 1));
+
+    expect(existsSync(path)).toBe(true);
+    const file = JSON.parse(readFileSync(path, 'utf-8'));
+    expect(file.version).toBe(1);
+    expect(file.migrations[0]).toMatchObject({ migrationId: '001', fromVersion: '1.0.0', toVersion: '1.1.0' });
+    expect(readdirSync(join(dir, 'migrations'))).toEqual(['.history.json']);
+  });
+
+  it('should reject files in an unknown format', async () => {
+    const path = join(dir, '.history.json');
+    writeFileSync(path, JSON.stringify({ applied: [] }));
+
+    await expect(new FileHistoryStorage(path).getAll()).rejects.toThrow(/Unsupported migration history file/);
+  });
+});
+
+describe('SqlHistoryStorage table handling', () => {
+  let db: DatabaseConnection;
+
+  beforeEach(async () => {
+    db = await createDatabaseExecutor(':memory:');
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should not create the table when only reading', async () => {
+    const storage = new SqlHistoryStorage(db);
+    await storage.getAll();
+    await storage.has('001');
+
+    expect(await db.query(`SELECT name FROM sqlite_master WHERE name = '_icetype_migrations'`)).toEqual([]);
+  });
+
+  it('should use a custom table name', async () => {
+    await createMigrationHistory(new SqlHistoryStorage(db, { tableName: 'schema_history' })).record(migration('001', 1));
+
+    expect(await db.query('SELECT migration_id FROM schema_history')).toEqual([{ migration_id: '001' }]);
+    expect(() => new SqlHistoryStorage(db, { tableName: 'bad; DROP TABLE x' })).toThrow(/Invalid history table name/);
+  });
+
+  it('should generate dialect-specific DDL', () => {
+    expect(generateHistoryTableDDL('postgres')).toBe(
+      [
+        'CREATE TABLE IF NOT EXISTS _icetype_migrations (',
+        '  migration_id VARCHAR(255) NOT NULL PRIMARY KEY,',
+        '  from_version VARCHAR(255) NOT NULL,',
+        '  to_version VARCHAR(255) NOT NULL,',
+        '  checksum VARCHAR(255) NOT NULL,',
+        '  description TEXT,',
+        '  applied_at TIMESTAMPTZ NOT NULL,',
+        '  execution_time INTEGER,',
+        '  rolled_back_at TIMESTAMPTZ',
+        ')',
+      ].join('\n')
+    );
+    expect(generateHistoryTableDDL('mysql')).toContain('applied_at DATETIME(3) NOT NULL');
+    expect(generateHistoryTableDDL('sqlite')).toContain('applied_at TEXT NOT NULL');
+    expect(generateHistoryTableDDL('duckdb', 'history')).toContain('CREATE TABLE IF NOT EXISTS history (');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for the migration lock
+ *
+ * Acquires and releases the lock against real SQLite, DuckDB and PGlite
+ * databases, and checks that a second holder waits and times out.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createDatabaseExecutor, type DatabaseConnection } from '../src/executor.js';
+import { createMigrationLock, MigrationLockError } from '../src/lock.js';
+
+describe('lock row (SQLite)', () => {
+  let dir: string;
+  let first: DatabaseConnection;
+  let second: DatabaseConnection;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'icetype-lock-'));
+    first = await createDatabaseExecutor(`sqlite:${join(dir, 'dev.db')}`);
+    second = await createDatabaseExecutor(`sqlite:${join(dir, 'dev.db')}`);
+  });
+
+  afterEach(async () => {
+    await first.close();
+    await second.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep a second connection out until the lock is released', async () => {
+    const held = createMigrationLock(first);
+    const waiting = createMigrationLock(second, { timeout: 100, retryInterval: 20 });
+
+    await held.acquire();
+    const error = await waiting.acquire().catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(MigrationLockError);
+    expect((error as Error).message).toMatch(/Timed out after 0s waiting for migration lock 'icetype_migrations', held by \d+-/);
+    expect((error as Error).message).toContain('delete its row from _icetype_migrations_lock');
+
+    await held.release();
+    await waiting.acquire();
+    expect(await second.query('SELECT lock_name FROM _icetype_migrations_lock')).toEqual([
+      { lock_name: 'icetype_migrations' },
+    ]);
+    await waiting.release();
+    expect(await second.query('SELECT lock_name FROM _icetype_migrations_lock')).toEqual([]);
+  });
+
+  it('should wait for the holder to finish', async () => {
+    const held = createMigrationLock(first);
+    await held.acquire();
+    setTimeout(() => void held.release(), 50);
+
+    await createMigrationLock(second, { timeout: 5000, retryInterval: 10 }).acquire();
+  });
+
+  it('should allow separate lock names', async () => {
+    await createMigrationLock(first, { name: 'tenant_a' }).acquire();
+    await createMigrationLock(second, { name: 'tenant_b', timeout: 0 }).acquire();
+  });
+});
+
+describe('lock row (DuckDB)', () => {
+  it('should acquire and release a lock row', async () => {
+    const db = await createDatabaseExecutor('duckdb::memory:');
+    try {
+      const lock = createMigrationLock(db);
+      await lock.acquire();
+      expect(await db.query('SELECT lock_name FROM _icetype_migrations_lock')).toEqual([
+        { lock_name: 'icetype_migrations' },
+      ]);
+      const error = await createMigrationLock(db, { timeout: 0 }).acquire().catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(MigrationLockError);
+
+      await lock.release();
+      expect(await db.query('SELECT lock_name FROM _icetype_migrations_lock')).toEqual([]);
+    } finally {
+      await db.close();
+    }
+  });
+});
+
+describe('advisory lock (Postgres)', () => {
+  it('should take and release a pg advisory lock', async () => {
+    const db = await createDatabaseExecutor('pglite::memory:');
+    try {
+      const advisoryLocks = () =>
+        db.query<{ count: number }>("SELECT count(*)::int AS count FROM pg_locks WHERE locktype = 'advisory'");
+
+      const lock = createMigrationLock(db);
+      await lock.acquire();
+      expect(await advisoryLocks()).toEqual([{ count: 1 }]);
+
+      await lock.release();
+      expect(await advisoryLocks()).toEqual([{ count: 0 }]);
+    } finally {
+      await db.close();
+    }
+  });
+});
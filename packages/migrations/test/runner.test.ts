@@ -13,7 +13,10 @@ import {
   type MigrationResult,
   createMigrationRunner,
   MigrationError,
+  MigrationChecksumError,
 } from '../src/runner.js';
+import { createMigrationHistory, InMemoryHistoryStorage, computeChecksum } from '../src/history.js';
+import type { MigrationLock } from '../src/lock.js';
 
 describe('MigrationRunner interface', () => {
   // Mock database executor
@@ -249,3 +252,103 @@ describe('MigrationError', () => {
     expect(error).toBeInstanceOf(MigrationError);
   });
 });
+
+describe('MigrationRunner with history', () => {
+  const createMockExecutor = () => ({
+    execute: vi.fn().mockResolvedValue(undefined),
+    beginTransaction: vi.fn().mockResolvedValue(undefined),
+    commit: vi.fn().mockResolvedValue(undefined),
+    rollback: vi.fn().mockResolvedValue(undefined),
+  });
+
+  const migration = (id: string): Migration => ({
+    id,
+    fromVersion: createSchemaVersion(1, 0, 0),
+    toVersion: createSchemaVersion(1, 1, 0),
+    timestamp: new Date(),
+    operations: [],
+    isBreaking: false,
+  });
+
+  it('should record applied migrations with the checksum of their SQL', async () => {
+    const history = createMigrationHistory(new InMemoryHistoryStorage());
+    const runner = createMigrationRunner(createMockExecutor(), { history });
+
+    await runner.run(migration('001'), ['CREATE TABLE a (id INT)', 'CREATE TABLE b (id INT)']);
+    await runner.run(migration('002'), ['CREATE TABLE c (id INT)'], { checksum: 'file-sum' });
+
+    const records = await history.getAll();
+    expect(records.map((r) => r.checksum)).toEqual([
+      computeChecksum('CREATE TABLE a (id INT);\nCREATE TABLE b (id INT)'),
+      'file-sum',
+    ]);
+    expect(records[0]!.executionTime).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should not record failed migrations and should record rollbacks', async () => {
+    const executor = createMockExecutor();
+    const history = createMigrationHistory(new InMemoryHistoryStorage());
+    const runner = createMigrationRunner(executor, { history });
+
+    await runner.run(migration('001'), ['CREATE TABLE a (id INT)']);
+    executor.execute.mockRejectedValueOnce(new Error('syntax error'));
+    await runner.run(migration('002'), ['BROKEN']);
+    expect(await history.hasApplied('002')).toBe(false);
+
+    await runner.rollback(migration('001'), ['DROP TABLE a']);
+    expect(await history.hasApplied('001')).toBe(false);
+    expect(await history.wasRolledBack('001')).toBe(true);
+  });
+
+  it('should report every drifted migration in a MigrationChecksumError', async () => {
+    const history = createMigrationHistory(new InMemoryHistoryStorage());
+    const runner = createMigrationRunner(createMockExecutor(), { history });
+    await runner.run(migration('001'), ['CREATE TABLE a (id INT)']);
+    await runner.run(migration('002'), ['CREATE TABLE b (id INT)']);
+    await runner.run(migration('003'), ['CREATE TABLE c (id INT)']);
+
+    const current = new Map([
+      ['001', computeChecksum('CREATE TABLE a (id INT)')],
+      ['002', computeChecksum('CREATE TABLE b (id BIGINT)')],
+      ['003', computeChecksum('CREATE TABLE c (id TEXT)')],
+    ]);
+
+    const error = await runner.verifyChecksums(current).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(MigrationChecksumError);
+    expect(error).toBeInstanceOf(MigrationError);
+    const drifted = (error as MigrationChecksumError).drifted;
+    expect(drifted.map((d) => d.migrationId)).toEqual(['002', '003']);
+    expect((error as Error).message).toContain('2 applied migration(s) changed since they were applied');
+    expect((error as Error).message).toContain(`- 002 (recorded ${drifted[0]!.recordedChecksum}, now ${drifted[0]!.currentChecksum})`);
+
+    // Accepting the current content clears the drift
+    for (const d of drifted) {
+      await history.updateChecksum(d.migrationId, d.currentChecksum);
+    }
+    await expect(runner.verifyChecksums(current)).resolves.toBeUndefined();
+  });
+
+  it('should hold the lock while running a batch', async () => {
+    const events: string[] = [];
+    const executor = createMockExecutor();
+    executor.execute.mockImplementation(async (sql: string) => {
+      events.push(sql);
+    });
+    const lock: MigrationLock = {
+      acquire: async () => {
+        events.push('acquire');
+      },
+      release: async () => {
+        events.push('release');
+      },
+    };
+    const runner = createMigrationRunner(executor, { lock });
+
+    await runner.runAll([migration('001'), migration('002')], new Map([
+      ['001', ['SQL 1']],
+      ['002', ['SQL 2']],
+    ]));
+
+    expect(events).toEqual(['acquire', 'SQL 1', 'SQL 2', 'release']);
+  });
+});
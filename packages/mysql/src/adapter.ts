@@ -19,6 +19,7 @@ import {
   generateSystemColumns,
   serializeDDL,
   generateIndexStatements,
+  generateFieldCheckConstraint,
 } from './ddl.js';
 
 import { VERSION } from './version.js';
@@ -82,6 +83,8 @@ export class MySQLAdapter
   ): MySQLDDL {
     const columns: MySQLColumn[] = [];
     const primaryKey: string[] = [];
+    const tableName = options?.tableName ?? schema.name;
+    const checkConstraints: Array<{ name?: string; expression: string }> = [];
 
     // Add system fields if requested (default: true)
     const includeSystemFields = options?.includeSystemFields ?? true;
@@ -102,11 +105,16 @@ export class MySQLAdapter
 
       const column = fieldToMySQLColumn(fieldName, fieldDef);
       columns.push(column);
+
+      const constraintCheck = generateFieldCheckConstraint(tableName, fieldName, fieldDef);
+      if (constraintCheck) {
+        checkConstraints.push(constraintCheck);
+      }
     }
 
     // Build DDL structure
     const ddl: MySQLDDL = {
-      tableName: options?.tableName ?? schema.name,
+      tableName,
       columns,
       primaryKey: primaryKey.length > 0 ? primaryKey : undefined,
       ifNotExists: options?.ifNotExists,
@@ -123,6 +131,10 @@ export class MySQLAdapter
       ddl.uniqueConstraints = uniqueColumns.map(c => [c.name]);
     }
 
+    if (checkConstraints.length > 0) {
+      ddl.checkConstraints = checkConstraints;
+    }
+
     return ddl;
   }
 
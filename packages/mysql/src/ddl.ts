@@ -12,9 +12,12 @@ import {
   escapeIdentifier as escapeIdentifierCommon,
   formatDefaultValue as formatDefaultValueCommon,
   generateSystemColumns as generateSystemColumnsCommon,
+  generateFieldCheckConstraint as generateFieldCheckConstraintCommon,
   serializeDDL as serializeDDLCommon,
+  formatEnumValues,
   validateSchemaName,
   type SqlColumn,
+  type CheckConstraint,
   type DDLStructure,
 } from '@icetype/sql-common';
 
@@ -147,6 +150,11 @@ export function fieldToMySQLColumn(
   const typeMapping = mapIceTypeToMySQL(field.type, field);
   let typeString = getMySQLTypeString(typeMapping);
 
+  // Declared enums map to a native ENUM column
+  if (field.enumValues !== undefined && !field.isArray) {
+    typeString = `ENUM(${formatEnumValues(field.enumValues)})`;
+  }
+
   // Handle relation fields - store as foreign key reference (VARCHAR)
   if (field.relation) {
     typeString = 'VARCHAR(255)';
@@ -235,6 +243,22 @@ export function serializeDDL(ddl: MySQLDDL): string {
   return serializeDDLCommon(commonDDL, 'mysql');
 }
 
+/**
+ * Generate a named CHECK constraint for a field's `$constraints` entry.
+ *
+ * @param tableName - The table name, used to name the constraint
+ * @param fieldName - The field name
+ * @param field - The IceType field definition
+ * @returns The check constraint, or undefined if the field is unconstrained
+ */
+export function generateFieldCheckConstraint(
+  tableName: string,
+  fieldName: string,
+  field: FieldDefinition
+): CheckConstraint | undefined {
+  return generateFieldCheckConstraintCommon(tableName, fieldName, field, 'mysql');
+}
+
 /**
  * Generate index DDL statements for indexed fields.
  *
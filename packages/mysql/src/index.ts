@@ -83,6 +83,7 @@ export {
   escapeIdentifier,
   serializeColumn,
   serializeDDL,
+  generateFieldCheckConstraint,
   generateIndexStatements,
 } from './ddl.js';
 
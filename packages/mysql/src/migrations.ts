@@ -7,6 +7,7 @@
  */
 
 import type { SchemaDiff, SchemaChange, FieldDefinition } from '@icetype/core';
+import { generateCheckExpression, getCheckConstraintName } from '@icetype/core';
 import type { MigrationGenerator, GeneratorOptions, Dialect } from '@icetype/migrations';
 import { ICETYPE_TO_MYSQL } from './types.js';
 
@@ -170,6 +171,14 @@ export class MySQLMigrationGenerator implements MigrationGenerator {
           const indexStatements = this.generateCreateIndex(diff.schemaName, change);
           statements.push(...indexStatements);
           break;
+
+        case 'add_constraint':
+          statements.push(...this.generateAddCheck(diff.schemaName, change));
+          break;
+
+        case 'drop_constraint':
+          statements.push(this.generateDropCheck(diff.schemaName, change.field));
+          break;
       }
     }
 
@@ -248,6 +257,16 @@ export class MySQLMigrationGenerator implements MigrationGenerator {
             }
           }
           break;
+
+        case 'add_constraint':
+          // Rollback: drop the added constraint
+          statements.push(this.generateDropCheck(diff.schemaName, change.field));
+          break;
+
+        case 'drop_constraint':
+          // Rollback: restore the dropped constraint
+          statements.push(...this.generateAddCheck(diff.schemaName, change));
+          break;
       }
     }
 
@@ -372,6 +391,31 @@ export class MySQLMigrationGenerator implements MigrationGenerator {
 
     return statements;
   }
+
+  private generateAddCheck(
+    tableName: string,
+    change: SchemaChange & { type: 'add_constraint' | 'drop_constraint' }
+  ): string[] {
+    const quote = !!this.options.quoteIdentifiers;
+    const column = quoteIdentifier(change.field, quote);
+    const expression = generateCheckExpression(column, change.constraints, 'mysql');
+    if (expression === undefined) {
+      return [];
+    }
+
+    const table = quoteIdentifier(tableName, quote);
+    const name = quoteIdentifier(getCheckConstraintName(tableName, change.field), quote);
+    return [`ALTER TABLE ${table} ADD CONSTRAINT ${name} CHECK (${expression})${ending(this.options)}`];
+  }
+
+  private generateDropCheck(tableName: string, field: string): string {
+    const quote = !!this.options.quoteIdentifiers;
+    const table = quoteIdentifier(tableName, quote);
+    const name = quoteIdentifier(getCheckConstraintName(tableName, field), quote);
+
+    // MySQL 8.0.19+ supports DROP CHECK
+    return `ALTER TABLE ${table} DROP CHECK ${name}${ending(this.options)}`;
+  }
 }
 
 // =============================================================================
@@ -1034,3 +1034,44 @@ describe('MySQL-Specific Features', () => {
     expect(sql).toContain('COLLATE utf8mb4_unicode_ci');
   });
 });
+
+describe('MySQLAdapter enum types', () => {
+  const schema = parseSchema({
+    $type: 'User',
+    $enums: { Status: ['active', 'inactive'] },
+    status: "enum<Status> = 'active'",
+    history: 'enum<Status>[]',
+  });
+
+  it('should map declared enums to a native ENUM column', () => {
+    const ddl = new MySQLAdapter().transform(schema);
+    expect(ddl.columns.find(c => c.name === 'status')?.type).toBe("ENUM('active', 'inactive')");
+  });
+
+  it('should serialize the ENUM column with its default', () => {
+    const adapter = new MySQLAdapter();
+    const sql = adapter.serialize(adapter.transform(schema));
+    expect(sql).toContain("ENUM('active', 'inactive') NOT NULL DEFAULT 'active'");
+  });
+
+  it('should fall back to the default type for undeclared enums', () => {
+    const ddl = new MySQLAdapter().transform(parseSchema({ $type: 'User', status: 'enum<Status>' }));
+    expect(ddl.columns.find(c => c.name === 'status')?.type).not.toContain('ENUM');
+  });
+});
+
+describe('MySQLAdapter field constraints', () => {
+  it('should generate CHECK constraints with MySQL functions', () => {
+    const adapter = new MySQLAdapter();
+    const schema = parseSchema({
+      $type: 'User',
+      $constraints: { age: { min: 18 }, code: { minLength: 2, pattern: '^\\w+$' } },
+      age: 'int',
+      code: 'string',
+    });
+
+    const sql = adapter.serialize(adapter.transform(schema));
+    expect(sql).toContain('CONSTRAINT User_age_check CHECK (age >= 18)');
+    expect(sql).toContain("CONSTRAINT User_code_check CHECK (CHAR_LENGTH(code) >= 2 AND code REGEXP '^\\\\w+$')");
+  });
+});
@@ -518,3 +518,22 @@ describe('MySQLMigrationGenerator', () => {
     });
   });
 });
+
+describe('MySQLMigrationGenerator constraint operations', () => {
+  it('should add and drop CHECK constraints', () => {
+    const generator = new MySQLMigrationGenerator();
+    const diff = createMockDiff([
+      { type: 'drop_constraint', field: 'age', constraints: { min: 0 } },
+      { type: 'add_constraint', field: 'age', constraints: { max: 150 } },
+    ]);
+
+    expect(generator.generate(diff)).toEqual([
+      'ALTER TABLE users DROP CHECK users_age_check;',
+      'ALTER TABLE users ADD CONSTRAINT users_age_check CHECK (age <= 150);',
+    ]);
+    expect(generator.generateRollback(diff)).toEqual([
+      'ALTER TABLE users DROP CHECK users_age_check;',
+      'ALTER TABLE users ADD CONSTRAINT users_age_check CHECK (age >= 0);',
+    ]);
+  });
+});
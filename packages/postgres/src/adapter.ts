@@ -7,11 +7,15 @@
  * @packageDocumentation
  */
 
-import type { IceTypeSchema, SchemaAdapter } from '@icetype/core';
+import type { IceTypeSchema, FieldDefinition, SchemaAdapter } from '@icetype/core';
+import { parsePartitionBy } from '@icetype/core';
 
 import type {
   PostgresDDL,
   PostgresColumn,
+  PostgresEnumType,
+  PostgresCompositeType,
+  PostgresStructType,
   PostgresAdapterOptions,
 } from './types.js';
 
@@ -20,6 +24,10 @@ import {
   generateSystemColumns,
   serializeDDL,
   generateIndexStatements,
+  generateFieldCheckConstraint,
+  generateTtlPurge,
+  generateOrderByColumns,
+  generatePartitionBy,
 } from './ddl.js';
 
 import { VERSION } from './version.js';
@@ -85,6 +93,11 @@ export class PostgresAdapter
   ): PostgresDDL {
     const columns: PostgresColumn[] = [];
     const primaryKey: string[] = [];
+    const tableName = options?.tableName ?? schema.name;
+    const checkConstraints: Array<{ name?: string; expression: string }> = [];
+    const enumTypes = new Map<string, PostgresEnumType>();
+    const compositeTypes = new Map<string, PostgresCompositeType>();
+    const structType = options?.structType ?? 'composite';
 
     // Add system fields if requested (default: true)
     const includeSystemFields = options?.includeSystemFields ?? true;
@@ -103,13 +116,20 @@ export class PostgresAdapter
       // Skip directive fields
       if (fieldName.startsWith('$')) continue;
 
-      const column = fieldToPostgresColumn(fieldName, fieldDef);
+      const column = fieldToPostgresColumn(fieldName, fieldDef, options?.schema, structType);
       columns.push(column);
+
+      const constraintCheck = generateFieldCheckConstraint(tableName, fieldName, fieldDef);
+      if (constraintCheck) {
+        checkConstraints.push(constraintCheck);
+      }
+
+      collectNamedTypes(fieldDef, enumTypes, compositeTypes, options?.schema, structType);
     }
 
     // Build DDL structure
     const ddl: PostgresDDL = {
-      tableName: options?.tableName ?? schema.name,
+      tableName,
       schemaName: options?.schema,
       columns,
       primaryKey: primaryKey.length > 0 ? primaryKey : undefined,
@@ -117,6 +137,14 @@ export class PostgresAdapter
       unlogged: options?.unlogged,
     };
 
+    if (enumTypes.size > 0) {
+      ddl.enumTypes = [...enumTypes.values()];
+    }
+
+    if (compositeTypes.size > 0) {
+      ddl.compositeTypes = [...compositeTypes.values()];
+    }
+
     // Collect unique constraints from unique indexed fields
     const uniqueColumns = columns.filter(c => c.unique && !c.primaryKey);
     if (uniqueColumns.length > 0) {
@@ -124,9 +152,57 @@ export class PostgresAdapter
       ddl.uniqueConstraints = uniqueColumns.map(c => [c.name]);
     }
 
+    if (checkConstraints.length > 0) {
+      ddl.checkConstraints = checkConstraints;
+    }
+
+    if (schema.directives.ttl) {
+      const ttlPurge = generateTtlPurge(tableName, options?.schema, schema.directives.ttl);
+      if (ttlPurge) {
+        ddl.ttlPurge = ttlPurge;
+        if (options?.ttlSchedule) {
+          ddl.ttlSchedule = options.ttlSchedule;
+        }
+      }
+    }
+
+    if (options?.partitioned && schema.directives.partitionBy) {
+      this.applyPartitionBy(ddl, schema);
+    }
+
+    if (schema.directives.orderBy) {
+      const orderBy = generateOrderByColumns(schema.directives.orderBy);
+      if (orderBy.length > 0) {
+        ddl.orderBy = orderBy;
+      }
+    }
+
     return ddl;
   }
 
+  /**
+   * Partition the table by the schema's `$partitionBy` keys, adding the
+   * partition columns to the primary key and unique constraints.
+   */
+  private applyPartitionBy(ddl: PostgresDDL, schema: IceTypeSchema): void {
+    const partitionBy = generatePartitionBy(parsePartitionBy(schema.directives.partitionBy ?? []), schema.fields);
+    if (!partitionBy) return;
+
+    ddl.partitionBy = partitionBy;
+    const withPartitionColumns = (columns: string[]) => [
+      ...columns,
+      ...partitionBy.columns.filter((column) => !columns.includes(column)),
+    ];
+    if (ddl.primaryKey) {
+      ddl.primaryKey = withPartitionColumns(ddl.primaryKey);
+    }
+    if (ddl.uniqueConstraints) {
+      // Column-level UNIQUE cannot include the partition columns
+      ddl.columns = ddl.columns.map((column) => (column.unique ? { ...column, unique: false } : column));
+      ddl.uniqueConstraints = ddl.uniqueConstraints.map(withPartitionColumns);
+    }
+  }
+
   /**
    * Serialize PostgreSQL DDL to a CREATE TABLE SQL statement.
    *
@@ -159,6 +235,42 @@ export class PostgresAdapter
   }
 }
 
+/**
+ * Collect the enum and composite types a field depends on.
+ *
+ * Composite types are added after the types their attributes reference,
+ * so the collected order is a valid creation order.
+ */
+function collectNamedTypes(
+  field: FieldDefinition,
+  enumTypes: Map<string, PostgresEnumType>,
+  compositeTypes: Map<string, PostgresCompositeType>,
+  schemaName: string | undefined,
+  structType: PostgresStructType
+): void {
+  if (field.enumName !== undefined && field.enumValues !== undefined) {
+    enumTypes.set(field.enumName, { name: field.enumName, values: field.enumValues });
+  }
+
+  if (
+    structType === 'composite' &&
+    field.structName !== undefined &&
+    field.structFields !== undefined &&
+    !compositeTypes.has(field.structName)
+  ) {
+    for (const nested of field.structFields) {
+      collectNamedTypes(nested, enumTypes, compositeTypes, schemaName, structType);
+    }
+    compositeTypes.set(field.structName, {
+      name: field.structName,
+      attributes: field.structFields.map((nested) => ({
+        name: nested.name,
+        type: fieldToPostgresColumn(nested.name, nested, schemaName, structType).type,
+      })),
+    });
+  }
+}
+
 // =============================================================================
 // Factory Function
 // =============================================================================
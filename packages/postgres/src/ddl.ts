@@ -7,7 +7,7 @@
  * @packageDocumentation
  */
 
-import type { FieldDefinition } from '@icetype/core';
+import type { FieldDefinition, OrderByField, PartitionField, TtlDirective } from '@icetype/core';
 
 import {
   escapeIdentifier as escapeIdentifierBase,
@@ -15,14 +15,24 @@ import {
   serializeColumn as serializeColumnBase,
   generateSystemColumns as generateSystemColumnsBase,
   generateIndexStatements as generateIndexStatementsBase,
+  generateFieldCheckConstraint as generateFieldCheckConstraintBase,
+  generateTtlPurge as generateTtlPurgeBase,
+  generateOrderByColumns as generateOrderByColumnsBase,
   serializeDDL as serializeDDLBase,
+  serializeTtlPurge,
+  formatEnumValues,
   type SqlColumn,
+  type CheckConstraint,
   type DDLStructure,
 } from '@icetype/sql-common';
 
 import type {
   PostgresColumn,
   PostgresDDL,
+  PostgresEnumType,
+  PostgresCompositeType,
+  PostgresPartitionBy,
+  PostgresStructType,
   PostgresTypeMapping,
 } from './types.js';
 
@@ -96,17 +106,33 @@ export function toArrayType(baseType: string): string {
 /**
  * Convert an IceType field definition to a PostgreSQL column definition.
  *
+ * Fields of a declared enum type reference the named enum type, and fields
+ * of a declared struct type reference the named composite type (or JSONB),
+ * qualified with the schema name when one is given.
+ *
  * @param fieldName - The field name
  * @param field - The IceType field definition
+ * @param schemaName - Optional schema name for enum and composite type references
+ * @param structType - How to store struct fields (defaults to 'composite')
  * @returns The PostgreSQL column definition
  */
 export function fieldToPostgresColumn(
   fieldName: string,
-  field: FieldDefinition
+  field: FieldDefinition,
+  schemaName?: string,
+  structType: PostgresStructType = 'composite'
 ): PostgresColumn {
   const typeMapping = mapIceTypeToPostgres(field.type, field);
   let typeString = getPostgresTypeString(typeMapping);
 
+  if (field.enumName !== undefined && field.enumValues !== undefined) {
+    typeString = qualifyTypeName(field.enumName, schemaName);
+  }
+
+  if (field.structName !== undefined && field.structFields !== undefined) {
+    typeString = structType === 'composite' ? qualifyTypeName(field.structName, schemaName) : 'JSONB';
+  }
+
   // Handle array types
   if (field.isArray) {
     typeString = toArrayType(typeString);
@@ -210,6 +236,15 @@ export function serializeColumn(column: PostgresColumn): string {
  * @returns The CREATE TABLE SQL statement
  */
 export function serializeDDL(ddl: PostgresDDL): string {
+  const typeStatements = [
+    ...(ddl.enumTypes ?? []).map((enumType) =>
+      serializeEnumType(enumType, ddl.schemaName, ddl.ifNotExists)
+    ),
+    ...(ddl.compositeTypes ?? []).map((compositeType) =>
+      serializeCompositeType(compositeType, ddl.schemaName, ddl.ifNotExists)
+    ),
+  ];
+
   // Convert PostgresDDL to the common DDLStructure format
   const commonDDL: DDLStructure = {
     tableName: ddl.tableName,
@@ -221,9 +256,237 @@ export function serializeDDL(ddl: PostgresDDL): string {
     foreignKeys: ddl.foreignKeys,
     ifNotExists: ddl.ifNotExists,
     unlogged: ddl.unlogged,
+    ...(ddl.partitionBy && { partitionBy: serializePartitionBy(ddl.partitionBy) }),
   };
 
-  return serializeDDLBase(commonDDL, 'postgres');
+  const createTable = serializeDDLBase(commonDDL, 'postgres');
+  const statements = typeStatements.length === 0 ? [createTable] : [...typeStatements, '', createTable];
+
+  if (ddl.partitionBy) {
+    statements.push('', serializePartitions(ddl, ddl.partitionBy));
+  }
+
+  if (ddl.orderBy && ddl.orderBy.length > 0) {
+    statements.push('', serializeClusterIndex(ddl, ddl.orderBy));
+  }
+
+  if (ddl.ttlPurge) {
+    statements.push('', serializeTtlSchedule(ddl));
+  }
+
+  return statements.join('\n');
+}
+
+/**
+ * Serialize the `$orderBy` sort order as an index plus a CLUSTER statement
+ * marking it as the table's clustering index, so later `CLUSTER` runs
+ * reorder the table by it.
+ *
+ * Partitioned tables cannot be clustered on an index, and CLUSTER on them
+ * fails inside a transaction, so for those the statement is a comment.
+ */
+function serializeClusterIndex(ddl: PostgresDDL, orderBy: string[]): string {
+  const table = ddl.schemaName
+    ? `${escapeIdentifier(ddl.schemaName)}.${escapeIdentifier(ddl.tableName)}`
+    : escapeIdentifier(ddl.tableName);
+  const indexName = escapeIdentifier(`idx_${ddl.tableName}_order_by`);
+  const ifNotExists = ddl.ifNotExists ? 'IF NOT EXISTS ' : '';
+  const cluster = `CLUSTER ${table} USING ${indexName};`;
+  return [
+    `CREATE INDEX ${ifNotExists}${indexName} ON ${table} (${orderBy.join(', ')});`,
+    ddl.partitionBy ? `-- Partitioned tables cannot be clustered; cluster each partition instead:\n-- ${cluster}` : cluster,
+  ].join('\n');
+}
+
+/**
+ * Serialize the `$ttl` purge, scheduled with pg_cron when the DDL has a
+ * schedule and as a comment otherwise.
+ */
+function serializeTtlSchedule(ddl: PostgresDDL): string {
+  const purge = ddl.ttlPurge ?? '';
+  if (!ddl.ttlSchedule) {
+    return serializeTtlPurge(purge);
+  }
+
+  const jobName = `${ddl.schemaName ? `${ddl.schemaName}.` : ''}${ddl.tableName}_ttl`.replace(/'/g, "''");
+  const schedule = ddl.ttlSchedule.replace(/'/g, "''");
+  return `SELECT cron.schedule('${jobName}', '${schedule}', $$${purge}$$);`;
+}
+
+/**
+ * Qualify a type name with an optional schema name.
+ */
+function qualifyTypeName(typeName: string, schemaName: string | undefined): string {
+  return schemaName
+    ? `${escapeIdentifier(schemaName)}.${escapeIdentifier(typeName)}`
+    : escapeIdentifier(typeName);
+}
+
+/**
+ * Serialize an enum type to a CREATE TYPE statement.
+ *
+ * PostgreSQL has no `CREATE TYPE IF NOT EXISTS`, so with `ifNotExists`
+ * the statement is wrapped in a DO block that ignores duplicate_object.
+ *
+ * @param enumType - The enum type
+ * @param schemaName - Optional schema name
+ * @param ifNotExists - Whether to tolerate an existing type
+ * @returns The CREATE TYPE SQL statement
+ */
+export function serializeEnumType(
+  enumType: PostgresEnumType,
+  schemaName?: string,
+  ifNotExists?: boolean
+): string {
+  const statement = `CREATE TYPE ${qualifyTypeName(enumType.name, schemaName)} AS ENUM (${formatEnumValues(enumType.values)});`;
+
+  return ifNotExists ? ignoreDuplicateObject(statement) : statement;
+}
+
+/**
+ * Serialize a composite type to a CREATE TYPE statement.
+ *
+ * With `ifNotExists` the statement is wrapped the same way as enum types.
+ *
+ * @param compositeType - The composite type
+ * @param schemaName - Optional schema name
+ * @param ifNotExists - Whether to tolerate an existing type
+ * @returns The CREATE TYPE SQL statement
+ */
+export function serializeCompositeType(
+  compositeType: PostgresCompositeType,
+  schemaName?: string,
+  ifNotExists?: boolean
+): string {
+  const attributes = compositeType.attributes.map(
+    (attribute) => `${escapeIdentifier(attribute.name)} ${attribute.type}`
+  );
+  const statement = `CREATE TYPE ${qualifyTypeName(compositeType.name, schemaName)} AS (${attributes.join(', ')});`;
+
+  return ifNotExists ? ignoreDuplicateObject(statement) : statement;
+}
+
+/**
+ * Wrap a CREATE TYPE statement in a DO block that ignores duplicate_object.
+ */
+function ignoreDuplicateObject(statement: string): string {
+  return `DO $$ BEGIN\n  ${statement}\nEXCEPTION\n  WHEN duplicate_object THEN NULL;\nEND $$;`;
+}
+
+/**
+ * Generate a named CHECK constraint for a field's `$constraints` entry.
+ *
+ * @param tableName - The table name, used to name the constraint
+ * @param fieldName - The field name
+ * @param field - The IceType field definition
+ * @returns The check constraint, or undefined if the field is unconstrained
+ */
+export function generateFieldCheckConstraint(
+  tableName: string,
+  fieldName: string,
+  field: FieldDefinition
+): CheckConstraint | undefined {
+  return generateFieldCheckConstraintBase(tableName, fieldName, field, 'postgres');
+}
+
+/**
+ * Generate a DELETE statement purging rows past a schema's `$ttl`.
+ *
+ * @param tableName - The table name
+ * @param schemaName - Optional schema name
+ * @param ttl - The TTL directive
+ * @returns The DELETE statement, or undefined if the directive never deletes
+ */
+export function generateTtlPurge(
+  tableName: string,
+  schemaName: string | undefined,
+  ttl: TtlDirective
+): string | undefined {
+  return generateTtlPurgeBase(tableName, schemaName, ttl, 'postgres');
+}
+
+/**
+ * Render a schema's `$orderBy` sort keys as PostgreSQL ORDER BY columns.
+ *
+ * @param orderBy - The sort keys
+ * @returns The ORDER BY columns (bucket keys are skipped)
+ */
+export function generateOrderByColumns(orderBy: OrderByField[]): string[] {
+  return generateOrderByColumnsBase(orderBy, 'postgres');
+}
+
+/**
+ * Derive PostgreSQL declarative partitioning from a schema's `$partitionBy`
+ * keys.
+ *
+ * Bucket keys become HASH partitioning, using the first key's bucket count
+ * as the modulus. A single bare field of any other type than a timestamp
+ * or date becomes LIST partitioning. Everything else becomes RANGE
+ * partitioning on the source fields, since time and truncate transforms
+ * preserve their field's order. Bucket keys mixed with other keys are
+ * skipped, as a table has a single strategy.
+ *
+ * @param partitionBy - The partition keys
+ * @param fields - The schema's fields, used to find timestamp and date fields
+ * @returns The partitioning, or undefined if there are no keys
+ */
+export function generatePartitionBy(
+  partitionBy: PartitionField[],
+  fields: Map<string, FieldDefinition>
+): PostgresPartitionBy | undefined {
+  const buckets = partitionBy.filter((key) => key.transform === 'bucket');
+  if (buckets.length > 0 && buckets.length === partitionBy.length) {
+    return {
+      strategy: 'HASH',
+      columns: [...new Set(buckets.map((key) => key.field))],
+      modulus: buckets[0]!.transformArg ?? 1,
+    };
+  }
+
+  const keys = partitionBy.filter((key) => key.transform !== 'bucket');
+  const columns = [...new Set(keys.map((key) => key.field))];
+  if (keys.length === 0) {
+    return undefined;
+  }
+
+  const first = keys[0]!;
+  const firstType = fields.get(first.field)?.type;
+  const isTemporal = firstType === 'timestamp' || firstType === 'timestamptz' || firstType === 'date';
+  if (keys.length === 1 && first.transform === 'identity' && !isTemporal) {
+    return { strategy: 'LIST', columns };
+  }
+  return { strategy: 'RANGE', columns };
+}
+
+/**
+ * Serialize a PARTITION BY clause body, e.g. `RANGE ("createdAt")`.
+ */
+function serializePartitionBy(partitionBy: PostgresPartitionBy): string {
+  return `${partitionBy.strategy} (${partitionBy.columns.map(escapeIdentifier).join(', ')})`;
+}
+
+/**
+ * Serialize the partitions of a partitioned table: one per hash remainder
+ * for HASH partitioning, and a DEFAULT partition otherwise so rows can be
+ * inserted before range or list partitions are created.
+ */
+function serializePartitions(ddl: PostgresDDL, partitionBy: PostgresPartitionBy): string {
+  const qualify = (name: string) =>
+    ddl.schemaName ? `${escapeIdentifier(ddl.schemaName)}.${escapeIdentifier(name)}` : escapeIdentifier(name);
+  const table = qualify(ddl.tableName);
+  const ifNotExists = ddl.ifNotExists ? 'IF NOT EXISTS ' : '';
+
+  if (partitionBy.strategy !== 'HASH') {
+    return `CREATE TABLE ${ifNotExists}${qualify(`${ddl.tableName}_default`)} PARTITION OF ${table} DEFAULT;`;
+  }
+
+  const modulus = partitionBy.modulus ?? 1;
+  return Array.from(
+    { length: modulus },
+    (_, remainder) =>
+      `CREATE TABLE ${ifNotExists}${qualify(`${ddl.tableName}_p${remainder}`)} PARTITION OF ${table} ` +
+      `FOR VALUES WITH (MODULUS ${modulus}, REMAINDER ${remainder});`
+  ).join('\n');
 }
 
 /**
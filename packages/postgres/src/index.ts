@@ -64,7 +64,11 @@
 export type {
   PostgresType,
   PostgresColumn,
+  PostgresEnumType,
+  PostgresCompositeType,
+  PostgresStructType,
   PostgresTableOptions,
+  PostgresPartitionBy,
   PostgresDDL,
   PostgresTypeMapping,
   PostgresAdapterOptions,
@@ -86,6 +90,12 @@ export {
   escapeIdentifier,
   serializeColumn,
   serializeDDL,
+  serializeEnumType,
+  serializeCompositeType,
+  generateFieldCheckConstraint,
+  generateTtlPurge,
+  generateOrderByColumns,
+  generatePartitionBy,
   generateIndexStatements,
 } from './ddl.js';
 
@@ -14,8 +14,11 @@
  */
 
 import type { SchemaDiff, SchemaChange } from '@icetype/core';
+import { generateCheckExpression, getCheckConstraintName } from '@icetype/core';
 import type { Dialect, MigrationGenerator } from '@icetype/migrations';
 
+import { escapeIdentifier } from './ddl.js';
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -268,6 +271,27 @@ function generateDropIndex(indexName: string, concurrently: boolean): string {
   return `DROP INDEX ${concurrent}IF EXISTS ${quotedIndexName};`;
 }
 
+function generateAddCheck(
+  tableName: string,
+  change: SchemaChange & { type: 'add_constraint' | 'drop_constraint' }
+): string[] {
+  const expression = generateCheckExpression(quoteIdentifier(change.field), change.constraints, 'postgres');
+  if (expression === undefined) {
+    return [];
+  }
+
+  const table = quoteIdentifier(tableName);
+  // Quoted like CREATE TABLE quotes it, so both refer to the same (folded) name
+  const name = escapeIdentifier(getCheckConstraintName(tableName, change.field));
+  return [`ALTER TABLE ${table} ADD CONSTRAINT ${name} CHECK (${expression});`];
+}
+
+function generateDropCheck(tableName: string, field: string): string {
+  const table = quoteIdentifier(tableName);
+  const name = escapeIdentifier(getCheckConstraintName(tableName, field));
+  return `ALTER TABLE ${table} DROP CONSTRAINT IF EXISTS ${name};`;
+}
+
 // =============================================================================
 // PostgresMigrationGenerator Class
 // =============================================================================
@@ -346,6 +370,14 @@ export class PostgresMigrationGenerator implements MigrationGenerator {
           );
           statements.push(...indexStatements);
           break;
+
+        case 'add_constraint':
+          statements.push(...generateAddCheck(diff.schemaName, change));
+          break;
+
+        case 'drop_constraint':
+          statements.push(generateDropCheck(diff.schemaName, change.field));
+          break;
       }
     }
 
@@ -428,6 +460,16 @@ export class PostgresMigrationGenerator implements MigrationGenerator {
             }
           }
           break;
+
+        case 'add_constraint':
+          // Rollback: drop the added constraint
+          statements.push(generateDropCheck(diff.schemaName, change.field));
+          break;
+
+        case 'drop_constraint':
+          // Rollback: restore the dropped constraint
+          statements.push(...generateAddCheck(diff.schemaName, change));
+          break;
       }
     }
 
@@ -77,6 +77,41 @@ export interface PostgresColumn {
   isArray?: boolean;
 }
 
+// =============================================================================
+// PostgreSQL Enum Types
+// =============================================================================
+
+/**
+ * PostgreSQL enum type created with `CREATE TYPE ... AS ENUM`.
+ */
+export interface PostgresEnumType {
+  /** Enum type name */
+  name: string;
+  /** Allowed values, in declaration order */
+  values: string[];
+}
+
+/**
+ * PostgreSQL composite type created with `CREATE TYPE ... AS (...)`.
+ */
+export interface PostgresCompositeType {
+  /** Composite type name */
+  name: string;
+  /** Attributes, in declaration order */
+  attributes: Array<{
+    name: string;
+    type: string;
+  }>;
+}
+
+/**
+ * How struct fields are stored in PostgreSQL.
+ *
+ * - `composite`: a named composite type per declared struct
+ * - `jsonb`: a JSONB column
+ */
+export type PostgresStructType = 'composite' | 'jsonb';
+
 // =============================================================================
 // PostgreSQL Table Options
 // =============================================================================
@@ -93,6 +128,31 @@ export interface PostgresTableOptions {
   includeSystemFields?: boolean;
   /** Use UNLOGGED table for better write performance (no crash recovery) */
   unlogged?: boolean;
+  /** How to store struct fields (defaults to 'composite') */
+  structType?: PostgresStructType;
+  /**
+   * Cron expression (e.g. `'0 3 * * *'`) for scheduling the `$ttl` purge
+   * with pg_cron. Without it, the purge statement is emitted as a comment.
+   */
+  ttlSchedule?: string;
+  /**
+   * Create a partitioned table from the schema's `$partitionBy` keys. The
+   * partition columns are added to the primary key and unique constraints,
+   * as PostgreSQL requires.
+   */
+  partitioned?: boolean;
+}
+
+/**
+ * PostgreSQL declarative partitioning, derived from `$partitionBy`.
+ */
+export interface PostgresPartitionBy {
+  /** Partitioning strategy */
+  strategy: 'RANGE' | 'LIST' | 'HASH';
+  /** Partition key columns */
+  columns: string[];
+  /** Number of hash partitions to create, for HASH partitioning */
+  modulus?: number;
 }
 
 // =============================================================================
@@ -119,6 +179,10 @@ export interface PostgresDDL {
   ifNotExists?: boolean;
   /** Whether to use UNLOGGED table */
   unlogged?: boolean;
+  /** Enum types referenced by columns, created before the table */
+  enumTypes?: PostgresEnumType[];
+  /** Composite types referenced by columns, created before the table (dependencies first) */
+  compositeTypes?: PostgresCompositeType[];
   /** Check constraints */
   checkConstraints?: Array<{
     name?: string;
@@ -134,6 +198,14 @@ export interface PostgresDDL {
     onDelete?: 'CASCADE' | 'SET NULL' | 'SET DEFAULT' | 'RESTRICT' | 'NO ACTION';
     onUpdate?: 'CASCADE' | 'SET NULL' | 'SET DEFAULT' | 'RESTRICT' | 'NO ACTION';
   }>;
+  /** ORDER BY columns from the schema's `$orderBy`, clustered on with an index */
+  orderBy?: string[];
+  /** DELETE statement purging rows past the schema's `$ttl` */
+  ttlPurge?: string;
+  /** pg_cron schedule for `ttlPurge` */
+  ttlSchedule?: string;
+  /** Declarative partitioning from the schema's `$partitionBy` */
+  partitionBy?: PostgresPartitionBy;
 }
 
 // =============================================================================
@@ -22,6 +22,8 @@ import {
   serializeColumn,
   serializeDDL,
   generateIndexStatements,
+  serializeEnumType,
+  serializeCompositeType,
   InvalidSchemaNameError,
   ICETYPE_TO_POSTGRES,
 } from '../src/index.js';
@@ -1047,3 +1049,280 @@ describe('PostgresAdapter schema name validation', () => {
     }).toThrow(InvalidSchemaNameError);
   });
 });
+
+describe('PostgresAdapter enum types', () => {
+  let adapter: PostgresAdapter;
+
+  beforeEach(() => {
+    adapter = new PostgresAdapter();
+  });
+
+  const schema = parseSchema({
+    $type: 'User',
+    $enums: { Status: ['active', 'inactive'] },
+    status: "enum<Status> = 'active'",
+    history: 'enum<Status>[]',
+  });
+
+  it('should collect declared enums used by fields', () => {
+    const ddl = adapter.transform(schema);
+    expect(ddl.enumTypes).toEqual([{ name: 'Status', values: ['active', 'inactive'] }]);
+  });
+
+  it('should type enum columns with the enum type name', () => {
+    const ddl = adapter.transform(schema);
+    expect(ddl.columns.find(c => c.name === 'status')?.type).toBe('Status');
+    expect(ddl.columns.find(c => c.name === 'history')?.type).toBe('Status[]');
+  });
+
+  it('should emit CREATE TYPE before CREATE TABLE', () => {
+    const sql = adapter.serialize(adapter.transform(schema));
+    expect(sql).toContain("CREATE TYPE Status AS ENUM ('active', 'inactive');");
+    expect(sql).toContain("status Status NOT NULL DEFAULT 'active',");
+    expect(sql.indexOf('CREATE TYPE')).toBeLessThan(sql.indexOf('CREATE TABLE'));
+  });
+
+  it('should qualify enum types with the schema name', () => {
+    const ddl = adapter.transform(schema, { schema: 'app' });
+    const sql = adapter.serialize(ddl);
+    expect(sql).toContain("CREATE TYPE app.Status AS ENUM ('active', 'inactive');");
+    expect(ddl.columns.find(c => c.name === 'status')?.type).toBe('app.Status');
+  });
+
+  it('should tolerate existing types with ifNotExists', () => {
+    const sql = serializeEnumType({ name: 'Status', values: ['a'] }, undefined, true);
+    expect(sql).toContain('DO $$ BEGIN');
+    expect(sql).toContain('WHEN duplicate_object THEN NULL;');
+  });
+
+  it('should fall back to TEXT for undeclared enums', () => {
+    const ddl = adapter.transform(parseSchema({ $type: 'User', status: 'enum<Status>' }));
+    expect(ddl.enumTypes).toBeUndefined();
+    expect(ddl.columns.find(c => c.name === 'status')?.type).toBe('TEXT');
+  });
+});
+
+describe('PostgresAdapter struct types', () => {
+  let adapter: PostgresAdapter;
+
+  beforeEach(() => {
+    adapter = new PostgresAdapter();
+  });
+
+  const schema = parseSchema({
+    $type: 'Customer',
+    $enums: { Kind: ['home', 'work'] },
+    $structs: {
+      Geo: { lat: 'double', lng: 'double' },
+      Address: { street: 'string!', kind: 'enum<Kind>', geo: 'struct<Geo>' },
+    },
+    address: 'struct<Address>?',
+    previous: 'struct<Address>[]',
+  });
+
+  it('should collect composite types with dependencies first', () => {
+    const ddl = adapter.transform(schema);
+    expect(ddl.compositeTypes?.map(t => t.name)).toEqual(['Geo', 'Address']);
+    expect(ddl.compositeTypes?.[1]?.attributes).toEqual([
+      { name: 'street', type: 'TEXT' },
+      { name: 'kind', type: 'Kind' },
+      { name: 'geo', type: 'Geo' },
+    ]);
+    expect(ddl.enumTypes).toEqual([{ name: 'Kind', values: ['home', 'work'] }]);
+  });
+
+  it('should type struct columns with the composite type name', () => {
+    const ddl = adapter.transform(schema);
+    expect(ddl.columns.find(c => c.name === 'address')?.type).toBe('Address');
+    expect(ddl.columns.find(c => c.name === 'previous')?.type).toBe('Address[]');
+  });
+
+  it('should emit enum and composite types before CREATE TABLE', () => {
+    const sql = adapter.serialize(adapter.transform(schema));
+    expect(sql).toContain('CREATE TYPE Geo AS (lat DOUBLE PRECISION, lng DOUBLE PRECISION);');
+    expect(sql).toContain('CREATE TYPE Address AS (street TEXT, kind Kind, geo Geo);');
+    expect(sql.indexOf('AS ENUM')).toBeLessThan(sql.indexOf('CREATE TYPE Geo'));
+    expect(sql.indexOf('CREATE TYPE Geo')).toBeLessThan(sql.indexOf('CREATE TYPE Address'));
+    expect(sql.indexOf('CREATE TYPE Address')).toBeLessThan(sql.indexOf('CREATE TABLE'));
+  });
+
+  it('should qualify composite types with the schema name', () => {
+    const ddl = adapter.transform(schema, { schema: 'app' });
+    expect(ddl.columns.find(c => c.name === 'address')?.type).toBe('app.Address');
+    expect(adapter.serialize(ddl)).toContain('CREATE TYPE app.Address AS (street TEXT, kind app.Kind, geo app.Geo);');
+  });
+
+  it('should store structs as JSONB when configured', () => {
+    const ddl = adapter.transform(schema, { structType: 'jsonb' });
+    expect(ddl.compositeTypes).toBeUndefined();
+    expect(ddl.enumTypes).toBeUndefined();
+    expect(ddl.columns.find(c => c.name === 'address')?.type).toBe('JSONB');
+    expect(ddl.columns.find(c => c.name === 'previous')?.type).toBe('JSONB[]');
+  });
+
+  it('should tolerate existing composite types with ifNotExists', () => {
+    const sql = serializeCompositeType({ name: 'Geo', attributes: [{ name: 'lat', type: 'DOUBLE PRECISION' }] }, undefined, true);
+    expect(sql).toContain('DO $$ BEGIN');
+    expect(sql).toContain('CREATE TYPE Geo AS (lat DOUBLE PRECISION);');
+  });
+});
+
+describe('PostgresAdapter field constraints', () => {
+  const schema = parseSchema({
+    $type: 'User',
+    $constraints: {
+      age: { min: 0, max: 150 },
+      slug: { pattern: '^[a-z0-9-]+$', maxLength: 64 },
+    },
+    age: 'int',
+    slug: 'string!',
+  });
+
+  it('should generate named CHECK constraints', () => {
+    const ddl = new PostgresAdapter().transform(schema);
+    expect(ddl.checkConstraints).toEqual([
+      { name: 'User_age_check', expression: 'age >= 0 AND age <= 150' },
+      { name: 'User_slug_check', expression: "char_length(slug) <= 64 AND slug ~ '^[a-z0-9-]+$'" },
+    ]);
+  });
+
+  it('should name constraints after the table name option', () => {
+    const adapter = new PostgresAdapter();
+    const sql = adapter.serialize(adapter.transform(schema, { tableName: 'users' }));
+    expect(sql).toContain('CONSTRAINT users_age_check CHECK (age >= 0 AND age <= 150)');
+  });
+
+  it('should not generate constraints for unconstrained schemas', () => {
+    const ddl = new PostgresAdapter().transform(parseSchema({ $type: 'User', age: 'int' }));
+    expect(ddl.checkConstraints).toBeUndefined();
+  });
+});
+
+describe('PostgresAdapter $ttl', () => {
+  const schema = parseSchema({
+    $type: 'Event',
+    $ttl: 'createdAt + 30d',
+    createdAt: 'timestamp!',
+  });
+
+  it('should generate a purge statement emitted as a comment', () => {
+    const adapter = new PostgresAdapter();
+    const ddl = adapter.transform(schema, { tableName: 'page_views' });
+
+    expect(ddl.ttlPurge).toBe("DELETE FROM page_views WHERE createdAt < CURRENT_TIMESTAMP - INTERVAL '30 days';");
+    expect(adapter.serialize(ddl)).toContain(
+      "\n\n-- Purge expired rows ($ttl); run on a schedule:\n-- DELETE FROM page_views WHERE createdAt < CURRENT_TIMESTAMP - INTERVAL '30 days';"
+    );
+  });
+
+  it('should schedule the purge with pg_cron', () => {
+    const adapter = new PostgresAdapter();
+    const sql = adapter.serialize(adapter.transform(schema, { tableName: 'page_views', schema: 'app', ttlSchedule: '0 3 * * *' }));
+
+    expect(sql).toContain(
+      "SELECT cron.schedule('app.page_views_ttl', '0 3 * * *', $$DELETE FROM app.page_views WHERE createdAt < CURRENT_TIMESTAMP - INTERVAL '30 days';$$);"
+    );
+  });
+
+  it('should not generate a purge for move-only TTLs', () => {
+    const moveOnly = parseSchema({
+      $type: 'Event',
+      $ttl: { field: 'createdAt', moveToVolume: { cold: '7d' } },
+      createdAt: 'timestamp!',
+    });
+
+    expect(new PostgresAdapter().transform(moveOnly).ttlPurge).toBeUndefined();
+  });
+});
+
+describe('PostgresAdapter $orderBy', () => {
+  it('should cluster the table on an index over the sort keys', () => {
+    const adapter = new PostgresAdapter();
+    const schema = parseSchema({
+      $type: 'Event',
+      $orderBy: ['day(createdAt) DESC', 'bucket(8, userId)', 'createdAt', 'name NULLS LAST'],
+      userId: 'uuid!',
+      name: 'string',
+      createdAt: 'timestamp!',
+    });
+
+    const ddl = adapter.transform(schema, { tableName: 'page_views', schema: 'app', ifNotExists: true });
+    expect(ddl.orderBy).toEqual(['createdAt DESC NULLS LAST', 'name ASC NULLS LAST']);
+    expect(adapter.serialize(ddl)).toContain(
+      [
+        'CREATE INDEX IF NOT EXISTS idx_page_views_order_by ON app.page_views (createdAt DESC NULLS LAST, name ASC NULLS LAST);',
+        'CLUSTER app.page_views USING idx_page_views_order_by;',
+      ].join('\n')
+    );
+  });
+
+  it('should not cluster tables sorted only by bucket keys', () => {
+    const schema = parseSchema({ $type: 'Event', $orderBy: ['bucket(8, id)'], id: 'uuid!' });
+    const ddl = new PostgresAdapter().transform(schema);
+
+    expect(ddl.orderBy).toBeUndefined();
+    expect(new PostgresAdapter().serialize(ddl)).not.toContain('CLUSTER');
+  });
+});
+
+describe('PostgresAdapter $partitionBy', () => {
+  it('should range partition by time transforms when partitioned', () => {
+    const adapter = new PostgresAdapter();
+    const schema = parseSchema({
+      $type: 'Event',
+      $partitionBy: ['month(createdAt)'],
+      email: 'string#',
+      createdAt: 'timestamp',
+    });
+
+    const ddl = adapter.transform(schema, { tableName: 'page_views', partitioned: true });
+    expect(ddl.partitionBy).toEqual({ strategy: 'RANGE', columns: ['createdAt'] });
+    expect(ddl.primaryKey).toEqual(['$id', 'createdAt']);
+    expect(ddl.uniqueConstraints).toEqual([['email', 'createdAt']]);
+
+    const sql = adapter.serialize(ddl);
+    expect(sql).toContain('UNIQUE (email, createdAt)');
+    expect(sql).not.toContain('email TEXT UNIQUE');
+    expect(sql).toContain(') PARTITION BY RANGE (createdAt);');
+    expect(sql).toContain('CREATE TABLE page_views_default PARTITION OF page_views DEFAULT;');
+  });
+
+  it('should leave CLUSTER as a comment on partitioned tables', () => {
+    const adapter = new PostgresAdapter();
+    const schema = parseSchema({
+      $type: 'Event',
+      $partitionBy: ['month(createdAt)'],
+      $orderBy: ['createdAt'],
+      createdAt: 'timestamp!',
+    });
+
+    const sql = adapter.serialize(adapter.transform(schema, { tableName: 'page_views', partitioned: true }));
+    expect(sql).toContain('CREATE INDEX idx_page_views_order_by ON page_views (createdAt ASC NULLS FIRST);');
+    expect(sql).toContain('-- CLUSTER page_views USING idx_page_views_order_by;');
+    expect(sql).not.toMatch(/^CLUSTER/m);
+  });
+
+  it('should hash partition by bucket keys and list partition by a single field', () => {
+    const adapter = new PostgresAdapter();
+    const bucketed = parseSchema({ $type: 'Event', $partitionBy: ['bucket(4, userId)'], userId: 'uuid!' });
+    const listed = parseSchema({ $type: 'Event', $partitionBy: ['tenantId'], tenantId: 'string!' });
+
+    const sql = adapter.serialize(adapter.transform(bucketed, { tableName: 'page_views', partitioned: true }));
+    expect(sql).toContain(') PARTITION BY HASH (userId);');
+    expect(sql).toContain('CREATE TABLE page_views_p0 PARTITION OF page_views FOR VALUES WITH (MODULUS 4, REMAINDER 0);');
+    expect(sql).toContain('CREATE TABLE page_views_p3 PARTITION OF page_views FOR VALUES WITH (MODULUS 4, REMAINDER 3);');
+
+    expect(adapter.transform(listed, { partitioned: true }).partitionBy).toEqual({
+      strategy: 'LIST',
+      columns: ['tenantId'],
+    });
+  });
+
+  it('should not partition unless asked to', () => {
+    const schema = parseSchema({ $type: 'Event', $partitionBy: ['day(createdAt)'], createdAt: 'timestamp!' });
+    const ddl = new PostgresAdapter().transform(schema);
+
+    expect(ddl.partitionBy).toBeUndefined();
+    expect(new PostgresAdapter().serialize(ddl)).not.toContain('PARTITION');
+  });
+});
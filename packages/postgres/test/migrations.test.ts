@@ -6,7 +6,9 @@
 
 import { describe, it, expect } from 'vitest';
 import type { SchemaDiff, SchemaChange, FieldDefinition } from '@icetype/core';
+import { parseSchema } from '@icetype/core';
 import { PostgresMigrationGenerator } from '../src/migrations.js';
+import { transformToPostgresDDL } from '../src/index.js';
 
 describe('PostgresMigrationGenerator', () => {
   const generator = new PostgresMigrationGenerator();
@@ -503,4 +505,35 @@ describe('PostgresMigrationGenerator', () => {
       expect(statements[0]).not.toContain('CONCURRENTLY');
     });
   });
+
+  describe('constraint operations', () => {
+    const diff = createDiff('users', [
+      { type: 'drop_constraint', field: 'age', constraints: { min: 0 } },
+      { type: 'add_constraint', field: 'age', constraints: { min: 0, max: 150 } },
+    ]);
+
+    it('should replace CHECK constraints', () => {
+      expect(generator.generate(diff)).toEqual([
+        'ALTER TABLE "users" DROP CONSTRAINT IF EXISTS users_age_check;',
+        'ALTER TABLE "users" ADD CONSTRAINT users_age_check CHECK ("age" >= 0 AND "age" <= 150);',
+      ]);
+    });
+
+    it('should restore the previous constraint on rollback', () => {
+      expect(generator.generateRollback(diff)).toEqual([
+        'ALTER TABLE "users" DROP CONSTRAINT IF EXISTS users_age_check;',
+        'ALTER TABLE "users" ADD CONSTRAINT users_age_check CHECK ("age" >= 0);',
+      ]);
+    });
+
+    it('should name constraints the way CREATE TABLE does', () => {
+      const schema = parseSchema({ $type: 'User', age: 'int', $constraints: { age: { min: 0 } } });
+      const statements = generator.generate(createDiff('User', [
+        { type: 'drop_constraint', field: 'age', constraints: { min: 0 } },
+      ]));
+
+      expect(transformToPostgresDDL(schema)).toContain('CONSTRAINT User_age_check CHECK');
+      expect(statements).toEqual(['ALTER TABLE "User" DROP CONSTRAINT IF EXISTS User_age_check;']);
+    });
+  });
 });
@@ -77,7 +77,10 @@ export function fieldToPrismaField(
   field: FieldDefinition,
   options?: PrismaExportOptions
 ): PrismaFieldOutput {
-  const prismaType = mapIceTypeToPrisma(field.type, options?.customTypeMappings);
+  const isEnum = field.enumName !== undefined && field.enumValues !== undefined;
+  const prismaType = isEnum
+    ? (field.enumName as string)
+    : mapIceTypeToPrisma(field.type, options?.customTypeMappings);
   const attributes: string[] = [];
 
   // Handle required with default generator for uuid type
@@ -93,8 +96,10 @@ export function fieldToPrismaField(
     attributes.push('@unique');
   }
 
-  // Handle default values
-  if (field.defaultValue !== undefined) {
+  // Handle default values - enum defaults are bare value identifiers
+  if (isEnum && typeof field.defaultValue === 'string') {
+    attributes.push(`@default(${toPrismaEnumValue(field.defaultValue)})`);
+  } else if (field.defaultValue !== undefined) {
     const defaultStr = formatPrismaDefault(field.defaultValue, field.type);
     if (defaultStr) {
       attributes.push(`@default(${defaultStr})`);
@@ -387,9 +392,26 @@ export function serializePrismaModel(model: PrismaModelOutput): string {
   return lines.join('\n');
 }
 
+/**
+ * Convert an enum value to a valid Prisma enum value identifier.
+ *
+ * Characters that are not allowed in identifiers are replaced with
+ * underscores, and a leading digit is prefixed with an underscore.
+ *
+ * @param value - The enum value
+ * @returns The Prisma identifier for the value
+ */
+export function toPrismaEnumValue(value: string): string {
+  const identifier = value.replace(/[^A-Za-z0-9_]/g, '_');
+  return /^[A-Za-z]/.test(identifier) ? identifier : `_${identifier}`;
+}
+
 /**
  * Serialize a Prisma enum to schema format.
  *
+ * Values that are not valid Prisma identifiers are emitted under a
+ * sanitized name with `@map` pointing at the original value.
+ *
  * @param prismaEnum - The Prisma enum output
  * @returns The serialized enum string
  */
@@ -397,7 +419,12 @@ export function serializePrismaEnum(prismaEnum: PrismaEnumOutput): string {
   const lines: string[] = [`enum ${prismaEnum.name} {`];
 
   for (const value of prismaEnum.values) {
-    lines.push(`  ${value}`);
+    const identifier = toPrismaEnumValue(value);
+    if (identifier === value) {
+      lines.push(`  ${value}`);
+    } else {
+      lines.push(`  ${identifier} @map("${value.replace(/"/g, '\\"')}")`);
+    }
   }
 
   lines.push('}');
@@ -405,6 +432,28 @@ export function serializePrismaEnum(prismaEnum: PrismaEnumOutput): string {
   return lines.join('\n');
 }
 
+/**
+ * Collect the enums referenced by fields of the given schemas.
+ *
+ * Enums are deduplicated by name, keeping the first declaration.
+ *
+ * @param schemas - The IceType schemas
+ * @returns The Prisma enum outputs, in order of first use
+ */
+export function collectPrismaEnums(schemas: IceTypeSchema[]): PrismaEnumOutput[] {
+  const enums = new Map<string, PrismaEnumOutput>();
+
+  for (const schema of schemas) {
+    for (const field of schema.fields.values()) {
+      if (field.enumName === undefined || field.enumValues === undefined) continue;
+      if (enums.has(field.enumName)) continue;
+      enums.set(field.enumName, { name: field.enumName, values: field.enumValues });
+    }
+  }
+
+  return [...enums.values()];
+}
+
 // =============================================================================
 // Main Export Functions
 // =============================================================================
@@ -445,6 +494,12 @@ export function generatePrismaSchema(
   parts.push(generateGeneratorBlock(options));
   parts.push('');
 
+  // Add enum definitions
+  for (const prismaEnum of collectPrismaEnums(schemas)) {
+    parts.push(serializePrismaEnum(prismaEnum));
+    parts.push('');
+  }
+
   // Add model definitions
   for (const schema of schemas) {
     const model = schemaToPrismaModel(schema, options);
@@ -467,7 +522,7 @@ export function generatePrismaSchemaOutput(
   options?: PrismaExportOptions
 ): PrismaSchemaOutput {
   const models: PrismaModelOutput[] = [];
-  const enums: PrismaEnumOutput[] = [];
+  const enums = collectPrismaEnums(schemas);
 
   for (const schema of schemas) {
     models.push(schemaToPrismaModel(schema, options));
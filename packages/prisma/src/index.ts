@@ -120,6 +120,8 @@ export {
   serializePrismaField,
   serializePrismaModel,
   serializePrismaEnum,
+  toPrismaEnumValue,
+  collectPrismaEnums,
 
   // Main export functions
   transformToPrisma,
@@ -28,6 +28,8 @@ import {
   serializePrismaField,
   serializePrismaModel,
   serializePrismaEnum,
+  toPrismaEnumValue,
+  collectPrismaEnums,
 
   // Main export functions
   transformToPrisma,
@@ -1074,3 +1076,37 @@ describe('Edge Cases', () => {
     expect(fieldNames).toContain('from');
   });
 });
+
+describe('Prisma enum export', () => {
+  const schema = parseSchema({
+    $type: 'User',
+    $enums: { Status: ['active', 'inactive'] },
+    status: "enum<Status> = 'active'",
+    history: 'enum<Status>[]',
+  });
+
+  it('should type enum fields with the enum name and a bare default', () => {
+    const field = fieldToPrismaField('status', schema.fields.get('status')!);
+    expect(field.type).toBe('Status');
+    expect(field.attributes).toContain('@default(active)');
+  });
+
+  it('should collect enums referenced by fields', () => {
+    expect(collectPrismaEnums([schema])).toEqual([{ name: 'Status', values: ['active', 'inactive'] }]);
+  });
+
+  it('should emit enum blocks in the generated schema', () => {
+    const output = generatePrismaSchemaOutput([schema]);
+    expect(output.enums).toHaveLength(1);
+    expect(output.schema).toContain('enum Status {\n  active\n  inactive\n}');
+    expect(output.schema).toContain('history Status[]');
+  });
+
+  it('should map values that are not valid identifiers', () => {
+    expect(toPrismaEnumValue('in-progress')).toBe('in_progress');
+    expect(toPrismaEnumValue('1st')).toBe('_1st');
+    expect(serializePrismaEnum({ name: 'Stage', values: ['in-progress'] })).toContain(
+      'in_progress @map("in-progress")'
+    );
+  });
+});
@@ -0,0 +1,450 @@
+/**
+ * Proto3 Generator
+ *
+ * Generates Protocol Buffers (proto3) files from IceType schemas. Field and
+ * enum value numbers come from a lock file so they stay stable as schemas change.
+ *
+ * @packageDocumentation
+ */
+
+import type { IceTypeSchema, FieldDefinition, SchemaAdapter } from '@icetype/core';
+
+import type {
+  ProtoEnum,
+  ProtoField,
+  ProtoFile,
+  ProtoLockFile,
+  ProtoMessage,
+  ProtoReserved,
+  ProtoExportOptions,
+} from './types.js';
+
+import { ICETYPE_TO_PROTO_MAP, WELL_KNOWN_TYPE_IMPORTS } from './types.js';
+
+import { assignProtoNumbers, createProtoLock } from './lock.js';
+
+import { VERSION } from './version.js';
+
+/** Proto types allowed as map keys */
+const MAP_KEY_TYPES = new Set(['string', 'int32', 'int64', 'bool']);
+
+/**
+ * State shared while generating one proto file.
+ */
+interface GenerationContext {
+  options: ProtoExportOptions;
+  previous: ProtoLockFile;
+  lock: ProtoLockFile;
+  enums: Map<string, ProtoEnum>;
+  messages: Map<string, ProtoMessage>;
+}
+
+// =============================================================================
+// Naming
+// =============================================================================
+
+/**
+ * Split a name into lowercase words (`createdAt` -> `created`, `at`).
+ */
+function words(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+}
+
+/**
+ * Convert a name to snake_case.
+ */
+function snakeCase(name: string): string {
+  return words(name).join('_');
+}
+
+/**
+ * Get the proto name of an enum value (`Status`, `inProgress` -> `STATUS_IN_PROGRESS`).
+ *
+ * Proto enum values share their scope with the enclosing package, so
+ * values are prefixed with the enum name.
+ */
+function enumValueName(enumName: string, value: string): string {
+  return `${snakeCase(enumName)}_${snakeCase(value)}`.toUpperCase();
+}
+
+// =============================================================================
+// Type Mapping
+// =============================================================================
+
+/**
+ * Map an IceType primitive type to a proto type.
+ *
+ * Unknown types map to `string`.
+ *
+ * @param iceType - The IceType type string
+ * @returns The proto type
+ */
+export function mapIceTypeToProto(iceType: string): string {
+  return ICETYPE_TO_PROTO_MAP[iceType.toLowerCase()] ?? 'string';
+}
+
+/**
+ * Get the proto type for a single value of a field, ignoring arrays.
+ */
+function valueType(field: FieldDefinition, context: GenerationContext): string {
+  if (field.relation) {
+    // Relations store the related record's ID
+    return 'string';
+  }
+
+  switch (field.type) {
+    case 'enum':
+      if (field.enumName && field.enumValues) {
+        addEnum(field.enumName, field.enumValues, context);
+        return field.enumName;
+      }
+      return 'string';
+    case 'struct':
+      if (field.structName && field.structFields) {
+        addMessage(field.structName, field.structFields, context);
+        return field.structName;
+      }
+      return 'google.protobuf.Struct';
+    case 'list':
+      return field.elementType ? mapIceTypeToProto(field.elementType) : 'string';
+    case 'map': {
+      const key = field.keyType ? mapIceTypeToProto(field.keyType) : 'string';
+      const value = field.valueType ? mapIceTypeToProto(field.valueType) : 'string';
+      return `map<${MAP_KEY_TYPES.has(key) ? key : 'string'}, ${value}>`;
+    }
+    case 'ref':
+      return 'string';
+    default:
+      return mapIceTypeToProto(field.type);
+  }
+}
+
+/**
+ * Build a proto field.
+ */
+function protoField(
+  field: FieldDefinition,
+  number: number,
+  context: GenerationContext
+): ProtoField {
+  let type = valueType(field, context);
+  const isMap = type.startsWith('map<');
+  const result: ProtoField = { name: fieldName(field.name, context.options), type, number };
+
+  if (field.isArray || field.type === 'list') {
+    if (isMap || (field.isArray && field.type === 'list')) {
+      // Maps cannot be repeated and repeated fields cannot nest
+      type = isMap ? 'google.protobuf.Struct' : 'google.protobuf.ListValue';
+      result.type = type;
+    }
+    result.label = 'repeated';
+  } else if (field.isOptional && !isMap) {
+    result.label = 'optional';
+  }
+
+  return result;
+}
+
+/**
+ * Get the proto name of a field.
+ */
+function fieldName(name: string, options: ProtoExportOptions): string {
+  return options.preserveFieldNames ? name : snakeCase(name);
+}
+
+/**
+ * Check whether a field is stored in messages.
+ *
+ * Backward relations (`<-`, `<~`) are derived from the other side and not stored.
+ */
+function isStored(field: FieldDefinition): boolean {
+  const operator = field.relation?.operator;
+  return operator !== '<-' && operator !== '<~';
+}
+
+// =============================================================================
+// Messages and Enums
+// =============================================================================
+
+/**
+ * Add a proto enum to the file, numbering its values from the lock.
+ */
+function addEnum(name: string, values: string[], context: GenerationContext): void {
+  if (context.enums.has(name)) {
+    return;
+  }
+
+  const entry = assignProtoNumbers(values, context.previous.enums[name]);
+  context.lock.enums[name] = entry;
+
+  context.enums.set(name, {
+    name,
+    values: [
+      // proto3 enums must start with a zero value, used when no value is set
+      { name: enumValueName(name, 'unspecified'), number: 0 },
+      ...values.map((value) => ({ name: enumValueName(name, value), number: entry.numbers[value]! })),
+    ],
+    reserved: {
+      numbers: entry.reserved,
+      names: entry.reservedNames.map((value) => enumValueName(name, value)),
+    },
+  });
+}
+
+/**
+ * Add a proto message to the file, numbering its fields from the lock.
+ */
+function addMessage(name: string, fields: Iterable<FieldDefinition>, context: GenerationContext): void {
+  if (context.messages.has(name)) {
+    return;
+  }
+
+  const stored = [...fields].filter(isStored);
+  const entry = assignProtoNumbers(stored.map((field) => field.name), context.previous.messages[name]);
+  context.lock.messages[name] = entry;
+
+  const reserved: ProtoReserved = {
+    numbers: entry.reserved,
+    names: entry.reservedNames.map((field) => fieldName(field, context.options)),
+  };
+  const message: ProtoMessage = { name, fields: [], reserved };
+
+  // Register before converting fields so the message precedes the structs
+  // it uses and recursive structs terminate
+  context.messages.set(name, message);
+  message.fields = stored.map((field) => protoField(field, entry.numbers[field.name]!, context));
+}
+
+// =============================================================================
+// File Generation
+// =============================================================================
+
+/**
+ * Generate a proto file for several IceType schemas.
+ *
+ * Each schema becomes a message; enums and structs they use become proto
+ * enums and messages. The returned file's `lock` holds the numbers used,
+ * merged with any entries of `options.lock` not used by this file.
+ *
+ * @param schemas - The IceType schemas to convert
+ * @param options - Generation options
+ * @returns The proto file
+ *
+ * @example
+ * ```typescript
+ * const lock = await loadProtoLock('./users.proto.lock');
+ * const file = generateProtoFile([userSchema, postSchema], { package: 'example.v1', lock });
+ *
+ * await writeFile('./users.proto', serializeProto(file));
+ * await saveProtoLock('./users.proto.lock', file.lock);
+ * ```
+ */
+export function generateProtoFile(schemas: IceTypeSchema[], options: ProtoExportOptions = {}): ProtoFile {
+  const previous = options.lock ?? createProtoLock();
+  const context: GenerationContext = {
+    options,
+    previous,
+    lock: {
+      version: 1,
+      messages: { ...previous.messages },
+      enums: { ...previous.enums },
+    },
+    enums: new Map(),
+    messages: new Map(),
+  };
+
+  for (const schema of schemas) {
+    addMessage(schema.name, schema.fields.values(), context);
+  }
+
+  const messages = [...context.messages.values()];
+  const imports = new Set<string>();
+  for (const message of messages) {
+    for (const field of message.fields) {
+      for (const [type, file] of Object.entries(WELL_KNOWN_TYPE_IMPORTS)) {
+        if (field.type === type || field.type.includes(` ${type}>`)) {
+          imports.add(file);
+        }
+      }
+    }
+  }
+
+  const file: ProtoFile = {
+    syntax: 'proto3',
+    imports: [...imports].sort(),
+    options: { ...options.options },
+    enums: [...context.enums.values()],
+    messages,
+    lock: context.lock,
+  };
+  if (options.package) {
+    file.package = options.package;
+  }
+  return file;
+}
+
+/**
+ * Generate a proto file for a single IceType schema.
+ *
+ * @param schema - The IceType schema to convert
+ * @param options - Generation options
+ * @returns The proto file
+ */
+export function schemaToProto(schema: IceTypeSchema, options: ProtoExportOptions = {}): ProtoFile {
+  return generateProtoFile([schema], options);
+}
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+/**
+ * Serialize `reserved` statements, if there are any.
+ */
+function serializeReserved(reserved: ProtoReserved): string[] {
+  const lines: string[] = [];
+  if (reserved.numbers.length > 0) {
+    lines.push(`  reserved ${reserved.numbers.join(', ')};`);
+  }
+  if (reserved.names.length > 0) {
+    lines.push(`  reserved ${reserved.names.map((name) => `"${name}"`).join(', ')};`);
+  }
+  if (lines.length > 0) {
+    lines.push('');
+  }
+  return lines;
+}
+
+/**
+ * Serialize a proto enum.
+ *
+ * @param protoEnum - The enum
+ * @returns The enum definition
+ */
+export function serializeProtoEnum(protoEnum: ProtoEnum): string {
+  const lines = [`enum ${protoEnum.name} {`, ...serializeReserved(protoEnum.reserved)];
+  for (const value of protoEnum.values) {
+    lines.push(`  ${value.name} = ${value.number};`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Serialize a proto message.
+ *
+ * @param message - The message
+ * @returns The message definition
+ */
+export function serializeProtoMessage(message: ProtoMessage): string {
+  const lines = [`message ${message.name} {`, ...serializeReserved(message.reserved)];
+  for (const field of message.fields) {
+    const label = field.label ? `${field.label} ` : '';
+    lines.push(`  ${label}${field.type} ${field.name} = ${field.number};`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Serialize a proto file.
+ *
+ * @param file - The proto file
+ * @returns The .proto file contents
+ */
+export function serializeProto(file: ProtoFile): string {
+  const sections: string[] = [];
+
+  sections.push('// Generated by @icetype/protobuf. Field numbers are kept in the lock file.');
+  sections.push(`syntax = "${file.syntax}";`);
+
+  if (file.package) {
+    sections.push(`package ${file.package};`);
+  }
+  if (file.imports.length > 0) {
+    sections.push(file.imports.map((path) => `import "${path}";`).join('\n'));
+  }
+  const options = Object.entries(file.options);
+  if (options.length > 0) {
+    sections.push(options.map(([name, value]) => `option ${name} = "${value}";`).join('\n'));
+  }
+
+  for (const protoEnum of file.enums) {
+    sections.push(serializeProtoEnum(protoEnum));
+  }
+  for (const message of file.messages) {
+    sections.push(serializeProtoMessage(message));
+  }
+
+  return sections.join('\n\n') + '\n';
+}
+
+// =============================================================================
+// Protobuf Adapter Class
+// =============================================================================
+
+/**
+ * Adapter for transforming IceType schemas to proto3 files.
+ *
+ * Implements the SchemaAdapter interface for consistency with other adapters.
+ *
+ * @example
+ * ```typescript
+ * import { parseSchema } from '@icetype/core';
+ * import { ProtobufAdapter } from '@icetype/protobuf';
+ *
+ * const schema = parseSchema({
+ *   $type: 'User',
+ *   id: 'uuid!',
+ *   email: 'string#',
+ * });
+ *
+ * const adapter = new ProtobufAdapter();
+ * const file = adapter.transform(schema, { package: 'example.v1' });
+ * const proto = adapter.serialize(file);
+ * // Persist file.lock to keep field numbers stable
+ * ```
+ */
+export class ProtobufAdapter implements SchemaAdapter<ProtoFile, ProtoExportOptions> {
+  readonly name = 'protobuf';
+  readonly version = VERSION;
+
+  /**
+   * Transform an IceType schema to a proto file.
+   *
+   * @param schema - The IceType schema to transform
+   * @param options - Optional generation options
+   * @returns Proto file, including the updated lock
+   */
+  transform(schema: IceTypeSchema, options?: ProtoExportOptions): ProtoFile {
+    return schemaToProto(schema, options);
+  }
+
+  /**
+   * Serialize a proto file.
+   *
+   * @param output - The proto file to serialize
+   * @returns The .proto file contents
+   */
+  serialize(output: ProtoFile): string {
+    return serializeProto(output);
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+/**
+ * Create a new Protobuf adapter instance.
+ *
+ * @returns A new ProtobufAdapter instance
+ */
+export function createProtobufAdapter(): ProtobufAdapter {
+  return new ProtobufAdapter();
+}
@@ -0,0 +1,98 @@
+/**
+ * @icetype/protobuf
+ *
+ * Protocol Buffers adapter for IceType.
+ *
+ * This package provides functionality to:
+ * - Generate proto3 messages and enums from IceType schemas
+ * - Keep field numbers stable across schema changes with a lock file
+ * - Reserve the numbers and names of removed fields
+ *
+ * @example
+ * ```typescript
+ * import { writeFile } from 'node:fs/promises';
+ * import { parseSchema } from '@icetype/core';
+ * import { generateProtoFile, serializeProto, loadProtoLock, saveProtoLock } from '@icetype/protobuf';
+ *
+ * const schema = parseSchema({
+ *   $type: 'User',
+ *   id: 'uuid!',
+ *   email: 'string#',
+ *   createdAt: 'timestamp!',
+ * });
+ *
+ * const lock = await loadProtoLock('./user.proto.lock');
+ * const file = generateProtoFile([schema], { package: 'example.v1', lock });
+ *
+ * await writeFile('./user.proto', serializeProto(file));
+ * await saveProtoLock('./user.proto.lock', file.lock);
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type {
+  // Proto file types
+  ProtoField,
+  ProtoReserved,
+  ProtoMessage,
+  ProtoEnumValue,
+  ProtoEnum,
+  ProtoFile,
+  // Lock file types
+  ProtoLockEntry,
+  ProtoLockFile,
+  // Export options
+  ProtoExportOptions,
+  // Mapping config
+  ProtoTypeMappingConfig,
+} from './types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export {
+  ICETYPE_TO_PROTO_MAPPINGS,
+  ICETYPE_TO_PROTO_MAP,
+  WELL_KNOWN_TYPE_IMPORTS,
+} from './types.js';
+
+// =============================================================================
+// Generation (IceType -> proto3)
+// =============================================================================
+
+export {
+  // Type mapping functions
+  mapIceTypeToProto,
+
+  // File generation
+  schemaToProto,
+  generateProtoFile,
+
+  // Serialization
+  serializeProto,
+  serializeProtoMessage,
+  serializeProtoEnum,
+
+  // Adapter class and factory
+  ProtobufAdapter,
+  createProtobufAdapter,
+} from './generator.js';
+
+// =============================================================================
+// Lock File
+// =============================================================================
+
+export {
+  createProtoLock,
+  parseProtoLock,
+  serializeProtoLock,
+  loadProtoLock,
+  saveProtoLock,
+  assignProtoNumbers,
+} from './lock.js';
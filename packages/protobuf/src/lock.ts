@@ -0,0 +1,164 @@
+/**
+ * Proto Lock File
+ *
+ * Keeps proto field numbers stable across schema changes. Each message and
+ * enum records the number assigned to every field or value; removed entries
+ * move to `reserved` so their numbers are never reused.
+ *
+ * @packageDocumentation
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { AdapterError, ErrorCodes, IceTypeError } from '@icetype/core';
+
+import type { ProtoLockEntry, ProtoLockFile } from './types.js';
+
+/** Field numbers reserved for the protobuf implementation */
+const IMPLEMENTATION_RESERVED_START = 19000;
+const IMPLEMENTATION_RESERVED_END = 19999;
+
+// =============================================================================
+// Lock File I/O
+// =============================================================================
+
+/**
+ * Create an empty lock file.
+ *
+ * @returns A lock file with no entries
+ */
+export function createProtoLock(): ProtoLockFile {
+  return { version: 1, messages: {}, enums: {} };
+}
+
+/**
+ * Parse a lock file from JSON.
+ *
+ * @param content - Lock file contents
+ * @returns The parsed lock file
+ * @throws {IceTypeError} If the content is not valid JSON
+ * @throws {AdapterError} If the content is not a version 1 lock file
+ */
+export function parseProtoLock(content: string): ProtoLockFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new IceTypeError(`Invalid proto lock file: ${(error as Error).message}`, {
+      code: ErrorCodes.JSON_PARSE_ERROR,
+      cause: error as Error,
+    });
+  }
+
+  const lock = parsed as Partial<ProtoLockFile> | null;
+  if (
+    typeof lock !== 'object' ||
+    lock === null ||
+    lock.version !== 1 ||
+    typeof lock.messages !== 'object' ||
+    typeof lock.enums !== 'object'
+  ) {
+    throw new AdapterError('Unsupported proto lock file: expected { version: 1, messages, enums }', {
+      adapterName: 'protobuf',
+      operation: 'lock',
+      code: ErrorCodes.INVALID_ADAPTER_CONFIG,
+    });
+  }
+  return lock as ProtoLockFile;
+}
+
+/**
+ * Serialize a lock file as JSON.
+ *
+ * @param lock - The lock file
+ * @returns Pretty-printed JSON with a trailing newline
+ */
+export function serializeProtoLock(lock: ProtoLockFile): string {
+  return JSON.stringify(lock, null, 2) + '\n';
+}
+
+/**
+ * Read a lock file, or create an empty one if the file does not exist.
+ *
+ * @param filePath - Path to the lock file
+ * @returns The lock file
+ */
+export async function loadProtoLock(filePath: string): Promise<ProtoLockFile> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return createProtoLock();
+    }
+    throw error;
+  }
+  return parseProtoLock(content);
+}
+
+/**
+ * Write a lock file.
+ *
+ * @param filePath - Path to the lock file
+ * @param lock - The lock file
+ */
+export async function saveProtoLock(filePath: string, lock: ProtoLockFile): Promise<void> {
+  await writeFile(filePath, serializeProtoLock(lock));
+}
+
+// =============================================================================
+// Number Assignment
+// =============================================================================
+
+/**
+ * Assign numbers to a message's fields or an enum's values.
+ *
+ * Names already in `previous` keep their numbers. Names missing from `names`
+ * are reserved. New names get numbers above every number used or reserved so
+ * far, skipping the range reserved for the protobuf implementation; a new name
+ * that was reserved earlier is released, but its old number stays reserved.
+ *
+ * @param names - Current field names or enum values, in declaration order
+ * @param previous - The entry from the previous lock file, if any
+ * @param first - The lowest number to assign (1 for fields and enum values)
+ * @returns The updated entry
+ */
+export function assignProtoNumbers(
+  names: string[],
+  previous: ProtoLockEntry | undefined,
+  first: number = 1
+): ProtoLockEntry {
+  const previousNumbers = previous?.numbers ?? {};
+  const reserved = new Set(previous?.reserved ?? []);
+  const reservedNames = new Set(previous?.reservedNames ?? []);
+  const numbers = new Map<string, number>();
+
+  for (const name of names) {
+    const number = previousNumbers[name];
+    if (number !== undefined) {
+      numbers.set(name, number);
+    }
+  }
+
+  for (const [name, number] of Object.entries(previousNumbers)) {
+    if (!numbers.has(name)) {
+      reserved.add(number);
+      reservedNames.add(name);
+    }
+  }
+
+  let next = Math.max(first - 1, ...Object.values(previousNumbers), ...reserved) + 1;
+  for (const name of names) {
+    if (numbers.has(name)) continue;
+    if (next >= IMPLEMENTATION_RESERVED_START && next <= IMPLEMENTATION_RESERVED_END) {
+      next = IMPLEMENTATION_RESERVED_END + 1;
+    }
+    numbers.set(name, next++);
+    reservedNames.delete(name);
+  }
+
+  return {
+    numbers: Object.fromEntries([...numbers].sort((a, b) => a[1] - b[1])),
+    reserved: [...reserved].sort((a, b) => a - b),
+    reservedNames: [...reservedNames].sort(),
+  };
+}
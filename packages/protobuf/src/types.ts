@@ -0,0 +1,197 @@
+/**
+ * Type definitions for Protocol Buffers (proto3) generation
+ *
+ * @packageDocumentation
+ */
+
+// =============================================================================
+// Proto File Types
+// =============================================================================
+
+/**
+ * A field of a proto message
+ */
+export interface ProtoField {
+  /** Field name as written in the .proto file */
+  name: string;
+  /** Proto type (scalar, message, enum or `map<K, V>`) */
+  type: string;
+  /** Field number */
+  number: number;
+  /** Field label, if any */
+  label?: 'optional' | 'repeated';
+}
+
+/**
+ * Reserved field numbers and names of a message or enum
+ */
+export interface ProtoReserved {
+  numbers: number[];
+  names: string[];
+}
+
+/**
+ * A proto message
+ */
+export interface ProtoMessage {
+  name: string;
+  fields: ProtoField[];
+  reserved: ProtoReserved;
+}
+
+/**
+ * A value of a proto enum
+ */
+export interface ProtoEnumValue {
+  name: string;
+  number: number;
+}
+
+/**
+ * A proto enum
+ */
+export interface ProtoEnum {
+  name: string;
+  values: ProtoEnumValue[];
+  reserved: ProtoReserved;
+}
+
+/**
+ * A generated proto3 file
+ */
+export interface ProtoFile {
+  syntax: 'proto3';
+  /** Proto package, if set */
+  package?: string;
+  /** Imported .proto files (well-known types) */
+  imports: string[];
+  /** File options (e.g. `go_package`) */
+  options: Record<string, string>;
+  enums: ProtoEnum[];
+  messages: ProtoMessage[];
+  /**
+   * The lock file updated with the numbers used by this file.
+   * Persist it so later generations keep the same numbers.
+   */
+  lock: ProtoLockFile;
+}
+
+// =============================================================================
+// Lock File Types
+// =============================================================================
+
+/**
+ * Numbers assigned to the fields of one message, or the values of one enum
+ */
+export interface ProtoLockEntry {
+  /** IceType field name (or enum value) to number */
+  numbers: Record<string, number>;
+  /** Numbers of removed fields or values, never to be reused */
+  reserved: number[];
+  /** IceType names of removed fields or values */
+  reservedNames: string[];
+}
+
+/**
+ * Lock file recording proto field numbers across generations.
+ *
+ * Field numbers identify fields on the wire, so a field must keep its number
+ * for as long as it exists and a removed field's number must never be reused.
+ */
+export interface ProtoLockFile {
+  version: 1;
+  /** Entries keyed by message name */
+  messages: Record<string, ProtoLockEntry>;
+  /** Entries keyed by enum name */
+  enums: Record<string, ProtoLockEntry>;
+}
+
+// =============================================================================
+// Export Options
+// =============================================================================
+
+/**
+ * Options for proto generation
+ */
+export interface ProtoExportOptions {
+  /**
+   * Proto package (e.g. `example.users.v1`)
+   */
+  package?: string;
+
+  /**
+   * File options, written as `option <name> = "<value>";`
+   * (e.g. `{ go_package: 'example.com/gen/users' }`)
+   */
+  options?: Record<string, string>;
+
+  /**
+   * Lock file from a previous generation. Fields keep their numbers and
+   * removed fields become `reserved`. Without a lock, numbers are assigned
+   * in declaration order.
+   */
+  lock?: ProtoLockFile;
+
+  /**
+   * Whether to keep IceType field names instead of converting them to snake_case
+   * @default false
+   */
+  preserveFieldNames?: boolean;
+}
+
+// =============================================================================
+// Type Mapping
+// =============================================================================
+
+/**
+ * Mapping configuration between IceType primitives and proto types
+ */
+export interface ProtoTypeMappingConfig {
+  /** IceType primitive type */
+  icetype: string;
+  /** Corresponding proto type */
+  proto: string;
+}
+
+/**
+ * Mapping table for IceType primitive types to proto types
+ */
+export const ICETYPE_TO_PROTO_MAPPINGS: ProtoTypeMappingConfig[] = [
+  { icetype: 'string', proto: 'string' },
+  { icetype: 'text', proto: 'string' },
+  { icetype: 'varchar', proto: 'string' },
+  { icetype: 'char', proto: 'string' },
+  { icetype: 'uuid', proto: 'string' },
+  { icetype: 'int', proto: 'int32' },
+  { icetype: 'long', proto: 'int64' },
+  { icetype: 'bigint', proto: 'int64' },
+  { icetype: 'float', proto: 'float' },
+  { icetype: 'double', proto: 'double' },
+  { icetype: 'bool', proto: 'bool' },
+  { icetype: 'boolean', proto: 'bool' },
+  { icetype: 'timestamp', proto: 'google.protobuf.Timestamp' },
+  { icetype: 'timestamptz', proto: 'google.protobuf.Timestamp' },
+  { icetype: 'date', proto: 'string' },
+  { icetype: 'time', proto: 'string' },
+  { icetype: 'decimal', proto: 'string' },
+  { icetype: 'json', proto: 'google.protobuf.Value' },
+  { icetype: 'binary', proto: 'bytes' },
+  { icetype: 'fixed', proto: 'bytes' },
+];
+
+/**
+ * Map of IceType primitive types to proto types
+ */
+export const ICETYPE_TO_PROTO_MAP: Record<string, string> = Object.fromEntries(
+  ICETYPE_TO_PROTO_MAPPINGS.map((m) => [m.icetype, m.proto])
+);
+
+/**
+ * Well-known types and the files that define them
+ */
+export const WELL_KNOWN_TYPE_IMPORTS: Record<string, string> = {
+  'google.protobuf.Timestamp': 'google/protobuf/timestamp.proto',
+  'google.protobuf.Value': 'google/protobuf/struct.proto',
+  'google.protobuf.ListValue': 'google/protobuf/struct.proto',
+  'google.protobuf.Struct': 'google/protobuf/struct.proto',
+};
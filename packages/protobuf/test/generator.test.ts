@@ -0,0 +1,206 @@
+/**
+ * Tests for proto3 generation
+ *
+ * Tests the conversion of IceType schemas to proto messages and enums.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSchema } from '@icetype/core';
+
+import {
+  schemaToProto,
+  generateProtoFile,
+  serializeProto,
+  mapIceTypeToProto,
+  ProtobufAdapter,
+  createProtobufAdapter,
+} from '../src/index.js';
+
+function fieldsOf(definition: Record<string, unknown>) {
+  return schemaToProto(parseSchema({ $type: 'Test', ...definition })).messages[0]!.fields;
+}
+
+// =============================================================================
+// Type Mapping
+// =============================================================================
+
+describe('type mapping', () => {
+  it('should map primitive types', () => {
+    expect(mapIceTypeToProto('string')).toBe('string');
+    expect(mapIceTypeToProto('int')).toBe('int32');
+    expect(mapIceTypeToProto('long')).toBe('int64');
+    expect(mapIceTypeToProto('bool')).toBe('bool');
+    expect(mapIceTypeToProto('binary')).toBe('bytes');
+    expect(mapIceTypeToProto('unknown')).toBe('string');
+  });
+
+  it('should use well-known types for timestamps and json', () => {
+    const file = schemaToProto(parseSchema({ $type: 'Event', at: 'timestamp!', payload: 'json' }));
+
+    expect(file.messages[0]!.fields.map((f) => f.type)).toEqual([
+      'google.protobuf.Timestamp',
+      'google.protobuf.Value',
+    ]);
+    expect(file.imports).toEqual(['google/protobuf/struct.proto', 'google/protobuf/timestamp.proto']);
+  });
+
+  it('should convert field names to snake_case', () => {
+    const fields = fieldsOf({ createdAt: 'timestamp!', userID: 'string!' });
+    expect(fields.map((f) => f.name)).toEqual(['created_at', 'user_id']);
+  });
+
+  it('should keep field names with preserveFieldNames', () => {
+    const file = schemaToProto(parseSchema({ $type: 'Test', createdAt: 'timestamp!' }), {
+      preserveFieldNames: true,
+    });
+    expect(file.messages[0]!.fields[0]!.name).toBe('createdAt');
+  });
+});
+
+// =============================================================================
+// Labels
+// =============================================================================
+
+describe('labels', () => {
+  it('should mark optional and repeated fields', () => {
+    const fields = fieldsOf({ name: 'string!', nickname: 'string?', tags: 'string[]', scores: 'list<double>' });
+
+    expect(fields).toEqual([
+      { name: 'name', type: 'string', number: 1 },
+      { name: 'nickname', type: 'string', number: 2, label: 'optional' },
+      { name: 'tags', type: 'string', number: 3, label: 'repeated' },
+      { name: 'scores', type: 'double', number: 4, label: 'repeated' },
+    ]);
+  });
+
+  it('should generate map fields without labels', () => {
+    const fields = fieldsOf({ counts: 'map<string, int>?', flags: 'map<double, bool>' });
+
+    expect(fields[0]).toEqual({ name: 'counts', type: 'map<string, int32>', number: 1 });
+    expect(fields[1]!.type).toBe('map<string, bool>');
+  });
+});
+
+// =============================================================================
+// Enums and Structs
+// =============================================================================
+
+describe('enums and structs', () => {
+  it('should generate prefixed enums with a zero value', () => {
+    const file = schemaToProto(
+      parseSchema({ $type: 'Order', $enums: { OrderStatus: ['pending', 'inTransit'] }, status: 'enum<OrderStatus>!' })
+    );
+
+    expect(file.messages[0]!.fields[0]!.type).toBe('OrderStatus');
+    expect(file.enums).toEqual([
+      {
+        name: 'OrderStatus',
+        values: [
+          { name: 'ORDER_STATUS_UNSPECIFIED', number: 0 },
+          { name: 'ORDER_STATUS_PENDING', number: 1 },
+          { name: 'ORDER_STATUS_IN_TRANSIT', number: 2 },
+        ],
+        reserved: { numbers: [], names: [] },
+      },
+    ]);
+  });
+
+  it('should generate structs as messages after the schema message', () => {
+    const file = schemaToProto(
+      parseSchema({
+        $type: 'Customer',
+        $structs: { Address: { city: 'string!', zip: 'string?' } },
+        billing: 'struct<Address>!',
+        shipping: 'struct<Address>[]',
+      })
+    );
+
+    expect(file.messages.map((m) => m.name)).toEqual(['Customer', 'Address']);
+    expect(file.messages[0]!.fields.map((f) => [f.type, f.label])).toEqual([
+      ['Address', undefined],
+      ['Address', 'repeated'],
+    ]);
+  });
+});
+
+// =============================================================================
+// Relations
+// =============================================================================
+
+describe('relations', () => {
+  it('should store forward relations as IDs and skip backward relations', () => {
+    const fields = fieldsOf({
+      author: '-> User!',
+      reviewers: '-> User[]',
+      comments: '<- Comment.post[]',
+    });
+
+    expect(fields).toEqual([
+      { name: 'author', type: 'string', number: 1 },
+      { name: 'reviewers', type: 'string', number: 2, label: 'repeated' },
+    ]);
+  });
+});
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+describe('serializeProto', () => {
+  it('should serialize a complete file', () => {
+    const file = generateProtoFile(
+      [
+        parseSchema({
+          $type: 'User',
+          $enums: { Role: ['admin', 'member'] },
+          id: 'uuid!',
+          role: 'enum<Role>!',
+          createdAt: 'timestamp!',
+        }),
+      ],
+      { package: 'example.v1', options: { go_package: 'example.com/gen/v1' } }
+    );
+
+    expect(serializeProto(file)).toBe(
+      [
+        '// Generated by @icetype/protobuf. Field numbers are kept in the lock file.',
+        '',
+        'syntax = "proto3";',
+        '',
+        'package example.v1;',
+        '',
+        'import "google/protobuf/timestamp.proto";',
+        '',
+        'option go_package = "example.com/gen/v1";',
+        '',
+        'enum Role {',
+        '  ROLE_UNSPECIFIED = 0;',
+        '  ROLE_ADMIN = 1;',
+        '  ROLE_MEMBER = 2;',
+        '}',
+        '',
+        'message User {',
+        '  string id = 1;',
+        '  Role role = 2;',
+        '  google.protobuf.Timestamp created_at = 3;',
+        '}',
+        '',
+      ].join('\n')
+    );
+  });
+});
+
+// =============================================================================
+// Adapter
+// =============================================================================
+
+describe('ProtobufAdapter', () => {
+  it('should transform and serialize', () => {
+    const adapter = createProtobufAdapter();
+    expect(adapter).toBeInstanceOf(ProtobufAdapter);
+    expect(adapter.name).toBe('protobuf');
+
+    const file = adapter.transform(parseSchema({ $type: 'Tag', name: 'string!' }));
+    expect(adapter.serialize(file)).toContain('message Tag {\n  string name = 1;\n}');
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for the proto lock file
+ *
+ * Tests that field numbers stay stable across schema changes.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseSchema, AdapterError, IceTypeError } from '@icetype/core';
+
+import {
+  generateProtoFile,
+  serializeProtoMessage,
+  assignProtoNumbers,
+  createProtoLock,
+  parseProtoLock,
+  serializeProtoLock,
+  loadProtoLock,
+  saveProtoLock,
+} from '../src/index.js';
+
+// =============================================================================
+// assignProtoNumbers
+// =============================================================================
+
+describe('assignProtoNumbers', () => {
+  it('should number new names in order', () => {
+    expect(assignProtoNumbers(['a', 'b', 'c'], undefined)).toEqual({
+      numbers: { a: 1, b: 2, c: 3 },
+      reserved: [],
+      reservedNames: [],
+    });
+  });
+
+  it('should keep numbers when fields are reordered', () => {
+    const first = assignProtoNumbers(['a', 'b', 'c'], undefined);
+    expect(assignProtoNumbers(['c', 'a', 'b'], first).numbers).toEqual({ a: 1, b: 2, c: 3 });
+  });
+
+  it('should reserve removed names and never reuse their numbers', () => {
+    const first = assignProtoNumbers(['a', 'b', 'c'], undefined);
+    const second = assignProtoNumbers(['a', 'b'], first);
+    expect(second).toEqual({ numbers: { a: 1, b: 2 }, reserved: [3], reservedNames: ['c'] });
+
+    const third = assignProtoNumbers(['a', 'b', 'd'], second);
+    expect(third.numbers).toEqual({ a: 1, b: 2, d: 4 });
+  });
+
+  it('should give a re-added name a new number', () => {
+    const removed = assignProtoNumbers(['a'], assignProtoNumbers(['a', 'b'], undefined));
+    const readded = assignProtoNumbers(['a', 'b'], removed);
+
+    expect(readded).toEqual({ numbers: { a: 1, b: 3 }, reserved: [2], reservedNames: [] });
+  });
+
+  it('should skip the implementation reserved range', () => {
+    const previous = { numbers: { a: 18999 }, reserved: [], reservedNames: [] };
+    expect(assignProtoNumbers(['a', 'b'], previous).numbers.b).toBe(20000);
+  });
+});
+
+// =============================================================================
+// Generation with a lock
+// =============================================================================
+
+describe('generateProtoFile with a lock', () => {
+  it('should keep field numbers and reserve removed fields', () => {
+    const v1 = parseSchema({ $type: 'User', id: 'uuid!', email: 'string!', name: 'string?' });
+    const v2 = parseSchema({ $type: 'User', id: 'uuid!', displayName: 'string?', name: 'string?' });
+
+    const first = generateProtoFile([v1]);
+    const second = generateProtoFile([v2], { lock: first.lock });
+
+    expect(serializeProtoMessage(second.messages[0]!)).toBe(
+      [
+        'message User {',
+        '  reserved 2;',
+        '  reserved "email";',
+        '',
+        '  string id = 1;',
+        '  optional string display_name = 4;',
+        '  optional string name = 3;',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  it('should reserve removed enum values', () => {
+    const v1 = parseSchema({ $type: 'Task', $enums: { State: ['open', 'blocked', 'done'] }, state: 'enum<State>!' });
+    const v2 = parseSchema({ $type: 'Task', $enums: { State: ['open', 'done'] }, state: 'enum<State>!' });
+
+    const second = generateProtoFile([v2], { lock: generateProtoFile([v1]).lock });
+
+    expect(second.enums[0]).toEqual({
+      name: 'State',
+      values: [
+        { name: 'STATE_UNSPECIFIED', number: 0 },
+        { name: 'STATE_OPEN', number: 1 },
+        { name: 'STATE_DONE', number: 3 },
+      ],
+      reserved: { numbers: [2], names: ['STATE_BLOCKED'] },
+    });
+  });
+
+  it('should keep entries for messages not in the file', () => {
+    const lock = generateProtoFile([parseSchema({ $type: 'Legacy', id: 'uuid!' })]).lock;
+    const file = generateProtoFile([parseSchema({ $type: 'User', id: 'uuid!' })], { lock });
+
+    expect(Object.keys(file.lock.messages).sort()).toEqual(['Legacy', 'User']);
+  });
+});
+
+// =============================================================================
+// Lock File I/O
+// =============================================================================
+
+describe('lock file I/O', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('should round-trip through JSON', () => {
+    const lock = generateProtoFile([parseSchema({ $type: 'User', id: 'uuid!' })]).lock;
+    expect(parseProtoLock(serializeProtoLock(lock))).toEqual(lock);
+  });
+
+  it('should reject invalid lock files', () => {
+    expect(() => parseProtoLock('{')).toThrow(IceTypeError);
+    expect(() => parseProtoLock('{"version":2,"messages":{},"enums":{}}')).toThrow(AdapterError);
+  });
+
+  it('should return an empty lock for a missing file and save to disk', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'icetype-proto-'));
+    const path = join(dir, 'schema.proto.lock');
+
+    expect(await loadProtoLock(path)).toEqual(createProtoLock());
+
+    const lock = generateProtoFile([parseSchema({ $type: 'User', id: 'uuid!' })]).lock;
+    await saveProtoLock(path, lock);
+    expect(await loadProtoLock(path)).toEqual(lock);
+  });
+});
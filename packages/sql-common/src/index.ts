@@ -8,7 +8,18 @@
  * @packageDocumentation
  */
 
-import { SYSTEM_COLUMNS } from '@icetype/core';
+import {
+  SYSTEM_COLUMNS,
+  generateCheckExpression,
+  generateTtlPurgeStatement,
+  getCheckConstraintName,
+  hasFieldConstraints,
+  type FieldDefinition,
+  type OrderByField,
+  type TtlDirective,
+  type TtlPurgeDialect,
+} from '@icetype/core';
+import type { CheckConstraint } from './serialize.js';
 
 // =============================================================================
 // Types
@@ -635,6 +646,143 @@ export function generateIndexStatements(
   return statements;
 }
 
+// =============================================================================
+// Enum Values
+// =============================================================================
+
+/**
+ * Format enum values as a comma-separated list of SQL string literals.
+ *
+ * Used for `ENUM(...)` type definitions and `IN (...)` check expressions.
+ *
+ * @param values - The enum values
+ * @returns The SQL value list (e.g., "'active', 'inactive'")
+ */
+export function formatEnumValues(values: string[]): string {
+  return values.map((value) => `'${value.replace(/'/g, "''")}'`).join(', ');
+}
+
+// =============================================================================
+// Field Constraints
+// =============================================================================
+
+/**
+ * Generate a named CHECK constraint from a field's `$constraints` entry.
+ *
+ * Array fields are not constrained, and SQLite omits `pattern` and
+ * `format` since it has no built-in regular expression function.
+ *
+ * @param tableName - The table name, used to name the constraint
+ * @param columnName - The column name
+ * @param field - The IceType field definition
+ * @param dialect - The SQL dialect
+ * @returns The check constraint, or undefined if nothing applies
+ */
+export function generateFieldCheckConstraint(
+  tableName: string,
+  columnName: string,
+  field: FieldDefinition,
+  dialect: SqlDialect
+): CheckConstraint | undefined {
+  if (!hasFieldConstraints(field.constraints) || field.isArray) {
+    return undefined;
+  }
+
+  const expression = generateCheckExpression(
+    escapeIdentifier(columnName, dialect),
+    field.constraints,
+    dialect
+  );
+  if (expression === undefined) {
+    return undefined;
+  }
+
+  return { name: getCheckConstraintName(tableName, columnName), expression };
+}
+
+// =============================================================================
+// Row Expiry
+// =============================================================================
+
+/**
+ * Generate a DELETE statement purging rows that have outlived the schema's
+ * `$ttl`, for databases without native row expiry.
+ *
+ * @param tableName - The table name
+ * @param schemaName - Optional schema name
+ * @param ttl - The TTL directive
+ * @param dialect - The SQL dialect
+ * @param fieldType - The IceType type of the TTL field
+ * @returns The DELETE statement, or undefined if the directive never deletes
+ */
+export function generateTtlPurge(
+  tableName: string,
+  schemaName: string | undefined,
+  ttl: TtlDirective,
+  dialect: TtlPurgeDialect,
+  fieldType?: string
+): string | undefined {
+  const table = schemaName
+    ? `${escapeIdentifier(schemaName, dialect)}.${escapeIdentifier(tableName, dialect)}`
+    : escapeIdentifier(tableName, dialect);
+  return generateTtlPurgeStatement(table, escapeIdentifier(ttl.field, dialect), ttl, dialect, fieldType);
+}
+
+/**
+ * Render a purge statement as a commented block to append after the
+ * CREATE TABLE statement, since it has to be run on a schedule rather
+ * than once.
+ *
+ * @param purge - The purge statement
+ * @returns The commented block
+ */
+export function serializeTtlPurge(purge: string): string {
+  return ['-- Purge expired rows ($ttl); run on a schedule:', `-- ${purge}`].join('\n');
+}
+
+// =============================================================================
+// Sort Order
+// =============================================================================
+
+/**
+ * Render the schema's `$orderBy` sort keys as ORDER BY columns, e.g.
+ * `"createdAt" DESC NULLS LAST`.
+ *
+ * Time and truncate transforms preserve their field's order, so those keys
+ * sort by the field itself. Bucket keys are hashes with no useful order
+ * and are skipped. Each field is listed at most once.
+ *
+ * @param orderBy - The sort keys
+ * @param dialect - The SQL dialect
+ * @returns The ORDER BY columns
+ */
+export function generateOrderByColumns(orderBy: OrderByField[], dialect: SqlDialect): string[] {
+  const seen = new Set<string>();
+  const columns: string[] = [];
+  for (const key of orderBy) {
+    if (key.transform === 'bucket' || seen.has(key.field)) continue;
+    seen.add(key.field);
+    columns.push(
+      `${escapeIdentifier(key.field, dialect)} ${key.direction.toUpperCase()} NULLS ${key.nulls.toUpperCase()}`
+    );
+  }
+  return columns;
+}
+
+/**
+ * Render ORDER BY columns as a commented hint to append after the CREATE
+ * TABLE statement, for databases that cluster data by insertion order.
+ *
+ * @param columns - The ORDER BY columns
+ * @returns The commented block
+ */
+export function serializeOrderByHint(columns: string[]): string {
+  return [
+    '-- Sort order ($orderBy); insert rows in this order to cluster them:',
+    `-- ORDER BY ${columns.join(', ')}`,
+  ].join('\n');
+}
+
 // =============================================================================
 // Foreign Key Re-exports
 // =============================================================================
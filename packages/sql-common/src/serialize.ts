@@ -95,6 +95,8 @@ export interface DDLStructure {
   // PostgreSQL-specific options
   /** Use UNLOGGED table for PostgreSQL */
   unlogged?: boolean;
+  /** PARTITION BY clause for PostgreSQL, e.g. `RANGE ("createdAt")` */
+  partitionBy?: string;
 
   // DuckDB-specific options
   /** Use TEMPORARY table for DuckDB */
@@ -324,6 +326,10 @@ export function serializeDDL(ddl: DDLStructure, dialect: SqlDialect): string {
     lines[lines.length - 1] += ';';
   } else {
     // PostgreSQL, DuckDB, ClickHouse
+    if (dialect === 'postgres' && ddl.partitionBy) {
+      lines[lines.length - 1] += ` PARTITION BY ${ddl.partitionBy}`;
+    }
+
     lines[lines.length - 1] += ';';
   }
 
@@ -15,6 +15,8 @@ import {
   serializeColumn,
   generateSystemColumns,
   generateIndexStatements,
+  formatEnumValues,
+  generateFieldCheckConstraint,
   validateSchemaName,
   InvalidSchemaNameError,
   type SqlDialect,
@@ -398,6 +400,20 @@ describe('generateIndexStatements()', () => {
   });
 });
 
+// =============================================================================
+// formatEnumValues() Tests
+// =============================================================================
+
+describe('formatEnumValues()', () => {
+  it('should quote and join values in declaration order', () => {
+    expect(formatEnumValues(['active', 'inactive', 'banned'])).toBe("'active', 'inactive', 'banned'");
+  });
+
+  it('should escape single quotes in values', () => {
+    expect(formatEnumValues(["it's", 'ok'])).toBe("'it''s', 'ok'");
+  });
+});
+
 // =============================================================================
 // validateSchemaName() Tests
 // =============================================================================
@@ -492,3 +508,29 @@ describe('validateSchemaName()', () => {
     });
   });
 });
+
+describe('generateFieldCheckConstraint', () => {
+  const field = {
+    name: 'order',
+    type: 'int',
+    modifier: '' as const,
+    isArray: false,
+    isOptional: false,
+    isUnique: false,
+    isIndexed: false,
+    constraints: { min: 1 },
+  };
+
+  it('should escape the column for each dialect', () => {
+    expect(generateFieldCheckConstraint('items', 'order', field, 'postgres')).toEqual({
+      name: 'items_order_check',
+      expression: '"order" >= 1',
+    });
+    expect(generateFieldCheckConstraint('items', 'order', field, 'mysql')?.expression).toBe('`order` >= 1');
+  });
+
+  it('should return undefined for unconstrained and array fields', () => {
+    expect(generateFieldCheckConstraint('items', 'order', { ...field, constraints: {} }, 'postgres')).toBeUndefined();
+    expect(generateFieldCheckConstraint('items', 'order', { ...field, isArray: true }, 'postgres')).toBeUndefined();
+  });
+});
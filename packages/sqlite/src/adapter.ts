@@ -17,9 +17,12 @@ import type {
 
 import {
   fieldToSQLiteColumn,
+  generateEnumCheckConstraint,
   generateSystemColumns,
   serializeDDL,
   generateIndexStatements,
+  generateFieldCheckConstraint,
+  generateTtlPurge,
 } from './ddl.js';
 
 import { VERSION } from './version.js';
@@ -83,7 +86,9 @@ export class SQLiteAdapter
   ): SQLiteDDL {
     const columns: SQLiteColumn[] = [];
     const primaryKey: string[] = [];
+    const tableName = options?.tableName ?? schema.name;
     const warnings: SQLiteDDLWarning[] = [];
+    const checkConstraints: Array<{ name?: string; expression: string }> = [];
 
     // Add system fields if requested (default: true)
     const includeSystemFields = options?.includeSystemFields ?? true;
@@ -107,11 +112,21 @@ export class SQLiteAdapter
       if (result.warning) {
         warnings.push(result.warning);
       }
+
+      const enumCheck = generateEnumCheckConstraint(fieldName, fieldDef);
+      if (enumCheck) {
+        checkConstraints.push(enumCheck);
+      }
+
+      const constraintCheck = generateFieldCheckConstraint(tableName, fieldName, fieldDef);
+      if (constraintCheck) {
+        checkConstraints.push(constraintCheck);
+      }
     }
 
     // Build DDL structure
     const ddl: SQLiteDDL = {
-      tableName: options?.tableName ?? schema.name,
+      tableName,
       columns,
       primaryKey: primaryKey.length > 0 ? primaryKey : undefined,
       ifNotExists: options?.ifNotExists,
@@ -131,6 +146,18 @@ export class SQLiteAdapter
       ddl.uniqueConstraints = uniqueColumns.map(c => [c.name]);
     }
 
+    if (checkConstraints.length > 0) {
+      ddl.checkConstraints = checkConstraints;
+    }
+
+    if (schema.directives.ttl) {
+      const ttl = schema.directives.ttl;
+      const ttlPurge = generateTtlPurge(tableName, ttl, schema.fields.get(ttl.field)?.type);
+      if (ttlPurge) {
+        ddl.ttlPurge = ttlPurge;
+      }
+    }
+
     return ddl;
   }
 
@@ -7,12 +7,17 @@
  * @packageDocumentation
  */
 
-import type { Brand, FieldDefinition } from '@icetype/core';
+import type { Brand, FieldDefinition, TtlDirective } from '@icetype/core';
 import {
   escapeIdentifier as sqlCommonEscapeIdentifier,
   formatDefaultValue as sqlCommonFormatDefaultValue,
   generateSystemColumns as sqlCommonGenerateSystemColumns,
+  generateFieldCheckConstraint as sqlCommonGenerateFieldCheckConstraint,
+  generateTtlPurge as sqlCommonGenerateTtlPurge,
+  serializeTtlPurge,
+  formatEnumValues,
   type SqlColumn,
+  type CheckConstraint,
 } from '@icetype/sql-common';
 
 import type {
@@ -176,6 +181,30 @@ export function fieldToSQLiteColumn(
   return { column, warning };
 }
 
+/**
+ * Generate a CHECK constraint restricting a declared enum field to its values.
+ *
+ * SQLite has no enum type, so enum columns are stored as TEXT and guarded
+ * by `CHECK (column IN (...))`. Array fields are stored as JSON and are
+ * not constrained.
+ *
+ * @param fieldName - The field name
+ * @param field - The IceType field definition
+ * @returns The check constraint, or undefined if the field is not an enum
+ */
+export function generateEnumCheckConstraint(
+  fieldName: string,
+  field: FieldDefinition
+): { expression: string } | undefined {
+  if (field.enumValues === undefined || field.isArray) {
+    return undefined;
+  }
+
+  return {
+    expression: `${escapeIdentifier(fieldName)} IN (${formatEnumValues(field.enumValues)})`,
+  };
+}
+
 /**
  * Format a default value as a SQL expression for SQLite.
  *
@@ -367,9 +396,51 @@ export function serializeDDL(ddl: SQLiteDDL): string {
 
   lines[lines.length - 1] += ';';
 
+  // SQLite has no scheduler, so the purge is left for the caller to run
+  if (ddl.ttlPurge) {
+    lines.push('', serializeTtlPurge(ddl.ttlPurge));
+  }
+
   return lines.join('\n');
 }
 
+/**
+ * Generate a named CHECK constraint for a field's `$constraints` entry.
+ *
+ * SQLite has no built-in regular expression function, so `pattern` and
+ * `format` constraints are not enforced.
+ *
+ * @param tableName - The table name, used to name the constraint
+ * @param fieldName - The field name
+ * @param field - The IceType field definition
+ * @returns The check constraint, or undefined if the field is unconstrained
+ */
+export function generateFieldCheckConstraint(
+  tableName: string,
+  fieldName: string,
+  field: FieldDefinition
+): CheckConstraint | undefined {
+  return sqlCommonGenerateFieldCheckConstraint(tableName, fieldName, field, 'sqlite');
+}
+
+/**
+ * Generate a DELETE statement purging rows past a schema's `$ttl`.
+ *
+ * Timestamps are stored as ISO 8601 text, so the cutoff is compared as text.
+ *
+ * @param tableName - The table name
+ * @param ttl - The TTL directive
+ * @param fieldType - The IceType type of the TTL field
+ * @returns The DELETE statement, or undefined if the directive never deletes
+ */
+export function generateTtlPurge(
+  tableName: string,
+  ttl: TtlDirective,
+  fieldType?: string
+): string | undefined {
+  return sqlCommonGenerateTtlPurge(tableName, undefined, ttl, 'sqlite', fieldType);
+}
+
 /**
  * Generate index DDL statements for indexed fields.
  *
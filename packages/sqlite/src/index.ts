@@ -79,11 +79,14 @@ export {
   mapIceTypeToSQLite,
   getSQLiteTypeString,
   fieldToSQLiteColumn,
+  generateEnumCheckConstraint,
   formatDefaultValue,
   generateSystemColumns,
   escapeIdentifier,
   serializeColumn,
   serializeDDL,
+  generateFieldCheckConstraint,
+  generateTtlPurge,
   generateIndexStatements,
 } from './ddl.js';
 
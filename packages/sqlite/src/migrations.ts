@@ -19,6 +19,7 @@
  */
 
 import type { SchemaDiff, SchemaChange, FieldDefinition } from '@icetype/core';
+import { generateCheckExpression, getCheckConstraintName } from '@icetype/core';
 
 // =============================================================================
 // Types
@@ -66,6 +67,8 @@ export interface TableSchema {
   primaryKey?: string[];
   /** Unique constraints */
   uniqueConstraints?: string[][];
+  /** Named check constraints */
+  checkConstraints?: Array<{ name: string; expression: string }>;
 }
 
 /**
@@ -179,12 +182,30 @@ function requiresTableRecreation(change: SchemaChange): boolean {
     case 'remove_field':
     case 'change_type':
     case 'change_modifier':
+    case 'add_constraint':
+    case 'drop_constraint':
       return true;
     default:
       return false;
   }
 }
 
+/**
+ * Get the fields added by a diff.
+ *
+ * Constraints on these fields are declared inline with ADD COLUMN, so their
+ * add_constraint changes need no separate statement.
+ */
+function getAddedFields(diff: SchemaDiff): Set<string> {
+  const fields = new Set<string>();
+  for (const change of diff.changes) {
+    if (change.type === 'add_field') {
+      fields.add(change.field);
+    }
+  }
+  return fields;
+}
+
 // =============================================================================
 // SQLiteMigrationGenerator Class
 // =============================================================================
@@ -231,6 +252,7 @@ export class SQLiteMigrationGenerator implements MigrationGenerator {
     const statements: string[] = [];
     const quote = !!this.options.quoteIdentifiers;
     const tableName = quoteIdentifier(diff.schemaName, quote);
+    const addedFields = getAddedFields(diff);
 
     for (const change of diff.changes) {
       switch (change.type) {
@@ -242,9 +264,14 @@ export class SQLiteMigrationGenerator implements MigrationGenerator {
           statements.push(this.generateRenameColumn(tableName, change, quote));
           break;
 
+        case 'add_constraint':
+          // Already declared inline with ADD COLUMN
+          if (addedFields.has(change.field)) break;
+        // falls through
         case 'remove_field':
         case 'change_type':
         case 'change_modifier':
+        case 'drop_constraint':
           // These require table recreation - add a comment indicating this
           statements.push(
             `-- SQLite: ${change.type} requires table recreation. Use generateWithSchema() for full migration.${ending(this.options)}`
@@ -281,8 +308,12 @@ export class SQLiteMigrationGenerator implements MigrationGenerator {
     // Separate simple and complex changes
     const simpleChanges: SchemaChange[] = [];
     const complexChanges: SchemaChange[] = [];
+    const addedFields = getAddedFields(diff);
 
     for (const change of diff.changes) {
+      if (change.type === 'add_constraint' && addedFields.has(change.field)) {
+        continue;
+      }
       if (requiresTableRecreation(change)) {
         complexChanges.push(change);
       } else {
@@ -369,6 +400,13 @@ export class SQLiteMigrationGenerator implements MigrationGenerator {
           );
           break;
 
+        case 'add_constraint':
+        case 'drop_constraint':
+          statements.push(
+            `-- SQLite: Rollback constraint change requires table recreation. Use generateRollbackWithSchema().${ending(this.options)}`
+          );
+          break;
+
         case 'change_directive':
           if (change.directive === '$index' && change.newValue) {
             // Rollback: drop the created indexes
@@ -442,6 +480,10 @@ export class SQLiteMigrationGenerator implements MigrationGenerator {
       for (const change of [...complexChanges].reverse()) {
         if (change.type === 'add_field') {
           rollbackChanges.push({ type: 'remove_field', field: change.field });
+        } else if (change.type === 'add_constraint') {
+          rollbackChanges.push({ ...change, type: 'drop_constraint' });
+        } else if (change.type === 'drop_constraint') {
+          rollbackChanges.push({ ...change, type: 'add_constraint' });
         }
         // Other rollbacks are more complex and need the original schema
       }
@@ -485,6 +527,15 @@ export class SQLiteMigrationGenerator implements MigrationGenerator {
       sql += ` DEFAULT ${formatDefaultValue(change.definition.defaultValue, sqlType)}`;
     }
 
+    // SQLite allows CHECK constraints on added columns
+    if (change.definition.constraints) {
+      const expression = generateCheckExpression(column, change.definition.constraints, 'sqlite');
+      if (expression !== undefined) {
+        const name = getCheckConstraintName(tableName.replace(/"/g, ''), change.field);
+        sql += ` CONSTRAINT ${quoteIdentifier(name, quote)} CHECK (${expression})`;
+      }
+    }
+
     return sql + ending(this.options);
   }
 
@@ -545,11 +596,16 @@ export class SQLiteMigrationGenerator implements MigrationGenerator {
     let newColumns = [...tableSchema.columns];
     const typeChanges = new Map<string, string>(); // field -> new SQLite type
     const modifierChanges = new Map<string, boolean>(); // field -> isNullable
+    const checkConstraints = new Map<string, string>(); // name -> expression
+    for (const check of tableSchema.checkConstraints ?? []) {
+      checkConstraints.set(check.name, check.expression);
+    }
 
     for (const change of changes) {
       switch (change.type) {
         case 'remove_field':
           newColumns = newColumns.filter((c) => c.name !== change.field);
+          checkConstraints.delete(getCheckConstraintName(rawTableName, change.field));
           break;
 
         case 'change_type':
@@ -567,6 +623,22 @@ export class SQLiteMigrationGenerator implements MigrationGenerator {
           const setNotNull = change.newModifier === '!' || change.newModifier === '#';
           modifierChanges.set(change.field, !setNotNull);
           break;
+
+        case 'add_constraint': {
+          const expression = generateCheckExpression(
+            quoteIdentifier(change.field, quote),
+            change.constraints,
+            'sqlite'
+          );
+          if (expression !== undefined) {
+            checkConstraints.set(getCheckConstraintName(rawTableName, change.field), expression);
+          }
+          break;
+        }
+
+        case 'drop_constraint':
+          checkConstraints.delete(getCheckConstraintName(rawTableName, change.field));
+          break;
       }
     }
 
@@ -608,6 +680,11 @@ export class SQLiteMigrationGenerator implements MigrationGenerator {
       }
     }
 
+    // Add check constraints that remain after the changes
+    for (const [name, expression] of checkConstraints) {
+      columnDefs.push(`CONSTRAINT ${quoteIdentifier(name, quote)} CHECK (${expression})`);
+    }
+
     statements.push(
       `CREATE TABLE ${tableName} (${columnDefs.join(', ')})${ending(this.options)}`
     );
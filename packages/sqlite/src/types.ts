@@ -118,6 +118,8 @@ export interface SQLiteDDL {
     onDelete?: 'CASCADE' | 'SET NULL' | 'SET DEFAULT' | 'RESTRICT' | 'NO ACTION';
     onUpdate?: 'CASCADE' | 'SET NULL' | 'SET DEFAULT' | 'RESTRICT' | 'NO ACTION';
   }>;
+  /** DELETE statement purging rows past the schema's `$ttl` */
+  ttlPurge?: string;
   /** Warnings generated during transformation */
   warnings?: SQLiteDDLWarning[];
 }
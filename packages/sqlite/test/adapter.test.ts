@@ -11,6 +11,7 @@ import type { IceTypeSchema } from '@icetype/core';
 import {
   SQLiteAdapter,
   createSQLiteAdapter,
+  generateEnumCheckConstraint,
   transformToSQLiteDDL,
   generateSQLiteDDL,
   mapIceTypeToSQLite,
@@ -1140,3 +1141,83 @@ describe('Array Type Handling', () => {
     });
   });
 });
+
+describe('SQLiteAdapter enum types', () => {
+  const schema = parseSchema({
+    $type: 'User',
+    $enums: { Status: ['active', 'inactive'] },
+    status: "enum<Status> = 'active'",
+    history: 'enum<Status>[]',
+  });
+
+  it('should guard declared enums with a CHECK constraint', () => {
+    const ddl = new SQLiteAdapter().transform(schema);
+    expect(ddl.columns.find(c => c.name === 'status')?.type).toBe('TEXT');
+    expect(ddl.checkConstraints).toEqual([{ expression: "status IN ('active', 'inactive')" }]);
+  });
+
+  it('should serialize the CHECK constraint', () => {
+    const adapter = new SQLiteAdapter();
+    const sql = adapter.serialize(adapter.transform(schema));
+    expect(sql).toContain("CHECK (status IN ('active', 'inactive'))");
+  });
+
+  it('should not constrain enum arrays stored as JSON', () => {
+    expect(generateEnumCheckConstraint('history', schema.fields.get('history')!)).toBeUndefined();
+  });
+});
+
+describe('SQLiteAdapter field constraints', () => {
+  it('should generate CHECK constraints alongside enum checks', () => {
+    const adapter = new SQLiteAdapter();
+    const schema = parseSchema({
+      $type: 'User',
+      $enums: { Status: ['active', 'inactive'] },
+      $constraints: { age: { min: 0 } },
+      status: 'enum<Status>',
+      age: 'int',
+    });
+
+    const ddl = adapter.transform(schema);
+    expect(ddl.checkConstraints).toEqual([
+      { expression: "status IN ('active', 'inactive')" },
+      { name: 'User_age_check', expression: 'age >= 0' },
+    ]);
+    expect(adapter.serialize(ddl)).toContain('CONSTRAINT User_age_check CHECK (age >= 0)');
+  });
+
+  it('should skip pattern constraints SQLite cannot evaluate', () => {
+    const adapter = new SQLiteAdapter();
+    const schema = parseSchema({
+      $type: 'User',
+      $constraints: { email: { format: 'email' } },
+      email: 'string',
+    });
+
+    expect(adapter.transform(schema).checkConstraints).toBeUndefined();
+  });
+});
+
+describe('SQLiteAdapter $ttl', () => {
+  it('should compare timestamps as ISO 8601 text', () => {
+    const adapter = new SQLiteAdapter();
+    const schema = parseSchema({
+      $type: 'Event',
+      $ttl: 'createdAt + 30d',
+      createdAt: 'timestamp!',
+    });
+
+    const ddl = adapter.transform(schema);
+    expect(ddl.ttlPurge).toBe(
+      "DELETE FROM Event WHERE createdAt < strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '-30 days');"
+    );
+    expect(adapter.serialize(ddl)).toContain('-- Purge expired rows ($ttl); run on a schedule:');
+  });
+
+  it('should compare date fields as dates', () => {
+    const adapter = new SQLiteAdapter();
+    const schema = parseSchema({ $type: 'Event', $ttl: 'day + 1y', day: 'date!' });
+
+    expect(adapter.transform(schema).ttlPurge).toBe("DELETE FROM Event WHERE day < date('now', '-1 year');");
+  });
+});
@@ -575,3 +575,58 @@ describe('createSQLiteMigrationGenerator', () => {
     expect(generator).toBeInstanceOf(SQLiteMigrationGenerator);
   });
 });
+
+// =============================================================================
+// Constraint Tests
+// =============================================================================
+
+describe('SQLiteMigrationGenerator constraints', () => {
+  const tableSchema: TableSchema = {
+    tableName: 'User',
+    columns: [
+      { name: 'id', type: 'TEXT', nullable: false, primaryKey: true },
+      { name: 'age', type: 'INTEGER', nullable: true },
+    ],
+    primaryKey: ['id'],
+    checkConstraints: [{ name: 'User_age_check', expression: 'age >= 0' }],
+  };
+
+  it('should declare constraints inline for added columns', () => {
+    const generator = new SQLiteMigrationGenerator();
+    const diff = createMockDiff([
+      {
+        type: 'add_field',
+        field: 'score',
+        definition: createFieldDef({ name: 'score', type: 'int', isOptional: true, constraints: { min: 0 } }),
+      },
+      { type: 'add_constraint', field: 'score', constraints: { min: 0 } },
+    ]);
+
+    expect(generator.generate(diff)).toEqual([
+      'ALTER TABLE User ADD COLUMN score INTEGER CONSTRAINT User_score_check CHECK (score >= 0);',
+    ]);
+  });
+
+  it('should recreate the table to change existing constraints', () => {
+    const generator = new SQLiteMigrationGenerator();
+    const diff = createMockDiff([
+      { type: 'drop_constraint', field: 'age', constraints: { min: 0 } },
+      { type: 'add_constraint', field: 'age', constraints: { min: 0, max: 150 } },
+    ]);
+
+    expect(generator.generate(diff)[0]).toContain('requires table recreation');
+
+    const statements = generator.generateWithSchema(diff, tableSchema);
+    expect(statements).toContain(
+      'CREATE TABLE User (id TEXT NOT NULL, age INTEGER, PRIMARY KEY (id), CONSTRAINT User_age_check CHECK (age >= 0 AND age <= 150));'
+    );
+  });
+
+  it('should drop constraints of removed columns during recreation', () => {
+    const generator = new SQLiteMigrationGenerator();
+    const diff = createMockDiff([{ type: 'remove_field', field: 'age' }]);
+
+    const statements = generator.generateWithSchema(diff, tableSchema);
+    expect(statements).toContain('CREATE TABLE User (id TEXT NOT NULL, PRIMARY KEY (id));');
+  });
+});